@@ -5,6 +5,155 @@ import { pokemonSystem } from '@/lib/game-logic/pokemon-system'
 import { economySystem } from '@/lib/game-logic/economy-system'
 import { facilitySystem } from '@/lib/game-logic/facility-system'
 import { trainerSystem } from '@/lib/game-logic/trainer-system'
+import { GameRandom } from '@/lib/game-logic/random-system'
+import { simulateExpeditionCatchUp } from '@/lib/expedition/ExpeditionSimulator'
+import {
+  validateTeam,
+  combineTeamSkills,
+  calculateTeamSynergy,
+  calculateJobComplementarity,
+  evaluateTeam,
+  createTeamTrainer,
+  distributeTeamRewards
+} from '@/lib/expedition/ExpeditionTeam'
+import {
+  validateParty,
+  calculateTypeAdvantage,
+  evaluateParty,
+  createPartyRoster,
+  selectBattleLead,
+  recordPartyBattle,
+  applyEventDamage,
+  summarizePartyRoster,
+  calculatePartyExperience
+} from '@/lib/expedition/ExpeditionParty'
+import { createInitialGameData, type Expedition, type Facility, type Item, type Pokemon } from '@/lib/game-state/types'
+import { addItemToInventory, removeItemFromInventory, countItem, calculateInventoryCapacity, getAvailableSpace, INVENTORY_BASE_CAPACITY } from '@/lib/game-state/inventory'
+import { createItem } from '@/lib/static-data/items'
+import { createInitialAchievementState, extractMetricUpdates, applyMetricUpdate } from '@/lib/game-state/achievements'
+import type { DataChangeEvent } from '@/lib/real-time/RealtimeManager'
+import { createEmptyTaskBoard, refreshTaskBoard, getDailyKey, getWeeklyKey, generateDailyTasks, applyTaskEvent } from '@/lib/game-state/tasks'
+import { pokemonBattleSystem, type BattleCombatant } from '@/lib/pokemon/PokemonBattleSystem'
+import { pokemonGrowthSystem } from '@/lib/pokemon/PokemonGrowthSystem'
+import type { PokemonInstance } from '@/lib/schemas/pokemon'
+import { getMoveDefinition, getMovePP } from '@/lib/static-data/moves'
+import { getMovesLearnedBetween } from '@/lib/static-data/learnsets'
+import { getEventCalendar, getActiveEvents, getEventRewardMultiplier, getShopPrice, getEventEncounterBonuses } from '@/lib/game-logic/event-calendar'
+import { pokemonEncounterSystem } from '@/lib/pokemon/PokemonEncounterSystem'
+import { WorldClock, getTimeOfDay, getSeason, generateLocationWeather, getEnvironmentModifier } from '@/lib/game-logic/world-clock'
+import { getLocationDefinition } from '@/lib/static-data/locations'
+import { migrateGameData, planGameDataMigration, migrateUnifiedSaveData, loadStoredGameData } from '@/lib/game-state/migrations'
+import { CURRENT_GAME_VERSION } from '@/lib/game-data/GameDataSchema'
+import { hashSeed } from '@/lib/game-logic/random-system'
+import { FinancialLedger, type LedgerEntry } from '@/lib/game-logic/financial-ledger'
+import {
+  LOAN_PRODUCTS,
+  calculateLoanSchedule,
+  createInitialFinanceState,
+  createLoan,
+  validateLoanRequest,
+  collectDueInstallments,
+  getOutstandingDebt,
+  applyMissedPayroll,
+  settleUnpaidWages,
+  updateBankruptcyState,
+  isFinanceActionLocked
+} from '@/lib/game-state/finance'
+import {
+  createEmptyMarketState,
+  getSupplyLevel,
+  getPokemonDemandLevel,
+  getPokemonMarketPrice,
+  getItemMarketPrice,
+  calculateBuyerArrival,
+  getBuyerChance,
+  createMarketListing,
+  collectSettledListings,
+  refreshMarketStock,
+  createPokemonFromOffer,
+  MARKET_STOCK_SIZE
+} from '@/lib/game-state/market'
+import {
+  calculateRecoveryRate,
+  createMedicalCondition,
+  mergeMedicalCondition,
+  advanceRecovery,
+  applyTreatment,
+  estimateRecoveryTime,
+  rollExpeditionInjuries
+} from '@/lib/game-state/medical'
+import {
+  applyExpeditionFatigue,
+  calculateRestRate,
+  restTrainer,
+  getExhaustionSeverity,
+  updateSuccessStreak,
+  calculateMoraleTarget,
+  calculateBurnout,
+  calculateBurnoutModifier,
+  calculateQuitChance
+} from '@/lib/game-state/wellbeing'
+import {
+  createContract,
+  getContractDaysLeft,
+  isRenewalOpen,
+  calculateSalaryDemand,
+  evaluateRenewalOffer,
+  calculateResignationChance,
+  calculateSeverance,
+  createFormerTrainerRecord
+} from '@/lib/game-state/employment'
+import {
+  getEarnedSkillPoints,
+  getAvailableSkillPoints,
+  addLevelUpSkillPoints,
+  validateAbilityUnlock,
+  unlockAbility,
+  validateSpecialization,
+  getTrainerAbilityEffects,
+  getStaffAbilityBonus
+} from '@/lib/game-state/skills'
+import {
+  calculateTrainingCapacity,
+  validateEnrollment,
+  createCourseEnrollment,
+  isCourseComplete,
+  getCourseProgress,
+  applyCourseGains,
+  describeCourseGains
+} from '@/lib/game-state/courses'
+import { getTrainingCourse } from '@/lib/static-data/training-courses'
+import { PokemonBreedingSystem, type PokemonEgg } from '@/lib/pokemon/PokemonBreedingSystem'
+import {
+  validateBreedingPair,
+  validateEggCarrier,
+  calculateExpeditionDistance,
+  calculateEggSteps
+} from '@/lib/game-state/daycare'
+import { PokemonTrainingFacility } from '@/lib/pokemon/PokemonTrainingFacility'
+import {
+  STAT_KEYS,
+  BASE_INHERITED_IV_COUNT,
+  BASE_SHINY_CHANCE,
+  COMPATIBLE_SHINY_CHANCE,
+  DIFFERENT_TRAINER_SHINY_MULTIPLIER,
+  calculateOffspringDistribution,
+  calculateShinyChance,
+  rollOffspring,
+  getEggMoves,
+  getHatchlingMoves
+} from '@/lib/pokemon/BreedingInheritance'
+import {
+  MAX_TOTAL_EVS,
+  createEmptyEffortValues,
+  addEffortValues,
+  getBattleEffortYield,
+  reduceEffortValues,
+  applyEffortValues,
+  getEffortStatBonus,
+  getTotalEffortValues
+} from '@/lib/pokemon/EffortValues'
+import { queuePendingMoves, validateMoveChoice } from '@/lib/game-state/moves'
 
 describe('統合テスト: ゲームシステム全体', () => {
   beforeEach(() => {
@@ -318,6 +467,8 @@ describe('統合テスト: ゲームシステム全体', () => {
         expect(levelUpResult.result.newLevel).toBeGreaterThan(initialLevel)
         expect(levelUpResult.result.skillsImproved.length).toBeGreaterThan(0)
         expect(levelUpResult.result.salaryIncrease).toBeGreaterThan(0)
+        expect(levelUpResult.result.skillPointsGained).toBe(levelUpResult.result.newLevel - initialLevel)
+        expect(trainer.skill_points).toBe(levelUpResult.result.skillPointsGained)
         
         // スキルが向上していることを確認
         const improvedSkills = levelUpResult.result.skillsImproved
@@ -328,6 +479,1504 @@ describe('統合テスト: ゲームシステム全体', () => {
     })
   })
 
+  describe('乱数システム', () => {
+    test('同じシードから同じ乱数列が得られる', () => {
+      const a = new GameRandom(12345)
+      const b = new GameRandom(12345)
+      const seqA = Array.from({ length: 10 }, () => a.next())
+      const seqB = Array.from({ length: 10 }, () => b.next())
+      expect(seqA).toEqual(seqB)
+    })
+
+    test('fork はラベルごとに独立した再現可能な乱数列を返す', () => {
+      const root = new GameRandom(42)
+      const events1 = root.fork('events')
+      const events2 = new GameRandom(42).fork('events')
+      const rewards = root.fork('rewards')
+
+      expect(events1.getSeed()).toBe(events2.getSeed())
+      expect(events1.getSeed()).not.toBe(rewards.getSeed())
+      expect(events1.integer(0, 1000)).toBe(events2.integer(0, 1000))
+    })
+  })
+
+  describe('オフライン派遣キャッチアップ', () => {
+    const trainer = createInitialGameData('test', 'テスト', 'テスト訓練所').trainers[0]
+    const startTime = new Date('2024-01-01T09:00:00Z').getTime()
+    const expedition: Expedition = {
+      id: 'catch_up_test',
+      trainerId: trainer.id,
+      locationId: 1,
+      mode: 'balanced',
+      targetDuration: 4,
+      strategy: [],
+      seed: 20240101,
+      status: 'active',
+      startTime: new Date(startTime).toISOString(),
+      estimatedEndTime: new Date(startTime + 4 * 60 * 60 * 1000).toISOString(),
+      currentProgress: 0,
+      events: [],
+      interventions: [],
+      createdAt: new Date(startTime).toISOString(),
+      updatedAt: new Date(startTime).toISOString()
+    }
+
+    test('終了時刻前は進行率とイベントのみを返す', async () => {
+      const result = await simulateExpeditionCatchUp(expedition, trainer, 2 * 60 * 60 * 1000)
+
+      expect(result.completed).toBe(false)
+      expect(result.progress).toBeCloseTo(0.5)
+      expect(result.currentStage).toBe('middle')
+      expect(result.stagesReached).toEqual(['preparation', 'early', 'middle'])
+      expect(result.result).toBeUndefined()
+      result.events.forEach(event => expect(event.resolved).toBe(true))
+    })
+
+    test('終了時刻を過ぎた派遣は同じシードで同じ結果に解決される', async () => {
+      const elapsed = 10 * 60 * 60 * 1000
+      const first = await simulateExpeditionCatchUp(expedition, trainer, elapsed)
+      const second = await simulateExpeditionCatchUp(expedition, trainer, elapsed)
+
+      expect(first.completed).toBe(true)
+      expect(first.result).toBeDefined()
+      expect(first.events.length).toBeGreaterThan(0)
+      expect(second.events.map(e => [e.type, e.chosenAction])).toEqual(first.events.map(e => [e.type, e.chosenAction]))
+      expect(second.result?.moneyEarned).toBe(first.result?.moneyEarned)
+      expect(second.result?.pokemonCaught.map(p => [p.speciesId, p.level, p.nature]))
+        .toEqual(first.result?.pokemonCaught.map(p => [p.speciesId, p.level, p.nature]))
+    })
+
+    test('開催中イベントの効果は帰還時点で判定し、計算した時刻によって報酬が変わらない', async () => {
+      const elapsed = 10 * 60 * 60 * 1000
+      const resolveAt = async (now: string) => {
+        jest.useFakeTimers({ now: new Date(now), doNotFake: ['setTimeout', 'setInterval', 'setImmediate', 'nextTick', 'queueMicrotask'] })
+        try {
+          return await simulateExpeditionCatchUp({ ...expedition, id: `catch_up_event_${now}` }, trainer, elapsed)
+        } finally {
+          jest.useRealTimers()
+        }
+      }
+
+      // 開所記念祭（報酬1.5倍）の開催中に計算しても、帰還時点で開催していなければ効果はない
+      const duringEvent = await resolveAt('2026-11-05T12:00:00Z')
+      const outsideEvent = await resolveAt('2024-05-15T12:00:00Z')
+      expect(duringEvent.result?.moneyEarned).toBe(outsideEvent.result?.moneyEarned)
+    })
+  })
+
+  describe('チーム派遣', () => {
+    const [ranger, battler, breeder] = createInitialGameData('team', 'テスト', 'テスト訓練所').trainers
+
+    test('スキルの合算・チームワークの相性・職業の補完性からチームを評価する', () => {
+      expect(combineTeamSkills([ranger, battler])).toEqual({ capture: 9.3, exploration: 8, battle: 9.5, research: 5.8, healing: 4.5 })
+      expect(calculateTeamSynergy([ranger])).toBe(0)
+      expect(calculateTeamSynergy([ranger, battler, breeder])).toBeCloseTo(0.7)
+
+      // 職業が異なり得意分野を分担できるほど補完性が高い
+      const sameJob = [ranger, { ...battler, job: 'ranger' as const }]
+      expect(calculateJobComplementarity([ranger, breeder])).toBeGreaterThan(calculateJobComplementarity(sameJob))
+      expect(evaluateTeam([ranger]).successModifier).toBe(1)
+      expect(evaluateTeam([ranger, battler, breeder]).successModifier).toBeGreaterThan(evaluateTeam(sameJob).successModifier)
+
+      const team = createTeamTrainer([ranger, battler])
+      expect(team.id).toBe(ranger.id)
+      expect(team.level).toBe(4)
+      expect(createTeamTrainer([ranger])).toBe(ranger)
+
+      expect(validateTeam([ranger, battler])).toBeUndefined()
+      expect(validateTeam([ranger, battler, breeder, { ...ranger, id: 'a' }, { ...ranger, id: 'b' }])).toContain('4人')
+      expect(validateTeam([ranger, ranger])).toContain('重複')
+      expect(validateTeam([ranger, { ...battler, status: 'on_expedition' }])).toContain(battler.name)
+    })
+
+    test('経験値・稼ぎ・捕獲したポケモンをメンバーで分配する', async () => {
+      const shares = distributeTeamRewards({ trainerExpGained: 100, moneyEarned: 1000, pokemonCaught: [{}, {}, {}] as never[] }, ['a', 'b', 'c'])
+      expect(shares.map(share => share.experience)).toEqual([40, 40, 40])
+      expect(shares.map(share => share.earnings)).toEqual([334, 333, 333])
+      expect(shares.map(share => share.pokemonCaught)).toEqual([1, 1, 1])
+
+      const startTime = new Date('2024-01-01T09:00:00Z').getTime()
+      const expedition: Expedition = {
+        id: 'team_test',
+        trainerId: ranger.id,
+        memberIds: [ranger.id, battler.id],
+        locationId: 1,
+        mode: 'balanced',
+        targetDuration: 4,
+        strategy: [],
+        seed: 20240101,
+        status: 'active',
+        startTime: new Date(startTime).toISOString(),
+        estimatedEndTime: new Date(startTime + 4 * 60 * 60 * 1000).toISOString(),
+        currentProgress: 0,
+        events: [],
+        interventions: [],
+        createdAt: new Date(startTime).toISOString(),
+        updatedAt: new Date(startTime).toISOString()
+      }
+      const result = await simulateExpeditionCatchUp(expedition, [ranger, battler], 10 * 60 * 60 * 1000)
+      expect(result.completed).toBe(true)
+      result.result?.pokemonCaught.forEach((pokemon, index) => {
+        expect(pokemon.caughtBy).toBe([ranger.id, battler.id][index % 2])
+      })
+    })
+  })
+
+  describe('派遣パーティ', () => {
+    const gameData = createInitialGameData('party', 'テスト', 'テスト訓練所')
+    const [ranger, battler] = gameData.trainers
+    const createPartyPokemon = (id: string, speciesId: number, level: number): Pokemon => ({
+      ...gameData.pokemon[0],
+      id,
+      speciesId,
+      level
+    })
+    const charmander = createPartyPokemon('charmander', 4, 10)
+    const squirtle = createPartyPokemon('squirtle', 7, 10)
+
+    test('手持ちのタイプ相性とレベルで派遣先の成功度が変わり、編成には上限と重複の制限がある', () => {
+      // トキワの森はむしタイプが多く、ほのおタイプが有利
+      expect(calculateTypeAdvantage([charmander], 1)).toBeGreaterThan(calculateTypeAdvantage([squirtle], 1))
+      expect(evaluateParty([], 1).successModifier).toBe(1)
+      expect(evaluateParty([charmander], 1).successModifier).toBeGreaterThan(1)
+      expect(evaluateParty([createPartyPokemon('weak', 4, 1)], 1).successModifier)
+        .toBeLessThan(evaluateParty([charmander], 1).successModifier)
+
+      const pokemon = [charmander, squirtle]
+      const trainers = [ranger, { ...battler, party: ['squirtle'] }]
+      expect(validateParty(ranger, ['charmander'], trainers, pokemon)).toBeUndefined()
+      expect(validateParty(ranger, ['charmander', 'charmander'], trainers, pokemon)).toContain('重複')
+      expect(validateParty(ranger, Array.from({ length: 7 }, (_, i) => `p${i}`), trainers, pokemon)).toContain('6体')
+      expect(validateParty(ranger, ['squirtle'], trainers, pokemon)).toContain(battler.name)
+      expect(validateParty({ ...ranger, status: 'on_expedition' }, ['charmander'], trainers, pokemon)).toBeDefined()
+      expect(validateParty(ranger, ['charmander'], trainers, pokemon, [{ parent1Id: 'other', parent2Id: 'charmander' }]))
+        .toContain('育て屋')
+    })
+
+    test('イベントの失敗と捕獲前バトルでHPを消耗し、ひんしになった手持ちはけがとして報告される', async () => {
+      const roster = createPartyRoster([squirtle, charmander])
+      applyEventDamage(roster, 1, new GameRandom(1))
+      expect(roster.reduce((sum, member) => sum + member.pokemon.hp - member.currentHp, 0)).toBe(3)
+
+      // 相性の良いポケモンが先に戦い、ひんしになると交代する
+      const lead = selectBattleLead(roster, ['bug'])
+      expect(lead?.pokemon.id).toBe('charmander')
+      recordPartyBattle(lead!, 0, { attack: 2 })
+      expect(selectBattleLead(roster, ['bug'])?.pokemon.id).toBe('squirtle')
+
+      // 倒した相手の努力値は戦った手持ちに溜まる
+      const reports = summarizePartyRoster(roster)
+      expect(reports.find(report => report.pokemonId === 'charmander')).toMatchObject({ injured: true, battles: 1, effort: { attack: 2 } })
+      expect(reports.find(report => report.pokemonId === 'squirtle')?.effort).toEqual({})
+      expect(calculatePartyExperience(reports[1], 100, 2)).toBe(70)
+
+      const startTime = new Date('2024-01-01T09:00:00Z').getTime()
+      const expedition: Expedition = {
+        id: 'party_test',
+        trainerId: ranger.id,
+        partyIds: ['charmander'],
+        locationId: 1,
+        mode: 'balanced',
+        targetDuration: 4,
+        strategy: [],
+        seed: 20240101,
+        status: 'active',
+        startTime: new Date(startTime).toISOString(),
+        estimatedEndTime: new Date(startTime + 4 * 60 * 60 * 1000).toISOString(),
+        currentProgress: 0,
+        events: [],
+        interventions: [],
+        createdAt: new Date(startTime).toISOString(),
+        updatedAt: new Date(startTime).toISOString()
+      }
+      const withParty = await simulateExpeditionCatchUp(expedition, ranger, 10 * 60 * 60 * 1000, [charmander])
+      expect(withParty.result?.partyReports).toHaveLength(1)
+      expect(withParty.result?.partyReports?.[0].pokemonId).toBe('charmander')
+      // 捕獲前バトルに負けた（弱らせられなかった）相手からは努力値を得ない
+      expect(withParty.result?.partyReports?.[0]).toMatchObject({ battles: 1, injured: true, effort: {} })
+
+      const withoutParty = await simulateExpeditionCatchUp(expedition, ranger, 10 * 60 * 60 * 1000)
+      expect(withoutParty.result?.partyReports).toBeUndefined()
+    })
+  })
+
+  describe('インベントリ', () => {
+    test('同じアイテムはスタック上限までまとめられる', () => {
+      const inventory: Item[] = []
+      const result = addItemToInventory(inventory, createItem('thunder_stone', 12)!, 5)
+
+      expect(result.added).toBe(12)
+      expect(inventory).toHaveLength(2) // 上限10 + 2
+      expect(countItem(inventory, 'thunder_stone')).toBe(12)
+    })
+
+    test('容量を超えた分は overflow になる', () => {
+      const inventory: Item[] = []
+      addItemToInventory(inventory, createItem('potion', 1)!, 1)
+      const result = addItemToInventory(inventory, createItem('super_potion', 3)!, 1)
+
+      expect(result.added).toBe(0)
+      expect(result.overflow).toBe(3)
+      expect(inventory).toHaveLength(1)
+
+      // 入る個数は既存スタックの空きと空きスロットから求める（出品の取り下げ前の確認に使う）
+      expect(getAvailableSpace(inventory, 'super_potion', 1)).toBe(0)
+      expect(getAvailableSpace(inventory, 'potion', 1)).toBe(98)
+      expect(getAvailableSpace(inventory, 'super_potion', 2)).toBe(99)
+    })
+
+    test('倉庫施設で容量が拡張される', () => {
+      const storage: Facility = {
+        id: 'storage_1',
+        type: 'storage',
+        name: '倉庫',
+        level: 2,
+        effects: {},
+        condition: 1.0,
+        maintenanceCost: 300,
+        builtDate: new Date().toISOString()
+      }
+
+      expect(calculateInventoryCapacity([])).toBe(INVENTORY_BASE_CAPACITY)
+      expect(calculateInventoryCapacity([storage])).toBe(INVENTORY_BASE_CAPACITY + 20)
+    })
+
+    test('不足している場合は消費しない', () => {
+      const inventory: Item[] = []
+      addItemToInventory(inventory, createItem('potion', 2)!, 10)
+
+      expect(removeItemFromInventory(inventory, 'potion', 3)).toBe(false)
+      expect(countItem(inventory, 'potion')).toBe(2)
+      expect(removeItemFromInventory(inventory, 'potion', 2)).toBe(true)
+      expect(inventory).toHaveLength(0)
+    })
+  })
+
+  describe('バトルシステム', () => {
+    const createCombatant = (overrides: Partial<BattleCombatant>): BattleCombatant => ({
+      name: 'テスト',
+      level: 20,
+      types: ['normal'],
+      stats: { attack: 50, defense: 50, specialAttack: 50, specialDefense: 50, speed: 50 },
+      currentHp: 100,
+      maxHp: 100,
+      moves: ['たいあたり'],
+      pp: {},
+      ...overrides
+    })
+
+    test('タイプ相性は複合タイプで掛け合わされ、無効は0になる', () => {
+      expect(pokemonBattleSystem.getTypeMultiplier('electric', ['ground'])).toBe(0)
+      expect(pokemonBattleSystem.getTypeMultiplier('fire', ['grass', 'bug'])).toBe(4)
+      expect(pokemonBattleSystem.getTypeMultiplier('water', ['water', 'dragon'])).toBe(0.25)
+    })
+
+    test('タイプ一致・効果抜群の技はダメージが大きい', () => {
+      const attacker = createCombatant({ types: ['fire'] })
+      const grass = createCombatant({ types: ['grass'] })
+      const water = createCombatant({ types: ['water'] })
+      const ember = pokemonBattleSystem.getMove('ひのこ')
+
+      const strong = pokemonBattleSystem.calculateDamage(attacker, grass, ember, new GameRandom(1))
+      const weak = pokemonBattleSystem.calculateDamage(attacker, water, ember, new GameRandom(1))
+
+      expect(strong.stab).toBe(true)
+      expect(strong.effectiveness).toBe(2)
+      expect(strong.damage).toBeGreaterThan(weak.damage * 3)
+    })
+
+    test('素早さの高い方が先に行動し、まひで素早さが半減する', () => {
+      const fast = createCombatant({ stats: { attack: 50, defense: 50, specialAttack: 50, specialDefense: 50, speed: 80 } })
+      const slow = createCombatant({})
+
+      expect(pokemonBattleSystem.determineTurnOrder(fast, slow, 'たいあたり', 'たいあたり')).toEqual(['trainer', 'wild'])
+      fast.statusEffect = 'paralysis'
+      expect(pokemonBattleSystem.determineTurnOrder(fast, slow, 'たいあたり', 'たいあたり')).toEqual(['wild', 'trainer'])
+      // 優先度の高い技は素早さより優先
+      expect(pokemonBattleSystem.determineTurnOrder(fast, slow, 'でんこうせっか', 'たいあたり')).toEqual(['trainer', 'wild'])
+    })
+
+    test('捕獲用の自動バトルは同じシードで再現でき、相手を倒さず弱らせる', () => {
+      const trainer = createCombatant({ name: '味方', moves: ['たいあたり', 'でんこうせっか'] })
+      const wild = createCombatant({ name: '野生', level: 10 })
+
+      const first = pokemonBattleSystem.simulateBattle(trainer, wild, { targetHpRatio: 0.4 }, new GameRandom(7))
+      const second = pokemonBattleSystem.simulateBattle(trainer, wild, { targetHpRatio: 0.4 }, new GameRandom(7))
+
+      expect(first.log).toEqual(second.log)
+      expect(first.outcome).toBe('weakened')
+      expect(first.wild.currentHp).toBeGreaterThan(0)
+      expect(wild.currentHp).toBe(100) // 入力は変更されない
+    })
+  })
+
+  describe('技習得', () => {
+    const createSquirtle = (level: number, moves: string[]): PokemonInstance => ({
+      id: 'test_squirtle',
+      speciesId: 7,
+      name: 'ゼニガメ',
+      level,
+      experience: Math.pow(level, 3),
+      nextLevelExp: Math.pow(level + 1, 3),
+      hp: 40,
+      maxHp: 40,
+      attack: 20,
+      defense: 25,
+      specialAttack: 20,
+      specialDefense: 25,
+      speed: 18,
+      moves,
+      friendship: 70,
+      nature: 'Bold',
+      ivs: { hp: 10, attack: 10, defense: 10, specialAttack: 10, specialDefense: 10, speed: 10 }
+    } as PokemonInstance)
+
+    const context = { gameState: createInitialGameData('test', 'テスト', 'テストスクール'), user: null }
+
+    test('技データと習得技はレベル範囲で取得できる', () => {
+      expect(getMoveDefinition('みずでっぽう')?.type).toBe('water')
+      expect(getMovePP('10まんボルト')).toBe(15)
+      expect(getMovesLearnedBetween(7, 12, 16)).toEqual(['バブルこうせん', 'かみつく'])
+      expect(getMovesLearnedBetween(7, 16, 20)).toEqual([])
+    })
+
+    test('レベルアップで空き枠に技を覚え、埋まっている場合は忘れる技の選択が必要になる', () => {
+      const squirtle = createSquirtle(12, ['たいあたり', 'しっぽをふる', 'みずでっぽう'])
+      const { updatedPokemon, levelUpResult } = pokemonGrowthSystem.giveExperience(
+        squirtle,
+        Math.pow(16, 3) - squirtle.experience,
+        'expedition',
+        context
+      )
+
+      expect(levelUpResult?.newLevel).toBe(16)
+      expect(levelUpResult?.newMoves).toEqual(['バブルこうせん'])
+      expect(levelUpResult?.pendingMoves).toEqual(['かみつく'])
+      expect(updatedPokemon.moves).toHaveLength(4)
+
+      expect(pokemonGrowthSystem.learnMove(updatedPokemon, 'かみつく').success).toBe(false)
+      const learned = pokemonGrowthSystem.learnMove(updatedPokemon, 'かみつく', 'しっぽをふる')
+      expect(learned.success).toBe(true)
+      expect(learned.updatedPokemon?.moves).toEqual(['たいあたり', 'かみつく', 'みずでっぽう', 'バブルこうせん'])
+    })
+
+    test('技が4つ埋まったままレベルアップした技は選択待ちに積まれ、今の技と入れ替える構成だけ選べる', () => {
+      const squirtle = createSquirtle(12, ['たいあたり', 'しっぽをふる', 'みずでっぽう', 'まるくなる'])
+      const { updatedPokemon, levelUpResult } = pokemonGrowthSystem.giveExperience(
+        squirtle,
+        Math.pow(16, 3) - squirtle.experience,
+        'training',
+        context
+      )
+      expect(updatedPokemon.moves).toEqual(squirtle.moves)
+
+      const member = { id: squirtle.id, nameJa: 'ゼニガメ' }
+      const queue = queuePendingMoves([], member, levelUpResult?.pendingMoves)
+      expect(queue).toEqual([{ pokemonId: squirtle.id, pokemonName: 'ゼニガメ', moves: ['バブルこうせん', 'かみつく'] }])
+      expect(queuePendingMoves(queue, member, ['かみつく'])).toEqual(queue)
+      expect(queuePendingMoves(queue, member, undefined)).toBe(queue)
+
+      const pending = queue[0].moves
+      expect(validateMoveChoice(squirtle.moves, pending, ['たいあたり', 'かみつく', 'みずでっぽう', 'バブルこうせん'])).toBeUndefined()
+      expect(validateMoveChoice(squirtle.moves, pending, squirtle.moves)).toBeUndefined()
+      expect(validateMoveChoice(squirtle.moves, pending, ['たいあたり', 'かみつく', 'みずでっぽう'])).toBeDefined()
+      expect(validateMoveChoice(squirtle.moves, pending, ['たいあたり', 'かみつく', 'みずでっぽう', 'ハイドロポンプ'])).toBeDefined()
+      expect(validateMoveChoice(squirtle.moves, pending, ['たいあたり', 'かみつく', 'みずでっぽう', 'かみつく'])).toBeDefined()
+    })
+  })
+
+  describe('アチーブメント', () => {
+    const createEvent = (event: Omit<DataChangeEvent, 'type' | 'timestamp' | 'source'>): DataChangeEvent => ({
+      ...event,
+      type: 'data_changed',
+      timestamp: new Date().toISOString(),
+      source: 'system_update'
+    })
+
+    test('データ変更イベントから指標を抽出する', () => {
+      expect(extractMetricUpdates(createEvent({ category: 'pokemon', action: 'create', entityId: 'p1' })))
+        .toEqual([{ metric: 'pokemon_caught', value: 1, key: 'p1' }])
+      expect(extractMetricUpdates(createEvent({ category: 'expeditions', action: 'update', entityId: 'e1', data: { status: 'failed' } })))
+        .toEqual([])
+      expect(extractMetricUpdates(createEvent({ category: 'facilities', action: 'update', data: { level: 4 } })))
+        .toEqual([{ metric: 'facility_level', value: 4 }])
+    })
+
+    test('累積指標は加算され、目標到達で一度だけ解除される', () => {
+      const state = createInitialAchievementState()
+
+      const first = applyMetricUpdate(state, { metric: 'pokemon_caught', value: 1 })
+      expect(first.map(a => a.id)).toEqual(['first_capture'])
+      expect(state.totalPoints).toBe(10)
+
+      for (let i = 0; i < 9; i++) {
+        applyMetricUpdate(state, { metric: 'pokemon_caught', value: 1 })
+      }
+      expect(state.unlocked.map(a => a.id)).toEqual(['first_capture', 'capture_10'])
+      expect(state.progress.find(p => p.achievementId === 'capture_50')?.progress).toBe(10)
+      expect(state.progress.find(p => p.achievementId === 'capture_50')?.milestones[0].reached).toBe(false)
+    })
+
+    test('到達型の指標は最大値で判定される', () => {
+      const state = createInitialAchievementState()
+
+      applyMetricUpdate(state, { metric: 'facility_level', value: 4 })
+      applyMetricUpdate(state, { metric: 'facility_level', value: 2 })
+
+      expect(state.unlocked.map(a => a.id)).toEqual(['facility_level_3'])
+      expect(state.progress.find(p => p.achievementId === 'facility_level_5')?.progress).toBe(4)
+    })
+  })
+
+  describe('デイリー・ウィークリータスク', () => {
+    test('ローカル時刻4時を境に日付と週が切り替わる', () => {
+      expect(getDailyKey(new Date(2025, 0, 6, 3, 59))).toBe('2025-01-05')
+      expect(getDailyKey(new Date(2025, 0, 6, 4, 0))).toBe('2025-01-06')
+      expect(getWeeklyKey(new Date(2025, 0, 6, 3, 59))).toBe('2025-W01')
+      expect(getWeeklyKey(new Date(2025, 0, 6, 4, 0))).toBe('2025-W02')
+    })
+
+    test('同じ日付なら同じタスクが抽選され、日付が変わると再抽選される', () => {
+      const board = createEmptyTaskBoard()
+      const other = createEmptyTaskBoard()
+
+      expect(refreshTaskBoard(board, 'user', new Date(2025, 0, 6, 10))).toBe(true)
+      refreshTaskBoard(other, 'user', new Date(2025, 0, 6, 23))
+      expect(board.daily.tasks).toEqual(other.daily.tasks)
+      expect(board.daily.tasks).toHaveLength(3)
+      expect(board.weekly.tasks).toHaveLength(3)
+
+      expect(refreshTaskBoard(board, 'user', new Date(2025, 0, 6, 12))).toBe(false)
+      expect(refreshTaskBoard(board, 'user', new Date(2025, 0, 7, 5))).toBe(true)
+      expect(board.daily.date).toBe('2025-01-07')
+      expect(board.weekly.week).toBe('2025-W02')
+    })
+
+    test('前日を全達成していると連続達成ボーナスが付く', () => {
+      const previous = generateDailyTasks('2025-01-05', 'user')
+      previous.tasks.forEach(task => { task.completed = true })
+
+      const next = generateDailyTasks('2025-01-06', 'user', previous)
+      expect(next.streakCount).toBe(1)
+      expect(next.bonusMultiplier).toBeCloseTo(1.1)
+
+      expect(generateDailyTasks('2025-01-08', 'user', next).streakCount).toBe(0)
+    })
+
+    test('条件に合う出来事だけが進捗に数えられ、目標到達で達成になる', () => {
+      const board = createEmptyTaskBoard()
+      board.daily = {
+        date: '2025-01-06',
+        streakCount: 0,
+        bonusMultiplier: 1,
+        tasks: [{
+          id: 'task_bug',
+          type: 'daily_catch_bug_forest',
+          description: 'トキワの森でむしタイプを2匹捕獲する',
+          progress: 0,
+          maxProgress: 2,
+          completed: false,
+          rewards: { money: 1000, experience: 60, items: [] }
+        }]
+      }
+
+      applyTaskEvent(board, { type: 'catch_pokemon', amount: 1, locationId: 2, pokemonTypes: ['bug'] })
+      applyTaskEvent(board, { type: 'catch_pokemon', amount: 1, locationId: 1, pokemonTypes: ['electric'] })
+      expect(board.daily.tasks[0].progress).toBe(0)
+
+      applyTaskEvent(board, { type: 'catch_pokemon', amount: 1, locationId: 1, pokemonTypes: ['bug'] })
+      const completed = applyTaskEvent(board, { type: 'catch_pokemon', amount: 1, locationId: 1, pokemonTypes: ['bug', 'poison'] })
+      expect(completed.map(c => c.task.id)).toEqual(['task_bug'])
+      expect(board.daily.tasks[0].completed).toBe(true)
+    })
+  })
+
+  describe('イベントカレンダー', () => {
+    test('開催期間から開催状況を判定し、年をまたぐ毎年開催イベントも扱える', () => {
+      const activeIds = (now: Date) => getActiveEvents(now).map(e => e.definition.id)
+
+      expect(activeIds(new Date(2026, 9, 19))).toEqual(['autumn_harvest'])
+      expect(activeIds(new Date(2026, 11, 31))).toEqual(['winter_holiday'])
+      expect(activeIds(new Date(2027, 0, 5, 23, 59))).toEqual(['winter_holiday'])
+      expect(activeIds(new Date(2027, 0, 6))).toEqual([])
+
+      const calendar = getEventCalendar(new Date(2026, 9, 19))
+      expect(calendar[0].status).toBe('active')
+      expect(calendar.find(e => e.definition.id === 'anniversary_2026')?.status).toBe('upcoming')
+      expect(calendar.find(e => e.definition.id === 'pikachu_outbreak_2025')?.status).toBe('ended')
+      // 毎年開催のイベントは終了せず次回開催予定になる
+      expect(calendar.find(e => e.definition.id === 'spring_festival')?.start).toEqual(new Date(2027, 2, 20))
+    })
+
+    test('開催中イベントが報酬倍率・ショップ価格・遭遇率に反映される', () => {
+      const harvest = new Date(2026, 9, 15)
+      expect(getEventRewardMultiplier(harvest)).toBeCloseTo(1.15)
+      expect(getShopPrice('potion', harvest)).toBe(160)
+      expect(getShopPrice('fire_stone', harvest)).toBe(getShopPrice('fire_stone', new Date(2026, 5, 1)))
+      expect(getShopPrice('unknown_item', harvest)).toBeUndefined()
+
+      const anniversary = new Date(2026, 10, 5)
+      expect(getEventRewardMultiplier(anniversary)).toBeCloseTo(1.5)
+      expect(getShopPrice('potion', anniversary)).toBe(140)
+      expect(getEventEncounterBonuses(anniversary).rare).toBeCloseTo(1.5)
+
+      const running = pokemonEncounterSystem.syncEventCalendar(new Date(2026, 2, 25))
+      expect(running.map(e => e.id)).toEqual(['spring_festival'])
+      expect(running[0].encounterBonuses.rare).toBe(1.5)
+    })
+  })
+
+  describe('ゲーム内時計・天候', () => {
+    test('速度を変更してもゲーム内時刻は連続し、時間帯と季節を判定できる', () => {
+      const realStart = new Date(2026, 9, 19, 12, 0).getTime()
+      const clock = new WorldClock()
+      clock.configure({ speed: 1, realAnchor: new Date(realStart).toISOString(), gameAnchor: new Date(2026, 9, 19, 8, 0).toISOString() })
+
+      // 実時間1時間で1時間進む
+      const oneHourLater = realStart + 60 * 60 * 1000
+      expect(clock.getGameTime(oneHourLater)).toEqual(new Date(2026, 9, 19, 9, 0))
+
+      // 速度変更時点の時刻から60倍速で進む
+      clock.setSpeed(60, oneHourLater)
+      expect(clock.getGameTime(oneHourLater)).toEqual(new Date(2026, 9, 19, 9, 0))
+      expect(clock.getGameTime(oneHourLater + 60 * 1000)).toEqual(new Date(2026, 9, 19, 10, 0))
+      expect(() => clock.setSpeed(0)).toThrow()
+
+      expect(getTimeOfDay(new Date(2026, 0, 1, 6))).toBe('morning')
+      expect(getTimeOfDay(new Date(2026, 0, 1, 12))).toBe('day')
+      expect(getTimeOfDay(new Date(2026, 0, 1, 18))).toBe('evening')
+      expect(getTimeOfDay(new Date(2026, 0, 1, 2))).toBe('night')
+      expect(getSeason(new Date(2026, 3, 1))).toBe('spring')
+      expect(getSeason(new Date(2026, 7, 1))).toBe('summer')
+      expect(getSeason(new Date(2026, 9, 19))).toBe('autumn')
+      expect(getSeason(new Date(2026, 0, 15))).toBe('winter')
+    })
+
+    test('派遣先ごとの天候が決定的に生成され、環境補正に反映される', () => {
+      for (let hour = 0; hour < 24 * 7; hour += 6) {
+        const gameTime = new Date(2026, 9, 1, hour)
+        const weather = generateLocationWeather(3, gameTime)
+        expect(getLocationDefinition(3)?.weather).toContain(weather)
+        expect(generateLocationWeather(3, gameTime)).toBe(weather)
+      }
+
+      // 霧しか発生しない派遣先
+      expect(generateLocationWeather(4, new Date(2026, 6, 1))).toBe('foggy')
+      const conditions = {
+        locationId: 4,
+        gameTime: new Date(2026, 6, 1, 22),
+        timeOfDay: 'night' as const,
+        season: 'summer' as const,
+        weather: 'foggy' as const
+      }
+      expect(getEnvironmentModifier(conditions)).toBeCloseTo(0.8)
+      expect(getEnvironmentModifier({ ...conditions, locationId: 999 })).toBe(1.0)
+    })
+  })
+
+  describe('セーブデータのマイグレーション', () => {
+    // インベントリ・アチーブメント・タスク・時計・融資状態を持たない v1.0.0 のデータ
+    const createLegacyData = () => {
+      const { inventory, achievements, tasks, worldClock, finance, market, formerTrainers, breeding, pokemonTraining, ...legacy } = createInitialGameData('legacy', 'テスト', 'テスト学校')
+      return {
+        ...legacy,
+        version: '1.0.0',
+        expeditions: [{ id: 'legacy-expedition', trainerId: 'mock-trainer-1', status: 'completed' }]
+      }
+    }
+
+    test('旧バージョンのデータを1段階ずつ現行バージョンへ変換する', () => {
+      const legacy = createLegacyData()
+      const now = new Date(2026, 9, 19, 12, 0)
+      const { data, report } = migrateGameData(legacy, { now })
+
+      expect(report.success).toBe(true)
+      expect(report.fromVersion).toBe('1.0.0')
+      expect(report.appliedMigrations).toEqual(['inventory_progress', 'world_clock', 'finance', 'market', 'employment', 'pokemon_facilities', 'training_facility_levels'])
+      expect(data?.version).toBe(CURRENT_GAME_VERSION)
+      expect(data?.inventory).toEqual([])
+      expect(data?.achievements.unlocked).toEqual([])
+      expect(data?.tasks.daily.tasks).toEqual([])
+      expect(data?.worldClock).toEqual({ speed: 1, realAnchor: now.toISOString(), gameAnchor: now.toISOString() })
+      expect(data?.expeditions[0].seed).toBe(hashSeed('legacy-expedition'))
+      expect(data?.finance.lastPayrollAt).toBe(now.toISOString())
+      expect(data?.finance.bankruptcy.stage).toBe('solvent')
+      expect(data?.breeding).toEqual({ sessions: [], eggs: [] })
+      expect(data?.pokemonTraining).toEqual({ slots: [], facilityLevels: {} })
+      // 元データは変更しない
+      expect(legacy.version).toBe('1.0.0')
+      expect(legacy.expeditions[0]).not.toHaveProperty('seed')
+
+      // バージョンを持たないデータは基本構造の補完から始める
+      const { version, facilities, ...unversioned } = legacy
+      const fromScratch = migrateGameData(unversioned)
+      expect(fromScratch.report.appliedMigrations).toEqual(['initial_structure', 'inventory_progress', 'world_clock', 'finance', 'market', 'employment', 'pokemon_facilities', 'training_facility_levels'])
+      expect(fromScratch.data?.facilities).toEqual([])
+      expect(fromScratch.data?.settings).toBeDefined()
+
+      // 現行バージョンのデータは変換しない
+      expect(migrateGameData(data).report.appliedMigrations).toEqual([])
+    })
+
+    test('ドライランと途中バージョン指定、検証失敗時のレポート', () => {
+      const plan = planGameDataMigration(createLegacyData(), { targetVersion: '1.1.0' })
+      expect(plan.dryRun).toBe(true)
+      expect(plan.appliedMigrations).toEqual(['inventory_progress'])
+      expect(plan.migrationLog[0].changes).toContain('inventory を初期化')
+
+      // 不正な時計を持つデータは時計の段階で検証に失敗し、データを返さない
+      const broken = { ...createLegacyData(), worldClock: { speed: 0, realAnchor: '', gameAnchor: '' } }
+      const failed = migrateGameData(broken)
+      expect(failed.data).toBeUndefined()
+      expect(failed.report.success).toBe(false)
+      expect(failed.report.error).toContain('world_clock')
+      expect(failed.report.migrationLog.map(entry => entry.success)).toEqual([true, false])
+
+      expect(migrateGameData(null).report.success).toBe(false)
+
+      const unified = migrateUnifiedSaveData({ version: '1.0.0', gameData: createLegacyData() })
+      expect(unified.data?.version).toBe(CURRENT_GAME_VERSION)
+      expect(unified.data?.gameData.worldClock.speed).toBe(1)
+    })
+
+    test('変換できない保存データは別のキーへ退避し、最初に退避したデータは上書きしない', () => {
+      const storage = new Map<string, string>()
+      const store = {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => { storage.set(key, value) }
+      }
+      expect(loadStoredGameData(store, 'save')).toBeNull()
+
+      const broken = JSON.stringify({ ...createLegacyData(), worldClock: { speed: 0, realAnchor: '', gameAnchor: '' } })
+      storage.set('save', broken)
+      const failed = loadStoredGameData(store, 'save')
+      expect(failed?.data).toBeUndefined()
+      expect(failed?.preservedKey).toBe('save-unmigrated')
+      expect(storage.get('save-unmigrated')).toBe(broken)
+
+      // 壊れたJSONも検証失敗として扱い、先に退避したデータは残す
+      storage.set('save', '{ broken')
+      expect(loadStoredGameData(store, 'save')?.report.success).toBe(false)
+      expect(storage.get('save-unmigrated')).toBe(broken)
+
+      storage.set('save', JSON.stringify(createLegacyData()))
+      const loaded = loadStoredGameData(store, 'save')
+      expect(loaded?.data?.version).toBe(CURRENT_GAME_VERSION)
+      expect(loaded?.preservedKey).toBeUndefined()
+    })
+  })
+
+  describe('財務台帳', () => {
+    const entry = (type: LedgerEntry['type'], category: string, amount: number, date: Date): LedgerEntry => ({
+      type, category, amount, timestamp: date.toISOString()
+    })
+    const entries = [
+      entry('income', 'expedition_reward', 5000, new Date(2026, 9, 12, 10)), // 月曜
+      entry('expense', 'salary', 3000, new Date(2026, 9, 12, 18)),
+      entry('expense', 'item_purchase', 400, new Date(2026, 9, 14, 9)),
+      entry('income', 'expedition_reward', 8000, new Date(2026, 9, 19, 11)), // 翌週の月曜
+      entry('income', 'expedition_reward', 2000, new Date(2026, 8, 30, 12)) // 前月
+    ]
+
+    test('日・週・月の期間ごとにカテゴリ別集計と残高推移を求める', () => {
+      const ledger = new FinancialLedger(entries, { closingBalance: 61600 })
+
+      const days = ledger.getBuckets('day', new Date(2026, 9, 12), new Date(2026, 9, 15))
+      expect(days.map(d => d.key)).toEqual(['2026-10-12', '2026-10-13', '2026-10-14'])
+      expect(days[0].byCategory.salary.expenses).toBe(3000)
+      expect(days[1].transactionCount).toBe(0)
+      expect(days[0].openingBalance).toBe(52000)
+      expect(days[2].closingBalance).toBe(53600)
+
+      const weeks = ledger.getCashFlow('week', 2, new Date(2026, 9, 19, 20))
+      expect(weeks.map(w => w.key)).toEqual(['2026-10-12', '2026-10-19'])
+      expect(weeks.map(w => w.net)).toEqual([1600, 8000])
+      expect(weeks[1].closingBalance).toBe(61600)
+
+      const months = ledger.getBuckets('month')
+      expect(months.map(m => m.key)).toEqual(['2026-09', '2026-10'])
+      expect(months[1].byCategory.expedition_reward).toEqual({ income: 13000, expenses: 0, net: 13000, transactionCount: 2 })
+      expect(ledger.getSummary(new Date(2026, 9, 1)).net).toBe(9600)
+    })
+
+    test('トレンドを判定し、経済システムの月次レポートが台帳から集計される', () => {
+      const ledger = new FinancialLedger(entries)
+      const trend = ledger.getTrend('week', 2, new Date(2026, 9, 19, 20))
+      expect(trend.direction).toBe('improving')
+      expect(trend.rate).toBeCloseTo(400)
+      expect(new FinancialLedger([]).getTrend('day', 7).direction).toBe('stable')
+      // 前半に取引がなくても後半の収入で上向きと判定する
+      expect(ledger.getTrend('day', 2, new Date(2026, 9, 19, 20))).toMatchObject({ direction: 'improving', rate: 100 })
+
+      economySystem.recordIncome('bonus', 12345, '台帳テスト')
+      const report = economySystem.generateMonthlyReport()
+      expect(report.topIncomes.find(i => i.category === 'bonus')?.amount).toBeGreaterThanOrEqual(12345)
+      expect(economySystem.getLedger().getSummary().income).toBe(report.summary.total_income)
+    })
+  })
+
+  describe('融資・破産', () => {
+    const DAY = 24 * 60 * 60 * 1000
+    const start = new Date(2026, 9, 1, 9, 0)
+
+    test('融資の返済スケジュールと期日の引き落とし、借入条件の検証', () => {
+      const schedule = calculateLoanSchedule(LOAN_PRODUCTS.small, 20000, start)
+      expect(schedule).toHaveLength(4)
+      expect(schedule.reduce((sum, installment) => sum + installment.amount, 0)).toBe(21000)
+      expect(new Date(schedule[0].dueDate).getTime() - start.getTime()).toBe(7 * DAY)
+
+      const finance = createInitialFinanceState(start)
+      finance.loans.push(createLoan('loan-1', 'small', 20000, start))
+      const due = collectDueInstallments(finance, new Date(start.getTime() + 15 * DAY))
+      expect(due.map(({ index }) => index)).toEqual([0, 1])
+      expect(getOutstandingDebt(finance)).toBe(10500)
+      // 引き落とし済みの返済は二重に請求しない
+      expect(collectDueInstallments(finance, new Date(start.getTime() + 15 * DAY))).toEqual([])
+
+      expect(validateLoanRequest(finance, 'unknown', 1000)).toBeDefined()
+      expect(validateLoanRequest(finance, 'small', 30000)).toContain('上限')
+      expect(validateLoanRequest(finance, 'business', 100000)).toBeUndefined()
+      finance.bankruptcy.stage = 'warning'
+      expect(validateLoanRequest(finance, 'business', 10000)).toContain('事業融資')
+      expect(validateLoanRequest(finance, 'emergency', 10000)).toBeUndefined()
+      finance.bankruptcy.stage = 'bankrupt'
+      expect(validateLoanRequest(finance, 'emergency', 10000)).toContain('新規借入')
+    })
+
+    test('給与未払いと残高マイナスの継続で破産段階が上がり、清算すると回復する', () => {
+      const { trainers } = createInitialGameData('finance', 'テスト', 'テスト学校')
+      const finance = createInitialFinanceState(start)
+
+      applyMissedPayroll(finance, trainers, 9400)
+      expect(trainers[0].trustLevel).toBe(65)
+      expect(trainers[0].morale).toBe(55)
+      expect(finance.unpaidWages).toBe(9400)
+      expect(updateBankruptcyState(finance, -1000, start)).toEqual({ previous: 'solvent', stage: 'warning' })
+
+      expect(updateBankruptcyState(finance, -1000, new Date(start.getTime() + 3 * DAY)).stage).toBe('distressed')
+      expect(updateBankruptcyState(finance, -1000, new Date(start.getTime() + 7 * DAY)).stage).toBe('bankrupt')
+      expect(isFinanceActionLocked('bankrupt', 'item_purchase')).toBe(true)
+      expect(isFinanceActionLocked('bankrupt', 'take_loan')).toBe(true)
+
+      // 残高がプラスに戻っても未払い給与が残っていれば警戒のまま
+      expect(updateBankruptcyState(finance, 5000, new Date(start.getTime() + 8 * DAY)).stage).toBe('warning')
+      expect(finance.negativeBalanceSince).toBeUndefined()
+      expect(settleUnpaidWages(finance)).toBe(9400)
+      expect(updateBankruptcyState(finance, 5000, new Date(start.getTime() + 8 * DAY)).stage).toBe('solvent')
+
+      // 経済システムの支出判定にも破産段階の制限が反映される
+      economySystem.setBankruptcyStage('distressed')
+      expect(economySystem.checkCanAfford(100, 'hire_trainer')).toBe(false)
+      expect(economySystem.checkCanAfford(100)).toBe(true)
+      economySystem.setBankruptcyStage('solvent')
+      expect(economySystem.checkCanAfford(100, 'hire_trainer')).toBe(true)
+    })
+  })
+
+  describe('マーケット', () => {
+    const HOUR = 60 * 60 * 1000
+    const june = new Date(2026, 5, 10, 12, 0)
+    const caterpie = { speciesId: 10, level: 10, ivs: { hp: 15, attack: 15, defense: 15, specialAttack: 15, specialDefense: 15, speed: 15 } }
+
+    test('相場が売却数による需給と開催中イベントで変動する', () => {
+      const market = createEmptyMarketState()
+      expect(getSupplyLevel(0)).toBe('low')
+      expect(getSupplyLevel(3)).toBe('high')
+
+      // 収穫祭はコモンの出現率が上がるため需要が下がり、春祭りの対象ポケモンは需要が上がる
+      expect(getPokemonDemandLevel(10, june)).toBe('medium')
+      expect(getPokemonDemandLevel(10, new Date(2026, 9, 15))).toBe('low')
+      expect(getPokemonDemandLevel(1, new Date(2027, 2, 25))).toBe('high')
+      expect(getPokemonMarketPrice(market, caterpie, new Date(2026, 9, 15))).toBeLessThan(getPokemonMarketPrice(market, caterpie, june))
+
+      // 同じ種族を売り続けると値崩れする
+      const fresh = getPokemonMarketPrice(market, caterpie, june)
+      for (let i = 0; i < 6; i++) {
+        market.sales.push({ kind: 'pokemon', subjectId: '10', quantity: 1, price: 100, soldAt: june.toISOString() })
+      }
+      const saturated = getPokemonMarketPrice(market, caterpie, june)
+      expect(saturated).toBeLessThan(fresh)
+      // 集計期間を過ぎた売却は数えない
+      expect(getPokemonMarketPrice(market, caterpie, new Date(june.getTime() + 8 * 24 * HOUR))).toBe(fresh)
+
+      expect(getItemMarketPrice(market, 'potion', june)).toBeLessThan(getShopPrice('potion', june)!)
+      expect(getItemMarketPrice(market, 'unknown_item', june)).toBeUndefined()
+    })
+
+    test('買い手の到着で出品が売れ、期限切れは戻り、販売枠は日替わりで抽選される', () => {
+      expect(calculateBuyerArrival('listing-1', 1600, 1000, june)).toBeUndefined()
+      const cheap = calculateBuyerArrival('listing-1', 800, 1000, june)!
+      const fair = calculateBuyerArrival('listing-1', 1000, 1000, june)!
+      expect(cheap.getTime()).toBeLessThan(fair.getTime())
+      expect(calculateBuyerArrival('listing-1', 1000, 1000, june)).toEqual(fair)
+
+      // 相場を超えると買い手が現れにくくなり、NPCの販売価格（相場の1.3倍）での転売は確実には売れない
+      expect(getBuyerChance(1000, 1000)).toBe(1)
+      expect(getBuyerChance(1300, 1000)).toBeCloseTo(0.4)
+      const resold = Array.from({ length: 100 }, (_, i) => calculateBuyerArrival(`resale-${i}`, 1300, 1000, june))
+      const soldCount = resold.filter(Boolean).length
+      expect(soldCount).toBeGreaterThan(20)
+      expect(soldCount).toBeLessThan(60)
+
+      const market = createEmptyMarketState()
+      const item = createItem('potion', 2)!
+      market.listings.push(
+        createMarketListing('listing-1', { item }, 300, 300, june),
+        createMarketListing('listing-2', { item }, 1000, 300, june)
+      )
+      expect(collectSettledListings(market, june)).toEqual({ sold: [], expired: [] })
+
+      const sold = collectSettledListings(market, new Date(june.getTime() + 4 * HOUR))
+      expect(sold.sold.map(listing => listing.id)).toEqual(['listing-1'])
+      expect(market.sales[0]).toMatchObject({ kind: 'item', subjectId: 'potion', quantity: 2, price: 300 })
+      const expired = collectSettledListings(market, new Date(june.getTime() + 4 * 24 * HOUR))
+      expect(expired.expired.map(listing => listing.id)).toEqual(['listing-2'])
+      expect(market.listings).toEqual([])
+
+      expect(refreshMarketStock(market, 'player', june)).toBe(true)
+      expect(refreshMarketStock(market, 'player', new Date(june.getTime() + HOUR))).toBe(false)
+      expect(market.stock.offers).toHaveLength(MARKET_STOCK_SIZE)
+      const other = createEmptyMarketState()
+      refreshMarketStock(other, 'player', june)
+      expect(other.stock).toEqual(market.stock)
+
+      const pokemon = createPokemonFromOffer(market.stock.offers[0], june)
+      expect(pokemon?.level).toBe(market.stock.offers[0].level)
+      expect(pokemon?.hp).toBe(pokemon?.maxHp)
+      expect(pokemon?.originalTrainer).toBe('マーケット')
+    })
+  })
+
+  describe('療養', () => {
+    const HOUR = 60 * 60 * 1000
+    const start = new Date('2024-01-01T09:00:00Z')
+    const gameData = createInitialGameData('medical', 'テスト', 'テスト訓練所')
+    const [ranger, battler] = gameData.trainers
+
+    test('回復施設とメディックで療養が早まり、治療薬で期間を短縮できる', () => {
+      const healingCenter: Facility = {
+        id: 'healing',
+        type: 'healing_center',
+        name: 'ポケモンセンター',
+        level: 2,
+        effects: {},
+        condition: 1,
+        maintenanceCost: 0,
+        builtDate: start.toISOString()
+      }
+      const medic = { ...ranger, id: 'medic', job: 'medic' as const, skills: { ...ranger.skills, healing: 4 } }
+      expect(calculateRecoveryRate([], [ranger])).toBe(1)
+      expect(calculateRecoveryRate([healingCenter], [])).toBeCloseTo(1.5)
+      expect(calculateRecoveryRate([healingCenter], [medic])).toBeCloseTo(1.7)
+      // 派遣中・療養中のメディックは治療できない
+      expect(calculateRecoveryRate([healingCenter], [{ ...medic, status: 'resting' }])).toBeCloseTo(1.5)
+
+      const condition = createMedicalCondition('injury', 'moderate', 'テスト', start)
+      expect(condition.remainingHours).toBe(6)
+      expect(estimateRecoveryTime(condition, 2).getTime()).toBe(start.getTime() + 3 * HOUR)
+      expect(advanceRecovery(condition, 1.5, new Date(start.getTime() + 2 * HOUR))).toBe(false)
+      expect(condition.remainingHours).toBeCloseTo(3)
+      expect(applyTreatment(condition, 2)).toBe(false)
+      expect(advanceRecovery(condition, 1, new Date(start.getTime() + 3 * HOUR))).toBe(true)
+
+      // 重ねて負ったけがは完治までが長い方を残す
+      const minor = createMedicalCondition('injury', 'minor', 'テスト', start)
+      const severe = createMedicalCondition('illness', 'severe', 'テスト', start)
+      expect(mergeMedicalCondition(severe, minor)).toBe(severe)
+      expect(mergeMedicalCondition(undefined, minor)).toBe(minor)
+    })
+
+    test('失敗した危険・悪天候のイベントだけがけがや病気を生み、シードで再現できる', () => {
+      const outcomes = Array.from({ length: 20 }, (_, i) => ({
+        type: i % 2 === 0 ? 'danger' as const : 'weather' as const,
+        success: false
+      }))
+      const trainerIds = [ranger.id, battler.id]
+      const injuries = rollExpeditionInjuries(outcomes, trainerIds, ['pikachu'], new GameRandom(7))
+
+      expect(injuries.length).toBeGreaterThanOrEqual(10)
+      expect(injuries).toEqual(rollExpeditionInjuries(outcomes, trainerIds, ['pikachu'], new GameRandom(7)))
+      expect(injuries.filter(injury => injury.kind === 'illness').every(injury => injury.cause.includes('悪天候'))).toBe(true)
+      // 疲労はトレーナーだけが負う
+      expect(injuries.filter(injury => injury.kind === 'fatigue').every(injury => injury.target === 'trainer')).toBe(true)
+      injuries.forEach(injury => {
+        expect(injury.target === 'pokemon' ? ['pikachu'] : trainerIds).toContain(injury.id)
+      })
+
+      expect(rollExpeditionInjuries(outcomes.map(outcome => ({ ...outcome, success: true })), trainerIds, [], new GameRandom(7))).toEqual([])
+      expect(rollExpeditionInjuries([{ type: 'item_discovery', success: false }], trainerIds, [], new GameRandom(7))).toEqual([])
+      expect(validateTeam([{ ...ranger, medical: createMedicalCondition('injury', 'minor', 'テスト', start) }])).toContain('療養中')
+    })
+  })
+
+  describe('疲労・士気', () => {
+    const HOUR = 60 * 60 * 1000
+    const start = new Date('2024-01-01T09:00:00Z')
+    const gameData = createInitialGameData('wellbeing', 'テスト', 'テスト訓練所')
+    const [ranger] = gameData.trainers
+
+    test('派遣時間で疲労が溜まり、寮の定員に応じて待機中に回復する', () => {
+      const trainer = { ...ranger }
+      applyExpeditionFatigue(trainer, 8, 'balanced', start)
+      expect(trainer.fatigue).toBe(48)
+      applyExpeditionFatigue(trainer, 8, 'aggressive', start)
+      expect(trainer.fatigue).toBe(100)
+      expect(getExhaustionSeverity(trainer.fatigue!)).toBe('severe')
+      expect(getExhaustionSeverity(50)).toBeUndefined()
+
+      const dormitory: Facility = {
+        id: 'dorm',
+        type: 'dormitory',
+        name: '寮',
+        level: 1,
+        effects: { trainerCapacity: 2 },
+        condition: 1,
+        maintenanceCost: 0,
+        builtDate: start.toISOString()
+      }
+      expect(calculateRestRate([], 3)).toBe(2)
+      expect(calculateRestRate([dormitory], 2)).toBe(6)
+      // 定員を超えると寮の効果が薄まる
+      expect(calculateRestRate([dormitory], 4)).toBe(4)
+
+      expect(restTrainer(trainer, 6, new Date(start.getTime() + 5 * HOUR))).toBe(true)
+      expect(trainer.fatigue).toBeCloseTo(70)
+      // 派遣中は回復しない
+      const away = { ...trainer, status: 'on_expedition' as const }
+      expect(restTrainer(away, 6, new Date(start.getTime() + 10 * HOUR))).toBe(false)
+      expect(away.fatigue).toBeCloseTo(70)
+    })
+
+    test('士気は給与の公平さ・連続成功・信頼度で決まり、燃え尽きると失敗と退職が起こりやすくなる', () => {
+      const fair = { ...ranger, level: 1, salary: 3500, trustLevel: 50, successStreak: 0 }
+      expect(calculateMoraleTarget(fair)).toBe(60)
+      expect(calculateMoraleTarget({ ...fair, salary: 1750 })).toBe(45)
+      expect(calculateMoraleTarget({ ...fair, trustLevel: 100 })).toBe(75)
+
+      const streaking = { ...fair }
+      updateSuccessStreak(streaking, true)
+      updateSuccessStreak(streaking, true)
+      expect(streaking.successStreak).toBe(2)
+      expect(calculateMoraleTarget(streaking)).toBe(66)
+      updateSuccessStreak(streaking, false)
+      expect(streaking.successStreak).toBe(-1)
+      expect(calculateMoraleTarget(streaking)).toBe(55)
+
+      const rested = { fatigue: 20, morale: 70 }
+      const burnedOut = { fatigue: 100, morale: 10 }
+      expect(calculateBurnout(rested)).toBe(0)
+      expect(calculateBurnout(burnedOut)).toBeCloseTo(0.92)
+      expect(calculateBurnoutModifier([rested])).toBe(1)
+      expect(calculateBurnoutModifier([rested, burnedOut])).toBeLessThan(1)
+      expect(calculateQuitChance(rested)).toBe(0)
+      expect(calculateQuitChance(burnedOut)).toBeGreaterThan(0)
+    })
+  })
+
+  describe('雇用契約', () => {
+    const DAY = 24 * 60 * 60 * 1000
+    const start = new Date('2024-01-01T09:00:00Z')
+    const gameData = createInitialGameData('employment', 'テスト', 'テスト訓練所')
+    const [ranger] = gameData.trainers
+    const rookie = { ...ranger, level: 1, salary: 3000, morale: 70, trustLevel: 50, totalExpeditions: 0, successfulExpeditions: 0 }
+
+    test('要求給与はレベルと実績・士気で決まり、信頼度が高ければ多少の減額に応じる', () => {
+      const contract = createContract(start, 90)
+      expect(getContractDaysLeft(contract, start)).toBe(90)
+      expect(isRenewalOpen(contract, start)).toBe(false)
+      expect(isRenewalOpen(contract, new Date(start.getTime() + 80 * DAY))).toBe(true)
+
+      expect(calculateSalaryDemand(rookie)).toBe(3700)
+      // 長期契約なら要求が下がり、実績が良いほど・士気が低いほど上がる
+      expect(calculateSalaryDemand(rookie, 180)).toBe(3500)
+      expect(calculateSalaryDemand({ ...rookie, totalExpeditions: 10, successfulExpeditions: 10 })).toBe(4200)
+      expect(calculateSalaryDemand({ ...rookie, morale: 40 })).toBe(4000)
+      // 現在の給与は下回らない
+      expect(calculateSalaryDemand({ ...rookie, salary: 5000 })).toBe(5000)
+
+      expect(evaluateRenewalOffer(rookie, 3700, 90).accepted).toBe(true)
+      expect(evaluateRenewalOffer(rookie, 3400, 90)).toMatchObject({ accepted: false, demand: 3700 })
+      expect(evaluateRenewalOffer({ ...rookie, trustLevel: 75 }, 3400, 90).accepted).toBe(true)
+    })
+
+    test('士気・信頼度が低いと退職しやすく、解雇には契約の残り期間に応じた退職金がかかる', () => {
+      expect(calculateResignationChance(rookie)).toBe(0)
+      expect(calculateResignationChance({ morale: 10, trustLevel: 10 })).toBeCloseTo(1 / 3)
+      expect(calculateResignationChance({ morale: 0, trustLevel: 0 })).toBe(0.5)
+
+      const contracted = { ...rookie, contract: createContract(start, 90) }
+      expect(calculateSeverance(contracted, new Date(start.getTime() + 30 * DAY))).toBe(6000)
+      expect(calculateSeverance(contracted, new Date(start.getTime() + 100 * DAY))).toBe(3000)
+
+      const record = createFormerTrainerRecord({ ...contracted, party: ['pokemon_1'] }, 'dismissed', start, 6000)
+      expect(record).toMatchObject({ reason: 'dismissed', leftAt: start.toISOString(), severance: 6000 })
+      expect(record.trainer.party).toBeUndefined()
+    })
+  })
+
+  describe('スキルツリー', () => {
+    const gameData = createInitialGameData('skills', 'テスト', 'テスト訓練所')
+    const [ranger, battler, breeder] = gameData.trainers
+
+    test('レベルアップで得たポイントで前提を満たした能力を習得し、一定レベルで専門分野を選べる', () => {
+      expect(getEarnedSkillPoints(1)).toBe(0)
+      // ポイントの記録がない旧データはレベルから求める
+      expect(getAvailableSkillPoints(ranger)).toBe(3)
+
+      const trainer = { ...ranger }
+      expect(validateAbilityUnlock(trainer, 'critical_care_expertise')).toBe('この職業では習得できない能力です')
+      expect(validateAbilityUnlock(trainer, 'capture_rate_bonus')).toBe('先に野生ポケモンの追跡を習得してください')
+
+      unlockAbility(trainer, 'wild_pokemon_tracking')
+      expect(trainer.skillPoints).toBe(2)
+      expect(validateAbilityUnlock(trainer, 'wild_pokemon_tracking')).toBe('野生ポケモンの追跡は習得済みです')
+      expect(validateAbilityUnlock(trainer, 'capture_rate_bonus')).toBeUndefined()
+      unlockAbility(trainer, 'capture_rate_bonus')
+      expect(trainer.skillPoints).toBe(0)
+      expect(validateAbilityUnlock(trainer, 'terrain_navigation')).toBe('スキルポイントが足りません（必要: 1）')
+      expect(addLevelUpSkillPoints(trainer, 2)).toBe(2)
+
+      expect(validateSpecialization(trainer, 'pathfinder')).toBe('専門分野はLv.5から選べます')
+      expect(validateSpecialization({ ...trainer, level: 5 }, 'pathfinder')).toBeUndefined()
+      expect(validateSpecialization({ ...trainer, level: 5 }, 'geneticist')).toBe('この職業では選べない専門分野です')
+      expect(validateSpecialization({ ...trainer, level: 5, specialization: 'pokemon_tracker' }, 'pathfinder')).toBe('専門分野は選択済みです')
+    })
+
+    test('習得した能力は捕獲・派遣・療養の計算に反映され、チームはメンバー全員の能力を持つ', () => {
+      const tracker = { ...ranger, unlockedAbilities: ['wild_pokemon_tracking', 'capture_rate_bonus'], specialization: 'pokemon_tracker' }
+      expect(getTrainerAbilityEffects(tracker).captureRate).toBeCloseTo(0.45)
+      // 効果ごとに上限がある
+      expect(getTrainerAbilityEffects({ ...tracker, unlockedAbilities: [...tracker.unlockedAbilities, 'rare_discovery_boost'] }).captureRate).toBe(0.5)
+
+      const vanguard = { ...battler, specialization: 'vanguard' }
+      const teamTrainer = createTeamTrainer([tracker, vanguard])
+      expect(teamTrainer.unlockedAbilities).toEqual(['wild_pokemon_tracking', 'capture_rate_bonus', 'pokemon_tracker', 'vanguard'])
+      expect(getTrainerAbilityEffects(teamTrainer).expeditionSuccess).toBeCloseTo(0.15)
+
+      const nurse = { ...breeder, status: 'available' as const, unlockedAbilities: ['pokemon_health_monitoring'] }
+      expect(calculateRecoveryRate([], [{ ...breeder, status: 'available' }])).toBe(1)
+      expect(calculateRecoveryRate([], [nurse])).toBeCloseTo(1.1)
+      // 派遣中のスタッフは学校の療養を手伝えない
+      expect(getStaffAbilityBonus([{ ...nurse, status: 'on_expedition' }], 'healingRate')).toBe(0)
+    })
+  })
+
+  describe('トレーナー研修', () => {
+    const gameData = createInitialGameData('courses', 'テスト', 'テスト訓練所')
+    const [ranger, battler, breeder] = gameData.trainers
+    const trainingGround: Facility = {
+      id: 'ground',
+      type: 'training_ground',
+      name: '訓練場',
+      level: 2,
+      effects: {},
+      condition: 1,
+      maintenanceCost: 0,
+      builtDate: '2024-04-01T00:00:00Z'
+    }
+
+    test('受講条件と訓練場の定員を確認し、受講時間が過ぎると修了する', () => {
+      const capture = getTrainingCourse('capture_workshop')!
+      const survival = getTrainingCourse('survival_course')!
+
+      // 訓練場がなくても教室で1人は受講できる
+      expect(calculateTrainingCapacity([])).toBe(1)
+      expect(calculateTrainingCapacity([trainingGround])).toBe(3)
+      expect(calculateTrainingCapacity([{ ...trainingGround, condition: 0.5 }])).toBe(2)
+
+      expect(validateEnrollment(breeder, capture, gameData.trainers, [], 10000)).toBeUndefined()
+      expect(validateEnrollment(breeder, survival, gameData.trainers, [], 10000)).toBe('サバイバル講習はLv.3から受講できます')
+      expect(validateEnrollment(breeder, capture, gameData.trainers, [], 1000)).toBe('受講料が足りません')
+      expect(validateEnrollment({ ...breeder, status: 'on_expedition' }, capture, gameData.trainers, [], 10000)).toBe('マチスは現在受講できません')
+
+      const now = new Date('2024-05-01T09:00:00Z')
+      const enrolled = { ...ranger, status: 'training' as const, course: createCourseEnrollment(survival, now) }
+      const trainers = [enrolled, battler, breeder]
+      expect(validateEnrollment(enrolled, capture, trainers, [], 10000)).toBe('タケシは研修を受講中です')
+      expect(validateEnrollment(battler, capture, trainers, [], 10000)).toBe('訓練場の定員がいっぱいです')
+      expect(validateEnrollment(battler, capture, trainers, [trainingGround], 10000)).toBeUndefined()
+
+      expect(isCourseComplete(enrolled.course, new Date('2024-05-01T14:59:00Z'))).toBe(false)
+      expect(getCourseProgress(enrolled.course, new Date('2024-05-01T12:00:00Z'))).toBeCloseTo(0.5)
+      expect(isCourseComplete(enrolled.course, new Date('2024-05-01T15:00:00Z'))).toBe(true)
+    })
+
+    test('修了するとコースに応じてスキルと個性が伸び、上限を超えない', () => {
+      const trainer = { ...ranger }
+      const gains = applyCourseGains(trainer, getTrainingCourse('survival_course')!)
+      expect(trainer.skills).toEqual({ ...ranger.skills, exploration: 8, healing: 5 })
+      expect(trainer.personality).toEqual({ ...ranger.personality, courage: 8, caution: 4 })
+      expect(describeCourseGains(gains)).toBe('探索 7→8、回復 4→5、勇敢さ 7→8、慎重さ 3→4')
+      // 元のトレーナーは変更しない
+      expect(ranger.skills.exploration).toBe(7)
+
+      const camp = applyCourseGains(trainer, getTrainingCourse('teamwork_camp')!)
+      expect(camp.map(gain => gain.key)).toEqual(['teamwork', 'compliance', 'independence'])
+      expect(trainer.personality.independence).toBe(3)
+
+      const expert = { ...ranger, skills: { ...ranger.skills, capture: 10 }, personality: { ...ranger.personality, curiosity: 10 } }
+      expect(applyCourseGains(expert, getTrainingCourse('capture_workshop')!)).toEqual([])
+      expect(expert.skills.capture).toBe(10)
+    })
+  })
+
+  describe('育て屋・訓練施設の保存', () => {
+    const start = new Date('2024-05-01T09:00:00Z').getTime()
+    const hour = 60 * 60 * 1000
+    const egg: PokemonEgg = {
+      id: 'egg-1',
+      speciesId: 25,
+      parent1Id: 'p1',
+      parent2Id: 'p2',
+      createdAt: start,
+      hatchTime: start,
+      stepsRequired: 2560,
+      currentSteps: 1000,
+      inheritedTraits: { ivs: { hp: 31 }, nature: 'おくびょう', moves: ['でんきショック'] },
+      isShiny: false,
+      rarity: 'common'
+    }
+
+    test('保存した交配とタマゴを復元し、不在中に終わった交配は実時刻から受け取り待ちにする', () => {
+      const breeding = new PokemonBreedingSystem()
+      const onChange = jest.fn()
+      breeding.addChangeListener(onChange)
+
+      breeding.restoreState({
+        sessions: [
+          { id: 'done', parent1Id: 'p1', parent2Id: 'p2', startTime: start, endTime: start + 2 * hour, progress: 10, status: 'active' },
+          { id: 'running', parent1Id: 'p3', parent2Id: 'p4', startTime: start, endTime: start + 4 * hour, progress: 0, status: 'active' }
+        ],
+        eggs: [egg]
+      }, start + 3 * hour)
+
+      const state = breeding.exportState()
+      expect(state.sessions.map(session => [session.id, session.status, session.progress])).toEqual([
+        ['done', 'ready', 100],
+        ['running', 'active', 75]
+      ])
+      expect(onChange).toHaveBeenCalledTimes(1)
+
+      // 孵化が進んだタマゴは保存する状態に反映され、元の状態は変更しない
+      breeding.incubateEggs(500)
+      expect(breeding.exportState().eggs[0].currentSteps).toBe(1500)
+      expect(egg.currentSteps).toBe(1000)
+
+      // 取り消した交配は保存しない
+      breeding.cancelBreeding('running')
+      expect(breeding.exportState().sessions.map(session => session.id)).toEqual(['done'])
+      expect(onChange).toHaveBeenCalledTimes(3)
+
+      // タマゴの受け取り待ちでも引き取れる（親がいなくなって受け取れない組み合わせが残らない）
+      expect(breeding.cancelBreeding('done')).toBe(true)
+      expect(breeding.exportState().sessions).toEqual([])
+    })
+
+    test('保存した訓練枠を復元し、終了時刻を過ぎた訓練は完了にする', () => {
+      const training = new PokemonTrainingFacility()
+      training.restoreState({
+        slots: [
+          { id: 'finished', pokemonId: 'p1', facilityId: 'basic_gym', programId: 'strength', startTime: start, endTime: start + hour, progress: 0, status: 'active' },
+          { id: 'paused', pokemonId: 'p2', facilityId: 'basic_gym', programId: 'strength', startTime: start, endTime: start + hour, progress: 40, status: 'paused' },
+          { id: 'cancelled', pokemonId: 'p3', facilityId: 'speed_course', programId: 'speed', startTime: start, endTime: start + hour, progress: 0, status: 'cancelled' }
+        ],
+        facilityLevels: {}
+      }, start + 2 * hour)
+
+      expect(training.exportState().slots.map(slot => [slot.id, slot.status, slot.progress])).toEqual([
+        ['finished', 'completed', 100],
+        ['paused', 'paused', 40]
+      ])
+      expect(training.getActiveSessions('basic_gym')).toEqual([])
+    })
+  })
+
+  describe('訓練施設の予約', () => {
+    const start = new Date('2024-05-01T09:00:00Z').getTime()
+    const minute = 60 * 1000
+    const gameData = createInitialGameData('training', 'テスト', 'テスト訓練所')
+    const context = { gameState: gameData, user: null }
+    const pokemon = (id: string) => ({ ...gameData.pokemon[0], id })
+    const statuses = (training: PokemonTrainingFacility) =>
+      Object.fromEntries(training.getTrainingSlots().map(slot => [slot.pokemonId, slot.status]))
+
+    test('定員を超えた分は順番待ちになり、枠が空いた時刻から自動で始まる', () => {
+      const training = new PokemonTrainingFacility()
+      const schedule = (id: string, at = start) => training.startTraining(pokemon(id), 'basic_gym', 'basic_strength', context, at)
+
+      // レベル1の基本ジムは定員2、順番待ちは1枠あたり2匹まで
+      expect(training.startTraining(pokemon('x'), 'basic_gym', 'advanced_strength', context, start).success).toBe(false)
+      ;['p1', 'p2', 'p3', 'p4', 'p5', 'p6'].forEach(id => expect(schedule(id).success).toBe(true))
+      expect(schedule('p7').error).toBe('Training queue is full')
+      expect(schedule('p1').error).toBe('Pokemon is already in training')
+      expect(statuses(training)).toMatchObject({ p1: 'active', p2: 'active', p3: 'queued', p6: 'queued' })
+
+      // 一時停止すると枠が空き、順番待ちの先頭が始まる
+      expect(training.pauseTraining(training.getPokemonSlot('p1')!.id, start + 10 * minute).success).toBe(true)
+      expect(training.getPokemonSlot('p3')).toMatchObject({ status: 'active', startTime: start + 10 * minute })
+
+      // 終わった枠の終了時刻に次が始まる（p2 は30分、p3 は40分で終わる）
+      const completed = training.updateTrainingSessions(start + 45 * minute)
+      expect(completed.map(slot => slot.pokemonId)).toEqual(['p2', 'p3'])
+      expect(training.getPokemonSlot('p4')).toMatchObject({ status: 'active', startTime: start + 30 * minute })
+      expect(training.getPokemonSlot('p5')).toMatchObject({ status: 'active', startTime: start + 40 * minute })
+
+      // 再開は空きがなければ順番待ちの最後に並び、停止前の残り時間から続ける
+      const paused = training.getPokemonSlot('p1')!
+      expect(training.resumeTraining(paused.id, start + 45 * minute)).toEqual({ success: true, queued: true })
+      const cancelled = training.cancelTraining(training.getPokemonSlot('p4')!.id, start + 50 * minute)
+      expect(cancelled.trainingSlot?.status).toBe('active')
+      expect(training.getPokemonSlot('p6')).toMatchObject({ status: 'active', startTime: start + 50 * minute })
+      training.cancelTraining(training.getPokemonSlot('p6')!.id, start + 55 * minute)
+      expect(training.getPokemonSlot('p1')).toMatchObject({ status: 'active', endTime: start + 75 * minute })
+    })
+
+    test('強化の見込みは次の強化内容から求め、強化レベルは保存して復元する', () => {
+      const training = new PokemonTrainingFacility()
+      const preview = training.previewUpgrade('basic_gym')!
+      expect(preview.current).toEqual({ level: 1, capacity: 2, bonusMultiplier: 1, speedBonus: 0, programs: ['basic_strength'] })
+      expect(preview.next).toMatchObject({ level: 2, capacity: 3, speedBonus: 0 })
+      expect(preview.next.bonusMultiplier).toBeCloseTo(1.1)
+      expect(training.previewUpgrade('technique_dojo')).toBeUndefined()
+
+      // プレイヤーレベルが足りなければ強化できない
+      expect(training.upgradeFacility('basic_gym', context).error).toBe('Player level too low')
+      const veteran = { gameState: { ...gameData, player: { ...gameData.player, level: 20, money: 100000 } }, user: null }
+
+      // 強化で増えた定員には順番待ちがすぐ入る
+      ;['p1', 'p2', 'p3'].forEach(id => training.startTraining(pokemon(id), 'basic_gym', 'basic_strength', context, start))
+      expect(training.upgradeFacility('basic_gym', veteran, start + minute)).toEqual({ success: true, newLevel: 2 })
+      expect(training.getPokemonSlot('p3')).toMatchObject({ status: 'active', startTime: start + minute })
+
+      // レベル4の強化で上級プログラムが加わる。レベル3の時間短縮はプログラムの所要時間に反映される
+      training.upgradeFacility('basic_gym', veteran)
+      expect(training.getFacilityPrograms('basic_gym')[0].duration).toBe(27 * minute)
+      expect(training.previewUpgrade('basic_gym')!.newPrograms).toEqual(['advanced_strength'])
+      // 必要な道具がなければ強化できない
+      expect(training.upgradeFacility('basic_gym', veteran).error).toBe('Required items missing')
+
+      const restored = new PokemonTrainingFacility()
+      restored.restoreState(training.exportState(), start + minute)
+      expect(training.exportState().facilityLevels.basic_gym).toBe(3)
+      expect(restored.getFacility('basic_gym')).toMatchObject({ level: 3, capacity: 5, speedBonus: 0.1 })
+      expect(restored.getActiveSessions('basic_gym')).toHaveLength(3)
+    })
+  })
+
+  describe('育て屋', () => {
+    const gameData = createInitialGameData('daycare', 'テスト', 'テスト訓練所')
+    const [ranger, battler] = gameData.trainers
+    const createParent = (id: string, speciesId: number, level: number, ivs: Pokemon['ivs']): Pokemon => ({
+      ...gameData.pokemon[0],
+      id,
+      speciesId,
+      level,
+      ivs,
+      nature: id === 'mother' ? 'おくびょう' : 'ひかえめ',
+      moves: ['でんきショック', 'なきごえ']
+    })
+    const mother = createParent('mother', 25, 20, { hp: 31, attack: 10, defense: 20, specialAttack: 5, specialDefense: 15, speed: 25 })
+    const father = createParent('father', 25, 22, { hp: 10, attack: 30, defense: 20, specialAttack: 6, specialDefense: 1, speed: 2 })
+    const egg: PokemonEgg = {
+      id: 'egg-a',
+      speciesId: 25,
+      parent1Id: 'mother',
+      parent2Id: 'father',
+      createdAt: 0,
+      hatchTime: 0,
+      stepsRequired: 2560,
+      currentSteps: 1000,
+      inheritedTraits: { ivs: { hp: 31 }, moves: [] },
+      isShiny: false,
+      rarity: 'common'
+    }
+
+    test('トレーナーに持たせたタマゴだけが、派遣で歩いた距離の分だけ孵化に近づく', () => {
+      const distance = calculateExpeditionDistance('2024-05-01T09:00:00Z', '2024-05-01T11:00:00Z')
+      expect(distance).toBe(10)
+      expect(calculateEggSteps(distance)).toBe(2560)
+
+      // 1人が持ち歩けるタマゴは1つまで、派遣中や孵化できるタマゴは渡せない
+      const carried = { ...egg, id: 'egg-b', carrierId: ranger.id }
+      expect(validateEggCarrier(egg, ranger, [egg])).toBeUndefined()
+      expect(validateEggCarrier(egg, ranger, [egg, carried])).toContain('すでにタマゴ')
+      expect(validateEggCarrier(egg, { ...ranger, status: 'on_expedition' }, [egg])).toBeDefined()
+      expect(validateEggCarrier({ ...egg, currentSteps: 2560 }, battler, [egg])).toBeDefined()
+
+      const breeding = new PokemonBreedingSystem()
+      breeding.restoreState({ sessions: [], eggs: [egg, { ...egg, id: 'egg-c' }] }, 0)
+      expect(breeding.setEggCarrier('egg-a', ranger.id)).toBe(true)
+
+      const ready = breeding.incubateEggs(calculateEggSteps(distance), [ranger.id, battler.id])
+      expect(ready.map(e => e.id)).toEqual(['egg-a'])
+      expect(breeding.exportState().eggs.map(e => [e.id, e.currentSteps, e.carrierId])).toEqual([
+        ['egg-a', 2560, ranger.id],
+        ['egg-c', 1000, undefined]
+      ])
+    })
+
+    test('預けられる組み合わせを判定し、親の個体値から遺伝の見込みを示す', () => {
+      const breeding = new PokemonBreedingSystem()
+      expect(validateBreedingPair(mother, father, [], gameData.trainers)).toBeUndefined()
+      expect(validateBreedingPair(mother, mother, [], gameData.trainers)).toContain('同じ')
+      expect(validateBreedingPair({ ...mother, level: 14 }, father, [], gameData.trainers)).toContain('Lv.15')
+      expect(validateBreedingPair(mother, father, [], [{ ...ranger, party: ['father'] }])).toContain(ranger.name)
+      expect(validateBreedingPair(mother, father, [
+        { id: 's', parent1Id: 'mother', parent2Id: 'other', startTime: 0, endTime: 1, progress: 0, status: 'active' }
+      ], gameData.trainers)).toContain('預けて')
+
+      // なつき度を持たないポケモンは同じ種族同士の相性がいちばん高い
+      expect(breeding.checkBreedingCompatibility(mother, father).compatibility).toBe(100)
+
+      // ブリーダーの育成技術で高い方の個体値と親の性格を受け継ぎやすくなる
+      const plain = breeding.calculateOffspring(mother, father)
+      const skilled = breeding.calculateOffspring(mother, father, 0.2)
+      expect(skilled.ivs.hp.perfectChance).toBeGreaterThan(plain.ivs.hp.perfectChance)
+      expect(skilled.natures[0].chance).toBeGreaterThan(plain.natures[0].chance)
+    })
+  })
+
+  describe('タマゴの遺伝ルール', () => {
+    const base = createInitialGameData('inheritance', 'テスト', 'テスト訓練所').pokemon[0]
+    const createParent = (id: string, speciesId: number, overrides: Partial<Pokemon> = {}): Pokemon => ({
+      ...base,
+      id,
+      speciesId,
+      level: 20,
+      originalTrainer: 'テスト',
+      ...overrides
+    })
+    const mother = createParent('mother', 25, {
+      nature: 'おくびょう',
+      ivs: { hp: 31, attack: 10, defense: 20, specialAttack: 5, specialDefense: 15, speed: 25 }
+    })
+    const father = createParent('father', 25, {
+      nature: 'ひかえめ',
+      ivs: { hp: 11, attack: 30, defense: 21, specialAttack: 6, specialDefense: 1, speed: 2 }
+    })
+    const context = { breedingQuality: 0, compatibility: 100, babySpeciesId: 172, natures: ['がんばりや', 'おくびょう', 'ひかえめ', 'ようき'] }
+
+    test('持ち物・元のトレーナー・相性から、生まれるポケモンの確率分布を求める', () => {
+      const distribution = calculateOffspringDistribution(mother, father, context)
+      expect(distribution.species.map(odds => [odds.speciesId, odds.chance])).toEqual([[172, 0.05], [25, 0.95]])
+      expect(distribution.inheritedIVCount).toBe(BASE_INHERITED_IV_COUNT)
+      STAT_KEYS.forEach(stat => {
+        expect(distribution.ivs[stat].chances.reduce((sum, chance) => sum + chance, 0)).toBeCloseTo(1)
+      })
+      // HPは半分の確率で遺伝し、遺伝すれば半分の確率で高い方（31）になる
+      expect(distribution.ivs.hp.perfectChance).toBeCloseTo(0.5 / 32 + 0.25)
+      expect(distribution.natures.reduce((sum, nature) => sum + nature.chance, 0)).toBeCloseTo(1)
+      expect(distribution.natures[0].nature).toBe('おくびょう')
+      expect(distribution.shinyChance).toBe(COMPATIBLE_SHINY_CHANCE)
+
+      // あかいいとで遺伝する個体値が増え、かわらずのいしで性格が決まる
+      const knotted = calculateOffspringDistribution({ ...mother, heldItem: 'destiny_knot' }, { ...father, heldItem: 'everstone' }, context)
+      expect(knotted.inheritedIVCount).toBe(5)
+      expect(knotted.ivs.hp.perfectChance).toBeCloseTo(1 / 6 / 32 + 5 / 6 / 2)
+      expect(knotted.natures).toEqual([{ nature: 'ひかえめ', chance: 1 }])
+
+      // 元のトレーナーが違う親同士は色違いが出やすい
+      expect(calculateShinyChance(mother, { ...father, originalTrainer: 'よそのトレーナー' }, 100))
+        .toBe(COMPATIBLE_SHINY_CHANCE * DIFFERENT_TRAINER_SHINY_MULTIPLIER)
+      expect(calculateShinyChance(mother, father, 50)).toBe(BASE_SHINY_CHANCE)
+    })
+
+    test('同じ乱数列なら同じタマゴになり、タマゴ技は生まれる種族の習得技から受け継ぐ', () => {
+      const first = rollOffspring(mother, father, context, new GameRandom(42))
+      expect(rollOffspring(mother, father, context, new GameRandom(42))).toEqual(first)
+
+      // 持ち物の効果はどの乱数列でも守られる
+      const held = { ...father, heldItem: 'everstone' }
+      const knot = { ...mother, heldItem: 'destiny_knot' }
+      for (let seed = 1; seed <= 20; seed++) {
+        const egg = rollOffspring(knot, held, context, new GameRandom(seed))
+        expect(egg.nature).toBe('ひかえめ')
+        const fromParents = STAT_KEYS.filter(stat => [mother.ivs[stat], father.ivs[stat]].includes(egg.ivs[stat]))
+        expect(fromParents.length).toBeGreaterThanOrEqual(5)
+      }
+
+      // フシギダネはつるのムチをLv.7で覚える（Lv.1のたいあたり・習得しないはかいこうせんは受け継がない）
+      const bulbasaur = createParent('bulbasaur', 1, { moves: ['たいあたり', 'つるのムチ', 'はかいこうせん'] })
+      expect(getEggMoves(1, bulbasaur, createParent('other', 1, { moves: [] }))).toEqual(['つるのムチ'])
+      expect(getHatchlingMoves(1, ['つるのムチ'])).toEqual(['たいあたり', 'つるのムチ'])
+    })
+  })
+
+  describe('努力値', () => {
+    const context = { gameState: createInitialGameData('effort', 'テスト', 'テスト訓練所'), user: null }
+    const createPokemon = (level: number, evs?: PokemonInstance['evs']): PokemonInstance => ({
+      id: 'test_effort',
+      speciesId: 7,
+      name: 'ゼニガメ',
+      level,
+      experience: Math.pow(level, 3),
+      nextLevelExp: Math.pow(level + 1, 3),
+      hp: 100,
+      maxHp: 120,
+      attack: 60,
+      defense: 70,
+      specialAttack: 55,
+      specialDefense: 65,
+      speed: 50,
+      moves: ['たいあたり'],
+      friendship: 70,
+      nature: 'Bold',
+      ivs: { hp: 10, attack: 10, defense: 10, specialAttack: 10, specialDefense: 10, speed: 10 },
+      evs
+    } as PokemonInstance)
+
+    test('努力値は能力ごと・合計の上限まで溜まり、道具で減らすと能力値も戻る', () => {
+      // 能力ごとの上限252を超えた分と、合計510を超えた分は溜まらない
+      const capped = addEffortValues({ ...createEmptyEffortValues(), attack: 250 }, { attack: 10, speed: 10 })
+      expect(capped.gained).toEqual({ attack: 2, speed: 10 })
+      const full = addEffortValues({ ...createEmptyEffortValues(), attack: 252, defense: 252 }, { speed: 10 })
+      expect(full.gained).toEqual({ speed: 6 })
+      expect(getTotalEffortValues(full.evs)).toBe(MAX_TOTAL_EVS)
+
+      // 倒した種族の一番高い種族値の能力に、種族値の合計に応じて1〜3
+      expect(getBattleEffortYield({ hp: 45, attack: 49, defense: 49, specialAttack: 65, specialDefense: 65, speed: 45 }))
+        .toEqual({ specialAttack: 1 })
+      expect(getBattleEffortYield({ hp: 100, attack: 100, defense: 90, specialAttack: 90, specialDefense: 100, speed: 120 }))
+        .toEqual({ speed: 3 })
+
+      // 能力値には努力値4ごとにレベル100で1上乗せされる
+      const pokemon = createPokemon(100)
+      const trained = applyEffortValues(pokemon, { ...createEmptyEffortValues(), hp: 252, attack: 100 })
+      expect(trained).toMatchObject({ maxHp: 183, hp: 163, attack: 85, defense: 70 })
+
+      const reduced = reduceEffortValues(trained.evs, 10, 'attack')
+      expect(reduced).toMatchObject({ hp: 252, attack: 90 })
+      expect(applyEffortValues(trained, reduced).attack).toBe(82)
+      const reset = applyEffortValues(trained, reduceEffortValues(trained.evs, 0))
+      expect(reset).toMatchObject({ maxHp: 120, hp: 100, attack: 60 })
+      expect(getTotalEffortValues(reset.evs)).toBe(0)
+    })
+
+    test('訓練は専門の能力に施設の倍率を掛けた努力値を与え、レベルアップでも努力値の分だけ伸びる', () => {
+      const result = pokemonGrowthSystem.performTraining(createPokemon(50), 'speed_training', context, 1.5).result!
+      expect(result.effortGained).toEqual({ speed: 18 })
+      expect(result.updatedPokemon.evs).toMatchObject({ speed: 18, attack: 0 })
+      expect(result.statBonuses.speed).toBe(getEffortStatBonus(result.updatedPokemon.evs, result.updatedPokemon.level).speed)
+      expect(result.statBonuses.attack).toBe(0)
+
+      // 全能力の訓練は専門の能力が6つなので等分され、合計の上限で止まる
+      const nearlyFull = { ...createEmptyEffortValues(), attack: 252, defense: 252, speed: 4 }
+      const elite = pokemonGrowthSystem.performTraining(createPokemon(50, nearlyFull), 'elite_training', context).result!
+      expect(elite.effortGained).toEqual({ hp: 2 })
+
+      const levelUp = (evs?: PokemonInstance['evs']) => pokemonGrowthSystem.giveExperience(
+        createPokemon(49, evs),
+        Math.pow(50, 3) - Math.pow(49, 3),
+        'expedition',
+        context
+      ).levelUpResult!.statGains
+      const withEvs = levelUp({ ...createEmptyEffortValues(), attack: 252 })
+      const withoutEvs = levelUp()
+      expect(withEvs.attack - withoutEvs.attack).toBe(1)
+      expect(withEvs.speed).toBe(withoutEvs.speed)
+    })
+  })
+
   describe('システム間連携', () => {
     test('派遣成功時の全システム連動', async () => {
       const initialMoney = economySystem.getCurrentMoney()
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState } from 'react'
+import { useAchievements } from '@/lib/game-state/hooks'
+import { getItemDefinition } from '@/lib/static-data/items'
+import type { AchievementDefinition } from '@/lib/static-data/types'
+import { PixelCard } from '@/components/ui/PixelCard'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
+import { formatMoney } from '@/lib/utils'
+import { clsx } from 'clsx'
+
+type CategoryFilter = 'all' | AchievementDefinition['category']
+
+const CATEGORY_LABELS: Record<CategoryFilter, string> = {
+  all: 'すべて',
+  capture: '捕獲',
+  expedition: '派遣',
+  economy: '経済',
+  facility: '施設'
+}
+
+const TIER_STYLES: Record<AchievementDefinition['tier'], { label: string; className: string }> = {
+  bronze: { label: 'ブロンズ', className: 'bg-orange-700' },
+  silver: { label: 'シルバー', className: 'bg-gray-500' },
+  gold: { label: 'ゴールド', className: 'bg-yellow-500' },
+  platinum: { label: 'プラチナ', className: 'bg-cyan-600' },
+  legendary: { label: 'レジェンド', className: 'bg-purple-600' }
+}
+
+const formatRewards = (rewards: AchievementDefinition['rewards']): string => {
+  const parts: string[] = []
+  if (rewards.money) parts.push(formatMoney(rewards.money))
+  rewards.items?.forEach(item => {
+    parts.push(`${getItemDefinition(item.itemId)?.nameJa ?? item.itemId} ×${item.quantity}`)
+  })
+  rewards.titles?.forEach(title => parts.push(`称号「${title}」`))
+  return parts.join(' / ') || 'なし'
+}
+
+export default function AchievementsPage() {
+  const [filter, setFilter] = useState<CategoryFilter>('all')
+  const { entries, unlockedCount, totalCount, totalPoints, recentUnlocked } = useAchievements()
+
+  const filteredEntries = entries.filter(entry => filter === 'all' || entry.definition.category === filter)
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h1 className="font-pixel text-2xl text-retro-gb-dark mb-2">🏆 実績</h1>
+        <p className="font-pixel text-sm text-retro-gb-mid">
+          スクール運営の記録と達成報酬
+        </p>
+      </div>
+
+      {/* サマリー */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <PixelCard title="解除数">
+          <div className="font-pixel text-2xl text-retro-gb-dark text-center">
+            {unlockedCount} / {totalCount}
+          </div>
+          <PixelProgressBar value={unlockedCount} max={totalCount} color="exp" className="mt-2" />
+        </PixelCard>
+        <PixelCard title="実績ポイント">
+          <div className="font-pixel text-2xl text-retro-gb-dark text-center">{totalPoints} pt</div>
+        </PixelCard>
+        <PixelCard title="最近の解除">
+          {recentUnlocked.length === 0 ? (
+            <div className="font-pixel text-xs text-retro-gb-mid text-center">まだ実績がありません</div>
+          ) : (
+            <div className="space-y-1">
+              {recentUnlocked.map(achievement => (
+                <div key={achievement.id} className="flex justify-between font-pixel text-xs">
+                  <span className="text-retro-gb-dark">{achievement.title}</span>
+                  <span className="text-retro-gb-mid">
+                    {new Date(achievement.unlockedAt).toLocaleDateString('ja-JP')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </PixelCard>
+      </div>
+
+      {/* カテゴリフィルター */}
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(CATEGORY_LABELS) as CategoryFilter[]).map(category => (
+          <PixelButton
+            key={category}
+            size="sm"
+            variant={filter === category ? 'primary' : 'secondary'}
+            onClick={() => setFilter(category)}
+          >
+            {CATEGORY_LABELS[category]}
+          </PixelButton>
+        ))}
+      </div>
+
+      {/* 実績一覧 */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {filteredEntries.map(({ definition, unlocked, unlockedAt, progress }) => (
+          <PixelCard key={definition.id}>
+            <div className={clsx('space-y-2', !unlocked && 'opacity-75')}>
+              <div className="flex items-center justify-between">
+                <h3 className="font-pixel text-retro-gb-dark">
+                  {unlocked ? '🏆' : '🔒'} {definition.title}
+                </h3>
+                <span className={clsx('text-white px-2 py-1 rounded font-pixel text-xs', TIER_STYLES[definition.tier].className)}>
+                  {TIER_STYLES[definition.tier].label}
+                </span>
+              </div>
+              <p className="font-pixel text-xs text-retro-gb-mid">{definition.description}</p>
+
+              <PixelProgressBar
+                value={progress}
+                max={definition.target}
+                color={unlocked ? 'exp' : 'progress'}
+              />
+              <div className="flex justify-between font-pixel text-xs text-retro-gb-mid">
+                <span>{progress.toLocaleString()} / {definition.target.toLocaleString()}</span>
+                <span>{definition.points} pt</span>
+              </div>
+
+              <div className="font-pixel text-xs text-retro-gb-dark">
+                報酬: {formatRewards(definition.rewards)}
+              </div>
+              {unlocked && unlockedAt && (
+                <div className="font-pixel text-xs text-green-700">
+                  {new Date(unlockedAt).toLocaleString('ja-JP')} に解除
+                </div>
+              )}
+            </div>
+          </PixelCard>
+        ))}
+      </div>
+    </div>
+  )
+}
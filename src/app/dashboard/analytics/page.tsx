@@ -7,16 +7,88 @@ import { PixelButton } from '@/components/ui/PixelButton'
 import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
 import { formatMoney } from '@/lib/utils'
 import { useGameState, useEconomy, useTrainers, useExpeditions } from '@/lib/game-state/hooks'
+import { startOfPeriod, addPeriods, type LedgerPeriod, type LedgerBucket } from '@/lib/game-logic/financial-ledger'
+import { getJobDefinition } from '@/lib/static-data/jobs'
+import { getLocationDefinition } from '@/lib/static-data/locations'
+import { getStaffAbilityBonus } from '@/lib/game-state/skills'
+import type { Facility } from '@/lib/game-state/types'
+
+type AnalyticsPeriod = LedgerPeriod | 'all'
+
+// 分析期間ごとの収支推移の表示単位
+const PERIOD_OPTIONS: Record<AnalyticsPeriod, { label: string; bucket: LedgerPeriod; count: number }> = {
+  day: { label: '今日', bucket: 'day', count: 7 },
+  week: { label: '今週', bucket: 'week', count: 8 },
+  month: { label: '今月', bucket: 'month', count: 6 },
+  all: { label: '全期間', bucket: 'month', count: 12 }
+}
+
+const DIFFICULTY_MULTIPLIERS = { easy: 0.8, normal: 1.0, hard: 1.3, extreme: 1.6 }
+
+const CATEGORY_LABELS: Record<string, string> = {
+  expedition_reward: '派遣報酬',
+  salary: '給与',
+  facility_cost: '施設',
+  trainer_hire: '雇用',
+  item_purchase: 'アイテム購入',
+  item_sale: 'アイテム売却',
+  pokemon_sale: 'ポケモン売却',
+  pokemon_purchase: 'ポケモン購入',
+  loan: '融資',
+  other: 'その他'
+}
+
+const formatBucketLabel = (bucket: LedgerBucket, period: LedgerPeriod): string => {
+  if (period === 'month') return `${bucket.start.getFullYear()}/${bucket.start.getMonth() + 1}`
+  const label = `${bucket.start.getMonth() + 1}/${bucket.start.getDate()}`
+  return period === 'week' ? `${label}〜` : label
+}
+
+// 施設効果の倍率（同種の施設は掛け合わせる）
+const getFacilityMultiplier = (facilities: Facility[], type: Facility['type'], effect: keyof Facility['effects']): number => {
+  return facilities
+    .filter(f => f.type === type)
+    .reduce((total, f) => total * (f.effects[effect] ?? 1), 1)
+}
 
 export default function AnalyticsPage() {
-  const [selectedPeriod, setSelectedPeriod] = useState<'day' | 'week' | 'month' | 'all'>('week')
+  const [selectedPeriod, setSelectedPeriod] = useState<AnalyticsPeriod>('week')
   const router = useRouter()
   
   const { gameData } = useGameState()
-  const { money, transactions } = useEconomy()
+  const { money, ledger } = useEconomy()
   const { trainers } = useTrainers()
   const { expeditions } = useExpeditions()
 
+  // 選択期間（all は期間指定なし）と、比較用の直前の同じ長さの期間
+  const now = new Date()
+  const periodStart = selectedPeriod === 'all' ? undefined : startOfPeriod(now, selectedPeriod)
+  const comparisonUnit: LedgerPeriod = selectedPeriod === 'all' ? 'month' : selectedPeriod
+  const currentStart = startOfPeriod(now, comparisonUnit)
+  const previousStart = addPeriods(currentStart, comparisonUnit, -1)
+  const inPeriod = (timestamp?: string) => !periodStart || (!!timestamp && new Date(timestamp) >= periodStart)
+
+  const periodSummary = ledger.getSummary(periodStart)
+  const cashFlow = ledger.getCashFlow(PERIOD_OPTIONS[selectedPeriod].bucket, PERIOD_OPTIONS[selectedPeriod].count, now)
+  const trend = ledger.getTrend(PERIOD_OPTIONS[selectedPeriod].bucket, PERIOD_OPTIONS[selectedPeriod].count, now)
+
+  const periodExpeditions = expeditions.filter(e => inPeriod(e.startTime))
+  const periodPokemon = (gameData?.pokemon || []).filter(p => inPeriod(p.caughtDate))
+  // 期間より前に捕まえていない種族を新種登録として数える
+  const knownSpecies = new Set((gameData?.pokemon || []).filter(p => !inPeriod(p.caughtDate)).map(p => p.speciesId))
+  const newSpecies = new Set(periodPokemon.map(p => p.speciesId).filter(id => !knownSpecies.has(id)))
+
+  // 1取引あたりの平均支出の前期比
+  const averageExpense = (from: Date, to?: Date) => {
+    const summary = ledger.getSummary(from, to)
+    const count = Object.values(summary.byCategory).reduce((sum, c) => sum + (c.expenses > 0 ? c.transactionCount : 0), 0)
+    return count > 0 ? summary.expenses / count : 0
+  }
+  const currentAverageExpense = averageExpense(currentStart)
+  const previousAverageExpense = averageExpense(previousStart, currentStart)
+
+  const facilities = gameData?.facilities || []
+
   // JSON システムから分析データを計算
   const gameState = {
     progress: {
@@ -29,25 +101,35 @@ export default function AnalyticsPage() {
     },
     metrics: {
       averageEfficiency: trainers.length > 0 ? trainers.reduce((sum, t) => sum + t.level, 0) / trainers.length / 10 : 1.0,
-      expeditionSuccessRate: expeditions.length > 0 ? 
-        (expeditions.filter(e => e.status === 'completed').length / expeditions.length) * 100 : 100,
-      totalRevenue: transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0),
-      totalExpenses: transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0),
-      netProfit: transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0) - 
-                transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0),
-      expeditionsCompleted: expeditions.filter(e => e.status === 'completed').length,
-      pokemonCaught: gameData?.pokemon?.length || 0,
-      trainersHired: trainers.length,
-      facilitiesUpgraded: 0,
-      researchCompleted: 0
+      expeditionSuccessRate: periodExpeditions.length > 0 ? 
+        (periodExpeditions.filter(e => e.status === 'completed').length / periodExpeditions.length) * 100 : 100,
+      totalRevenue: periodSummary.income,
+      totalExpenses: periodSummary.expenses,
+      netProfit: periodSummary.net,
+      expeditionsCompleted: periodExpeditions.filter(e => e.status === 'completed').length,
+      pokemonCaught: periodPokemon.length,
+      trainersHired: trainers.filter(t => inPeriod(t.hiredDate)).length,
+      facilitiesUpgraded: periodSummary.byCategory.facility_cost?.transactionCount || 0,
+      researchCompleted: newSpecies.size
     },
     balance: {
-      trainerGrowthRate: 1.0,
-      pokemonGrowthRate: 1.0,
-      expeditionDifficulty: 1.0,
-      economyInflation: 1.0,
-      researchSpeed: 1.0,
-      facilityEfficiency: 1.0
+      trainerGrowthRate: trainers.length > 0
+        ? trainers.reduce((sum, t) => sum + getJobDefinition(t.job).growthRates.experienceMultiplier, 0) / trainers.length
+        : 1.0,
+      pokemonGrowthRate: getFacilityMultiplier(facilities, 'training_ground', 'trainingEfficiency'),
+      expeditionDifficulty: periodExpeditions.length > 0
+        ? periodExpeditions.reduce((sum, e) => {
+            const difficulty = getLocationDefinition(e.locationId)?.difficulty ?? 'normal'
+            return sum + DIFFICULTY_MULTIPLIERS[difficulty]
+          }, 0) / periodExpeditions.length
+        : 1.0,
+      economyInflation: currentAverageExpense > 0 && previousAverageExpense > 0
+        ? currentAverageExpense / previousAverageExpense
+        : 1.0,
+      researchSpeed: getFacilityMultiplier(facilities, 'research_lab', 'researchBonus') * (1 + getStaffAbilityBonus(trainers, 'researchSpeed')),
+      facilityEfficiency: facilities.length > 0
+        ? facilities.reduce((sum, f) => sum + f.condition, 0) / facilities.length
+        : 1.0
     }
   }
 
@@ -208,13 +290,13 @@ export default function AnalyticsPage() {
         <PixelCard title="財務指標">
           <div className="space-y-3">
             <div className="flex justify-between">
-              <span className="font-pixel text-xs text-retro-gb-mid">月次収益</span>
+              <span className="font-pixel text-xs text-retro-gb-mid">{PERIOD_OPTIONS[selectedPeriod].label}の収益</span>
               <span className="font-pixel text-sm text-green-600">
                 {formatMoney(gameState.metrics.totalRevenue)}
               </span>
             </div>
             <div className="flex justify-between">
-              <span className="font-pixel text-xs text-retro-gb-mid">月次支出</span>
+              <span className="font-pixel text-xs text-retro-gb-mid">{PERIOD_OPTIONS[selectedPeriod].label}の支出</span>
               <span className="font-pixel text-sm text-red-600">
                 {formatMoney(gameState.metrics.totalExpenses)}
               </span>
@@ -255,7 +337,7 @@ export default function AnalyticsPage() {
               </span>
             </div>
             <div className="flex justify-between">
-              <span className="font-pixel text-xs text-retro-gb-mid">研究完了</span>
+              <span className="font-pixel text-xs text-retro-gb-mid">新種登録</span>
               <span className="font-pixel text-sm text-retro-gb-dark">
                 {gameState.metrics.researchCompleted}
               </span>
@@ -264,6 +346,59 @@ export default function AnalyticsPage() {
         </PixelCard>
       </div>
 
+      {/* 収支推移 */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <PixelCard title="収支推移" className="md:col-span-2">
+          <div className="space-y-1">
+            <div className="grid grid-cols-5 gap-2 font-pixel text-xs text-retro-gb-mid border-b border-retro-gb-mid pb-1">
+              <span>期間</span>
+              <span className="text-right">収入</span>
+              <span className="text-right">支出</span>
+              <span className="text-right">収支</span>
+              <span className="text-right">残高</span>
+            </div>
+            {cashFlow.map(bucket => (
+              <div key={bucket.key} className="grid grid-cols-5 gap-2 font-pixel text-xs">
+                <span className="text-retro-gb-dark">{formatBucketLabel(bucket, PERIOD_OPTIONS[selectedPeriod].bucket)}</span>
+                <span className="text-right text-green-600">{formatMoney(bucket.income)}</span>
+                <span className="text-right text-red-600">{formatMoney(bucket.expenses)}</span>
+                <span className={`text-right ${bucket.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatMoney(bucket.net)}
+                </span>
+                <span className="text-right text-retro-gb-dark">{formatMoney(bucket.closingBalance)}</span>
+              </div>
+            ))}
+            <div className="font-pixel text-xs text-retro-gb-mid pt-2">
+              傾向: {trend.direction === 'improving' ? '📈 改善' : trend.direction === 'declining' ? '📉 悪化' : '➡️ 横ばい'}
+              {trend.direction !== 'stable' && ` (${trend.rate.toFixed(0)}%)`}
+            </div>
+          </div>
+        </PixelCard>
+
+        <PixelCard title="カテゴリ別内訳">
+          <div className="space-y-2">
+            {Object.entries(periodSummary.byCategory).length > 0 ? (
+              Object.entries(periodSummary.byCategory)
+                .sort(([, a], [, b]) => Math.abs(b.net) - Math.abs(a.net))
+                .map(([category, totals]) => (
+                  <div key={category} className="flex justify-between">
+                    <span className="font-pixel text-xs text-retro-gb-mid">
+                      {CATEGORY_LABELS[category] || category} ({totals.transactionCount})
+                    </span>
+                    <span className={`font-pixel text-sm ${totals.net >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatMoney(totals.net)}
+                    </span>
+                  </div>
+                ))
+            ) : (
+              <div className="font-pixel text-xs text-retro-gb-mid text-center py-4">
+                この期間の取引はありません
+              </div>
+            )}
+          </div>
+        </PixelCard>
+      </div>
+
       {/* バランス状況 */}
       <PixelCard title="ゲームバランス状況">
         <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
@@ -412,7 +547,7 @@ export default function AnalyticsPage() {
                   key={period.key}
                   size="sm"
                   variant={selectedPeriod === period.key ? 'primary' : 'secondary'}
-                  onClick={() => setSelectedPeriod(period.key as any)}
+                  onClick={() => setSelectedPeriod(period.key as AnalyticsPeriod)}
                 >
                   {period.label}
                 </PixelButton>
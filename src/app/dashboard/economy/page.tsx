@@ -7,14 +7,26 @@ import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
 import { PixelInput } from '@/components/ui/PixelInput'
 import { economySystem, Transaction, BudgetCategory, FinancialStatus } from '@/lib/economy'
 import { formatMoney } from '@/lib/utils'
-import { useGameState, useEconomy } from '@/lib/game-state/hooks'
+import { useGameState, useEconomy, useFinance } from '@/lib/game-state/hooks'
+import { BANKRUPTCY_STAGE_LABELS, FINANCE_ACTION_LABELS } from '@/lib/game-state/finance'
+import type { BankruptcyStage } from '@/lib/game-state/types'
 import { clsx } from 'clsx'
 
+const STAGE_COLORS: Record<BankruptcyStage, string> = {
+  solvent: 'text-green-600',
+  warning: 'text-yellow-600',
+  distressed: 'text-orange-600',
+  bankrupt: 'text-red-600'
+}
+
 export default function EconomyPage() {
-  const [selectedTab, setSelectedTab] = useState<'overview' | 'transactions' | 'budget' | 'reports'>('overview')
+  const [selectedTab, setSelectedTab] = useState<'overview' | 'transactions' | 'budget' | 'banking' | 'reports'>('overview')
+  const [loanAmount, setLoanAmount] = useState('10000')
+  const [financeMessage, setFinanceMessage] = useState<string | null>(null)
   
   const { gameData } = useGameState()
   const { money, transactions, actions } = useEconomy()
+  const { finance, products, takeLoan, repayLoan, payUnpaidWages } = useFinance()
   
   // JSON システムから取得したデータを使用
   const transactionList = transactions.slice(0, 20).map(t => ({
@@ -139,6 +151,10 @@ export default function EconomyPage() {
     )
   }
 
+  const handleFinanceAction = (result: { success: boolean; message: string }) => {
+    setFinanceMessage(result.message)
+  }
+
   const getHealthColor = (value: number, type: 'balance' | 'profit' | 'burnRate') => {
     switch (type) {
       case 'balance':
@@ -175,6 +191,25 @@ export default function EconomyPage() {
         </div>
       </div>
 
+      {/* 経営状態の警告 */}
+      {finance && finance.stage !== 'solvent' && (
+        <PixelCard variant={finance.stage === 'warning' ? 'warning' : 'danger'}>
+          <div className="flex items-center justify-between">
+            <div>
+              <div className={`font-pixel text-sm ${STAGE_COLORS[finance.stage]}`}>
+                🏦 経営状態: {BANKRUPTCY_STAGE_LABELS[finance.stage]}
+              </div>
+              <div className="font-pixel text-xs text-retro-gb-mid">
+                制限中: {finance.lockedActions.map(action => FINANCE_ACTION_LABELS[action]).join('・')}
+              </div>
+            </div>
+            <PixelButton size="sm" variant="secondary" onClick={() => setSelectedTab('banking')}>
+              詳細
+            </PixelButton>
+          </div>
+        </PixelCard>
+      )}
+
       {/* 財務概要 */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <PixelCard title="現在の残高">
@@ -225,6 +260,7 @@ export default function EconomyPage() {
             { key: 'overview', label: '概要' },
             { key: 'transactions', label: '取引履歴' },
             { key: 'budget', label: '予算管理' },
+            { key: 'banking', label: '融資' },
             { key: 'reports', label: 'レポート' }
           ].map(tab => (
             <PixelButton
@@ -424,6 +460,164 @@ export default function EconomyPage() {
         </div>
       )}
 
+      {/* 融資タブ */}
+      {selectedTab === 'banking' && finance && (
+        <div className="space-y-4">
+          {financeMessage && (
+            <div className="font-pixel text-xs text-retro-gb-dark p-2 bg-retro-gb-light border border-retro-gb-mid">
+              {financeMessage}
+            </div>
+          )}
+
+          <PixelCard title="経営状態">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <div className="font-pixel text-xs text-retro-gb-mid">段階</div>
+                <div className={`font-pixel-large ${STAGE_COLORS[finance.stage]}`}>
+                  {BANKRUPTCY_STAGE_LABELS[finance.stage]}
+                </div>
+                <div className="font-pixel text-xs text-retro-gb-mid">
+                  {finance.stageSince.toLocaleDateString('ja-JP')}から
+                </div>
+              </div>
+              <div>
+                <div className="font-pixel text-xs text-retro-gb-mid">残高マイナス継続</div>
+                <div className="font-pixel text-sm text-retro-gb-dark">
+                  {finance.negativeBalanceDays.toFixed(1)}日
+                </div>
+              </div>
+              <div>
+                <div className="font-pixel text-xs text-retro-gb-mid">借入残高</div>
+                <div className="font-pixel text-sm text-retro-gb-dark">
+                  {formatMoney(finance.outstandingDebt)}
+                </div>
+              </div>
+              <div>
+                <div className="font-pixel text-xs text-retro-gb-mid">次回給与日</div>
+                <div className="font-pixel text-sm text-retro-gb-dark">
+                  {finance.nextPayrollDate.toLocaleDateString('ja-JP')}
+                </div>
+                <div className="font-pixel text-xs text-retro-gb-mid">
+                  {formatMoney(finance.monthlyPayroll)}
+                </div>
+              </div>
+            </div>
+
+            {finance.lockedActions.length > 0 && (
+              <div className="mt-4 font-pixel text-xs text-red-600">
+                制限中の行動: {finance.lockedActions.map(action => FINANCE_ACTION_LABELS[action]).join('・')}
+              </div>
+            )}
+
+            {finance.unpaidWages > 0 && (
+              <div className="mt-4 flex items-center justify-between border border-red-300 bg-red-50 p-3">
+                <div>
+                  <div className="font-pixel text-xs text-red-600">
+                    未払い給与 {formatMoney(finance.unpaidWages)}（{finance.missedPayrolls}回連続）
+                  </div>
+                  <div className="font-pixel text-xs text-retro-gb-mid">
+                    未払いが続くとトレーナーの信頼度と士気が下がります
+                  </div>
+                </div>
+                <PixelButton
+                  size="sm"
+                  disabled={money < finance.unpaidWages}
+                  onClick={() => handleFinanceAction(payUnpaidWages())}
+                >
+                  支払う
+                </PixelButton>
+              </div>
+            )}
+          </PixelCard>
+
+          <PixelCard title="返済中の融資">
+            {finance.loans.length === 0 ? (
+              <div className="font-pixel text-xs text-retro-gb-mid">返済中の融資はありません</div>
+            ) : (
+              <div className="space-y-3">
+                {finance.loans.map(({ loan, product, remaining, paidCount }) => {
+                  const nextDue = loan.installments.find(installment => !installment.paidAt)
+
+                  return (
+                    <div key={loan.id} className="border border-retro-gb-mid p-3">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <div className="font-pixel text-sm text-retro-gb-dark">
+                            {product?.name ?? loan.productId}（元金 {formatMoney(loan.principal)}）
+                          </div>
+                          <div className="font-pixel text-xs text-retro-gb-mid">
+                            返済 {paidCount}/{loan.installments.length}回
+                            {nextDue && ` ・ 次回 ${new Date(nextDue.dueDate).toLocaleDateString('ja-JP')} ${formatMoney(nextDue.amount)}`}
+                          </div>
+                        </div>
+                        <PixelButton
+                          size="sm"
+                          variant="secondary"
+                          disabled={money < remaining}
+                          onClick={() => handleFinanceAction(repayLoan(loan.id))}
+                        >
+                          一括返済 {formatMoney(remaining)}
+                        </PixelButton>
+                      </div>
+                      <div className="mt-2">
+                        <PixelProgressBar
+                          value={paidCount}
+                          max={loan.installments.length}
+                          color="exp"
+                          showLabel={false}
+                        />
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </PixelCard>
+
+          <PixelCard title="融資を受ける">
+            <div className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <span className="font-pixel text-xs text-retro-gb-dark">借入額</span>
+                <PixelInput
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  value={loanAmount}
+                  onChange={(e) => setLoanAmount(e.target.value)}
+                />
+              </div>
+              {products.map(product => {
+                const principal = Number(loanAmount)
+                const total = Math.round(principal * (1 + product.interestRate))
+
+                return (
+                  <div key={product.id} className="flex justify-between items-center border border-retro-gb-mid p-3">
+                    <div>
+                      <div className="font-pixel text-sm text-retro-gb-dark">{product.name}</div>
+                      <div className="font-pixel text-xs text-retro-gb-mid">
+                        利率 {(product.interestRate * 100).toFixed(0)}% ・ {product.intervalDays}日毎 {product.installmentCount}回払い ・ 上限 {formatMoney(product.maxPrincipal)}
+                      </div>
+                      {principal > 0 && principal <= product.maxPrincipal && (
+                        <div className="font-pixel text-xs text-retro-gb-mid">
+                          返済総額 {formatMoney(total)}（1回あたり約 {formatMoney(Math.floor(total / product.installmentCount))}）
+                        </div>
+                      )}
+                    </div>
+                    <PixelButton
+                      size="sm"
+                      disabled={!(principal > 0) || principal > product.maxPrincipal}
+                      onClick={() => handleFinanceAction(takeLoan(product.id, principal))}
+                    >
+                      借入
+                    </PixelButton>
+                  </div>
+                )
+              })}
+            </div>
+          </PixelCard>
+        </div>
+      )}
+
       {/* レポートタブ */}
       {selectedTab === 'reports' && monthlyReport && (
         <div className="space-y-4">
@@ -1,89 +1,280 @@
 'use client'
 
-import { useGameState } from '@/lib/game-state/hooks'
+import { useTasks, useEventCalendar } from '@/lib/game-state/hooks'
+import type { CalendarEvent } from '@/lib/game-logic/event-calendar'
+import { getItemDefinition } from '@/lib/static-data/items'
 import { PixelCard } from '@/components/ui/PixelCard'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
+import { formatMoney } from '@/lib/utils'
+import { clsx } from 'clsx'
+
+interface TaskView {
+  id: string
+  description: string
+  progress: number
+  maxProgress: number
+  completed: boolean
+  difficulty?: 'easy' | 'medium' | 'hard'
+  rewards: {
+    money: number
+    experience: number
+    items: Array<{ itemId: string; quantity: number }>
+  }
+}
+
+const DIFFICULTY_LABELS = {
+  easy: { label: 'かんたん', className: 'bg-green-600' },
+  medium: { label: 'ふつう', className: 'bg-yellow-600' },
+  hard: { label: 'むずかしい', className: 'bg-red-600' }
+}
+
+const SEASON_ICONS = {
+  spring: '🌸',
+  summer: '🌻',
+  autumn: '🍁',
+  winter: '❄️'
+}
+
+const RARITY_LABELS: Record<string, string> = {
+  common: 'コモン',
+  uncommon: 'アンコモン',
+  rare: 'レア',
+  ultra_rare: 'ウルトラレア',
+  legendary: '伝説',
+  mythical: '幻'
+}
+
+const formatPeriod = (event: CalendarEvent): string => {
+  // end は終了日翌日の0時なので1ms戻して終了日を表示
+  const lastDay = new Date(event.end.getTime() - 1)
+  return `${event.start.toLocaleDateString('ja-JP')} 〜 ${lastDay.toLocaleDateString('ja-JP')}`
+}
+
+const describeEffects = (event: CalendarEvent): string[] => {
+  const { effects } = event.definition
+  const lines: string[] = []
+
+  Object.entries(effects.encounterBonuses || {}).forEach(([rarity, multiplier]) => {
+    lines.push(`${RARITY_LABELS[rarity] ?? rarity}の出現率 ×${multiplier}`)
+  })
+  if (effects.specialPokemon && effects.specialPokemon.length > 0) {
+    lines.push(`対象ポケモン: No.${effects.specialPokemon.join(', No.')}`)
+  }
+  if (effects.rewardMultiplier && effects.rewardMultiplier !== 1) {
+    lines.push(`派遣報酬 ×${effects.rewardMultiplier}`)
+  }
+  if (effects.shopPriceMultiplier && effects.shopPriceMultiplier !== 1) {
+    const target = effects.discountedItems
+      ? effects.discountedItems.map(id => getItemDefinition(id)?.nameJa ?? id).join('・')
+      : 'ショップ全品'
+    lines.push(`${target} ${Math.round((1 - effects.shopPriceMultiplier) * 100)}%オフ`)
+  }
+
+  return lines
+}
+
+const formatRemaining = (target: Date, now: Date): string => {
+  const minutes = Math.max(0, Math.floor((target.getTime() - now.getTime()) / 60000))
+  const days = Math.floor(minutes / (60 * 24))
+  const hours = Math.floor((minutes % (60 * 24)) / 60)
+
+  if (days > 0) return `${days}日${hours}時間`
+  return `${hours}時間${minutes % 60}分`
+}
+
+function TaskRow({ task, multiplier = 1 }: { task: TaskView; multiplier?: number }) {
+  const items = task.rewards.items
+    .map(item => `${getItemDefinition(item.itemId)?.nameJa ?? item.itemId} ×${item.quantity}`)
+    .join(' / ')
+
+  return (
+    <div className={clsx('border border-retro-gb-mid rounded p-4 space-y-2', task.completed && 'opacity-60')}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-pixel text-retro-gb-dark">
+          {task.completed ? '✅' : '📋'} {task.description}
+        </h3>
+        {task.difficulty && (
+          <span className={clsx('text-white px-2 py-1 rounded font-pixel text-xs', DIFFICULTY_LABELS[task.difficulty].className)}>
+            {DIFFICULTY_LABELS[task.difficulty].label}
+          </span>
+        )}
+      </div>
+      <PixelProgressBar value={task.progress} max={task.maxProgress} color={task.completed ? 'exp' : 'progress'} />
+      <div className="flex justify-between font-pixel text-xs text-retro-gb-mid">
+        <span>{task.progress.toLocaleString()} / {task.maxProgress.toLocaleString()}</span>
+        <span>
+          報酬: {formatMoney(Math.floor(task.rewards.money * multiplier))}
+          {task.rewards.experience > 0 && ` / ${task.rewards.experience} EXP`}
+          {items && ` / ${items}`}
+        </span>
+      </div>
+    </div>
+  )
+}
+
+function CalendarEventRow({ event, now }: { event: CalendarEvent; now: Date }) {
+  const { definition } = event
+
+  return (
+    <div className={clsx('border border-retro-gb-mid rounded p-4 space-y-2', event.status === 'ended' && 'opacity-60')}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-pixel text-retro-gb-dark">
+          {definition.season ? SEASON_ICONS[definition.season] : '🎉'} {definition.name}
+        </h3>
+        <span className="font-pixel text-xs text-retro-gb-mid">
+          {event.status === 'active' && `終了まで ${formatRemaining(event.end, now)}`}
+          {event.status === 'upcoming' && `開始まで ${formatRemaining(event.start, now)}`}
+          {event.status === 'ended' && '終了'}
+        </span>
+      </div>
+      <p className="font-pixel text-xs text-retro-gb-mid">{definition.description}</p>
+      <div className="font-pixel text-xs text-retro-gb-mid">
+        {formatPeriod(event)}{event.recurring && '（毎年開催）'}
+      </div>
+      <ul className="font-pixel text-xs text-retro-gb-dark space-y-1">
+        {describeEffects(event).map(line => (
+          <li key={line}>・{line}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
 
 export default function EventsPage() {
-  const { gameData } = useGameState()
+  const { daily, weekly, dailyCompleted, weeklyCompleted, nextDailyReset, nextWeeklyReset, now } = useTasks()
+  const calendar = useEventCalendar()
+  const saleItems = calendar.shopItems.filter(({ item, price }) => price < item.value)
+
+  const handlePurchase = (itemId: string) => {
+    const result = calendar.purchase(itemId)
+    if (!result.success) {
+      alert(result.message)
+    }
+  }
 
   return (
     <div className="space-y-6">
       <div className="text-center">
         <h1 className="font-pixel text-2xl text-retro-gb-dark mb-2">🎪 イベント</h1>
         <p className="font-pixel text-sm text-retro-gb-mid">
-          トキワシティ訓練所の特別イベント
+          開催中のイベントとデイリー・ウィークリータスク
         </p>
       </div>
 
       <PixelCard>
         <div className="p-6">
-          <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">開催予定イベント</h2>
-          
-          <div className="space-y-4">
-            <div className="border border-retro-gb-mid rounded p-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="font-pixel text-retro-gb-dark">ポケモン捕獲大会</h3>
-                  <p className="font-pixel text-sm text-retro-gb-mid">
-                    期間: 2024年1月15日 - 1月20日
-                  </p>
-                </div>
-                <span className="bg-retro-green text-white px-3 py-1 rounded font-pixel text-sm">
-                  開催中
-                </span>
-              </div>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-pixel text-lg text-retro-gb-dark">開催中のイベント</h2>
+            {calendar.rewardMultiplier !== 1 && (
+              <span className="font-pixel text-xs text-orange-600">
+                派遣報酬 ×{calendar.rewardMultiplier.toFixed(2)}
+              </span>
+            )}
+          </div>
+
+          {calendar.active.length === 0 ? (
+            <div className="font-pixel text-sm text-retro-gb-mid">現在開催中のイベントはありません</div>
+          ) : (
+            <div className="space-y-4">
+              {calendar.active.map(event => (
+                <CalendarEventRow key={event.definition.id} event={event} now={calendar.now} />
+              ))}
             </div>
+          )}
 
-            <div className="border border-retro-gb-mid rounded p-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="font-pixel text-retro-gb-dark">トレーナー研修プログラム</h3>
-                  <p className="font-pixel text-sm text-retro-gb-mid">
-                    期間: 2024年2月1日 - 2月15日
-                  </p>
+          {saleItems.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h3 className="font-pixel text-sm text-retro-gb-dark">イベントセール</h3>
+              {saleItems.map(({ item, price }) => (
+                <div key={item.id} className="flex items-center justify-between font-pixel text-xs">
+                  <span className="text-retro-gb-dark">{item.nameJa}</span>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-retro-gb-mid line-through">{formatMoney(item.value)}</span>
+                    <span className="text-red-600">{formatMoney(price)}</span>
+                    <PixelButton size="sm" onClick={() => handlePurchase(item.id)} disabled={calendar.money < price}>
+                      購入
+                    </PixelButton>
+                  </div>
                 </div>
-                <span className="bg-retro-gb-mid text-white px-3 py-1 rounded font-pixel text-sm">
-                  準備中
-                </span>
-              </div>
+              ))}
             </div>
+          )}
+        </div>
+      </PixelCard>
 
-            <div className="border border-retro-gb-mid rounded p-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="font-pixel text-retro-gb-dark">施設拡張セール</h3>
-                  <p className="font-pixel text-sm text-retro-gb-mid">
-                    期間: 2024年3月1日 - 3月31日
-                  </p>
-                </div>
-                <span className="bg-retro-gb-mid text-white px-3 py-1 rounded font-pixel text-sm">
-                  準備中
-                </span>
-              </div>
+      <PixelCard>
+        <div className="p-6">
+          <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">イベントカレンダー</h2>
+          <div className="space-y-4">
+            {calendar.upcoming.map(event => (
+              <CalendarEventRow key={event.definition.id} event={event} now={calendar.now} />
+            ))}
+            {calendar.ended.map(event => (
+              <CalendarEventRow key={event.definition.id} event={event} now={calendar.now} />
+            ))}
+          </div>
+        </div>
+      </PixelCard>
+
+      <PixelCard>
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-pixel text-lg text-retro-gb-dark">デイリータスク</h2>
+            <span className="font-pixel text-xs text-retro-gb-mid">
+              リセットまで {formatRemaining(nextDailyReset, now)}
+            </span>
+          </div>
+
+          {daily && daily.streakCount > 0 && (
+            <div className="font-pixel text-sm text-orange-600 mb-4">
+              🔥 {daily.streakCount}日連続達成中！報酬 ×{daily.bonusMultiplier.toFixed(1)}
             </div>
+          )}
+
+          <div className="space-y-4">
+            {daily?.tasks.map(task => (
+              <TaskRow key={task.id} task={task} multiplier={daily.bonusMultiplier} />
+            ))}
+          </div>
+
+          <div className="font-pixel text-xs text-retro-gb-mid mt-4">
+            達成 {dailyCompleted} / {daily?.tasks.length ?? 0}（全達成で翌日の報酬がアップ）
           </div>
         </div>
       </PixelCard>
 
       <PixelCard>
         <div className="p-6">
-          <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">過去のイベント</h2>
-          
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-pixel text-lg text-retro-gb-dark">ウィークリータスク</h2>
+            <span className="font-pixel text-xs text-retro-gb-mid">
+              リセットまで {formatRemaining(nextWeeklyReset, now)}
+            </span>
+          </div>
+
           <div className="space-y-4">
-            <div className="border border-retro-gb-mid rounded p-4 opacity-60">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h3 className="font-pixel text-retro-gb-dark">開所記念イベント</h3>
-                  <p className="font-pixel text-sm text-retro-gb-mid">
-                    期間: 2023年12月1日 - 12月31日
-                  </p>
+            {weekly?.tasks.map(task => (
+              <TaskRow key={task.id} task={task} />
+            ))}
+          </div>
+
+          {weekly && weekly.bonusRewards.length > 0 && (
+            <div className="mt-4 space-y-2">
+              <h3 className="font-pixel text-sm text-retro-gb-dark">達成ボーナス</h3>
+              {weekly.bonusRewards.map(bonus => (
+                <div key={bonus.threshold} className="flex justify-between font-pixel text-xs">
+                  <span className={bonus.claimed ? 'text-green-700' : 'text-retro-gb-mid'}>
+                    {bonus.claimed ? '✅' : '⬜'} {bonus.threshold}個達成
+                  </span>
+                  <span className="text-retro-gb-mid">{formatMoney(bonus.rewards.money)}</span>
                 </div>
-                <span className="bg-retro-gb-dark text-white px-3 py-1 rounded font-pixel text-sm">
-                  終了
-                </span>
+              ))}
+              <div className="font-pixel text-xs text-retro-gb-mid">
+                達成 {weeklyCompleted} / {weekly.tasks.length}
               </div>
             </div>
-          </div>
+          )}
         </div>
       </PixelCard>
     </div>
@@ -66,7 +66,7 @@ export default function ExpeditionsPageNew() {
     setIsTrainerModalOpen(true)
   }
 
-  const handleConfirmExpedition = async (trainerId: string) => {
+  const handleConfirmExpedition = async (trainerIds: string[]) => {
     if (!selectedLocationId) return
     
     setIsLoading(true)
@@ -74,8 +74,9 @@ export default function ExpeditionsPageNew() {
     
     try {
       // 選択されたトレーナーを取得
-      const selectedTrainer = available.find(t => t.id === trainerId)
-      if (!selectedTrainer) {
+      const selectedTrainers = available.filter(t => trainerIds.includes(t.id))
+      const selectedTrainer = selectedTrainers.find(t => t.id === trainerIds[0])
+      if (!selectedTrainer || selectedTrainers.length !== trainerIds.length) {
         addNotification({
           type: 'error',
           message: 'トレーナーが見つかりません'
@@ -98,6 +99,7 @@ export default function ExpeditionsPageNew() {
       // 派遣開始（JSONシステム）
       const expeditionId = expeditionActions.start({
         trainerId: selectedTrainer.id,
+        memberIds: trainerIds,
         locationId: selectedLocationId,
         mode: 'balanced',
         targetDuration: 2,
@@ -125,7 +127,9 @@ export default function ExpeditionsPageNew() {
       
       addNotification({
         type: 'success',
-        message: `${selectedTrainer.name}の派遣を開始しました！`
+        message: selectedTrainers.length > 1
+          ? `${selectedTrainer.name}ら${selectedTrainers.length}人のチームの派遣を開始しました！`
+          : `${selectedTrainer.name}の派遣を開始しました！`
       })
       
       // 数秒後に派遣完了をシミュレート（テスト用）
@@ -462,13 +466,7 @@ export default function ExpeditionsPageNew() {
           setSelectedLocationId(null)
         }}
         onConfirm={handleConfirmExpedition}
-        trainers={available.map(trainer => ({
-          id: trainer.id,
-          name: trainer.name,
-          job: trainer.job,
-          level: trainer.level,
-          status: trainer.status
-        }))}
+        trainers={available}
         locationName={selectedLocation?.nameJa || ''}
         disabled={isLoading}
       />
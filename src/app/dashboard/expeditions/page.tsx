@@ -105,28 +105,29 @@ export default function ExpeditionsPage() {
     setIsTrainerModalOpen(true)
   }
 
-  const handleConfirmExpedition = async (trainerId: string) => {
+  const handleConfirmExpedition = async (trainerIds: string[]) => {
     if (!selectedLocationId) return
     
     setIsLoading(true)
     setIsTrainerModalOpen(false)
     
     try {
-      // 選択されたトレーナーを取得
-      const selectedTrainer = availableTrainers.find(t => t.id === trainerId)
-      if (!selectedTrainer) {
+      // 選択されたトレーナーを取得（先頭がリーダー）
+      const selectedTrainers = availableTrainers.filter(t => trainerIds.includes(t.id))
+      if (selectedTrainers.length !== trainerIds.length) {
         console.error('トレーナーが見つかりません')
         return
       }
       
-      console.log('📋 選択されたトレーナー:', selectedTrainer)
+      console.log('📋 選択されたトレーナー:', selectedTrainers.map(t => t.name))
       
       // JSON システムを使用して派遣を開始
       const now = new Date().toISOString()
       const endTime = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString()
       
       const expeditionId = expeditionActions.start({
-        trainerId,
+        trainerId: trainerIds[0],
+        memberIds: trainerIds,
         locationId: selectedLocationId,
         mode: 'balanced',
         targetDuration: 2,
@@ -253,7 +254,8 @@ export default function ExpeditionsPage() {
                   id: expedition.id,
                   trainer: { 
                     id: expedition.trainerId, 
-                    name: trainers.find(t => t.id === expedition.trainerId)?.name || '不明',
+                    name: (trainers.find(t => t.id === expedition.trainerId)?.name || '不明') +
+                      (expedition.memberIds ? ` 他${expedition.memberIds.length - 1}人` : ''),
                     job: trainers.find(t => t.id === expedition.trainerId)?.job || 'トレーナー'
                   },
                   location: {
@@ -93,7 +93,7 @@ export default function FacilitiesPage() {
       }
 
       // 建設費用の支払い
-      const canAfford = actions.canAfford(constructionCost)
+      const canAfford = actions.canAfford(constructionCost, 'facility_upgrade')
       const paymentResult = canAfford
       if (canAfford) {
         actions.updateMoney(-constructionCost)
@@ -145,7 +145,7 @@ export default function FacilitiesPage() {
         return
       }
       
-      const canAfford = actions.canAfford(researchCost)
+      const canAfford = actions.canAfford(researchCost, 'research')
       const paymentResult = canAfford
       if (canAfford) {
         actions.updateMoney(-researchCost)
@@ -4,6 +4,8 @@ import { useAuth } from '@/contexts/GameContext'
 import { GameBoyScreen } from '@/components/layout/GameBoyScreen'
 import { PixelNavigation } from '@/components/layout/PixelNavigation'
 import { StatusBar } from '@/components/layout/StatusBar'
+import { TrainingCompletionNotifier } from '@/components/trainers/TrainingCompletionNotifier'
+import { PendingMoveLearner } from '@/components/pokemon/PendingMoveLearner'
 // import { FloatingMusicButton } from '@/components/audio/MusicController' // 簡素化のため削除
 import { useRouter } from 'next/navigation'
 import { useEffect } from 'react'
@@ -82,6 +84,12 @@ export default function DashboardLayout({
         {/* ステータスバー */}
         <StatusBar />
         
+        {/* 研修の修了通知 */}
+        <TrainingCompletionNotifier />
+        
+        {/* 覚えきれなかった技の選択 */}
+        <PendingMoveLearner />
+        
         {/* メインコンテンツ */}
         <div className="flex flex-1">
           {/* ナビゲーション */}
@@ -0,0 +1,259 @@
+'use client'
+
+import { useState } from 'react'
+import { useMarket } from '@/lib/game-state/hooks'
+import { LISTING_DURATION_DAYS, MAX_ASKING_RATIO, type MarketLevel } from '@/lib/game-state/market'
+import type { MarketListing } from '@/lib/game-state/types'
+import { getPokemonSpecies } from '@/lib/static-data/pokemon'
+import { getItemDefinition } from '@/lib/static-data/items'
+import { PixelCard } from '@/components/ui/PixelCard'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { formatMoney } from '@/lib/utils'
+import { clsx } from 'clsx'
+
+// 出品価格のプリセット（相場に対する倍率）
+const PRICE_PRESETS = [
+  { label: '早売り', ratio: 0.8 },
+  { label: '相場', ratio: 1.0 },
+  { label: '高値', ratio: 1.3 }
+]
+
+const LEVEL_LABELS: Record<MarketLevel, { demand: string; supply: string; className: string }> = {
+  low: { demand: '需要低', supply: '品薄', className: 'text-blue-600' },
+  medium: { demand: '需要普通', supply: '供給普通', className: 'text-retro-gb-mid' },
+  high: { demand: '需要高', supply: '供給過多', className: 'text-orange-600' }
+}
+
+const formatRemaining = (target: string, now: Date): string => {
+  const minutes = Math.max(0, Math.floor((new Date(target).getTime() - now.getTime()) / 60000))
+  const hours = Math.floor(minutes / 60)
+
+  if (hours >= 24) return `${Math.floor(hours / 24)}日${hours % 24}時間`
+  return `${hours}時間${minutes % 60}分`
+}
+
+function ListingRow({ listing, onCancel }: { listing: MarketListing; onCancel: (id: string) => void }) {
+  const now = new Date()
+  const ratio = listing.askingPrice / Math.max(1, listing.marketPrice)
+  const expired = new Date(listing.expiresAt) <= now
+
+  return (
+    <div className="flex items-center justify-between border border-retro-gb-mid rounded p-3 font-pixel text-xs">
+      <div className="space-y-1">
+        <div className="text-retro-gb-dark">
+          {listing.kind === 'pokemon' ? '🎾' : '🎒'} {listing.name}
+          {listing.item && ` ×${listing.item.quantity}`}
+          {listing.pokemon && ` Lv.${listing.pokemon.level}`}
+        </div>
+        <div className="text-retro-gb-mid">
+          希望 {formatMoney(listing.askingPrice)}（相場 {formatMoney(listing.marketPrice)}・{Math.round(ratio * 100)}%）
+        </div>
+        {/* 買い手が現れるかどうかは売れるまで明かさない（取り下げと出し直しで当たりを引けないように） */}
+        <div className={ratio > MAX_ASKING_RATIO || expired ? 'text-red-600' : 'text-retro-gb-mid'}>
+          {expired
+            ? '期限切れ（倉庫に空きができたら戻ります）'
+            : ratio > MAX_ASKING_RATIO
+            ? '相場より高すぎるため買い手が現れません'
+            : `買い手募集中${ratio > 1 ? '・相場より高いため売れないことがあります' : ''}（期限まで ${formatRemaining(listing.expiresAt, now)}）`}
+        </div>
+      </div>
+      <PixelButton size="sm" variant="secondary" onClick={() => onCancel(listing.id)}>
+        取り下げ
+      </PixelButton>
+    </div>
+  )
+}
+
+export default function MarketPage() {
+  const { market, money, listPokemon, listItem, cancelListing, buyMarketPokemon } = useMarket()
+  const [message, setMessage] = useState<string | null>(null)
+
+  if (!market) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="font-pixel text-retro-gb-mid">読み込み中...</div>
+      </div>
+    )
+  }
+
+  const handleResult = (result: { success: boolean; message: string }) => {
+    setMessage(result.message)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h1 className="font-pixel text-2xl text-retro-gb-dark mb-2">🏪 マーケット</h1>
+        <p className="font-pixel text-sm text-retro-gb-mid">
+          ポケモンとアイテムの売買（相場は需給とイベントで変動します）
+        </p>
+      </div>
+
+      {message && (
+        <div className="font-pixel text-xs text-retro-gb-dark p-2 bg-retro-gb-light border border-retro-gb-mid">
+          {message}
+        </div>
+      )}
+
+      <PixelCard>
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-pixel text-lg text-retro-gb-dark">本日の販売</h2>
+            <span className="font-pixel text-xs text-retro-gb-mid">所持金 {formatMoney(money)}</span>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {market.offers.map(({ offer, pokemon, price }) => (
+              <div
+                key={offer.id}
+                className={clsx('border border-retro-gb-mid rounded p-3 font-pixel text-xs space-y-1', offer.purchased && 'opacity-60')}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-retro-gb-dark">{pokemon.nameJa} Lv.{pokemon.level}</span>
+                  <span className="text-retro-gb-mid">{getPokemonSpecies(offer.speciesId)?.category}</span>
+                </div>
+                <div className="text-retro-gb-mid">
+                  性格: {offer.nature} / 個体値合計: {Object.values(offer.ivs).reduce((sum, iv) => sum + iv, 0)}
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-retro-gb-dark">{formatMoney(price)}</span>
+                  <PixelButton
+                    size="sm"
+                    onClick={() => handleResult(buyMarketPokemon(offer.id))}
+                    disabled={offer.purchased || money < price}
+                  >
+                    {offer.purchased ? '売り切れ' : '購入'}
+                  </PixelButton>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </PixelCard>
+
+      <PixelCard>
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-pixel text-lg text-retro-gb-dark">出品中</h2>
+            <span className="font-pixel text-xs text-retro-gb-mid">
+              出品期限 {LISTING_DURATION_DAYS}日 / 相場を超えると売れにくくなり、{Math.round(MAX_ASKING_RATIO * 100)}%を超えると売れません
+            </span>
+          </div>
+
+          {market.listings.length === 0 ? (
+            <div className="font-pixel text-sm text-retro-gb-mid">出品中のものはありません</div>
+          ) : (
+            <div className="space-y-2">
+              {market.listings.map(listing => (
+                <ListingRow key={listing.id} listing={listing} onCancel={id => handleResult(cancelListing(id))} />
+              ))}
+            </div>
+          )}
+        </div>
+      </PixelCard>
+
+      <PixelCard>
+        <div className="p-6">
+          <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">ポケモンを出品</h2>
+
+          {market.sellablePokemon.length === 0 ? (
+            <div className="font-pixel text-sm text-retro-gb-mid">出品できるポケモンがいません</div>
+          ) : (
+            <div className="space-y-2">
+              {market.sellablePokemon.map(({ pokemon, marketPrice, demand, supply }) => (
+                <div key={pokemon.id} className="flex items-center justify-between border-b border-retro-gb-light pb-2 font-pixel text-xs">
+                  <div className="space-y-1">
+                    <div className="text-retro-gb-dark">{pokemon.nameJa} Lv.{pokemon.level}</div>
+                    <div className="space-x-2">
+                      <span className="text-retro-gb-dark">相場 {formatMoney(marketPrice)}</span>
+                      <span className={LEVEL_LABELS[demand].className}>{LEVEL_LABELS[demand].demand}</span>
+                      <span className={LEVEL_LABELS[supply].className}>{LEVEL_LABELS[supply].supply}</span>
+                    </div>
+                  </div>
+                  <div className="flex space-x-1">
+                    {PRICE_PRESETS.map(preset => (
+                      <PixelButton
+                        key={preset.label}
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleResult(listPokemon(pokemon.id, Math.floor(marketPrice * preset.ratio)))}
+                      >
+                        {preset.label}
+                      </PixelButton>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PixelCard>
+
+      <PixelCard>
+        <div className="p-6">
+          <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">アイテムを出品</h2>
+
+          {market.sellableItems.length === 0 ? (
+            <div className="font-pixel text-sm text-retro-gb-mid">出品できるアイテムがありません</div>
+          ) : (
+            <div className="space-y-2">
+              {market.sellableItems.map(({ item, unitPrice, supply }) => (
+                <div key={item.id} className="flex items-center justify-between border-b border-retro-gb-light pb-2 font-pixel text-xs">
+                  <div className="space-y-1">
+                    <div className="text-retro-gb-dark">{item.nameJa} ×{item.quantity}</div>
+                    <div className="space-x-2">
+                      <span className="text-retro-gb-dark">相場 {formatMoney(unitPrice)}/個</span>
+                      <span className={LEVEL_LABELS[supply].className}>{LEVEL_LABELS[supply].supply}</span>
+                    </div>
+                  </div>
+                  <div className="flex space-x-1">
+                    <PixelButton
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => handleResult(listItem(item.id, 1, unitPrice))}
+                    >
+                      1個
+                    </PixelButton>
+                    <PixelButton
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => handleResult(listItem(item.id, item.quantity, unitPrice * item.quantity))}
+                    >
+                      全部
+                    </PixelButton>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PixelCard>
+
+      <PixelCard>
+        <div className="p-6">
+          <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">売却履歴</h2>
+
+          {market.recentSales.length === 0 ? (
+            <div className="font-pixel text-sm text-retro-gb-mid">まだ売却していません</div>
+          ) : (
+            <div className="space-y-1">
+              {market.recentSales.map((sale, index) => (
+                <div key={`${sale.soldAt}_${index}`} className="flex justify-between font-pixel text-xs">
+                  <span className="text-retro-gb-dark">
+                    {sale.kind === 'pokemon'
+                      ? getPokemonSpecies(Number(sale.subjectId))?.nameJa ?? `No.${sale.subjectId}`
+                      : getItemDefinition(sale.subjectId)?.nameJa ?? sale.subjectId}
+                    {sale.quantity > 1 && ` ×${sale.quantity}`}
+                  </span>
+                  <span className="text-retro-gb-mid">
+                    {new Date(sale.soldAt).toLocaleString('ja-JP')} / <span className="text-green-600">+{formatMoney(sale.price)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PixelCard>
+    </div>
+  )
+}
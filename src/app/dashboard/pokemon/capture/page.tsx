@@ -7,6 +7,12 @@ import { PixelButton } from '@/components/ui/PixelButton'
 import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
 import { generateRandomWildPokemon } from '@/lib/pokeapi'
 import { useMutation } from '@tanstack/react-query'
+import { useAuth } from '@/contexts/GameContext'
+import { usePokemon, useGameState } from '@/lib/game-state'
+import type { Pokemon } from '@/lib/game-state'
+import { pokemonBattleSystem, type BattleCombatant } from '@/lib/pokemon/PokemonBattleSystem'
+import type { PokemonType } from '@/lib/pokemon/PokemonDatabase'
+import { getMovePP } from '@/lib/static-data/moves'
 
 interface WildPokemon {
   species: {
@@ -24,6 +30,13 @@ interface WildPokemon {
   ivs: Record<string, number>
 }
 
+interface BattleView {
+  trainer: BattleCombatant
+  wild: BattleCombatant
+  log: string[]
+  outcome?: 'wild_fainted' | 'trainer_fainted'
+}
+
 interface CaptureAttempt {
   pokeball: string
   success: boolean
@@ -142,6 +155,138 @@ function WildPokemonCard({ pokemon }: { pokemon: WildPokemon }) {
   )
 }
 
+const STATUS_LABELS: Record<string, string> = {
+  sleep: 'ねむり',
+  paralysis: 'まひ',
+  freeze: 'こおり',
+  burn: 'やけど',
+  poison: 'どく'
+}
+
+const getBaseStats = (wildPokemon: WildPokemon) => ({
+  hp: wildPokemon.species.baseStats.hp,
+  attack: wildPokemon.species.baseStats.attack,
+  defense: wildPokemon.species.baseStats.defense,
+  specialAttack: wildPokemon.species.baseStats.specialAttack,
+  specialDefense: wildPokemon.species.baseStats.specialDefense,
+  speed: wildPokemon.species.baseStats.speed
+})
+
+const startBattle = (wildPokemon: WildPokemon, partner: Pokemon): BattleView => {
+  const types = wildPokemon.species.types as PokemonType[]
+  const wild = pokemonBattleSystem.createWildCombatant(
+    {
+      nameJa: wildPokemon.species.name,
+      types,
+      baseStats: getBaseStats(wildPokemon)
+    },
+    wildPokemon.level,
+    pokemonBattleSystem.generateWildMoves(types, wildPokemon.level, wildPokemon.species.id),
+    wildPokemon.ivs
+  )
+  const trainer = pokemonBattleSystem.createCombatantFromPokemon(partner)
+  
+  return {
+    trainer,
+    wild,
+    log: [`野生の${wild.name}が現れた！`, `ゆけっ！${trainer.name}！`]
+  }
+}
+
+const continueBattle = (battle: BattleView, trainerMove?: string): BattleView => {
+  const trainer = pokemonBattleSystem.cloneCombatant(battle.trainer)
+  const wild = pokemonBattleSystem.cloneCombatant(battle.wild)
+  const wildMove = pokemonBattleSystem.selectWildMove(wild)
+  const turn = pokemonBattleSystem.resolveTurn(trainer, wild, trainerMove, wildMove)
+  
+  return {
+    trainer,
+    wild,
+    log: [...battle.log, ...turn.messages],
+    outcome: turn.fainted === 'wild' ? 'wild_fainted' : turn.fainted === 'trainer' ? 'trainer_fainted' : undefined
+  }
+}
+
+function CombatantStatus({ combatant, label }: { combatant: BattleCombatant; label: string }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between">
+        <span className="font-pixel text-xs text-retro-gb-dark">
+          {label}: {combatant.name} Lv.{combatant.level}
+        </span>
+        {combatant.statusEffect && (
+          <span className="font-pixel text-xs text-red-600">
+            {STATUS_LABELS[combatant.statusEffect]}
+          </span>
+        )}
+      </div>
+      <PixelProgressBar
+        value={combatant.currentHp}
+        max={combatant.maxHp}
+        color={combatant.currentHp / combatant.maxHp < 0.25 ? 'danger' : 'hp'}
+        showLabel={false}
+      />
+      <div className="font-pixel text-xs text-retro-gb-mid text-right">
+        HP {combatant.currentHp}/{combatant.maxHp}
+      </div>
+    </div>
+  )
+}
+
+function BattlePanel({
+  battle,
+  onMove,
+  disabled
+}: {
+  battle: BattleView
+  onMove: (move: string) => void
+  disabled: boolean
+}) {
+  const usableMoves = pokemonBattleSystem.getUsableMoves(battle.trainer)
+  // 全ての技のPPが尽きた場合は「わるあがき」のみ選択可能
+  const moveButtons = usableMoves.some(move => battle.trainer.moves.includes(move))
+    ? battle.trainer.moves
+    : usableMoves
+  
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <CombatantStatus combatant={battle.wild} label="野生" />
+        <CombatantStatus combatant={battle.trainer} label="味方" />
+      </div>
+      
+      {!battle.outcome && (
+        <div className="grid grid-cols-2 gap-2">
+          {moveButtons.map(move => {
+            const pp = battle.trainer.pp[move] ?? getMovePP(move)
+            const maxPP = getMovePP(move) || pp
+            
+            return (
+              <PixelButton
+                key={move}
+                size="sm"
+                variant="secondary"
+                onClick={() => onMove(move)}
+                disabled={disabled || !usableMoves.includes(move)}
+              >
+                {move} {pp}/{maxPP}
+              </PixelButton>
+            )
+          })}
+        </div>
+      )}
+      
+      <div className="bg-retro-gb-light border border-retro-gb-mid p-2 space-y-1">
+        {battle.log.slice(-6).map((message, index) => (
+          <div key={`${battle.log.length}_${index}`} className="font-pixel text-xs text-retro-gb-dark">
+            {message}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 function CaptureResult({ attempt, onClose }: { attempt: CaptureAttempt; onClose: () => void }) {
   return (
     <PixelCard>
@@ -189,6 +334,14 @@ export default function CapturePage() {
   const [selectedPokeball, setSelectedPokeball] = useState('モンスターボール')
   const [captureResult, setCaptureResult] = useState<CaptureAttempt | null>(null)
   const [isEncountering, setIsEncountering] = useState(false)
+  const [battle, setBattle] = useState<BattleView | null>(null)
+  const [partnerId, setPartnerId] = useState<string>('')
+  
+  const { user } = useAuth()
+  const { pokemon: ownedPokemon } = usePokemon(user?.id)
+  const { actions } = useGameState(user?.id)
+  const partnerCandidates = ownedPokemon.filter(p => p.status === 'healthy' && p.hp > 0)
+  const partner = partnerCandidates.find(p => p.id === partnerId) || partnerCandidates[0]
   
   const pokeballs = [
     { name: 'モンスターボール', rate: 1.0, cost: 200, stock: 10 },
@@ -205,6 +358,7 @@ export default function CapturePage() {
     onMutate: () => setIsEncountering(true),
     onSuccess: (data) => {
       setWildPokemon(data)
+      setBattle(partner ? startBattle(data, partner) : null)
       setIsEncountering(false)
       setCaptureResult(null)
     },
@@ -212,10 +366,18 @@ export default function CapturePage() {
   })
   
   const captureMutation = useMutation({
-    mutationFn: async ({ pokemon, pokeball }: { pokemon: WildPokemon; pokeball: string }) => {
+    mutationFn: async ({ pokemon, pokeball, battle }: { pokemon: WildPokemon; pokeball: string; battle: BattleView | null }) => {
       // 捕獲計算シミュレーション
       const ball = pokeballs.find(b => b.name === pokeball)!
-      const captureRate = pokemon.species.captureRate * ball.rate
+      
+      // バトルで弱らせるほど捕まえやすい（HP満タンで等倍・瀕死寸前で最大3倍）
+      const hpFactor = battle
+        ? (3 * battle.wild.maxHp - 2 * battle.wild.currentHp) / battle.wild.maxHp
+        : 1
+      const statusFactor = battle?.wild.statusEffect
+        ? (battle.wild.statusEffect === 'sleep' || battle.wild.statusEffect === 'freeze' ? 2 : 1.5)
+        : 1
+      const captureRate = pokemon.species.captureRate * ball.rate * hpFactor * statusFactor
       
       // クリティカルキャッチ判定（1/256の確率）
       const critical = Math.random() < (1/256)
@@ -242,6 +404,10 @@ export default function CapturePage() {
       setCaptureResult(result)
       if (result.success) {
         setWildPokemon(null)
+        setBattle(null)
+      } else if (battle && !battle.outcome) {
+        // ボールから出てきた野生ポケモンの反撃
+        setBattle(rewardEffort(continueBattle(battle)))
       }
     }
   })
@@ -252,7 +418,27 @@ export default function CapturePage() {
   
   const handleCapture = () => {
     if (!wildPokemon) return
-    captureMutation.mutate({ pokemon: wildPokemon, pokeball: selectedPokeball })
+    captureMutation.mutate({ pokemon: wildPokemon, pokeball: selectedPokeball, battle })
+  }
+  
+  // 野生ポケモンを倒すと、その種族に応じて戦ったポケモンに努力値が溜まる
+  const rewardEffort = (next: BattleView): BattleView => {
+    if (next.outcome !== 'wild_fainted' || !wildPokemon || !partner) return next
+    const result = actions.awardBattleEffort(partner.id, {
+      nameJa: wildPokemon.species.name,
+      baseStats: getBaseStats(wildPokemon)
+    })
+    return { ...next, log: [...next.log, result.message] }
+  }
+  
+  const handleMove = (move: string) => {
+    if (!battle || battle.outcome) return
+    setBattle(rewardEffort(continueBattle(battle, move)))
+  }
+  
+  const handleRun = () => {
+    setWildPokemon(null)
+    setBattle(null)
   }
   
   const handleResultClose = () => {
@@ -263,6 +449,7 @@ export default function CapturePage() {
     }
     // 成功した場合は新しい遭遇を促す
     setWildPokemon(null)
+    setBattle(null)
   }
 
   return (
@@ -280,6 +467,28 @@ export default function CapturePage() {
         </PixelButton>
       </div>
       
+      {/* バトルに出すポケモン */}
+      <PixelCard title="バトルに出すポケモン">
+        {partnerCandidates.length > 0 ? (
+          <select
+            className="w-full p-2 border border-retro-gb-mid bg-retro-gb-light font-pixel text-xs"
+            value={partner?.id || ''}
+            onChange={(e) => setPartnerId(e.target.value)}
+            disabled={!!battle}
+          >
+            {partnerCandidates.map(p => (
+              <option key={p.id} value={p.id}>
+                {p.nameJa} Lv.{p.level} (HP {p.hp}/{p.maxHp})
+              </option>
+            ))}
+          </select>
+        ) : (
+          <div className="font-pixel text-xs text-retro-gb-mid">
+            戦えるポケモンがいません。弱らせずにボールを投げることになります。
+          </div>
+        )}
+      </PixelCard>
+      
       {/* ボール選択 */}
       <PixelCard title="ボール選択">
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -318,16 +527,24 @@ export default function CapturePage() {
           <div className="space-y-4">
             <WildPokemonCard pokemon={wildPokemon} />
             
+            {battle && (
+              <BattlePanel
+                battle={battle}
+                onMove={handleMove}
+                disabled={captureMutation.isPending}
+              />
+            )}
+            
             <div className="flex justify-center space-x-4">
               <PixelButton
                 onClick={handleCapture}
-                disabled={captureMutation.isPending}
+                disabled={captureMutation.isPending || battle?.outcome === 'wild_fainted'}
               >
                 {captureMutation.isPending ? '捕獲中...' : `${selectedPokeball}を投げる`}
               </PixelButton>
               <PixelButton
                 variant="secondary"
-                onClick={() => setWildPokemon(null)}
+                onClick={handleRun}
                 disabled={captureMutation.isPending}
               >
                 逃げる
@@ -371,6 +588,8 @@ export default function CapturePage() {
       <PixelCard title="捕獲のコツ">
         <div className="space-y-2 font-pixel text-xs text-retro-gb-mid">
           <div>• 捕獲率の高いポケモンは捕まえやすい</div>
+          <div>• バトルでHPを減らしたり状態異常にすると捕まえやすくなる</div>
+          <div>• 倒してしまうと捕まえられない</div>
           <div>• より良いボールを使うと捕獲率が上がる</div>
           <div>• 色違いポケモンは非常に珍しい（1/4096の確率）</div>
           <div>• クリティカルキャッチが発生することがある</div>
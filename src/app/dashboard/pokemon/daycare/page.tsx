@@ -0,0 +1,325 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useDaycare } from '@/lib/game-state/hooks'
+import { MIN_BREEDING_LEVEL, STEPS_PER_KM, KM_PER_EXPEDITION_HOUR } from '@/lib/game-state/daycare'
+import type { Pokemon } from '@/lib/game-state/types'
+import type { ItemDefinition } from '@/lib/static-data/types'
+import { STAT_KEYS, type OffspringDistribution } from '@/lib/pokemon/BreedingInheritance'
+import { PixelCard } from '@/components/ui/PixelCard'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
+import { clsx } from 'clsx'
+
+const STAT_LABELS: Record<keyof Pokemon['ivs'], string> = {
+  hp: 'HP',
+  attack: 'こうげき',
+  defense: 'ぼうぎょ',
+  specialAttack: 'とくこう',
+  specialDefense: 'とくぼう',
+  speed: 'すばやさ'
+}
+
+const MAX_CANDIDATES = 10
+
+const formatRemaining = (ms: number): string => {
+  const totalMinutes = Math.ceil(ms / 60000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}時間${minutes}分` : `${minutes}分`
+}
+
+const formatPercent = (chance: number): string => `${Math.round(chance * 1000) / 10}%`
+
+interface BreedingCalculatorPanelProps {
+  parent1: Pokemon
+  parent2: Pokemon
+  distribution: OffspringDistribution
+  breedingItems: Array<{ definition: ItemDefinition; quantity: number }>
+  speciesName: (speciesId: number) => string
+  onSetHeldItem: (pokemonId: string, itemId?: string) => void
+}
+
+function BreedingCalculatorPanel({
+  parent1,
+  parent2,
+  distribution,
+  breedingItems,
+  speciesName,
+  onSetHeldItem
+}: BreedingCalculatorPanelProps) {
+  return (
+    <div className="border border-retro-gb-mid rounded p-3 font-pixel text-xs space-y-3">
+      <div className="space-y-1">
+        <div className="text-retro-gb-dark">持ち物</div>
+        {[parent1, parent2].map(parent => (
+          <div key={parent.id} className="flex flex-wrap items-center gap-1">
+            <span className="text-retro-gb-mid w-24">
+              {parent.nameJa}: {breedingItems.find(i => i.definition.id === parent.heldItem)?.definition.nameJa ?? 'なし'}
+            </span>
+            {breedingItems.map(({ definition, quantity }) => (
+              <PixelButton
+                key={definition.id}
+                size="sm"
+                variant="secondary"
+                disabled={quantity === 0 || parent.heldItem === definition.id}
+                onClick={() => onSetHeldItem(parent.id, definition.id)}
+              >
+                {definition.nameJa}（{quantity}）
+              </PixelButton>
+            ))}
+            {parent.heldItem && (
+              <PixelButton size="sm" variant="secondary" onClick={() => onSetHeldItem(parent.id)}>
+                外す
+              </PixelButton>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-retro-gb-dark">
+          個体値（{distribution.inheritedIVCount}つが親から遺伝・期待合計 {distribution.expectedTotalIVs.toFixed(1)}）
+        </div>
+        <div className="grid grid-cols-5 gap-1">
+          <span className="text-retro-gb-mid">能力</span>
+          <span className="text-retro-gb-mid">{parent1.nameJa}</span>
+          <span className="text-retro-gb-mid">{parent2.nameJa}</span>
+          <span className="text-retro-gb-mid">期待値</span>
+          <span className="text-retro-gb-mid">31の確率</span>
+          {STAT_KEYS.map(stat => (
+            <div key={stat} className="contents">
+              <span className="text-retro-gb-dark">{STAT_LABELS[stat]}</span>
+              <span className={clsx(parent1.ivs[stat] >= parent2.ivs[stat] ? 'text-green-600' : 'text-retro-gb-dark')}>
+                {parent1.ivs[stat]}
+              </span>
+              <span className={clsx(parent2.ivs[stat] >= parent1.ivs[stat] ? 'text-green-600' : 'text-retro-gb-dark')}>
+                {parent2.ivs[stat]}
+              </span>
+              <span className="text-retro-gb-dark">{distribution.ivs[stat].expected.toFixed(1)}</span>
+              <span className="text-retro-gb-dark">{formatPercent(distribution.ivs[stat].perfectChance)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="text-retro-gb-mid">
+        性格: {distribution.natures.slice(0, 3).map(({ nature, chance }) => `${nature} ${formatPercent(chance)}`).join(' / ')}
+      </div>
+      {distribution.species.map(({ speciesId, chance, eggMoves }) => (
+        <div key={speciesId} className="text-retro-gb-mid">
+          {speciesName(speciesId)} {formatPercent(chance)}
+          {eggMoves.length > 0 && `（タマゴ技: ${eggMoves.join('、')}）`}
+        </div>
+      ))}
+      <div className="text-retro-gb-mid">
+        色違い: {formatPercent(distribution.shinyChance)}
+        {parent1.originalTrainer !== parent2.originalTrainer && '（元のトレーナーが違うため上昇中）'}
+      </div>
+    </div>
+  )
+}
+
+export default function DaycarePage() {
+  const router = useRouter()
+  const { daycare, setHeldItem, startBreeding, cancelBreeding, collectEgg, setEggCarrier, hatchEgg } = useDaycare()
+  const [message, setMessage] = useState<string | null>(null)
+  const [selectedPair, setSelectedPair] = useState<string | null>(null)
+
+  if (!daycare) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="font-pixel text-retro-gb-mid">読み込み中...</div>
+      </div>
+    )
+  }
+
+  const handleResult = (result: { success: boolean; message: string }) => {
+    setMessage(result.message)
+  }
+
+  const candidates = daycare.candidates.slice(0, MAX_CANDIDATES)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-pixel text-2xl text-retro-gb-dark mb-2">🥚 育て屋</h1>
+          <p className="font-pixel text-sm text-retro-gb-mid">
+            Lv.{MIN_BREEDING_LEVEL}以上の2匹を預けるとタマゴが見つかります
+            {daycare.breedingQuality > 0 && `（スタッフの育成技術 +${Math.round(daycare.breedingQuality * 100)}%）`}
+          </p>
+        </div>
+        <PixelButton size="sm" variant="secondary" onClick={() => router.push('/dashboard/pokemon')}>
+          ポケモン管理へ
+        </PixelButton>
+      </div>
+
+      {message && (
+        <div className="font-pixel text-xs text-retro-gb-dark p-2 bg-retro-gb-light border border-retro-gb-mid">
+          {message}
+        </div>
+      )}
+
+      <PixelCard>
+        <div className="p-6">
+          <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">預かり中</h2>
+
+          {daycare.sessions.length === 0 ? (
+            <div className="font-pixel text-sm text-retro-gb-mid">預けているポケモンはいません</div>
+          ) : (
+            <div className="space-y-3">
+              {daycare.sessions.map(({ session, parent1, parent2, ready, progress, remainingMs }) => (
+                <div key={session.id} className="border border-retro-gb-mid rounded p-3 font-pixel text-xs space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-retro-gb-dark">
+                      {parent1?.nameJa ?? '???'} × {parent2?.nameJa ?? '???'}
+                    </span>
+                    <span className="text-retro-gb-mid">
+                      {ready ? 'タマゴが見つかりました' : `あと ${formatRemaining(remainingMs)}`}
+                    </span>
+                  </div>
+                  <PixelProgressBar value={progress * 100} max={100} color="progress" showLabel={false} />
+                  <div className="flex gap-2">
+                    {ready && (
+                      <PixelButton size="sm" className="flex-1" onClick={() => handleResult(collectEgg(session.id))}>
+                        タマゴを受け取る
+                      </PixelButton>
+                    )}
+                    <PixelButton
+                      size="sm"
+                      variant="secondary"
+                      className="flex-1"
+                      onClick={() => handleResult(cancelBreeding(session.id))}
+                    >
+                      引き取る
+                    </PixelButton>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PixelCard>
+
+      <PixelCard>
+        <div className="p-6">
+          <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">組み合わせの候補</h2>
+
+          {candidates.length === 0 ? (
+            <div className="font-pixel text-sm text-retro-gb-mid">
+              預けられる組み合わせがありません（手持ちに入っているポケモンは預けられません）
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {candidates.map(({ parent1, parent2, compatibility, estimatedMinutes, offspring }) => {
+                const key = `${parent1.id}_${parent2.id}`
+                const selected = selectedPair === key
+                return (
+                  <div key={key} className="border-b border-retro-gb-light pb-2 space-y-2">
+                    <div className="flex items-center justify-between font-pixel text-xs">
+                      <div className="space-y-1">
+                        <div className="text-retro-gb-dark">
+                          {parent1.nameJa} Lv.{parent1.level} × {parent2.nameJa} Lv.{parent2.level}
+                        </div>
+                        <div className="text-retro-gb-mid">
+                          相性 <span className={compatibility >= 80 ? 'text-green-600' : 'text-retro-gb-dark'}>{compatibility}</span>
+                          {' '}/ 約{formatRemaining(estimatedMinutes * 60000)}
+                          {' '}/ 生まれる可能性: {offspring.map(o => o.nameJa).join('・')}
+                        </div>
+                      </div>
+                      <div className="flex space-x-1">
+                        <PixelButton size="sm" variant="secondary" onClick={() => setSelectedPair(selected ? null : key)}>
+                          {selected ? '閉じる' : '計算'}
+                        </PixelButton>
+                        <PixelButton
+                          size="sm"
+                          onClick={() => {
+                            setSelectedPair(null)
+                            handleResult(startBreeding(parent1.id, parent2.id))
+                          }}
+                        >
+                          預ける
+                        </PixelButton>
+                      </div>
+                    </div>
+                    {selected && (
+                      <BreedingCalculatorPanel
+                        parent1={parent1}
+                        parent2={parent2}
+                        distribution={daycare.getDistribution(parent1, parent2)}
+                        breedingItems={daycare.breedingItems}
+                        speciesName={daycare.speciesName}
+                        onSetHeldItem={(pokemonId, itemId) => handleResult(setHeldItem(pokemonId, itemId))}
+                      />
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </PixelCard>
+
+      <PixelCard>
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="font-pixel text-lg text-retro-gb-dark">タマゴ</h2>
+            <span className="font-pixel text-xs text-retro-gb-mid">
+              派遣1時間で約{KM_PER_EXPEDITION_HOUR}km（1kmで{STEPS_PER_KM}歩）
+            </span>
+          </div>
+
+          {daycare.eggs.length === 0 ? (
+            <div className="font-pixel text-sm text-retro-gb-mid">タマゴはありません</div>
+          ) : (
+            <div className="space-y-3">
+              {daycare.eggs.map(({ egg, speciesName, carrier, progress, remainingSteps, ready }) => (
+                <div key={egg.id} className="border border-retro-gb-mid rounded p-3 font-pixel text-xs space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-retro-gb-dark">{ready ? `${speciesName}のタマゴ` : '？？？のタマゴ'}</span>
+                    <span className="text-retro-gb-mid">
+                      {ready ? '今にも孵りそうだ！' : `あと${remainingSteps.toLocaleString()}歩`}
+                    </span>
+                  </div>
+                  <PixelProgressBar value={progress * 100} max={100} color="exp" showLabel={false} />
+
+                  {ready ? (
+                    <PixelButton size="sm" className="w-full" onClick={async () => handleResult(await hatchEgg(egg.id))}>
+                      孵す
+                    </PixelButton>
+                  ) : (
+                    <div className="space-y-1">
+                      <div className="text-retro-gb-mid">
+                        {carrier ? `${carrier.name}が持ち歩いています` : '預かり所で保管中（派遣に持たせると孵化が進みます）'}
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {daycare.carriers.map(trainer => (
+                          <PixelButton
+                            key={trainer.id}
+                            size="sm"
+                            variant="secondary"
+                            disabled={carrier?.id === trainer.id || !!daycare.getCarrierError(egg, trainer)}
+                            onClick={() => handleResult(setEggCarrier(egg.id, trainer.id))}
+                          >
+                            {trainer.name}
+                          </PixelButton>
+                        ))}
+                        {carrier && (
+                          <PixelButton size="sm" variant="secondary" onClick={() => handleResult(setEggCarrier(egg.id))}>
+                            預かり所に戻す
+                          </PixelButton>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PixelCard>
+    </div>
+  )
+}
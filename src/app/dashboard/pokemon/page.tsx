@@ -6,6 +6,7 @@ import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
 import { PixelInput } from '@/components/ui/PixelInput'
 import { PokemonCard } from '@/components/pokemon/PokemonCard'
 import { PokemonDetailModal } from '@/components/pokemon/PokemonDetailModal'
+import { MedicalWardPanel } from '@/components/pokemon/MedicalWardPanel'
 import { useGameState } from '@/lib/game-state/hooks'
 import { gameController } from '@/lib/game-logic'
 import { useState, useEffect } from 'react'
@@ -257,6 +258,7 @@ export default function PokemonPage() {
         specialDefense: 15,
         speed: 15
       },
+      evs: p.evs,
       caughtDate: p.caughtDate,
       caughtLocation: p.caughtLocation,
       caughtBy: p.caughtBy,
@@ -422,6 +424,20 @@ export default function PokemonPage() {
           >
             ポケモン図鑑
           </PixelButton>
+          <PixelButton
+            size="sm"
+            variant="secondary"
+            onClick={() => router.push('/dashboard/pokemon/daycare')}
+          >
+            育て屋
+          </PixelButton>
+          <PixelButton
+            size="sm"
+            variant="secondary"
+            onClick={() => router.push('/dashboard/pokemon/training')}
+          >
+            訓練施設
+          </PixelButton>
           <PixelButton
             onClick={() => router.push('/dashboard/pokemon/capture')}
           >
@@ -650,6 +666,9 @@ export default function PokemonPage() {
         </div>
       </PixelCard>
 
+      {/* 療養中のトレーナー・ポケモン */}
+      <MedicalWardPanel />
+
       {/* ポケモン詳細モーダル */}
       <PokemonDetailModal
         pokemon={selectedPokemon}
@@ -0,0 +1,28 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { PokemonTrainingInterface } from '@/components/pokemon/PokemonTrainingInterface'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { QUEUE_PER_SLOT } from '@/lib/pokemon/PokemonTrainingFacility'
+
+export default function PokemonTrainingPage() {
+  const router = useRouter()
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-pixel text-2xl text-retro-gb-dark mb-2">🏋️ 訓練施設</h1>
+          <p className="font-pixel text-sm text-retro-gb-mid">
+            定員がいっぱいの施設には1枠あたり{QUEUE_PER_SLOT}匹まで順番待ちで予約でき、空き次第自動で訓練が始まります
+          </p>
+        </div>
+        <PixelButton size="sm" variant="secondary" onClick={() => router.push('/dashboard/pokemon')}>
+          ポケモン管理へ
+        </PixelButton>
+      </div>
+
+      <PokemonTrainingInterface />
+    </div>
+  )
+}
@@ -1,7 +1,9 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useGameState } from '@/lib/game-state/hooks'
+import { useGameState, useWorldClock } from '@/lib/game-state/hooks'
+import { planGameDataMigration } from '@/lib/game-state/migrations'
+import { WORLD_CLOCK_SPEEDS } from '@/lib/game-logic/world-clock'
 import { PixelCard } from '@/components/ui/PixelCard'
 import { PixelButton } from '@/components/ui/PixelButton'
 import { useRouter } from 'next/navigation'
@@ -12,6 +14,7 @@ import { UI } from '@/config/app'
 
 export default function SettingsPage() {
   const { gameData } = useGameState()
+  const worldClock = useWorldClock()
   const router = useRouter()
 
   // 設定状態管理（JSON システム対応）
@@ -179,11 +182,22 @@ export default function SettingsPage() {
           throw new Error('無効なバックアップファイルです')
         }
         
+        // ゲームデータが現行バージョンへ変換できるか事前に確認（ドライラン）
+        const gameState = backupData.localStorage?.gameState
+        const migration = typeof gameState === 'string' ? planGameDataMigration(JSON.parse(gameState)) : null
+        if (migration && !migration.success) {
+          throw new Error(`セーブデータを変換できません（${migration.error}）`)
+        }
+        
         // 確認ダイアログ
         const confirmRestore = confirm(
           `バックアップファイル情報:\n` +
           `作成日時: ${new Date(backupData.timestamp).toLocaleString('ja-JP')}\n` +
-          `バージョン: ${backupData.version}\n\n` +
+          `バージョン: ${backupData.version}\n` +
+          (migration && migration.appliedMigrations.length > 0
+            ? `セーブデータ: v${migration.fromVersion} → v${migration.toVersion}（${migration.appliedMigrations.length}段階の更新）\n`
+            : '') +
+          `\n` +
           `このバックアップからデータを復元しますか？\n` +
           `現在のデータは上書きされます。`
         )
@@ -449,6 +463,33 @@ export default function SettingsPage() {
         </div>
       </PixelCard>
 
+      {/* ゲーム内時計セクション */}
+      <PixelCard>
+        <div className="p-6">
+          <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">ゲーム内時計</h2>
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="font-pixel text-retro-gb-dark">時間の速さ</h3>
+              <p className="font-pixel text-sm text-retro-gb-mid">
+                実時間1分あたりに進むゲーム内の時間（季節・天候・時間帯に影響）
+              </p>
+            </div>
+            <div className="flex space-x-2">
+              {WORLD_CLOCK_SPEEDS.map(speed => (
+                <PixelButton
+                  key={speed}
+                  size="sm"
+                  variant={worldClock.speed === speed ? 'primary' : 'secondary'}
+                  onClick={() => worldClock.setSpeed(speed)}
+                >
+                  ×{speed}
+                </PixelButton>
+              ))}
+            </div>
+          </div>
+        </div>
+      </PixelCard>
+
       {/* 通知設定セクション */}
       <PixelCard>
         <div className="p-6">
@@ -117,6 +117,7 @@ export default function TrainersPageNew() {
         successfulExpeditions: 0,
         pokemonCaught: 0,
         trustLevel: 50, // デフォルト値
+        morale: 70,
         favoriteLocations: [],
         lastActive: new Date().toISOString(),
         hiredDate: new Date().toISOString()
@@ -9,6 +9,19 @@ import { CandidateSelectionModal } from '@/components/trainers/CandidateSelectio
 import { TrainerSummary } from '@/types/trainer'
 import { useGameState, useTrainers, useEconomy } from '@/lib/game-state/hooks'
 import { useState, useEffect } from 'react'
+import { getTrainerParty } from '@/lib/expedition/ExpeditionParty'
+import { calculateBurnout } from '@/lib/game-state/wellbeing'
+import type { Pokemon } from '@/lib/game-state/types'
+
+// 手持ちポケモンを表示用のパーティ情報に変換
+const summarizeTrainerParty = (party: Pokemon[]): TrainerSummary['party'] => {
+  const totalLevel = party.reduce((sum, pokemon) => sum + pokemon.level, 0)
+  return {
+    pokemonCount: party.length,
+    totalLevel,
+    averageLevel: party.length > 0 ? Math.round(totalLevel / party.length) : 0
+  }
+}
 
 // サンプルデータ（モックIDと整合性を保つ）
 const sampleTrainers: TrainerSummary[] = [
@@ -122,13 +135,14 @@ export default function TrainersPage() {
       nextLevelExp: trainer.nextLevelExp,
       specializations: { capture: 1.2, exploration: 1.1, battle: 1.0 }
     },
-    status: trainer.status as 'available' | 'on_expedition' | 'training',
-    party: {
-      pokemonCount: 2, // デフォルト値
-      totalLevel: trainer.level * 2, // デフォルト値
-      averageLevel: trainer.level // デフォルト値
-    },
+    status: trainer.status,
+    party: summarizeTrainerParty(getTrainerParty(trainer, gameData?.pokemon ?? [])),
     trustLevel: trainer.trustLevel,
+    condition: {
+      fatigue: trainer.fatigue ?? 0,
+      morale: trainer.morale,
+      burnout: calculateBurnout(trainer)
+    },
     salary: trainer.salary,
     spritePath: `/sprites/trainers/${trainer.job.toLowerCase()}_m.png`
   }))
@@ -168,6 +182,7 @@ export default function TrainersPage() {
         successfulExpeditions: 0,
         pokemonCaught: 0,
         trustLevel: 50,
+        morale: 70,
         favoriteLocations: [],
         lastActive: new Date().toISOString(),
         hiredDate: new Date().toISOString()
@@ -3,25 +3,21 @@
 import { PixelCard } from '@/components/ui/PixelCard'
 import { PixelButton } from '@/components/ui/PixelButton'
 import { useState } from 'react'
-
-interface Trainer {
-  id: string
-  name: string
-  job: string
-  level: number
-  status: string
-  avatar?: string
-}
+import type { Trainer } from '@/lib/game-state/types'
+import { JOB_DEFINITIONS } from '@/lib/static-data/jobs'
+import { MAX_TEAM_SIZE, MIN_TEAM_SIZE, evaluateTeam } from '@/lib/expedition/ExpeditionTeam'
 
 interface TrainerSelectionModalProps {
   isOpen: boolean
   onClose: () => void
-  onConfirm: (trainerId: string) => void
+  onConfirm: (trainerIds: string[]) => void // 先頭がリーダー
   trainers: Trainer[]
   locationName: string
   disabled?: boolean
 }
 
+const formatPercent = (value: number): string => `${value >= 0 ? '+' : ''}${Math.round(value * 100)}%`
+
 export function TrainerSelectionModal({
   isOpen,
   onClose,
@@ -30,19 +26,33 @@ export function TrainerSelectionModal({
   locationName,
   disabled = false
 }: TrainerSelectionModalProps) {
-  const [selectedTrainerId, setSelectedTrainerId] = useState<string>('')
+  const [selectedTrainerIds, setSelectedTrainerIds] = useState<string[]>([])
 
   if (!isOpen) return null
 
+  const selectedTeam = selectedTrainerIds
+    .map(id => trainers.find(trainer => trainer.id === id))
+    .filter((trainer): trainer is Trainer => !!trainer)
+  const evaluation = selectedTeam.length >= MIN_TEAM_SIZE ? evaluateTeam(selectedTeam) : null
+
+  // 選択した順に並べ、最初に選んだトレーナーをリーダーにする
+  const toggleTrainer = (trainerId: string) => {
+    setSelectedTrainerIds(current => {
+      if (current.includes(trainerId)) return current.filter(id => id !== trainerId)
+      if (current.length >= MAX_TEAM_SIZE) return current
+      return [...current, trainerId]
+    })
+  }
+
   const handleConfirm = () => {
-    if (selectedTrainerId) {
-      onConfirm(selectedTrainerId)
-      setSelectedTrainerId('')
+    if (selectedTrainerIds.length > 0) {
+      onConfirm(selectedTrainerIds)
+      setSelectedTrainerIds([])
     }
   }
 
   const handleClose = () => {
-    setSelectedTrainerId('')
+    setSelectedTrainerIds([])
     onClose()
   }
 
@@ -52,7 +62,7 @@ export function TrainerSelectionModal({
         <PixelCard title={`${locationName}への派遣`}>
           <div className="space-y-4">
             <div className="font-pixel text-sm text-retro-gb-dark">
-              派遣するトレーナーを選択してください
+              派遣するトレーナーを選択してください（{MAX_TEAM_SIZE}人までのチームで派遣できます）
             </div>
 
             {trainers.length === 0 ? (
@@ -66,33 +76,62 @@ export function TrainerSelectionModal({
               </div>
             ) : (
               <div className="space-y-2 max-h-60 overflow-y-auto">
-                {trainers.map((trainer) => (
-                  <div
-                    key={trainer.id}
-                    className={`border-2 p-3 cursor-pointer transition-colors ${
-                      selectedTrainerId === trainer.id
-                        ? 'border-retro-gb-dark bg-retro-gb-light'
-                        : 'border-retro-gb-mid bg-retro-gb-lightest hover:border-retro-gb-dark'
-                    }`}
-                    onClick={() => setSelectedTrainerId(trainer.id)}
-                  >
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <div className="font-pixel text-sm text-retro-gb-dark">
-                          {trainer.name}
+                {trainers.map((trainer) => {
+                  const order = selectedTrainerIds.indexOf(trainer.id)
+                  const isSelected = order !== -1
+                  const isFull = !isSelected && selectedTrainerIds.length >= MAX_TEAM_SIZE
+
+                  return (
+                    <div
+                      key={trainer.id}
+                      className={`border-2 p-3 transition-colors ${
+                        isSelected
+                          ? 'border-retro-gb-dark bg-retro-gb-light cursor-pointer'
+                          : isFull
+                            ? 'border-retro-gb-mid bg-retro-gb-lightest opacity-50'
+                            : 'border-retro-gb-mid bg-retro-gb-lightest hover:border-retro-gb-dark cursor-pointer'
+                      }`}
+                      onClick={() => toggleTrainer(trainer.id)}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="font-pixel text-sm text-retro-gb-dark">
+                            {trainer.name}
+                            {order === 0 && selectedTrainerIds.length > 1 && ' 👑'}
+                          </div>
+                          <div className="font-pixel text-xs text-retro-gb-mid">
+                            {JOB_DEFINITIONS[trainer.job]?.nameJa ?? trainer.job} | Lv.{trainer.level} | チームワーク {trainer.personality.teamwork} | 手持ち {trainer.party?.length ?? 0}体 | 疲労 {Math.round(trainer.fatigue ?? 0)}
+                          </div>
                         </div>
-                        <div className="font-pixel text-xs text-retro-gb-mid">
-                          {trainer.job} | Lv.{trainer.level}
+                        <div className="w-4 h-4 border border-retro-gb-dark flex items-center justify-center font-pixel text-xs">
+                          {isSelected && order + 1}
                         </div>
                       </div>
-                      <div className="w-4 h-4 border border-retro-gb-dark flex items-center justify-center">
-                        {selectedTrainerId === trainer.id && (
-                          <div className="w-2 h-2 bg-retro-gb-dark"></div>
-                        )}
-                      </div>
                     </div>
-                  </div>
-                ))}
+                  )
+                })}
+              </div>
+            )}
+
+            {evaluation && (
+              <div className="border border-retro-gb-mid p-2 space-y-1 font-pixel text-xs">
+                <div className="flex justify-between">
+                  <span className="text-retro-gb-mid">チームワーク相性</span>
+                  <span className={evaluation.synergy >= 0 ? 'text-green-600' : 'text-red-600'}>
+                    {formatPercent(evaluation.synergy)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-retro-gb-mid">職業の補完性</span>
+                  <span className="text-retro-gb-dark">{Math.round(evaluation.complementarity * 100)}%</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-retro-gb-mid">成功度補正</span>
+                  <span className={evaluation.successModifier >= 1 ? 'text-green-600' : 'text-red-600'}>
+                    ×{evaluation.successModifier.toFixed(2)}
+                  </span>
+                </div>
+                <div className="text-retro-gb-mid">経験値と報酬はメンバーで分配されます</div>
               </div>
             )}
 
@@ -108,9 +147,9 @@ export function TrainerSelectionModal({
               <PixelButton
                 className="flex-1"
                 onClick={handleConfirm}
-                disabled={disabled || !selectedTrainerId || trainers.length === 0}
+                disabled={disabled || selectedTrainerIds.length === 0 || trainers.length === 0}
               >
-                {disabled ? '処理中...' : '派遣開始'}
+                {disabled ? '処理中...' : selectedTrainerIds.length > 1 ? `${selectedTrainerIds.length}人で派遣開始` : '派遣開始'}
               </PixelButton>
             </div>
           </div>
@@ -118,4 +157,4 @@ export function TrainerSelectionModal({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -19,8 +19,10 @@ const navItems: NavItem[] = [
   { href: '/dashboard/pokemon', label: 'ポケモン', icon: '🎾' },
   { href: '/dashboard/facilities', label: '施設', icon: '🏢' },
   { href: '/dashboard/economy', label: '経済', icon: '💰' },
+  { href: '/dashboard/market', label: 'マーケット', icon: '🏪' },
   { href: '/dashboard/analytics', label: '分析', icon: '📊' },
   { href: '/dashboard/events', label: 'イベント', icon: '🎪' },
+  { href: '/dashboard/achievements', label: '実績', icon: '🏆' },
   { href: '/dashboard/settings', label: '設定', icon: '⚙️' },
 ]
 
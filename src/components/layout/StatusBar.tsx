@@ -2,16 +2,25 @@
 
 import { useAuth } from '@/contexts/GameContext'
 import { formatMoney } from '@/lib/utils'
-import { useState, useEffect } from 'react'
+import { useWorldClock } from '@/lib/game-state/hooks'
+import { SEASON_LABELS, TIME_OF_DAY_LABELS, WEATHER_LABELS } from '@/lib/game-logic/world-clock'
+
+const SEASON_ICONS = {
+  spring: '🌸',
+  summer: '🌻',
+  autumn: '🍁',
+  winter: '⛄'
+}
 
 export function StatusBar() {
   const { user, isMockMode } = useAuth()
-  const [currentTime, setCurrentTime] = useState(new Date())
+  const { gameTime, season, timeOfDay, locations, speed } = useWorldClock()
 
-  useEffect(() => {
-    const timer = setInterval(() => setCurrentTime(new Date()), 1000)
-    return () => clearInterval(timer)
-  }, [])
+  // スクール最寄りの派遣先の天候を表示し、他の派遣先はツールチップで確認
+  const homeWeather = locations[0]?.conditions.weather
+  const weatherSummary = locations
+    .map(({ location, conditions }) => `${location.nameJa}: ${WEATHER_LABELS[conditions.weather].label}`)
+    .join('\n')
 
   // 開発モードでは認証なしでも表示
   const isDevelopment = process.env.NODE_ENV === 'development'
@@ -62,11 +71,20 @@ export function StatusBar() {
               <span className="font-pixel text-xs">DEV</span>
             </div>
           )}
+          <div className="flex items-center space-x-2 font-pixel text-xs" title={weatherSummary}>
+            <span>{SEASON_ICONS[season]} {SEASON_LABELS[season]}</span>
+            {homeWeather && (
+              <span>{WEATHER_LABELS[homeWeather].icon} {WEATHER_LABELS[homeWeather].label}</span>
+            )}
+          </div>
           <div className="font-pixel text-xs">
-            {currentTime.toLocaleTimeString('ja-JP', { 
+            {gameTime.toLocaleDateString('ja-JP', { month: 'numeric', day: 'numeric' })}{' '}
+            {gameTime.toLocaleTimeString('ja-JP', { 
               hour: '2-digit', 
               minute: '2-digit' 
             })}
+            <span className="opacity-80 ml-1">（{TIME_OF_DAY_LABELS[timeOfDay]}）</span>
+            {speed !== 1 && <span className="opacity-80 ml-1">×{speed}</span>}
           </div>
         </div>
       </div>
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import { PixelCard } from '@/components/ui/PixelCard'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { useMedical } from '@/lib/game-state/hooks'
+import { MEDICAL_KIND_LABELS, MEDICAL_SEVERITY_LABELS } from '@/lib/game-state/medical'
+import type { Item, MedicalCondition } from '@/lib/game-state/types'
+
+const formatRemaining = (ms: number): string => {
+  const totalMinutes = Math.ceil(ms / 60000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}時間${minutes}分` : `${minutes}分`
+}
+
+interface PatientRowProps {
+  name: string
+  condition: MedicalCondition
+  remainingMs: number
+  treatments: Item[]
+  onTreat: (itemId: string) => void
+}
+
+function PatientRow({ name, condition, remainingMs, treatments, onTreat }: PatientRowProps) {
+  return (
+    <div className="border-b border-retro-gb-light pb-2 space-y-1">
+      <div className="flex items-center justify-between font-pixel text-sm text-retro-gb-dark">
+        <span>{name}</span>
+        <span className={condition.severity === 'severe' ? 'text-red-600' : 'text-orange-600'}>
+          {MEDICAL_KIND_LABELS[condition.kind]}（{MEDICAL_SEVERITY_LABELS[condition.severity]}）
+        </span>
+      </div>
+      <div className="flex items-center justify-between font-pixel text-xs text-retro-gb-mid">
+        <span>{condition.cause}</span>
+        <span>完治まで {formatRemaining(remainingMs)}</span>
+      </div>
+      {treatments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {treatments.map(item => (
+            <PixelButton key={item.id} size="sm" variant="secondary" onClick={() => onTreat(item.id)}>
+              {item.nameJa}（-{item.effects?.recoveryHours}時間）×{item.quantity}
+            </PixelButton>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function MedicalWardPanel() {
+  const { ward, treatTrainer, treatPokemon } = useMedical()
+  const [message, setMessage] = useState<string | null>(null)
+
+  if (!ward) return null
+
+  const patientCount = ward.trainerPatients.length + ward.pokemonPatients.length
+
+  return (
+    <PixelCard title={`療養中 ${patientCount}`}>
+      <div className="space-y-3">
+        <div className="font-pixel text-xs text-retro-gb-mid">
+          回復速度 ×{ward.recoveryRate.toFixed(2)}（回復施設のレベルと待機中のメディックで速くなります）
+        </div>
+        {message && (
+          <div className="font-pixel text-xs text-retro-gb-dark p-2 bg-retro-gb-light border border-retro-gb-mid">
+            {message}
+          </div>
+        )}
+
+        {patientCount === 0 ? (
+          <div className="font-pixel text-sm text-retro-gb-mid">療養中のトレーナー・ポケモンはいません</div>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {ward.trainerPatients.map(({ trainer, condition, remainingMs }) => (
+              <PatientRow
+                key={trainer.id}
+                name={`${trainer.name}（トレーナー）`}
+                condition={condition}
+                remainingMs={remainingMs}
+                treatments={ward.treatments}
+                onTreat={itemId => setMessage(treatTrainer(trainer.id, itemId).message)}
+              />
+            ))}
+            {ward.pokemonPatients.map(({ pokemon, condition, remainingMs }) => (
+              <PatientRow
+                key={pokemon.id}
+                name={`${pokemon.nameJa} Lv.${pokemon.level}`}
+                condition={condition}
+                remainingMs={remainingMs}
+                treatments={ward.treatments}
+                onTreat={itemId => setMessage(treatPokemon(pokemon.id, itemId).message)}
+              />
+            ))}
+          </div>
+        )}
+        <div className="font-pixel text-xs text-retro-gb-mid">
+          療養中のトレーナーは派遣に出られず、ポケモンは手持ちに入れても留守番します
+        </div>
+      </div>
+    </PixelCard>
+  )
+}
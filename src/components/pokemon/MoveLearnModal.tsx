@@ -0,0 +1,137 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { clsx } from 'clsx'
+import { PokemonInstance } from '../../lib/schemas/pokemon'
+import { pokemonGrowthSystem } from '../../lib/pokemon/PokemonGrowthSystem'
+import { getMoveDefinition } from '../../lib/static-data/moves'
+
+interface MoveLearnModalProps {
+  pokemon: PokemonInstance
+  pendingMoves: string[]
+  isOpen: boolean
+  onClose: (pokemon: PokemonInstance) => void
+}
+
+const CATEGORY_LABELS = {
+  physical: '物理',
+  special: '特殊',
+  status: '変化'
+}
+
+export function MoveLearnModal({
+  pokemon,
+  pendingMoves,
+  isOpen,
+  onClose
+}: MoveLearnModalProps) {
+  const [currentPokemon, setCurrentPokemon] = useState(pokemon)
+  const [moveIndex, setMoveIndex] = useState(0)
+  const [forgetMove, setForgetMove] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setCurrentPokemon(pokemon)
+      setMoveIndex(0)
+      setForgetMove(null)
+    }
+  }, [isOpen, pokemon])
+
+  if (!isOpen || moveIndex >= pendingMoves.length) return null
+
+  const newMove = pendingMoves[moveIndex]
+
+  // 次の技へ進む（全て処理したら結果を返して閉じる）
+  const proceed = (updatedPokemon: PokemonInstance) => {
+    setCurrentPokemon(updatedPokemon)
+    setForgetMove(null)
+
+    if (moveIndex + 1 >= pendingMoves.length) {
+      onClose(updatedPokemon)
+    } else {
+      setMoveIndex(moveIndex + 1)
+    }
+  }
+
+  const handleLearn = () => {
+    if (!forgetMove) return
+
+    const result = pokemonGrowthSystem.learnMove(currentPokemon, newMove, forgetMove)
+    if (result.success && result.updatedPokemon) {
+      proceed(result.updatedPokemon)
+    } else {
+      alert(result.error)
+    }
+  }
+
+  const renderMove = (move: string) => {
+    const definition = getMoveDefinition(move)
+
+    return (
+      <div className="flex justify-between items-center w-full">
+        <span className="font-pixel text-sm">{move}</span>
+        {definition && (
+          <span className="font-pixel text-xs text-retro-gb-mid">
+            {definition.type} / {CATEGORY_LABELS[definition.category]} / 威力 {definition.power ?? '-'} / PP {definition.pp}
+          </span>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white border-4 border-retro-gb-dark max-w-lg w-full mx-4">
+        {/* Header */}
+        <div className="bg-retro-gb-dark text-white p-4">
+          <h2 className="font-pixel text-lg">技の習得</h2>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <p className="font-pixel text-sm text-retro-gb-dark">
+            {currentPokemon.name}は{newMove}を覚えたい…
+            しかし技を4つ覚えているので、忘れる技を選んでください。
+          </p>
+
+          <div className="bg-retro-gb-light border-2 border-retro-gb-mid p-3">
+            {renderMove(newMove)}
+          </div>
+
+          <div className="space-y-2">
+            {currentPokemon.moves.map(move => (
+              <button
+                key={move}
+                onClick={() => setForgetMove(move)}
+                className={clsx(
+                  'w-full border-2 p-3 text-left transition-all',
+                  forgetMove === move
+                    ? 'border-red-500 bg-red-50'
+                    : 'border-gray-300 hover:bg-gray-50'
+                )}
+              >
+                {renderMove(move)}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => proceed(currentPokemon)}
+              className="px-4 py-2 border-2 border-gray-400 font-pixel text-sm hover:bg-gray-100"
+            >
+              覚えない
+            </button>
+            <button
+              onClick={handleLearn}
+              disabled={!forgetMove}
+              className="px-4 py-2 bg-retro-gb-dark text-white font-pixel text-sm disabled:opacity-50"
+            >
+              {forgetMove ? `${forgetMove}を忘れて覚える` : '忘れる技を選択'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
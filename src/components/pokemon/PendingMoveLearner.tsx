@@ -0,0 +1,36 @@
+'use client'
+
+import { useGameState } from '@/lib/game-state/hooks'
+import { useNotifications } from '@/contexts/GameContext'
+import { MoveLearnModal } from './MoveLearnModal'
+
+/**
+ * 訓練や派遣で覚えきれなかった技があれば、忘れる技を選ぶ画面を1体ずつ出す
+ */
+export function PendingMoveLearner() {
+  const { gameData, actions, manager } = useGameState()
+  const { addNotification } = useNotifications()
+
+  // 手放したポケモンの報告は飛ばす
+  const report = gameData
+    ? manager.getPendingMoves().find(r => gameData.pokemon.some(p => p.id === r.pokemonId))
+    : undefined
+  const pokemon = report ? gameData?.pokemon.find(p => p.id === report.pokemonId) : undefined
+
+  if (!report || !pokemon) return null
+
+  return (
+    <MoveLearnModal
+      pokemon={pokemon}
+      pendingMoves={report.moves}
+      isOpen={true}
+      onClose={(updatedPokemon) => {
+        const result = actions.resolvePendingMoves(pokemon.id, updatedPokemon.moves)
+        addNotification({
+          type: result.success ? 'success' : 'error',
+          message: result.message
+        })
+      }}
+    />
+  )
+}
@@ -7,6 +7,16 @@ import { Progress } from "@/components/ui/progress"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Heart, Zap, Shield, Sword, Star, MapPin } from "lucide-react"
 import { useState, useEffect } from "react"
+import { useGameState, useInventory } from "@/lib/game-state/hooks"
+import { getItemsByUsage } from "@/lib/static-data/items"
+import { STAT_KEYS, type StatKey } from "@/lib/pokemon/BreedingInheritance"
+import {
+  MAX_EVS_PER_STAT,
+  MAX_TOTAL_EVS,
+  getEffortStatBonus,
+  getTotalEffortValues,
+  type EffortValues
+} from "@/lib/pokemon/EffortValues"
 
 interface PokemonStats {
   hp: number
@@ -17,6 +27,17 @@ interface PokemonStats {
   speed: number
 }
 
+const EFFORT_LABELS: Record<StatKey, string> = {
+  hp: 'HP',
+  attack: 'こうげき',
+  defense: 'ぼうぎょ',
+  specialAttack: 'とくこう',
+  specialDefense: 'とくぼう',
+  speed: 'すばやさ'
+}
+
+const EFFORT_ITEMS = getItemsByUsage('effort')
+
 interface PokemonSpecies {
   id: number
   name: string
@@ -44,6 +65,7 @@ interface Pokemon {
     speed: number
   }
   nature?: string
+  evs?: EffortValues
   caught_at: string
   location?: string
   is_in_party: boolean
@@ -66,6 +88,9 @@ export function PokemonDetailModal({
 }: PokemonDetailModalProps) {
   const [pokemonData, setPokemonData] = useState<PokemonSpecies | null>(null)
   const [loading, setLoading] = useState(false)
+  const [effortMessage, setEffortMessage] = useState<string | null>(null)
+  const { gameData } = useGameState()
+  const { actions: inventoryActions } = useInventory()
 
   useEffect(() => {
     if (pokemon && pokemon.species_id && isOpen) {
@@ -146,10 +171,23 @@ export function PokemonDetailModal({
     return { progress, needed, percentage: (progress / needed) * 100 }
   }
 
+  useEffect(() => {
+    setEffortMessage(null)
+  }, [pokemon?.id])
+
   if (!pokemon) return null
 
   const species = pokemonData || pokemon.species
   const expInfo = getExperienceToNextLevel(pokemon.level, pokemon.experience)
+  // 道具で努力値が変わってもモーダルを開いたまま反映されるよう、保存データの値を優先する
+  const evs = gameData?.pokemon.find(p => p.id === pokemon.id)?.evs ?? pokemon.evs
+  const effortBonus = getEffortStatBonus(evs, pokemon.level)
+  const ownedEffortItems = EFFORT_ITEMS.filter(item => inventoryActions.getCount(item.id) > 0)
+
+  const handleUseEffortItem = (itemId: string) => {
+    const result = inventoryActions.use(itemId, pokemon.id)
+    setEffortMessage(result.message)
+  }
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -288,6 +326,56 @@ export function PokemonDetailModal({
               </Card>
             )}
 
+            {/* 努力値 */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm flex justify-between">
+                  <span>努力値</span>
+                  <span className="text-xs font-normal text-gray-500">
+                    合計 {getTotalEffortValues(evs)}/{MAX_TOTAL_EVS}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {STAT_KEYS.map(stat => {
+                  const value = evs?.[stat] ?? 0
+                  return (
+                    <div key={stat} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>{EFFORT_LABELS[stat]}</span>
+                        <span className="font-medium">
+                          {value}/{MAX_EVS_PER_STAT}
+                          <span className="text-xs text-gray-500 ml-1">
+                            (+{effortBonus[stat]})
+                          </span>
+                        </span>
+                      </div>
+                      <Progress value={(value / MAX_EVS_PER_STAT) * 100} className="h-2" />
+                    </div>
+                  )
+                })}
+
+                {ownedEffortItems.length > 0 && (
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    {ownedEffortItems.map(item => (
+                      <Button
+                        key={item.id}
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleUseEffortItem(item.id)}
+                        title={item.description}
+                      >
+                        {item.nameJa} ×{inventoryActions.getCount(item.id)}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                {effortMessage && (
+                  <div className="text-xs text-gray-600">{effortMessage}</div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* パーティ管理ボタン */}
             <div className="flex gap-2 pt-4">
               {pokemon.is_in_party ? (
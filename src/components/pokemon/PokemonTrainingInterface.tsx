@@ -1,155 +1,133 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
 import { clsx } from 'clsx'
 import { PixelProgressBar } from '../ui/PixelProgressBar'
-import { PokemonInstance } from '../../lib/schemas/pokemon'
-import { pokemonTrainingFacility, TrainingFacility, TrainingSlot } from '../../lib/pokemon/PokemonTrainingFacility'
-import { pokemonGrowthSystem, TrainingSession } from '../../lib/pokemon/PokemonGrowthSystem'
+import { PixelButton } from '../ui/PixelButton'
+import { usePokemonTraining } from '../../lib/game-state/hooks'
+import { getItemDefinition } from '../../lib/static-data/items'
+import type { TrainingFacility } from '../../lib/pokemon/PokemonTrainingFacility'
 
 interface PokemonTrainingInterfaceProps {
-  pokemon: PokemonInstance[]
-  onTrainingComplete?: (pokemon: PokemonInstance, results: any) => void
-  gameContext: any
   className?: string
 }
 
-export function PokemonTrainingInterface({
-  pokemon,
-  onTrainingComplete,
-  gameContext,
-  className = ''
-}: PokemonTrainingInterfaceProps) {
-  const [selectedFacility, setSelectedFacility] = useState<TrainingFacility | null>(null)
-  const [selectedPokemon, setSelectedPokemon] = useState<PokemonInstance | null>(null)
-  const [selectedProgram, setSelectedProgram] = useState<string | null>(null)
-  const [activeSessions, setActiveSessions] = useState<TrainingSlot[]>([])
-  const [availableFacilities, setAvailableFacilities] = useState<TrainingFacility[]>([])
-  const [trainingPrograms, setTrainingPrograms] = useState<TrainingSession[]>([])
-
-  useEffect(() => {
-    // Load available facilities and programs
-    const facilities = pokemonTrainingFacility.getAvailableFacilities(gameContext)
-    const programs = pokemonGrowthSystem.getTrainingPrograms()
-    
-    setAvailableFacilities(facilities)
-    setTrainingPrograms(programs)
-    
-    // Update active sessions
-    const sessions = pokemonTrainingFacility.getActiveSessions()
-    setActiveSessions(sessions)
-  }, [gameContext])
+const PROGRAM_LABELS: Record<string, string> = {
+  basic_strength: '基礎筋力トレーニング',
+  advanced_strength: '上級筋力トレーニング',
+  speed_training: 'スピードトレーニング',
+  endurance_training: '持久力トレーニング',
+  technique_mastery: '技の鍛錬',
+  elite_training: 'エリートトレーニング'
+}
 
-  useEffect(() => {
-    // Update training sessions every second
-    const interval = setInterval(() => {
-      const completedSessions = pokemonTrainingFacility.updateTrainingSessions()
-      
-      if (completedSessions.length > 0) {
-        // Handle completed training sessions
-        completedSessions.forEach(session => {
-          handleTrainingComplete(session)
-        })
-      }
-      
-      // Update active sessions
-      const sessions = pokemonTrainingFacility.getActiveSessions()
-      setActiveSessions(sessions)
-    }, 1000)
+const SPECIALIZATION_LABELS: Record<TrainingFacility['specialization'], string> = {
+  strength: 'パワー',
+  endurance: '持久力',
+  speed: 'スピード',
+  technique: 'テクニック',
+  intelligence: 'かしこさ',
+  balanced: '総合'
+}
 
-    return () => clearInterval(interval)
-  }, [])
+const STATUS_LABELS = {
+  queued: '順番待ち',
+  active: '訓練中',
+  paused: '一時停止中',
+  completed: '完了',
+  cancelled: '中止'
+}
 
-  const handleTrainingComplete = async (session: TrainingSlot) => {
-    try {
-      const result = pokemonTrainingFacility.completeTraining(session.id, gameContext)
-      if (result.success && result.result) {
-        onTrainingComplete?.(result.result.pokemon, result.result)
-      }
-    } catch (error) {
-      console.error('Failed to complete training:', error)
-    }
+const getFacilitySpecializationColor = (specialization: string): string => {
+  const colors = {
+    'strength': 'text-red-600',
+    'endurance': 'text-green-600',
+    'speed': 'text-blue-600',
+    'technique': 'text-purple-600',
+    'intelligence': 'text-yellow-600',
+    'balanced': 'text-gray-600'
   }
+  return colors[specialization as keyof typeof colors] || colors.balanced
+}
 
-  const startTraining = () => {
-    if (!selectedPokemon || !selectedFacility || !selectedProgram) return
+const formatRemaining = (ms: number): string => {
+  const totalMinutes = Math.ceil(ms / 60000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}時間${minutes}分` : `${minutes}分`
+}
 
-    const result = pokemonTrainingFacility.startTraining(
-      selectedPokemon,
-      selectedFacility.id,
-      selectedProgram,
-      gameContext
-    )
+const formatPercent = (value: number): string => `${Math.round(value * 100)}%`
 
-    if (result.success) {
-      setActiveSessions(prev => [...prev, result.trainingSlot!])
-      setSelectedPokemon(null)
-      setSelectedProgram(null)
-    } else {
-      alert(result.error)
-    }
-  }
+export function PokemonTrainingInterface({ className = '' }: PokemonTrainingInterfaceProps) {
+  const { training, money, schedule, pause, resume, cancel, upgrade } = usePokemonTraining()
+  const [selectedFacilityId, setSelectedFacilityId] = useState<string | null>(null)
+  const [selectedPokemonId, setSelectedPokemonId] = useState('')
+  const [selectedProgramId, setSelectedProgramId] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
 
-  const cancelTraining = (sessionId: string) => {
-    // TODO: Implement cancel training method
-    setActiveSessions(prev => prev.filter(s => s.id !== sessionId))
+  if (!training) {
+    return <div className="font-pixel text-sm text-retro-gb-mid">読み込み中...</div>
   }
 
-  const getFacilitySpecializationColor = (specialization: string): string => {
-    const colors = {
-      'strength': 'text-red-600',
-      'endurance': 'text-green-600',
-      'speed': 'text-blue-600',
-      'technique': 'text-purple-600',
-      'intelligence': 'text-yellow-600',
-      'balanced': 'text-gray-600'
-    }
-    return colors[specialization as keyof typeof colors] || colors.balanced
-  }
+  const selected = training.facilities.find(entry => entry.facility.id === selectedFacilityId)
+  const selectedProgram = selected?.programs.find(entry => entry.id === selectedProgramId)
+  const isFull = !!selected && selected.active.length >= selected.facility.capacity
+  const canSchedule = !!selected && !!selectedProgram && !!selectedPokemonId && !training.lockReason &&
+    money >= selectedProgram.program.cost && (!isFull || selected.queue.length < selected.queueLimit)
 
-  const getPokemonForTraining = () => {
-    return pokemon.filter(p => 
-      !activeSessions.some(session => session.pokemonId === p.id && session.status === 'active')
-    )
+  const handleResult = (result: { success: boolean; message: string }) => {
+    setMessage(result.message)
   }
 
-  const formatTime = (milliseconds: number): string => {
-    const seconds = Math.floor(milliseconds / 1000)
-    const minutes = Math.floor(seconds / 60)
-    const hours = Math.floor(minutes / 60)
-    
-    if (hours > 0) {
-      return `${hours}:${(minutes % 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`
-    }
-    return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`
+  const startTraining = () => {
+    if (!selected || !selectedProgram || !selectedPokemonId) return
+    const result = schedule(selectedPokemonId, selected.facility.id, selectedProgram.id)
+    handleResult(result)
+    if (result.success) setSelectedPokemonId('')
   }
 
+  const facilityName = (facilityId: string) =>
+    training.facilities.find(entry => entry.facility.id === facilityId)?.facility.name ?? facilityId
+
   return (
     <div className={clsx('pokemon-training-interface', className)}>
       <div className="bg-retro-gb-light border border-retro-gb-dark p-4">
         <h2 className="font-pixel text-lg text-retro-gb-dark mb-4">ポケモン訓練施設</h2>
-        
+
+        {message && (
+          <div className="font-pixel text-xs text-retro-gb-dark p-2 mb-4 bg-white border border-retro-gb-mid">
+            {message}
+          </div>
+        )}
+        {training.lockReason && (
+          <div className="font-pixel text-xs text-red-600 mb-4">{training.lockReason}</div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Training Setup */}
           <div className="space-y-4">
-            <h3 className="font-pixel text-md text-retro-gb-dark">訓練開始</h3>
-            
+            <h3 className="font-pixel text-md text-retro-gb-dark">訓練の予約</h3>
+
             {/* Facility Selection */}
             <div>
               <label className="font-pixel text-sm text-retro-gb-mid block mb-2">
                 訓練施設
               </label>
               <div className="space-y-2">
-                {availableFacilities.map(facility => (
+                {training.facilities.map(({ facility, active, queue, queueLimit }) => (
                   <div
                     key={facility.id}
                     className={clsx(
                       'border-2 p-3 cursor-pointer',
-                      selectedFacility?.id === facility.id
+                      selectedFacilityId === facility.id
                         ? 'border-blue-500 bg-blue-50'
                         : 'border-retro-gb-mid hover:bg-retro-gb-light'
                     )}
-                    onClick={() => setSelectedFacility(facility)}
+                    onClick={() => {
+                      setSelectedFacilityId(facility.id)
+                      setSelectedProgramId(null)
+                    }}
                   >
                     <div className="flex items-center justify-between">
                       <div>
@@ -164,7 +142,7 @@ export function PokemonTrainingInterface({
                             'font-pixel text-xs',
                             getFacilitySpecializationColor(facility.specialization)
                           )}>
-                            {facility.specialization}
+                            {SPECIALIZATION_LABELS[facility.specialization]}
                           </span>
                           <span className="font-pixel text-xs text-retro-gb-mid">
                             Lv.{facility.level}
@@ -173,10 +151,10 @@ export function PokemonTrainingInterface({
                       </div>
                       <div className="text-right">
                         <div className="font-pixel text-xs text-retro-gb-mid">
-                          容量: {pokemonTrainingFacility.getActiveSessions(facility.id).length}/{facility.capacity}
+                          使用中: {active.length}/{facility.capacity}
                         </div>
                         <div className="font-pixel text-xs text-retro-gb-mid">
-                          維持費: {facility.maintenanceCost}G
+                          順番待ち: {queue.length}/{queueLimit}
                         </div>
                       </div>
                     </div>
@@ -185,89 +163,126 @@ export function PokemonTrainingInterface({
               </div>
             </div>
 
-            {/* Pokemon Selection */}
-            {selectedFacility && (
-              <div>
-                <label className="font-pixel text-sm text-retro-gb-mid block mb-2">
-                  ポケモン選択
-                </label>
-                <select
-                  value={selectedPokemon?.id || ''}
-                  onChange={(e) => {
-                    const pokemon = getPokemonForTraining().find(p => p.id === e.target.value)
-                    setSelectedPokemon(pokemon || null)
-                  }}
-                  className="w-full p-2 border border-retro-gb-mid font-pixel text-sm"
-                >
-                  <option value="">選択してください</option>
-                  {getPokemonForTraining().map(p => (
-                    <option key={p.id} value={p.id}>
-                      {p.name} (Lv.{p.level})
-                    </option>
-                  ))}
-                </select>
-              </div>
-            )}
+            {selected && (
+              <>
+                {/* Program Selection */}
+                <div>
+                  <label className="font-pixel text-sm text-retro-gb-mid block mb-2">
+                    訓練プログラム
+                  </label>
+                  <div className="space-y-2">
+                    {selected.programs.map(({ id, program, duration }) => (
+                      <div
+                        key={id}
+                        className={clsx(
+                          'border-2 p-2 cursor-pointer',
+                          selectedProgramId === id
+                            ? 'border-green-500 bg-green-50'
+                            : 'border-retro-gb-mid hover:bg-retro-gb-light'
+                        )}
+                        onClick={() => setSelectedProgramId(id)}
+                      >
+                        <h5 className="font-pixel text-sm text-retro-gb-dark">
+                          {PROGRAM_LABELS[id] ?? id}
+                        </h5>
+                        <div className="font-pixel text-xs text-retro-gb-mid">
+                          時間: {formatRemaining(duration)} | 費用: ₽{program.cost.toLocaleString()}
+                        </div>
+                        <div className="font-pixel text-xs text-green-600">
+                          経験値倍率: x{program.expMultiplier} / 施設ボーナス: x{selected.facility.bonusMultiplier.toFixed(1)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
 
-            {/* Program Selection */}
-            {selectedPokemon && (
-              <div>
-                <label className="font-pixel text-sm text-retro-gb-mid block mb-2">
-                  訓練プログラム
-                </label>
-                <div className="space-y-2">
-                  {trainingPrograms
-                    .filter(program => program.type === selectedFacility?.specialization || selectedFacility?.specialization === 'balanced')
-                    .map(program => (
-                    <div
-                      key={`${program.type}_${program.intensity}`}
-                      className={clsx(
-                        'border-2 p-2 cursor-pointer',
-                        selectedProgram === `${program.type}_${program.intensity}`
-                          ? 'border-green-500 bg-green-50'
-                          : 'border-retro-gb-mid hover:bg-retro-gb-light'
-                      )}
-                      onClick={() => setSelectedProgram(`${program.type}_${program.intensity}`)}
-                    >
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <h5 className="font-pixel text-sm text-retro-gb-dark capitalize">
-                            {program.intensity} {program.type} Training
-                          </h5>
-                          <div className="font-pixel text-xs text-retro-gb-mid">
-                            時間: {program.duration}分 | 費用: {program.cost}G
-                          </div>
-                          <div className="font-pixel text-xs text-green-600">
-                            経験値倍率: x{program.expMultiplier}
-                          </div>
+                {/* Pokemon Selection */}
+                <div>
+                  <label className="font-pixel text-sm text-retro-gb-mid block mb-2">
+                    ポケモン選択
+                  </label>
+                  <select
+                    value={selectedPokemonId}
+                    onChange={(e) => setSelectedPokemonId(e.target.value)}
+                    className="w-full p-2 border border-retro-gb-mid font-pixel text-sm"
+                  >
+                    <option value="">選択してください</option>
+                    {training.trainable.map(p => (
+                      <option key={p.id} value={p.id}>
+                        {p.nameJa} (Lv.{p.level})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="font-pixel text-xs text-retro-gb-mid mt-1">
+                    手持ち・育て屋・治療中のポケモンは訓練できません
+                  </p>
+                </div>
+
+                <PixelButton className="w-full" disabled={!canSchedule} onClick={startTraining}>
+                  {isFull ? '順番待ちに並ぶ' : '訓練開始'}
+                </PixelButton>
+
+                {/* Upgrade Preview */}
+                <div className="border border-retro-gb-mid p-3 bg-white space-y-2">
+                  <h4 className="font-pixel text-sm text-retro-gb-dark">施設の強化</h4>
+                  {selected.upgradePreview ? (
+                    <>
+                      <div className="grid grid-cols-3 gap-1 font-pixel text-xs">
+                        <span className="text-retro-gb-mid">項目</span>
+                        <span className="text-retro-gb-mid">現在</span>
+                        <span className="text-retro-gb-mid">強化後</span>
+                        <span className="text-retro-gb-dark">レベル</span>
+                        <span>{selected.upgradePreview.current.level}</span>
+                        <span className="text-green-600">{selected.upgradePreview.next.level}</span>
+                        <span className="text-retro-gb-dark">定員</span>
+                        <span>{selected.upgradePreview.current.capacity}</span>
+                        <span className="text-green-600">{selected.upgradePreview.next.capacity}</span>
+                        <span className="text-retro-gb-dark">成果倍率</span>
+                        <span>x{selected.upgradePreview.current.bonusMultiplier.toFixed(1)}</span>
+                        <span className="text-green-600">x{selected.upgradePreview.next.bonusMultiplier.toFixed(1)}</span>
+                        <span className="text-retro-gb-dark">時間短縮</span>
+                        <span>{formatPercent(selected.upgradePreview.current.speedBonus)}</span>
+                        <span className="text-green-600">{formatPercent(selected.upgradePreview.next.speedBonus)}</span>
+                      </div>
+                      {selected.upgradePreview.newPrograms.length > 0 && (
+                        <div className="font-pixel text-xs text-green-600">
+                          新プログラム: {selected.upgradePreview.newPrograms.map(id => PROGRAM_LABELS[id] ?? id).join('、')}
                         </div>
+                      )}
+                      <div className="font-pixel text-xs text-retro-gb-mid">
+                        費用: ₽{selected.upgradePreview.upgrade.cost.toLocaleString()}
+                        {selected.upgradePreview.upgrade.requirements.playerLevel &&
+                          ` / プレイヤーLv.${selected.upgradePreview.upgrade.requirements.playerLevel}以上`}
+                        {selected.upgradePreview.upgrade.requirements.itemsRequired?.map(item =>
+                          ` / ${getItemDefinition(item.itemId)?.nameJa ?? item.itemId}×${item.quantity}`
+                        )}
                       </div>
-                    </div>
-                  ))}
+                      {training.upgradeLockReason && (
+                        <div className="font-pixel text-xs text-red-600">{training.upgradeLockReason}</div>
+                      )}
+                      <PixelButton
+                        size="sm"
+                        className="w-full"
+                        disabled={!!training.upgradeLockReason || money < selected.upgradePreview.upgrade.cost ||
+                          training.playerLevel < (selected.upgradePreview.upgrade.requirements.playerLevel ?? 0)}
+                        onClick={() => handleResult(upgrade(selected.facility.id))}
+                      >
+                        強化する
+                      </PixelButton>
+                    </>
+                  ) : (
+                    <div className="font-pixel text-xs text-retro-gb-mid">これ以上強化できません</div>
+                  )}
                 </div>
-              </div>
+              </>
             )}
-
-            {/* Start Training Button */}
-            <button
-              onClick={startTraining}
-              disabled={!selectedPokemon || !selectedFacility || !selectedProgram}
-              className={clsx(
-                'w-full py-3 font-pixel text-sm border-2',
-                selectedPokemon && selectedFacility && selectedProgram
-                  ? 'bg-green-500 text-white border-green-600 hover:bg-green-600'
-                  : 'bg-gray-300 text-gray-500 border-gray-400 cursor-not-allowed'
-              )}
-            >
-              訓練開始
-            </button>
           </div>
 
-          {/* Active Training Sessions */}
+          {/* Training Slots */}
           <div className="space-y-4">
-            <h3 className="font-pixel text-md text-retro-gb-dark">進行中の訓練</h3>
-            
-            {activeSessions.length === 0 ? (
+            <h3 className="font-pixel text-md text-retro-gb-dark">訓練の状況</h3>
+
+            {training.slots.length === 0 ? (
               <div className="text-center py-8 bg-gray-50 border border-gray-200">
                 <div className="font-pixel text-sm text-retro-gb-mid">
                   現在進行中の訓練はありません
@@ -275,46 +290,53 @@ export function PokemonTrainingInterface({
               </div>
             ) : (
               <div className="space-y-3">
-                {activeSessions.map(session => {
-                  const sessionPokemon = pokemon.find(p => p.id === session.pokemonId)
-                  const facility = availableFacilities.find(f => f.id === session.facilityId)
-                  const remainingTime = Math.max(0, session.endTime - Date.now())
-                  
-                  return (
-                    <div key={session.id} className="border border-retro-gb-mid p-3 bg-white">
-                      <div className="flex items-center justify-between mb-2">
-                        <div>
-                          <h4 className="font-pixel text-sm text-retro-gb-dark">
-                            {sessionPokemon?.name || 'Unknown'} (Lv.{sessionPokemon?.level})
-                          </h4>
-                          <p className="font-pixel text-xs text-retro-gb-mid">
-                            {facility?.name} - {session.programId}
-                          </p>
-                        </div>
-                        <button
-                          onClick={() => cancelTraining(session.id)}
-                          className="font-pixel text-xs text-red-600 hover:text-red-800"
-                        >
-                          中止
-                        </button>
+                {training.slots.map(({ slot, pokemon, progress, remainingMs }) => (
+                  <div key={slot.id} className="border border-retro-gb-mid p-3 bg-white">
+                    <div className="flex items-center justify-between mb-2">
+                      <div>
+                        <h4 className="font-pixel text-sm text-retro-gb-dark">
+                          {pokemon?.nameJa ?? '???'} (Lv.{pokemon?.level})
+                        </h4>
+                        <p className="font-pixel text-xs text-retro-gb-mid">
+                          {facilityName(slot.facilityId)} - {PROGRAM_LABELS[slot.programId] ?? slot.programId}
+                        </p>
                       </div>
-                      
-                      <div className="space-y-2">
-                        <PixelProgressBar
-                          value={session.progress}
-                          max={100}
-                          color="progress"
-                          showLabel={true}
-                        />
-                        
-                        <div className="flex justify-between font-pixel text-xs text-retro-gb-mid">
-                          <span>残り時間:</span>
-                          <span>{formatTime(remainingTime)}</span>
-                        </div>
+                      <span className={clsx(
+                        'font-pixel text-xs',
+                        slot.status === 'active' ? 'text-green-600' : 'text-retro-gb-mid'
+                      )}>
+                        {STATUS_LABELS[slot.status]}
+                      </span>
+                    </div>
+
+                    <div className="space-y-2">
+                      <PixelProgressBar value={progress * 100} max={100} color="progress" showLabel={true} />
+
+                      <div className="flex justify-between font-pixel text-xs text-retro-gb-mid">
+                        <span>{slot.status === 'active' ? '残り時間:' : '所要時間:'}</span>
+                        <span>{formatRemaining(remainingMs)}</span>
+                      </div>
+
+                      <div className="flex space-x-1">
+                        {slot.status === 'active' && (
+                          <PixelButton size="sm" variant="secondary" onClick={() => handleResult(pause(slot.id))}>
+                            一時停止
+                          </PixelButton>
+                        )}
+                        {slot.status === 'paused' && (
+                          <PixelButton size="sm" variant="secondary" onClick={() => handleResult(resume(slot.id))}>
+                            再開
+                          </PixelButton>
+                        )}
+                        {slot.status !== 'completed' && (
+                          <PixelButton size="sm" variant="secondary" onClick={() => handleResult(cancel(slot.id))}>
+                            {slot.status === 'queued' && slot.remainingMs === undefined ? '予約取消（返金）' : '中止'}
+                          </PixelButton>
+                        )}
                       </div>
                     </div>
-                  )
-                })}
+                  </div>
+                ))}
               </div>
             )}
           </div>
@@ -322,4 +344,4 @@ export function PokemonTrainingInterface({
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
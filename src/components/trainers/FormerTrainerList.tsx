@@ -0,0 +1,39 @@
+'use client'
+
+import { PixelCard } from '@/components/ui/PixelCard'
+import { useEmployment } from '@/lib/game-state/hooks'
+import { DEPARTURE_REASON_LABELS } from '@/lib/game-state/employment'
+import { JOB_DEFINITIONS } from '@/lib/static-data/jobs'
+
+export function FormerTrainerList() {
+  const { employment } = useEmployment()
+  if (!employment) return null
+
+  return (
+    <PixelCard title={`元トレーナー ${employment.formerTrainers.length}`}>
+      {employment.formerTrainers.length === 0 ? (
+        <div className="font-pixel text-sm text-retro-gb-mid">退職したトレーナーはいません</div>
+      ) : (
+        <div className="space-y-2 max-h-60 overflow-y-auto">
+          {employment.formerTrainers.map(({ trainer, reason, leftAt, severance }) => (
+            <div key={`${trainer.id}-${leftAt}`} className="border-b border-retro-gb-mid pb-2 last:border-b-0">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="font-pixel text-sm text-retro-gb-dark">
+                    {trainer.name}（{JOB_DEFINITIONS[trainer.job]?.nameJa ?? trainer.job} Lv.{trainer.level}）
+                  </div>
+                  <div className="font-pixel text-xs text-retro-gb-mid">
+                    {DEPARTURE_REASON_LABELS[reason]}
+                    {severance > 0 && ` - 退職金 ₽${severance.toLocaleString()}`}
+                    {` - 派遣 ${trainer.successfulExpeditions}/${trainer.totalExpeditions}回成功`}
+                  </div>
+                </div>
+                <div className="font-pixel text-xs text-retro-gb-mid">{new Date(leftAt).toLocaleDateString('ja-JP')}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </PixelCard>
+  )
+}
@@ -22,7 +22,8 @@ export function TrainerCard({
       available: { label: '待機中', color: 'bg-green-500' },
       on_expedition: { label: '派遣中', color: 'bg-orange-500' },
       training: { label: '訓練中', color: 'bg-blue-500' },
-      injured: { label: '負傷中', color: 'bg-red-500' }
+      injured: { label: '負傷中', color: 'bg-red-500' },
+      resting: { label: '休養中', color: 'bg-purple-500' }
     }
     
     const config = statusConfig[status as keyof typeof statusConfig] || 
@@ -104,6 +105,41 @@ export function TrainerCard({
             />
           </div>
 
+          {/* 疲労・士気 */}
+          {trainer.condition && (
+            <div className="trainer-card__condition space-y-1">
+              <div className="flex justify-between">
+                <span className="font-pixel text-xs text-retro-gb-mid">疲労</span>
+                <span className={clsx('font-pixel text-xs', trainer.condition.fatigue >= 80 ? 'text-red-600' : 'text-retro-gb-mid')}>
+                  {Math.round(trainer.condition.fatigue)}/100
+                </span>
+              </div>
+              <PixelProgressBar
+                value={trainer.condition.fatigue}
+                max={100}
+                color={trainer.condition.fatigue >= 80 ? 'danger' : 'progress'}
+                showLabel={false}
+              />
+              <div className="flex justify-between">
+                <span className="font-pixel text-xs text-retro-gb-mid">士気</span>
+                <span className="font-pixel text-xs text-retro-gb-mid">
+                  {trainer.condition.morale}/100
+                </span>
+              </div>
+              <PixelProgressBar
+                value={trainer.condition.morale}
+                max={100}
+                color="exp"
+                showLabel={false}
+              />
+              {trainer.condition.burnout >= 0.5 && (
+                <div className="font-pixel text-xs text-red-600">
+                  燃え尽き寸前（派遣の失敗・退職に注意）
+                </div>
+              )}
+            </div>
+          )}
+
           {showParty && (
             <div className="trainer-card__party">
               <div className="flex justify-between items-center">
@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+import { PixelCard } from '@/components/ui/PixelCard'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { useEmployment } from '@/lib/game-state/hooks'
+import { CONTRACT_TERMS, DEFAULT_CONTRACT_DAYS, RENEWAL_WINDOW_DAYS } from '@/lib/game-state/employment'
+
+interface TrainerContractPanelProps {
+  trainerId: string
+  onDismissed?: () => void
+}
+
+export function TrainerContractPanel({ trainerId, onDismissed }: TrainerContractPanelProps) {
+  const { employment, money, renewContract, dismissTrainer } = useEmployment()
+  const [termDays, setTermDays] = useState(DEFAULT_CONTRACT_DAYS)
+  const [offer, setOffer] = useState('')
+  const [confirmDismiss, setConfirmDismiss] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const entry = employment?.contracts.find(c => c.trainer.id === trainerId)
+  if (!entry) return null
+
+  const { trainer, contract, daysLeft, renewalOpen, salaryDemand, severance, resignationChance } = entry
+  const demand = salaryDemand[termDays]
+  const offeredSalary = offer === '' ? demand : Number(offer)
+
+  const handleRenew = () => {
+    const result = renewContract(trainerId, offeredSalary, termDays)
+    setMessage(result.message)
+    if (result.success) setOffer('')
+  }
+
+  const handleDismiss = () => {
+    const result = dismissTrainer(trainerId)
+    setMessage(result.message)
+    setConfirmDismiss(false)
+    if (result.success) onDismissed?.()
+  }
+
+  return (
+    <PixelCard title="雇用契約">
+      <div className="space-y-3">
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <div className="font-pixel text-xs text-retro-gb-mid">契約満了まで</div>
+            <div className={`font-pixel ${daysLeft <= RENEWAL_WINDOW_DAYS ? 'text-orange-600' : 'text-retro-gb-dark'}`}>
+              {contract ? `${daysLeft}日` : '未契約'}
+            </div>
+          </div>
+          <div>
+            <div className="font-pixel text-xs text-retro-gb-mid">更新回数</div>
+            <div className="font-pixel text-retro-gb-dark">{contract?.renewals ?? 0}回</div>
+          </div>
+        </div>
+
+        {message && (
+          <div className="font-pixel text-xs text-retro-gb-dark p-2 bg-retro-gb-light border border-retro-gb-mid">
+            {message}
+          </div>
+        )}
+
+        {resignationChance > 0 && (
+          <div className="font-pixel text-xs text-red-600">
+            士気・信頼度が低く、給与日に退職するおそれがあります（{Math.round(resignationChance * 100)}%）
+          </div>
+        )}
+
+        {renewalOpen ? (
+          <div className="border border-retro-gb-mid p-2 space-y-2">
+            <div className="font-pixel text-xs text-retro-gb-mid">更新交渉（要求月給 ₽{demand.toLocaleString()}）</div>
+            <div className="flex gap-2">
+              {CONTRACT_TERMS.map(days => (
+                <PixelButton
+                  key={days}
+                  size="sm"
+                  variant={termDays === days ? 'primary' : 'secondary'}
+                  onClick={() => setTermDays(days)}
+                >
+                  {days}日
+                </PixelButton>
+              ))}
+            </div>
+            <div className="flex gap-2 items-center">
+              <input
+                type="number"
+                min={0}
+                step={100}
+                value={offer}
+                placeholder={String(demand)}
+                onChange={e => setOffer(e.target.value)}
+                className="flex-1 font-pixel text-sm border-2 border-retro-gb-dark bg-retro-gb-lightest px-2 py-1"
+              />
+              <PixelButton size="sm" onClick={handleRenew} disabled={!(offeredSalary > 0)}>
+                提示する
+              </PixelButton>
+            </div>
+            <div className="font-pixel text-xs text-retro-gb-mid">
+              要求を下回る提示は断られ、士気が下がります（信頼度の高いトレーナーは多少の減額に応じます）
+            </div>
+          </div>
+        ) : (
+          <div className="font-pixel text-xs text-retro-gb-mid">
+            契約満了の{RENEWAL_WINDOW_DAYS}日前から更新交渉ができます
+          </div>
+        )}
+
+        <div className="border-t border-retro-gb-mid pt-2 space-y-2">
+          <div className="flex justify-between font-pixel text-xs">
+            <span className="text-retro-gb-mid">解雇時の退職金</span>
+            <span className={money >= severance ? 'text-retro-gb-dark' : 'text-red-600'}>₽{severance.toLocaleString()}</span>
+          </div>
+          {confirmDismiss ? (
+            <div className="flex gap-2">
+              <PixelButton size="sm" variant="secondary" className="flex-1" onClick={() => setConfirmDismiss(false)}>
+                やめる
+              </PixelButton>
+              <PixelButton size="sm" className="flex-1" onClick={handleDismiss}>
+                {trainer.name}を解雇する
+              </PixelButton>
+            </div>
+          ) : (
+            <PixelButton
+              size="sm"
+              variant="secondary"
+              className="w-full"
+              disabled={trainer.status === 'on_expedition'}
+              onClick={() => setConfirmDismiss(true)}
+            >
+              解雇する
+            </PixelButton>
+          )}
+        </div>
+      </div>
+    </PixelCard>
+  )
+}
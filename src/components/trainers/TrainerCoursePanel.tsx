@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { PixelCard } from '@/components/ui/PixelCard'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
+import { useTrainerCourses, useTrainers } from '@/lib/game-state/hooks'
+import { SKILL_LABELS, PERSONALITY_LABELS } from '@/lib/game-state/courses'
+import type { TrainingCourseDefinition } from '@/lib/static-data/types'
+import type { Trainer } from '@/lib/game-state/types'
+
+interface TrainerCoursePanelProps {
+  trainerId: string
+}
+
+const formatRemaining = (ms: number): string => {
+  const totalMinutes = Math.ceil(ms / 60000)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}時間${minutes}分` : `${minutes}分`
+}
+
+const formatGains = (course: TrainingCourseDefinition): string => {
+  const skills = (Object.entries(course.skillGains) as [keyof Trainer['skills'], number][])
+    .map(([key, value]) => `${SKILL_LABELS[key]} +${value}`)
+  const personality = (Object.entries(course.personalityGains) as [keyof Trainer['personality'], number][])
+    .map(([key, value]) => `${PERSONALITY_LABELS[key]} ${value > 0 ? '+' : ''}${value}`)
+  return [...skills, ...personality].join(' / ')
+}
+
+export function TrainerCoursePanel({ trainerId }: TrainerCoursePanelProps) {
+  const { training, enroll, cancel } = useTrainerCourses()
+  const { actions } = useTrainers()
+  const [message, setMessage] = useState<string | null>(null)
+
+  const trainer = actions.getById(trainerId)
+  if (!trainer || !training) return null
+
+  const enrollment = training.enrollments.find(e => e.trainer.id === trainerId)
+
+  return (
+    <PixelCard title={`研修（訓練場 ${training.inUse}/${training.capacity}人）`}>
+      <div className="space-y-3">
+        {message && (
+          <div className="font-pixel text-xs text-retro-gb-dark p-2 bg-retro-gb-light border border-retro-gb-mid">
+            {message}
+          </div>
+        )}
+
+        {enrollment ? (
+          <div className="space-y-2">
+            <div className="flex justify-between font-pixel text-sm text-retro-gb-dark">
+              <span>{enrollment.course?.nameJa ?? enrollment.enrollment.courseId}を受講中</span>
+              <span className="text-xs text-retro-gb-mid">修了まで {formatRemaining(enrollment.remainingMs)}</span>
+            </div>
+            <PixelProgressBar value={enrollment.progress * 100} max={100} color="progress" showLabel={false} />
+            <PixelButton
+              size="sm"
+              variant="secondary"
+              className="w-full"
+              onClick={() => setMessage(cancel(trainerId).message)}
+            >
+              研修を中断する（受講料は戻りません）
+            </PixelButton>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {training.lockReason && (
+              <div className="font-pixel text-xs text-red-600">{training.lockReason}</div>
+            )}
+            {training.courses.map(course => {
+              const blocked = training.getEnrollmentError(trainer, course)
+              return (
+                <div key={course.id} className="border-b border-retro-gb-light pb-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-pixel text-sm text-retro-gb-dark">
+                        {course.nameJa}
+                        <span className="text-xs text-retro-gb-mid"> {course.durationHours}時間・Lv.{course.minLevel}〜</span>
+                      </div>
+                      <div className="font-pixel text-xs text-retro-gb-mid">{course.description}</div>
+                      <div className="font-pixel text-xs text-green-600">{formatGains(course)}</div>
+                    </div>
+                    <PixelButton
+                      size="sm"
+                      disabled={!!blocked || !!training.lockReason}
+                      onClick={() => setMessage(enroll(trainerId, course.id).message)}
+                    >
+                      ₽{course.cost.toLocaleString()}
+                    </PixelButton>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </PixelCard>
+  )
+}
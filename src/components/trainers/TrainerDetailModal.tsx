@@ -5,6 +5,11 @@ import { useRouter } from 'next/navigation'
 import { PixelCard } from '@/components/ui/PixelCard'
 import { PixelButton } from '@/components/ui/PixelButton'
 import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
+import { TrainerPartyEditor } from './TrainerPartyEditor'
+import { TrainerCoursePanel } from './TrainerCoursePanel'
+import { TrainerContractPanel } from './TrainerContractPanel'
+import { TrainerSkillTreePanel } from './TrainerSkillTreePanel'
+import { FormerTrainerList } from './FormerTrainerList'
 import { TrainerSummary } from '@/types/trainer'
 import { useGameData, useNotifications } from '@/contexts/GameContext'
 import { clsx } from 'clsx'
@@ -16,7 +21,7 @@ interface TrainerDetailModalProps {
 }
 
 export function TrainerDetailModal({ trainer, isOpen, onClose }: TrainerDetailModalProps) {
-  const [selectedTab, setSelectedTab] = useState<'profile' | 'skills' | 'equipment' | 'history'>('profile')
+  const [selectedTab, setSelectedTab] = useState<'profile' | 'party' | 'skills' | 'equipment' | 'history'>('profile')
   const { addNotification } = useNotifications()
   const router = useRouter()
 
@@ -52,53 +57,6 @@ export function TrainerDetailModal({ trainer, isOpen, onClose }: TrainerDetailMo
     }
   }
 
-  const handleTraining = async () => {
-    try {
-      const { gameController } = await import('@/lib/game-logic')
-      
-      if (trainer.status !== 'available') {
-        addNotification({
-          type: 'error',
-          message: 'このトレーナーは現在利用できません'
-        })
-        return
-      }
-
-      // 簡易的な訓練実装
-      const trainingCost = 1000 + (trainer.job.level * 200)
-      const canAfford = gameController.checkCanAfford(trainingCost)
-      
-      if (!canAfford) {
-        addNotification({
-          type: 'error',
-          message: `訓練費が不足しています。必要: ₽${trainingCost.toLocaleString()}`
-        })
-        return
-      }
-
-      const paymentResult = gameController.recordTransaction(
-        'expense',
-        'training',
-        trainingCost,
-        `${trainer.name}の訓練費`
-      )
-      
-      if (paymentResult) {
-        addNotification({
-          type: 'success',
-          message: `${trainer.name}の訓練を開始しました！（費用: ₽${trainingCost.toLocaleString()}）`
-        })
-        onClose()
-      }
-    } catch (error) {
-      console.error('訓練処理エラー:', error)
-      addNotification({
-        type: 'error',
-        message: '訓練処理中にエラーが発生しました'
-      })
-    }
-  }
-
   const getStatusText = (status: string) => {
     const statusMap = {
       available: { text: '待機中', color: 'text-green-600' },
@@ -141,6 +99,7 @@ export function TrainerDetailModal({ trainer, isOpen, onClose }: TrainerDetailMo
           <div className="flex space-x-2">
             {[
               { key: 'profile', label: 'プロフィール' },
+              { key: 'party', label: '手持ち' },
               { key: 'skills', label: 'スキル' },
               { key: 'equipment', label: '装備' },
               { key: 'history', label: '履歴' }
@@ -225,14 +184,6 @@ export function TrainerDetailModal({ trainer, isOpen, onClose }: TrainerDetailMo
                   >
                     派遣に送る
                   </PixelButton>
-                  <PixelButton 
-                    variant="secondary" 
-                    className="w-full"
-                    disabled={trainer.status !== 'available'}
-                    onClick={handleTraining}
-                  >
-                    訓練を行う
-                  </PixelButton>
                   <PixelButton 
                     variant="secondary" 
                     className="w-full"
@@ -248,29 +199,41 @@ export function TrainerDetailModal({ trainer, isOpen, onClose }: TrainerDetailMo
                   </PixelButton>
                 </div>
               </PixelCard>
+
+              <TrainerCoursePanel trainerId={trainer.id} />
+
+              <TrainerContractPanel trainerId={trainer.id} onDismissed={onClose} />
             </>
           )}
 
+          {selectedTab === 'party' && (
+            <TrainerPartyEditor trainerId={trainer.id} />
+          )}
+
           {selectedTab === 'skills' && (
-            <PixelCard title="専門スキル">
-              <div className="space-y-3">
-                {Object.entries(trainer.job.specializations).map(([skill, multiplier]) => (
-                  <div key={skill} className="flex justify-between items-center">
-                    <span className="font-pixel text-sm text-retro-gb-dark capitalize">{skill}</span>
-                    <div className="flex items-center space-x-2">
-                      <span className="font-pixel text-sm text-retro-gb-dark">x{multiplier.toFixed(2)}</span>
-                      <PixelProgressBar
-                        value={(multiplier - 0.5) * 100}
-                        max={100}
-                        color={multiplier > 1.1 ? 'exp' : 'progress'}
-                        showLabel={false}
-                        className="w-20"
-                      />
+            <>
+              <PixelCard title="専門スキル">
+                <div className="space-y-3">
+                  {Object.entries(trainer.job.specializations).map(([skill, multiplier]) => (
+                    <div key={skill} className="flex justify-between items-center">
+                      <span className="font-pixel text-sm text-retro-gb-dark capitalize">{skill}</span>
+                      <div className="flex items-center space-x-2">
+                        <span className="font-pixel text-sm text-retro-gb-dark">x{multiplier.toFixed(2)}</span>
+                        <PixelProgressBar
+                          value={(multiplier - 0.5) * 100}
+                          max={100}
+                          color={multiplier > 1.1 ? 'exp' : 'progress'}
+                          showLabel={false}
+                          className="w-20"
+                        />
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
-            </PixelCard>
+                  ))}
+                </div>
+              </PixelCard>
+
+              <TrainerSkillTreePanel trainerId={trainer.id} />
+            </>
           )}
 
           {selectedTab === 'equipment' && (
@@ -305,6 +268,10 @@ export function TrainerDetailModal({ trainer, isOpen, onClose }: TrainerDetailMo
               </div>
             </PixelCard>
           )}
+
+          {selectedTab === 'history' && (
+            <FormerTrainerList />
+          )}
         </div>
       </div>
     </div>
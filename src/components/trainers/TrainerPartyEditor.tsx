@@ -0,0 +1,114 @@
+'use client'
+
+import { useState } from 'react'
+import { PixelCard } from '@/components/ui/PixelCard'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { PixelProgressBar } from '@/components/ui/PixelProgressBar'
+import { useGameState } from '@/lib/game-state/hooks'
+import { MAX_PARTY_SIZE, getTrainerParty, findPartyOwner, getPokemonTypes } from '@/lib/expedition/ExpeditionParty'
+import type { Pokemon } from '@/lib/game-state/types'
+
+interface TrainerPartyEditorProps {
+  trainerId: string
+}
+
+const STATUS_LABELS: Record<Pokemon['status'], string> = {
+  healthy: '元気',
+  injured: 'ひんし',
+  sick: '病気',
+  training: '訓練中'
+}
+
+export function TrainerPartyEditor({ trainerId }: TrainerPartyEditorProps) {
+  const { gameData, actions } = useGameState()
+  const [message, setMessage] = useState<string | null>(null)
+
+  const trainer = gameData?.trainers.find(t => t.id === trainerId)
+  if (!gameData || !trainer) return null
+
+  const party = getTrainerParty(trainer, gameData.pokemon)
+  const partyIds = party.map(p => p.id)
+  const candidates = gameData.pokemon.filter(p =>
+    !partyIds.includes(p.id) && p.status !== 'training' && !findPartyOwner(gameData.trainers, p.id)
+  )
+  const editable = trainer.status === 'available'
+
+  const assign = (pokemonIds: string[]) => {
+    setMessage(actions.assignTrainerParty(trainerId, pokemonIds).message)
+  }
+
+  return (
+    <div className="space-y-4">
+      <PixelCard title={`手持ち ${party.length}/${MAX_PARTY_SIZE}`}>
+        <div className="space-y-2">
+          {!editable && (
+            <div className="font-pixel text-xs text-orange-600">派遣中などで手持ちを入れ替えられません</div>
+          )}
+          {message && (
+            <div className="font-pixel text-xs text-retro-gb-dark p-2 bg-retro-gb-light border border-retro-gb-mid">
+              {message}
+            </div>
+          )}
+
+          {party.length === 0 ? (
+            <div className="font-pixel text-sm text-retro-gb-mid">
+              手持ちがいません（捕獲前バトルはトレーナーの相棒が戦います）
+            </div>
+          ) : (
+            party.map(pokemon => (
+              <div key={pokemon.id} className="flex items-center justify-between border-b border-retro-gb-light pb-2">
+                <div className="flex-1 space-y-1">
+                  <div className="font-pixel text-sm text-retro-gb-dark">
+                    {pokemon.nameJa} Lv.{pokemon.level}
+                    <span className="text-xs text-retro-gb-mid"> {getPokemonTypes(pokemon.speciesId).join('/')}</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <PixelProgressBar value={pokemon.hp} max={pokemon.maxHp} color="hp" showLabel={false} className="w-24" />
+                    <span className={`font-pixel text-xs ${pokemon.status === 'healthy' ? 'text-retro-gb-mid' : 'text-red-600'}`}>
+                      {pokemon.hp}/{pokemon.maxHp} {STATUS_LABELS[pokemon.status]}
+                    </span>
+                  </div>
+                </div>
+                <PixelButton
+                  size="sm"
+                  variant="secondary"
+                  disabled={!editable}
+                  onClick={() => assign(partyIds.filter(id => id !== pokemon.id))}
+                >
+                  外す
+                </PixelButton>
+              </div>
+            ))
+          )}
+          <div className="font-pixel text-xs text-retro-gb-mid">
+            元気な手持ちだけが派遣に同行し、タイプ相性とレベルで成功度が変わります
+          </div>
+        </div>
+      </PixelCard>
+
+      <PixelCard title="手持ちに加える">
+        {candidates.length === 0 ? (
+          <div className="font-pixel text-sm text-retro-gb-mid">加えられるポケモンがいません</div>
+        ) : (
+          <div className="space-y-2 max-h-60 overflow-y-auto">
+            {candidates.map(pokemon => (
+              <div key={pokemon.id} className="flex items-center justify-between font-pixel text-xs">
+                <span className="text-retro-gb-dark">
+                  {pokemon.nameJa} Lv.{pokemon.level}
+                  <span className="text-retro-gb-mid"> {getPokemonTypes(pokemon.speciesId).join('/')}</span>
+                </span>
+                <PixelButton
+                  size="sm"
+                  disabled={!editable || party.length >= MAX_PARTY_SIZE}
+                  onClick={() => assign([...partyIds, pokemon.id])}
+                >
+                  加える
+                </PixelButton>
+              </div>
+            ))}
+          </div>
+        )}
+      </PixelCard>
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import { PixelCard } from '@/components/ui/PixelCard'
+import { PixelButton } from '@/components/ui/PixelButton'
+import { useTrainers } from '@/lib/game-state/hooks'
+import {
+  ABILITY_EFFECT_LABELS,
+  SPECIALIZATION_LEVEL,
+  getAvailableSkillPoints,
+  getTrainerAbilityEffects,
+  validateAbilityUnlock
+} from '@/lib/game-state/skills'
+import { getSkillTree, getSkillNode } from '@/lib/static-data/skill-trees'
+import type { AbilityEffects } from '@/lib/static-data/types'
+
+interface TrainerSkillTreePanelProps {
+  trainerId: string
+}
+
+const formatEffects = (effects: AbilityEffects): string => {
+  return (Object.entries(effects) as [keyof AbilityEffects, number][])
+    .filter(([, value]) => value > 0)
+    .map(([key, value]) => `${ABILITY_EFFECT_LABELS[key]} +${Math.round(value * 100)}%`)
+    .join(' / ')
+}
+
+export function TrainerSkillTreePanel({ trainerId }: TrainerSkillTreePanelProps) {
+  const { actions } = useTrainers()
+  const [message, setMessage] = useState<string | null>(null)
+
+  const trainer = actions.getById(trainerId)
+  if (!trainer) return null
+
+  const tree = getSkillTree(trainer.job)
+  const unlocked = trainer.unlockedAbilities ?? []
+  const points = getAvailableSkillPoints(trainer)
+  const totals = formatEffects(getTrainerAbilityEffects(trainer))
+
+  return (
+    <PixelCard title={`スキルツリー（残り ${points}pt）`}>
+      <div className="space-y-3">
+        <div className="font-pixel text-xs text-retro-gb-mid">
+          {totals || '習得済みの能力はありません'}
+        </div>
+        {message && (
+          <div className="font-pixel text-xs text-retro-gb-dark p-2 bg-retro-gb-light border border-retro-gb-mid">
+            {message}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {tree.nodes.map(node => {
+            const isUnlocked = unlocked.includes(node.id)
+            const blocked = validateAbilityUnlock(trainer, node.id)
+
+            return (
+              <div key={node.id} className="border-b border-retro-gb-light pb-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-pixel text-sm text-retro-gb-dark">
+                      {isUnlocked ? '★ ' : ''}{node.nameJa}
+                    </div>
+                    <div className="font-pixel text-xs text-retro-gb-mid">{node.description}</div>
+                    <div className="font-pixel text-xs text-green-600">{formatEffects(node.effects)}</div>
+                    {node.requires.length > 0 && (
+                      <div className="font-pixel text-xs text-retro-gb-mid">
+                        前提: {node.requires.map(id => getSkillNode(id)?.nameJa ?? id).join('・')}
+                      </div>
+                    )}
+                  </div>
+                  {!isUnlocked && (
+                    <PixelButton
+                      size="sm"
+                      disabled={!!blocked}
+                      onClick={() => setMessage(actions.unlockAbility(trainerId, node.id).message)}
+                    >
+                      習得 {node.cost}pt
+                    </PixelButton>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <div className="border border-retro-gb-mid p-2 space-y-2">
+          <div className="font-pixel text-xs text-retro-gb-mid">
+            専門分野（Lv.{SPECIALIZATION_LEVEL}から1つ選べます。選んだ後は変更できません）
+          </div>
+          {tree.specializations.map(specialization => {
+            const isChosen = trainer.specialization === specialization.id
+            return (
+              <div key={specialization.id} className="flex items-center justify-between">
+                <div>
+                  <div className="font-pixel text-sm text-retro-gb-dark">
+                    {isChosen ? '★ ' : ''}{specialization.nameJa}
+                  </div>
+                  <div className="font-pixel text-xs text-retro-gb-mid">{specialization.description}</div>
+                  <div className="font-pixel text-xs text-green-600">{formatEffects(specialization.effects)}</div>
+                </div>
+                {!trainer.specialization && (
+                  <PixelButton
+                    size="sm"
+                    variant="secondary"
+                    disabled={trainer.level < SPECIALIZATION_LEVEL}
+                    onClick={() => setMessage(actions.specialize(trainerId, specialization.id).message)}
+                  >
+                    選択
+                  </PixelButton>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </PixelCard>
+  )
+}
@@ -0,0 +1,26 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useGameState } from '@/lib/game-state/hooks'
+import { describeCourseGains } from '@/lib/game-state/courses'
+import { useNotifications } from '@/contexts/GameContext'
+
+/**
+ * 研修の修了報告を通知に流す（画面には何も描画しない）
+ */
+export function TrainingCompletionNotifier() {
+  const { gameData, manager } = useGameState()
+  const { addNotification } = useNotifications()
+
+  useEffect(() => {
+    manager.takeTrainingReports().forEach(report => {
+      const levelUp = report.levelsGained > 0 ? '（レベルアップ！）' : ''
+      addNotification({
+        type: 'success',
+        message: `🎓 ${report.trainerName}が${report.courseName}を修了: ${describeCourseGains(report.gains)}${levelUp}`
+      })
+    })
+  }, [gameData, manager, addNotification])
+
+  return null
+}
@@ -5,6 +5,7 @@
  */
 
 import { supabase } from './supabase'
+import { FinancialLedger } from './game-logic/financial-ledger'
 
 export interface EconomyAnalytics {
   // 基本統計
@@ -347,41 +348,27 @@ export class EconomyAnalyzer {
    * 取引データを分析
    */
   private analyzeTransactions(transactions: any[]): EconomyAnalytics {
-    const income = transactions.filter(t => t.type === 'income')
-    const expenses = transactions.filter(t => t.type === 'expense')
+    const ledger = this.createLedger(transactions)
+    const summary = ledger.getSummary()
     
-    const totalIncome = income.reduce((sum, t) => sum + t.amount, 0)
-    const totalExpenses = expenses.reduce((sum, t) => sum + t.amount, 0)
-    const netProfit = totalIncome - totalExpenses
+    const totalIncome = summary.income
+    const totalExpenses = summary.expenses
+    const netProfit = summary.net
     const profitMargin = totalIncome > 0 ? (netProfit / totalIncome) * 100 : 0
     
     // カテゴリ別分析
-    const categoryBreakdown: EconomyAnalytics['categoryBreakdown'] = {}
-    const allCategories = Array.from(new Set([...income.map(t => t.category), ...expenses.map(t => t.category)]))
-    
-    for (const category of allCategories) {
-      const categoryIncome = income.filter(t => t.category === category).reduce((sum, t) => sum + t.amount, 0)
-      const categoryExpenses = expenses.filter(t => t.category === category).reduce((sum, t) => sum + t.amount, 0)
-      
-      categoryBreakdown[category] = {
-        income: categoryIncome,
-        expenses: categoryExpenses,
-        net: categoryIncome - categoryExpenses,
-        transactionCount: income.filter(t => t.category === category).length + 
-                         expenses.filter(t => t.category === category).length
-      }
-    }
+    const categoryBreakdown: EconomyAnalytics['categoryBreakdown'] = summary.byCategory
     
     // 日次平均
-    const days = transactions.length > 0 ? this.calculateDaysSpanned(transactions) : 1
+    const days = Math.max(1, ledger.getBuckets('day').length)
     const dailyAverages = {
       income: totalIncome / days,
       expenses: totalExpenses / days,
       profit: netProfit / days
     }
     
-    // トレンド分析
-    const trend = this.calculateTrend(transactions)
+    // トレンド分析（取引期間の日次収支の前半と後半を比較）
+    const trend = this.calculateTrend(ledger)
     
     // 予測
     const projections = {
@@ -404,42 +391,23 @@ export class EconomyAnalyzer {
     }
   }
   
-  private calculateTrend(transactions: any[]): EconomyAnalytics['trend'] {
-    if (transactions.length < 14) {
-      return { direction: 'stable', rate: 0, confidence: 0 }
-    }
-    
-    const midpoint = Math.floor(transactions.length / 2)
-    const firstHalf = transactions.slice(0, midpoint)
-    const secondHalf = transactions.slice(midpoint)
-    
-    const firstHalfProfit = this.calculateNetProfit(firstHalf)
-    const secondHalfProfit = this.calculateNetProfit(secondHalf)
-    
-    const change = secondHalfProfit - firstHalfProfit
-    const rate = firstHalfProfit !== 0 ? (change / Math.abs(firstHalfProfit)) * 100 : 0
-    
-    return {
-      direction: rate > 5 ? 'improving' : rate < -5 ? 'declining' : 'stable',
-      rate: Math.abs(rate),
-      confidence: Math.min(transactions.length / 30 * 100, 100) // より多いデータほど信頼性高
-    }
+  private createLedger(transactions: any[]): FinancialLedger {
+    return new FinancialLedger(transactions.map(t => ({
+      type: t.type,
+      category: t.category,
+      amount: t.amount,
+      timestamp: t.created_at
+    })))
   }
   
-  private calculateNetProfit(transactions: any[]): number {
-    return transactions.reduce((sum, t) => {
-      return sum + (t.type === 'income' ? t.amount : -t.amount)
-    }, 0)
-  }
-  
-  private calculateDaysSpanned(transactions: any[]): number {
-    if (transactions.length === 0) return 1
-    
-    const dates = transactions.map(t => new Date(t.created_at))
-    const minDate = new Date(Math.min(...dates.map(d => d.getTime())))
-    const maxDate = new Date(Math.max(...dates.map(d => d.getTime())))
+  private calculateTrend(ledger: FinancialLedger): EconomyAnalytics['trend'] {
+    const entries = ledger.getEntries()
+    if (entries.length < 14) {
+      return { direction: 'stable', rate: 0, confidence: 0 }
+    }
     
-    return Math.max(1, Math.ceil((maxDate.getTime() - minDate.getTime()) / (24 * 60 * 60 * 1000)))
+    const days = ledger.getBuckets('day').length
+    return ledger.getTrend('day', days, new Date(entries[entries.length - 1].timestamp))
   }
   
   private getTopCategory(breakdown: EconomyAnalytics['categoryBreakdown'], type: 'income' | 'expenses'): string {
@@ -462,29 +430,14 @@ export class EconomyAnalyzer {
   }
   
   private calculateDailyTrends(transactions: any[], startDate: Date, endDate: Date): Array<{ date: string; income: number; expenses: number; net: number }> {
-    const trends: Array<{ date: string; income: number; expenses: number; net: number }> = []
-    const current = new Date(startDate)
-    
-    while (current <= endDate) {
-      const dateStr = current.toISOString().split('T')[0]
-      const dayTransactions = transactions.filter(t => 
-        t.created_at.split('T')[0] === dateStr
-      )
-      
-      const income = dayTransactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0)
-      const expenses = dayTransactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0)
-      
-      trends.push({
-        date: dateStr,
-        income,
-        expenses,
-        net: income - expenses
-      })
-      
-      current.setDate(current.getDate() + 1)
-    }
-    
-    return trends
+    return this.createLedger(transactions)
+      .getBuckets('day', startDate, new Date(endDate.getTime() + 1))
+      .map(bucket => ({
+        date: bucket.key,
+        income: bucket.income,
+        expenses: bucket.expenses,
+        net: bucket.net
+      }))
   }
   
   private generateRecommendations(analytics: EconomyAnalytics): string[] {
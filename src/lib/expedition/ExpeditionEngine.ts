@@ -6,15 +6,28 @@
 import type { Expedition, ExpeditionEvent, Trainer, Pokemon, Intervention, Item } from '@/lib/game-state/types'
 import { realtimeManager } from '@/lib/real-time/RealtimeManager'
 import { performanceMonitor, memoize, throttle } from '@/lib/performance/PerformanceOptimizer'
+import { GameRandom, hashSeed } from '@/lib/game-logic/random-system'
+import { worldClock, type LocationWeather } from '@/lib/game-logic/world-clock'
+import {
+  createExpeditionRandomStreams,
+  determineExpeditionStage,
+  calculateStageRisk,
+  getStageEventMultiplier,
+  type ExpeditionRandomStreams,
+  type ExpeditionStage,
+  type ExpeditionRiskLevel
+} from './ExpeditionSimulator'
+import { evaluateTeam, createTeamTrainer } from './ExpeditionTeam'
 
 export interface ExpeditionProgress {
   expeditionId: string
-  currentStage: 'preparation' | 'early' | 'middle' | 'late' | 'completion'
+  locationId: number
+  currentStage: ExpeditionStage
   stageProgress: number // 0.0 to 1.0 within current stage
   overallProgress: number // 0.0 to 1.0 total
   nextEventTime?: number // timestamp
   estimatedEndTime: number // timestamp
-  riskLevel: 'low' | 'medium' | 'high' | 'critical'
+  riskLevel: ExpeditionRiskLevel
 }
 
 export interface ExpeditionOutcome {
@@ -36,6 +49,7 @@ export class ExpeditionEngine {
   private activeExpeditions = new Map<string, ExpeditionProgress>()
   private progressTimers = new Map<string, NodeJS.Timeout>()
   private eventQueue = new Map<string, ExpeditionEvent[]>()
+  private randomStreams = new Map<string, ExpeditionRandomStreams>()
   private lastUpdate = Date.now()
   
   private constructor() {
@@ -50,25 +64,29 @@ export class ExpeditionEngine {
   }
   
   /**
-   * 派遣を開始
+   * 派遣を開始（チーム派遣ではメンバー全員を渡す、先頭がリーダー）
    */
-  startExpedition(expedition: Expedition, trainer: Trainer): ExpeditionProgress {
+  startExpedition(expedition: Expedition, team: Trainer[]): ExpeditionProgress {
     const progress: ExpeditionProgress = {
       expeditionId: expedition.id,
+      locationId: expedition.locationId,
       currentStage: 'preparation',
       stageProgress: 0,
       overallProgress: 0,
       estimatedEndTime: new Date(expedition.estimatedEndTime).getTime(),
-      riskLevel: this.calculateInitialRisk(expedition, trainer)
+      riskLevel: this.calculateInitialRisk(expedition, team)
     }
     
+    const streams = createExpeditionRandomStreams(expedition.seed)
+    
     this.activeExpeditions.set(expedition.id, progress)
     this.eventQueue.set(expedition.id, [])
+    this.randomStreams.set(expedition.id, streams)
     
     // 最初のイベント時間を設定
-    progress.nextEventTime = Date.now() + this.calculateNextEventDelay(expedition, trainer, 'preparation')
+    progress.nextEventTime = Date.now() + this.calculateNextEventDelay('preparation', streams.schedule)
     
-    console.log(`📊 派遣開始: ${trainer.name} → ${expedition.locationId} (${expedition.targetDuration}時間)`)
+    console.log(`📊 派遣開始: ${createTeamTrainer(team).name} → ${expedition.locationId} (${expedition.targetDuration}時間, seed: ${expedition.seed})`)
     
     // リアルタイム通知
     realtimeManager.emitDataChange({
@@ -88,6 +106,7 @@ export class ExpeditionEngine {
   stopExpedition(expeditionId: string, reason: 'recall' | 'complete' | 'failed' = 'recall'): void {
     this.activeExpeditions.delete(expeditionId)
     this.eventQueue.delete(expeditionId)
+    this.randomStreams.delete(expeditionId)
     
     const timer = this.progressTimers.get(expeditionId)
     if (timer) {
@@ -113,6 +132,13 @@ export class ExpeditionEngine {
     return this.activeExpeditions.get(expeditionId) || null
   }
   
+  /**
+   * 派遣の乱数列を取得（イベント・報酬・捕獲システムへ受け渡す）
+   */
+  getRandomStreams(expeditionId: string): ExpeditionRandomStreams | null {
+    return this.randomStreams.get(expeditionId) || null
+  }
+  
   /**
    * 全ての進行中派遣を取得
    */
@@ -166,7 +192,7 @@ export class ExpeditionEngine {
       progress.overallProgress = newOverallProgress
       
       // ステージの判定
-      const newStage = this.determineStage(newOverallProgress)
+      const newStage = determineExpeditionStage(newOverallProgress)
       if (newStage !== progress.currentStage) {
         progress.currentStage = newStage
         progress.stageProgress = 0
@@ -177,7 +203,7 @@ export class ExpeditionEngine {
       progress.stageProgress = this.calculateStageProgress(newOverallProgress, newStage)
       
       // リスクレベルの再評価
-      progress.riskLevel = this.calculateCurrentRisk(progress)
+      progress.riskLevel = calculateStageRisk(progress.currentStage, progress.overallProgress)
       
       // イベント発生チェック
       if (progress.nextEventTime && now >= progress.nextEventTime) {
@@ -205,17 +231,6 @@ export class ExpeditionEngine {
     }
   }
   
-  /**
-   * 進行率からステージを判定
-   */
-  private determineStage(progress: number): ExpeditionProgress['currentStage'] {
-    if (progress < 0.1) return 'preparation'
-    if (progress < 0.3) return 'early'
-    if (progress < 0.7) return 'middle'
-    if (progress < 0.95) return 'late'
-    return 'completion'
-  }
-  
   /**
    * ステージ内進行率を計算
    */
@@ -237,14 +252,15 @@ export class ExpeditionEngine {
   }
   
   /**
-   * 初期リスクレベルを計算
+   * 初期リスクレベルを計算（チームの相性と職業の補完性が良いほど下がる）
    */
-  private calculateInitialRisk(expedition: Expedition, trainer: Trainer): ExpeditionProgress['riskLevel'] {
+  private calculateInitialRisk(expedition: Expedition, team: Trainer[]): ExpeditionProgress['riskLevel'] {
+    const trainer = createTeamTrainer(team)
     const locationRisk = this.getLocationRiskLevel(expedition.locationId)
     const trainerExperience = trainer.level + (trainer.totalExpeditions / 10)
     const modeRisk = this.getModeRiskMultiplier(expedition.mode)
     
-    const baseRisk = locationRisk * modeRisk
+    const baseRisk = locationRisk * modeRisk / evaluateTeam(team).successModifier
     const experienceReduction = Math.min(trainerExperience * 0.1, 0.5)
     const finalRisk = baseRisk - experienceReduction
     
@@ -254,70 +270,23 @@ export class ExpeditionEngine {
     return 'critical'
   }
   
-  /**
-   * 現在のリスクレベルを計算
-   */
-  private calculateCurrentRisk(progress: ExpeditionProgress): ExpeditionProgress['riskLevel'] {
-    let baseRisk = 0.4 // ベースリスク
-    
-    // ステージによるリスク変動
-    switch (progress.currentStage) {
-      case 'preparation':
-        baseRisk *= 0.3
-        break
-      case 'early':
-        baseRisk *= 0.7
-        break
-      case 'middle':
-        baseRisk *= 1.2
-        break
-      case 'late':
-        baseRisk *= 1.5
-        break
-      case 'completion':
-        baseRisk *= 0.8
-        break
-    }
-    
-    // 進行率による変動
-    baseRisk += Math.sin(progress.overallProgress * Math.PI) * 0.3
-    
-    if (baseRisk < 0.3) return 'low'
-    if (baseRisk < 0.6) return 'medium'
-    if (baseRisk < 0.8) return 'high'
-    return 'critical'
-  }
-  
   /**
    * 次のイベント発生までの遅延時間を計算
    */
-  private calculateNextEventDelay(expedition: Expedition, trainer: Trainer, stage: string): number {
+  private calculateNextEventDelay(stage: string, random: GameRandom): number {
     const baseDelay = 30000 // 30秒
-    const stageMultiplier = this.getStageEventMultiplier(stage)
-    const randomFactor = 0.5 + Math.random()
+    const stageMultiplier = getStageEventMultiplier(stage)
+    const randomFactor = 0.5 + random.next()
     
     return baseDelay * stageMultiplier * randomFactor
   }
   
-  /**
-   * ステージごとのイベント発生頻度倍率
-   */
-  private getStageEventMultiplier(stage: string): number {
-    switch (stage) {
-      case 'preparation': return 3.0
-      case 'early': return 2.0
-      case 'middle': return 1.0
-      case 'late': return 1.5
-      case 'completion': return 2.5
-      default: return 1.0
-    }
-  }
-  
   /**
    * スケジュールされたイベントを処理
    */
   private processScheduledEvent(expeditionId: string, progress: ExpeditionProgress): void {
-    const event = this.generateEvent(expeditionId, progress)
+    const streams = this.getStreamsOrFallback(expeditionId)
+    const event = this.generateEvent(progress, streams.events)
     if (event) {
       const eventQueue = this.eventQueue.get(expeditionId) || []
       eventQueue.push(event)
@@ -336,23 +305,23 @@ export class ExpeditionEngine {
     }
     
     // 次のイベント時間を設定
-    progress.nextEventTime = Date.now() + this.calculateNextEventDelay({} as Expedition, {} as Trainer, progress.currentStage)
+    progress.nextEventTime = Date.now() + this.calculateNextEventDelay(progress.currentStage, streams.schedule)
   }
   
   /**
    * イベントを生成
    */
-  private generateEvent(expeditionId: string, progress: ExpeditionProgress): ExpeditionEvent | null {
-    const eventTypes: ExpeditionEvent['type'][] = ['pokemon_encounter', 'item_discovery', 'danger', 'weather', 'trainer_encounter']
-    const weightedTypes = this.getWeightedEventTypes(progress.currentStage, progress.riskLevel)
+  private generateEvent(progress: ExpeditionProgress, random: GameRandom): ExpeditionEvent | null {
+    const { weather } = worldClock.getLocationConditions(progress.locationId)
+    const weightedTypes = this.getWeightedEventTypes(progress.currentStage, progress.riskLevel, weather)
     
-    const selectedType = this.selectRandomWeighted(weightedTypes)
+    const selectedType = this.selectRandomWeighted(weightedTypes, random)
     if (!selectedType) return null
     
     return {
       id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       type: selectedType,
-      message: this.generateEventMessage(selectedType, progress.currentStage),
+      message: this.generateEventMessage(selectedType, progress.currentStage, random),
       timestamp: new Date().toISOString(),
       resolved: false,
       choices: this.generateEventChoices(selectedType, progress.riskLevel)
@@ -362,7 +331,11 @@ export class ExpeditionEngine {
   /**
    * ステージとリスクに基づいた重み付きイベントタイプを取得
    */
-  private getWeightedEventTypes(stage: string, riskLevel: string): Array<{type: ExpeditionEvent['type'], weight: number}> {
+  private getWeightedEventTypes(
+    stage: string,
+    riskLevel: string,
+    weather: LocationWeather = 'sunny'
+  ): Array<{type: ExpeditionEvent['type'], weight: number}> {
     const weights = {
       preparation: { pokemon_encounter: 1, item_discovery: 2, danger: 1, weather: 3, trainer_encounter: 1 },
       early: { pokemon_encounter: 3, item_discovery: 2, danger: 2, weather: 2, trainer_encounter: 1 },
@@ -378,26 +351,35 @@ export class ExpeditionEngine {
       critical: { danger: 2.0 }
     }
     
+    // 派遣先の天候が荒れているほど天候イベントが起きやすい
+    const weatherMultiplier: Record<LocationWeather, number> = {
+      sunny: 0.5,
+      rainy: 1.5,
+      foggy: 1.5,
+      snowy: 2.0,
+      stormy: 2.5
+    }
+    
     const stageWeights = weights[stage as keyof typeof weights] || weights.middle
     const riskMod = riskMultiplier[riskLevel as keyof typeof riskMultiplier] || riskMultiplier.medium
     
     return Object.entries(stageWeights).map(([type, weight]) => ({
       type: type as ExpeditionEvent['type'],
-      weight: weight * (riskMod[type as keyof typeof riskMod] || 1)
+      weight: weight * (riskMod[type as keyof typeof riskMod] || 1) * (type === 'weather' ? weatherMultiplier[weather] : 1)
     }))
   }
   
   /**
    * 重み付きランダム選択
    */
-  private selectRandomWeighted<T>(items: Array<{type: T, weight: number}>): T | null {
+  private selectRandomWeighted<T>(items: Array<{type: T, weight: number}>, random: GameRandom): T | null {
     const totalWeight = items.reduce((sum, item) => sum + item.weight, 0)
     if (totalWeight === 0) return null
     
-    let random = Math.random() * totalWeight
+    let roll = random.next() * totalWeight
     for (const item of items) {
-      random -= item.weight
-      if (random <= 0) return item.type
+      roll -= item.weight
+      if (roll <= 0) return item.type
     }
     
     return items[0]?.type || null
@@ -406,7 +388,7 @@ export class ExpeditionEngine {
   /**
    * イベントメッセージを生成
    */
-  private generateEventMessage(type: ExpeditionEvent['type'], stage: string): string {
+  private generateEventMessage(type: ExpeditionEvent['type'], stage: string, random: GameRandom): string {
     const messages = {
       pokemon_encounter: [
         '野生のポケモンが現れました！',
@@ -441,7 +423,7 @@ export class ExpeditionEngine {
     }
     
     const typeMessages = messages[type] || messages.pokemon_encounter
-    return typeMessages[Math.floor(Math.random() * typeMessages.length)]
+    return random.choice(typeMessages)
   }
   
   /**
@@ -513,7 +495,7 @@ export class ExpeditionEngine {
     console.log(`✅ 派遣完了: ${expeditionId}`)
     
     // 結果を生成
-    const outcome = this.generateExpeditionOutcome(expeditionId, progress)
+    const outcome = this.generateExpeditionOutcome(expeditionId, progress, this.getStreamsOrFallback(expeditionId).rewards)
     
     // 派遣を停止
     this.stopExpedition(expeditionId, 'complete')
@@ -531,7 +513,7 @@ export class ExpeditionEngine {
   /**
    * 派遣結果を生成
    */
-  private generateExpeditionOutcome(expeditionId: string, progress: ExpeditionProgress): ExpeditionOutcome {
+  private generateExpeditionOutcome(expeditionId: string, progress: ExpeditionProgress, random: GameRandom): ExpeditionOutcome {
     const events = this.eventQueue.get(expeditionId) || []
     const success = progress.overallProgress >= 0.95 && progress.riskLevel !== 'critical'
     
@@ -539,7 +521,7 @@ export class ExpeditionEngine {
       success,
       pokemonCaught: [], // 実装予定
       itemsFound: [], // 実装予定
-      moneyEarned: success ? Math.floor(Math.random() * 5000) + 1000 : 0,
+      moneyEarned: success ? random.integer(1000, 5999) : 0,
       experienceGained: Math.floor(progress.overallProgress * 100),
       trainerExpGained: Math.floor(progress.overallProgress * 50),
       summary: success ? '派遣が成功しました！' : '派遣は困難でしたが、経験を積むことができました。',
@@ -547,6 +529,18 @@ export class ExpeditionEngine {
     }
   }
   
+  /**
+   * 乱数列を取得（未登録の派遣にはIDから派生したものを割り当て）
+   */
+  private getStreamsOrFallback(expeditionId: string): ExpeditionRandomStreams {
+    let streams = this.randomStreams.get(expeditionId)
+    if (!streams) {
+      streams = createExpeditionRandomStreams(hashSeed(expeditionId))
+      this.randomStreams.set(expeditionId, streams)
+    }
+    return streams
+  }
+  
   /**
    * ロケーションのリスクレベルを取得
    */
@@ -587,6 +581,7 @@ export class ExpeditionEngine {
     this.activeExpeditions.clear()
     this.progressTimers.clear()
     this.eventQueue.clear()
+    this.randomStreams.clear()
     
     console.log('🗑️ 派遣エンジンを破棄しました')
   }
@@ -6,6 +6,10 @@
 import type { Expedition, ExpeditionEvent, Trainer, Pokemon, Intervention } from '@/lib/game-state/types'
 import { realtimeManager } from '@/lib/real-time/RealtimeManager'
 import { memoize, LRUCache } from '@/lib/performance/PerformanceOptimizer'
+import { gameRandom, type GameRandom } from '@/lib/game-logic/random-system'
+import { worldClock, getEnvironmentModifier, type LocationConditions } from '@/lib/game-logic/world-clock'
+import type { PokemonType } from '@/lib/pokemon/PokemonDatabase'
+import { getPokemonTypes } from './ExpeditionParty'
 
 export interface EventTemplate {
   id: string
@@ -47,8 +51,9 @@ export interface ChoiceEffect {
 }
 
 export interface ChoiceRequirement {
-  type: 'trainer_skill' | 'trainer_level' | 'item_possession' | 'risk_tolerance'
+  type: 'trainer_skill' | 'trainer_level' | 'item_possession' | 'risk_tolerance' | 'party_level' | 'party_type'
   skill?: keyof Trainer['skills']
+  pokemonType?: PokemonType // party_type: 手持ちにこのタイプがいるか
   value: number
   optional?: boolean // if true, requirement boosts success rate but isn't mandatory
 }
@@ -77,7 +82,8 @@ export class ExpeditionEventSystem {
   private eventTemplates = new Map<string, EventTemplate>()
   private eventHistory = new LRUCache<ExpeditionEvent[]>(100) // 最近のイベント履歴
   private choiceCooldowns = new Map<string, number>() // choice_id -> last_used_timestamp
-  private eventCooldowns = new Map<string, number>() // event_id -> last_used_timestamp
+  private eventCooldowns = new Map<string, number>() // expedition_id + event_id -> last_used_timestamp
+  private eventConditions = new Map<string, LocationConditions>() // event_id -> 発生時の天候・時間帯
   
   private constructor() {
     this.initializeEventTemplates()
@@ -98,15 +104,22 @@ export class ExpeditionEventSystem {
     expedition: Expedition,
     trainer: Trainer,
     currentStage: string,
-    riskLevel: string
+    riskLevel: string,
+    random: GameRandom = gameRandom,
+    now: number = Date.now()
   ): ExpeditionEvent | null {
+    const conditions = worldClock.getLocationConditions(expedition.locationId, now)
     const context = {
       expeditionId,
       locationId: expedition.locationId,
       stage: currentStage,
       riskLevel,
       trainer,
-      timeOfDay: this.getCurrentTimeOfDay()
+      now,
+      conditions,
+      timeOfDay: conditions.timeOfDay,
+      weather: conditions.weather,
+      season: conditions.season
     }
     
     // 利用可能なイベントテンプレートを取得
@@ -114,11 +127,12 @@ export class ExpeditionEventSystem {
     if (availableTemplates.length === 0) return null
     
     // 重み付きランダム選択でイベントテンプレートを選択
-    const selectedTemplate = this.selectEventTemplate(availableTemplates, context)
+    const selectedTemplate = this.selectEventTemplate(availableTemplates, random)
     if (!selectedTemplate) return null
     
     // イベントを生成
-    const event = this.createEventFromTemplate(selectedTemplate, context)
+    const event = this.createEventFromTemplate(selectedTemplate, context, random)
+    this.eventConditions.set(event.id, conditions)
     
     // 履歴に追加
     const history = this.eventHistory.get(expeditionId) || []
@@ -127,7 +141,7 @@ export class ExpeditionEventSystem {
     
     // クールダウンを設定
     if (selectedTemplate.cooldown) {
-      this.eventCooldowns.set(selectedTemplate.id, Date.now())
+      this.eventCooldowns.set(`${expeditionId}_${selectedTemplate.id}`, now)
     }
     
     console.log(`🎲 イベント生成: ${selectedTemplate.name} (${selectedTemplate.rarity})`)
@@ -142,7 +156,9 @@ export class ExpeditionEventSystem {
     expeditionId: string,
     eventId: string,
     choiceId: string,
-    trainer: Trainer
+    trainer: Trainer,
+    random: GameRandom = gameRandom,
+    party: Pokemon[] = []
   ): Promise<EventResolution> {
     const history = this.eventHistory.get(expeditionId) || []
     const event = history.find(e => e.id === eventId)
@@ -163,11 +179,11 @@ export class ExpeditionEventSystem {
     }
     
     // 要件チェック
-    const requirementsMet = this.checkRequirements(template.requirements, trainer)
+    const requirementsMet = this.checkRequirements(template.requirements, trainer, party)
     
     // 成功率計算
-    const successRate = this.calculateSuccessRate(template, trainer, requirementsMet)
-    const success = Math.random() < successRate
+    const successRate = this.calculateSuccessRate(template, trainer, requirementsMet, this.getEventEnvironmentModifier(eventId))
+    const success = random.chance(successRate)
     
     // 結果を生成
     const resolution = await this.generateResolution(
@@ -176,7 +192,8 @@ export class ExpeditionEventSystem {
       template,
       trainer,
       success,
-      requirementsMet
+      requirementsMet,
+      random
     )
     
     // イベントを解決済みに設定
@@ -203,17 +220,60 @@ export class ExpeditionEventSystem {
     return resolution
   }
   
+  /**
+   * プレイヤー不在時の選択肢を自動決定
+   * 要件を満たす選択肢のうち、派遣モードのリスク許容度で補正した期待値が最も高いものを選ぶ
+   */
+  selectAutoChoice(event: ExpeditionEvent, trainer: Trainer, mode: Expedition['mode'], party: Pokemon[] = []): string | null {
+    if (!event.choices || event.choices.length === 0) return null
+    
+    const riskPenalty: Record<ChoiceTemplate['riskLevel'], number> = {
+      none: 0,
+      low: 0.05,
+      medium: 0.1,
+      high: 0.2,
+      extreme: 0.3
+    }
+    const riskAversion = {
+      safe: 2.0,
+      balanced: 1.0,
+      exploration: 0.7,
+      aggressive: 0.3
+    }[mode] ?? 1.0
+    
+    let bestChoiceId: string | null = null
+    let bestScore = -Infinity
+    
+    for (const choice of event.choices) {
+      const template = this.findChoiceTemplate(event.type, choice.id)
+      if (!template) continue
+      
+      const requirementsMet = this.checkRequirements(template.requirements, trainer, party)
+      if (!requirementsMet.met) continue
+      
+      const successRate = this.calculateSuccessRate(template, trainer, requirementsMet, this.getEventEnvironmentModifier(event.id))
+      const score = successRate - riskPenalty[template.riskLevel] * riskAversion
+      
+      if (score > bestScore) {
+        bestScore = score
+        bestChoiceId = choice.id
+      }
+    }
+    
+    return bestChoiceId
+  }
+  
   /**
    * 利用可能なイベントテンプレートを取得
    */
   private getAvailableEventTemplates(context: any): EventTemplate[] {
-    const now = Date.now()
+    const now: number = context.now
     const available: EventTemplate[] = []
     
     this.eventTemplates.forEach(template => {
       // クールダウンチェック
       if (template.cooldown) {
-        const lastUsed = this.eventCooldowns.get(template.id) || 0
+        const lastUsed = this.eventCooldowns.get(`${context.expeditionId}_${template.id}`) || 0
         if (now - lastUsed < template.cooldown * 60 * 1000) {
           return
         }
@@ -268,7 +328,7 @@ export class ExpeditionEventSystem {
         case 'location': return context.locationId
         case 'risk_level': return context.riskLevel
         case 'trainer_skill': return context.trainer.skills
-        case 'weather': return 'clear' // 実装予定
+        case 'weather': return context.weather
         case 'time_of_day': return context.timeOfDay
         default: return null
       }
@@ -296,7 +356,7 @@ export class ExpeditionEventSystem {
   /**
    * 重み付きランダム選択でイベントテンプレートを選択
    */
-  private selectEventTemplate(templates: EventTemplate[], context: any): EventTemplate | null {
+  private selectEventTemplate(templates: EventTemplate[], random: GameRandom): EventTemplate | null {
     const rarityWeights = {
       common: 1.0,
       uncommon: 0.3,
@@ -312,10 +372,10 @@ export class ExpeditionEventSystem {
     const totalWeight = weightedTemplates.reduce((sum, item) => sum + item.weight, 0)
     if (totalWeight === 0) return null
     
-    let random = Math.random() * totalWeight
+    let roll = random.next() * totalWeight
     for (const item of weightedTemplates) {
-      random -= item.weight
-      if (random <= 0) return item.template
+      roll -= item.weight
+      if (roll <= 0) return item.template
     }
     
     return templates[0] || null
@@ -324,10 +384,10 @@ export class ExpeditionEventSystem {
   /**
    * テンプレートからイベントを作成
    */
-  private createEventFromTemplate(template: EventTemplate, context: any): ExpeditionEvent {
+  private createEventFromTemplate(template: EventTemplate, context: any, random: GameRandom): ExpeditionEvent {
     // メッセージのバリエーションを選択
     const messages = [template.baseMessage, ...template.messageVariants]
-    const message = messages[Math.floor(Math.random() * messages.length)]
+    const message = random.choice(messages)
     
     // 選択肢を生成
     const choices = template.choices.map(choiceTemplate => ({
@@ -336,7 +396,7 @@ export class ExpeditionEventSystem {
       effect: JSON.stringify(choiceTemplate.effect),
       successRate: this.adjustSuccessRateForContext(choiceTemplate.baseSuccessRate, context),
       requirements: choiceTemplate.requirements.map(req => 
-        `${req.type}:${req.skill || ''}:${req.value}`
+        `${req.type}:${req.skill || req.pokemonType || ''}:${req.value}`
       )
     }))
     
@@ -344,7 +404,7 @@ export class ExpeditionEventSystem {
       id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       type: template.type,
       message,
-      timestamp: new Date().toISOString(),
+      timestamp: new Date(context.now).toISOString(),
       choices,
       resolved: false
     }
@@ -377,6 +437,9 @@ export class ExpeditionEventSystem {
     
     adjustedRate *= stageAdjustments[context.stage as keyof typeof stageAdjustments] || 1.0
     
+    // 天候・時間帯による調整
+    adjustedRate *= getEnvironmentModifier(context.conditions)
+    
     return Math.min(Math.max(adjustedRate, 0.05), 0.95)
   }
   
@@ -395,14 +458,14 @@ export class ExpeditionEventSystem {
   }
   
   /**
-   * 要件をチェック
+   * 要件をチェック（party は同行している手持ちポケモン）
    */
-  private checkRequirements(requirements: ChoiceRequirement[], trainer: Trainer): {met: boolean, optional: number} {
+  private checkRequirements(requirements: ChoiceRequirement[], trainer: Trainer, party: Pokemon[] = []): {met: boolean, optional: number} {
     let mandatoryMet = true
     let optionalCount = 0
     
     for (const req of requirements) {
-      const met = this.evaluateRequirement(req, trainer)
+      const met = this.evaluateRequirement(req, trainer, party)
       
       if (req.optional) {
         if (met) optionalCount++
@@ -417,7 +480,7 @@ export class ExpeditionEventSystem {
   /**
    * 要件を評価
    */
-  private evaluateRequirement(requirement: ChoiceRequirement, trainer: Trainer): boolean {
+  private evaluateRequirement(requirement: ChoiceRequirement, trainer: Trainer, party: Pokemon[]): boolean {
     switch (requirement.type) {
       case 'trainer_skill':
         if (requirement.skill && trainer.skills[requirement.skill] !== undefined) {
@@ -437,6 +500,15 @@ export class ExpeditionEventSystem {
         const riskTolerance = (trainer.personality.courage - trainer.personality.caution + 10) / 2
         return riskTolerance >= requirement.value
         
+      case 'party_level':
+        // 手持ちに基準レベル以上のポケモンがいるか
+        return party.some(pokemon => pokemon.level >= requirement.value)
+        
+      case 'party_type':
+        return party.some(pokemon => 
+          !!requirement.pokemonType && getPokemonTypes(pokemon.speciesId).includes(requirement.pokemonType)
+        )
+        
       default:
         return false
     }
@@ -448,7 +520,8 @@ export class ExpeditionEventSystem {
   private calculateSuccessRate(
     template: ChoiceTemplate,
     trainer: Trainer,
-    requirementResult: {met: boolean, optional: number}
+    requirementResult: {met: boolean, optional: number},
+    environmentModifier: number = 1.0
   ): number {
     if (!requirementResult.met) return 0
     
@@ -468,9 +541,20 @@ export class ExpeditionEventSystem {
     const experienceBonus = Math.min(trainer.totalExpeditions * 0.01, 0.2) // 最大20%
     successRate += experienceBonus
     
+    // 天候・時間帯による補正
+    successRate *= environmentModifier
+    
     return Math.min(Math.max(successRate, 0.05), 0.95)
   }
   
+  /**
+   * イベント発生時の天候・時間帯による補正値を取得
+   */
+  private getEventEnvironmentModifier(eventId: string): number {
+    const conditions = this.eventConditions.get(eventId)
+    return conditions ? getEnvironmentModifier(conditions) : 1.0
+  }
+  
   /**
    * 効果タイプに関連するスキルを取得
    */
@@ -496,7 +580,8 @@ export class ExpeditionEventSystem {
     template: ChoiceTemplate,
     trainer: Trainer,
     success: boolean,
-    requirementResult: {met: boolean, optional: number}
+    requirementResult: {met: boolean, optional: number},
+    random: GameRandom
   ): Promise<EventResolution> {
     const baseEffect = template.effect
     const resolution: EventResolution = {
@@ -552,7 +637,7 @@ export class ExpeditionEventSystem {
       // 失敗時の効果
       resolution.result.experienceGained = 5 // 失敗からも少し学習
       resolution.result.progressModifier = -0.05 // わずかな遅延
-      resolution.result.message = this.generateFailureMessage(template.riskLevel)
+      resolution.result.message = this.generateFailureMessage(template.riskLevel, random)
     }
     
     return resolution
@@ -561,7 +646,7 @@ export class ExpeditionEventSystem {
   /**
    * 失敗メッセージを生成
    */
-  private generateFailureMessage(riskLevel: string): string {
+  private generateFailureMessage(riskLevel: string, random: GameRandom): string {
     const messages = {
       none: ['特に問題はありませんでした'],
       low: ['少し時間がかかりましたが問題ありません', '慎重に進んで時間をロスしました'],
@@ -571,18 +656,7 @@ export class ExpeditionEventSystem {
     }
     
     const levelMessages = messages[riskLevel as keyof typeof messages] || messages.medium
-    return levelMessages[Math.floor(Math.random() * levelMessages.length)]
-  }
-  
-  /**
-   * 現在の時間帯を取得
-   */
-  private getCurrentTimeOfDay(): string {
-    const hour = new Date().getHours()
-    if (hour < 6) return 'night'
-    if (hour < 12) return 'morning'
-    if (hour < 18) return 'afternoon'
-    return 'evening'
+    return random.choice(levelMessages)
   }
   
   /**
@@ -608,7 +682,10 @@ export class ExpeditionEventSystem {
             id: 'capture_aggressive',
             text: '積極的に捕まえる',
             effect: { type: 'pokemon_capture', parameters: { experience: 50 } },
-            requirements: [{ type: 'trainer_skill', skill: 'capture', value: 5 }],
+            requirements: [
+              { type: 'trainer_skill', skill: 'capture', value: 5 },
+              { type: 'party_level', value: 10, optional: true }
+            ],
             baseSuccessRate: 0.7,
             riskLevel: 'medium'
           },
@@ -701,6 +778,14 @@ export class ExpeditionEventSystem {
             baseSuccessRate: 0.4,
             riskLevel: 'extreme'
           },
+          {
+            id: 'send_out_pokemon',
+            text: '手持ちのポケモンで迎え撃つ',
+            effect: { type: 'experience', parameters: { amount: 60 } },
+            requirements: [{ type: 'party_level', value: 15 }],
+            baseSuccessRate: 0.6,
+            riskLevel: 'high'
+          },
           {
             id: 'careful_retreat',
             text: '慎重に後退する',
@@ -719,6 +804,52 @@ export class ExpeditionEventSystem {
           }
         ],
         rarity: 'uncommon'
+      },
+      
+      {
+        id: 'rough_weather',
+        type: 'weather',
+        name: '悪天候',
+        description: '派遣先の天候悪化による足止め',
+        conditions: [
+          { type: 'weather', operator: 'in', value: ['rainy', 'stormy', 'snowy', 'foggy'], weight: 1.0 }
+        ],
+        baseMessage: '天候が悪化して視界が悪くなってきました',
+        messageVariants: [
+          '足元がぬかるんで思うように進めません',
+          '激しい風で体が持っていかれそうです',
+          'この天候では野生ポケモンも身を潜めているようです'
+        ],
+        choices: [
+          {
+            id: 'wait_out_weather',
+            text: '天候の回復を待つ',
+            effect: { type: 'progress_modifier', parameters: { modifier: -0.05 } },
+            requirements: [],
+            baseSuccessRate: 0.9,
+            riskLevel: 'low'
+          },
+          {
+            id: 'take_shelter',
+            text: '避難場所を探す',
+            effect: { type: 'progress_modifier', parameters: { modifier: -0.02 } },
+            requirements: [{ type: 'trainer_skill', skill: 'exploration', value: 4 }],
+            baseSuccessRate: 0.8,
+            riskLevel: 'low'
+          },
+          {
+            id: 'push_through_weather',
+            text: 'そのまま進む',
+            effect: { type: 'experience', parameters: { amount: 40 } },
+            requirements: [
+              { type: 'trainer_skill', skill: 'exploration', value: 6 },
+              { type: 'party_type', pokemonType: 'flying', value: 1, optional: true }
+            ],
+            baseSuccessRate: 0.5,
+            riskLevel: 'high'
+          }
+        ],
+        rarity: 'common'
       }
     ]
     
@@ -737,6 +868,21 @@ export class ExpeditionEventSystem {
     return this.eventHistory.get(expeditionId) || []
   }
   
+  /**
+   * 派遣ごとのイベント履歴とクールダウンを破棄（シードからの再生前に呼び出す）
+   */
+  resetExpedition(expeditionId: string): void {
+    this.getEventHistory(expeditionId).forEach(event => this.eventConditions.delete(event.id))
+    this.eventHistory.delete(expeditionId)
+    
+    const prefix = `${expeditionId}_`
+    Array.from(this.eventCooldowns.keys()).forEach(key => {
+      if (key.startsWith(prefix)) {
+        this.eventCooldowns.delete(key)
+      }
+    })
+  }
+  
   /**
    * イベント統計を取得
    */
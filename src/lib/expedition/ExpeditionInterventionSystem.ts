@@ -38,6 +38,7 @@ export interface InterventionResult {
   effects: AppliedEffect[]
   message: string
   consequence?: string
+  consumedItems?: Array<{ itemId: string; quantity: number }> // インベントリから差し引くアイテム
 }
 
 export interface AppliedEffect {
@@ -121,6 +122,11 @@ export class ExpeditionInterventionSystem {
     // 介入を実行
     const result = await this.performIntervention(expeditionId, action, trainer)
     
+    // アイテム使用型の介入は要件を満たしたアイテムを1つ消費
+    if (action.type === 'item_use') {
+      result.consumedItems = this.findRequiredItems(action.requirements, inventory || [])
+    }
+    
     // クールダウンを設定
     this.cooldowns.set(cooldownKey, now)
     
@@ -314,6 +320,28 @@ export class ExpeditionInterventionSystem {
     }
   }
   
+  /**
+   * 所持要件を満たすアイテムを特定
+   */
+  private findRequiredItems(
+    requirements: InterventionRequirement[],
+    inventory: Item[]
+  ): Array<{ itemId: string; quantity: number }> {
+    const consumed: Array<{ itemId: string; quantity: number }> = []
+    
+    for (const requirement of requirements) {
+      if (requirement.type !== 'item_possession') continue
+      
+      const item = inventory.find(i => i.id === requirement.value) ||
+        inventory.find(i => i.type === requirement.value)
+      if (item) {
+        consumed.push({ itemId: item.id, quantity: 1 })
+      }
+    }
+    
+    return consumed
+  }
+  
   /**
    * 要件を評価
    */
@@ -571,7 +599,7 @@ export class ExpeditionInterventionSystem {
         cooldown: 30, // 30分
         requirements: [
           { type: 'money', value: 500, description: '500円必要' },
-          { type: 'item_possession', value: 'healing_potion', description: '回復薬が必要' }
+          { type: 'item_possession', value: 'medicine', description: '回復薬が必要' }
         ],
         effects: [
           {
@@ -0,0 +1,226 @@
+/**
+ * 派遣パーティ
+ * トレーナーが派遣に連れて行く手持ちポケモン（最大6体）の編成評価（タイプ相性・レベル）と、
+ * 派遣中のHPの消耗・ひんし、派遣後の経験値の配分を行う純粋な計算処理
+ */
+
+import type { PartyMemberReport, Pokemon, Trainer } from '@/lib/game-state/types'
+import type { PokemonType } from '@/lib/pokemon/PokemonDatabase'
+import type { BreedingSession } from '@/lib/pokemon/PokemonBreedingSystem'
+import type { EffortGain } from '@/lib/pokemon/EffortValues'
+import type { StatKey } from '@/lib/pokemon/BreedingInheritance'
+import { pokemonDatabase } from '@/lib/pokemon/PokemonDatabase'
+import { pokemonBattleSystem } from '@/lib/pokemon/PokemonBattleSystem'
+import { getLocationDefinition } from '@/lib/static-data/locations'
+import type { GameRandom } from '@/lib/game-logic/random-system'
+
+export interface PartyEvaluation {
+  size: number
+  averageLevel: number
+  typeAdvantage: number // -1.0 to 1.0（派遣先に出現するポケモンへのタイプ相性）
+  levelFactor: number // -1.0 to 1.0（派遣先の野生ポケモンとのレベル差）
+  successModifier: number // 派遣の成功度に掛ける倍率
+}
+
+// 派遣中の手持ちポケモンの状態
+export interface PartyMember {
+  pokemon: Pokemon
+  currentHp: number
+  battles: number
+  effort: EffortGain
+}
+
+export const MAX_PARTY_SIZE = 6
+
+const TYPE_ADVANTAGE_WEIGHT = 0.15
+const LEVEL_WEIGHT = 0.15
+const LEVEL_DIFF_SCALE = 10 // このレベル差で補正が最大になる
+const EVENT_DAMAGE_RATIO = 0.15 // 失敗したイベント1回で受けるダメージ（最大HPに対する割合）
+const BATTLE_EXP_BONUS = 20 // 捕獲前バトル1回ごとの追加経験値
+
+/**
+ * トレーナーの手持ちポケモン（登録順、見つからないものは除く）
+ */
+export const getTrainerParty = (trainer: Pick<Trainer, 'party'>, pokemon: Pokemon[]): Pokemon[] => {
+  return (trainer.party ?? [])
+    .map(pokemonId => pokemon.find(p => p.id === pokemonId))
+    .filter((p): p is Pokemon => !!p)
+}
+
+/**
+ * 派遣に出られる手持ちポケモン（けが・病気・訓練中・ひんしのポケモンは留守番）
+ */
+export const getDeployableParty = (trainer: Pick<Trainer, 'party'>, pokemon: Pokemon[]): Pokemon[] => {
+  return getTrainerParty(trainer, pokemon).filter(p => p.status === 'healthy' && p.hp > 0)
+}
+
+/**
+ * ポケモンを手持ちにしているトレーナー
+ */
+export const findPartyOwner = (trainers: Trainer[], pokemonId: string): Trainer | undefined => {
+  return trainers.find(trainer => trainer.party?.includes(pokemonId))
+}
+
+/**
+ * 育て屋に預けている（交配中・タマゴの受け取り待ち）ポケモンか
+ */
+export const isAtDaycare = (sessions: Pick<BreedingSession, 'parent1Id' | 'parent2Id'>[], pokemonId: string): boolean => {
+  return sessions.some(session => session.parent1Id === pokemonId || session.parent2Id === pokemonId)
+}
+
+/**
+ * 手持ちを編成できるか判定（できない場合は理由を返す）
+ */
+export const validateParty = (
+  trainer: Trainer,
+  pokemonIds: string[],
+  trainers: Trainer[],
+  pokemon: Pokemon[],
+  breedingSessions: Pick<BreedingSession, 'parent1Id' | 'parent2Id'>[] = []
+): string | undefined => {
+  if (trainer.status !== 'available') return `${trainer.name}は手持ちを入れ替えられる状態ではありません`
+  if (pokemonIds.length > MAX_PARTY_SIZE) return `手持ちは${MAX_PARTY_SIZE}体までです`
+  if (new Set(pokemonIds).size !== pokemonIds.length) return '同じポケモンが重複しています'
+
+  for (const pokemonId of pokemonIds) {
+    const target = pokemon.find(p => p.id === pokemonId)
+    if (!target) return 'ポケモンが見つかりません'
+    if (target.status === 'training') return `${target.nameJa}は訓練中です`
+    if (isAtDaycare(breedingSessions, pokemonId)) return `${target.nameJa}は育て屋に預けています`
+
+    const owner = findPartyOwner(trainers, pokemonId)
+    if (owner && owner.id !== trainer.id) return `${target.nameJa}は${owner.name}の手持ちです`
+  }
+
+  return undefined
+}
+
+// =================== 編成評価 ===================
+
+export const getPokemonTypes = (speciesId: number): PokemonType[] => {
+  const types = pokemonDatabase.getSpecies(speciesId)?.types
+  return types && types.length > 0 ? types : ['normal']
+}
+
+/**
+ * 派遣先に出現するポケモンへのタイプ相性
+ * 出現率で重み付けし、各出現ポケモンに最も相性の良い手持ちのタイプで評価する（2倍で +0.5、半減で -0.5）
+ */
+export const calculateTypeAdvantage = (party: Pokemon[], locationId: number): number => {
+  const encounters = getLocationDefinition(locationId)?.pokemonEncounters ?? []
+  const totalRate = encounters.reduce((sum, encounter) => sum + encounter.encounterRate, 0)
+  if (party.length === 0 || totalRate === 0) return 0
+
+  const partyTypes = Array.from(new Set(party.flatMap(p => getPokemonTypes(p.speciesId))))
+  const advantage = encounters.reduce((sum, encounter) => {
+    const defenderTypes = getPokemonTypes(encounter.speciesId)
+    const best = Math.max(...partyTypes.map(type => pokemonBattleSystem.getTypeMultiplier(type, defenderTypes)))
+    // 無効（0倍）は半減と同じ扱い
+    return sum + encounter.encounterRate * Math.log2(Math.max(best, 0.5)) / 2
+  }, 0) / totalRate
+
+  return Math.max(-1, Math.min(1, advantage))
+}
+
+/**
+ * 派遣先の野生ポケモンの平均レベル（出現率で重み付け）
+ */
+export const getLocationWildLevel = (locationId: number): number => {
+  const encounters = getLocationDefinition(locationId)?.pokemonEncounters ?? []
+  const totalRate = encounters.reduce((sum, encounter) => sum + encounter.encounterRate, 0)
+  if (totalRate === 0) return 0
+
+  return encounters.reduce(
+    (sum, encounter) => sum + encounter.encounterRate * (encounter.levelRange[0] + encounter.levelRange[1]) / 2,
+    0
+  ) / totalRate
+}
+
+/**
+ * 手持ちの平均レベルと派遣先の野生ポケモンとのレベル差
+ */
+export const calculateLevelFactor = (party: Pokemon[], locationId: number): number => {
+  if (party.length === 0) return 0
+
+  const averageLevel = party.reduce((sum, p) => sum + p.level, 0) / party.length
+  const diff = averageLevel - getLocationWildLevel(locationId)
+  return Math.max(-1, Math.min(1, diff / LEVEL_DIFF_SCALE))
+}
+
+export const evaluateParty = (party: Pokemon[], locationId: number): PartyEvaluation => {
+  const typeAdvantage = calculateTypeAdvantage(party, locationId)
+  const levelFactor = calculateLevelFactor(party, locationId)
+
+  return {
+    size: party.length,
+    averageLevel: party.length > 0 ? Math.round(party.reduce((sum, p) => sum + p.level, 0) / party.length) : 0,
+    typeAdvantage,
+    levelFactor,
+    // 手持ちなしの派遣は補正なし
+    successModifier: party.length === 0
+      ? 1.0
+      : Math.max(0.5, 1 + typeAdvantage * TYPE_ADVANTAGE_WEIGHT + levelFactor * LEVEL_WEIGHT)
+  }
+}
+
+// =================== 派遣中の消耗 ===================
+
+export const createPartyRoster = (party: Pokemon[]): PartyMember[] => {
+  return party.map(pokemon => ({ pokemon, currentHp: pokemon.hp, battles: 0, effort: {} }))
+}
+
+/**
+ * 捕獲前バトルに出す手持ち（ひんしでないポケモンのうち、相手に最も相性の良いもの、同じならレベルの高いもの）
+ */
+export const selectBattleLead = (roster: PartyMember[], opponentTypes: PokemonType[]): PartyMember | undefined => {
+  const score = (member: PartyMember) => Math.max(
+    ...getPokemonTypes(member.pokemon.speciesId).map(type => pokemonBattleSystem.getTypeMultiplier(type, opponentTypes))
+  )
+
+  return roster
+    .filter(member => member.currentHp > 0)
+    .sort((a, b) => score(b) - score(a) || b.pokemon.level - a.pokemon.level)[0]
+}
+
+/**
+ * 捕獲前バトルの結果（残りHP と、相手を倒した場合に得る努力値）を反映
+ */
+export const recordPartyBattle = (member: PartyMember, remainingHp: number, effortYield: EffortGain = {}): void => {
+  member.currentHp = Math.max(0, Math.min(member.currentHp, remainingHp))
+  member.battles++
+  Object.entries(effortYield).forEach(([stat, amount]) => {
+    member.effort[stat as StatKey] = (member.effort[stat as StatKey] ?? 0) + amount
+  })
+}
+
+/**
+ * 失敗したイベントの回数だけ、ひんしでない手持ちの誰かがダメージを受ける
+ */
+export const applyEventDamage = (roster: PartyMember[], failures: number, random: GameRandom): void => {
+  for (let i = 0; i < failures; i++) {
+    const conscious = roster.filter(member => member.currentHp > 0)
+    if (conscious.length === 0) return
+
+    const member = random.choice(conscious)
+    member.currentHp = Math.max(0, member.currentHp - Math.ceil(member.pokemon.maxHp * EVENT_DAMAGE_RATIO))
+  }
+}
+
+export const summarizePartyRoster = (roster: PartyMember[]): PartyMemberReport[] => {
+  return roster.map(member => ({
+    pokemonId: member.pokemon.id,
+    hpLost: member.pokemon.hp - member.currentHp,
+    injured: member.currentHp === 0,
+    battles: member.battles,
+    effort: { ...member.effort }
+  }))
+}
+
+// =================== 経験値 ===================
+
+/**
+ * 手持ち1体が得る経験値（派遣の経験値を頭数で分け、捕獲前バトルに出た回数だけ上乗せ）
+ */
+export const calculatePartyExperience = (report: PartyMemberReport, totalExperience: number, partySize: number): number => {
+  return Math.floor(totalExperience / Math.max(1, partySize)) + report.battles * BATTLE_EXP_BONUS
+}
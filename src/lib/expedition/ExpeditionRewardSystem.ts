@@ -6,6 +6,21 @@
 import type { Expedition, ExpeditionEvent, Trainer, Pokemon, Item } from '@/lib/game-state/types'
 import { realtimeManager } from '@/lib/real-time/RealtimeManager'
 import { memoize, LRUCache } from '@/lib/performance/PerformanceOptimizer'
+import { gameRandom, type GameRandom } from '@/lib/game-logic/random-system'
+import { getActiveEvents, getEventEncounterBonuses } from '@/lib/game-logic/event-calendar'
+import { worldClock, type LocationConditions } from '@/lib/game-logic/world-clock'
+import { getLocationDefinition, getPokemonEncounterChance } from '@/lib/static-data/locations'
+import { ITEM_DEFINITIONS } from '@/lib/static-data/items'
+import { getMovesKnownAtLevel } from '@/lib/static-data/learnsets'
+import { pokemonBattleSystem } from '@/lib/pokemon/PokemonBattleSystem'
+import { selectBattleLead, recordPartyBattle, type PartyMember } from './ExpeditionParty'
+import { getTrainerAbilityEffects } from '@/lib/game-state/skills'
+import { getBattleEffortYield } from '@/lib/pokemon/EffortValues'
+import type { PokemonSpecies } from '@/lib/schemas/pokemon'
+import type { ItemDefinition } from '@/lib/static-data/types'
+
+// 捕獲前バトルで野生ポケモンを弱らせる目標HP割合
+const CAPTURE_BATTLE_HP_RATIO = 0.4
 
 export interface RewardCalculation {
   baseReward: number
@@ -30,6 +45,7 @@ export interface RewardBreakdown {
   trainerSkillBonus: number
   locationBonus: number
   eventBonus: number
+  seasonalEventBonus: number
 }
 
 export interface DropTable {
@@ -111,7 +127,7 @@ export class ExpeditionRewardSystem {
   private dropTables = new Map<number, DropTable>() // locationId -> DropTable
   private rewardCache = new LRUCache<RewardCalculation>(200)
   private pokemonDatabase = new Map<number, any>() // speciesId -> pokemon data
-  private itemDatabase = new Map<string, any>() // itemId -> item data
+  private itemDatabase = new Map<string, ItemDefinition>() // itemId -> item data
   
   private constructor() {
     this.initializeDropTables()
@@ -128,27 +144,36 @@ export class ExpeditionRewardSystem {
   
   /**
    * 派遣完了時の報酬を計算・生成
+   * party を渡すと捕獲前バトルに手持ちポケモンが出て、受けたダメージが party に反映される
    */
   async generateExpeditionRewards(
     expedition: Expedition,
     trainer: Trainer,
     events: ExpeditionEvent[],
     successRate: number,
-    actualDuration: number
+    actualDuration: number,
+    random: GameRandom = gameRandom,
+    party: PartyMember[] = []
   ): Promise<ExpeditionLoot> {
     console.log(`💰 報酬生成開始: ${expedition.id}`)
     
+    // 開催中イベント・天候・時間帯は帰還時点で判定する（後からまとめて計算しても結果が変わらない）
+    const returnedAt = new Date(new Date(expedition.startTime).getTime() + actualDuration)
+    
     // 基本報酬計算
-    const rewardCalc = this.calculateMoneyReward(expedition, trainer, events, successRate, actualDuration)
+    const rewardCalc = this.calculateMoneyReward(expedition, trainer, events, successRate, actualDuration, returnedAt)
+    
+    // 帰還時点の天候・時間帯
+    const conditions = worldClock.getLocationConditions(expedition.locationId, returnedAt.getTime())
     
     // ドロップテーブルを取得
-    const dropTable = this.getDropTable(expedition.locationId, expedition.mode)
+    const dropTable = this.getDropTable(expedition.locationId, expedition.mode, conditions, returnedAt)
     
     // ポケモンを生成
-    const pokemon = await this.generatePokemon(dropTable, trainer, events, successRate, expedition)
+    const pokemon = await this.generatePokemon(dropTable, trainer, events, successRate, expedition, random, conditions, party)
     
     // アイテムを生成
-    const items = await this.generateItems(dropTable, trainer, events, successRate)
+    const items = await this.generateItems(dropTable, trainer, events, successRate, random)
     
     // 経験値を計算
     const experience = this.calculateExperience(expedition, events, pokemon, items, successRate)
@@ -195,9 +220,11 @@ export class ExpeditionRewardSystem {
     trainer: Trainer,
     events: ExpeditionEvent[],
     successRate: number,
-    actualDuration: number
+    actualDuration: number,
+    now: Date
   ): RewardCalculation {
-    const cacheKey = `money_${expedition.id}_${successRate}_${actualDuration}`
+    const activeEvents = getActiveEvents(now)
+    const cacheKey = `money_${expedition.id}_${successRate}_${actualDuration}_${activeEvents.map(e => e.definition.id).join('+')}`
     const cached = this.rewardCache.get(cacheKey)
     if (cached) return cached
     
@@ -217,7 +244,8 @@ export class ExpeditionRewardSystem {
       riskBonus: 0,
       trainerSkillBonus: 0,
       locationBonus: 0,
-      eventBonus: 0
+      eventBonus: 0,
+      seasonalEventBonus: 0
     }
     
     const multipliers: RewardMultiplier[] = []
@@ -300,6 +328,20 @@ export class ExpeditionRewardSystem {
       })
     }
     
+    // 開催中イベント（カレンダー）ボーナス
+    activeEvents.forEach(({ definition }) => {
+      const multiplier = definition.effects.rewardMultiplier ?? 1
+      if (multiplier === 1) return
+      
+      const bonus = Math.floor(baseReward * (multiplier - 1))
+      breakdown.seasonalEventBonus += bonus
+      multipliers.push({
+        source: `calendar_${definition.id}`,
+        multiplier,
+        description: `${definition.name}ボーナス: +${bonus}円`
+      })
+    })
+    
     // 最終計算
     const totalMultiplier = multipliers.reduce((total, m) => total * m.multiplier, 1)
     const finalReward = Math.floor(
@@ -310,7 +352,8 @@ export class ExpeditionRewardSystem {
       breakdown.riskBonus + 
       breakdown.trainerSkillBonus + 
       breakdown.locationBonus + 
-      breakdown.eventBonus
+      breakdown.eventBonus +
+      breakdown.seasonalEventBonus
     )
     
     const calculation: RewardCalculation = {
@@ -333,7 +376,10 @@ export class ExpeditionRewardSystem {
     trainer: Trainer,
     events: ExpeditionEvent[],
     successRate: number,
-    expedition: Expedition
+    expedition: Expedition,
+    random: GameRandom,
+    conditions: LocationConditions,
+    party: PartyMember[]
   ): Promise<GeneratedPokemon[]> {
     const pokemon: GeneratedPokemon[] = []
     
@@ -343,6 +389,7 @@ export class ExpeditionRewardSystem {
       
       // トレーナースキルによる修正
       dropRate *= 1 + (trainer.skills.capture / 10)
+      dropRate *= 1 + getTrainerAbilityEffects(trainer).captureRate
       
       // イベントによる修正
       const captureEvents = events.filter(e => 
@@ -351,13 +398,44 @@ export class ExpeditionRewardSystem {
       dropRate *= 1 + (captureEvents * 0.1)
       
       // 要件チェック
-      if (pokemonDrop.requirements && !this.checkDropRequirements(pokemonDrop.requirements, { trainer, events })) {
+      if (pokemonDrop.requirements && !this.checkDropRequirements(pokemonDrop.requirements, { trainer, events, expedition, conditions })) {
         continue
       }
       
       // ドロップ判定
-      if (Math.random() < dropRate) {
-        const generatedPokemon = await this.createPokemon(pokemonDrop, trainer, expedition)
+      if (random.chance(dropRate)) {
+        const generatedPokemon = await this.createPokemon(pokemonDrop, trainer, expedition, random)
+        const wild = pokemonBattleSystem.createCombatantFromPokemon(generatedPokemon)
+        
+        // 手持ちを連れている場合は相性の良いポケモンが戦う（全員ひんしなら捕獲できない）
+        const lead = selectBattleLead(party, wild.types)
+        if (party.length > 0 && !lead) {
+          console.log(`⚔️ 手持ちが全員ひんしのため${pokemonDrop.name}を捕獲できない`)
+          break
+        }
+        
+        // 捕獲前バトル（弱らせられなければ捕獲できない）
+        const battle = pokemonBattleSystem.simulateBattle(
+          lead
+            ? pokemonBattleSystem.createCombatantFromPokemon({ ...lead.pokemon, hp: lead.currentHp })
+            : pokemonBattleSystem.createTrainerPartner(trainer),
+          wild,
+          { targetHpRatio: CAPTURE_BATTLE_HP_RATIO },
+          random
+        )
+        if (lead) {
+          const defeated = battle.outcome === 'weakened' || battle.outcome === 'wild_fainted'
+          recordPartyBattle(
+            lead,
+            battle.trainer.currentHp,
+            defeated ? getBattleEffortYield(this.getSpeciesBaseStats(pokemonDrop.speciesId)) : undefined
+          )
+        }
+        if (battle.outcome !== 'weakened') {
+          console.log(`⚔️ ${pokemonDrop.name}との捕獲バトルに失敗: ${battle.outcome}`)
+          continue
+        }
+        
         pokemon.push(generatedPokemon)
         
         // レアポケモンの場合、追加生成確率を下げる
@@ -377,7 +455,8 @@ export class ExpeditionRewardSystem {
     dropTable: DropTable,
     trainer: Trainer,
     events: ExpeditionEvent[],
-    successRate: number
+    successRate: number,
+    random: GameRandom
   ): Promise<GeneratedItem[]> {
     const items: GeneratedItem[] = []
     
@@ -400,20 +479,21 @@ export class ExpeditionRewardSystem {
       }
       
       // ドロップ判定
-      if (Math.random() < dropRate) {
-        const quantity = Math.floor(
-          Math.random() * (itemDrop.quantity.max - itemDrop.quantity.min + 1) + itemDrop.quantity.min
-        )
+      if (random.chance(dropRate)) {
+        const quantity = random.integer(itemDrop.quantity.min, itemDrop.quantity.max)
+        const definition = this.itemDatabase.get(itemDrop.itemId)
         
+        // IDはアイテム種別（インベントリで同種をスタックするため）
         const generatedItem: GeneratedItem = {
-          id: `found_${itemDrop.itemId}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          name: itemDrop.name,
-          nameJa: itemDrop.name,
+          id: itemDrop.itemId,
+          name: definition?.name || itemDrop.name,
+          nameJa: definition?.nameJa || itemDrop.name,
           type: itemDrop.type,
-          description: `派遣で発見された${itemDrop.name}`,
+          description: definition?.description || `派遣で発見された${itemDrop.name}`,
           quantity,
           value: itemDrop.value,
-          foundCircumstances: this.generateItemFoundStory(itemDrop, trainer),
+          effects: definition && { ...definition.effects },
+          foundCircumstances: this.generateItemFoundStory(itemDrop, trainer, random),
           rarityBonus: this.getRarityBonus(itemDrop.rarity)
         }
         
@@ -427,18 +507,20 @@ export class ExpeditionRewardSystem {
   /**
    * ポケモンを作成
    */
-  private async createPokemon(pokemonDrop: DropPokemon, trainer: Trainer, expedition: Expedition): Promise<GeneratedPokemon> {
-    const speciesData = this.pokemonDatabase.get(pokemonDrop.speciesId)
-    const level = Math.floor(
-      Math.random() * (pokemonDrop.levelRange.max - pokemonDrop.levelRange.min + 1) + pokemonDrop.levelRange.min
-    )
+  private async createPokemon(
+    pokemonDrop: DropPokemon,
+    trainer: Trainer,
+    expedition: Expedition,
+    random: GameRandom
+  ): Promise<GeneratedPokemon> {
+    const level = random.integer(pokemonDrop.levelRange.min, pokemonDrop.levelRange.max)
     
     // 個体値をランダム生成（レアリティに応じて品質調整）
     const ivQuality = this.getIVQualityForRarity(pokemonDrop.rarity)
-    const ivs = this.generateIVs(ivQuality)
+    const ivs = this.generateIVs(ivQuality, random)
     
     // ステータス計算
-    const baseStats = speciesData?.baseStats || { hp: 45, attack: 49, defense: 49, specialAttack: 65, specialDefense: 65, speed: 45 }
+    const baseStats = this.getSpeciesBaseStats(pokemonDrop.speciesId)
     const stats = this.calculatePokemonStats(baseStats, level, ivs)
     
     return {
@@ -458,8 +540,8 @@ export class ExpeditionRewardSystem {
       status: 'healthy',
       moves: this.generateMoves(pokemonDrop.speciesId, level),
       ivs,
-      nature: this.selectRandomNature(),
-      catchCircumstances: this.generateCatchStory(pokemonDrop, trainer),
+      nature: this.selectRandomNature(random),
+      catchCircumstances: this.generateCatchStory(pokemonDrop, trainer, random),
       rarityBonus: this.getRarityBonus(pokemonDrop.rarity),
       caughtLocation: expedition.locationId
     }
@@ -483,6 +565,12 @@ export class ExpeditionRewardSystem {
             e.type === req.value && e.resolved
           )
           
+        case 'weather':
+          return !context.conditions || req.value.includes(context.conditions.weather)
+          
+        case 'time':
+          return !context.conditions || req.value.includes(context.conditions.timeOfDay)
+          
         default:
           return true
       }
@@ -529,6 +617,9 @@ export class ExpeditionRewardSystem {
     // イベント処理による経験値
     experience += events.filter(e => e.resolved).length * 30
     
+    // 研究系の能力で派遣から得る知見が増える
+    experience *= 1 + getTrainerAbilityEffects(trainer).researchSpeed
+    
     return Math.floor(experience)
   }
   
@@ -614,7 +705,12 @@ export class ExpeditionRewardSystem {
   /**
    * ドロップテーブルを取得
    */
-  private getDropTable(locationId: number, mode: Expedition['mode']): DropTable {
+  private getDropTable(
+    locationId: number,
+    mode: Expedition['mode'],
+    conditions?: LocationConditions,
+    now?: Date
+  ): DropTable {
     const baseTable = this.dropTables.get(locationId)
     if (!baseTable) {
       throw new Error(`ドロップテーブルが見つかりません: location ${locationId}`)
@@ -623,6 +719,30 @@ export class ExpeditionRewardSystem {
     // モードに応じてテーブルを調整
     const modifiedTable = { ...baseTable }
     
+    // 天候・時間帯・季節に合わないポケモンを除外し、天候の影響を出現率に反映
+    const location = getLocationDefinition(locationId)
+    if (location && conditions) {
+      const listed = new Set(location.pokemonEncounters.map(encounter => encounter.speciesId))
+      const available = new Set(
+        getPokemonEncounterChance(location, conditions.timeOfDay, conditions.weather, conditions.season)
+          .map(encounter => encounter.speciesId)
+      )
+      const weatherImpact = location.environmentalEffects.weatherImpact[conditions.weather] ?? 1.0
+      
+      modifiedTable.pokemon = modifiedTable.pokemon
+        .filter(p => !listed.has(p.speciesId) || available.has(p.speciesId))
+        .map(p => ({ ...p, baseDropRate: p.baseDropRate * weatherImpact }))
+    }
+    
+    // 開催中イベントのレアリティ別遭遇率倍率
+    if (now) {
+      const encounterBonuses = getEventEncounterBonuses(now)
+      modifiedTable.pokemon = modifiedTable.pokemon.map(p => ({
+        ...p,
+        baseDropRate: p.baseDropRate * encounterBonuses[p.rarity]
+      }))
+    }
+    
     switch (mode) {
       case 'aggressive':
         modifiedTable.pokemon = modifiedTable.pokemon.map(p => ({
@@ -670,8 +790,8 @@ export class ExpeditionRewardSystem {
     return qualityMap[rarity as keyof typeof qualityMap] || 0.3
   }
   
-  private generateIVs(quality: number): Pokemon['ivs'] {
-    const generateIV = () => Math.floor(Math.random() * (31 * quality) + (31 * (1 - quality)))
+  private generateIVs(quality: number, random: GameRandom): Pokemon['ivs'] {
+    const generateIV = () => Math.floor(random.next() * (31 * quality) + (31 * (1 - quality)))
     
     return {
       hp: generateIV(),
@@ -683,6 +803,10 @@ export class ExpeditionRewardSystem {
     }
   }
   
+  private getSpeciesBaseStats(speciesId: number): Omit<PokemonSpecies['baseStats'], 'total'> {
+    return this.pokemonDatabase.get(speciesId)?.baseStats || { hp: 45, attack: 49, defense: 49, specialAttack: 65, specialDefense: 65, speed: 45 }
+  }
+  
   private calculatePokemonStats(baseStats: any, level: number, ivs: Pokemon['ivs']): any {
     const calculateStat = (base: number, iv: number, level: number) => 
       Math.floor((2 * base + iv) * level / 100) + 5
@@ -702,37 +826,42 @@ export class ExpeditionRewardSystem {
   }
   
   private generateMoves(speciesId: number, level: number): string[] {
-    // TODO: より詳細な技習得システム
+    const learnedMoves = getMovesKnownAtLevel(speciesId, level)
+    if (learnedMoves.length > 0) {
+      return learnedMoves
+    }
+    
+    // 習得技データがない種族は基本技で代用
     const basicMoves = ['たいあたり', 'なきごえ', 'でんこうせっか']
     return basicMoves.slice(0, Math.min(3, Math.floor(level / 2) + 1))
   }
   
-  private selectRandomNature(): string {
+  private selectRandomNature(random: GameRandom): string {
     const natures = [
       'がんばりや', 'さみしがり', 'いじっぱり', 'やんちゃ', 'ゆうかん',
       'ずぶとい', 'すなお', 'のんき', 'わんぱく', 'のうてんき'
     ]
-    return natures[Math.floor(Math.random() * natures.length)]
+    return random.choice(natures)
   }
   
-  private generateCatchStory(pokemonDrop: DropPokemon, trainer: Trainer): string {
+  private generateCatchStory(pokemonDrop: DropPokemon, trainer: Trainer, random: GameRandom): string {
     const stories = [
       `${trainer.name}が慎重にアプローチして捕獲しました`,
       `偶然の出会いから信頼関係を築いて捕獲`,
       `激しい戦いの末、実力を認められて仲間に`,
       `お互いを理解し、自然な流れで仲間になりました`
     ]
-    return stories[Math.floor(Math.random() * stories.length)]
+    return random.choice(stories)
   }
   
-  private generateItemFoundStory(itemDrop: DropItem, trainer: Trainer): string {
+  private generateItemFoundStory(itemDrop: DropItem, trainer: Trainer, random: GameRandom): string {
     const stories = [
       `${trainer.name}が探索中に発見しました`,
       `隠された場所から見つけ出しました`,
       `他のポケモンが教えてくれた場所で発見`,
       `偶然の幸運で見つけることができました`
     ]
-    return stories[Math.floor(Math.random() * stories.length)]
+    return random.choice(stories)
   }
   
   private getRarityBonus(rarity: string): number {
@@ -771,6 +900,24 @@ export class ExpeditionRewardSystem {
             quantity: { min: 1, max: 2 },
             value: 200,
             rarity: 'uncommon'
+          },
+          {
+            itemId: 'capture_lure',
+            name: 'おびきよせのかおり',
+            type: 'consumable',
+            baseDropRate: 0.08,
+            quantity: { min: 1, max: 1 },
+            value: 800,
+            rarity: 'uncommon'
+          },
+          {
+            itemId: 'thunder_stone',
+            name: 'かみなりのいし',
+            type: 'rare',
+            baseDropRate: 0.03,
+            quantity: { min: 1, max: 1 },
+            value: 3000,
+            rarity: 'rare'
           }
         ],
         pokemon: [
@@ -822,21 +969,8 @@ export class ExpeditionRewardSystem {
   }
   
   private initializeItemDatabase(): void {
-    // アイテムデータベースの初期化
-    const itemData = [
-      {
-        id: 'berry_oran',
-        name: 'オレンのみ',
-        description: 'HPを少し回復する木の実'
-      },
-      {
-        id: 'potion',
-        name: 'キズぐすり',
-        description: 'ポケモンのHPを20回復する'
-      }
-    ]
-    
-    itemData.forEach(item => {
+    // アイテムデータベースの初期化（静的データのアイテム定義を使用）
+    Object.values(ITEM_DEFINITIONS).forEach(item => {
       this.itemDatabase.set(item.id, item)
     })
   }
@@ -0,0 +1,277 @@
+/**
+ * 派遣の時間経過シミュレーション
+ * リアルタイムエンジンと共有する進行計算と、不在中の派遣をまとめて解決するキャッチアップ処理
+ */
+
+import type { Expedition, ExpeditionEvent, Trainer, Pokemon, Item } from '@/lib/game-state/types'
+import { GameRandom } from '@/lib/game-logic/random-system'
+import { expeditionEventSystem, type EventResolution } from './ExpeditionEventSystem'
+import { expeditionRewardSystem, type ExpeditionLoot } from './ExpeditionRewardSystem'
+import { evaluateTeam, createTeamTrainer } from './ExpeditionTeam'
+import { evaluateParty, createPartyRoster, applyEventDamage, summarizePartyRoster } from './ExpeditionParty'
+import { rollExpeditionInjuries } from '@/lib/game-state/medical'
+import { calculateBurnoutModifier } from '@/lib/game-state/wellbeing'
+import { getTrainerAbilityEffects } from '@/lib/game-state/skills'
+
+export type ExpeditionStage = 'preparation' | 'early' | 'middle' | 'late' | 'completion'
+export type ExpeditionRiskLevel = 'low' | 'medium' | 'high' | 'critical'
+
+/**
+ * 派遣シードから派生したサブシステム別の乱数列
+ * 系統ごとに独立しているため、イベント数が変わっても報酬の乱数はずれない
+ */
+export interface ExpeditionRandomStreams {
+  seed: number
+  schedule: GameRandom
+  events: GameRandom
+  encounters: GameRandom
+  rewards: GameRandom
+  captures: GameRandom
+  party: GameRandom
+  medical: GameRandom
+}
+
+export interface ExpeditionCatchUpResult {
+  expeditionId: string
+  elapsedTime: number // ms
+  progress: number // 0.0 to 1.0
+  currentStage: ExpeditionStage
+  stagesReached: ExpeditionStage[]
+  riskLevel: ExpeditionRiskLevel
+  events: ExpeditionEvent[]
+  resolutions: EventResolution[]
+  completed: boolean
+  loot: ExpeditionLoot | null
+  result?: NonNullable<Expedition['result']>
+}
+
+const STAGE_ORDER: ExpeditionStage[] = ['preparation', 'early', 'middle', 'late', 'completion']
+
+// 不在中のイベント間隔（リアルタイムの30秒間隔では数時間で数百件になるため粗くする）
+const CATCH_UP_EVENT_INTERVAL = 20 * 60 * 1000 // 20分
+const MAX_CATCH_UP_EVENTS = 24
+
+/**
+ * 派遣シードから乱数列を生成
+ */
+export const createExpeditionRandomStreams = (seed: number): ExpeditionRandomStreams => {
+  const root = new GameRandom(seed)
+  return {
+    seed,
+    schedule: root.fork('schedule'),
+    events: root.fork('events'),
+    encounters: root.fork('encounters'),
+    rewards: root.fork('rewards'),
+    captures: root.fork('captures'),
+    party: root.fork('party'),
+    medical: root.fork('medical')
+  }
+}
+
+/**
+ * 進行率からステージを判定
+ */
+export const determineExpeditionStage = (progress: number): ExpeditionStage => {
+  if (progress < 0.1) return 'preparation'
+  if (progress < 0.3) return 'early'
+  if (progress < 0.7) return 'middle'
+  if (progress < 0.95) return 'late'
+  return 'completion'
+}
+
+/**
+ * ステージと進行率から現在のリスクレベルを計算
+ */
+export const calculateStageRisk = (stage: ExpeditionStage, overallProgress: number): ExpeditionRiskLevel => {
+  let baseRisk = 0.4 // ベースリスク
+
+  // ステージによるリスク変動
+  switch (stage) {
+    case 'preparation':
+      baseRisk *= 0.3
+      break
+    case 'early':
+      baseRisk *= 0.7
+      break
+    case 'middle':
+      baseRisk *= 1.2
+      break
+    case 'late':
+      baseRisk *= 1.5
+      break
+    case 'completion':
+      baseRisk *= 0.8
+      break
+  }
+
+  // 進行率による変動
+  baseRisk += Math.sin(overallProgress * Math.PI) * 0.3
+
+  if (baseRisk < 0.3) return 'low'
+  if (baseRisk < 0.6) return 'medium'
+  if (baseRisk < 0.8) return 'high'
+  return 'critical'
+}
+
+/**
+ * ステージごとのイベント発生頻度倍率
+ */
+export const getStageEventMultiplier = (stage: string): number => {
+  switch (stage) {
+    case 'preparation': return 3.0
+    case 'early': return 2.0
+    case 'middle': return 1.0
+    case 'late': return 1.5
+    case 'completion': return 2.5
+    default: return 1.0
+  }
+}
+
+/**
+ * 不在中の経過時間を一括でシミュレート
+ * 派遣開始時点からシードで再生するため、同じ入力なら何度呼んでも同じ結果になる
+ * チーム派遣ではスキルを合算した代表トレーナーが判断し、相性と職業の補完性で成功度が変わる
+ * 同行した手持ちポケモンはタイプ相性とレベルで成功度を変え、イベントの失敗と捕獲前バトルでHPを消耗する
+ * 失敗した危険・悪天候イベントでは、メンバーや手持ちがけが・病気を負うことがある
+ * 疲労や士気の低下で燃え尽きかけたメンバーがいると成功度が下がる
+ * ゲーム状態は変更せず、反映は呼び出し側（GameStateManager）が行う
+ */
+export const simulateExpeditionCatchUp = async (
+  expedition: Expedition,
+  members: Trainer | Trainer[],
+  elapsedTime: number,
+  party: Pokemon[] = []
+): Promise<ExpeditionCatchUpResult> => {
+  const team = Array.isArray(members) ? members : [members]
+  const trainer = createTeamTrainer(team)
+  const startTime = new Date(expedition.startTime).getTime()
+  const totalDuration = Math.max(new Date(expedition.estimatedEndTime).getTime() - startTime, 1)
+  const simulatedTime = Math.min(Math.max(elapsedTime, 0), totalDuration)
+  const progress = simulatedTime / totalDuration
+  const currentStage = determineExpeditionStage(progress)
+
+  const streams = createExpeditionRandomStreams(expedition.seed)
+  const events: ExpeditionEvent[] = []
+  const resolutions: EventResolution[] = []
+
+  // 過去の再生結果に影響されないよう、この派遣のイベント状態を初期化
+  expeditionEventSystem.resetExpedition(expedition.id)
+
+  let eventTime = nextCatchUpEventDelay('preparation', streams.schedule)
+  while (eventTime <= simulatedTime && events.length < MAX_CATCH_UP_EVENTS) {
+    const eventProgress = eventTime / totalDuration
+    const eventStage = determineExpeditionStage(eventProgress)
+    const riskLevel = calculateStageRisk(eventStage, eventProgress)
+
+    const event = expeditionEventSystem.generateEvent(
+      expedition.id,
+      expedition,
+      trainer,
+      eventStage,
+      riskLevel,
+      streams.events,
+      startTime + eventTime
+    )
+
+    if (event) {
+      const choiceId = expeditionEventSystem.selectAutoChoice(event, trainer, expedition.mode, party)
+      if (choiceId) {
+        resolutions.push(
+          await expeditionEventSystem.processChoice(expedition.id, event.id, choiceId, trainer, streams.events, party)
+        )
+      }
+      events.push(event)
+    }
+
+    eventTime += nextCatchUpEventDelay(eventStage, streams.schedule)
+  }
+
+  const completed = progress >= 1.0
+  const result: ExpeditionCatchUpResult = {
+    expeditionId: expedition.id,
+    elapsedTime: simulatedTime,
+    progress,
+    currentStage,
+    stagesReached: STAGE_ORDER.slice(0, STAGE_ORDER.indexOf(currentStage) + 1),
+    riskLevel: calculateStageRisk(currentStage, progress),
+    events,
+    resolutions,
+    completed,
+    loot: null
+  }
+
+  if (!completed) return result
+
+  // 自動選択の成功率を派遣全体の成功度として報酬を生成
+  const successfulChoices = resolutions.filter(resolution => resolution.success).length
+  const choiceRate = resolutions.length > 0 ? successfulChoices / resolutions.length : 1.0
+  const successRate = Math.min(
+    1.0,
+    choiceRate
+      * evaluateTeam(team).successModifier
+      * evaluateParty(party, expedition.locationId).successModifier
+      * calculateBurnoutModifier(team)
+      * (1 + getTrainerAbilityEffects(trainer).expeditionSuccess)
+  )
+  
+  // 失敗したイベントで手持ちが消耗した状態で捕獲前バトルに臨む
+  const roster = createPartyRoster(party)
+  applyEventDamage(roster, resolutions.length - successfulChoices, streams.party)
+  const loot = await expeditionRewardSystem.generateExpeditionRewards(
+    expedition,
+    trainer,
+    events,
+    successRate,
+    totalDuration,
+    streams.rewards,
+    roster
+  )
+
+  const caughtDate = new Date(startTime + totalDuration).toISOString()
+  const pokemonCaught: Pokemon[] = loot.pokemon.map((pokemon, index) => {
+    const { catchCircumstances, rarityBonus, ...stats } = pokemon
+    return {
+      ...stats,
+      id: `${expedition.id}_pokemon_${index}`,
+      caughtDate,
+      // チーム派遣では捕獲したポケモンを順番にメンバーへ割り当てる（distributeTeamRewards と同じ順）
+      caughtBy: team[index % team.length].id,
+      originalTrainer: team[index % team.length].id
+    }
+  })
+  const itemsFound: Item[] = loot.items.map(({ foundCircumstances, rarityBonus, ...item }) => item)
+  const injuries = rollExpeditionInjuries(
+    resolutions.map(resolution => ({
+      type: events.find(event => event.id === resolution.eventId)?.type ?? 'pokemon_encounter',
+      success: resolution.success
+    })),
+    team.map(member => member.id),
+    party.map(pokemon => pokemon.id),
+    streams.medical
+  )
+
+  const success = successRate >= 0.5
+  result.loot = loot
+  result.result = {
+    success,
+    pokemonCaught,
+    itemsFound,
+    moneyEarned: loot.money + resolutions.reduce((sum, r) => sum + r.result.moneyGained, 0),
+    experienceGained: loot.experience + resolutions.reduce((sum, r) => sum + r.result.experienceGained, 0),
+    trainerExpGained: loot.trainerExperience,
+    partyReports: roster.length > 0 ? summarizePartyRoster(roster) : undefined,
+    injuries: injuries.length > 0 ? injuries : undefined,
+    summary: success
+      ? `不在の間に派遣が完了しました。${loot.summary}`
+      : `不在の間に派遣が終了しましたが、思うような成果は得られませんでした。${loot.summary}`
+  }
+
+  return result
+}
+
+/**
+ * 不在中の次のイベントまでの時間を計算
+ */
+const nextCatchUpEventDelay = (stage: string, random: GameRandom): number => {
+  return CATCH_UP_EVENT_INTERVAL * getStageEventMultiplier(stage) * (0.5 + random.next())
+}
@@ -0,0 +1,165 @@
+/**
+ * チーム派遣
+ * 2〜4人のトレーナーの編成評価（スキルの合算・チームワークの相性・職業の補完性）と、
+ * 経験値・報酬の分配を行う純粋な計算処理
+ */
+
+import type { Expedition, Trainer } from '@/lib/game-state/types'
+import { JOB_DEFINITIONS } from '@/lib/static-data/jobs'
+import { getActiveAbilityIds } from '@/lib/game-state/skills'
+
+type TrainerSkill = keyof Trainer['skills']
+
+export interface TeamEvaluation {
+  size: number
+  skills: Trainer['skills'] // 合算後のスキル
+  synergy: number // -1.0 to 1.0（チームワークの相性）
+  complementarity: number // 0.0 to 1.0（職業の補完性）
+  successModifier: number // 派遣の成功度に掛ける倍率
+}
+
+export interface TeamRewardShare {
+  trainerId: string
+  experience: number
+  earnings: number
+  pokemonCaught: number
+}
+
+export const MIN_TEAM_SIZE = 2
+export const MAX_TEAM_SIZE = 4
+
+const SKILL_CAP = 10
+const SUPPORT_SKILL_RATE = 0.25 // 最も得意なメンバー以外のスキルの寄与率
+const STRONG_AFFINITY = 2 // 職業の適性がこの値以上のスキルを「カバーしている」とみなす
+const SYNERGY_WEIGHT = 0.1
+const COMPLEMENTARITY_WEIGHT = 0.2
+const TEAM_EXPERIENCE_BONUS = 0.1 // メンバー1人追加ごとの経験値総量の増加
+
+const SKILLS: TrainerSkill[] = ['capture', 'exploration', 'battle', 'research', 'healing']
+
+/**
+ * 派遣メンバーのID（先頭はリーダー）
+ */
+export const getExpeditionMemberIds = (expedition: Pick<Expedition, 'trainerId' | 'memberIds'>): string[] => {
+  return expedition.memberIds && expedition.memberIds.length > 0 ? expedition.memberIds : [expedition.trainerId]
+}
+
+/**
+ * 編成できるか判定（できない場合は理由を返す）
+ */
+export const validateTeam = (team: Trainer[]): string | undefined => {
+  if (team.length === 0) return 'トレーナーを選択してください'
+  if (team.length > MAX_TEAM_SIZE) return `チームは${MAX_TEAM_SIZE}人までです`
+  if (new Set(team.map(trainer => trainer.id)).size !== team.length) return '同じトレーナーが重複しています'
+
+  const recovering = team.find(trainer => trainer.medical)
+  if (recovering) return `${recovering.name}は療養中です`
+
+  const unavailable = team.find(trainer => trainer.status !== 'available')
+  if (unavailable) return `${unavailable.name}は派遣できる状態ではありません`
+
+  return undefined
+}
+
+// =================== 編成評価 ===================
+
+/**
+ * スキルの合算（各スキルは最も得意なメンバーの値に、他のメンバーの値の一部を加える）
+ */
+export const combineTeamSkills = (team: Trainer[]): Trainer['skills'] => {
+  return SKILLS.reduce((skills, skill) => {
+    const values = team.map(trainer => trainer.skills[skill]).sort((a, b) => b - a)
+    const support = values.slice(1).reduce((sum, value) => sum + value, 0) * SUPPORT_SKILL_RATE
+    skills[skill] = Math.min(SKILL_CAP, Math.round(((values[0] ?? 0) + support) * 10) / 10)
+    return skills
+  }, {} as Trainer['skills'])
+}
+
+/**
+ * チームワークの相性（協調的なメンバーが多いほど高く、独立心の強いメンバーが多いほど下がる）
+ */
+export const calculateTeamSynergy = (team: Trainer[]): number => {
+  if (team.length < MIN_TEAM_SIZE) return 0
+
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+  const teamwork = average(team.map(trainer => trainer.personality.teamwork)) / 10
+  const independence = Math.max(0, average(team.map(trainer => trainer.personality.independence)) - 5) / 10
+
+  return Math.max(-1, Math.min(1, teamwork - independence))
+}
+
+/**
+ * 職業の補完性（JOB_DEFINITIONS の適性で得意なスキルをどれだけ分担できているか、職業の重複が少ないか）
+ */
+export const calculateJobComplementarity = (team: Trainer[]): number => {
+  if (team.length < MIN_TEAM_SIZE) return 0
+
+  const covered = SKILLS.filter(skill =>
+    team.some(trainer => (JOB_DEFINITIONS[trainer.job]?.skillAffinities[skill] ?? 0) >= STRONG_AFFINITY)
+  ).length
+  const distinctJobs = new Set(team.map(trainer => trainer.job)).size
+
+  return (covered / SKILLS.length + distinctJobs / team.length) / 2
+}
+
+export const evaluateTeam = (team: Trainer[]): TeamEvaluation => {
+  const synergy = calculateTeamSynergy(team)
+  const complementarity = calculateJobComplementarity(team)
+
+  // 単独派遣は補正なし
+  const successModifier = team.length < MIN_TEAM_SIZE
+    ? 1.0
+    : (1 + synergy * SYNERGY_WEIGHT) * (1 - COMPLEMENTARITY_WEIGHT / 2 + complementarity * COMPLEMENTARITY_WEIGHT)
+
+  return {
+    size: team.length,
+    skills: combineTeamSkills(team),
+    synergy,
+    complementarity,
+    successModifier
+  }
+}
+
+/**
+ * チームを1人のトレーナーとして扱うための代表（イベント・報酬システムへ渡す）
+ * リーダーのIDを引き継ぎ、スキルは合算、レベルと派遣経験は最も高いメンバーの値を使う
+ * 能力はメンバー全員の習得済みの能力・専門分野を重複なく持つ
+ */
+export const createTeamTrainer = (team: Trainer[]): Trainer => {
+  const [leader] = team
+  if (team.length < MIN_TEAM_SIZE) return leader
+
+  return {
+    ...leader,
+    name: `${leader.name}チーム`,
+    level: Math.max(...team.map(trainer => trainer.level)),
+    totalExpeditions: Math.max(...team.map(trainer => trainer.totalExpeditions)),
+    skills: combineTeamSkills(team),
+    unlockedAbilities: Array.from(new Set(team.flatMap(trainer => getActiveAbilityIds(trainer)))),
+    specialization: undefined
+  }
+}
+
+// =================== 報酬分配 ===================
+
+/**
+ * 経験値・稼ぎ・捕獲数をメンバーで分配（端数はリーダーに加算）
+ * 経験値は人数に応じて総量が増えるため、チームで行っても1人あたりが極端に減らない
+ */
+export const distributeTeamRewards = (
+  result: Pick<NonNullable<Expedition['result']>, 'trainerExpGained' | 'moneyEarned' | 'pokemonCaught'>,
+  memberIds: string[]
+): TeamRewardShare[] => {
+  const size = memberIds.length
+  const totalExperience = Math.floor(result.trainerExpGained * (1 + TEAM_EXPERIENCE_BONUS * (size - 1)))
+  const experience = Math.floor(totalExperience / size)
+  const earnings = Math.floor(result.moneyEarned / size)
+
+  return memberIds.map((trainerId, index) => ({
+    trainerId,
+    experience: experience + (index === 0 ? totalExperience - experience * size : 0),
+    earnings: earnings + (index === 0 ? result.moneyEarned - earnings * size : 0),
+    // 捕獲したポケモンは順番に担当を割り当てる
+    pokemonCaught: result.pokemonCaught.filter((_, pokemonIndex) => pokemonIndex % size === index).length
+  }))
+}
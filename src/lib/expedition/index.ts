@@ -7,6 +7,56 @@
 export { ExpeditionEngine, expeditionEngine } from './ExpeditionEngine'
 export type { ExpeditionProgress, ExpeditionOutcome } from './ExpeditionEngine'
 
+// シミュレーション（シード乱数・オフライン進行）
+export {
+  createExpeditionRandomStreams,
+  determineExpeditionStage,
+  calculateStageRisk,
+  simulateExpeditionCatchUp
+} from './ExpeditionSimulator'
+export type {
+  ExpeditionStage,
+  ExpeditionRiskLevel,
+  ExpeditionRandomStreams,
+  ExpeditionCatchUpResult
+} from './ExpeditionSimulator'
+
+// チーム派遣
+export {
+  MIN_TEAM_SIZE,
+  MAX_TEAM_SIZE,
+  getExpeditionMemberIds,
+  validateTeam,
+  combineTeamSkills,
+  calculateTeamSynergy,
+  calculateJobComplementarity,
+  evaluateTeam,
+  createTeamTrainer,
+  distributeTeamRewards
+} from './ExpeditionTeam'
+export type { TeamEvaluation, TeamRewardShare } from './ExpeditionTeam'
+
+// 派遣パーティ（手持ちポケモン）
+export {
+  MAX_PARTY_SIZE,
+  getTrainerParty,
+  getDeployableParty,
+  findPartyOwner,
+  validateParty,
+  getPokemonTypes,
+  calculateTypeAdvantage,
+  getLocationWildLevel,
+  calculateLevelFactor,
+  evaluateParty,
+  createPartyRoster,
+  selectBattleLead,
+  recordPartyBattle,
+  applyEventDamage,
+  summarizePartyRoster,
+  calculatePartyExperience
+} from './ExpeditionParty'
+export type { PartyEvaluation, PartyMember } from './ExpeditionParty'
+
 // イベントシステム
 export { ExpeditionEventSystem, expeditionEventSystem } from './ExpeditionEventSystem'
 export type { 
@@ -5,10 +5,19 @@ import {
   DEFAULT_SERIALIZATION_CONFIG,
   DataIntegrityCheck,
   MigrationFunction,
-  DataVersion
+  DataVersion,
+  SeasonalEventData,
+  SpecialEventData,
+  BreedingSessionSaveData,
+  PokemonEggSaveData,
+  TrainingSlotSaveData
 } from './GameDataSchema';
 import { GameContext } from '../game-state/types';
+import type { BreedingSession, PokemonEgg } from '../pokemon/PokemonBreedingSystem';
+import type { TrainingSlot } from '../pokemon/PokemonTrainingFacility';
 import { safeLocalStorage } from '../storage';
+import { getAllAchievements } from '../static-data/achievements';
+import { getEventCalendar } from '../game-logic/event-calendar';
 
 export interface SaveMetadata {
   id: string;
@@ -56,14 +65,15 @@ export class GameDataManager {
             data.player?.id &&
             data.player?.name &&
             data.player?.level >= 1 &&
-            data.player?.money >= 0
+            Number.isFinite(data.player?.money)
           );
         },
         fix: (data: GameSaveData) => {
           if (!data.player?.id) data.player.id = `player_${Date.now()}`;
           if (!data.player?.name) data.player.name = 'Unknown Player';
           if (data.player?.level < 1) data.player.level = 1;
-          if (data.player?.money < 0) data.player.money = 0;
+          // 借入の返済で残高がマイナスになることがあるため、数値でない場合のみ補正する
+          if (!Number.isFinite(data.player?.money)) data.player.money = 0;
           return data;
         },
         critical: true
@@ -132,6 +142,88 @@ export class GameDataManager {
           };
         },
         validate: (data: GameSaveData) => !!data.research && !!data.statistics
+      },
+      {
+        from: { major: 1, minor: 0, patch: 0 },
+        to: { major: 1, minor: 2, patch: 0 },
+        migrate: (oldData: any): GameSaveData => {
+          // v1.0.0からv1.2.0へ: アチーブメントとタスク履歴の欠落を補完
+          return {
+            ...oldData,
+            version: '1.2.0',
+            achievements: oldData.achievements || { unlocked: [], progress: [], totalPoints: 0 },
+            events: {
+              ...this.createEventCalendarData(),
+              ...oldData.events,
+              daily: oldData.events?.daily || [],
+              weekly: oldData.events?.weekly || []
+            }
+          };
+        },
+        validate: (data: GameSaveData) => !!data.achievements && Array.isArray(data.events?.daily) && Array.isArray(data.events?.weekly)
+      },
+      {
+        from: { major: 1, minor: 2, patch: 0 },
+        to: { major: 1, minor: 3, patch: 0 },
+        migrate: (oldData: any): GameSaveData => {
+          // v1.2.0からv1.3.0へ: 融資・破産状態は GameData 側で管理するため構造の変更はない
+          return {
+            ...oldData,
+            version: '1.3.0'
+          };
+        },
+        validate: (data: GameSaveData) => !!data.player
+      },
+      {
+        from: { major: 1, minor: 3, patch: 0 },
+        to: { major: 1, minor: 4, patch: 0 },
+        migrate: (oldData: any): GameSaveData => {
+          // v1.3.0からv1.4.0へ: マーケットは GameData 側で管理するため構造の変更はない
+          return {
+            ...oldData,
+            version: '1.4.0'
+          };
+        },
+        validate: (data: GameSaveData) => !!data.player
+      },
+      {
+        from: { major: 1, minor: 4, patch: 0 },
+        to: { major: 1, minor: 5, patch: 0 },
+        migrate: (oldData: any): GameSaveData => {
+          // v1.4.0からv1.5.0へ: 雇用契約と元トレーナーの記録は GameData 側で管理するため構造の変更はない
+          return {
+            ...oldData,
+            version: '1.5.0'
+          };
+        },
+        validate: (data: GameSaveData) => !!data.player
+      },
+      {
+        from: { major: 1, minor: 5, patch: 0 },
+        to: { major: 1, minor: 6, patch: 0 },
+        migrate: (oldData: any): GameSaveData => {
+          // v1.5.0からv1.6.0へ: 育て屋と訓練施設の進行状況を追加
+          return {
+            ...oldData,
+            version: '1.6.0',
+            breeding: oldData.breeding || { sessions: [], eggs: [] },
+            training: oldData.training || { slots: [] }
+          };
+        },
+        validate: (data: GameSaveData) => Array.isArray(data.breeding?.eggs) && Array.isArray(data.training?.slots)
+      },
+      {
+        from: { major: 1, minor: 6, patch: 0 },
+        to: { major: 1, minor: 7, patch: 0 },
+        migrate: (oldData: any): GameSaveData => {
+          // v1.6.0からv1.7.0へ: 訓練施設の強化レベルを追加
+          return {
+            ...oldData,
+            version: '1.7.0',
+            training: { ...oldData.training, facilityLevels: oldData.training?.facilityLevels || {} }
+          };
+        },
+        validate: (data: GameSaveData) => !!data.training?.facilityLevels
       }
     ];
   }
@@ -153,7 +245,7 @@ export class GameDataManager {
         experience: gameState.player?.experience || 0,
         money: gameState.player?.money || 5000,
         reputation: gameState.player?.reputation || 0,
-        achievements: [] as string[], // TODO: implement achievements system
+        achievements: gameState.achievements?.unlocked.map(a => a.id) || [],
         playTime: 0, // TODO: implement play time tracking
         settings: this.createDefaultPlayerSettings() // TODO: implement player settings system
       },
@@ -166,11 +258,21 @@ export class GameDataManager {
         totalCaught: gameState.pokemon?.length || 0
       },
 
+      breeding: {
+        sessions: gameState.breeding?.sessions.map(s => this.convertToBreedingSessionData(s)) || [],
+        eggs: gameState.breeding?.eggs.map(e => this.convertToEggData(e)) || []
+      },
+
+      training: {
+        slots: gameState.pokemonTraining?.slots.map(s => this.convertToTrainingSlotData(s)) || [],
+        facilityLevels: { ...gameState.pokemonTraining?.facilityLevels }
+      },
+
       trainers: {
         hired: gameState.trainers?.map(t => this.convertToTrainerSaveData(t)) || [],
         available: [],
-        dismissed: 0,
-        totalHired: gameState.trainers?.length || 0
+        dismissed: gameState.formerTrainers?.filter(f => f.reason === 'dismissed').length || 0,
+        totalHired: (gameState.trainers?.length || 0) + (gameState.formerTrainers?.length || 0)
       },
 
       facilities: {
@@ -201,16 +303,15 @@ export class GameDataManager {
       },
 
       achievements: {
-        unlocked: [],
-        progress: [],
-        totalPoints: 0
+        unlocked: gameState.achievements?.unlocked || [],
+        progress: gameState.achievements?.progress || [],
+        totalPoints: gameState.achievements?.totalPoints || 0
       },
 
       events: {
-        seasonal: [],
-        special: [],
-        daily: [],
-        weekly: []
+        ...this.createEventCalendarData(),
+        daily: gameState.tasks?.daily.date ? [gameState.tasks.daily] : [],
+        weekly: gameState.tasks?.weekly.week ? [gameState.tasks.weekly] : []
       },
 
       progression: {
@@ -457,7 +558,7 @@ export class GameDataManager {
 
   // データマイグレーション
   private migrateData(data: any): GameSaveData {
-    const currentVersion = this.parseVersion(data.version || '0.0.0');
+    let currentVersion = this.parseVersion(data.version || '0.0.0');
     const targetVersion = this.parseVersion(CURRENT_GAME_VERSION);
 
     if (this.compareVersions(currentVersion, targetVersion) >= 0) {
@@ -474,6 +575,8 @@ export class GameDataManager {
           if (!migration.validate(migratedData)) {
             throw new Error('Migration validation failed');
           }
+          // 次の段階は変換後のバージョンから判定する
+          currentVersion = migration.to;
           console.log(`マイグレーション完了: ${migration.from} -> ${migration.to}`);
         } catch (error) {
           console.error(`マイグレーションエラー: ${migration.from} -> ${migration.to}`, error);
@@ -643,10 +746,63 @@ export class GameDataManager {
     };
   }
 
+  /**
+   * イベントカレンダーの開催状況をセーブデータ形式に変換
+   */
+  private createEventCalendarData(now: Date = new Date()): { seasonal: SeasonalEventData[]; special: SpecialEventData[] } {
+    const calendar = getEventCalendar(now);
+
+    return {
+      seasonal: calendar
+        .filter(event => event.definition.kind === 'seasonal' && event.definition.season)
+        .map(event => ({
+          id: event.definition.id,
+          name: event.definition.name,
+          season: event.definition.season!,
+          startDate: event.start.toISOString(),
+          endDate: event.end.toISOString(),
+          active: event.status === 'active',
+          participated: false,
+          progress: 0,
+          rewards: { claimed: false, items: [] },
+          specialOffers: (event.definition.effects.discountedItems || []).map(itemId => ({
+            id: itemId,
+            purchased: false,
+            discount: 1 - (event.definition.effects.shopPriceMultiplier ?? 1)
+          })),
+          leaderboard: { score: 0, category: event.definition.id }
+        })),
+      special: calendar
+        .filter(event => event.definition.kind === 'special')
+        .map(event => ({
+          id: event.definition.id,
+          name: event.definition.name,
+          type: event.definition.specialType || 'limited',
+          startDate: event.start.toISOString(),
+          endDate: event.end.toISOString(),
+          active: event.status === 'active',
+          completed: event.status === 'ended',
+          objectives: [],
+          storyProgress: 0,
+          choices: []
+        }))
+    };
+  }
+
   private calculateStatistics(gameContext: GameContext): any {
     const { gameState } = gameContext;
     // 実際の統計計算ロジックを実装
-    return this.createDefaultStatistics();
+    const statistics = this.createDefaultStatistics();
+
+    const unlocked = gameState.achievements?.unlocked || [];
+    statistics.achievements = {
+      totalUnlocked: unlocked.length,
+      totalPoints: gameState.achievements?.totalPoints || 0,
+      rareAchievements: unlocked.filter(a => a.tier === 'gold' || a.tier === 'platinum' || a.tier === 'legendary').length,
+      completionRate: unlocked.length / getAllAchievements().length
+    };
+
+    return statistics;
   }
 
   // データ変換メソッド
@@ -662,6 +818,7 @@ export class GameDataManager {
       evs: pokemon.evs || { hp: 0, attack: 0, defense: 0, specialAttack: 0, specialDefense: 0, speed: 0 },
       nature: pokemon.nature || 'Hardy',
       ability: pokemon.ability || 'Unknown',
+      heldItem: pokemon.heldItem,
       moves: pokemon.moves || [],
       types: pokemon.types || ['Normal'],
       happiness: pokemon.happiness || pokemon.friendship || 50,
@@ -676,6 +833,52 @@ export class GameDataManager {
     };
   }
 
+  private convertToBreedingSessionData(session: BreedingSession): BreedingSessionSaveData {
+    return {
+      id: session.id,
+      parent1Id: session.parent1Id,
+      parent2Id: session.parent2Id,
+      startTime: new Date(session.startTime).toISOString(),
+      endTime: new Date(session.endTime).toISOString(),
+      status: session.status
+    };
+  }
+
+  private convertToEggData(egg: PokemonEgg): PokemonEggSaveData {
+    return {
+      id: egg.id,
+      speciesId: egg.speciesId,
+      parentIds: [egg.parent1Id, egg.parent2Id],
+      createdAt: new Date(egg.createdAt).toISOString(),
+      stepsRequired: egg.stepsRequired,
+      currentSteps: egg.currentSteps,
+      inheritedTraits: {
+        ivs: egg.inheritedTraits.ivs,
+        nature: egg.inheritedTraits.nature,
+        moves: egg.inheritedTraits.moves
+      },
+      isShiny: egg.isShiny,
+      rarity: egg.rarity,
+      carrierId: egg.carrierId
+    };
+  }
+
+  private convertToTrainingSlotData(slot: TrainingSlot): TrainingSlotSaveData {
+    return {
+      id: slot.id,
+      pokemonId: slot.pokemonId,
+      facilityId: slot.facilityId,
+      programId: slot.programId,
+      startTime: new Date(slot.startTime).toISOString(),
+      endTime: new Date(slot.endTime).toISOString(),
+      status: slot.status,
+      duration: slot.duration,
+      queuedAt: slot.queuedAt !== undefined ? new Date(slot.queuedAt).toISOString() : undefined,
+      remainingMs: slot.remainingMs,
+      cost: slot.cost
+    };
+  }
+
   private convertToTrainerSaveData(trainer: any): any {
     return {
       id: trainer.id,
@@ -28,6 +28,18 @@ export interface GameSaveData {
     totalCaught: number;
   };
 
+  // 育て屋データ
+  breeding: {
+    sessions: BreedingSessionSaveData[];
+    eggs: PokemonEggSaveData[];
+  };
+
+  // ポケモン訓練施設データ
+  training: {
+    slots: TrainingSlotSaveData[];
+    facilityLevels: Record<string, number>;
+  };
+
   // トレーナーデータ
   trainers: {
     hired: TrainerSaveData[];
@@ -146,6 +158,7 @@ export interface PokemonSaveData {
   };
   nature: string;
   ability: string;
+  heldItem?: string;
   moves: string[];
   types: string[];
   happiness: number;
@@ -175,6 +188,46 @@ export interface PokemonSaveData {
   };
 }
 
+export interface BreedingSessionSaveData {
+  id: string;
+  parent1Id: string;
+  parent2Id: string;
+  startTime: string;
+  endTime: string; // 進み具合は読み込み時に実時刻から求め直す
+  status: 'active' | 'ready' | 'completed' | 'cancelled';
+}
+
+export interface PokemonEggSaveData {
+  id: string;
+  speciesId: number;
+  parentIds: string[];
+  createdAt: string;
+  stepsRequired: number;
+  currentSteps: number;
+  inheritedTraits: {
+    ivs: Partial<PokemonSaveData['ivs']>;
+    nature?: string;
+    moves: string[];
+  };
+  isShiny: boolean;
+  rarity: string;
+  carrierId?: string; // タマゴを持ち歩いているトレーナー
+}
+
+export interface TrainingSlotSaveData {
+  id: string;
+  pokemonId: string;
+  facilityId: string;
+  programId: string;
+  startTime: string;
+  endTime: string;
+  status: 'queued' | 'active' | 'completed' | 'paused' | 'cancelled';
+  duration?: number; // ms（施設の速度ボーナス適用後）
+  queuedAt?: string; // 順番待ちの並び順
+  remainingMs?: number; // 一時停止時点の残り時間
+  cost?: number; // 予約時に支払った費用（取り消し時の返金額）
+}
+
 export interface TrainerSaveData {
   id: string;
   name: string;
@@ -674,7 +727,7 @@ export interface DataIntegrityCheck {
 }
 
 // 現在のゲームデータバージョン
-export const CURRENT_GAME_VERSION = "1.0.0";
+export const CURRENT_GAME_VERSION = "1.7.0";
 
 // データ圧縮とシリアライゼーション設定
 export interface SerializationConfig {
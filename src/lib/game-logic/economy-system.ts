@@ -1,6 +1,9 @@
 // 経済システム - 収入・支出・資産管理
 import { GAME_BALANCE } from '@/config/gameBalance'
 import { gameRandom } from './random-system'
+import { FinancialLedger } from './financial-ledger'
+import { getFinanceLockReason, MISSED_PAYROLL_PENALTY, type FinanceAction } from '@/lib/game-state/finance'
+import type { BankruptcyStage } from '@/lib/game-state/types'
 
 // 経済関連の型定義
 export interface Transaction {
@@ -55,6 +58,8 @@ export class EconomySystem {
   private transactions: Transaction[] = []
   private currentMoney: number = GAME_BALANCE.STARTING_MONEY
   private lastPaymentDate: string = ''
+  private bankruptcyStage: BankruptcyStage = 'solvent'
+  private missedPayrolls = 0
   
   constructor() {
     this.lastPaymentDate = new Date().toISOString().split('T')[0] // YYYY-MM-DD
@@ -170,11 +175,32 @@ export class EconomySystem {
     return jobMultipliers[jobName] || 1.0
   }
 
-  // 資金チェック機能
-  checkCanAfford(amount: number): boolean {
+  // 資金チェック機能（破産段階で制限されている行動は残高に関係なく不可）
+  checkCanAfford(amount: number, action?: FinanceAction): boolean {
+    if (action && this.getActionLockReason(action)) {
+      return false
+    }
     return this.currentMoney >= amount
   }
 
+  // 破産段階の設定（ゲーム状態の融資・給与処理から反映）
+  setBankruptcyStage(stage: BankruptcyStage): void {
+    this.bankruptcyStage = stage
+  }
+
+  getBankruptcyStage(): BankruptcyStage {
+    return this.bankruptcyStage
+  }
+
+  // 破産段階による行動制限の理由
+  getActionLockReason(action: FinanceAction): string | undefined {
+    return getFinanceLockReason(this.bankruptcyStage, action)
+  }
+
+  getMissedPayrolls(): number {
+    return this.missedPayrolls
+  }
+
   // トレーナー給与計算
   calculateTrainerSalary(trainer: any): TrainerSalary {
     const level = trainer.level || 1
@@ -250,8 +276,9 @@ export class EconomySystem {
     if (this.currentMoney < totalPayroll) {
       console.warn(`❌ 給与支払い不可: ¥${totalPayroll.toLocaleString()} 必要、残高: ¥${this.currentMoney.toLocaleString()}`)
       
-      // 緊急事態：部分支払いまたは借入
-      this.handlePayrollCrisis(totalPayroll, salaryDetails)
+      // 未払い：トレーナーの信頼度が下がり、次の給与日まで持ち越す
+      this.handlePayrollCrisis(trainers)
+      this.lastPaymentDate = today
       return false
     }
     
@@ -264,33 +291,26 @@ export class EconomySystem {
     )
     
     this.lastPaymentDate = today
+    this.missedPayrolls = 0
     
     console.log(`💰 給与支払い完了: ¥${totalPayroll.toLocaleString()} (${trainers.length}名)`)
     return true
   }
 
   // 給与支払い危機処理
-  private handlePayrollCrisis(requiredAmount: number, salaryDetails: TrainerSalary[]): void {
-    const shortage = requiredAmount - this.currentMoney
+  private handlePayrollCrisis(trainers: any[]): void {
+    this.missedPayrolls++
     
-    // 緊急借入（高金利）
-    const emergencyLoan = Math.ceil(shortage * 1.2) // 20%の利息
-    this.recordIncome(
-      'emergency',
-      emergencyLoan,
-      `緊急借入 (給与不足対応)`,
-      'emergency_loan'
-    )
-    
-    // 追加の利息支払い
-    this.recordExpense(
-      'emergency',
-      Math.floor(emergencyLoan * 0.1),
-      '緊急借入利息',
-      'loan_interest'
-    )
+    for (const trainer of trainers) {
+      if (typeof trainer.trust_level === 'number') {
+        trainer.trust_level = Math.max(0, trainer.trust_level - MISSED_PAYROLL_PENALTY.trust)
+      }
+      if (typeof trainer.morale === 'number') {
+        trainer.morale = Math.max(0, trainer.morale - MISSED_PAYROLL_PENALTY.morale)
+      }
+    }
     
-    console.warn(`🚨 緊急借入実行: ¥${emergencyLoan.toLocaleString()}`)
+    console.warn(`🚨 給与未払い (${this.missedPayrolls}回連続): トレーナーの信頼度・士気が低下`)
   }
 
   // 施設維持費計算
@@ -330,43 +350,34 @@ export class EconomySystem {
   }
 
   // 現在の財務状況取得
+  // 取引履歴から財務台帳を作成
+  getLedger(): FinancialLedger {
+    return new FinancialLedger(
+      this.transactions.map(t => ({ type: t.type, category: t.category, amount: t.amount, timestamp: t.date })),
+      { closingBalance: this.currentMoney }
+    )
+  }
+
   getFinancialStatus(): FinancialStatus {
     const now = new Date()
     const thirtyDaysAgo = new Date(now.getTime() - (30 * 24 * 60 * 60 * 1000))
+    const sixtyDaysAgo = new Date(now.getTime() - (60 * 24 * 60 * 60 * 1000))
+    const ledger = this.getLedger()
     
-    // 過去30日の取引を抽出
-    const recentTransactions = this.transactions.filter(t => 
-      new Date(t.date) >= thirtyDaysAgo
-    )
-    
-    const monthlyIncome = recentTransactions
-      .filter(t => t.type === 'income')
-      .reduce((sum, t) => sum + t.amount, 0)
-    
-    const monthlyExpenses = recentTransactions
-      .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0)
+    // 過去30日の収支
+    const recent = ledger.getSummary(thirtyDaysAgo)
+    const monthlyIncome = recent.income
+    const monthlyExpenses = recent.expenses
     
-    const totalIncome = this.transactions
-      .filter(t => t.type === 'income')
-      .reduce((sum, t) => sum + t.amount, 0)
+    const total = ledger.getSummary()
+    const totalIncome = total.income
+    const totalExpenses = total.expenses
     
-    const totalExpenses = this.transactions
-      .filter(t => t.type === 'expense')
-      .reduce((sum, t) => sum + t.amount, 0)
-    
-    const netIncome = totalIncome - totalExpenses
-    const monthlyBalance = monthlyIncome - monthlyExpenses
+    const netIncome = total.net
+    const monthlyBalance = recent.net
     
     // キャッシュフロートレンド分析
-    const previousMonthTransactions = this.transactions.filter(t => {
-      const transactionDate = new Date(t.date)
-      const sixtyDaysAgo = new Date(now.getTime() - (60 * 24 * 60 * 60 * 1000))
-      return transactionDate >= sixtyDaysAgo && transactionDate < thirtyDaysAgo
-    })
-    
-    const previousMonthBalance = previousMonthTransactions
-      .reduce((sum, t) => sum + (t.type === 'income' ? t.amount : -t.amount), 0)
+    const previousMonthBalance = ledger.getSummary(sixtyDaysAgo, thirtyDaysAgo).net
     
     let cashFlowTrend: 'positive' | 'negative' | 'stable' = 'stable'
     if (monthlyBalance > previousMonthBalance * 1.1) {
@@ -553,33 +564,18 @@ export class EconomySystem {
     const now = new Date()
     const thirtyDaysAgo = new Date(now.getTime() - (30 * 24 * 60 * 60 * 1000))
     
-    const recentTransactions = this.transactions.filter(t => 
-      new Date(t.date) >= thirtyDaysAgo
-    )
+    // 過去30日のカテゴリ別集計
+    const categories = Object.entries(this.getLedger().getSummary(thirtyDaysAgo).byCategory)
     
-    // カテゴリ別支出集計
-    const expensesByCategory = recentTransactions
-      .filter(t => t.type === 'expense')
-      .reduce((acc, t) => {
-        acc[t.category] = (acc[t.category] || 0) + t.amount
-        return acc
-      }, {} as Record<string, number>)
-    
-    // カテゴリ別収入集計
-    const incomesByCategory = recentTransactions
-      .filter(t => t.type === 'income')
-      .reduce((acc, t) => {
-        acc[t.category] = (acc[t.category] || 0) + t.amount
-        return acc
-      }, {} as Record<string, number>)
-    
-    const topExpenses = Object.entries(expensesByCategory)
-      .map(([category, amount]) => ({ category, amount }))
+    const topExpenses = categories
+      .filter(([, totals]) => totals.expenses > 0)
+      .map(([category, totals]) => ({ category, amount: totals.expenses }))
       .sort((a, b) => b.amount - a.amount)
       .slice(0, 5)
     
-    const topIncomes = Object.entries(incomesByCategory)
-      .map(([category, amount]) => ({ category, amount }))
+    const topIncomes = categories
+      .filter(([, totals]) => totals.income > 0)
+      .map(([category, totals]) => ({ category, amount: totals.income }))
       .sort((a, b) => b.amount - a.amount)
       .slice(0, 5)
     
@@ -0,0 +1,160 @@
+// イベントカレンダー
+// events.json の定義から開催期間を解決し、開催中イベントの効果を集計する
+
+import type { GameEventDefinition, EventRarity } from '@/lib/static-data/types'
+import { getAllEvents } from '@/lib/static-data/events'
+import { getItemDefinition } from '@/lib/static-data/items'
+
+export type EventStatus = 'active' | 'upcoming' | 'ended'
+
+export interface EventPeriod {
+  start: Date
+  end: Date // 終了日翌日の0時（この時刻は含まない）
+}
+
+export interface CalendarEvent extends EventPeriod {
+  definition: GameEventDefinition
+  status: EventStatus
+  recurring: boolean
+}
+
+// MM-DD 形式の日付は毎年開催として扱う
+const YEARLY_DATE_PATTERN = /^\d{2}-\d{2}$/
+
+const isRecurring = (definition: GameEventDefinition): boolean => YEARLY_DATE_PATTERN.test(definition.startDate)
+
+// 日付はローカル時刻の0時として解釈する
+const parseEventDate = (value: string, year: number): Date => {
+  const [y, m, d] = (YEARLY_DATE_PATTERN.test(value) ? `${year}-${value}` : value).split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+const buildPeriod = (definition: GameEventDefinition, year: number): EventPeriod => {
+  const start = parseEventDate(definition.startDate, year)
+  const end = parseEventDate(definition.endDate, year)
+
+  // 年をまたぐ毎年開催イベント（12-20〜01-05 など）
+  if (end < start) {
+    end.setFullYear(end.getFullYear() + 1)
+  }
+  end.setDate(end.getDate() + 1)
+
+  return { start, end }
+}
+
+/**
+ * 開催期間を解決
+ * 毎年開催のイベントは開催中または次回の期間を返す
+ */
+export const resolveEventPeriod = (definition: GameEventDefinition, now: Date = new Date()): EventPeriod => {
+  if (!isRecurring(definition)) {
+    return buildPeriod(definition, now.getFullYear())
+  }
+
+  const year = now.getFullYear()
+  const candidates = [year - 1, year, year + 1].map(y => buildPeriod(definition, y))
+  return candidates.find(period => now < period.end) ?? candidates[candidates.length - 1]
+}
+
+export const getEventStatus = (period: EventPeriod, now: Date = new Date()): EventStatus => {
+  if (now < period.start) return 'upcoming'
+  if (now >= period.end) return 'ended'
+  return 'active'
+}
+
+/**
+ * カレンダーを取得（開催中 → 開催予定 → 終了済みの順）
+ */
+export const getEventCalendar = (
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): CalendarEvent[] => {
+  const statusOrder: Record<EventStatus, number> = { active: 0, upcoming: 1, ended: 2 }
+
+  return definitions
+    .map(definition => {
+      const period = resolveEventPeriod(definition, now)
+      return {
+        definition,
+        ...period,
+        status: getEventStatus(period, now),
+        recurring: isRecurring(definition)
+      }
+    })
+    .sort((a, b) => {
+      if (a.status !== b.status) return statusOrder[a.status] - statusOrder[b.status]
+      return a.status === 'ended'
+        ? b.end.getTime() - a.end.getTime()
+        : a.start.getTime() - b.start.getTime()
+    })
+}
+
+/**
+ * 開催中のイベントを取得
+ */
+export const getActiveEvents = (
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): CalendarEvent[] => {
+  return getEventCalendar(now, definitions).filter(event => event.status === 'active')
+}
+
+// =================== イベント効果 ===================
+
+/**
+ * レアリティ別の遭遇率倍率（開催中イベントの積）
+ */
+export const getEventEncounterBonuses = (
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): Record<EventRarity, number> => {
+  const bonuses: Record<EventRarity, number> = {
+    common: 1, uncommon: 1, rare: 1, ultra_rare: 1, legendary: 1, mythical: 1
+  }
+
+  getActiveEvents(now, definitions).forEach(({ definition }) => {
+    Object.entries(definition.effects.encounterBonuses || {}).forEach(([rarity, multiplier]) => {
+      bonuses[rarity as EventRarity] *= multiplier
+    })
+  })
+
+  return bonuses
+}
+
+/**
+ * 派遣報酬倍率（開催中イベントの積）
+ */
+export const getEventRewardMultiplier = (
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): number => {
+  return getActiveEvents(now, definitions)
+    .reduce((total, { definition }) => total * (definition.effects.rewardMultiplier ?? 1), 1)
+}
+
+/**
+ * アイテムのショップ価格倍率（対象アイテムを指定したイベントはそのアイテムのみ）
+ */
+export const getShopPriceMultiplier = (
+  itemId: string,
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): number => {
+  return getActiveEvents(now, definitions)
+    .filter(({ definition }) => !definition.effects.discountedItems || definition.effects.discountedItems.includes(itemId))
+    .reduce((total, { definition }) => total * (definition.effects.shopPriceMultiplier ?? 1), 1)
+}
+
+/**
+ * イベント補正後のショップ価格（未登録アイテムは undefined）
+ */
+export const getShopPrice = (
+  itemId: string,
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): number | undefined => {
+  const definition = getItemDefinition(itemId)
+  if (!definition) return undefined
+
+  return Math.max(1, Math.round(definition.value * getShopPriceMultiplier(itemId, now, definitions)))
+}
@@ -2,6 +2,7 @@
 import { gameRandom } from './random-system'
 import { economySystem } from './economy-system'
 import { soundSystem } from './sound-system'
+import { realtimeManager } from '@/lib/real-time/RealtimeManager'
 
 export interface Facility {
   id: string
@@ -396,6 +397,11 @@ export class FacilitySystem {
       return { success: false, message: '施設が見つかりません' }
     }
 
+    const lockReason = economySystem.getActionLockReason('facility_upgrade')
+    if (lockReason) {
+      return { success: false, message: lockReason }
+    }
+
     const upgradeCost = this.calculateUpgradeCost(facility)
     if (economySystem.getCurrentMoney() < upgradeCost) {
       return { success: false, message: '資金が不足しています' }
@@ -482,6 +488,14 @@ export class FacilitySystem {
 
     console.log(`✅ ${facility.name} アップグレード完了: Lv.${facility.level}`)
     
+    realtimeManager.emitDataChange({
+      category: 'facilities',
+      action: 'update',
+      entityId: facility.id,
+      data: { level: facility.level },
+      source: 'system_update'
+    })
+    
     return true
   }
 
@@ -0,0 +1,200 @@
+// 財務台帳
+// 取引を日・週・月の期間ごとにカテゴリ別集計し、残高推移・キャッシュフロー・トレンドを求める
+
+export type LedgerPeriod = 'day' | 'week' | 'month'
+
+export interface LedgerEntry {
+  type: 'income' | 'expense'
+  category: string
+  amount: number
+  timestamp: string
+}
+
+export interface CategoryTotals {
+  income: number
+  expenses: number
+  net: number
+  transactionCount: number
+}
+
+export interface LedgerSummary extends CategoryTotals {
+  byCategory: Record<string, CategoryTotals>
+}
+
+export interface LedgerBucket extends LedgerSummary {
+  key: string // 日: YYYY-MM-DD / 週: 月曜日の YYYY-MM-DD / 月: YYYY-MM
+  start: Date
+  end: Date // この時刻は含まない
+  openingBalance: number
+  closingBalance: number
+}
+
+export interface LedgerTrend {
+  direction: 'improving' | 'declining' | 'stable'
+  rate: number // 前半に対する後半の純利益の変化率（%）
+  confidence: number // 0-100
+}
+
+const TREND_THRESHOLD = 5 // ±5%以内は横ばい
+const TREND_CONFIDENCE_SAMPLE = 30 // この件数の取引があれば信頼度100
+
+// =================== 期間計算 ===================
+
+const pad = (value: number): string => value.toString().padStart(2, '0')
+
+/**
+ * 期間の開始時刻（ローカル時刻、週は月曜始まり）
+ */
+export const startOfPeriod = (date: Date, period: LedgerPeriod): Date => {
+  switch (period) {
+    case 'day':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+    case 'week': {
+      const daysSinceMonday = (date.getDay() + 6) % 7
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday)
+    }
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth(), 1)
+  }
+}
+
+export const addPeriods = (date: Date, period: LedgerPeriod, count: number): Date => {
+  switch (period) {
+    case 'day':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() + count)
+    case 'week':
+      return new Date(date.getFullYear(), date.getMonth(), date.getDate() + count * 7)
+    case 'month':
+      return new Date(date.getFullYear(), date.getMonth() + count, 1)
+  }
+}
+
+export const getPeriodKey = (date: Date, period: LedgerPeriod): string => {
+  const start = startOfPeriod(date, period)
+  const month = `${start.getFullYear()}-${pad(start.getMonth() + 1)}`
+  return period === 'month' ? month : `${month}-${pad(start.getDate())}`
+}
+
+// =================== 集計 ===================
+
+const emptyTotals = (): CategoryTotals => ({ income: 0, expenses: 0, net: 0, transactionCount: 0 })
+
+const addEntry = (totals: CategoryTotals, entry: LedgerEntry): void => {
+  if (entry.type === 'income') {
+    totals.income += entry.amount
+    totals.net += entry.amount
+  } else {
+    totals.expenses += entry.amount
+    totals.net -= entry.amount
+  }
+  totals.transactionCount++
+}
+
+const summarize = (entries: LedgerEntry[]): LedgerSummary => {
+  const summary: LedgerSummary = { ...emptyTotals(), byCategory: {} }
+  entries.forEach(entry => {
+    if (!summary.byCategory[entry.category]) {
+      summary.byCategory[entry.category] = emptyTotals()
+    }
+    addEntry(summary, entry)
+    addEntry(summary.byCategory[entry.category], entry)
+  })
+  return summary
+}
+
+/**
+ * 財務台帳
+ * 取引は時系列順に保持し、期首残高は現在残高から逆算する
+ */
+export class FinancialLedger {
+  private entries: LedgerEntry[]
+  private openingBalance: number
+
+  constructor(entries: LedgerEntry[], options: { closingBalance?: number } = {}) {
+    this.entries = [...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    const totalNet = summarize(this.entries).net
+    this.openingBalance = options.closingBalance !== undefined ? options.closingBalance - totalNet : 0
+  }
+
+  getEntries(from?: Date, to?: Date): LedgerEntry[] {
+    return this.entries.filter(entry => {
+      const time = new Date(entry.timestamp).getTime()
+      return (!from || time >= from.getTime()) && (!to || time < to.getTime())
+    })
+  }
+
+  /**
+   * 期間内（from 以上 to 未満）の収支合計
+   */
+  getSummary(from?: Date, to?: Date): LedgerSummary {
+    return summarize(this.getEntries(from, to))
+  }
+
+  /**
+   * 指定時刻の時点の残高
+   */
+  getBalanceAt(time: Date): number {
+    return this.openingBalance + this.getSummary(undefined, time).net
+  }
+
+  /**
+   * 期間ごとの集計（取引のない期間も空の区間として含める）
+   * 範囲を省略した場合は最初の取引から最後の取引まで
+   */
+  getBuckets(period: LedgerPeriod, from?: Date, to?: Date): LedgerBucket[] {
+    if (this.entries.length === 0 && (!from || !to)) return []
+
+    const first = from ?? new Date(this.entries[0].timestamp)
+    const last = to ?? new Date(new Date(this.entries[this.entries.length - 1].timestamp).getTime() + 1)
+    const buckets: LedgerBucket[] = []
+    let balance = this.getBalanceAt(startOfPeriod(first, period))
+
+    for (let start = startOfPeriod(first, period); start < last; start = addPeriods(start, period, 1)) {
+      const end = addPeriods(start, period, 1)
+      const summary = this.getSummary(start, end)
+      buckets.push({
+        ...summary,
+        key: getPeriodKey(start, period),
+        start,
+        end,
+        openingBalance: balance,
+        closingBalance: balance + summary.net
+      })
+      balance += summary.net
+    }
+
+    return buckets
+  }
+
+  /**
+   * 直近 count 期間分のキャッシュフロー（現在の期間を含む）
+   */
+  getCashFlow(period: LedgerPeriod, count: number, now: Date = new Date()): LedgerBucket[] {
+    const end = addPeriods(startOfPeriod(now, period), period, 1)
+    return this.getBuckets(period, addPeriods(end, period, -count), end)
+  }
+
+  /**
+   * 直近 count 期間の前半と後半の純利益を比較したトレンド
+   */
+  getTrend(period: LedgerPeriod, count: number, now: Date = new Date()): LedgerTrend {
+    const buckets = this.getCashFlow(period, count, now)
+    const transactionCount = buckets.reduce((sum, bucket) => sum + bucket.transactionCount, 0)
+    if (buckets.length < 2 || transactionCount === 0) {
+      return { direction: 'stable', rate: 0, confidence: 0 }
+    }
+
+    const midpoint = Math.floor(buckets.length / 2)
+    const netOf = (part: LedgerBucket[]) => part.reduce((sum, bucket) => sum + bucket.net, 0)
+    const firstHalf = netOf(buckets.slice(0, midpoint))
+    const secondHalf = netOf(buckets.slice(midpoint))
+    // 前半が0なら後半の符号だけで判定する（0からの増減は100%扱い）
+    const rate = firstHalf !== 0 ? ((secondHalf - firstHalf) / Math.abs(firstHalf)) * 100 : Math.sign(secondHalf) * 100
+
+    return {
+      direction: rate > TREND_THRESHOLD ? 'improving' : rate < -TREND_THRESHOLD ? 'declining' : 'stable',
+      rate: Math.abs(rate),
+      confidence: Math.min(transactionCount / TREND_CONFIDENCE_SAMPLE * 100, 100)
+    }
+  }
+}
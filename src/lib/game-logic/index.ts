@@ -12,6 +12,9 @@ export * from './economy-system'
 export * from './sound-system'
 export * from './random-system'
 export * from './trainer-system'
+export * from './event-calendar'
+export * from './world-clock'
+export * from './financial-ledger'
 
 // メインゲームコントローラー
 import { expeditionSystem, ExpeditionParams, ExpeditionResult, EXPEDITION_LOCATIONS } from './expedition-system'
@@ -21,6 +24,7 @@ import { soundSystem, playExpeditionStartSound, playPokemonCatchSound, playMoney
 import { TrainerSystem } from './trainer-system'
 import { gameRandom } from './random-system'
 import { supabase } from '../supabase'
+import { getTrainerParty } from '@/lib/expedition/ExpeditionParty'
 
 /**
  * 統合ゲームコントローラー
@@ -396,6 +400,12 @@ export class GameController {
       const trainerJob = job as any // TrainerJob型変換
       const { trainer, hireCost } = TrainerSystem.hireNewTrainer(name, trainerJob, level)
       
+      // 経営状態による制限
+      const lockReason = this.economySystem.getActionLockReason('hire_trainer')
+      if (lockReason) {
+        return { success: false, message: lockReason }
+      }
+      
       // 資金チェック
       const canAfford = this.checkCanAfford(hireCost)
       if (!canAfford) {
@@ -763,6 +773,12 @@ export class GameController {
     newLevel?: number
   }> {
     try {
+      // 経営状態による制限
+      const lockReason = this.economySystem.getActionLockReason('training')
+      if (lockReason) {
+        return { success: false, message: lockReason }
+      }
+      
       // データベースからポケモンデータを取得
       const pokemon = await this.getPokemonById(pokemonId)
       if (!pokemon) {
@@ -973,93 +989,52 @@ export class GameController {
     return await this.pokemonSystem.generateWildPokemonEncounter(location)
   }
   
-  // パーティ管理機能
-  private party: any[] = []
+  // パーティ管理機能（手持ちはトレーナーごとに GameStateManager で管理する）
+  private getGameStateManager() {
+    const { getGameStateManager } = require('@/lib/game-state/GameStateManager')
+    return getGameStateManager()
+  }
   
-  async addPokemonToParty(pokemonId: string): Promise<boolean> {
-    if (this.party.length >= 6) {
-      throw new Error('パーティは最大6体までです')
+  async addPokemonToParty(trainerId: string, pokemonId: string): Promise<boolean> {
+    const gameManager = this.getGameStateManager()
+    const trainer = gameManager.getTrainers().find((t: any) => t.id === trainerId)
+    if (!trainer) {
+      throw new Error('トレーナーが見つかりません')
     }
     
-    // データベースに保存
-    if (this.userId && supabase) {
-      try {
-        const { error: pokemonError } = await supabase
-          .from('pokemon')
-          .update({
-            status: 'in_party',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', pokemonId)
-          .eq('user_id', this.userId)
-        
-        if (pokemonError) {
-          console.error('パーティ追加データベースエラー:', pokemonError)
-          return false
-        } else {
-          console.log('✅ ポケモンをパーティに追加しました')
-        }
-        
-      } catch (dbError) {
-        console.error('パーティ追加データベース保存エラー:', dbError)
-        return false
-      }
+    const result = gameManager.assignTrainerParty(trainerId, [...(trainer.party ?? []), pokemonId])
+    if (!result.success) {
+      throw new Error(result.message)
     }
     
-    // 実際の実装では、データベースからポケモンを取得
-    // ここでは簡易版
-    const pokemon = {
-      id: pokemonId,
-      addedToParty: new Date().toISOString()
-    }
-    
-    this.party.push(pokemon)
-    console.log(`ポケモン ${pokemonId} をパーティに追加`)
+    console.log(`ポケモン ${pokemonId} を${trainer.name}の手持ちに追加`)
     return true
   }
   
-  async removePokemonFromParty(pokemonId: string): Promise<boolean> {
-    const index = this.party.findIndex(p => p.id === pokemonId)
-    if (index === -1) {
+  async removePokemonFromParty(trainerId: string, pokemonId: string): Promise<boolean> {
+    const gameManager = this.getGameStateManager()
+    const trainer = gameManager.getTrainers().find((t: any) => t.id === trainerId)
+    if (!trainer?.party?.includes(pokemonId)) {
       throw new Error('指定されたポケモンはパーティにいません')
     }
     
-    // データベースに保存
-    if (this.userId && supabase) {
-      try {
-        const { error: pokemonError } = await supabase
-          .from('pokemon')
-          .update({
-            status: 'available',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', pokemonId)
-          .eq('user_id', this.userId)
-        
-        if (pokemonError) {
-          console.error('パーティ削除データベースエラー:', pokemonError)
-          return false
-        } else {
-          console.log('✅ ポケモンをパーティから削除しました')
-        }
-        
-      } catch (dbError) {
-        console.error('パーティ削除データベース保存エラー:', dbError)
-        return false
-      }
+    const result = gameManager.assignTrainerParty(trainerId, trainer.party.filter((id: string) => id !== pokemonId))
+    if (!result.success) {
+      throw new Error(result.message)
     }
     
-    this.party.splice(index, 1)
-    console.log(`ポケモン ${pokemonId} をパーティから削除`)
+    console.log(`ポケモン ${pokemonId} を${trainer.name}の手持ちから削除`)
     return true
   }
   
-  getParty(): any[] {
-    return [...this.party]
+  getParty(trainerId: string): any[] {
+    const gameManager = this.getGameStateManager()
+    const trainer = gameManager.getTrainers().find((t: any) => t.id === trainerId)
+    return trainer ? getTrainerParty(trainer, gameManager.getPokemon()) : []
   }
   
-  getPartySize(): number {
-    return this.party.length
+  getPartySize(trainerId: string): number {
+    return this.getParty(trainerId).length
   }
   
   // セーブデータ生成（将来の拡張用）
@@ -1106,6 +1081,12 @@ export class GameController {
     cost?: number
   }> {
     try {
+      // 経営状態による制限
+      const lockReason = this.economySystem.getActionLockReason('research')
+      if (lockReason) {
+        return { success: false, message: lockReason }
+      }
+      
       // 資金チェック
       const canAfford = this.checkCanAfford(cost)
       if (!canAfford) {
@@ -6,7 +6,7 @@ export class GameRandom {
   private state: number
   
   constructor(seed?: number) {
-    this.seed = seed || Date.now()
+    this.seed = seed ?? Date.now()
     this.state = this.seed
   }
   
@@ -102,9 +102,27 @@ export class GameRandom {
     return this.seed
   }
   
+  // ラベル付きの独立した乱数列を派生（呼び出し順に依存しないサブシステム用）
+  fork(label: string): GameRandom {
+    return new GameRandom(hashSeed(`${this.seed}:${label}`))
+  }
+  
   private hasSpare: boolean = false
   private spare: number = 0
 }
 
+// 文字列から32bitシードを生成（FNV-1a）
+export const hashSeed = (value: string): number => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+// 新しいシードを生成
+export const createSeed = (): number => Math.floor(Math.random() * 0xffffffff)
+
 // グローバルインスタンス
 export const gameRandom = new GameRandom()
\ No newline at end of file
@@ -1,6 +1,7 @@
 // トレーナーレベルアップシステム
 import { gameRandom } from './random-system'
 import { soundSystem } from './sound-system'
+import { SKILL_POINTS_PER_LEVEL, SPECIALIZATION_LEVEL } from '@/lib/game-state/skills'
 
 export interface TrainerStats {
   level: number
@@ -9,6 +10,7 @@ export interface TrainerStats {
   job: TrainerJob
   specialization: string[]
   skills: TrainerSkills
+  skill_points?: number    // スキルツリーに使える未使用のポイント
   trust_level: number
   personality: TrainerPersonality
   hire_date: string
@@ -51,6 +53,7 @@ export interface LevelUpResult {
     improvement: number
   }>
   newAbilities: string[]
+  skillPointsGained: number
   salaryIncrease: number
   specialBonuses: string[]
 }
@@ -218,6 +221,10 @@ export class TrainerSystem {
     // 新能力の獲得
     const newAbilities = this.checkNewAbilities(trainer, oldLevel, newLevel)
     
+    // スキルツリー用のポイント
+    const skillPointsGained = levelsGained * SKILL_POINTS_PER_LEVEL
+    trainer.skill_points = (trainer.skill_points ?? 0) + skillPointsGained
+    
     // 給与アップ計算
     const salaryIncrease = Math.floor(trainer.salary_base * 0.1 * levelsGained)
     trainer.salary_base += salaryIncrease
@@ -236,6 +243,7 @@ export class TrainerSystem {
         newLevel,
         skillsImproved,
         newAbilities,
+        skillPointsGained,
         salaryIncrease,
         specialBonuses
       }
@@ -261,7 +269,7 @@ export class TrainerSystem {
     const newAbilities: string[] = []
     
     // レベル5: 専門化選択
-    if (oldLevel < 5 && newLevel >= 5) {
+    if (oldLevel < SPECIALIZATION_LEVEL && newLevel >= SPECIALIZATION_LEVEL) {
       newAbilities.push('専門分野の選択が可能')
     }
     
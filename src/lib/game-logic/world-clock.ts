@@ -0,0 +1,187 @@
+// ゲーム内時計・天候システム
+// 実時間に対する速度でゲーム内時刻を進め、季節・時間帯と派遣先ごとの天候を決定する
+
+import type { WorldClockState } from '@/lib/game-state/types'
+import type { LocationDefinition } from '@/lib/static-data/types'
+import type { Weather as EncounterWeather } from '@/lib/pokemon/PokemonDatabase'
+import { getLocationDefinition } from '@/lib/static-data/locations'
+import { GameRandom, hashSeed } from './random-system'
+
+export type GameTimeOfDay = 'morning' | 'day' | 'evening' | 'night'
+export type GameSeason = 'spring' | 'summer' | 'autumn' | 'winter'
+export type LocationWeather = LocationDefinition['weather'][number]
+
+export interface WorldSnapshot {
+  gameTime: Date
+  timeOfDay: GameTimeOfDay
+  season: GameSeason
+}
+
+export interface LocationConditions extends WorldSnapshot {
+  locationId: number
+  weather: LocationWeather
+}
+
+// 選択可能な時計速度（実時間1分あたりのゲーム内分数）
+export const WORLD_CLOCK_SPEEDS = [1, 6, 12, 24, 60]
+
+// 天候はゲーム内6時間ごとに切り替わる
+export const WEATHER_WINDOW_HOURS = 6
+
+export const SEASON_LABELS: Record<GameSeason, string> = {
+  spring: '春',
+  summer: '夏',
+  autumn: '秋',
+  winter: '冬'
+}
+
+export const TIME_OF_DAY_LABELS: Record<GameTimeOfDay, string> = {
+  morning: '朝',
+  day: '昼',
+  evening: '夕方',
+  night: '夜'
+}
+
+export const WEATHER_LABELS: Record<LocationWeather, { label: string; icon: string }> = {
+  sunny: { label: '晴れ', icon: '☀️' },
+  rainy: { label: '雨', icon: '🌧️' },
+  snowy: { label: '雪', icon: '❄️' },
+  stormy: { label: '嵐', icon: '⛈️' },
+  foggy: { label: '霧', icon: '🌫️' }
+}
+
+// 季節ごとの天候の出やすさ（派遣先で発生しうる天候の中から選ぶ）
+const SEASON_WEATHER_WEIGHTS: Record<GameSeason, Record<LocationWeather, number>> = {
+  spring: { sunny: 5, rainy: 3, snowy: 0.2, stormy: 1, foggy: 1 },
+  summer: { sunny: 6, rainy: 3, snowy: 0, stormy: 2, foggy: 0.5 },
+  autumn: { sunny: 4, rainy: 3, snowy: 0.5, stormy: 1, foggy: 2 },
+  winter: { sunny: 3, rainy: 1, snowy: 5, stormy: 1.5, foggy: 2 }
+}
+
+/**
+ * 時刻から時間帯を判定
+ */
+export const getTimeOfDay = (gameTime: Date): GameTimeOfDay => {
+  const hour = gameTime.getHours()
+  if (hour >= 5 && hour < 10) return 'morning'
+  if (hour >= 10 && hour < 17) return 'day'
+  if (hour >= 17 && hour < 20) return 'evening'
+  return 'night'
+}
+
+/**
+ * 日付から季節を判定
+ */
+export const getSeason = (gameTime: Date): GameSeason => {
+  const month = gameTime.getMonth() + 1
+  if (month >= 3 && month <= 5) return 'spring'
+  if (month >= 6 && month <= 8) return 'summer'
+  if (month >= 9 && month <= 11) return 'autumn'
+  return 'winter'
+}
+
+/**
+ * 派遣先の天候を生成
+ * 派遣先と時間枠から決まるシードで抽選するため、同じ時刻なら常に同じ天候になる
+ */
+export const generateLocationWeather = (locationId: number, gameTime: Date): LocationWeather => {
+  const candidates = getLocationDefinition(locationId)?.weather ?? ['sunny']
+  const window = Math.floor(gameTime.getTime() / (WEATHER_WINDOW_HOURS * 60 * 60 * 1000))
+  const weights = SEASON_WEATHER_WEIGHTS[getSeason(gameTime)]
+
+  const choices = candidates
+    .map(weather => ({ item: weather, weight: weights[weather] }))
+    .filter(choice => choice.weight > 0)
+  if (choices.length === 0) return candidates[0]
+
+  return new GameRandom(hashSeed(`weather:${locationId}:${window}`)).weightedChoice(choices)
+}
+
+/**
+ * 天候と時間帯による派遣先の環境補正（LocationDefinition.environmentalEffects）
+ */
+export const getEnvironmentModifier = (conditions: LocationConditions): number => {
+  const location = getLocationDefinition(conditions.locationId)
+  if (!location) return 1.0
+
+  const { weatherImpact, timeOfDayBonus } = location.environmentalEffects
+  return (weatherImpact[conditions.weather] ?? 1.0) * (timeOfDayBonus[conditions.timeOfDay] ?? 1.0)
+}
+
+/**
+ * 派遣先の天候をポケモン遭遇システムの天候に変換
+ */
+export const toEncounterWeather = (weather: LocationWeather): EncounterWeather => {
+  const mapping: Record<LocationWeather, EncounterWeather> = {
+    sunny: 'sunny',
+    rainy: 'rain',
+    snowy: 'snow',
+    stormy: 'rain',
+    foggy: 'fog'
+  }
+  return mapping[weather]
+}
+
+/**
+ * ゲーム内時計
+ * 速度変更時に基準点を取り直すため、途中で速度を変えてもゲーム内時刻は連続する
+ */
+export class WorldClock {
+  private speed = 1
+  private realAnchor = Date.now()
+  private gameAnchor = this.realAnchor
+
+  configure(state: WorldClockState): void {
+    this.speed = state.speed
+    this.realAnchor = new Date(state.realAnchor).getTime()
+    this.gameAnchor = new Date(state.gameAnchor).getTime()
+  }
+
+  getState(): WorldClockState {
+    return {
+      speed: this.speed,
+      realAnchor: new Date(this.realAnchor).toISOString(),
+      gameAnchor: new Date(this.gameAnchor).toISOString()
+    }
+  }
+
+  getSpeed(): number {
+    return this.speed
+  }
+
+  setSpeed(speed: number, realNow: number = Date.now()): WorldClockState {
+    if (speed <= 0) {
+      throw new Error(`Invalid clock speed: ${speed}`)
+    }
+
+    this.gameAnchor = this.getGameTime(realNow).getTime()
+    this.realAnchor = realNow
+    this.speed = speed
+    return this.getState()
+  }
+
+  getGameTime(realNow: number = Date.now()): Date {
+    return new Date(this.gameAnchor + (realNow - this.realAnchor) * this.speed)
+  }
+
+  getSnapshot(realNow: number = Date.now()): WorldSnapshot {
+    const gameTime = this.getGameTime(realNow)
+    return {
+      gameTime,
+      timeOfDay: getTimeOfDay(gameTime),
+      season: getSeason(gameTime)
+    }
+  }
+
+  getLocationConditions(locationId: number, realNow: number = Date.now()): LocationConditions {
+    const snapshot = this.getSnapshot(realNow)
+    return {
+      ...snapshot,
+      locationId,
+      weather: generateLocationWeather(locationId, snapshot.gameTime)
+    }
+  }
+}
+
+// グローバルインスタンス
+export const worldClock = new WorldClock()
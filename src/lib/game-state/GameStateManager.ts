@@ -1,4 +1,106 @@
-import { GameData, createInitialGameData, Trainer, Pokemon, Expedition, Transaction } from './types'
+import { GameData, GameContext, createInitialGameData, Trainer, Pokemon, Expedition, NewExpedition, Transaction, Item, MarketListing, PartyMemberReport, ExpeditionInjury, DepartureReason } from './types'
+import { calculateInventoryCapacity, getAvailableSpace, addItemToInventory, removeItemFromInventory, countItem, type InventoryAddResult } from './inventory'
+import { extractMetricUpdates, applyMetricUpdate } from './achievements'
+import { refreshTaskBoard, extractTaskEvents, applyTaskEvent, claimWeeklyBonuses, type CompletedTask } from './tasks'
+import { migrateGameData, loadStoredGameData, planGameDataMigration, type MigrationReport } from './migrations'
+import {
+  LOAN_PRODUCTS,
+  BANKRUPTCY_STAGE_LABELS,
+  validateLoanRequest,
+  createLoan,
+  getRemainingBalance,
+  collectDueInstallments,
+  settleLoan,
+  calculateMonthlyPayroll,
+  countDuePayrolls,
+  getNextPayrollDate,
+  applyMissedPayroll,
+  settleUnpaidWages,
+  updateBankruptcyState,
+  getFinanceLockReason,
+  type FinanceAction
+} from './finance'
+import {
+  getPokemonMarketPrice,
+  getItemMarketPrice,
+  getOfferPrice,
+  getBuyerChance,
+  createMarketListing,
+  collectSettledListings,
+  refreshMarketStock,
+  createPokemonFromOffer
+} from './market'
+import {
+  MEDICAL_KIND_LABELS,
+  calculateRecoveryRate,
+  createMedicalCondition,
+  mergeMedicalCondition,
+  advanceRecovery,
+  applyTreatment,
+  getPokemonMedicalCondition
+} from './medical'
+import {
+  applyExpeditionFatigue,
+  calculateRestRate,
+  restTrainer,
+  getExhaustionSeverity,
+  updateSuccessStreak,
+  updateMorale,
+  calculateQuitChance
+} from './wellbeing'
+import {
+  CONTRACT_TERMS,
+  DEPARTURE_REASON_LABELS,
+  REJECTED_OFFER_MORALE_PENALTY,
+  DISMISSAL_MORALE_PENALTY,
+  createContract,
+  isRenewalOpen,
+  evaluateRenewalOffer,
+  willAutoRenew,
+  calculateResignationChance,
+  calculateSeverance,
+  createFormerTrainerRecord
+} from './employment'
+import { addLevelUpSkillPoints, validateAbilityUnlock, unlockAbility, validateSpecialization } from './skills'
+import {
+  validateEnrollment,
+  createCourseEnrollment,
+  isCourseComplete,
+  applyCourseGains,
+  describeCourseGains,
+  type CourseCompletionReport
+} from './courses'
+import { validateBreedingPair, validateEggCarrier, calculateExpeditionDistance, calculateEggSteps } from './daycare'
+import { queuePendingMoves, validateMoveChoice, type PendingMoveReport } from './moves'
+import { GameRandom, createSeed, hashSeed } from '@/lib/game-logic/random-system'
+import { economySystem } from '@/lib/game-logic/economy-system'
+import { getShopPrice } from '@/lib/game-logic/event-calendar'
+import { worldClock } from '@/lib/game-logic/world-clock'
+import { getItemDefinition, createItem } from '@/lib/static-data/items'
+import { getSkillNode, getSpecialization } from '@/lib/static-data/skill-trees'
+import { getTrainingCourse } from '@/lib/static-data/training-courses'
+import type { AchievementDefinition } from '@/lib/static-data/types'
+import { realtimeManager, type DataChangeEvent } from '@/lib/real-time/RealtimeManager'
+import { simulateExpeditionCatchUp } from '@/lib/expedition/ExpeditionSimulator'
+import { getExpeditionMemberIds, validateTeam, createTeamTrainer, distributeTeamRewards } from '@/lib/expedition/ExpeditionTeam'
+import { getDeployableParty, findPartyOwner, isAtDaycare, validateParty, calculatePartyExperience } from '@/lib/expedition/ExpeditionParty'
+import { pokemonGrowthSystem } from '@/lib/pokemon/PokemonGrowthSystem'
+import { pokemonBreedingSystem } from '@/lib/pokemon/PokemonBreedingSystem'
+import { pokemonTrainingFacility } from '@/lib/pokemon/PokemonTrainingFacility'
+import { addEffortValues, applyEffortValues, reduceEffortValues, getBattleEffortYield, getTotalEffortValues } from '@/lib/pokemon/EffortValues'
+import type { PokemonSpecies } from '@/lib/schemas/pokemon'
+import { calculateNextLevelExp } from '@/lib/schemas/pokemon'
+
+export interface ItemUseResult {
+  success: boolean
+  message: string
+  item?: Item // 捕獲補助など、効果を呼び出し側で適用するアイテム
+}
+
+export interface FinanceActionResult {
+  success: boolean
+  message: string
+}
 
 /**
  * JSONベースのゲーム状態管理システム
@@ -14,13 +116,54 @@ export class GameStateManager {
   private listeners: Set<(data: GameData) => void> = new Set()
   private autoSaveTimer?: NodeJS.Timeout
   private isDirty = false
+  private localSaveSuspended = false
+  private absenceResolved = false // 不在中の派遣を反映するまでは給与・返済を処理しない
+  private countedEvents = new Set<string>()
+  private trainingReports: CourseCompletionReport[] = []
+  private pendingMoves: PendingMoveReport[] = [] // 忘れる技の選択待ち（選ぶまで残る）
   
   constructor(userId?: string) {
     // ローカルデータを読み込み、なければ初期データ作成
     this.data = this.loadFromLocal() || this.createNewGame(userId || 'guest')
     
+    // 保存されたゲーム内時刻から時計を再開
+    worldClock.configure(this.data.worldClock)
+    
+    // アチーブメント・タスク判定のためデータ変更イベントを購読
+    const trackedCategories: DataChangeEvent['category'][] = ['pokemon', 'expeditions', 'economy', 'facilities', 'inventory']
+    trackedCategories.forEach(category => {
+      realtimeManager.subscribeToDataChanges(category, event => {
+        this.handleAchievementEvent(event)
+        this.handleTaskEvent(event)
+      })
+    })
+    
+    // 日付が変わっていればタスクを再抽選
+    this.refreshTasks()
+    
+    // 不在中に現れた買い手との取引を反映
+    this.processMarket()
+    
+    // 不在中に進んだ療養と休息を反映
+    this.processMedical()
+    this.processTrainerRest()
+    
+    // 不在中に満了した契約を更新・終了
+    this.processContracts()
+    
+    // 不在中に修了した研修を反映
+    this.processTrainerCourses()
+    
+    // 育て屋と訓練施設の状態を復元し、以降の変更をゲームデータに写す
+    this.restorePokemonFacilities()
+    pokemonBreedingSystem.addChangeListener(() => this.syncPokemonFacilities())
+    pokemonTrainingFacility.addChangeListener(() => this.syncPokemonFacilities())
+    
     // 自動保存開始
     this.startAutoSave()
+    
+    // 不在中に進んだ派遣の収入を反映してから、不在中に迎えた返済日・給与日を処理
+    void this.catchUpAbsence()
   }
   
   // =================== データアクセス ===================
@@ -51,6 +194,10 @@ export class GameStateManager {
     return { ...this.data.player }
   }
   
+  getInventory(): Item[] {
+    return this.data.inventory.map(item => ({ ...item }))
+  }
+  
   // =================== データ更新 ===================
   
   /**
@@ -61,6 +208,7 @@ export class GameStateManager {
     const newTrainer: Trainer = {
       ...trainer,
       id,
+      contract: trainer.contract ?? createContract(new Date()),
       hiredDate: new Date().toISOString(),
       lastActive: new Date().toISOString()
     }
@@ -74,234 +222,2078 @@ export class GameStateManager {
   }
   
   /**
-   * トレーナー情報を更新
+   * トレーナー情報を更新
+   */
+  updateTrainer(id: string, updates: Partial<Trainer>): boolean {
+    const index = this.data.trainers.findIndex(t => t.id === id)
+    if (index === -1) return false
+    
+    this.data.trainers[index] = {
+      ...this.data.trainers[index],
+      ...updates,
+      lastActive: new Date().toISOString()
+    }
+    
+    this.markDirty()
+    this.notifyListeners()
+    return true
+  }
+  
+  /**
+   * ポケモンを追加
+   */
+  addPokemon(pokemon: Omit<Pokemon, 'id'>, acquiredBy: 'capture' | 'purchase' | 'hatch' = 'capture'): string {
+    const id = this.generateId('pokemon')
+    const newPokemon: Pokemon = {
+      ...pokemon,
+      id,
+      caughtDate: new Date().toISOString()
+      // lastActive: removed - not part of Pokemon interface
+    }
+    
+    // 初期状態の確認と修正
+    if (newPokemon.status === 'injured' || newPokemon.status === 'sick') {
+      newPokemon.status = 'healthy'
+      console.log('🔄 ポケモンの状態を健康に修正:', newPokemon.name)
+    }
+    
+    this.data.pokemon.push(newPokemon)
+    this.markDirty()
+    this.notifyListeners()
+    
+    realtimeManager.emitDataChange({
+      category: 'pokemon',
+      action: 'create',
+      entityId: id,
+      data: { speciesId: newPokemon.speciesId, level: newPokemon.level, caughtLocation: newPokemon.caughtLocation, acquiredBy },
+      source: 'system_update'
+    })
+    
+    console.log('✅ ポケモン追加:', newPokemon.name)
+    return id
+  }
+
+  /**
+   * ポケモン情報を更新
+   */
+  updatePokemon(id: string, updates: Partial<Pokemon>): boolean {
+    const index = this.data.pokemon.findIndex(p => p.id === id)
+    if (index === -1) return false
+    
+    this.data.pokemon[index] = {
+      ...this.data.pokemon[index],
+      ...updates
+      // lastActive: removed - not part of Pokemon interface  
+    }
+    
+    this.markDirty()
+    this.notifyListeners()
+    return true
+  }
+
+  /**
+   * ポケモンのHPを回復（けが・病気は療養で治るのを待つ）
+   */
+  healPokemon(id: string): boolean {
+    const pokemon = this.data.pokemon.find(p => p.id === id)
+    if (!pokemon) return false
+    
+    if (getPokemonMedicalCondition(pokemon, new Date())) {
+      console.log('🏥 療養中のため回復できません:', pokemon.name)
+      return false
+    }
+    if (pokemon.hp >= pokemon.maxHp) {
+      console.log('ℹ️ ポケモンは既に健康です:', pokemon.name)
+      return true
+    }
+    
+    pokemon.hp = pokemon.maxHp
+    
+    this.markDirty()
+    this.notifyListeners()
+    
+    console.log('💚 ポケモンを回復しました:', pokemon.name)
+    return true
+  }
+
+  /**
+   * 全ポケモンのHPを回復（療養中のポケモンは完治を待つ）
+   */
+  healAllPokemon(): number {
+    let healedCount = 0
+    const now = new Date()
+    
+    this.data.pokemon.forEach(pokemon => {
+      if (getPokemonMedicalCondition(pokemon, now)) return
+      if (pokemon.hp < pokemon.maxHp) {
+        pokemon.hp = pokemon.maxHp
+        healedCount++
+      }
+    })
+    
+    if (healedCount > 0) {
+      this.markDirty()
+      this.notifyListeners()
+      console.log(`💚 ${healedCount}匹のポケモンを回復しました`)
+    }
+    
+    return healedCount
+  }
+
+  /**
+   * ポケモンの状態をチェック
+   */
+  getPokemonStatus(): { healthy: number; injured: number; sick: number; training: number } {
+    const status = { healthy: 0, injured: 0, sick: 0, training: 0 }
+    
+    this.data.pokemon.forEach(pokemon => {
+      status[pokemon.status]++
+    })
+    
+    return status
+  }
+  
+  /**
+   * 派遣を開始（memberIds を指定するとチーム派遣、先頭がリーダー）
+   */
+  startExpedition(expedition: NewExpedition): string {
+    const memberIds = getExpeditionMemberIds(expedition)
+    const team = memberIds.map(memberId => this.data.trainers.find(t => t.id === memberId))
+    if (team.some(trainer => !trainer)) {
+      throw new Error('派遣メンバーが見つかりません')
+    }
+    const teamError = validateTeam(team as Trainer[])
+    if (teamError) {
+      throw new Error(teamError)
+    }
+    
+    const id = this.generateId('expedition')
+    const now = new Date().toISOString()
+    // 出発時に元気な手持ちだけが同行する
+    const partyIds = (team as Trainer[]).flatMap(trainer => getDeployableParty(trainer, this.data.pokemon).map(p => p.id))
+    
+    const newExpedition: Expedition = {
+      ...expedition,
+      id,
+      trainerId: memberIds[0],
+      memberIds: memberIds.length > 1 ? memberIds : undefined,
+      partyIds: partyIds.length > 0 ? partyIds : undefined,
+      seed: expedition.seed ?? createSeed(),
+      createdAt: now,
+      updatedAt: now,
+      events: [],
+      interventions: []
+    }
+    
+    this.data.expeditions.push(newExpedition)
+    
+    // メンバー全員のステータス更新
+    memberIds.forEach(memberId => {
+      this.updateTrainer(memberId, {
+        status: 'on_expedition',
+        currentExpeditionId: id
+      })
+    })
+    
+    this.markDirty()
+    this.notifyListeners()
+    
+    console.log('✅ 派遣開始:', id)
+    return id
+  }
+  
+  /**
+   * 派遣を完了
+   */
+  completeExpedition(
+    expeditionId: string,
+    result: Expedition['result'],
+    completedAt: string = new Date().toISOString()
+  ): boolean {
+    const expedition = this.data.expeditions.find(e => e.id === expeditionId)
+    if (!expedition) return false
+    
+    expedition.status = result?.success ? 'completed' : 'failed'
+    expedition.currentProgress = 1
+    expedition.actualEndTime = completedAt
+    expedition.result = result
+    expedition.updatedAt = new Date().toISOString()
+    
+    // メンバー全員のステータス更新と、経験値・稼ぎ・捕獲数の分配
+    const memberIds = getExpeditionMemberIds(expedition)
+    const shares = result ? distributeTeamRewards(result, memberIds) : []
+    memberIds.forEach(memberId => {
+      const trainer = this.data.trainers.find(t => t.id === memberId)
+      if (!trainer) return
+      
+      const share = shares.find(s => s.trainerId === memberId)
+      this.updateTrainer(memberId, {
+        status: 'available',
+        currentExpeditionId: undefined,
+        totalExpeditions: trainer.totalExpeditions + 1,
+        successfulExpeditions: result?.success ? trainer.successfulExpeditions + 1 : trainer.successfulExpeditions,
+        totalEarned: trainer.totalEarned + (share?.earnings ?? 0),
+        pokemonCaught: trainer.pokemonCaught + (share?.pokemonCaught ?? 0),
+        ...this.calculateTrainerGrowth(trainer, share?.experience ?? 0)
+      })
+    })
+    
+    // 同行した手持ちの消耗と経験値
+    if (result?.partyReports) {
+      this.applyPartyReports(result.partyReports, result.experienceGained, new Date(completedAt))
+    }
+    
+    // 派遣中に負ったけが・病気（トレーナーは完治まで休養）
+    if (result?.injuries) {
+      this.applyExpeditionInjuries(result.injuries, new Date(completedAt))
+    }
+    
+    // 疲労・士気の更新（燃え尽きたメンバーは退職することがある）
+    this.applyExpeditionWellbeing(expedition, memberIds, !!result?.success, new Date(completedAt))
+    
+    // メンバーが持ち歩いたタマゴは歩いた距離だけ孵化に近づく
+    this.incubateCarriedEggs(memberIds, calculateEggSteps(calculateExpeditionDistance(expedition.startTime, completedAt)))
+    
+    // 結果を反映
+    if (result) {
+      // ポケモン追加
+      result.pokemonCaught.forEach(pokemon => {
+        this.addPokemon(pokemon)
+      })
+      
+      // 発見アイテムを倉庫へ
+      result.itemsFound.forEach(item => {
+        this.addItem(item)
+      })
+      
+      // 収入記録
+      if (result.moneyEarned > 0) {
+        this.addTransaction({
+          type: 'income',
+          category: 'expedition_reward',
+          amount: result.moneyEarned,
+          description: `派遣報酬: ${expedition.locationId}`,
+          relatedId: expeditionId,
+          timestamp: completedAt
+        })
+        
+        this.updatePlayerMoney(result.moneyEarned)
+      }
+    }
+    
+    this.markDirty()
+    this.notifyListeners()
+    
+    realtimeManager.emitDataChange({
+      category: 'expeditions',
+      action: 'update',
+      entityId: expeditionId,
+      data: {
+        status: expedition.status,
+        locationId: expedition.locationId,
+        mode: expedition.mode,
+        moneyEarned: result?.moneyEarned ?? 0
+      },
+      source: 'system_update'
+    })
+    
+    console.log('✅ 派遣完了:', expeditionId)
+    return true
+  }
+  
+  /**
+   * 不在中の出来事を起きた順に反映する
+   * 派遣の報酬を先に受け取ってから給与・返済を処理し、不在中の収入があるのに給与未払いと判定しない
+   */
+  private async catchUpAbsence(): Promise<void> {
+    try {
+      await this.catchUpExpeditions()
+    } finally {
+      this.absenceResolved = true
+      this.processFinances()
+    }
+  }
+  
+  /**
+   * 不在中の派遣を早送りで解決
+   * 終了時刻を過ぎた派遣は完了させ、進行中のものは進行率とイベントを更新する
+   */
+  async catchUpExpeditions(now: number = Date.now()): Promise<number> {
+    let completedCount = 0
+    
+    for (const expedition of this.getActiveExpeditions()) {
+      const team = getExpeditionMemberIds(expedition)
+        .map(memberId => this.data.trainers.find(t => t.id === memberId))
+        .filter((trainer): trainer is Trainer => !!trainer)
+      if (team.length === 0) continue
+      const party = (expedition.partyIds ?? [])
+        .map(pokemonId => this.data.pokemon.find(p => p.id === pokemonId))
+        .filter((pokemon): pokemon is Pokemon => !!pokemon)
+      
+      try {
+        const elapsed = now - new Date(expedition.startTime).getTime()
+        const catchUp = await simulateExpeditionCatchUp(expedition, team, elapsed, party)
+        
+        if (catchUp.completed && catchUp.result) {
+          this.completeExpedition(expedition.id, catchUp.result, expedition.estimatedEndTime)
+          completedCount++
+        } else {
+          expedition.currentProgress = catchUp.progress
+          expedition.events = catchUp.events
+          expedition.updatedAt = new Date(now).toISOString()
+          this.markDirty()
+        }
+      } catch (error) {
+        console.error('❌ 派遣キャッチアップエラー:', expedition.id, error)
+      }
+    }
+    
+    if (completedCount > 0) {
+      console.log('⏩ 不在中に完了した派遣:', completedCount)
+    }
+    this.notifyListeners()
+    
+    return completedCount
+  }
+  
+  /**
+   * 取引を追加
+   */
+  addTransaction(transaction: Omit<Transaction, 'id'>): string {
+    const id = this.generateId('transaction')
+    const newTransaction: Transaction = {
+      ...transaction,
+      id
+    }
+    
+    this.data.transactions.push(newTransaction)
+    this.markDirty()
+    this.notifyListeners()
+    
+    return id
+  }
+  
+  /**
+   * プレイヤーの所持金を更新
+   * 通常の支出では0未満にならず、返済の引き落とし（allowDebt）のみ残高をマイナスにできる
+   */
+  updatePlayerMoney(change: number, allowDebt: boolean = false): number {
+    const floor = allowDebt ? -Infinity : Math.min(0, this.data.player.money)
+    this.data.player.money = Math.max(floor, this.data.player.money + change)
+    this.markDirty()
+    this.notifyListeners()
+    
+    realtimeManager.emitDataChange({
+      category: 'economy',
+      action: 'update',
+      data: { money: this.data.player.money, change },
+      source: 'user_action'
+    })
+    
+    return this.data.player.money
+  }
+  
+  // =================== インベントリ ===================
+  
+  /**
+   * インベントリ容量（スロット数）を取得
+   */
+  getInventoryCapacity(): { used: number; capacity: number } {
+    return {
+      used: this.data.inventory.length,
+      capacity: calculateInventoryCapacity(this.data.facilities)
+    }
+  }
+  
+  /**
+   * 所持数を取得
+   */
+  getItemCount(itemId: string): number {
+    return countItem(this.data.inventory, itemId)
+  }
+  
+  /**
+   * アイテムを追加（容量超過分は破棄）
+   */
+  addItem(item: Item): InventoryAddResult {
+    const result = addItemToInventory(this.data.inventory, item, calculateInventoryCapacity(this.data.facilities))
+    
+    if (result.overflow > 0) {
+      console.warn(`⚠️ 倉庫がいっぱいのため${item.nameJa}を${result.overflow}個保管できませんでした`)
+    }
+    
+    if (result.added > 0) {
+      this.markDirty()
+      this.notifyListeners()
+      this.emitInventoryChange('create', item.id, { quantity: result.added, overflow: result.overflow })
+    }
+    
+    return result
+  }
+  
+  /**
+   * アイテムを消費
+   * 出品や持たせる、施設の強化素材にするなど、使わずに倉庫から移すだけの場合は reason を 'transfer' にする（使用回数に数えない）
+   */
+  removeItem(itemId: string, quantity: number = 1, reason: 'use' | 'transfer' = 'use'): boolean {
+    if (!removeItemFromInventory(this.data.inventory, itemId, quantity)) {
+      return false
+    }
+    
+    this.markDirty()
+    this.notifyListeners()
+    this.emitInventoryChange(
+      'delete',
+      itemId,
+      { quantity, remaining: this.getItemCount(itemId) },
+      reason === 'use' ? 'user_action' : 'system_update'
+    )
+    
+    return true
+  }
+  
+  /**
+   * アイテムを使用
+   * 回復薬は対象ポケモンに即時適用し（治療薬は療養期間を短縮）、捕獲補助は消費したアイテムを返して捕獲処理側で適用する
+   * 努力値を下げる道具は対象ポケモンの努力値を減らし、能力値を計算し直す
+   */
+  useItem(itemId: string, targetPokemonId?: string): ItemUseResult {
+    const item = this.data.inventory.find(i => i.id === itemId)
+    if (!item) {
+      return { success: false, message: 'アイテムを所持していません' }
+    }
+    
+    const usage = getItemDefinition(itemId)?.usage
+    
+    switch (usage) {
+      case 'healing': {
+        const pokemon = this.data.pokemon.find(p => p.id === targetPokemonId)
+        if (!pokemon) {
+          return { success: false, message: '回復するポケモンを選択してください' }
+        }
+        
+        const recoveryHours = item.effects?.recoveryHours || 0
+        if (recoveryHours > 0) {
+          const condition = getPokemonMedicalCondition(pokemon, new Date())
+          if (!condition) {
+            return { success: false, message: `${pokemon.nameJa}は療養中ではありません` }
+          }
+          
+          const treated = { ...condition }
+          applyTreatment(treated, recoveryHours)
+          this.removeItem(itemId)
+          this.updatePokemon(pokemon.id, { medical: treated })
+          this.processMedical()
+          
+          return { success: true, message: `${pokemon.nameJa}の療養期間が${recoveryHours}時間短くなった` }
+        }
+        
+        if (pokemon.hp >= pokemon.maxHp) {
+          return { success: false, message: `${pokemon.nameJa}のHPは満タンです` }
+        }
+        
+        const healing = item.effects?.healing || 0
+        const newHp = healing > 0 ? Math.min(pokemon.hp + healing, pokemon.maxHp) : pokemon.maxHp
+        this.removeItem(itemId)
+        this.updatePokemon(pokemon.id, { hp: newHp })
+        
+        return { success: true, message: `${pokemon.nameJa}のHPが${newHp - pokemon.hp}回復した` }
+      }
+      
+      case 'capture': {
+        const usedItem = { ...item, quantity: 1 }
+        this.removeItem(itemId)
+        
+        return { success: true, message: `${item.nameJa}を使った`, item: usedItem }
+      }
+      
+      case 'effort': {
+        const pokemon = this.data.pokemon.find(p => p.id === targetPokemonId)
+        if (!pokemon) {
+          return { success: false, message: '使うポケモンを選択してください' }
+        }
+        
+        const stat = item.effects?.effortStat
+        const current = stat ? pokemon.evs?.[stat] ?? 0 : getTotalEffortValues(pokemon.evs)
+        if (current === 0) {
+          return { success: false, message: `${pokemon.nameJa}には減らせる努力値がありません` }
+        }
+        
+        const evs = reduceEffortValues(pokemon.evs, item.effects?.effortReduction ?? 0, stat)
+        const updated = applyEffortValues(pokemon, evs)
+        this.removeItem(itemId)
+        this.updatePokemon(pokemon.id, {
+          evs: updated.evs,
+          hp: updated.hp,
+          maxHp: updated.maxHp,
+          attack: updated.attack,
+          defense: updated.defense,
+          specialAttack: updated.specialAttack,
+          specialDefense: updated.specialDefense,
+          speed: updated.speed
+        })
+        
+        return { success: true, message: `${pokemon.nameJa}の努力値が下がった` }
+      }
+      
+      case 'evolution':
+        return { success: false, message: '進化の石は進化画面から使用してください' }
+        
+      default:
+        return { success: false, message: `${item.nameJa}は使用できません` }
+    }
+  }
+  
+  /**
+   * ショップでアイテムを購入（開催中イベントの価格補正を適用）
+   * 倉庫に入りきらなかった分は請求しない
+   */
+  purchaseItem(itemId: string, quantity: number = 1, now: Date = new Date()): ItemUseResult {
+    const lockReason = this.getActionLockReason('item_purchase')
+    if (lockReason) {
+      return { success: false, message: lockReason }
+    }
+    
+    const unitPrice = getShopPrice(itemId, now)
+    const item = createItem(itemId, quantity)
+    if (unitPrice === undefined || !item) {
+      return { success: false, message: '販売されていないアイテムです' }
+    }
+    if (quantity <= 0) {
+      return { success: false, message: '購入数を指定してください' }
+    }
+    if (this.data.player.money < unitPrice * quantity) {
+      return { success: false, message: '所持金が足りません' }
+    }
+    
+    const { added } = this.addItem(item)
+    if (added === 0) {
+      return { success: false, message: '倉庫がいっぱいです' }
+    }
+    
+    const cost = unitPrice * added
+    this.addTransaction({
+      type: 'expense',
+      category: 'item_purchase',
+      amount: cost,
+      description: `${item.nameJa} ×${added} を購入`,
+      relatedId: itemId,
+      timestamp: now.toISOString()
+    })
+    this.updatePlayerMoney(-cost)
+    
+    return { success: true, message: `${item.nameJa}を${added}個購入した（${cost}円）`, item: { ...item, quantity: added } }
+  }
+  
+  /**
+   * 派遣に介入（所持アイテムを介入システムへ渡し、消費分を差し引く）
+   */
+  async executeIntervention(expeditionId: string, actionId: string) {
+    const expedition = this.data.expeditions.find(e => e.id === expeditionId)
+    const team = expedition
+      ? getExpeditionMemberIds(expedition)
+          .map(memberId => this.data.trainers.find(t => t.id === memberId))
+          .filter((trainer): trainer is Trainer => !!trainer)
+      : []
+    if (!expedition || team.length === 0) {
+      throw new Error(`派遣が見つかりません: ${expeditionId}`)
+    }
+    const trainer = createTeamTrainer(team)
+    
+    // 介入システムは効果更新ループを持つため必要時に読み込む
+    const { expeditionInterventionSystem } = await import('@/lib/expedition/ExpeditionInterventionSystem')
+    const result = await expeditionInterventionSystem.executeIntervention(
+      expeditionId,
+      actionId,
+      trainer,
+      this.data.player.level,
+      this.data.player.money,
+      this.getInventory()
+    )
+    
+    result.consumedItems?.forEach(consumed => {
+      this.removeItem(consumed.itemId, consumed.quantity)
+    })
+    
+    if (result.cost > 0) {
+      this.addTransaction({
+        type: 'expense',
+        category: 'other',
+        amount: result.cost,
+        description: `派遣介入: ${actionId}`,
+        relatedId: expeditionId,
+        timestamp: new Date().toISOString()
+      })
+      this.updatePlayerMoney(-result.cost)
+    }
+    
+    return result
+  }
+  
+  // =================== 派遣パーティ ===================
+  
+  /**
+   * トレーナーの手持ちを入れ替える（派遣中は変更できない）
+   */
+  assignTrainerParty(trainerId: string, pokemonIds: string[]): FinanceActionResult {
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer) {
+      return { success: false, message: 'トレーナーが見つかりません' }
+    }
+    const error = validateParty(trainer, pokemonIds, this.data.trainers, this.data.pokemon, pokemonBreedingSystem.getBreedingSessions())
+    if (error) {
+      return { success: false, message: error }
+    }
+    
+    this.updateTrainer(trainerId, { party: [...pokemonIds] })
+    
+    return {
+      success: true,
+      message: pokemonIds.length > 0
+        ? `${trainer.name}の手持ちを${pokemonIds.length}体にした`
+        : `${trainer.name}の手持ちを空にした`
+    }
+  }
+  
+  /**
+   * 派遣に同行した手持ちのHP減少・ひんしを反映し、経験値を与える
+   */
+  private applyPartyReports(reports: PartyMemberReport[], totalExperience: number, now: Date): void {
+    const context = { gameState: this.data, user: null }
+    
+    reports.forEach(report => {
+      const pokemon = this.data.pokemon.find(p => p.id === report.pokemonId)
+      if (!pokemon) return
+      
+      // 捕獲前バトルで倒した相手の努力値を溜めてから経験値を与える
+      const damaged = { ...pokemon, hp: Math.max(0, pokemon.hp - report.hpLost) }
+      const trained = applyEffortValues(damaged, addEffortValues(damaged.evs, report.effort ?? {}).evs)
+      const { updatedPokemon, levelUpResult } = pokemonGrowthSystem.giveExperience(
+        trained,
+        calculatePartyExperience(report, totalExperience, reports.length),
+        'expedition',
+        context
+      )
+      
+      this.pendingMoves = queuePendingMoves(this.pendingMoves, pokemon, levelUpResult?.pendingMoves)
+      this.updatePokemon(pokemon.id, {
+        level: updatedPokemon.level,
+        experience: updatedPokemon.experience,
+        nextLevelExp: levelUpResult ? calculateNextLevelExp(updatedPokemon.level) : pokemon.nextLevelExp,
+        hp: report.injured ? 0 : Math.min(updatedPokemon.hp, updatedPokemon.maxHp),
+        maxHp: updatedPokemon.maxHp,
+        attack: updatedPokemon.attack,
+        defense: updatedPokemon.defense,
+        specialAttack: updatedPokemon.specialAttack,
+        specialDefense: updatedPokemon.specialDefense,
+        speed: updatedPokemon.speed,
+        evs: updatedPokemon.evs,
+        moves: updatedPokemon.moves,
+        status: report.injured ? 'injured' : pokemon.status,
+        medical: report.injured
+          ? mergeMedicalCondition(pokemon.medical, createMedicalCondition('injury', 'moderate', '派遣中にひんしになった', now))
+          : pokemon.medical
+      })
+      
+      if (levelUpResult) {
+        realtimeManager.emitDataChange({
+          category: 'pokemon',
+          action: 'update',
+          entityId: pokemon.id,
+          data: { level: levelUpResult.newLevel, previousLevel: levelUpResult.previousLevel },
+          source: 'system_update'
+        })
+      }
+    })
+  }
+  
+  // =================== 療養 ===================
+  
+  /**
+   * 療養中のトレーナーに治療薬を使う
+   */
+  treatTrainer(trainerId: string, itemId: string): FinanceActionResult {
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer) {
+      return { success: false, message: 'トレーナーが見つかりません' }
+    }
+    if (!trainer.medical) {
+      return { success: false, message: `${trainer.name}は療養中ではありません` }
+    }
+    const item = this.data.inventory.find(i => i.id === itemId)
+    const recoveryHours = item?.effects?.recoveryHours || 0
+    if (!item || recoveryHours <= 0) {
+      return { success: false, message: '治療に使えるアイテムを所持していません' }
+    }
+    
+    const treated = { ...trainer.medical }
+    applyTreatment(treated, recoveryHours)
+    this.removeItem(itemId)
+    this.updateTrainer(trainerId, { medical: treated })
+    this.processMedical()
+    
+    return { success: true, message: `${trainer.name}の療養期間が${recoveryHours}時間短くなった` }
+  }
+  
+  /**
+   * 経過時間に応じて療養を進め、完治したトレーナー・ポケモンを復帰させる
+   * 回復速度は回復施設と待機中のメディックで決まる
+   */
+  processMedical(now: Date = new Date()): void {
+    const rate = calculateRecoveryRate(this.data.facilities, this.data.trainers)
+    let recovered = 0
+    
+    this.data.trainers.forEach(trainer => {
+      if (!trainer.medical || !advanceRecovery(trainer.medical, rate, now)) return
+      
+      console.log(`🏥 ${trainer.name}の${MEDICAL_KIND_LABELS[trainer.medical.kind]}が治った`)
+      trainer.medical = undefined
+      if (trainer.status === 'resting') {
+        trainer.status = 'available'
+      }
+      recovered++
+    })
+    
+    this.data.pokemon.forEach(pokemon => {
+      const condition = getPokemonMedicalCondition(pokemon, now)
+      if (!condition) return
+      
+      pokemon.medical = condition
+      if (!advanceRecovery(condition, rate, now)) return
+      
+      console.log(`🏥 ${pokemon.nameJa}の${MEDICAL_KIND_LABELS[condition.kind]}が治った`)
+      pokemon.medical = undefined
+      pokemon.status = 'healthy'
+      pokemon.hp = pokemon.maxHp
+      recovered++
+    })
+    
+    if (recovered > 0) {
+      this.markDirty()
+      this.notifyListeners()
+    }
+  }
+  
+  /**
+   * 派遣中に負ったけが・病気を反映（トレーナーは休養、ポケモンはけが・病気の状態にする）
+   */
+  private applyExpeditionInjuries(injuries: ExpeditionInjury[], now: Date): void {
+    injuries.forEach(injury => {
+      const condition = createMedicalCondition(injury.kind, injury.severity, injury.cause, now)
+      
+      if (injury.target === 'trainer') {
+        const trainer = this.data.trainers.find(t => t.id === injury.id)
+        if (!trainer) return
+        this.updateTrainer(trainer.id, {
+          status: 'resting',
+          medical: mergeMedicalCondition(trainer.medical, condition)
+        })
+        return
+      }
+      
+      const pokemon = this.data.pokemon.find(p => p.id === injury.id)
+      if (!pokemon) return
+      const medical = mergeMedicalCondition(pokemon.medical, condition)
+      this.updatePokemon(pokemon.id, {
+        status: medical.kind === 'illness' ? 'sick' : 'injured',
+        medical
+      })
+    })
+  }
+  
+  // =================== 疲労・士気 ===================
+  
+  /**
+   * 経過時間に応じて待機中・休養中のトレーナーの疲労を回復（寮の定員で回復量が変わる）
+   */
+  processTrainerRest(now: Date = new Date()): void {
+    const rate = calculateRestRate(this.data.facilities, this.data.trainers.length)
+    const rested = this.data.trainers.filter(trainer => restTrainer(trainer, rate, now)).length
+    
+    if (rested > 0) {
+      this.markDirty()
+      this.notifyListeners()
+    }
+  }
+  
+  /**
+   * 派遣から戻ったメンバーの疲労・連続成功・士気を更新し、疲れ切ったメンバーは休養させる
+   * 燃え尽きかけたメンバーは派遣ごとのシードで退職を抽選する（再読み込みで結果が変わらない）
+   */
+  private applyExpeditionWellbeing(expedition: Expedition, memberIds: string[], success: boolean, completedAt: Date): void {
+    const hours = Math.max(0, completedAt.getTime() - new Date(expedition.startTime).getTime()) / (60 * 60 * 1000)
+    
+    memberIds.forEach(memberId => {
+      const trainer = this.data.trainers.find(t => t.id === memberId)
+      if (!trainer) return
+      
+      const updated = { ...trainer }
+      applyExpeditionFatigue(updated, hours, expedition.mode, completedAt)
+      updateSuccessStreak(updated, success)
+      updateMorale(updated)
+      
+      const exhaustion = getExhaustionSeverity(updated.fatigue ?? 0)
+      if (exhaustion) {
+        updated.status = 'resting'
+        updated.medical = mergeMedicalCondition(
+          updated.medical,
+          createMedicalCondition('fatigue', exhaustion, '派遣続きで疲れ切った', completedAt)
+        )
+      }
+      
+      this.updateTrainer(memberId, {
+        status: updated.status,
+        medical: updated.medical,
+        fatigue: updated.fatigue,
+        fatigueUpdatedAt: updated.fatigueUpdatedAt,
+        successStreak: updated.successStreak,
+        morale: updated.morale
+      })
+      
+      const quitChance = calculateQuitChance(updated)
+      if (quitChance > 0 && new GameRandom(hashSeed(`${expedition.id}:${memberId}:quit`)).chance(quitChance)) {
+        this.recordDeparture(memberId, 'burnout', completedAt)
+      }
+    })
+  }
+  
+  // =================== 雇用契約 ===================
+  
+  /**
+   * 契約のないトレーナーと契約を結び、満了した契約を更新または終了
+   * 給与に納得していて士気が保たれていれば同じ条件で自動更新し、そうでなければ契約満了で退職する（派遣中は帰還まで待つ）
+   */
+  processContracts(now: Date = new Date()): void {
+    let changed = false
+    
+    this.data.trainers.forEach(trainer => {
+      if (!trainer.contract) {
+        trainer.contract = createContract(now)
+        changed = true
+      }
+    })
+    
+    const expired = this.data.trainers.filter(trainer =>
+      trainer.contract &&
+      trainer.status !== 'on_expedition' &&
+      new Date(trainer.contract.expiresAt).getTime() <= now.getTime()
+    )
+    expired.forEach(trainer => {
+      const contract = trainer.contract!
+      if (willAutoRenew(trainer)) {
+        trainer.contract = createContract(now, contract.termDays, contract.renewals + 1)
+        console.log(`📝 ${trainer.name}の契約を自動更新しました`)
+      } else {
+        this.recordDeparture(trainer.id, 'contract_expired', now)
+      }
+      changed = true
+    })
+    
+    if (changed) {
+      this.markDirty()
+      this.notifyListeners()
+    }
+  }
+  
+  /**
+   * 給与と期間を提示して契約を更新（満了の2週間前から交渉できる。断られると士気が下がる）
+   */
+  renewTrainerContract(trainerId: string, offeredSalary: number, termDays: number, now: Date = new Date()): FinanceActionResult {
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer) {
+      return { success: false, message: 'トレーナーが見つかりません' }
+    }
+    if (!CONTRACT_TERMS.includes(termDays)) {
+      return { success: false, message: '契約期間が正しくありません' }
+    }
+    if (!Number.isFinite(offeredSalary) || offeredSalary <= 0) {
+      return { success: false, message: '給与を入力してください' }
+    }
+    if (trainer.contract && !isRenewalOpen(trainer.contract, now)) {
+      return { success: false, message: `${trainer.name}の契約はまだ更新時期ではありません` }
+    }
+    
+    const evaluation = evaluateRenewalOffer(trainer, offeredSalary, termDays)
+    if (!evaluation.accepted) {
+      this.updateTrainer(trainerId, { morale: Math.max(0, trainer.morale - REJECTED_OFFER_MORALE_PENALTY) })
+      return { success: false, message: evaluation.message }
+    }
+    
+    // 残りの契約期間は新しい契約に引き継ぐ
+    const start = trainer.contract && new Date(trainer.contract.expiresAt).getTime() > now.getTime()
+      ? new Date(trainer.contract.expiresAt)
+      : now
+    this.updateTrainer(trainerId, {
+      salary: Math.round(offeredSalary),
+      contract: createContract(start, termDays, (trainer.contract?.renewals ?? 0) + 1)
+    })
+    
+    return { success: true, message: evaluation.message }
+  }
+  
+  /**
+   * トレーナーを解雇（退職金を支払う。残ったトレーナーの士気が少し下がる）
+   */
+  dismissTrainer(trainerId: string, now: Date = new Date()): FinanceActionResult {
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer) {
+      return { success: false, message: 'トレーナーが見つかりません' }
+    }
+    if (trainer.status === 'on_expedition') {
+      return { success: false, message: `${trainer.name}は派遣中です` }
+    }
+    
+    const severance = calculateSeverance(trainer, now)
+    if (this.data.player.money < severance) {
+      return { success: false, message: `退職金 ₽${severance.toLocaleString()} を支払えません` }
+    }
+    
+    this.addTransaction({
+      type: 'expense',
+      category: 'salary',
+      amount: severance,
+      description: `${trainer.name}の退職金`,
+      relatedId: trainer.id,
+      timestamp: now.toISOString()
+    })
+    this.updatePlayerMoney(-severance)
+    this.recordDeparture(trainerId, 'dismissed', now, severance)
+    
+    this.data.trainers.forEach(other => {
+      other.morale = Math.max(0, other.morale - DISMISSAL_MORALE_PENALTY)
+    })
+    this.evaluateFinances(now)
+    
+    return { success: true, message: `${trainer.name}を解雇した（退職金 ₽${severance.toLocaleString()}）` }
+  }
+  
+  /**
+   * トレーナーの退職・解雇を記録（手持ちのポケモンと預けていたタマゴは学校に残る）
+   */
+  private recordDeparture(trainerId: string, reason: DepartureReason, now: Date, severance: number = 0): void {
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer) return
+    
+    this.data.trainers = this.data.trainers.filter(t => t.id !== trainerId)
+    pokemonBreedingSystem.getEggInventory()
+      .filter(egg => egg.carrierId === trainerId)
+      .forEach(egg => pokemonBreedingSystem.setEggCarrier(egg.id, undefined))
+    this.data.formerTrainers.push(createFormerTrainerRecord(trainer, reason, now, severance))
+    this.markDirty()
+    this.notifyListeners()
+    
+    realtimeManager.emitDataChange({
+      category: 'trainers',
+      action: 'delete',
+      entityId: trainerId,
+      data: { name: trainer.name, reason },
+      source: 'system_update'
+    })
+    
+    console.log(`👋 ${trainer.name}が退職しました: ${DEPARTURE_REASON_LABELS[reason]}`)
+  }
+  
+  // =================== スキルツリー ===================
+  
+  /**
+   * スキルポイントを使って職業の能力を習得
+   */
+  unlockTrainerAbility(trainerId: string, abilityId: string): FinanceActionResult {
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer) {
+      return { success: false, message: 'トレーナーが見つかりません' }
+    }
+    
+    const error = validateAbilityUnlock(trainer, abilityId)
+    if (error) {
+      return { success: false, message: error }
+    }
+    
+    const updated = { ...trainer }
+    unlockAbility(updated, abilityId)
+    this.updateTrainer(trainerId, {
+      skillPoints: updated.skillPoints,
+      unlockedAbilities: updated.unlockedAbilities
+    })
+    
+    return { success: true, message: `${trainer.name}が${getSkillNode(abilityId)?.nameJa}を習得した` }
+  }
+  
+  /**
+   * 専門分野を選択（一定レベル以上、1人1つまで）
+   */
+  chooseTrainerSpecialization(trainerId: string, specializationId: string): FinanceActionResult {
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer) {
+      return { success: false, message: 'トレーナーが見つかりません' }
+    }
+    
+    const error = validateSpecialization(trainer, specializationId)
+    if (error) {
+      return { success: false, message: error }
+    }
+    
+    this.updateTrainer(trainerId, { specialization: specializationId })
+    return { success: true, message: `${trainer.name}が${getSpecialization(specializationId)?.nameJa}の道に進んだ` }
+  }
+  
+  // =================== トレーナー研修 ===================
+  
+  /**
+   * 受講料を支払ってトレーナーを研修コースに参加させる（受講中は派遣できない）
+   */
+  enrollTrainerInCourse(trainerId: string, courseId: string, now: Date = new Date()): FinanceActionResult {
+    const lockReason = this.getActionLockReason('training')
+    if (lockReason) {
+      return { success: false, message: lockReason }
+    }
+    
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer) {
+      return { success: false, message: 'トレーナーが見つかりません' }
+    }
+    const course = getTrainingCourse(courseId)
+    if (!course) {
+      return { success: false, message: '研修コースが見つかりません' }
+    }
+    
+    const error = validateEnrollment(trainer, course, this.data.trainers, this.data.facilities, this.data.player.money)
+    if (error) {
+      return { success: false, message: error }
+    }
+    
+    this.addTransaction({
+      type: 'expense',
+      category: 'other',
+      amount: course.cost,
+      description: `${trainer.name}の研修: ${course.nameJa}`,
+      relatedId: trainer.id,
+      timestamp: now.toISOString()
+    })
+    this.updatePlayerMoney(-course.cost)
+    this.updateTrainer(trainerId, {
+      status: 'training',
+      course: createCourseEnrollment(course, now)
+    })
+    this.evaluateFinances(now)
+    
+    return { success: true, message: `${trainer.name}が${course.nameJa}を受講し始めた（${course.durationHours}時間）` }
+  }
+  
+  /**
+   * 研修を途中でやめる（受講料は戻らない）
+   */
+  cancelTrainerCourse(trainerId: string): FinanceActionResult {
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer?.course) {
+      return { success: false, message: '受講中の研修がありません' }
+    }
+    
+    const courseName = getTrainingCourse(trainer.course.courseId)?.nameJa ?? '研修'
+    this.updateTrainer(trainerId, { status: 'available', course: undefined })
+    return { success: true, message: `${trainer.name}が${courseName}を中断した` }
+  }
+  
+  /**
+   * 修了時刻を過ぎた研修の成果をスキル・個性・経験値に反映し、修了報告を積む
+   */
+  processTrainerCourses(now: Date = new Date()): void {
+    const completed = this.data.trainers.filter(trainer => trainer.course && isCourseComplete(trainer.course, now))
+    
+    completed.forEach(trainer => {
+      const enrollment = trainer.course!
+      const course = getTrainingCourse(enrollment.courseId)
+      const updated = { ...trainer }
+      const gains = course ? applyCourseGains(updated, course) : []
+      const experience = course?.experience ?? 0
+      const growth = this.calculateTrainerGrowth(trainer, experience)
+      
+      this.updateTrainer(trainer.id, {
+        status: 'available',
+        course: undefined,
+        skills: updated.skills,
+        personality: updated.personality,
+        ...growth
+      })
+      
+      const report: CourseCompletionReport = {
+        trainerId: trainer.id,
+        trainerName: trainer.name,
+        courseId: enrollment.courseId,
+        courseName: course?.nameJa ?? enrollment.courseId,
+        gains,
+        experience,
+        levelsGained: growth.level - trainer.level,
+        completedAt: enrollment.completesAt
+      }
+      this.trainingReports.push(report)
+      
+      realtimeManager.emitDataChange({
+        category: 'trainers',
+        action: 'update',
+        entityId: trainer.id,
+        data: report,
+        source: 'system_update'
+      })
+      
+      console.log(`🎓 ${trainer.name}が${report.courseName}を修了: ${describeCourseGains(gains)}`)
+    })
+  }
+  
+  /**
+   * 通知していない研修の修了報告を取り出す（取り出した報告は消える）
+   */
+  takeTrainingReports(): CourseCompletionReport[] {
+    const reports = this.trainingReports
+    this.trainingReports = []
+    return reports
+  }
+  
+  // =================== 技の習得 ===================
+  
+  /**
+   * 忘れる技の選択待ちになっている技（選ぶか諦めるまで残る）
+   */
+  getPendingMoves(): PendingMoveReport[] {
+    return this.pendingMoves
+  }
+  
+  /**
+   * 選択待ちの技を覚えるか決める（moves は選んだ後の技構成。今の技のままなら全て諦める）
+   */
+  resolvePendingMoves(pokemonId: string, moves: string[]): FinanceActionResult {
+    const report = this.pendingMoves.find(r => r.pokemonId === pokemonId)
+    if (!report) {
+      return { success: false, message: '覚えようとしている技はありません' }
+    }
+    const pokemon = this.data.pokemon.find(p => p.id === pokemonId)
+    if (!pokemon) {
+      this.pendingMoves = this.pendingMoves.filter(r => r !== report)
+      this.notifyListeners()
+      return { success: false, message: 'ポケモンが見つかりません' }
+    }
+    
+    const error = validateMoveChoice(pokemon.moves, report.moves, moves)
+    if (error) {
+      return { success: false, message: error }
+    }
+    
+    const learned = moves.filter(move => !pokemon.moves.includes(move))
+    this.pendingMoves = this.pendingMoves.filter(r => r !== report)
+    this.updatePokemon(pokemon.id, { moves })
+    
+    return {
+      success: true,
+      message: learned.length > 0
+        ? `${pokemon.nameJa}は${learned.join('・')}を覚えた`
+        : `${pokemon.nameJa}は${report.moves.join('・')}を覚えなかった`
+    }
+  }
+  
+  // =================== 努力値 ===================
+  
+  /**
+   * バトルで倒した野生ポケモンの種族に応じて、戦ったポケモンに努力値を与える
+   */
+  awardBattleEffort(pokemonId: string, defeated: Pick<PokemonSpecies, 'nameJa'> & { baseStats: Omit<PokemonSpecies['baseStats'], 'total'> }): FinanceActionResult {
+    const pokemon = this.data.pokemon.find(p => p.id === pokemonId)
+    if (!pokemon) {
+      return { success: false, message: 'ポケモンが見つかりません' }
+    }
+    
+    const { evs, gained } = addEffortValues(pokemon.evs, getBattleEffortYield(defeated.baseStats))
+    if (Object.keys(gained).length === 0) {
+      return { success: true, message: `${pokemon.nameJa}の努力値はこれ以上溜まらない` }
+    }
+    
+    const updated = applyEffortValues(pokemon, evs)
+    this.updatePokemon(pokemon.id, {
+      evs: updated.evs,
+      maxHp: updated.maxHp,
+      attack: updated.attack,
+      defense: updated.defense,
+      specialAttack: updated.specialAttack,
+      specialDefense: updated.specialDefense,
+      speed: updated.speed
+    })
+    
+    return { success: true, message: `${defeated.nameJa}を倒して${pokemon.nameJa}の努力値が溜まった` }
+  }
+  
+  // =================== 育て屋・訓練施設 ===================
+  
+  /**
+   * 保存された交配・タマゴ・訓練枠を各システムに戻す（進み具合は開始・終了時刻と実時刻から求め直す）
+   */
+  private restorePokemonFacilities(now: Date = new Date()): void {
+    pokemonBreedingSystem.restoreState(this.data.breeding, now.getTime())
+    pokemonTrainingFacility.restoreState(this.data.pokemonTraining, now.getTime())
+    this.collectCompletedTraining()
+    this.syncPokemonFacilities()
+  }
+  
+  /**
+   * 経過時間で終わった交配・訓練を反映（変化があれば各システムから同期される）
+   */
+  processPokemonFacilities(now: Date = new Date()): void {
+    pokemonBreedingSystem.updateBreedingSessions(now.getTime())
+    pokemonTrainingFacility.updateTrainingSessions(now.getTime())
+    this.collectCompletedTraining()
+  }
+  
+  /**
+   * 訓練費を支払ってポケモンを訓練施設に入れる（空きがなければ順番待ちに並ぶ）
+   */
+  schedulePokemonTraining(pokemonId: string, facilityId: string, programId: string, now: Date = new Date()): FinanceActionResult {
+    const lockReason = this.getActionLockReason('training')
+    if (lockReason) {
+      return { success: false, message: lockReason }
+    }
+    
+    const pokemon = this.data.pokemon.find(p => p.id === pokemonId)
+    if (!pokemon) {
+      return { success: false, message: 'ポケモンが見つかりません' }
+    }
+    const facility = pokemonTrainingFacility.getAvailableFacilities(this.getGameContext()).find(f => f.id === facilityId)
+    if (!facility) {
+      return { success: false, message: 'この訓練施設はまだ使えません' }
+    }
+    const program = pokemonTrainingFacility.getFacilityPrograms(facilityId).find(p => p.id === programId)?.program
+    if (!program) {
+      return { success: false, message: `${facility.name}ではこの訓練を受けられません` }
+    }
+    
+    if (pokemon.status !== 'healthy') {
+      return { success: false, message: `${pokemon.nameJa}は体調が万全ではありません` }
+    }
+    if (isAtDaycare(pokemonBreedingSystem.getBreedingSessions(), pokemonId)) {
+      return { success: false, message: `${pokemon.nameJa}は育て屋に預けています` }
+    }
+    const owner = findPartyOwner(this.data.trainers, pokemonId)
+    if (owner) {
+      return { success: false, message: `${pokemon.nameJa}は${owner.name}の手持ちです` }
+    }
+    if (this.data.player.money < program.cost) {
+      return { success: false, message: `訓練費が足りません（₽${program.cost.toLocaleString()}）` }
+    }
+    
+    const result = pokemonTrainingFacility.startTraining(pokemon, facilityId, programId, this.getGameContext(), now.getTime())
+    if (!result.success || !result.trainingSlot) {
+      return { success: false, message: `${facility.name}の順番待ちがいっぱいです` }
+    }
+    
+    this.addTransaction({
+      type: 'expense',
+      category: 'other',
+      amount: program.cost,
+      description: `${pokemon.nameJa}の訓練: ${facility.name}`,
+      relatedId: pokemon.id,
+      timestamp: now.toISOString()
+    })
+    this.updatePlayerMoney(-program.cost)
+    this.updatePokemon(pokemonId, { status: 'training' })
+    this.evaluateFinances(now)
+    
+    return result.trainingSlot.status === 'queued'
+      ? { success: true, message: `${pokemon.nameJa}が${facility.name}の順番待ちに並んだ` }
+      : { success: true, message: `${pokemon.nameJa}が${facility.name}で訓練を始めた` }
+  }
+  
+  /**
+   * 訓練を一時停止して枠を空ける（順番待ちのポケモンが訓練を始める）
+   */
+  pausePokemonTraining(slotId: string, now: Date = new Date()): FinanceActionResult {
+    if (!pokemonTrainingFacility.pauseTraining(slotId, now.getTime()).success) {
+      return { success: false, message: '訓練中の枠が見つかりません' }
+    }
+    return { success: true, message: '訓練を一時停止した' }
+  }
+  
+  /**
+   * 一時停止した訓練を再開する（枠が埋まっていれば順番待ちに戻る）
+   */
+  resumePokemonTraining(slotId: string, now: Date = new Date()): FinanceActionResult {
+    const result = pokemonTrainingFacility.resumeTraining(slotId, now.getTime())
+    if (!result.success) {
+      return { success: false, message: '一時停止中の訓練が見つかりません' }
+    }
+    return result.queued
+      ? { success: true, message: '枠が空いていないため順番待ちに戻した' }
+      : { success: true, message: '訓練を再開した' }
+  }
+  
+  /**
+   * 訓練をやめてポケモンを引き取る（順番待ちのうちなら訓練費は戻る）
+   */
+  cancelPokemonTraining(slotId: string, now: Date = new Date()): FinanceActionResult {
+    const result = pokemonTrainingFacility.cancelTraining(slotId, now.getTime())
+    const slot = result.trainingSlot
+    if (!result.success || !slot) {
+      return { success: false, message: '訓練の枠が見つかりません' }
+    }
+    
+    const pokemon = this.data.pokemon.find(p => p.id === slot.pokemonId)
+    if (pokemon?.status === 'training') {
+      this.updatePokemon(pokemon.id, { status: 'healthy' })
+    }
+    
+    // 一度も始まっていない順番待ちだけ払い戻す（一時停止から戻った順番待ちは残り時間を持つ）
+    const refund = slot.status === 'queued' && slot.remainingMs === undefined ? slot.cost ?? 0 : 0
+    if (refund > 0) {
+      this.addTransaction({
+        type: 'income',
+        category: 'other',
+        amount: refund,
+        description: `訓練費の払い戻し: ${pokemon?.nameJa ?? '不明なポケモン'}`,
+        relatedId: slot.pokemonId,
+        timestamp: now.toISOString()
+      })
+      this.updatePlayerMoney(refund)
+      return { success: true, message: `順番待ちをやめた（訓練費₽${refund.toLocaleString()}を払い戻した）` }
+    }
+    return { success: true, message: '訓練をやめて引き取った' }
+  }
+  
+  /**
+   * 訓練施設を強化する（必要な道具は消費する）
+   */
+  upgradeTrainingFacility(facilityId: string, now: Date = new Date()): FinanceActionResult {
+    const lockReason = this.getActionLockReason('facility_upgrade')
+    if (lockReason) {
+      return { success: false, message: lockReason }
+    }
+    
+    const facility = pokemonTrainingFacility.getFacility(facilityId)
+    const upgrade = pokemonTrainingFacility.getNextUpgrade(facilityId)
+    if (!facility || !upgrade) {
+      return { success: false, message: 'これ以上強化できません' }
+    }
+    
+    const result = pokemonTrainingFacility.upgradeFacility(facilityId, this.getGameContext(), now.getTime())
+    if (!result.success) {
+      const reasons: Record<string, string> = {
+        'Player level too low': `プレイヤーレベル${upgrade.requirements.playerLevel}から強化できます`,
+        'Required items missing': '強化に必要な道具が足りません',
+        'Insufficient funds': `強化費用が足りません（₽${upgrade.cost.toLocaleString()}）`
+      }
+      return { success: false, message: reasons[result.error ?? ''] ?? 'この施設は強化できません' }
+    }
+    
+    upgrade.requirements.itemsRequired?.forEach(({ itemId, quantity }) => this.removeItem(itemId, quantity, 'transfer'))
+    this.addTransaction({
+      type: 'expense',
+      category: 'facility_cost',
+      amount: upgrade.cost,
+      description: `${facility.name}をLv.${result.newLevel}に強化`,
+      relatedId: facilityId,
+      timestamp: now.toISOString()
+    })
+    this.updatePlayerMoney(-upgrade.cost)
+    this.evaluateFinances(now)
+    
+    return { success: true, message: `${facility.name}をLv.${result.newLevel}に強化した` }
+  }
+  
+  /**
+   * 終わった訓練の成果をポケモンに反映して枠を片付ける
+   */
+  private collectCompletedTraining(): void {
+    const context = this.getGameContext()
+    
+    pokemonTrainingFacility.getTrainingSlots()
+      .filter(slot => slot.status === 'completed')
+      .forEach(slot => {
+        const pokemon = this.data.pokemon.find(p => p.id === slot.pokemonId)
+        const result = pokemonTrainingFacility.completeTraining(slot.id, context)
+        if (!pokemon || !result.success || !result.result) return
+        
+        const trained = result.result.pokemon
+        this.pendingMoves = queuePendingMoves(this.pendingMoves, pokemon, result.result.levelUpResult?.pendingMoves)
+        this.updatePokemon(pokemon.id, {
+          level: trained.level,
+          experience: trained.experience,
+          nextLevelExp: trained.level > pokemon.level ? calculateNextLevelExp(trained.level) : pokemon.nextLevelExp,
+          hp: trained.hp,
+          maxHp: Math.max(trained.maxHp, trained.hp),
+          attack: trained.attack,
+          defense: trained.defense,
+          specialAttack: trained.specialAttack,
+          specialDefense: trained.specialDefense,
+          speed: trained.speed,
+          moves: trained.moves,
+          evs: trained.evs,
+          status: 'healthy'
+        })
+        console.log(`🏋️ ${pokemon.nameJa}の訓練が終わった（Lv.${trained.level}）`)
+      })
+  }
+  
+  /**
+   * 育て屋の道具をポケモンに持たせる（itemId を省略すると外す。外した道具は倉庫に戻る）
+   */
+  setPokemonHeldItem(pokemonId: string, itemId?: string): FinanceActionResult {
+    const pokemon = this.data.pokemon.find(p => p.id === pokemonId)
+    if (!pokemon) {
+      return { success: false, message: 'ポケモンが見つかりません' }
+    }
+    if (isAtDaycare(pokemonBreedingSystem.getBreedingSessions(), pokemonId)) {
+      return { success: false, message: `${pokemon.nameJa}は育て屋に預けているため持ち物を変えられません` }
+    }
+    
+    const definition = itemId ? getItemDefinition(itemId) : undefined
+    if (itemId) {
+      if (definition?.usage !== 'breeding') {
+        return { success: false, message: '育て屋で持たせる道具ではありません' }
+      }
+      if (!this.removeItem(itemId, 1, 'transfer')) {
+        return { success: false, message: `${definition.nameJa}を持っていません` }
+      }
+    }
+    
+    const previous = pokemon.heldItem
+    if (previous) {
+      const item = createItem(previous, 1)
+      if (item) this.addItem(item)
+    }
+    this.updatePokemon(pokemonId, { heldItem: itemId })
+    
+    return definition
+      ? { success: true, message: `${pokemon.nameJa}に${definition.nameJa}を持たせた` }
+      : { success: true, message: `${pokemon.nameJa}の持ち物を外した` }
+  }
+  
+  /**
+   * 2匹を育て屋に預けて交配を始める
+   */
+  startPokemonBreeding(parent1Id: string, parent2Id: string): FinanceActionResult {
+    const parent1 = this.data.pokemon.find(p => p.id === parent1Id)
+    const parent2 = this.data.pokemon.find(p => p.id === parent2Id)
+    if (!parent1 || !parent2) {
+      return { success: false, message: 'ポケモンが見つかりません' }
+    }
+    
+    const error = validateBreedingPair(parent1, parent2, pokemonBreedingSystem.getBreedingSessions(), this.data.trainers)
+    if (error) {
+      return { success: false, message: error }
+    }
+    
+    const result = pokemonBreedingSystem.startBreeding(parent1, parent2, this.getGameContext())
+    if (!result.success || !result.session) {
+      return { success: false, message: `${parent1.nameJa}と${parent2.nameJa}は相性が悪いようです` }
+    }
+    
+    const minutes = Math.round((result.session.endTime - result.session.startTime) / 60000)
+    return { success: true, message: `${parent1.nameJa}と${parent2.nameJa}を育て屋に預けた（約${minutes}分）` }
+  }
+  
+  /**
+   * 交配を途中でやめて2匹を引き取る
+   */
+  cancelPokemonBreeding(sessionId: string): FinanceActionResult {
+    if (!pokemonBreedingSystem.cancelBreeding(sessionId)) {
+      return { success: false, message: '預かり中の組み合わせが見つかりません' }
+    }
+    return { success: true, message: '育て屋から2匹を引き取った' }
+  }
+  
+  /**
+   * 交配が終わった組み合わせからタマゴを受け取る（相性が良ければおまけのアイテムも付く）
+   */
+  collectBreedingEgg(sessionId: string): FinanceActionResult {
+    // 画面では終了時刻を過ぎた時点で受け取れるため、次の定期処理を待たずに交配の状態を進める
+    this.processPokemonFacilities()
+    
+    const result = pokemonBreedingSystem.collectEgg(sessionId, this.getGameContext())
+    if (!result.success || !result.egg) {
+      return { success: false, message: 'まだタマゴは見つかっていません' }
+    }
+    
+    result.bonusRewards?.items.forEach(reward => {
+      const item = createItem(reward.itemId, reward.quantity)
+      if (item) this.addItem(item)
+    })
+    
+    const bonus = result.bonusRewards?.items.length ? '（おまけのアイテムももらった）' : ''
+    return { success: true, message: `育て屋からタマゴを受け取った${bonus}` }
+  }
+  
+  /**
+   * タマゴをトレーナーに持たせる（trainerId を省略すると預かり所に戻す）
+   */
+  setEggCarrier(eggId: string, trainerId?: string): FinanceActionResult {
+    const egg = pokemonBreedingSystem.getEggInventory().find(e => e.id === eggId)
+    if (!egg) {
+      return { success: false, message: 'タマゴが見つかりません' }
+    }
+    
+    if (!trainerId) {
+      pokemonBreedingSystem.setEggCarrier(eggId, undefined)
+      return { success: true, message: 'タマゴを預かり所に戻した' }
+    }
+    
+    const trainer = this.data.trainers.find(t => t.id === trainerId)
+    if (!trainer) {
+      return { success: false, message: 'トレーナーが見つかりません' }
+    }
+    const error = validateEggCarrier(egg, trainer, pokemonBreedingSystem.getEggInventory())
+    if (error) {
+      return { success: false, message: error }
+    }
+    
+    pokemonBreedingSystem.setEggCarrier(eggId, trainerId)
+    return { success: true, message: `${trainer.name}にタマゴを持たせた。派遣で歩くと孵化が近づく` }
+  }
+  
+  /**
+   * 歩数が満ちたタマゴを孵す
+   */
+  async hatchPokemonEgg(eggId: string): Promise<FinanceActionResult> {
+    const result = await pokemonBreedingSystem.hatchEgg(eggId, this.getGameContext())
+    if (!result.success || !result.pokemon) {
+      return { success: false, message: 'このタマゴはまだ孵りません' }
+    }
+    
+    this.addPokemon({ ...result.pokemon, status: 'healthy' }, 'hatch')
+    const perfect = result.specialTraits?.perfectIVs ? `（最高の個体値が${result.specialTraits.perfectIVs}つ）` : ''
+    return { success: true, message: `タマゴから${result.pokemon.nameJa}が生まれた！${perfect}` }
+  }
+  
+  /**
+   * 派遣メンバーが持ち歩いたタマゴに歩数を加える
+   */
+  private incubateCarriedEggs(memberIds: string[], steps: number): void {
+    if (steps <= 0) return
+    
+    const ready = pokemonBreedingSystem.incubateEggs(steps, memberIds)
+    if (ready.length > 0) {
+      console.log(`🥚 孵化できるタマゴ: ${ready.length}個`)
+    }
+  }
+  
+  private getGameContext(): GameContext {
+    return { gameState: this.data, user: null }
+  }
+  
+  /**
+   * 育て屋と訓練施設の現在の状態をゲームデータに写す
+   */
+  private syncPokemonFacilities(): void {
+    this.data.breeding = pokemonBreedingSystem.exportState()
+    this.data.pokemonTraining = pokemonTrainingFacility.exportState()
+    this.markDirty()
+    this.notifyListeners()
+  }
+  
+  // =================== アチーブメント ===================
+  
+  /**
+   * データ変更イベントからアチーブメントの進捗を更新し、解除時は報酬を付与
+   */
+  private handleAchievementEvent(event: DataChangeEvent): void {
+    const updates = extractMetricUpdates(event).filter(update => {
+      // 同じ派遣の完了通知が複数システムから届くため、出来事単位で一度だけ数える
+      if (!update.key) return true
+      
+      return this.markEventCounted(`achievement:${update.metric}:${update.key}`)
+    })
+    if (updates.length === 0) return
+    
+    const unlocked = updates.flatMap(update => applyMetricUpdate(this.data.achievements, update))
+    this.markDirty()
+    
+    unlocked.forEach(achievement => this.grantAchievementRewards(achievement))
+    this.notifyListeners()
+  }
+  
+  /**
+   * アチーブメント報酬を付与
+   */
+  private grantAchievementRewards(achievement: AchievementDefinition): void {
+    console.log('🏆 アチーブメント解除:', achievement.title)
+    
+    const { money, items } = achievement.rewards
+    if (money && money > 0) {
+      this.addTransaction({
+        type: 'income',
+        category: 'other',
+        amount: money,
+        description: `アチーブメント報酬: ${achievement.title}`,
+        relatedId: achievement.id,
+        timestamp: new Date().toISOString()
+      })
+      this.updatePlayerMoney(money)
+    }
+    
+    items?.forEach(reward => {
+      const item = createItem(reward.itemId, reward.quantity)
+      if (item) this.addItem(item)
+    })
+  }
+  
+  // =================== デイリー・ウィークリータスク ===================
+  
+  /**
+   * ローカル時刻で日付・週が切り替わっていればタスクを再抽選
    */
-  updateTrainer(id: string, updates: Partial<Trainer>): boolean {
-    const index = this.data.trainers.findIndex(t => t.id === id)
-    if (index === -1) return false
-    
-    this.data.trainers[index] = {
-      ...this.data.trainers[index],
-      ...updates,
-      lastActive: new Date().toISOString()
-    }
+  refreshTasks(now: Date = new Date()): boolean {
+    if (!refreshTaskBoard(this.data.tasks, this.data.userId, now)) return false
     
+    console.log('📅 タスクを更新:', this.data.tasks.daily.date, this.data.tasks.weekly.week)
     this.markDirty()
     this.notifyListeners()
     return true
   }
   
   /**
-   * ポケモンを追加
+   * データ変更イベントからタスク進捗を更新し、達成時は報酬を支払う
    */
-  addPokemon(pokemon: Omit<Pokemon, 'id'>): string {
-    const id = this.generateId('pokemon')
-    const newPokemon: Pokemon = {
-      ...pokemon,
-      id,
-      caughtDate: new Date().toISOString()
-      // lastActive: removed - not part of Pokemon interface
-    }
+  private handleTaskEvent(event: DataChangeEvent): void {
+    const taskEvents = extractTaskEvents(event)
+    if (taskEvents.length === 0) return
     
-    // 初期状態の確認と修正
-    if (newPokemon.status === 'injured' || newPokemon.status === 'sick') {
-      newPokemon.status = 'healthy'
-      console.log('🔄 ポケモンの状態を健康に修正:', newPokemon.name)
-    }
+    this.refreshTasks()
     
-    this.data.pokemon.push(newPokemon)
+    const completed = taskEvents.flatMap(taskEvent => applyTaskEvent(this.data.tasks, taskEvent, taskId =>
+      // 同じ出来事の通知が複数届いても1つのタスクには一度だけ数える
+      !!taskEvent.key && !this.markEventCounted(`task:${taskId}:${taskEvent.type}:${taskEvent.key}`)
+    ))
     this.markDirty()
+    
+    completed.forEach(task => this.payTaskRewards(task))
+    claimWeeklyBonuses(this.data.tasks).forEach(bonus => {
+      this.payReward(bonus.rewards, `ウィークリーボーナス: ${bonus.threshold}個達成`, this.data.tasks.weekly.week)
+    })
     this.notifyListeners()
+  }
+  
+  /**
+   * タスク報酬を支払う（デイリーは連続達成ボーナスの倍率を適用）
+   */
+  private payTaskRewards({ period, task, multiplier }: CompletedTask): void {
+    console.log('✅ タスク達成:', task.description)
     
-    console.log('✅ ポケモン追加:', newPokemon.name)
-    return id
+    const label = period === 'daily' ? 'デイリータスク' : 'ウィークリータスク'
+    this.payReward(
+      { ...task.rewards, money: Math.floor(task.rewards.money * multiplier) },
+      `${label}報酬: ${task.description}`,
+      task.id
+    )
   }
-
+  
   /**
-   * ポケモン情報を更新
+   * タスク報酬を付与（収入は経済システムにも記録）
    */
-  updatePokemon(id: string, updates: Partial<Pokemon>): boolean {
-    const index = this.data.pokemon.findIndex(p => p.id === id)
-    if (index === -1) return false
+  private payReward(
+    rewards: { money: number; experience?: number; items: Array<{ itemId: string; quantity: number }> },
+    description: string,
+    relatedId: string
+  ): void {
+    if (rewards.money > 0) {
+      economySystem.recordIncome('bonus', rewards.money, description, relatedId)
+      this.addTransaction({
+        type: 'income',
+        category: 'other',
+        amount: rewards.money,
+        description,
+        relatedId,
+        timestamp: new Date().toISOString()
+      })
+      this.updatePlayerMoney(rewards.money)
+    }
     
-    this.data.pokemon[index] = {
-      ...this.data.pokemon[index],
-      ...updates
-      // lastActive: removed - not part of Pokemon interface  
+    if (rewards.experience) {
+      this.data.player.experience += rewards.experience
     }
     
+    rewards.items.forEach(reward => {
+      const item = createItem(reward.itemId, reward.quantity)
+      if (item) this.addItem(item)
+    })
+  }
+  
+  /**
+   * 出来事を集計済みとして記録（初回のみ true）
+   */
+  private markEventCounted(eventKey: string): boolean {
+    if (this.countedEvents.has(eventKey)) return false
+    
+    this.countedEvents.add(eventKey)
+    return true
+  }
+  
+  private emitInventoryChange(
+    action: 'create' | 'update' | 'delete',
+    itemId: string,
+    data: Record<string, number>,
+    source: DataChangeEvent['source'] = action === 'create' ? 'system_update' : 'user_action'
+  ): void {
+    realtimeManager.emitDataChange({
+      category: 'inventory',
+      action,
+      entityId: itemId,
+      data,
+      source
+    })
+  }
+  
+  // =================== ゲーム内時計 ===================
+  
+  /**
+   * 時計の速度を変更（ゲーム内時刻は変更時点から連続して進む）
+   */
+  setWorldClockSpeed(speed: number): void {
+    this.data.worldClock = worldClock.setSpeed(speed)
     this.markDirty()
     this.notifyListeners()
-    return true
   }
-
+  
+  // =================== 融資・給与 ===================
+  
   /**
-   * ポケモンの状態を回復
+   * 融資を受ける
    */
-  healPokemon(id: string): boolean {
-    const pokemon = this.data.pokemon.find(p => p.id === id)
-    if (!pokemon) return false
+  takeLoan(productId: string, principal: number, now: Date = new Date()): FinanceActionResult {
+    const error = validateLoanRequest(this.data.finance, productId, principal)
+    if (error) {
+      return { success: false, message: error }
+    }
     
-    if (pokemon.status === 'healthy') {
-      console.log('ℹ️ ポケモンは既に健康です:', pokemon.name)
-      return true
+    const product = LOAN_PRODUCTS[productId]
+    const loan = createLoan(this.generateId('loan'), productId, principal, now)
+    this.data.finance.loans.push(loan)
+    this.addTransaction({
+      type: 'income',
+      category: 'loan',
+      amount: principal,
+      description: `${product.name}の借入`,
+      relatedId: loan.id,
+      timestamp: now.toISOString()
+    })
+    this.updatePlayerMoney(principal)
+    
+    return {
+      success: true,
+      message: `${principal.toLocaleString()}円を借り入れた（返済総額 ${getRemainingBalance(loan).toLocaleString()}円・${loan.installments.length}回払い）`
+    }
+  }
+  
+  /**
+   * 融資の残りをまとめて返済
+   */
+  repayLoan(loanId: string, now: Date = new Date()): FinanceActionResult {
+    const loan = this.data.finance.loans.find(l => l.id === loanId)
+    if (!loan || getRemainingBalance(loan) === 0) {
+      return { success: false, message: '返済中の融資ではありません' }
+    }
+    if (this.data.player.money < getRemainingBalance(loan)) {
+      return { success: false, message: '所持金が足りません' }
     }
     
-    // 状態を健康に回復
-    pokemon.status = 'healthy'
-    pokemon.hp = pokemon.maxHp
+    const amount = settleLoan(loan, now)
+    this.addTransaction({
+      type: 'expense',
+      category: 'loan',
+      amount,
+      description: `${LOAN_PRODUCTS[loan.productId]?.name ?? '融資'}の繰り上げ返済`,
+      relatedId: loan.id,
+      timestamp: now.toISOString()
+    })
+    this.updatePlayerMoney(-amount)
+    this.evaluateFinances(now)
     
-    this.markDirty()
-    this.notifyListeners()
+    return { success: true, message: `${amount.toLocaleString()}円を返済した` }
+  }
+  
+  /**
+   * 未払い給与を清算
+   */
+  payUnpaidWages(now: Date = new Date()): FinanceActionResult {
+    const { unpaidWages } = this.data.finance
+    if (unpaidWages === 0) {
+      return { success: false, message: '未払いの給与はありません' }
+    }
+    if (this.data.player.money < unpaidWages) {
+      return { success: false, message: '所持金が足りません' }
+    }
     
-    console.log('💚 ポケモンを回復しました:', pokemon.name)
-    return true
+    const amount = settleUnpaidWages(this.data.finance)
+    this.addTransaction({
+      type: 'expense',
+      category: 'salary',
+      amount,
+      description: '未払い給与の清算',
+      timestamp: now.toISOString()
+    })
+    this.updatePlayerMoney(-amount)
+    this.evaluateFinances(now)
+    
+    return { success: true, message: `未払い給与 ${amount.toLocaleString()}円を支払った` }
   }
-
+  
   /**
-   * 全ポケモンの状態を回復
+   * 期日を迎えた返済の引き落としと給与日の支払いを行い、破産段階を更新
+   * 給与を払えない場合はトレーナーの信頼度・士気が下がり、未払い分として積み上がる
    */
-  healAllPokemon(): number {
-    let healedCount = 0
+  processFinances(now: Date = new Date()): void {
+    const { finance } = this.data
     
-    this.data.pokemon.forEach(pokemon => {
-      if (pokemon.status !== 'healthy' || pokemon.hp < pokemon.maxHp) {
-        pokemon.status = 'healthy'
-        pokemon.hp = pokemon.maxHp
-        healedCount++
-      }
+    collectDueInstallments(finance, now).forEach(({ loan, installment, index }) => {
+      this.addTransaction({
+        type: 'expense',
+        category: 'loan',
+        amount: installment.amount,
+        description: `${LOAN_PRODUCTS[loan.productId]?.name ?? '融資'}の返済 (${index + 1}/${loan.installments.length}回目)`,
+        relatedId: loan.id,
+        timestamp: now.toISOString()
+      })
+      this.updatePlayerMoney(-installment.amount, true)
     })
     
-    if (healedCount > 0) {
+    const duePayrolls = countDuePayrolls(finance, now)
+    for (let i = 0; i < duePayrolls; i++) {
+      const payroll = calculateMonthlyPayroll(this.data.trainers)
+      if (payroll > 0 && this.data.player.money >= payroll) {
+        this.addTransaction({
+          type: 'expense',
+          category: 'salary',
+          amount: payroll,
+          description: `月次給与支払い (${this.data.trainers.length}名)`,
+          timestamp: now.toISOString()
+        })
+        this.updatePlayerMoney(-payroll)
+      } else if (payroll > 0) {
+        console.warn(`❌ 給与支払い不可: ¥${payroll.toLocaleString()} 必要、残高: ¥${this.data.player.money.toLocaleString()}`)
+        applyMissedPayroll(finance, this.data.trainers, payroll)
+      }
+      
+      // 士気・信頼度の下がったトレーナーは給与日に辞めていく（給与日ごとのシードで抽選）
+      this.data.trainers
+        .filter(trainer => trainer.status !== 'on_expedition')
+        .filter(trainer => {
+          const chance = calculateResignationChance(trainer)
+          return chance > 0 && new GameRandom(hashSeed(`resign:${trainer.id}:${finance.lastPayrollAt}`)).chance(chance)
+        })
+        .forEach(trainer => this.recordDeparture(trainer.id, 'resigned', now))
+      
+      finance.lastPayrollAt = getNextPayrollDate(finance).toISOString()
       this.markDirty()
+    }
+    if (duePayrolls > 0) {
       this.notifyListeners()
-      console.log(`💚 ${healedCount}匹のポケモンを回復しました`)
     }
     
-    return healedCount
+    this.evaluateFinances(now)
   }
-
+  
   /**
-   * ポケモンの状態をチェック
+   * 破産段階によって制限されている場合はその理由を返す
    */
-  getPokemonStatus(): { healthy: number; injured: number; sick: number; training: number } {
-    const status = { healthy: 0, injured: 0, sick: 0, training: 0 }
+  getActionLockReason(action: FinanceAction): string | undefined {
+    return getFinanceLockReason(this.data.finance.bankruptcy.stage, action)
+  }
+  
+  /**
+   * 破産段階を更新し、経済システムの支出制限にも反映
+   */
+  private evaluateFinances(now: Date): void {
+    const { previous, stage } = updateBankruptcyState(this.data.finance, this.data.player.money, now)
+    economySystem.setBankruptcyStage(stage)
+    if (stage === previous) return
     
-    this.data.pokemon.forEach(pokemon => {
-      status[pokemon.status]++
-    })
+    console.warn(`🏦 経営状態: ${BANKRUPTCY_STAGE_LABELS[previous]} → ${BANKRUPTCY_STAGE_LABELS[stage]}`)
+    this.markDirty()
+    this.notifyListeners()
     
-    return status
+    realtimeManager.emitDataChange({
+      category: 'economy',
+      action: 'update',
+      data: { bankruptcyStage: stage, previousStage: previous },
+      source: 'system_update'
+    })
   }
   
+  // =================== マーケット ===================
+  
   /**
-   * 派遣を開始
+   * ポケモンを出品（出品中は手持ちから外れる）
    */
-  startExpedition(expedition: Omit<Expedition, 'id' | 'createdAt' | 'updatedAt'>): string {
-    const id = this.generateId('expedition')
-    const now = new Date().toISOString()
-    
-    const newExpedition: Expedition = {
-      ...expedition,
-      id,
-      createdAt: now,
-      updatedAt: now,
-      events: [],
-      interventions: []
+  listPokemon(pokemonId: string, askingPrice: number, now: Date = new Date()): FinanceActionResult {
+    const index = this.data.pokemon.findIndex(p => p.id === pokemonId)
+    if (index === -1) {
+      return { success: false, message: 'ポケモンが見つかりません' }
+    }
+    const pokemon = this.data.pokemon[index]
+    if (pokemon.status === 'training') {
+      return { success: false, message: `${pokemon.nameJa}は訓練中のため出品できません` }
+    }
+    if (isAtDaycare(pokemonBreedingSystem.getBreedingSessions(), pokemonId)) {
+      return { success: false, message: `${pokemon.nameJa}は育て屋に預けているため出品できません` }
+    }
+    const owner = findPartyOwner(this.data.trainers, pokemonId)
+    if (owner) {
+      return { success: false, message: `${pokemon.nameJa}は${owner.name}の手持ちのため出品できません` }
+    }
+    if (!Number.isInteger(askingPrice) || askingPrice <= 0) {
+      return { success: false, message: '希望価格を指定してください' }
     }
     
-    this.data.expeditions.push(newExpedition)
+    const marketPrice = getPokemonMarketPrice(this.data.market, pokemon, now)
+    const listing = createMarketListing(this.generateId('listing'), { pokemon }, askingPrice, marketPrice, now)
+    this.data.pokemon.splice(index, 1)
+    this.data.market.listings.push(listing)
+    this.markDirty()
+    this.notifyListeners()
     
-    // トレーナーのステータス更新
-    this.updateTrainer(expedition.trainerId, {
-      status: 'on_expedition',
-      currentExpeditionId: id
-    })
+    return {
+      success: true,
+      message: getBuyerChance(askingPrice, marketPrice) === 1
+        ? `${pokemon.nameJa}を${askingPrice.toLocaleString()}円で出品した`
+        : `${pokemon.nameJa}を出品した（相場より高いため買い手が現れない可能性があります）`
+    }
+  }
+  
+  /**
+   * アイテムを出品
+   */
+  listItem(itemId: string, quantity: number, askingPrice: number, now: Date = new Date()): FinanceActionResult {
+    const item = this.data.inventory.find(i => i.id === itemId)
+    const unitPrice = getItemMarketPrice(this.data.market, itemId, now)
+    if (!item || unitPrice === undefined) {
+      return { success: false, message: '出品できないアイテムです' }
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0 || item.quantity < quantity) {
+      return { success: false, message: '所持数が足りません' }
+    }
+    if (!Number.isInteger(askingPrice) || askingPrice <= 0) {
+      return { success: false, message: '希望価格を指定してください' }
+    }
     
+    const listing = createMarketListing(
+      this.generateId('listing'),
+      { item: { ...item, quantity } },
+      askingPrice,
+      unitPrice * quantity,
+      now
+    )
+    this.removeItem(itemId, quantity, 'transfer')
+    this.data.market.listings.push(listing)
     this.markDirty()
     this.notifyListeners()
     
-    console.log('✅ 派遣開始:', id)
-    return id
+    return { success: true, message: `${item.nameJa}×${quantity}を${askingPrice.toLocaleString()}円で出品した` }
   }
   
   /**
-   * 派遣を完了
+   * 出品を取り下げて手元に戻す
    */
-  completeExpedition(expeditionId: string, result: Expedition['result']): boolean {
-    const expedition = this.data.expeditions.find(e => e.id === expeditionId)
-    if (!expedition) return false
+  cancelListing(listingId: string): FinanceActionResult {
+    const listing = this.data.market.listings.find(l => l.id === listingId)
+    if (!listing) {
+      return { success: false, message: '出品が見つかりません' }
+    }
     
-    expedition.status = result?.success ? 'completed' : 'failed'
-    expedition.actualEndTime = new Date().toISOString()
-    expedition.result = result
-    expedition.updatedAt = new Date().toISOString()
+    if (!this.returnListing(listing)) {
+      return { success: false, message: `倉庫に空きがないため${listing.name}を取り下げられません` }
+    }
+    this.data.market.listings = this.data.market.listings.filter(l => l.id !== listingId)
     
-    // トレーナーのステータス更新
-    this.updateTrainer(expedition.trainerId, {
-      status: 'available',
-      currentExpeditionId: undefined,
-      totalExpeditions: this.data.trainers.find(t => t.id === expedition.trainerId)!.totalExpeditions + 1,
-      successfulExpeditions: result?.success 
-        ? this.data.trainers.find(t => t.id === expedition.trainerId)!.successfulExpeditions + 1
-        : this.data.trainers.find(t => t.id === expedition.trainerId)!.successfulExpeditions
-    })
+    return { success: true, message: `${listing.name}の出品を取り下げた` }
+  }
+  
+  /**
+   * NPC販売枠のポケモンを購入
+   */
+  buyMarketPokemon(offerId: string, now: Date = new Date()): FinanceActionResult {
+    const lockReason = this.getActionLockReason('market_purchase')
+    if (lockReason) {
+      return { success: false, message: lockReason }
+    }
     
-    // 結果を反映
-    if (result) {
-      // ポケモン追加
-      result.pokemonCaught.forEach(pokemon => {
-        this.addPokemon(pokemon)
-      })
-      
-      // 収入記録
-      if (result.moneyEarned > 0) {
-        this.addTransaction({
-          type: 'income',
-          category: 'expedition_reward',
-          amount: result.moneyEarned,
-          description: `派遣報酬: ${expedition.locationId}`,
-          relatedId: expeditionId,
-          timestamp: new Date().toISOString()
-        })
-        
-        this.updatePlayerMoney(result.moneyEarned)
-      }
+    const offer = this.data.market.stock.offers.find(o => o.id === offerId)
+    if (!offer || offer.purchased) {
+      return { success: false, message: 'このポケモンは販売されていません' }
+    }
+    const pokemon = createPokemonFromOffer(offer, now)
+    if (!pokemon) {
+      return { success: false, message: 'このポケモンは販売されていません' }
+    }
+    const price = getOfferPrice(this.data.market, offer, now)
+    if (this.data.player.money < price) {
+      return { success: false, message: '所持金が足りません' }
     }
     
-    this.markDirty()
-    this.notifyListeners()
+    offer.purchased = true
+    const id = this.addPokemon(pokemon, 'purchase')
+    this.addTransaction({
+      type: 'expense',
+      category: 'pokemon_purchase',
+      amount: price,
+      description: `マーケットで${pokemon.nameJa}を購入`,
+      relatedId: id,
+      timestamp: now.toISOString()
+    })
+    this.updatePlayerMoney(-price)
     
-    console.log('✅ 派遣完了:', expeditionId)
-    return true
+    return { success: true, message: `${pokemon.nameJa}を${price.toLocaleString()}円で購入した` }
   }
   
   /**
-   * 取引を追加
+   * 販売枠の日替わり更新と、買い手が現れた出品・期限切れの出品を処理
    */
-  addTransaction(transaction: Omit<Transaction, 'id'>): string {
-    const id = this.generateId('transaction')
-    const newTransaction: Transaction = {
-      ...transaction,
-      id
+  processMarket(now: Date = new Date()): void {
+    const { market } = this.data
+    
+    if (refreshMarketStock(market, this.data.userId, now)) {
+      this.markDirty()
+      this.notifyListeners()
     }
     
-    this.data.transactions.push(newTransaction)
-    this.markDirty()
-    this.notifyListeners()
+    const { sold, expired } = collectSettledListings(market, now)
+    sold.forEach(listing => {
+      this.addTransaction({
+        type: 'income',
+        category: listing.kind === 'pokemon' ? 'pokemon_sale' : 'item_sale',
+        amount: listing.askingPrice,
+        description: `マーケットで${listing.name}${listing.item ? `×${listing.item.quantity}` : ''}が売れた`,
+        relatedId: listing.id,
+        timestamp: listing.buyerArrivesAt ?? now.toISOString()
+      })
+      this.updatePlayerMoney(listing.askingPrice)
+    })
+    const returned = expired.filter(listing => {
+      if (this.returnListing(listing)) {
+        console.log(`📦 買い手が現れず出品期限切れ: ${listing.name}`)
+        return true
+      }
+      // 倉庫に入りきらない分は空きができるまで出品のまま預かる（期限切れ後は売れない）
+      market.listings.push({ ...listing, buyerArrivesAt: undefined })
+      return false
+    })
     
-    return id
+    if (sold.length > 0 || returned.length > 0) {
+      this.markDirty()
+      this.notifyListeners()
+      this.evaluateFinances(now)
+    }
   }
   
   /**
-   * プレイヤーの所持金を更新
+   * 出品していたポケモン・アイテムを手元に戻す（ポケモンは捕獲扱いにしない）
+   * アイテムが倉庫に入りきらない場合は何も戻さず false を返す
    */
-  updatePlayerMoney(change: number): number {
-    this.data.player.money = Math.max(0, this.data.player.money + change)
+  private returnListing(listing: MarketListing): boolean {
+    if (listing.item && getAvailableSpace(this.data.inventory, listing.item.id, calculateInventoryCapacity(this.data.facilities)) < listing.item.quantity) {
+      return false
+    }
+    if (listing.pokemon) {
+      this.data.pokemon.push(listing.pokemon)
+    }
+    if (listing.item) {
+      this.addItem(listing.item)
+    }
     this.markDirty()
     this.notifyListeners()
-    
-    return this.data.player.money
+    return true
   }
   
   // =================== 検索・フィルタ ===================
@@ -341,6 +2333,11 @@ export class GameStateManager {
         return
       }
       
+      if (this.localSaveSuspended) {
+        console.warn('⚠️ 読み込めなかったゲームデータを残すため、ローカル保存を停止中')
+        return
+      }
+      
       this.data.lastSaved = new Date().toISOString()
       const serialized = JSON.stringify(this.data, null, 2)
       localStorage.setItem(GameStateManager.STORAGE_KEY, serialized)
@@ -367,15 +2364,28 @@ export class GameStateManager {
         return null
       }
       
-      const stored = localStorage.getItem(GameStateManager.STORAGE_KEY)
-      if (!stored) return null
+      // 旧バージョンのデータは現行バージョンへ変換（変換できないデータは別のキーへ退避）
+      const loaded = loadStoredGameData(localStorage, GameStateManager.STORAGE_KEY)
+      if (!loaded) return null
       
-      const data = JSON.parse(stored) as GameData
-      
-      // バージョン互換性チェック
-      if (data.version !== '1.0.0') {
-        console.warn('⚠️ ゲームデータのバージョンが異なります')
-        // 今後、マイグレーション処理を追加
+      const { data, report, preservedKey } = loaded
+      if (!data) {
+        console.error('❌ ゲームデータのマイグレーションに失敗:', report.error)
+        if (preservedKey) {
+          console.warn('⚠️ 読み込めなかったゲームデータを退避:', preservedKey)
+        } else {
+          // 退避できなければ新しいゲームで上書きしないよう保存を止める
+          this.localSaveSuspended = true
+        }
+        return null
+      }
+      if (report.appliedMigrations.length > 0) {
+        console.log('🔄 ゲームデータをマイグレーション:', {
+          from: report.fromVersion,
+          to: report.toVersion,
+          migrations: report.appliedMigrations
+        })
+        this.markDirty()
       }
       
       // 初期トレーナーが存在しない場合は追加
@@ -437,6 +2447,7 @@ export class GameStateManager {
         successfulExpeditions: 10,
         pokemonCaught: 15,
         trustLevel: 75,
+        morale: 70,
         favoriteLocations: [1, 2, 3],
         hiredDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(), // 30日前
         lastActive: new Date().toISOString()
@@ -457,6 +2468,7 @@ export class GameStateManager {
         successfulExpeditions: 6,
         pokemonCaught: 8,
         trustLevel: 60,
+        morale: 70,
         favoriteLocations: [2, 4],
         hiredDate: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000).toISOString(), // 20日前
         lastActive: new Date().toISOString()
@@ -477,6 +2489,7 @@ export class GameStateManager {
         successfulExpeditions: 4,
         pokemonCaught: 6,
         trustLevel: 45,
+        morale: 70,
         favoriteLocations: [1, 5],
         hiredDate: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(), // 15日前
         lastActive: new Date().toISOString()
@@ -566,6 +2579,26 @@ export class GameStateManager {
   
   // =================== ユーティリティ ===================
   
+  /**
+   * 獲得経験値を加えたレベル・経験値・スキルポイントを計算
+   */
+  private calculateTrainerGrowth(trainer: Trainer, experienceGained: number): Pick<Trainer, 'level' | 'experience' | 'nextLevelExp' | 'skillPoints'> {
+    let { level, experience, nextLevelExp } = trainer
+    experience += experienceGained
+    
+    // 必要経験値は1レベルごとに25%ずつ増える
+    while (nextLevelExp > 0 && experience >= nextLevelExp) {
+      experience -= nextLevelExp
+      level++
+      nextLevelExp = Math.floor(nextLevelExp * 1.25)
+    }
+    
+    // レベルアップごとにスキルツリーのポイントを得る
+    const skillPoints = addLevelUpSkillPoints(trainer, level - trainer.level)
+    
+    return { level, experience, nextLevelExp, skillPoints }
+  }
+  
   /**
    * ユニークIDを生成
    */
@@ -587,6 +2620,15 @@ export class GameStateManager {
    */
   private startAutoSave(): void {
     this.autoSaveTimer = setInterval(() => {
+      if (this.absenceResolved) {
+        this.processFinances()
+      }
+      this.processMarket()
+      this.processMedical()
+      this.processTrainerRest()
+      this.processContracts()
+      this.processTrainerCourses()
+      this.processPokemonFacilities()
       if (this.isDirty) {
         this.saveToLocal()
       }
@@ -642,13 +2684,47 @@ export class GameStateManager {
     return JSON.stringify(this.data, null, 2)
   }
   
+  /**
+   * インポート時のマイグレーション内容を確認（データは変更しない）
+   */
+  previewImport(jsonData: string): MigrationReport {
+    try {
+      return planGameDataMigration(JSON.parse(jsonData))
+    } catch (error) {
+      return {
+        fromVersion: 'unknown',
+        toVersion: this.data.version,
+        appliedMigrations: [],
+        migrationLog: [],
+        success: false,
+        dryRun: true,
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+  
   /**
    * データをインポート（復元用）
    */
   importData(jsonData: string): boolean {
     try {
-      const importedData = JSON.parse(jsonData) as GameData
-      this.data = importedData
+      const { data, report } = migrateGameData(JSON.parse(jsonData))
+      if (!data) {
+        console.error('❌ インポートデータのマイグレーションに失敗:', report.error)
+        return false
+      }
+      
+      this.data = data
+      worldClock.configure(this.data.worldClock)
+      this.refreshTasks()
+      this.processMarket()
+      this.processMedical()
+      this.processTrainerRest()
+      this.processContracts()
+      this.processTrainerCourses()
+      this.restorePokemonFacilities()
+      this.absenceResolved = false
+      void this.catchUpAbsence()
       this.markDirty()
       this.notifyListeners()
       this.saveToLocal()
@@ -0,0 +1,140 @@
+import type { AchievementState } from './types'
+import type { AchievementData, AchievementProgressData } from '@/lib/game-data/GameDataSchema'
+import type { DataChangeEvent } from '@/lib/real-time/RealtimeManager'
+import type { AchievementDefinition, AchievementMetric, AchievementTier } from '@/lib/static-data/types'
+import { getAchievementsByMetric } from '@/lib/static-data/achievements'
+
+/**
+ * アチーブメント判定ユーティリティ
+ * データ変更イベントから指標を取り出し、GameData.achievements の進捗を更新する純粋な計算処理
+ * （報酬付与・永続化・通知は呼び出し側で行う）
+ */
+
+export interface AchievementMetricUpdate {
+  metric: AchievementMetric
+  value: number
+  key?: string // 同じ出来事の重複カウント防止用（例: 派遣ID）
+}
+
+// 累積型はイベントごとに加算、それ以外は到達した最大値を記録
+const CUMULATIVE_METRICS: AchievementMetric[] = ['pokemon_caught', 'expeditions_completed']
+const MILESTONE_RATIOS = [0.25, 0.5, 0.75, 1]
+
+const TIER_RARITY: Record<AchievementTier, number> = {
+  bronze: 0.6,
+  silver: 0.35,
+  gold: 0.15,
+  platinum: 0.05,
+  legendary: 0.01
+}
+
+export const createInitialAchievementState = (): AchievementState => ({
+  unlocked: [],
+  progress: [],
+  totalPoints: 0
+})
+
+/**
+ * データ変更イベントからアチーブメント指標の更新を抽出
+ */
+export const extractMetricUpdates = (event: DataChangeEvent): AchievementMetricUpdate[] => {
+  switch (event.category) {
+    case 'pokemon':
+      // マーケットで購入・タマゴから孵ったポケモンは捕獲に数えない
+      return event.action === 'create' && (event.data?.acquiredBy ?? 'capture') === 'capture'
+        ? [{ metric: 'pokemon_caught', value: 1, key: event.entityId }]
+        : []
+    case 'expeditions':
+      return event.data?.status === 'completed'
+        ? [{ metric: 'expeditions_completed', value: 1, key: event.entityId }]
+        : []
+    case 'economy':
+      return typeof event.data?.money === 'number'
+        ? [{ metric: 'money', value: event.data.money }]
+        : []
+    case 'facilities':
+      return typeof event.data?.level === 'number'
+        ? [{ metric: 'facility_level', value: event.data.level }]
+        : []
+    default:
+      return []
+  }
+}
+
+/**
+ * アチーブメントが解除済みか判定
+ */
+export const isAchievementUnlocked = (state: AchievementState, achievementId: string): boolean => {
+  return state.unlocked.some(achievement => achievement.id === achievementId)
+}
+
+/**
+ * 進捗を取得（未記録なら作成）
+ */
+const getOrCreateProgress = (state: AchievementState, definition: AchievementDefinition): AchievementProgressData => {
+  const existing = state.progress.find(progress => progress.achievementId === definition.id)
+  if (existing) return existing
+
+  const progress: AchievementProgressData = {
+    achievementId: definition.id,
+    progress: 0,
+    maxProgress: definition.target,
+    milestones: MILESTONE_RATIOS.map(ratio => ({
+      threshold: Math.ceil(definition.target * ratio),
+      reached: false
+    })),
+    metadata: { metric: definition.metric }
+  }
+  state.progress.push(progress)
+
+  return progress
+}
+
+const toAchievementData = (definition: AchievementDefinition, unlockedAt: string): AchievementData => ({
+  id: definition.id,
+  title: definition.title,
+  description: definition.description,
+  category: definition.category,
+  tier: definition.tier,
+  points: definition.points,
+  unlockedAt,
+  conditions: [{ metric: definition.metric, target: definition.target }],
+  rewards: definition.rewards,
+  rarity: TIER_RARITY[definition.tier],
+  hidden: definition.hidden
+})
+
+/**
+ * 指標の更新を進捗に反映し、新たに解除されたアチーブメントを返す
+ */
+export const applyMetricUpdate = (
+  state: AchievementState,
+  update: AchievementMetricUpdate,
+  now: string = new Date().toISOString()
+): AchievementDefinition[] => {
+  const newlyUnlocked: AchievementDefinition[] = []
+
+  for (const definition of getAchievementsByMetric(update.metric)) {
+    if (isAchievementUnlocked(state, definition.id)) continue
+
+    const progress = getOrCreateProgress(state, definition)
+    progress.progress = CUMULATIVE_METRICS.includes(update.metric)
+      ? progress.progress + update.value
+      : Math.max(progress.progress, update.value)
+
+    progress.milestones.forEach(milestone => {
+      if (!milestone.reached && progress.progress >= milestone.threshold) {
+        milestone.reached = true
+        milestone.reachedAt = now
+      }
+    })
+
+    if (progress.progress >= definition.target) {
+      state.unlocked.push(toAchievementData(definition, now))
+      state.totalPoints += definition.points
+      newlyUnlocked.push(definition)
+    }
+  }
+
+  return newlyUnlocked
+}
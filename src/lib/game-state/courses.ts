@@ -0,0 +1,138 @@
+import type { CourseEnrollment, Facility, Trainer } from './types'
+import type { TrainingCourseDefinition } from '@/lib/static-data/types'
+
+/**
+ * トレーナーの研修コース
+ * 教室と訓練場の定員、受講条件の確認、修了時のスキル・個性の伸びを求める純粋な計算処理
+ * （受講料の支払い・状態の反映・通知は呼び出し側で行う）
+ */
+
+export interface CourseGain {
+  key: string
+  label: string
+  before: number
+  after: number
+}
+
+export interface CourseCompletionReport {
+  trainerId: string
+  trainerName: string
+  courseId: string
+  courseName: string
+  gains: CourseGain[]
+  experience: number
+  levelsGained: number
+  completedAt: string
+}
+
+export const BASE_CLASSROOM_SLOTS = 1 // 訓練場がなくても教室で1人は受講できる
+const TRAINING_GROUND_SLOTS_PER_LEVEL = 1
+const SKILL_CAP = 10
+const PERSONALITY_RANGE = { min: -10, max: 10 }
+const HOUR = 60 * 60 * 1000
+
+export const SKILL_LABELS: Record<keyof Trainer['skills'], string> = {
+  capture: '捕獲',
+  exploration: '探索',
+  battle: 'バトル',
+  research: '研究',
+  healing: '回復'
+}
+
+export const PERSONALITY_LABELS: Record<keyof Trainer['personality'], string> = {
+  courage: '勇敢さ',
+  caution: '慎重さ',
+  curiosity: '好奇心',
+  teamwork: 'チームワーク',
+  independence: '独立性',
+  compliance: '指示への忠実さ'
+}
+
+// =================== 定員 ===================
+
+/**
+ * 同時に受講できる人数（教室の枠に、訓練場のレベルと状態に応じた枠を加える）
+ */
+export const calculateTrainingCapacity = (facilities: Facility[]): number => {
+  return BASE_CLASSROOM_SLOTS + Math.floor(facilities
+    .filter(facility => facility.type === 'training_ground')
+    .reduce((sum, facility) => sum + (facility.effects.trainerCapacity ?? facility.level * TRAINING_GROUND_SLOTS_PER_LEVEL) * facility.condition, 0))
+}
+
+export const countTrainersInCourse = (trainers: Trainer[]): number => {
+  return trainers.filter(trainer => trainer.course).length
+}
+
+// =================== 受講 ===================
+
+/**
+ * 受講できない場合はその理由を返す
+ */
+export const validateEnrollment = (
+  trainer: Trainer,
+  course: TrainingCourseDefinition,
+  trainers: Trainer[],
+  facilities: Facility[],
+  money: number
+): string | undefined => {
+  if (trainer.course) return `${trainer.name}は研修を受講中です`
+  if (trainer.status !== 'available' || trainer.medical) return `${trainer.name}は現在受講できません`
+  if (trainer.level < course.minLevel) return `${course.nameJa}はLv.${course.minLevel}から受講できます`
+  if (countTrainersInCourse(trainers) >= calculateTrainingCapacity(facilities)) {
+    return '訓練場の定員がいっぱいです'
+  }
+  if (money < course.cost) return '受講料が足りません'
+  return undefined
+}
+
+export const createCourseEnrollment = (course: TrainingCourseDefinition, now: Date): CourseEnrollment => ({
+  courseId: course.id,
+  startedAt: now.toISOString(),
+  completesAt: new Date(now.getTime() + course.durationHours * HOUR).toISOString(),
+  cost: course.cost
+})
+
+export const isCourseComplete = (enrollment: CourseEnrollment, now: Date): boolean => {
+  return new Date(enrollment.completesAt).getTime() <= now.getTime()
+}
+
+/**
+ * 受講の進み具合（0.0 to 1.0）
+ */
+export const getCourseProgress = (enrollment: CourseEnrollment, now: Date): number => {
+  const start = new Date(enrollment.startedAt).getTime()
+  const total = new Date(enrollment.completesAt).getTime() - start
+  return total > 0 ? Math.max(0, Math.min(1, (now.getTime() - start) / total)) : 1
+}
+
+// =================== 修了 ===================
+
+/**
+ * 修了したコースのスキル・個性の伸びを反映し、変化した項目を返す（上限に達した項目は伸びない）
+ */
+export const applyCourseGains = (trainer: Trainer, course: TrainingCourseDefinition): CourseGain[] => {
+  const gains: CourseGain[] = []
+
+  const skills = { ...trainer.skills }
+  ;(Object.entries(course.skillGains) as [keyof Trainer['skills'], number][]).forEach(([key, gain]) => {
+    const before = skills[key]
+    skills[key] = Math.min(SKILL_CAP, before + gain)
+    if (skills[key] !== before) gains.push({ key, label: SKILL_LABELS[key], before, after: skills[key] })
+  })
+
+  const personality = { ...trainer.personality }
+  ;(Object.entries(course.personalityGains) as [keyof Trainer['personality'], number][]).forEach(([key, gain]) => {
+    const before = personality[key]
+    personality[key] = Math.max(PERSONALITY_RANGE.min, Math.min(PERSONALITY_RANGE.max, before + gain))
+    if (personality[key] !== before) gains.push({ key, label: PERSONALITY_LABELS[key], before, after: personality[key] })
+  })
+
+  trainer.skills = skills
+  trainer.personality = personality
+  return gains
+}
+
+export const describeCourseGains = (gains: CourseGain[]): string => {
+  if (gains.length === 0) return 'これ以上は伸びなかった'
+  return gains.map(gain => `${gain.label} ${gain.before}→${gain.after}`).join('、')
+}
@@ -0,0 +1,72 @@
+import type { Pokemon, Trainer } from './types'
+import type { BreedingSession, PokemonEgg } from '@/lib/pokemon/PokemonBreedingSystem'
+import { findPartyOwner, isAtDaycare } from '@/lib/expedition/ExpeditionParty'
+
+/**
+ * 育て屋とタマゴの持ち歩き
+ * 預けられる組み合わせの確認、派遣の移動距離とタマゴの歩数を求める純粋な計算処理
+ * （交配・孵化の実行と状態の反映は呼び出し側で行う）
+ */
+
+export const MIN_BREEDING_LEVEL = 15
+export const MAX_CARRIED_EGGS = 1 // 1人が持ち歩けるタマゴの数
+export const KM_PER_EXPEDITION_HOUR = 5 // 派遣レポートの移動距離と同じ仮定
+export const STEPS_PER_KM = 256
+const HOUR = 60 * 60 * 1000
+
+// =================== 預け入れ ===================
+
+/**
+ * 2匹を育て屋に預けられない場合はその理由を返す
+ */
+export const validateBreedingPair = (
+  parent1: Pokemon,
+  parent2: Pokemon,
+  sessions: BreedingSession[],
+  trainers: Trainer[]
+): string | undefined => {
+  if (parent1.id === parent2.id) return '同じポケモンは選べません'
+
+  for (const pokemon of [parent1, parent2]) {
+    if (pokemon.status !== 'healthy') return `${pokemon.nameJa}は体調が万全ではありません`
+    if (pokemon.level < MIN_BREEDING_LEVEL) return `${pokemon.nameJa}はLv.${MIN_BREEDING_LEVEL}から預けられます`
+    if (isAtDaycare(sessions, pokemon.id)) {
+      return `${pokemon.nameJa}はすでに育て屋に預けています`
+    }
+    const owner = findPartyOwner(trainers, pokemon.id)
+    if (owner) return `${pokemon.nameJa}は${owner.name}の手持ちです`
+  }
+  return undefined
+}
+
+// =================== タマゴの持ち歩き ===================
+
+/**
+ * タマゴを持たせられない場合はその理由を返す
+ */
+export const validateEggCarrier = (egg: PokemonEgg, trainer: Trainer, eggs: PokemonEgg[]): string | undefined => {
+  if (egg.currentSteps >= egg.stepsRequired) return 'このタマゴはもう孵せます'
+  if (trainer.status !== 'available') return `${trainer.name}は今はタマゴを受け取れません`
+  const carried = eggs.filter(other => other.id !== egg.id && other.carrierId === trainer.id).length
+  if (carried >= MAX_CARRIED_EGGS) return `${trainer.name}はすでにタマゴを持っています`
+  return undefined
+}
+
+/**
+ * 派遣で歩いた距離（km）。出発から帰還までの実時間に比例する
+ */
+export const calculateExpeditionDistance = (startTime: string, completedAt: string): number => {
+  const hours = Math.max(0, new Date(completedAt).getTime() - new Date(startTime).getTime()) / HOUR
+  return hours * KM_PER_EXPEDITION_HOUR
+}
+
+export const calculateEggSteps = (distanceKm: number): number => {
+  return Math.floor(distanceKm * STEPS_PER_KM)
+}
+
+/**
+ * 孵化までの進み具合（0.0 to 1.0）
+ */
+export const getEggProgress = (egg: PokemonEgg): number => {
+  return egg.stepsRequired > 0 ? Math.min(1, egg.currentSteps / egg.stepsRequired) : 1
+}
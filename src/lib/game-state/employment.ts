@@ -0,0 +1,131 @@
+import type { DepartureReason, FormerTrainer, Trainer, TrainerContract } from './types'
+import { calculateTrainerSalary } from '@/lib/static-data/jobs'
+
+/**
+ * 雇用契約・退職・解雇
+ * 契約期間と更新交渉（レベルと実績に応じた要求給与）、士気・信頼度の低下による自主退職、
+ * 解雇時の退職金を求める純粋な計算処理（入出金の記録・永続化は呼び出し側で行う）
+ */
+
+export interface RenewalEvaluation {
+  accepted: boolean
+  demand: number // トレーナーが求める月給
+  message: string
+}
+
+export const CONTRACT_TERMS = [30, 90, 180] // 契約期間（日）
+export const DEFAULT_CONTRACT_DAYS = 90
+export const RENEWAL_WINDOW_DAYS = 14 // 満了の何日前から更新交渉できるか
+
+export const DEPARTURE_REASON_LABELS: Record<DepartureReason, string> = {
+  resigned: '自主退職',
+  dismissed: '解雇',
+  contract_expired: '契約満了',
+  burnout: '燃え尽き'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const SALARY_ROUNDING = 100
+const PERFORMANCE_SALARY_RANGE = { min: 0.9, max: 1.2 } // 派遣成功率0〜100%に応じた相場への倍率
+const LOW_MORALE_DEMAND = 60 // 士気がこれを下回ると要求が上がる
+const LONG_TERM_DISCOUNT = 0.05 // 最長期間の契約では要求が下がる
+const LOYAL_TRUST = 70 // 信頼度がこれ以上なら要求の9割でも応じる
+const LOYAL_ACCEPT_RATIO = 0.9
+export const REJECTED_OFFER_MORALE_PENALTY = 5
+const RESIGNATION_THRESHOLD = 30 // 士気・信頼度がこれを下回ると退職を考え始める
+const RESIGNATION_CHANCE_WEIGHT = 0.5
+const SEVERANCE_BASE_MONTHS = 1 // 解雇時は最低1か月分
+const SEVERANCE_REMAINING_RATE = 0.5 // 契約の残り期間の給与の半額を上乗せ
+export const DISMISSAL_MORALE_PENALTY = 3 // 解雇で残ったトレーナーの士気が下がる
+
+const roundSalary = (value: number): number => Math.round(value / SALARY_ROUNDING) * SALARY_ROUNDING
+
+// =================== 契約 ===================
+
+export const createContract = (now: Date, termDays: number = DEFAULT_CONTRACT_DAYS, renewals: number = 0): TrainerContract => ({
+  signedAt: now.toISOString(),
+  expiresAt: new Date(now.getTime() + termDays * DAY_MS).toISOString(),
+  termDays,
+  renewals
+})
+
+/**
+ * 契約満了までの日数（満了済みなら0以下）
+ */
+export const getContractDaysLeft = (contract: TrainerContract, now: Date): number => {
+  return Math.ceil((new Date(contract.expiresAt).getTime() - now.getTime()) / DAY_MS)
+}
+
+export const isRenewalOpen = (contract: TrainerContract, now: Date): boolean => {
+  return getContractDaysLeft(contract, now) <= RENEWAL_WINDOW_DAYS
+}
+
+// =================== 更新交渉 ===================
+
+/**
+ * 契約更新時の要求給与（職業とレベルの相場に、派遣の成功率・士気・契約期間を反映。現在の給与は下回らない）
+ */
+export const calculateSalaryDemand = (trainer: Trainer, termDays: number = DEFAULT_CONTRACT_DAYS): number => {
+  const successRate = trainer.totalExpeditions > 0 ? trainer.successfulExpeditions / trainer.totalExpeditions : 0.5
+  const performance = PERFORMANCE_SALARY_RANGE.min + (PERFORMANCE_SALARY_RANGE.max - PERFORMANCE_SALARY_RANGE.min) * successRate
+  const morale = 1 + Math.max(0, LOW_MORALE_DEMAND - trainer.morale) / 200
+  const term = termDays >= Math.max(...CONTRACT_TERMS) ? 1 - LONG_TERM_DISCOUNT : 1
+
+  return Math.max(trainer.salary, roundSalary(calculateTrainerSalary(trainer.job, trainer.level) * performance * morale * term))
+}
+
+/**
+ * 提示した給与と期間でトレーナーが契約を更新するか
+ */
+export const evaluateRenewalOffer = (trainer: Trainer, offeredSalary: number, termDays: number): RenewalEvaluation => {
+  const demand = calculateSalaryDemand(trainer, termDays)
+
+  if (offeredSalary >= demand) {
+    return { accepted: true, demand, message: `${trainer.name}が月給₽${offeredSalary.toLocaleString()}で契約を更新した` }
+  }
+  if (trainer.trustLevel >= LOYAL_TRUST && offeredSalary >= demand * LOYAL_ACCEPT_RATIO) {
+    return { accepted: true, demand, message: `${trainer.name}は信頼関係から月給₽${offeredSalary.toLocaleString()}で契約を更新した` }
+  }
+  return { accepted: false, demand, message: `${trainer.name}は月給₽${demand.toLocaleString()}以上を求めています` }
+}
+
+/**
+ * 満了した契約を自動で更新するか（現在の給与に納得していて士気が保たれている場合のみ）
+ */
+export const willAutoRenew = (trainer: Trainer): boolean => {
+  return trainer.salary >= calculateSalaryDemand(trainer, trainer.contract?.termDays) && trainer.morale >= 50
+}
+
+// =================== 退職・解雇 ===================
+
+/**
+ * 給与日ごとの自主退職の確率（士気・信頼度が低いほど高い）
+ */
+export const calculateResignationChance = (trainer: Pick<Trainer, 'morale' | 'trustLevel'>): number => {
+  const morale = Math.max(0, RESIGNATION_THRESHOLD - trainer.morale)
+  const trust = Math.max(0, RESIGNATION_THRESHOLD - trainer.trustLevel)
+  return Math.min(1, (morale + trust) / (RESIGNATION_THRESHOLD * 2)) * RESIGNATION_CHANCE_WEIGHT
+}
+
+/**
+ * 解雇時の退職金（1か月分に、契約の残り期間分の給与の半額を上乗せ）
+ */
+export const calculateSeverance = (trainer: Trainer, now: Date): number => {
+  const remainingDays = trainer.contract ? Math.max(0, getContractDaysLeft(trainer.contract, now)) : 0
+  return roundSalary(trainer.salary * (SEVERANCE_BASE_MONTHS + remainingDays / 30 * SEVERANCE_REMAINING_RATE))
+}
+
+/**
+ * 退職・解雇したトレーナーの記録（手持ちは学校に残るため外す）
+ */
+export const createFormerTrainerRecord = (
+  trainer: Trainer,
+  reason: DepartureReason,
+  now: Date,
+  severance: number = 0
+): FormerTrainer => ({
+  trainer: { ...trainer, party: undefined, currentExpeditionId: undefined },
+  reason,
+  leftAt: now.toISOString(),
+  severance
+})
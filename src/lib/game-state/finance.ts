@@ -0,0 +1,310 @@
+import type { BankruptcyStage, FinanceState, Loan, LoanInstallment, Trainer } from './types'
+
+/**
+ * 融資・給与・破産
+ * 借入の返済スケジュール、給与日の判定、給与未払いのペナルティと破産段階の判定を行う純粋な計算処理
+ * （入出金の記録・永続化・通知は呼び出し側で行う）
+ */
+
+export type FinanceAction = 'facility_upgrade' | 'research' | 'hire_trainer' | 'training' | 'item_purchase' | 'market_purchase' | 'take_loan'
+
+export interface LoanProduct {
+  id: string
+  name: string
+  maxPrincipal: number
+  interestRate: number // 返済総額に対する利率
+  installmentCount: number
+  intervalDays: number
+  availableUntil: BankruptcyStage // この段階までは借入できる
+}
+
+export interface DueInstallment {
+  loan: Loan
+  installment: LoanInstallment
+  index: number
+}
+
+export const LOAN_PRODUCTS: Record<string, LoanProduct> = {
+  small: {
+    id: 'small',
+    name: '小口融資',
+    maxPrincipal: 20000,
+    interestRate: 0.05,
+    installmentCount: 4,
+    intervalDays: 7,
+    availableUntil: 'warning'
+  },
+  business: {
+    id: 'business',
+    name: '事業融資',
+    maxPrincipal: 100000,
+    interestRate: 0.12,
+    installmentCount: 8,
+    intervalDays: 7,
+    availableUntil: 'solvent'
+  },
+  emergency: {
+    id: 'emergency',
+    name: '緊急融資',
+    maxPrincipal: 30000,
+    interestRate: 0.25,
+    installmentCount: 4,
+    intervalDays: 7,
+    availableUntil: 'distressed'
+  }
+}
+
+export const MAX_TOTAL_DEBT = 150000 // 返済残高の上限
+export const PAYROLL_INTERVAL_DAYS = 30
+export const MISSED_PAYROLL_PENALTY = { trust: 10, morale: 15 }
+
+export const BANKRUPTCY_STAGES: BankruptcyStage[] = ['solvent', 'warning', 'distressed', 'bankrupt']
+
+// 残高マイナスの継続日数・給与の連続未払い回数のどちらかが基準に達すると段階が上がる
+export const BANKRUPTCY_THRESHOLDS: Record<Exclude<BankruptcyStage, 'solvent'>, { negativeDays: number; missedPayrolls: number }> = {
+  warning: { negativeDays: 0, missedPayrolls: 1 },
+  distressed: { negativeDays: 3, missedPayrolls: 2 },
+  bankrupt: { negativeDays: 7, missedPayrolls: 3 }
+}
+
+export const LOCKED_ACTIONS: Record<BankruptcyStage, FinanceAction[]> = {
+  solvent: [],
+  warning: ['facility_upgrade'],
+  distressed: ['facility_upgrade', 'research', 'hire_trainer', 'training'],
+  bankrupt: ['facility_upgrade', 'research', 'hire_trainer', 'training', 'item_purchase', 'market_purchase', 'take_loan']
+}
+
+export const BANKRUPTCY_STAGE_LABELS: Record<BankruptcyStage, string> = {
+  solvent: '健全',
+  warning: '警戒',
+  distressed: '経営危機',
+  bankrupt: '破産'
+}
+
+export const FINANCE_ACTION_LABELS: Record<FinanceAction, string> = {
+  facility_upgrade: '施設の建設・強化',
+  research: '研究',
+  hire_trainer: 'トレーナー雇用',
+  training: '訓練',
+  item_purchase: 'アイテム購入',
+  market_purchase: 'マーケットでの購入',
+  take_loan: '新規借入'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const stageIndex = (stage: BankruptcyStage): number => BANKRUPTCY_STAGES.indexOf(stage)
+
+const clampPercent = (value: number): number => Math.max(0, Math.min(100, value))
+
+export const createInitialFinanceState = (now: Date): FinanceState => ({
+  loans: [],
+  lastPayrollAt: now.toISOString(),
+  missedPayrolls: 0,
+  unpaidWages: 0,
+  bankruptcy: { stage: 'solvent', since: now.toISOString() }
+})
+
+// =================== 融資 ===================
+
+/**
+ * 返済スケジュールを作成（端数は最終回で調整）
+ */
+export const calculateLoanSchedule = (product: LoanProduct, principal: number, takenAt: Date): LoanInstallment[] => {
+  const total = Math.round(principal * (1 + product.interestRate))
+  const base = Math.floor(total / product.installmentCount)
+
+  return Array.from({ length: product.installmentCount }, (_, i) => ({
+    dueDate: new Date(takenAt.getTime() + (i + 1) * product.intervalDays * DAY_MS).toISOString(),
+    amount: i === product.installmentCount - 1 ? total - base * (product.installmentCount - 1) : base
+  }))
+}
+
+export const getRemainingBalance = (loan: Loan): number => {
+  return loan.installments.filter(installment => !installment.paidAt).reduce((sum, installment) => sum + installment.amount, 0)
+}
+
+/**
+ * 返済中の融資
+ */
+export const getActiveLoans = (finance: FinanceState): Loan[] => {
+  return finance.loans.filter(loan => getRemainingBalance(loan) > 0)
+}
+
+export const getOutstandingDebt = (finance: FinanceState): number => {
+  return finance.loans.reduce((sum, loan) => sum + getRemainingBalance(loan), 0)
+}
+
+/**
+ * 次に期日を迎える返済
+ */
+export const getNextInstallment = (finance: FinanceState): DueInstallment | undefined => {
+  return finance.loans
+    .flatMap(loan => loan.installments.map((installment, index) => ({ loan, installment, index })))
+    .filter(({ installment }) => !installment.paidAt)
+    .sort((a, b) => new Date(a.installment.dueDate).getTime() - new Date(b.installment.dueDate).getTime())[0]
+}
+
+/**
+ * 借入できるか判定（できない場合は理由を返す）
+ */
+export const validateLoanRequest = (finance: FinanceState, productId: string, principal: number): string | undefined => {
+  const product = LOAN_PRODUCTS[productId]
+  if (!product) return '存在しない融資です'
+
+  const stage = finance.bankruptcy.stage
+  const lockReason = getFinanceLockReason(stage, 'take_loan')
+  if (lockReason) return lockReason
+  if (stageIndex(stage) > stageIndex(product.availableUntil)) {
+    return `${BANKRUPTCY_STAGE_LABELS[stage]}状態のため${product.name}は利用できません`
+  }
+
+  if (!Number.isInteger(principal) || principal <= 0) return '借入額を指定してください'
+  if (principal > product.maxPrincipal) return `${product.name}の上限は${product.maxPrincipal.toLocaleString()}円です`
+  if (getOutstandingDebt(finance) + Math.round(principal * (1 + product.interestRate)) > MAX_TOTAL_DEBT) {
+    return '借入限度額を超えています'
+  }
+
+  return undefined
+}
+
+/**
+ * 融資を作成（validateLoanRequest で検証済みの内容を渡す）
+ */
+export const createLoan = (id: string, productId: string, principal: number, now: Date): Loan => {
+  const product = LOAN_PRODUCTS[productId]
+
+  return {
+    id,
+    productId,
+    principal,
+    interestRate: product.interestRate,
+    takenAt: now.toISOString(),
+    installments: calculateLoanSchedule(product, principal, now)
+  }
+}
+
+/**
+ * 期日を迎えた返済を支払済みにして返す（残高が足りなくても引き落とされる）
+ */
+export const collectDueInstallments = (finance: FinanceState, now: Date): DueInstallment[] => {
+  const due = finance.loans.flatMap(loan => loan.installments
+    .map((installment, index) => ({ loan, installment, index }))
+    .filter(({ installment }) => !installment.paidAt && new Date(installment.dueDate) <= now)
+  )
+
+  due.forEach(({ installment }) => {
+    installment.paidAt = now.toISOString()
+  })
+
+  return due
+}
+
+/**
+ * 残りの返済をまとめて支払済みにし、支払額を返す（繰り上げ返済）
+ */
+export const settleLoan = (loan: Loan, now: Date): number => {
+  const remaining = getRemainingBalance(loan)
+  loan.installments.filter(installment => !installment.paidAt).forEach(installment => {
+    installment.paidAt = now.toISOString()
+  })
+  return remaining
+}
+
+// =================== 給与 ===================
+
+export const calculateMonthlyPayroll = (trainers: Trainer[]): number => {
+  return trainers.reduce((sum, trainer) => sum + trainer.salary, 0)
+}
+
+/**
+ * 前回の給与日から経過した給与日の数
+ */
+export const countDuePayrolls = (finance: FinanceState, now: Date): number => {
+  const elapsed = now.getTime() - new Date(finance.lastPayrollAt).getTime()
+  return Math.max(0, Math.floor(elapsed / (PAYROLL_INTERVAL_DAYS * DAY_MS)))
+}
+
+export const getNextPayrollDate = (finance: FinanceState): Date => {
+  return new Date(new Date(finance.lastPayrollAt).getTime() + PAYROLL_INTERVAL_DAYS * DAY_MS)
+}
+
+/**
+ * 給与を払えなかった場合のペナルティ（全トレーナーの信頼度・士気が下がり、未払い分が積み上がる）
+ */
+export const applyMissedPayroll = (finance: FinanceState, trainers: Trainer[], amount: number): void => {
+  finance.missedPayrolls++
+  finance.unpaidWages += amount
+
+  trainers.forEach(trainer => {
+    trainer.trustLevel = clampPercent(trainer.trustLevel - MISSED_PAYROLL_PENALTY.trust)
+    trainer.morale = clampPercent(trainer.morale - MISSED_PAYROLL_PENALTY.morale)
+  })
+}
+
+/**
+ * 未払い給与を清算済みにし、支払額を返す
+ */
+export const settleUnpaidWages = (finance: FinanceState): number => {
+  const amount = finance.unpaidWages
+  finance.unpaidWages = 0
+  finance.missedPayrolls = 0
+  return amount
+}
+
+// =================== 破産 ===================
+
+export const getNegativeBalanceDays = (finance: FinanceState, now: Date): number => {
+  if (!finance.negativeBalanceSince) return 0
+  return Math.max(0, (now.getTime() - new Date(finance.negativeBalanceSince).getTime()) / DAY_MS)
+}
+
+/**
+ * 残高と給与の支払い状況から破産段階を判定
+ * 残高がプラスに戻り未払い給与を清算すれば健全な状態へ回復する
+ */
+export const determineBankruptcyStage = (finance: FinanceState, money: number, now: Date): BankruptcyStage => {
+  const negativeDays = getNegativeBalanceDays(finance, now)
+  const stages = ['bankrupt', 'distressed', 'warning'] as const
+
+  return stages.find(stage => {
+    const threshold = BANKRUPTCY_THRESHOLDS[stage]
+    return (money < 0 && negativeDays >= threshold.negativeDays) || finance.missedPayrolls >= threshold.missedPayrolls
+  }) ?? 'solvent'
+}
+
+/**
+ * 残高マイナスの開始時刻と破産段階を更新し、変更前後の段階を返す
+ */
+export const updateBankruptcyState = (
+  finance: FinanceState,
+  money: number,
+  now: Date
+): { previous: BankruptcyStage; stage: BankruptcyStage } => {
+  if (money < 0 && !finance.negativeBalanceSince) {
+    finance.negativeBalanceSince = now.toISOString()
+  } else if (money >= 0) {
+    delete finance.negativeBalanceSince
+  }
+
+  const previous = finance.bankruptcy.stage
+  const stage = determineBankruptcyStage(finance, money, now)
+  if (stage !== previous) {
+    finance.bankruptcy = { stage, since: now.toISOString() }
+  }
+
+  return { previous, stage }
+}
+
+export const isFinanceActionLocked = (stage: BankruptcyStage, action: FinanceAction): boolean => {
+  return LOCKED_ACTIONS[stage].includes(action)
+}
+
+/**
+ * 破産段階によって制限されている場合はその理由を返す
+ */
+export const getFinanceLockReason = (stage: BankruptcyStage, action: FinanceAction): string | undefined => {
+  return isFinanceActionLocked(stage, action)
+    ? `${BANKRUPTCY_STAGE_LABELS[stage]}状態のため${FINANCE_ACTION_LABELS[action]}はできません`
+    : undefined
+}
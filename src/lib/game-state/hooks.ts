@@ -1,6 +1,49 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
-import { GameData, Trainer, Pokemon, Expedition } from './types'
+import { GameData, Trainer, Pokemon, Expedition, NewExpedition, Item } from './types'
 import { getGameStateManager, GameStateManager } from './GameStateManager'
+import { getAllAchievements } from '@/lib/static-data/achievements'
+import { getNextDailyReset, getNextWeeklyReset } from './tasks'
+import { getEventCalendar, getEventRewardMultiplier, getShopPrice } from '@/lib/game-logic/event-calendar'
+import { getAllItems, getItemsByUsage } from '@/lib/static-data/items'
+import { getAllLocations } from '@/lib/static-data/locations'
+import { worldClock } from '@/lib/game-logic/world-clock'
+import { FinancialLedger } from '@/lib/game-logic/financial-ledger'
+import { getExpeditionMemberIds } from '@/lib/expedition/ExpeditionTeam'
+import {
+  LOAN_PRODUCTS,
+  LOCKED_ACTIONS,
+  getActiveLoans,
+  getRemainingBalance,
+  getOutstandingDebt,
+  getNextInstallment,
+  getNextPayrollDate,
+  getNegativeBalanceDays,
+  calculateMonthlyPayroll,
+  getFinanceLockReason,
+  type FinanceAction
+} from './finance'
+import {
+  getPokemonMarketPrice,
+  getItemMarketPrice,
+  getOfferPrice,
+  getPokemonDemandLevel,
+  getSupplyLevel,
+  countRecentSales,
+  createPokemonFromOffer
+} from './market'
+import { calculateRecoveryRate, estimateRecoveryTime } from './medical'
+import { CONTRACT_TERMS, getContractDaysLeft, isRenewalOpen, calculateSalaryDemand, calculateSeverance, calculateResignationChance } from './employment'
+import { calculateTrainingCapacity, countTrainersInCourse, validateEnrollment, getCourseProgress } from './courses'
+import { getAllTrainingCourses, getTrainingCourse } from '@/lib/static-data/training-courses'
+import type { TrainingCourseDefinition } from '@/lib/static-data/types'
+import { validateBreedingPair, validateEggCarrier, getEggProgress } from './daycare'
+import { getStaffAbilityBonus } from './skills'
+import { countItem } from './inventory'
+import { pokemonBreedingSystem, type PokemonEgg } from '@/lib/pokemon/PokemonBreedingSystem'
+import { pokemonTrainingFacility } from '@/lib/pokemon/PokemonTrainingFacility'
+import { pokemonGrowthSystem } from '@/lib/pokemon/PokemonGrowthSystem'
+import { findPartyOwner } from '@/lib/expedition/ExpeditionParty'
+import { pokemonDatabase } from '@/lib/pokemon/PokemonDatabase'
 
 /**
  * ゲーム状態管理用Reactフック
@@ -33,24 +76,74 @@ export const useGameState = (userId?: string) => {
     // トレーナー関連
     addTrainer: (trainer: Omit<Trainer, 'id'>) => gameManager.addTrainer(trainer),
     updateTrainer: (id: string, updates: Partial<Trainer>) => gameManager.updateTrainer(id, updates),
+    assignTrainerParty: (trainerId: string, pokemonIds: string[]) => gameManager.assignTrainerParty(trainerId, pokemonIds),
+    renewTrainerContract: (trainerId: string, offeredSalary: number, termDays: number) =>
+      gameManager.renewTrainerContract(trainerId, offeredSalary, termDays),
+    dismissTrainer: (trainerId: string) => gameManager.dismissTrainer(trainerId),
+    unlockTrainerAbility: (trainerId: string, abilityId: string) => gameManager.unlockTrainerAbility(trainerId, abilityId),
+    chooseTrainerSpecialization: (trainerId: string, specializationId: string) =>
+      gameManager.chooseTrainerSpecialization(trainerId, specializationId),
+    enrollTrainerInCourse: (trainerId: string, courseId: string) => gameManager.enrollTrainerInCourse(trainerId, courseId),
+    cancelTrainerCourse: (trainerId: string) => gameManager.cancelTrainerCourse(trainerId),
+    
+    // 育て屋関連
+    setPokemonHeldItem: (pokemonId: string, itemId?: string) => gameManager.setPokemonHeldItem(pokemonId, itemId),
+    startPokemonBreeding: (parent1Id: string, parent2Id: string) => gameManager.startPokemonBreeding(parent1Id, parent2Id),
+    cancelPokemonBreeding: (sessionId: string) => gameManager.cancelPokemonBreeding(sessionId),
+    collectBreedingEgg: (sessionId: string) => gameManager.collectBreedingEgg(sessionId),
+    setEggCarrier: (eggId: string, trainerId?: string) => gameManager.setEggCarrier(eggId, trainerId),
+    hatchPokemonEgg: (eggId: string) => gameManager.hatchPokemonEgg(eggId),
+    
+    // 訓練施設関連
+    schedulePokemonTraining: (pokemonId: string, facilityId: string, programId: string) =>
+      gameManager.schedulePokemonTraining(pokemonId, facilityId, programId),
+    pausePokemonTraining: (slotId: string) => gameManager.pausePokemonTraining(slotId),
+    resumePokemonTraining: (slotId: string) => gameManager.resumePokemonTraining(slotId),
+    cancelPokemonTraining: (slotId: string) => gameManager.cancelPokemonTraining(slotId),
+    upgradeTrainingFacility: (facilityId: string) => gameManager.upgradeTrainingFacility(facilityId),
     
     // ポケモン関連
     addPokemon: (pokemon: Omit<Pokemon, 'id'>) => gameManager.addPokemon(pokemon),
+    awardBattleEffort: (pokemonId: string, defeated: Parameters<GameStateManager['awardBattleEffort']>[1]) =>
+      gameManager.awardBattleEffort(pokemonId, defeated),
+    resolvePendingMoves: (pokemonId: string, moves: string[]) => gameManager.resolvePendingMoves(pokemonId, moves),
+    
+    // 療養関連
+    treatTrainer: (trainerId: string, itemId: string) => gameManager.treatTrainer(trainerId, itemId),
     
     // 派遣関連
-    startExpedition: (expedition: Omit<Expedition, 'id' | 'createdAt' | 'updatedAt'>) => 
+    startExpedition: (expedition: NewExpedition) => 
       gameManager.startExpedition(expedition),
     completeExpedition: (expeditionId: string, result: Expedition['result']) => 
       gameManager.completeExpedition(expeditionId, result),
     
+    // インベントリ関連
+    addItem: (item: Item) => gameManager.addItem(item),
+    removeItem: (itemId: string, quantity?: number) => gameManager.removeItem(itemId, quantity),
+    useItem: (itemId: string, targetPokemonId?: string) => gameManager.useItem(itemId, targetPokemonId),
+    purchaseItem: (itemId: string, quantity?: number) => gameManager.purchaseItem(itemId, quantity),
+    executeIntervention: (expeditionId: string, actionId: string) =>
+      gameManager.executeIntervention(expeditionId, actionId),
+    
     // 経済関連
     updateMoney: (change: number) => gameManager.updatePlayerMoney(change),
     addTransaction: (transaction: Parameters<GameStateManager['addTransaction']>[0]) => 
       gameManager.addTransaction(transaction),
+    takeLoan: (productId: string, principal: number) => gameManager.takeLoan(productId, principal),
+    repayLoan: (loanId: string) => gameManager.repayLoan(loanId),
+    payUnpaidWages: () => gameManager.payUnpaidWages(),
+    
+    // マーケット関連
+    listPokemon: (pokemonId: string, askingPrice: number) => gameManager.listPokemon(pokemonId, askingPrice),
+    listItem: (itemId: string, quantity: number, askingPrice: number) =>
+      gameManager.listItem(itemId, quantity, askingPrice),
+    cancelListing: (listingId: string) => gameManager.cancelListing(listingId),
+    buyMarketPokemon: (offerId: string) => gameManager.buyMarketPokemon(offerId),
     
     // データ管理
     saveGame: () => gameManager.saveToLocal(),
     exportData: () => gameManager.exportData(),
+    previewImport: (data: string) => gameManager.previewImport(data),
     importData: (data: string) => gameManager.importData(data)
   }), [gameManager])
   
@@ -81,6 +174,9 @@ export const useTrainers = (userId?: string) => {
   const trainerActions = useMemo(() => ({
     hire: actions.addTrainer,
     update: actions.updateTrainer,
+    assignParty: actions.assignTrainerParty,
+    unlockAbility: actions.unlockTrainerAbility,
+    specialize: actions.chooseTrainerSpecialization,
     getById: (id: string) => trainers.find(t => t.id === id)
   }), [actions, trainers])
   
@@ -153,7 +249,7 @@ export const useExpeditions = (userId?: string) => {
     start: actions.startExpedition,
     complete: actions.completeExpedition,
     getById: (id: string) => expeditions.find(e => e.id === id),
-    getByTrainer: (trainerId: string) => expeditions.filter(e => e.trainerId === trainerId)
+    getByTrainer: (trainerId: string) => expeditions.filter(e => getExpeditionMemberIds(e).includes(trainerId))
   }), [actions, expeditions])
   
   return {
@@ -163,6 +259,38 @@ export const useExpeditions = (userId?: string) => {
   }
 }
 
+/**
+ * インベントリ専用フック
+ */
+export const useInventory = (userId?: string) => {
+  const { gameData, actions, manager } = useGameState(userId)
+  
+  const inventory = useMemo(() => gameData?.inventory || [], [gameData?.inventory])
+  
+  const computed = useMemo(() => ({
+    ...manager.getInventoryCapacity(),
+    medicine: inventory.filter(i => i.type === 'medicine'),
+    totalItems: inventory.reduce((sum, i) => sum + i.quantity, 0),
+    totalValue: inventory.reduce((sum, i) => sum + i.value * i.quantity, 0)
+  }), [inventory, manager])
+  
+  const inventoryActions = useMemo(() => ({
+    add: actions.addItem,
+    remove: actions.removeItem,
+    use: actions.useItem,
+    purchase: actions.purchaseItem,
+    getCount: (itemId: string) => inventory
+      .filter(i => i.id === itemId)
+      .reduce((sum, i) => sum + i.quantity, 0)
+  }), [actions, inventory])
+  
+  return {
+    inventory,
+    ...computed,
+    actions: inventoryActions
+  }
+}
+
 /**
  * 経済状況専用フック
  */
@@ -172,6 +300,12 @@ export const useEconomy = (userId?: string) => {
   const player = useMemo(() => gameData?.player, [gameData?.player])
   const transactions = useMemo(() => gameData?.transactions || [], [gameData?.transactions])
   
+  // 期間集計・残高推移用の財務台帳
+  const ledger = useMemo(
+    () => new FinancialLedger(transactions, { closingBalance: player?.money || 0 }),
+    [transactions, player?.money]
+  )
+  
   const computed = useMemo(() => {
     const recentTransactions = transactions
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
@@ -203,17 +337,562 @@ export const useEconomy = (userId?: string) => {
   const economyActions = useMemo(() => ({
     updateMoney: actions.updateMoney,
     addTransaction: actions.addTransaction,
-    canAfford: (amount: number) => (player?.money || 0) >= amount
-  }), [actions, player])
+    // 破産段階で制限されている行動は残高に関係なく不可
+    canAfford: (amount: number, action?: FinanceAction) => {
+      const stage = gameData?.finance?.bankruptcy.stage ?? 'solvent'
+      if (action && getFinanceLockReason(stage, action)) return false
+      return (player?.money || 0) >= amount
+    }
+  }), [actions, player, gameData?.finance])
   
   return {
     player,
     transactions,
+    ledger,
     ...computed,
     actions: economyActions
   }
 }
 
+/**
+ * アチーブメント専用フック
+ */
+export const useAchievements = (userId?: string) => {
+  const { gameData } = useGameState(userId)
+  
+  const computed = useMemo(() => {
+    // 進捗はその場で更新されるため gameData の更新単位で再計算する
+    const achievements = gameData?.achievements
+    const unlocked = achievements?.unlocked || []
+    const progress = achievements?.progress || []
+    
+    // 定義と進捗を結合（未解除の隠しアチーブメントは一覧に出さない）
+    const entries = getAllAchievements()
+      .map(definition => {
+        const unlockedData = unlocked.find(a => a.id === definition.id)
+        const progressData = progress.find(p => p.achievementId === definition.id)
+        
+        return {
+          definition,
+          unlocked: !!unlockedData,
+          unlockedAt: unlockedData?.unlockedAt,
+          progress: unlockedData ? definition.target : Math.min(progressData?.progress || 0, definition.target)
+        }
+      })
+      .filter(entry => entry.unlocked || !entry.definition.hidden)
+    
+    return {
+      entries,
+      unlockedCount: unlocked.length,
+      totalCount: getAllAchievements().length,
+      totalPoints: achievements?.totalPoints || 0,
+      recentUnlocked: [...unlocked]
+        .sort((a, b) => new Date(b.unlockedAt).getTime() - new Date(a.unlockedAt).getTime())
+        .slice(0, 5)
+    }
+  }, [gameData])
+  
+  return computed
+}
+
+/**
+ * デイリー・ウィークリータスク専用フック
+ */
+export const useTasks = (userId?: string) => {
+  const { gameData, manager } = useGameState(userId)
+  const [now, setNow] = useState(() => new Date())
+  
+  useEffect(() => {
+    manager.refreshTasks()
+    
+    // リセット時刻の経過を検知するため1分毎に確認
+    const interval = setInterval(() => {
+      setNow(new Date())
+      manager.refreshTasks()
+    }, 60000)
+    
+    return () => clearInterval(interval)
+  }, [manager])
+  
+  return useMemo(() => {
+    const tasks = gameData?.tasks
+    
+    return {
+      daily: tasks?.daily,
+      weekly: tasks?.weekly,
+      dailyCompleted: tasks?.daily.tasks.filter(t => t.completed).length || 0,
+      weeklyCompleted: tasks?.weekly.completedTasks || 0,
+      nextDailyReset: getNextDailyReset(now),
+      nextWeeklyReset: getNextWeeklyReset(now),
+      now
+    }
+  }, [gameData, now])
+}
+
+/**
+ * イベントカレンダーフック
+ */
+export const useEventCalendar = (userId?: string) => {
+  const { gameData, actions } = useGameState(userId)
+  const [now, setNow] = useState(() => new Date())
+  
+  useEffect(() => {
+    // イベントの開始・終了を反映するため1分毎に更新
+    const interval = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+  
+  const calendar = useMemo(() => {
+    const events = getEventCalendar(now)
+    
+    return {
+      active: events.filter(e => e.status === 'active'),
+      upcoming: events.filter(e => e.status === 'upcoming'),
+      ended: events.filter(e => e.status === 'ended'),
+      rewardMultiplier: getEventRewardMultiplier(now),
+      shopItems: getAllItems().map(item => ({
+        item,
+        price: getShopPrice(item.id, now) ?? item.value
+      }))
+    }
+  }, [now])
+  
+  return {
+    ...calendar,
+    money: gameData?.player.money || 0,
+    purchase: actions.purchaseItem,
+    now
+  }
+}
+
+/**
+ * ゲーム内時計フック
+ */
+export const useWorldClock = (userId?: string) => {
+  const { gameData, manager } = useGameState(userId)
+  const [realNow, setRealNow] = useState(() => Date.now())
+  
+  useEffect(() => {
+    const interval = setInterval(() => setRealNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+  
+  // 速度変更はグローバル時計に即時反映されるため、毎回時計から算出する
+  return {
+    ...worldClock.getSnapshot(realNow),
+    locations: getAllLocations().map(location => ({
+      location,
+      conditions: worldClock.getLocationConditions(location.id, realNow)
+    })),
+    speed: gameData?.worldClock?.speed ?? worldClock.getSpeed(),
+    setSpeed: (speed: number) => manager.setWorldClockSpeed(speed)
+  }
+}
+
+/**
+ * 融資・給与・破産状態フック
+ */
+export const useFinance = (userId?: string) => {
+  const { gameData, actions } = useGameState(userId)
+  const [now, setNow] = useState(() => new Date())
+  
+  useEffect(() => {
+    // 残高マイナスの継続日数・次回期日を反映するため1分毎に更新
+    const interval = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+  
+  const finance = gameData?.finance
+  const trainers = gameData?.trainers
+  
+  const computed = useMemo(() => {
+    if (!finance) return null
+    
+    const stage = finance.bankruptcy.stage
+    return {
+      stage,
+      stageSince: new Date(finance.bankruptcy.since),
+      lockedActions: LOCKED_ACTIONS[stage],
+      negativeBalanceDays: getNegativeBalanceDays(finance, now),
+      loans: getActiveLoans(finance).map(loan => ({
+        loan,
+        product: LOAN_PRODUCTS[loan.productId],
+        remaining: getRemainingBalance(loan),
+        paidCount: loan.installments.filter(installment => installment.paidAt).length
+      })),
+      outstandingDebt: getOutstandingDebt(finance),
+      nextInstallment: getNextInstallment(finance),
+      nextPayrollDate: getNextPayrollDate(finance),
+      monthlyPayroll: calculateMonthlyPayroll(trainers || []),
+      missedPayrolls: finance.missedPayrolls,
+      unpaidWages: finance.unpaidWages
+    }
+  }, [finance, trainers, now])
+  
+  return {
+    finance: computed,
+    products: Object.values(LOAN_PRODUCTS),
+    money: gameData?.player.money || 0,
+    takeLoan: actions.takeLoan,
+    repayLoan: actions.repayLoan,
+    payUnpaidWages: actions.payUnpaidWages
+  }
+}
+
+/**
+ * マーケットフック
+ */
+export const useMarket = (userId?: string) => {
+  const { gameData, actions } = useGameState(userId)
+  const [now, setNow] = useState(() => new Date())
+  
+  useEffect(() => {
+    // 買い手の到着と相場の変動を反映するため1分毎に更新
+    const interval = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+  
+  const market = gameData?.market
+  const pokemon = gameData?.pokemon
+  const inventory = gameData?.inventory
+  
+  const computed = useMemo(() => {
+    if (!market) return null
+    
+    return {
+      offers: market.stock.offers.flatMap(offer => {
+        const preview = createPokemonFromOffer(offer, now)
+        return preview ? [{ offer, pokemon: preview, price: getOfferPrice(market, offer, now) }] : []
+      }),
+      sellablePokemon: (pokemon || [])
+        .filter(p => p.status !== 'training')
+        .map(p => ({
+          pokemon: p,
+          marketPrice: getPokemonMarketPrice(market, p, now),
+          demand: getPokemonDemandLevel(p.speciesId, now),
+          supply: getSupplyLevel(countRecentSales(market, 'pokemon', String(p.speciesId), now))
+        })),
+      sellableItems: (inventory || []).flatMap(item => {
+        const unitPrice = getItemMarketPrice(market, item.id, now)
+        return unitPrice === undefined ? [] : [{
+          item,
+          unitPrice,
+          supply: getSupplyLevel(countRecentSales(market, 'item', item.id, now))
+        }]
+      }),
+      listings: [...market.listings].sort((a, b) => new Date(b.listedAt).getTime() - new Date(a.listedAt).getTime()),
+      recentSales: [...market.sales].reverse().slice(0, 20)
+    }
+  }, [market, pokemon, inventory, now])
+  
+  return {
+    market: computed,
+    money: gameData?.player.money || 0,
+    listPokemon: actions.listPokemon,
+    listItem: actions.listItem,
+    cancelListing: actions.cancelListing,
+    buyMarketPokemon: actions.buyMarketPokemon
+  }
+}
+
+/**
+ * 療養専用フック
+ */
+export const useMedical = (userId?: string) => {
+  const { gameData, actions } = useGameState(userId)
+  const [now, setNow] = useState(() => new Date())
+  
+  useEffect(() => {
+    // 残り時間の表示を進めるため1分毎に更新
+    const interval = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+  
+  const trainers = gameData?.trainers
+  const pokemon = gameData?.pokemon
+  const facilities = gameData?.facilities
+  const inventory = gameData?.inventory
+  
+  const computed = useMemo(() => {
+    if (!trainers || !pokemon || !facilities) return null
+    
+    const recoveryRate = calculateRecoveryRate(facilities, trainers)
+    const remainingMs = (recoversAt: Date) => Math.max(0, recoversAt.getTime() - now.getTime())
+    
+    return {
+      recoveryRate,
+      trainerPatients: trainers.flatMap(trainer => {
+        if (!trainer.medical) return []
+        const recoversAt = estimateRecoveryTime(trainer.medical, recoveryRate)
+        return [{ trainer, condition: trainer.medical, recoversAt, remainingMs: remainingMs(recoversAt) }]
+      }),
+      pokemonPatients: pokemon.flatMap(p => {
+        if (!p.medical) return []
+        const recoversAt = estimateRecoveryTime(p.medical, recoveryRate)
+        return [{ pokemon: p, condition: p.medical, recoversAt, remainingMs: remainingMs(recoversAt) }]
+      }),
+      treatments: (inventory || []).filter(item => (item.effects?.recoveryHours || 0) > 0)
+    }
+  }, [trainers, pokemon, facilities, inventory, now])
+  
+  return {
+    ward: computed,
+    treatTrainer: actions.treatTrainer,
+    treatPokemon: (pokemonId: string, itemId: string) => actions.useItem(itemId, pokemonId)
+  }
+}
+
+/**
+ * 雇用契約専用フック
+ */
+export const useEmployment = (userId?: string) => {
+  const { gameData, actions } = useGameState(userId)
+  const [now, setNow] = useState(() => new Date())
+  
+  useEffect(() => {
+    // 契約の残り日数を進めるため1分毎に更新
+    const interval = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+  
+  const trainers = gameData?.trainers
+  const formerTrainers = gameData?.formerTrainers
+  
+  const computed = useMemo(() => {
+    if (!trainers) return null
+    
+    return {
+      contracts: trainers.map(trainer => ({
+        trainer,
+        contract: trainer.contract,
+        daysLeft: trainer.contract ? Math.max(0, getContractDaysLeft(trainer.contract, now)) : 0,
+        renewalOpen: !trainer.contract || isRenewalOpen(trainer.contract, now),
+        salaryDemand: Object.fromEntries(CONTRACT_TERMS.map(days => [days, calculateSalaryDemand(trainer, days)])) as Record<number, number>,
+        severance: calculateSeverance(trainer, now),
+        resignationChance: calculateResignationChance(trainer)
+      })),
+      formerTrainers: [...(formerTrainers || [])].sort((a, b) => new Date(b.leftAt).getTime() - new Date(a.leftAt).getTime())
+    }
+  }, [trainers, formerTrainers, now])
+  
+  return {
+    employment: computed,
+    money: gameData?.player.money || 0,
+    renewContract: actions.renewTrainerContract,
+    dismissTrainer: actions.dismissTrainer
+  }
+}
+
+/**
+ * トレーナー研修専用フック
+ */
+export const useTrainerCourses = (userId?: string) => {
+  const { gameData, actions } = useGameState(userId)
+  const [now, setNow] = useState(() => new Date())
+  
+  useEffect(() => {
+    // 受講の残り時間を進めるため1分毎に更新
+    const interval = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+  
+  const trainers = gameData?.trainers
+  const facilities = gameData?.facilities
+  const bankruptcyStage = gameData?.finance?.bankruptcy.stage ?? 'solvent'
+  const money = gameData?.player.money || 0
+  
+  const computed = useMemo(() => {
+    if (!trainers || !facilities) return null
+    
+    return {
+      courses: getAllTrainingCourses(),
+      capacity: calculateTrainingCapacity(facilities),
+      inUse: countTrainersInCourse(trainers),
+      enrollments: trainers.flatMap(trainer => {
+        if (!trainer.course) return []
+        return [{
+          trainer,
+          enrollment: trainer.course,
+          course: getTrainingCourse(trainer.course.courseId),
+          progress: getCourseProgress(trainer.course, now),
+          remainingMs: Math.max(0, new Date(trainer.course.completesAt).getTime() - now.getTime())
+        }]
+      }),
+      lockReason: getFinanceLockReason(bankruptcyStage, 'training'),
+      getEnrollmentError: (trainer: Trainer, course: TrainingCourseDefinition) =>
+        validateEnrollment(trainer, course, trainers, facilities, money)
+    }
+  }, [trainers, facilities, bankruptcyStage, money, now])
+  
+  return {
+    training: computed,
+    money,
+    enroll: actions.enrollTrainerInCourse,
+    cancel: actions.cancelTrainerCourse
+  }
+}
+
+/**
+ * 育て屋フック
+ */
+export const useDaycare = (userId?: string) => {
+  const { gameData, actions } = useGameState(userId)
+  const [now, setNow] = useState(() => new Date())
+  
+  useEffect(() => {
+    // 交配の残り時間を進めるため1分毎に更新
+    const interval = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+  
+  const pokemon = gameData?.pokemon
+  const trainers = gameData?.trainers
+  const breeding = gameData?.breeding
+  const inventory = gameData?.inventory
+  
+  const computed = useMemo(() => {
+    if (!pokemon || !trainers || !breeding || !inventory) return null
+    
+    const findPokemon = (id: string) => pokemon.find(p => p.id === id)
+    const speciesName = (speciesId: number) => pokemonDatabase.getSpecies(speciesId)?.nameJa ?? `No.${speciesId}`
+    const breedingQuality = getStaffAbilityBonus(trainers, 'breedingQuality')
+    
+    // 預けられる組み合わせを相性の良い順に
+    const candidates = pokemon.flatMap((parent1, index) => pokemon.slice(index + 1).flatMap(parent2 => {
+      if (validateBreedingPair(parent1, parent2, breeding.sessions, trainers)) return []
+      const pair = pokemonBreedingSystem.checkBreedingCompatibility(parent1, parent2)
+      if (pair.compatibility < 25) return []
+      return [{
+        parent1,
+        parent2,
+        compatibility: pair.compatibility,
+        estimatedMinutes: pair.estimatedTime,
+        offspring: pair.possibleOffspring.map(speciesId => ({ speciesId, nameJa: speciesName(speciesId) }))
+      }]
+    })).sort((a, b) => b.compatibility - a.compatibility)
+    
+    return {
+      candidates,
+      breedingQuality,
+      sessions: breeding.sessions.map(session => {
+        const total = session.endTime - session.startTime
+        return {
+          session,
+          parent1: findPokemon(session.parent1Id),
+          parent2: findPokemon(session.parent2Id),
+          ready: session.status === 'ready' || now.getTime() >= session.endTime,
+          progress: total > 0 ? Math.max(0, Math.min(1, (now.getTime() - session.startTime) / total)) : 1,
+          remainingMs: Math.max(0, session.endTime - now.getTime())
+        }
+      }),
+      eggs: breeding.eggs.map(egg => ({
+        egg,
+        speciesName: speciesName(egg.speciesId),
+        carrier: trainers.find(t => t.id === egg.carrierId),
+        progress: getEggProgress(egg),
+        remainingSteps: Math.max(0, egg.stepsRequired - egg.currentSteps),
+        ready: egg.currentSteps >= egg.stepsRequired
+      })),
+      carriers: trainers.filter(t => t.status === 'available'),
+      breedingItems: getItemsByUsage('breeding').map(definition => ({
+        definition,
+        quantity: countItem(inventory, definition.id)
+      })),
+      speciesName,
+      getDistribution: (parent1: Pokemon, parent2: Pokemon) =>
+        pokemonBreedingSystem.calculateOffspring(parent1, parent2, breedingQuality),
+      getCarrierError: (egg: PokemonEgg, trainer: Trainer) => validateEggCarrier(egg, trainer, breeding.eggs)
+    }
+  }, [pokemon, trainers, breeding, inventory, now])
+  
+  return {
+    daycare: computed,
+    setHeldItem: actions.setPokemonHeldItem,
+    startBreeding: actions.startPokemonBreeding,
+    cancelBreeding: actions.cancelPokemonBreeding,
+    collectEgg: actions.collectBreedingEgg,
+    setEggCarrier: actions.setEggCarrier,
+    hatchEgg: actions.hatchPokemonEgg
+  }
+}
+
+/**
+ * ポケモン訓練施設フック
+ */
+export const usePokemonTraining = (userId?: string) => {
+  const { gameData, actions } = useGameState(userId)
+  const [now, setNow] = useState(() => new Date())
+  
+  useEffect(() => {
+    // 訓練の残り時間を進めるため1分毎に更新
+    const interval = setInterval(() => setNow(new Date()), 60000)
+    return () => clearInterval(interval)
+  }, [])
+  
+  const pokemon = gameData?.pokemon
+  const trainers = gameData?.trainers
+  const breeding = gameData?.breeding
+  const pokemonTraining = gameData?.pokemonTraining
+  const inventory = gameData?.inventory
+  const player = gameData?.player
+  const bankruptcyStage = gameData?.finance?.bankruptcy.stage ?? 'solvent'
+  
+  const computed = useMemo(() => {
+    if (!gameData || !pokemon || !trainers || !breeding || !pokemonTraining || !inventory || !player) return null
+    
+    const slots = pokemonTraining.slots.map(slot => {
+      const total = slot.endTime - slot.startTime
+      return {
+        slot,
+        pokemon: pokemon.find(p => p.id === slot.pokemonId),
+        program: pokemonGrowthSystem.getTrainingProgram(slot.programId),
+        progress: slot.status === 'active' && total > 0
+          ? Math.max(0, Math.min(1, (now.getTime() - slot.startTime) / total))
+          : slot.progress / 100,
+        remainingMs: slot.status === 'active'
+          ? Math.max(0, slot.endTime - now.getTime())
+          : slot.remainingMs ?? slot.duration ?? total
+      }
+    })
+    
+    const facilities = pokemonTrainingFacility.getAvailableFacilities({ gameState: gameData, user: null }).map(facility => ({
+      facility,
+      programs: pokemonTrainingFacility.getFacilityPrograms(facility.id),
+      active: slots.filter(entry => entry.slot.facilityId === facility.id && entry.slot.status === 'active'),
+      // 順番待ちは並んだ順
+      queue: slots
+        .filter(entry => entry.slot.facilityId === facility.id && entry.slot.status === 'queued')
+        .sort((a, b) => (a.slot.queuedAt ?? 0) - (b.slot.queuedAt ?? 0)),
+      queueLimit: pokemonTrainingFacility.getQueueLimit(facility),
+      upgradePreview: pokemonTrainingFacility.previewUpgrade(facility.id)
+    }))
+    
+    return {
+      facilities,
+      slots,
+      paused: slots.filter(entry => entry.slot.status === 'paused'),
+      trainable: pokemon.filter(p =>
+        p.status === 'healthy' &&
+        !breeding.sessions.some(session => session.parent1Id === p.id || session.parent2Id === p.id) &&
+        !findPartyOwner(trainers, p.id)
+      ),
+      playerLevel: player.level,
+      lockReason: getFinanceLockReason(bankruptcyStage, 'training'),
+      upgradeLockReason: getFinanceLockReason(bankruptcyStage, 'facility_upgrade')
+    }
+  }, [gameData, pokemon, trainers, breeding, pokemonTraining, inventory, player, bankruptcyStage, now])
+  
+  return {
+    training: computed,
+    money: player?.money || 0,
+    schedule: actions.schedulePokemonTraining,
+    pause: actions.pausePokemonTraining,
+    resume: actions.resumePokemonTraining,
+    cancel: actions.cancelPokemonTraining,
+    upgrade: actions.upgradeTrainingFacility
+  }
+}
+
 /**
  * ゲーム統計フック
  */
@@ -250,6 +929,7 @@ export const useGameDebug = (userId?: string) => {
   
   const debugActions = useMemo(() => ({
     exportData: actions.exportData,
+    previewImport: actions.previewImport,
     importData: actions.importData,
     getStatistics: () => manager.getStatistics(),
     addTestTrainer: () => actions.addTrainer({
@@ -280,6 +960,7 @@ export const useGameDebug = (userId?: string) => {
       successfulExpeditions: 0,
       pokemonCaught: 0,
       trustLevel: 50,
+      morale: 70,
       favoriteLocations: [],
       lastActive: new Date().toISOString(),
       hiredDate: new Date().toISOString()
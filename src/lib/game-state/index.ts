@@ -1,11 +1,167 @@
 // JSONベースのゲーム状態管理システム
 // エクスポート集約
 
+import { CURRENT_GAME_VERSION } from '@/lib/game-data/GameDataSchema'
+
 // 型定義
 export * from './types'
 
 // メインクラス
 export { GameStateManager, getGameStateManager } from './GameStateManager'
+export type { ItemUseResult, FinanceActionResult } from './GameStateManager'
+
+// インベントリ操作
+export {
+  INVENTORY_BASE_CAPACITY,
+  calculateInventoryCapacity,
+  addItemToInventory,
+  removeItemFromInventory,
+  countItem
+} from './inventory'
+
+// アチーブメント判定
+export {
+  createInitialAchievementState,
+  extractMetricUpdates,
+  applyMetricUpdate,
+  isAchievementUnlocked
+} from './achievements'
+
+// デイリー・ウィークリータスク
+export {
+  TASK_RESET_HOUR,
+  getDailyKey,
+  getWeeklyKey,
+  refreshTaskBoard,
+  extractTaskEvents,
+  applyTaskEvent
+} from './tasks'
+
+// 融資・給与・破産
+export {
+  LOAN_PRODUCTS,
+  BANKRUPTCY_STAGE_LABELS,
+  FINANCE_ACTION_LABELS,
+  calculateLoanSchedule,
+  getOutstandingDebt,
+  determineBankruptcyStage,
+  isFinanceActionLocked,
+  getFinanceLockReason
+} from './finance'
+export type { FinanceAction, LoanProduct } from './finance'
+
+// マーケット
+export {
+  MAX_ASKING_RATIO,
+  LISTING_DURATION_DAYS,
+  getSupplyLevel,
+  getPokemonDemandLevel,
+  getPokemonMarketPrice,
+  getItemMarketPrice,
+  getOfferPrice,
+  getBuyerChance,
+  calculateBuyerArrival
+} from './market'
+export type { MarketLevel } from './market'
+
+// 療養
+export {
+  MEDICAL_KIND_LABELS,
+  MEDICAL_SEVERITY_LABELS,
+  RECOVERY_HOURS,
+  calculateRecoveryRate,
+  createMedicalCondition,
+  advanceRecovery,
+  applyTreatment,
+  estimateRecoveryTime,
+  rollExpeditionInjuries
+} from './medical'
+
+// 疲労・士気・燃え尽き
+export {
+  MAX_FATIGUE,
+  EXHAUSTION_THRESHOLD,
+  calculateDormitoryCapacity,
+  calculateRestRate,
+  calculateSalaryFairness,
+  calculateMoraleTarget,
+  calculateBurnout,
+  calculateBurnoutModifier,
+  calculateQuitChance
+} from './wellbeing'
+
+// 雇用契約・退職・解雇
+export {
+  CONTRACT_TERMS,
+  DEFAULT_CONTRACT_DAYS,
+  RENEWAL_WINDOW_DAYS,
+  DEPARTURE_REASON_LABELS,
+  createContract,
+  getContractDaysLeft,
+  isRenewalOpen,
+  calculateSalaryDemand,
+  evaluateRenewalOffer,
+  calculateResignationChance,
+  calculateSeverance
+} from './employment'
+export type { RenewalEvaluation } from './employment'
+
+// スキルツリー・専門分野
+export {
+  SKILL_POINTS_PER_LEVEL,
+  SPECIALIZATION_LEVEL,
+  ABILITY_EFFECT_LABELS,
+  getAvailableSkillPoints,
+  validateAbilityUnlock,
+  validateSpecialization,
+  getActiveAbilityIds,
+  getAbilityEffects,
+  getTrainerAbilityEffects,
+  getStaffAbilityBonus
+} from './skills'
+
+// トレーナー研修
+export {
+  BASE_CLASSROOM_SLOTS,
+  SKILL_LABELS,
+  PERSONALITY_LABELS,
+  calculateTrainingCapacity,
+  countTrainersInCourse,
+  validateEnrollment,
+  isCourseComplete,
+  getCourseProgress,
+  applyCourseGains,
+  describeCourseGains
+} from './courses'
+export type { CourseGain, CourseCompletionReport } from './courses'
+
+// 育て屋
+export {
+  MIN_BREEDING_LEVEL,
+  MAX_CARRIED_EGGS,
+  KM_PER_EXPEDITION_HOUR,
+  STEPS_PER_KM,
+  validateBreedingPair,
+  validateEggCarrier,
+  calculateExpeditionDistance,
+  calculateEggSteps,
+  getEggProgress
+} from './daycare'
+
+// 覚えきれなかった技
+export { queuePendingMoves, validateMoveChoice } from './moves'
+export type { PendingMoveReport } from './moves'
+
+// セーブデータのマイグレーション
+export {
+  GAME_DATA_MIGRATIONS,
+  isMigrationRequired,
+  validateGameDataStructure,
+  migrateGameData,
+  planGameDataMigration,
+  migrateUnifiedSaveData
+} from './migrations'
+export type { MigrationReport, MigrationOutcome } from './migrations'
 
 // Reactフック
 export {
@@ -13,7 +169,19 @@ export {
   useTrainers,
   usePokemon,
   useExpeditions,
+  useInventory,
   useEconomy,
+  useAchievements,
+  useTasks,
+  useEventCalendar,
+  useWorldClock,
+  useFinance,
+  useMarket,
+  useMedical,
+  useEmployment,
+  useTrainerCourses,
+  useDaycare,
+  usePokemonTraining,
   useGameStatistics,
   useGameDebug
 } from './hooks'
@@ -106,5 +274,5 @@ function ExpeditionManager() {
 export const CONFIG = {
   STORAGE_KEY: 'tokiwa-game-state',
   AUTO_SAVE_INTERVAL: 30000, // 30秒
-  VERSION: '1.0.0'
+  VERSION: CURRENT_GAME_VERSION
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+import type { Facility, Item } from './types'
+import { getItemDefinition } from '@/lib/static-data/items'
+
+/**
+ * インベントリ操作ユーティリティ
+ * GameData.inventory を直接操作する純粋な計算処理（永続化・通知は呼び出し側で行う）
+ */
+
+export const INVENTORY_BASE_CAPACITY = 20 // スロット数
+export const DEFAULT_MAX_STACK = 99
+const STORAGE_CAPACITY_PER_LEVEL = 10
+
+export interface InventoryAddResult {
+  added: number
+  overflow: number
+}
+
+/**
+ * 倉庫施設を考慮したインベントリ容量（スロット数）を計算
+ */
+export const calculateInventoryCapacity = (facilities: Facility[]): number => {
+  const storageBonus = facilities
+    .filter(facility => facility.type === 'storage')
+    .reduce((sum, facility) => {
+      const capacity = facility.effects.storageCapacity ?? facility.level * STORAGE_CAPACITY_PER_LEVEL
+      return sum + Math.floor(capacity * facility.condition)
+    }, 0)
+
+  return INVENTORY_BASE_CAPACITY + storageBonus
+}
+
+/**
+ * アイテムの最大スタック数を取得
+ */
+export const getMaxStack = (itemId: string): number => {
+  return getItemDefinition(itemId)?.maxStack ?? DEFAULT_MAX_STACK
+}
+
+/**
+ * 所持数を取得
+ */
+export const countItem = (inventory: Item[], itemId: string): number => {
+  return inventory
+    .filter(item => item.id === itemId)
+    .reduce((sum, item) => sum + item.quantity, 0)
+}
+
+/**
+ * あと何個入るか（既存スタックの空きと空きスロットの合計）
+ */
+export const getAvailableSpace = (inventory: Item[], itemId: string, capacity: number): number => {
+  const maxStack = getMaxStack(itemId)
+  const stackSpace = inventory
+    .filter(stack => stack.id === itemId)
+    .reduce((sum, stack) => sum + Math.max(0, maxStack - stack.quantity), 0)
+  return stackSpace + Math.max(0, capacity - inventory.length) * maxStack
+}
+
+/**
+ * アイテムを追加（既存スタックを埋めてから新しいスロットを使う）
+ * 容量を超えた分は追加されず overflow として返す
+ */
+export const addItemToInventory = (
+  inventory: Item[],
+  item: Item,
+  capacity: number
+): InventoryAddResult => {
+  const maxStack = getMaxStack(item.id)
+  let remaining = item.quantity
+
+  for (const stack of inventory) {
+    if (remaining <= 0) break
+    if (stack.id !== item.id || stack.quantity >= maxStack) continue
+
+    const space = maxStack - stack.quantity
+    const amount = Math.min(space, remaining)
+    stack.quantity += amount
+    remaining -= amount
+  }
+
+  while (remaining > 0 && inventory.length < capacity) {
+    const amount = Math.min(maxStack, remaining)
+    inventory.push({ ...item, effects: item.effects && { ...item.effects }, quantity: amount })
+    remaining -= amount
+  }
+
+  return {
+    added: item.quantity - remaining,
+    overflow: remaining
+  }
+}
+
+/**
+ * アイテムを消費（不足している場合は何もせず false）
+ * 端数のスタックから消費し、空になったスロットは削除する
+ */
+export const removeItemFromInventory = (inventory: Item[], itemId: string, quantity: number = 1): boolean => {
+  if (countItem(inventory, itemId) < quantity) return false
+
+  let remaining = quantity
+  const stacks = inventory
+    .filter(item => item.id === itemId)
+    .sort((a, b) => a.quantity - b.quantity)
+
+  for (const stack of stacks) {
+    if (remaining <= 0) break
+
+    const amount = Math.min(stack.quantity, remaining)
+    stack.quantity -= amount
+    remaining -= amount
+
+    if (stack.quantity === 0) {
+      inventory.splice(inventory.indexOf(stack), 1)
+    }
+  }
+
+  return true
+}
@@ -0,0 +1,314 @@
+import type { Item, MarketListing, MarketOffer, MarketState, Pokemon } from './types'
+import type { EventRarity, GameEventDefinition } from '@/lib/static-data/types'
+import { getDailyKey } from './tasks'
+import { getActiveEvents, getEventEncounterBonuses, getShopPrice } from '@/lib/game-logic/event-calendar'
+import { getAllEvents } from '@/lib/static-data/events'
+import { getAllPokemonSpecies, getPokemonSpecies, getPokemonMarketValue, calculatePokemonStats } from '@/lib/static-data/pokemon'
+import { getMovesKnownAtLevel } from '@/lib/static-data/learnsets'
+import { calculateNextLevelExp } from '@/lib/schemas/pokemon'
+import { pokemonDatabase } from '@/lib/pokemon/PokemonDatabase'
+import { economySystem as progressionEconomy } from '@/lib/game-progression/EconomySystem'
+import { GameRandom, hashSeed } from '@/lib/game-logic/random-system'
+
+/**
+ * マーケット
+ * ポケモン・アイテムの相場（直近の売却数による需給と開催中イベントで変動）、NPCの買い手の到着、
+ * 日替わりのNPC販売枠を扱う純粋な計算処理（入出金の記録・永続化・通知は呼び出し側で行う）
+ */
+
+export type MarketLevel = 'low' | 'medium' | 'high'
+
+export const SUPPLY_WINDOW_DAYS = 7 // 需給に数える売却履歴の期間
+export const HIGH_SUPPLY_SALES = 3 // この件数以上売ると供給過多
+const SATURATION_PER_SALE = 0.05 // 供給過多になってからの1件ごとの値下がり
+const MIN_SATURATION = 0.5
+export const ITEM_RESALE_RATE = 0.5 // アイテムはショップ価格の半額が相場
+export const PURCHASE_MARKUP = 1.3 // NPCから買う場合の上乗せ
+export const MAX_ASKING_RATIO = 1.5 // 相場のこの倍率を超える出品には買い手が現れない（相場を超えた分だけ現れにくくなる）
+const BASE_SALE_HOURS = 2 // 相場どおりの出品に買い手が現れるまでの時間
+export const LISTING_DURATION_DAYS = 3
+export const MARKET_STOCK_SIZE = 4
+const SALES_HISTORY_LIMIT = 200
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+
+const STOCK_NATURES = ['がんばりや', 'いじっぱり', 'ひかえめ', 'おくびょう', 'ようき', 'おだやか', 'ずぶとい', 'のんき']
+
+export const createEmptyMarketState = (): MarketState => ({
+  listings: [],
+  sales: [],
+  stock: { date: '', offers: [] }
+})
+
+// =================== 相場 ===================
+
+/**
+ * 直近の売却数（需給の判定に使う）
+ */
+export const countRecentSales = (
+  market: MarketState,
+  kind: MarketListing['kind'],
+  subjectId: string,
+  now: Date
+): number => {
+  const since = now.getTime() - SUPPLY_WINDOW_DAYS * DAY_MS
+  return market.sales
+    .filter(sale => sale.kind === kind && sale.subjectId === subjectId && new Date(sale.soldAt).getTime() >= since)
+    .reduce((sum, sale) => sum + sale.quantity, 0)
+}
+
+/**
+ * 売却数から供給量を判定（売っていない種族は品薄で高値）
+ */
+export const getSupplyLevel = (recentSales: number): MarketLevel => {
+  if (recentSales === 0) return 'low'
+  return recentSales < HIGH_SUPPLY_SALES ? 'medium' : 'high'
+}
+
+const getSaturation = (recentSales: number): number => {
+  return Math.max(MIN_SATURATION, 1 - Math.max(0, recentSales - HIGH_SUPPLY_SALES) * SATURATION_PER_SALE)
+}
+
+const getSpeciesRarity = (speciesId: number): EventRarity | undefined => {
+  return pokemonDatabase.getSpecies(speciesId)?.rarity ?? getPokemonSpecies(speciesId)?.rarity
+}
+
+/**
+ * 開催中イベントから需要を判定
+ * イベントの対象ポケモンは需要が高く、出現率が上がっているレアリティは捕まえやすいため需要が下がる
+ */
+export const getPokemonDemandLevel = (
+  speciesId: number,
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): MarketLevel => {
+  const featured = getActiveEvents(now, definitions)
+    .some(({ definition }) => definition.effects.specialPokemon?.includes(speciesId))
+  if (featured) return 'high'
+
+  const rarity = getSpeciesRarity(speciesId)
+  return rarity && getEventEncounterBonuses(now, definitions)[rarity] > 1 ? 'low' : 'medium'
+}
+
+/**
+ * 個体の基準価格（種族・レベル・個体値）
+ */
+export const getPokemonBaseValue = (speciesId: number, level: number, ivs: Pokemon['ivs']): number => {
+  const species = pokemonDatabase.getSpecies(speciesId)
+  if (species) return pokemonDatabase.calculatePokemonValue(species, level, ivs)
+
+  const definition = getPokemonSpecies(speciesId)
+  return definition ? getPokemonMarketValue(definition, level) : level * 100
+}
+
+/**
+ * ポケモンの相場（NPCへの売却価格）
+ */
+export const getPokemonMarketPrice = (
+  market: MarketState,
+  subject: Pick<Pokemon, 'speciesId' | 'level' | 'ivs'>,
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): number => {
+  const recentSales = countRecentSales(market, 'pokemon', String(subject.speciesId), now)
+  const price = progressionEconomy.calculateDynamicPrice(
+    getPokemonBaseValue(subject.speciesId, subject.level, subject.ivs),
+    getPokemonDemandLevel(subject.speciesId, now, definitions),
+    getSupplyLevel(recentSales)
+  )
+  return Math.max(1, Math.floor(price * getSaturation(recentSales)))
+}
+
+/**
+ * アイテム1個の相場（イベントのショップ価格補正を反映、未登録アイテムは undefined）
+ */
+export const getItemMarketPrice = (
+  market: MarketState,
+  itemId: string,
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): number | undefined => {
+  const shopPrice = getShopPrice(itemId, now, definitions)
+  if (shopPrice === undefined) return undefined
+
+  const recentSales = countRecentSales(market, 'item', itemId, now)
+  const price = progressionEconomy.calculateDynamicPrice(shopPrice * ITEM_RESALE_RATE, 'medium', getSupplyLevel(recentSales))
+  return Math.max(1, Math.floor(price * getSaturation(recentSales)))
+}
+
+/**
+ * NPC販売枠の購入価格
+ */
+export const getOfferPrice = (
+  market: MarketState,
+  offer: MarketOffer,
+  now: Date = new Date(),
+  definitions: GameEventDefinition[] = getAllEvents()
+): number => {
+  return Math.floor(getPokemonMarketPrice(market, offer, now, definitions) * PURCHASE_MARKUP)
+}
+
+// =================== 出品 ===================
+
+/**
+ * 買い手が現れる確率
+ * 相場以下なら必ず現れ、相場を超えると MAX_ASKING_RATIO で0になるまで下がる
+ * （NPCから PURCHASE_MARKUP で買ったポケモンを転売しても確実には売れない）
+ */
+export const getBuyerChance = (askingPrice: number, marketPrice: number): number => {
+  const ratio = askingPrice / Math.max(1, marketPrice)
+  if (ratio <= 1) return 1
+  return Math.max(0, 1 - (ratio - 1) / (MAX_ASKING_RATIO - 1))
+}
+
+/**
+ * 買い手が現れる時刻（希望価格が相場に近いほど早い、現れない場合は undefined）
+ * 出品IDからのシードで揺らぎと買い手の有無を決めるため、同じ出品なら常に同じ結果になる
+ */
+export const calculateBuyerArrival = (
+  id: string,
+  askingPrice: number,
+  marketPrice: number,
+  listedAt: Date
+): Date | undefined => {
+  const ratio = askingPrice / Math.max(1, marketPrice)
+  if (ratio > MAX_ASKING_RATIO) return undefined
+
+  const random = new GameRandom(hashSeed(`market:${id}`))
+  const jitter = random.range(0.75, 1.25)
+  if (!random.chance(getBuyerChance(askingPrice, marketPrice))) return undefined
+
+  const hours = BASE_SALE_HOURS * Math.pow(ratio, 3) * jitter
+  return new Date(listedAt.getTime() + hours * HOUR_MS)
+}
+
+export const createMarketListing = (
+  id: string,
+  subject: { pokemon: Pokemon } | { item: Item },
+  askingPrice: number,
+  marketPrice: number,
+  now: Date
+): MarketListing => {
+  const buyerArrivesAt = calculateBuyerArrival(id, askingPrice, marketPrice, now)
+
+  return {
+    id,
+    ...('pokemon' in subject
+      ? { kind: 'pokemon' as const, name: subject.pokemon.nameJa, pokemon: subject.pokemon }
+      : { kind: 'item' as const, name: subject.item.nameJa, item: subject.item }),
+    askingPrice,
+    marketPrice,
+    listedAt: now.toISOString(),
+    buyerArrivesAt: buyerArrivesAt?.toISOString(),
+    expiresAt: new Date(now.getTime() + LISTING_DURATION_DAYS * DAY_MS).toISOString()
+  }
+}
+
+/**
+ * 買い手が現れた出品と期限切れの出品を取り出す（売れた分は売却履歴に記録する）
+ */
+export const collectSettledListings = (
+  market: MarketState,
+  now: Date
+): { sold: MarketListing[]; expired: MarketListing[] } => {
+  const sold: MarketListing[] = []
+  const expired: MarketListing[] = []
+
+  market.listings = market.listings.filter(listing => {
+    if (listing.buyerArrivesAt && new Date(listing.buyerArrivesAt) <= now) {
+      sold.push(listing)
+      return false
+    }
+    if (new Date(listing.expiresAt) <= now) {
+      expired.push(listing)
+      return false
+    }
+    return true
+  })
+
+  sold.forEach(listing => {
+    market.sales.push({
+      kind: listing.kind,
+      subjectId: listing.kind === 'pokemon' ? String(listing.pokemon?.speciesId) : listing.item?.id ?? '',
+      quantity: listing.item?.quantity ?? 1,
+      price: listing.askingPrice,
+      soldAt: listing.buyerArrivesAt ?? now.toISOString()
+    })
+  })
+  if (market.sales.length > SALES_HISTORY_LIMIT) {
+    market.sales = market.sales.slice(-SALES_HISTORY_LIMIT)
+  }
+
+  return { sold, expired }
+}
+
+// =================== NPC販売枠 ===================
+
+/**
+ * 日替わりのNPC販売枠を生成（同じプレイヤー・同じ日なら同じ内容）
+ */
+export const generateMarketStock = (dateKey: string, seedSource: string): MarketOffer[] => {
+  const random = new GameRandom(hashSeed(`market:${seedSource}:${dateKey}`))
+  const candidates = getAllPokemonSpecies().filter(species => species.rarity !== 'legendary' && species.rarity !== 'mythical')
+
+  return random.shuffle(candidates).slice(0, MARKET_STOCK_SIZE).map(species => ({
+    id: `${dateKey}_${species.id}`,
+    speciesId: species.id,
+    level: random.integer(5, 20),
+    ivs: {
+      hp: random.integer(0, 31),
+      attack: random.integer(0, 31),
+      defense: random.integer(0, 31),
+      specialAttack: random.integer(0, 31),
+      specialDefense: random.integer(0, 31),
+      speed: random.integer(0, 31)
+    },
+    nature: random.choice(STOCK_NATURES),
+    purchased: false
+  }))
+}
+
+/**
+ * 日付が変わっていれば販売枠を再抽選する（変更があれば true）
+ */
+export const refreshMarketStock = (market: MarketState, seedSource: string, now: Date = new Date()): boolean => {
+  const dateKey = getDailyKey(now)
+  if (market.stock.date === dateKey) return false
+
+  market.stock = { date: dateKey, offers: generateMarketStock(dateKey, seedSource) }
+  return true
+}
+
+/**
+ * 販売枠のポケモンを手持ちに加える形に変換
+ */
+export const createPokemonFromOffer = (offer: MarketOffer, now: Date): Omit<Pokemon, 'id'> | undefined => {
+  const species = getPokemonSpecies(offer.speciesId)
+  if (!species) return undefined
+
+  const stats = calculatePokemonStats(offer.speciesId, offer.level, offer.ivs)
+  return {
+    speciesId: offer.speciesId,
+    name: species.name,
+    nameJa: species.nameJa,
+    level: offer.level,
+    experience: 0,
+    nextLevelExp: calculateNextLevelExp(offer.level),
+    hp: stats.hp,
+    maxHp: stats.hp,
+    attack: stats.attack,
+    defense: stats.defense,
+    specialAttack: stats.specialAttack,
+    specialDefense: stats.specialDefense,
+    speed: stats.speed,
+    status: 'healthy',
+    moves: getMovesKnownAtLevel(offer.speciesId, offer.level),
+    ivs: { ...offer.ivs },
+    nature: offer.nature,
+    caughtDate: now.toISOString(),
+    caughtLocation: 0, // マーケットで購入
+    caughtBy: 'market',
+    originalTrainer: 'マーケット'
+  }
+}
@@ -0,0 +1,159 @@
+import type { ExpeditionEvent, ExpeditionInjury, Facility, MedicalCondition, MedicalKind, MedicalSeverity, Pokemon, Trainer } from './types'
+import type { GameRandom } from '@/lib/game-logic/random-system'
+import { getStaffAbilityBonus } from './skills'
+
+/**
+ * けが・病気・疲労の療養
+ * 派遣の危険・悪天候イベントから負うけがの抽選と、回復施設・メディックのスキル・アイテムによる
+ * 療養期間の計算を行う純粋な計算処理（状態の反映・永続化は呼び出し側で行う）
+ */
+
+export interface InjuryEventOutcome {
+  type: ExpeditionEvent['type']
+  success: boolean
+}
+
+export const MEDICAL_KIND_LABELS: Record<MedicalKind, string> = {
+  injury: 'けが',
+  illness: '病気',
+  fatigue: '疲労'
+}
+
+export const MEDICAL_SEVERITY_LABELS: Record<MedicalSeverity, string> = {
+  minor: '軽度',
+  moderate: '中度',
+  severe: '重度'
+}
+
+// 標準の回復速度で完治するまでの時間
+export const RECOVERY_HOURS: Record<MedicalKind, Record<MedicalSeverity, number>> = {
+  injury: { minor: 2, moderate: 6, severe: 24 },
+  illness: { minor: 4, moderate: 12, severe: 36 },
+  fatigue: { minor: 1, moderate: 3, severe: 8 }
+}
+
+const HEALING_SPEED_PER_LEVEL = 0.25 // 回復施設1レベルごとの回復速度の加算
+const MEDIC_SKILL_RATE = 0.05 // メディックの healing スキル1ごとの回復速度の加算
+const SEVERITY_WEIGHTS: { item: MedicalSeverity, weight: number }[] = [
+  { item: 'minor', weight: 60 },
+  { item: 'moderate', weight: 30 },
+  { item: 'severe', weight: 10 }
+]
+const POKEMON_TARGET_CHANCE = 0.5 // 手持ちがいる場合にポケモンが被害を受ける確率
+const TRAINER_INJURY_CHANCE = 0.6 // 危険なイベントでトレーナーが負うのがけが（残りは疲労）になる確率
+const WEATHER_ILLNESS_CHANCE = 0.4 // 悪天候のイベントに失敗して体調を崩す確率
+const HOUR = 60 * 60 * 1000
+
+// =================== 回復速度 ===================
+
+/**
+ * 回復速度の倍率（1.0 が標準）
+ * 回復施設のレベルと状態、待機中のメディックのうち最も高い healing スキル、療養系の能力で速くなる
+ */
+export const calculateRecoveryRate = (facilities: Facility[], trainers: Trainer[]): number => {
+  const facilityBonus = facilities
+    .filter(facility => facility.type === 'healing_center')
+    .reduce((sum, facility) => sum + (facility.effects.healingSpeed ?? facility.level * HEALING_SPEED_PER_LEVEL) * facility.condition, 0)
+
+  const medicSkill = Math.max(0, ...trainers
+    .filter(trainer => trainer.job === 'medic' && trainer.status === 'available')
+    .map(trainer => trainer.skills.healing))
+
+  return 1 + facilityBonus + medicSkill * MEDIC_SKILL_RATE + getStaffAbilityBonus(trainers, 'healingRate')
+}
+
+// =================== 療養状態 ===================
+
+export const createMedicalCondition = (
+  kind: MedicalKind,
+  severity: MedicalSeverity,
+  cause: string,
+  now: Date
+): MedicalCondition => ({
+  kind,
+  severity,
+  cause,
+  startedAt: now.toISOString(),
+  remainingHours: RECOVERY_HOURS[kind][severity],
+  updatedAt: now.toISOString()
+})
+
+/**
+ * 療養中に別のけが・病気を負った場合は、完治までが長い方を残す
+ */
+export const mergeMedicalCondition = (
+  current: MedicalCondition | undefined,
+  next: MedicalCondition
+): MedicalCondition => {
+  return current && current.remainingHours >= next.remainingHours ? current : next
+}
+
+/**
+ * 前回の更新からの経過時間だけ療養を進める（完治したら true）
+ */
+export const advanceRecovery = (condition: MedicalCondition, rate: number, now: Date): boolean => {
+  const elapsedHours = Math.max(0, now.getTime() - new Date(condition.updatedAt).getTime()) / HOUR
+  condition.remainingHours = Math.max(0, condition.remainingHours - elapsedHours * rate)
+  condition.updatedAt = now.toISOString()
+  return condition.remainingHours <= 0
+}
+
+/**
+ * アイテムによる治療で療養期間を短縮する（完治したら true）
+ */
+export const applyTreatment = (condition: MedicalCondition, recoveryHours: number): boolean => {
+  condition.remainingHours = Math.max(0, condition.remainingHours - recoveryHours)
+  return condition.remainingHours <= 0
+}
+
+/**
+ * 現在の回復速度での完治予定時刻
+ */
+export const estimateRecoveryTime = (condition: MedicalCondition, rate: number): Date => {
+  return new Date(new Date(condition.updatedAt).getTime() + condition.remainingHours / rate * HOUR)
+}
+
+/**
+ * 療養記録のない injured / sick のポケモン（旧セーブデータ）に軽度の療養状態を割り当てる
+ */
+export const getPokemonMedicalCondition = (pokemon: Pokemon, now: Date): MedicalCondition | undefined => {
+  if (pokemon.medical) return pokemon.medical
+  if (pokemon.status === 'injured') return createMedicalCondition('injury', 'minor', 'けが', now)
+  if (pokemon.status === 'sick') return createMedicalCondition('illness', 'minor', '病気', now)
+  return undefined
+}
+
+// =================== 派遣中のけが ===================
+
+/**
+ * 失敗した危険・悪天候イベントから、メンバーと同行した手持ちが負うけが・病気を抽選
+ * 危険な遭遇ではけが（トレーナーは疲労のこともある）、悪天候では一定確率で病気になる
+ */
+export const rollExpeditionInjuries = (
+  outcomes: InjuryEventOutcome[],
+  trainerIds: string[],
+  pokemonIds: string[],
+  random: GameRandom
+): ExpeditionInjury[] => {
+  const injuries: ExpeditionInjury[] = []
+
+  outcomes.forEach(outcome => {
+    if (outcome.success) return
+    if (outcome.type !== 'danger' && outcome.type !== 'weather') return
+    if (outcome.type === 'weather' && !random.chance(WEATHER_ILLNESS_CHANCE)) return
+
+    const target = pokemonIds.length > 0 && random.chance(POKEMON_TARGET_CHANCE) ? 'pokemon' : 'trainer'
+    const id = random.choice(target === 'pokemon' ? pokemonIds : trainerIds)
+    const severity = random.weightedChoice(SEVERITY_WEIGHTS)
+
+    if (outcome.type === 'weather') {
+      injuries.push({ target, id, kind: 'illness', severity, cause: '悪天候で体調を崩した' })
+      return
+    }
+
+    const kind = target === 'trainer' && !random.chance(TRAINER_INJURY_CHANCE) ? 'fatigue' : 'injury'
+    injuries.push({ target, id, kind, severity, cause: kind === 'fatigue' ? '危険な遭遇で消耗した' : '危険な遭遇でけがをした' })
+  })
+
+  return injuries
+}
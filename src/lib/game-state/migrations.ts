@@ -0,0 +1,411 @@
+import { createInitialGameData, type GameData } from './types'
+import { createInitialAchievementState } from './achievements'
+import { createEmptyTaskBoard } from './tasks'
+import { createInitialFinanceState } from './finance'
+import { createEmptyMarketState } from './market'
+import { CURRENT_GAME_VERSION, type DataVersion } from '@/lib/game-data/GameDataSchema'
+import type { UnifiedSaveData, MigrationInfo, MigrationLogEntry } from '@/lib/unified-data/types'
+import { hashSeed } from '@/lib/game-logic/random-system'
+
+/**
+ * セーブデータのマイグレーション
+ * 古いバージョンの GameData を1段階ずつ現行バージョンへ変換し、各段階の後に検証する純粋な処理
+ * （localStorage・バックアップ・インポートの読み込み時に呼び出し側で実行し、結果の保存も呼び出し側で行う）
+ */
+
+export interface GameDataMigration {
+  id: string
+  from: DataVersion
+  to: DataVersion
+  description: string
+  migrate: (data: any, context: MigrationContext) => string[] // 変更内容を返す
+  validate: (data: GameData) => string[] // 問題点を返す（空なら成功）
+}
+
+export interface MigrationContext {
+  now: Date
+}
+
+export interface MigrationOptions {
+  targetVersion?: string
+  now?: Date
+}
+
+export interface MigrationReport extends MigrationInfo {
+  success: boolean
+  dryRun: boolean
+  error?: string
+}
+
+export interface MigrationOutcome<T> {
+  data?: T // 失敗時は undefined（元データは変更しない）
+  report: MigrationReport
+}
+
+export type SaveStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+export interface StoredGameDataOutcome extends MigrationOutcome<GameData> {
+  preservedKey?: string // 変換できなかった元データの退避先（退避できなければ undefined）
+}
+
+export const UNMIGRATED_SAVE_SUFFIX = '-unmigrated'
+
+// =================== バージョン比較 ===================
+
+export const parseVersion = (version: string): DataVersion => {
+  const [major, minor, patch] = version.split('.').map(Number)
+  return { major: major || 0, minor: minor || 0, patch: patch || 0 }
+}
+
+export const formatVersion = (version: DataVersion): string => `${version.major}.${version.minor}.${version.patch}`
+
+export const compareVersions = (a: DataVersion, b: DataVersion): number => {
+  if (a.major !== b.major) return a.major - b.major
+  if (a.minor !== b.minor) return a.minor - b.minor
+  return a.patch - b.patch
+}
+
+// バージョンを持たないデータは最初期のものとして扱う
+const getDataVersion = (data: any): string => typeof data?.version === 'string' ? data.version : '0.0.0'
+
+// =================== 検証 ===================
+
+const REQUIRED_ARRAYS = ['trainers', 'pokemon', 'expeditions', 'facilities', 'transactions'] as const
+
+/**
+ * 全バージョン共通の構造検証
+ */
+export const validateGameDataStructure = (data: any): string[] => {
+  const issues: string[] = []
+
+  if (!data || typeof data !== 'object') return ['ゲームデータがオブジェクトではありません']
+  if (typeof data.version !== 'string') issues.push('version がありません')
+  if (!data.userId) issues.push('userId がありません')
+  if (!data.player || typeof data.player.money !== 'number') issues.push('player の所持金が不正です')
+
+  REQUIRED_ARRAYS.forEach(key => {
+    if (!Array.isArray(data[key])) issues.push(`${key} が配列ではありません`)
+  })
+
+  return issues
+}
+
+// =================== マイグレーション定義 ===================
+
+export const GAME_DATA_MIGRATIONS: GameDataMigration[] = [
+  {
+    id: 'initial_structure',
+    from: { major: 0, minor: 0, patch: 0 },
+    to: { major: 1, minor: 0, patch: 0 },
+    description: 'バージョン管理前のデータに基本構造を補完',
+    migrate: (data) => {
+      const changes: string[] = []
+      const defaults = createInitialGameData(data.userId || 'guest', 'プレイヤー', 'トキワシティ訓練所')
+
+      if (!data.userId) {
+        data.userId = defaults.userId
+        changes.push('userId を設定')
+      }
+      if (!data.player) {
+        data.player = defaults.player
+        changes.push('player を初期化')
+      }
+      REQUIRED_ARRAYS.forEach(key => {
+        if (!Array.isArray(data[key])) {
+          // トレーナー・ポケモンは読み込み時に初期データを補充する
+          data[key] = []
+          changes.push(`${key} を初期化`)
+        }
+      })
+      const fields = ['settings', 'statistics', 'createdAt', 'lastSaved'] as const
+      fields.forEach(key => {
+        if (data[key] === undefined) {
+          data[key] = defaults[key]
+          changes.push(`${key} を初期化`)
+        }
+      })
+
+      return changes
+    },
+    validate: (data) => [
+      ...(data.settings ? [] : ['settings がありません']),
+      ...(data.statistics ? [] : ['statistics がありません'])
+    ]
+  },
+  {
+    id: 'inventory_progress',
+    from: { major: 1, minor: 0, patch: 0 },
+    to: { major: 1, minor: 1, patch: 0 },
+    description: '派遣シード・インベントリ・アチーブメント・タスクを追加',
+    migrate: (data) => {
+      const changes: string[] = []
+
+      // シードを持たない派遣にはIDから決定論的なシードを付与
+      const unseeded = data.expeditions.filter((expedition: any) => typeof expedition.seed !== 'number')
+      unseeded.forEach((expedition: any) => {
+        expedition.seed = hashSeed(expedition.id)
+      })
+      if (unseeded.length > 0) changes.push(`派遣${unseeded.length}件にシードを付与`)
+
+      if (!Array.isArray(data.inventory)) {
+        data.inventory = []
+        changes.push('inventory を初期化')
+      }
+      if (!data.achievements) {
+        data.achievements = createInitialAchievementState()
+        changes.push('achievements を初期化')
+      }
+      // タスクは読み込み後に抽選される
+      if (!data.tasks) {
+        data.tasks = createEmptyTaskBoard()
+        changes.push('tasks を初期化')
+      }
+
+      return changes
+    },
+    validate: (data) => [
+      ...(Array.isArray(data.inventory) ? [] : ['inventory が配列ではありません']),
+      ...(data.achievements && Array.isArray(data.achievements.unlocked) ? [] : ['achievements が不正です']),
+      ...(data.tasks?.daily && data.tasks?.weekly ? [] : ['tasks が不正です']),
+      ...(data.expeditions.every(expedition => typeof expedition.seed === 'number') ? [] : ['シードのない派遣があります'])
+    ]
+  },
+  {
+    id: 'world_clock',
+    from: { major: 1, minor: 1, patch: 0 },
+    to: { major: 1, minor: 2, patch: 0 },
+    description: 'ゲーム内時計を追加',
+    migrate: (data, { now }) => {
+      // 時計を持たないデータは実時刻と同じ速度で開始
+      if (data.worldClock) return []
+      data.worldClock = { speed: 1, realAnchor: now.toISOString(), gameAnchor: now.toISOString() }
+      return ['worldClock を初期化']
+    },
+    validate: (data) => data.worldClock && data.worldClock.speed > 0 ? [] : ['worldClock が不正です']
+  },
+  {
+    id: 'finance',
+    from: { major: 1, minor: 2, patch: 0 },
+    to: { major: 1, minor: 3, patch: 0 },
+    description: '融資・給与・破産状態とトレーナーの士気を追加',
+    migrate: (data, { now }) => {
+      const changes: string[] = []
+
+      // 給与日は移行時点から数え始める
+      if (!data.finance) {
+        data.finance = createInitialFinanceState(now)
+        changes.push('finance を初期化')
+      }
+      const withoutMorale = data.trainers.filter((trainer: any) => typeof trainer.morale !== 'number')
+      withoutMorale.forEach((trainer: any) => {
+        trainer.morale = 70
+      })
+      if (withoutMorale.length > 0) changes.push(`トレーナー${withoutMorale.length}人に士気を設定`)
+
+      return changes
+    },
+    validate: (data) => [
+      ...(data.finance && Array.isArray(data.finance.loans) && data.finance.bankruptcy ? [] : ['finance が不正です']),
+      ...(data.trainers.every(trainer => typeof trainer.morale === 'number') ? [] : ['士気のないトレーナーがいます'])
+    ]
+  },
+  {
+    id: 'market',
+    from: { major: 1, minor: 3, patch: 0 },
+    to: { major: 1, minor: 4, patch: 0 },
+    description: 'マーケットの出品・売却履歴・販売枠を追加',
+    migrate: (data) => {
+      // 販売枠は読み込み後に抽選される
+      if (data.market) return []
+      data.market = createEmptyMarketState()
+      return ['market を初期化']
+    },
+    validate: (data) => data.market && Array.isArray(data.market.listings) && Array.isArray(data.market.sales) ? [] : ['market が不正です']
+  },
+  {
+    id: 'employment',
+    from: { major: 1, minor: 4, patch: 0 },
+    to: { major: 1, minor: 5, patch: 0 },
+    description: '元トレーナーの記録を追加',
+    migrate: (data) => {
+      // 雇用契約は読み込み後に移行時点から結ばれる
+      if (Array.isArray(data.formerTrainers)) return []
+      data.formerTrainers = []
+      return ['formerTrainers を初期化']
+    },
+    validate: (data) => Array.isArray(data.formerTrainers) ? [] : ['formerTrainers が配列ではありません']
+  },
+  {
+    id: 'pokemon_facilities',
+    from: { major: 1, minor: 5, patch: 0 },
+    to: { major: 1, minor: 6, patch: 0 },
+    description: '育て屋の交配・タマゴと訓練施設の訓練枠を追加',
+    migrate: (data) => {
+      const changes: string[] = []
+
+      // これまでの交配・訓練はメモリ上にしかなかったため、空の状態から始める
+      if (!data.breeding) {
+        data.breeding = { sessions: [], eggs: [] }
+        changes.push('breeding を初期化')
+      }
+      if (!data.pokemonTraining) {
+        data.pokemonTraining = { slots: [] }
+        changes.push('pokemonTraining を初期化')
+      }
+
+      return changes
+    },
+    validate: (data) => [
+      ...(data.breeding && Array.isArray(data.breeding.sessions) && Array.isArray(data.breeding.eggs) ? [] : ['breeding が不正です']),
+      ...(data.pokemonTraining && Array.isArray(data.pokemonTraining.slots) ? [] : ['pokemonTraining が不正です'])
+    ]
+  },
+  {
+    id: 'training_facility_levels',
+    from: { major: 1, minor: 6, patch: 0 },
+    to: { major: 1, minor: 7, patch: 0 },
+    description: '訓練施設の強化レベルを追加',
+    migrate: (data) => {
+      // これまでの強化は保存されていなかったため、全施設レベル1から始める
+      if (data.pokemonTraining.facilityLevels) return []
+      data.pokemonTraining.facilityLevels = {}
+      return ['pokemonTraining.facilityLevels を初期化']
+    },
+    validate: (data) => data.pokemonTraining.facilityLevels && typeof data.pokemonTraining.facilityLevels === 'object'
+      ? []
+      : ['pokemonTraining.facilityLevels が不正です']
+  }
+]
+
+// =================== 実行 ===================
+
+/**
+ * マイグレーションが必要か判定
+ */
+export const isMigrationRequired = (version: string, targetVersion: string = CURRENT_GAME_VERSION): boolean => {
+  return compareVersions(parseVersion(version), parseVersion(targetVersion)) < 0
+}
+
+const runMigrations = (raw: unknown, options: MigrationOptions, dryRun: boolean): MigrationOutcome<GameData> => {
+  const fromVersion = getDataVersion(raw)
+  const toVersion = options.targetVersion ?? CURRENT_GAME_VERSION
+  const now = options.now ?? new Date()
+  const report: MigrationReport = {
+    fromVersion,
+    toVersion,
+    appliedMigrations: [],
+    migrationLog: [],
+    success: true,
+    dryRun
+  }
+
+  // 元データを変更しないよう複製して適用する
+  const data = JSON.parse(JSON.stringify(raw ?? null))
+  const target = parseVersion(toVersion)
+
+  for (const migration of GAME_DATA_MIGRATIONS) {
+    const current = parseVersion(getDataVersion(data))
+    if (compareVersions(current, target) >= 0) break
+    if (compareVersions(current, migration.to) >= 0) continue
+
+    const entry: MigrationLogEntry = {
+      migrationId: migration.id,
+      timestamp: now.toISOString(),
+      success: false,
+      changes: []
+    }
+    report.migrationLog.push(entry)
+
+    try {
+      if (!data || typeof data !== 'object') {
+        throw new Error('ゲームデータがオブジェクトではありません')
+      }
+      entry.changes = migration.migrate(data, { now })
+      data.version = formatVersion(migration.to)
+
+      const issues = [...validateGameDataStructure(data), ...migration.validate(data)]
+      if (issues.length > 0) {
+        throw new Error(issues.join(', '))
+      }
+
+      entry.success = true
+      report.appliedMigrations.push(migration.id)
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : String(error)
+      report.success = false
+      report.error = `${migration.id}: ${entry.error}`
+      return { report }
+    }
+  }
+
+  // 最新バージョンのデータも構造だけは検証する
+  const issues = validateGameDataStructure(data)
+  if (issues.length > 0) {
+    report.success = false
+    report.error = issues.join(', ')
+    return { report }
+  }
+
+  return { data: data as GameData, report }
+}
+
+/**
+ * GameData を現行バージョンへ変換
+ */
+export const migrateGameData = (raw: unknown, options: MigrationOptions = {}): MigrationOutcome<GameData> => {
+  return runMigrations(raw, options, false)
+}
+
+/**
+ * 変換を試行して結果のレポートのみ返す（ドライラン）
+ */
+export const planGameDataMigration = (raw: unknown, options: MigrationOptions = {}): MigrationReport => {
+  return runMigrations(raw, options, true).report
+}
+
+/**
+ * 保存済みの GameData を読み込んで現行バージョンへ変換
+ * 読めない・変換できないデータは新しいゲームの保存で失われないよう `<key>-unmigrated` に元のまま退避する
+ * （退避先にすでにデータがあれば、最初に失敗したデータを残すため上書きしない）
+ */
+export const loadStoredGameData = (
+  storage: SaveStorage,
+  key: string,
+  options: MigrationOptions = {}
+): StoredGameDataOutcome | null => {
+  const stored = storage.getItem(key)
+  if (!stored) return null
+
+  let raw: unknown = null
+  try {
+    raw = JSON.parse(stored)
+  } catch {
+    // 壊れたJSONは検証失敗として扱う
+  }
+
+  const outcome = migrateGameData(raw, options)
+  if (outcome.data) return outcome
+
+  const preservedKey = `${key}${UNMIGRATED_SAVE_SUFFIX}`
+  try {
+    if (storage.getItem(preservedKey) === null) {
+      storage.setItem(preservedKey, stored)
+    }
+    return { ...outcome, preservedKey }
+  } catch {
+    return outcome
+  }
+}
+
+/**
+ * 統合セーブデータ（UnifiedSaveData）を現行バージョンへ変換
+ */
+export const migrateUnifiedSaveData = (raw: any, options: MigrationOptions = {}): MigrationOutcome<UnifiedSaveData> => {
+  const { data: gameData, report } = migrateGameData(raw?.gameData, options)
+  if (!gameData) return { report }
+
+  return {
+    data: { ...raw, version: gameData.version, gameData },
+    report
+  }
+}
@@ -0,0 +1,48 @@
+import type { Pokemon } from './types'
+
+/**
+ * 覚えきれなかった技
+ * 技が4つ埋まった状態でレベルアップしたポケモンの、忘れる技の選択待ちを管理する純粋な計算処理
+ * （技の入れ替えの反映と画面への表示は呼び出し側で行う）
+ */
+
+export interface PendingMoveReport {
+  pokemonId: string
+  pokemonName: string
+  moves: string[]
+}
+
+/**
+ * 選択待ちの技を追加する（同じポケモンの報告がすでにあれば1件にまとめる）
+ */
+export const queuePendingMoves = (
+  queue: PendingMoveReport[],
+  pokemon: Pick<Pokemon, 'id' | 'nameJa'>,
+  moves: string[] | undefined
+): PendingMoveReport[] => {
+  if (!moves || moves.length === 0) return queue
+
+  const existing = queue.find(report => report.pokemonId === pokemon.id)
+  if (!existing) {
+    return [...queue, { pokemonId: pokemon.id, pokemonName: pokemon.nameJa, moves: [...moves] }]
+  }
+  return queue.map(report => report === existing
+    ? { ...report, moves: [...report.moves, ...moves.filter(move => !report.moves.includes(move))] }
+    : report)
+}
+
+/**
+ * 選んだ技構成にできない場合はその理由を返す
+ * （今の技を忘れて選択待ちの技を覚えるだけで、技の数は変わらない）
+ */
+export const validateMoveChoice = (
+  currentMoves: string[],
+  pendingMoves: string[],
+  chosenMoves: string[]
+): string | undefined => {
+  if (new Set(chosenMoves).size !== chosenMoves.length) return '同じ技は2つ覚えられません'
+  if (chosenMoves.length !== currentMoves.length) return '忘れる技と覚える技の数が合いません'
+  const unknown = chosenMoves.find(move => !currentMoves.includes(move) && !pendingMoves.includes(move))
+  if (unknown) return `${unknown}は覚えられません`
+  return undefined
+}
@@ -0,0 +1,130 @@
+import type { Trainer } from './types'
+import type { AbilityEffects } from '@/lib/static-data/types'
+import { getSkillTree, getSkillNode, getSpecialization } from '@/lib/static-data/skill-trees'
+
+/**
+ * スキルツリーと専門分野
+ * レベルアップで得たスキルポイントによる能力の習得、専門分野の選択、
+ * 習得した能力が派遣・捕獲・育成・研究・療養に与える効果を求める純粋な計算処理（状態の反映・永続化は呼び出し側で行う）
+ */
+
+export const SKILL_POINTS_PER_LEVEL = 1
+export const SPECIALIZATION_LEVEL = 5 // 専門分野を選べるレベル
+export const MAX_ABILITY_BONUS = 0.5 // 効果ごとの上限（チームで重ねても +50% まで）
+
+export const ABILITY_EFFECT_LABELS: Record<keyof AbilityEffects, string> = {
+  expeditionSuccess: '派遣成功度',
+  captureRate: '捕獲率',
+  breedingQuality: '遺伝の質',
+  researchSpeed: '研究速度',
+  healingRate: '回復速度'
+}
+
+const EFFECT_KEYS = Object.keys(ABILITY_EFFECT_LABELS) as (keyof AbilityEffects)[]
+
+// =================== スキルポイント ===================
+
+/**
+ * Lv.1 から現在のレベルまでに得たポイント
+ */
+export const getEarnedSkillPoints = (level: number): number => {
+  return Math.max(0, level - 1) * SKILL_POINTS_PER_LEVEL
+}
+
+/**
+ * 未使用のポイント（記録のない旧セーブデータはレベルと習得済みの能力から求める）
+ */
+export const getAvailableSkillPoints = (trainer: Pick<Trainer, 'level' | 'skillPoints' | 'unlockedAbilities'>): number => {
+  if (trainer.skillPoints !== undefined) return trainer.skillPoints
+  const spent = (trainer.unlockedAbilities ?? []).reduce((sum, id) => sum + (getSkillNode(id)?.cost ?? 0), 0)
+  return Math.max(0, getEarnedSkillPoints(trainer.level) - spent)
+}
+
+/**
+ * レベルアップ後の未使用ポイント
+ */
+export const addLevelUpSkillPoints = (
+  trainer: Pick<Trainer, 'level' | 'skillPoints' | 'unlockedAbilities'>,
+  levelsGained: number
+): number => {
+  return getAvailableSkillPoints(trainer) + Math.max(0, levelsGained) * SKILL_POINTS_PER_LEVEL
+}
+
+// =================== 習得・専門分野 ===================
+
+/**
+ * 能力を習得できない場合はその理由を返す
+ */
+export const validateAbilityUnlock = (trainer: Trainer, abilityId: string): string | undefined => {
+  const node = getSkillTree(trainer.job).nodes.find(n => n.id === abilityId)
+  if (!node) return 'この職業では習得できない能力です'
+
+  const unlocked = trainer.unlockedAbilities ?? []
+  if (unlocked.includes(abilityId)) return `${node.nameJa}は習得済みです`
+
+  const missing = node.requires.filter(id => !unlocked.includes(id))
+  if (missing.length > 0) {
+    return `先に${missing.map(id => getSkillNode(id)?.nameJa ?? id).join('・')}を習得してください`
+  }
+  if (getAvailableSkillPoints(trainer) < node.cost) return `スキルポイントが足りません（必要: ${node.cost}）`
+  return undefined
+}
+
+/**
+ * 能力を習得してポイントを消費（validateAbilityUnlock で確認済みであること）
+ */
+export const unlockAbility = (trainer: Trainer, abilityId: string): void => {
+  const cost = getSkillNode(abilityId)?.cost ?? 0
+  trainer.skillPoints = getAvailableSkillPoints(trainer) - cost
+  trainer.unlockedAbilities = [...(trainer.unlockedAbilities ?? []), abilityId]
+}
+
+/**
+ * 専門分野を選べない場合はその理由を返す（一度選ぶと変更できない）
+ */
+export const validateSpecialization = (trainer: Trainer, specializationId: string): string | undefined => {
+  if (trainer.specialization) return '専門分野は選択済みです'
+  if (trainer.level < SPECIALIZATION_LEVEL) return `専門分野はLv.${SPECIALIZATION_LEVEL}から選べます`
+  if (!getSkillTree(trainer.job).specializations.some(s => s.id === specializationId)) {
+    return 'この職業では選べない専門分野です'
+  }
+  return undefined
+}
+
+// =================== 能力の効果 ===================
+
+/**
+ * 習得済みの能力と専門分野のID
+ */
+export const getActiveAbilityIds = (trainer: Pick<Trainer, 'unlockedAbilities' | 'specialization'>): string[] => {
+  return [...(trainer.unlockedAbilities ?? []), ...(trainer.specialization ? [trainer.specialization] : [])]
+}
+
+/**
+ * 能力・専門分野の効果の合計（効果ごとに上限あり）
+ */
+export const getAbilityEffects = (abilityIds: string[]): Required<AbilityEffects> => {
+  const totals = Object.fromEntries(EFFECT_KEYS.map(key => [key, 0])) as Required<AbilityEffects>
+
+  abilityIds.forEach(id => {
+    const effects = getSkillNode(id)?.effects ?? getSpecialization(id)?.effects ?? {}
+    EFFECT_KEYS.forEach(key => {
+      totals[key] = Math.min(MAX_ABILITY_BONUS, totals[key] + (effects[key] ?? 0))
+    })
+  })
+
+  return totals
+}
+
+export const getTrainerAbilityEffects = (trainer: Pick<Trainer, 'unlockedAbilities' | 'specialization'>): Required<AbilityEffects> => {
+  return getAbilityEffects(getActiveAbilityIds(trainer))
+}
+
+/**
+ * 学校に待機しているトレーナーのうち、その効果が最も高い人の効果（育成・研究・療養は待機中のスタッフが担う）
+ */
+export const getStaffAbilityBonus = (trainers: Trainer[], effect: keyof AbilityEffects): number => {
+  return Math.max(0, ...trainers
+    .filter(trainer => trainer.status === 'available')
+    .map(trainer => getTrainerAbilityEffects(trainer)[effect]))
+}
@@ -0,0 +1,278 @@
+import type { TaskBoardState } from './types'
+import type { DailyTaskData, WeeklyTaskData } from '@/lib/game-data/GameDataSchema'
+import type { DataChangeEvent } from '@/lib/real-time/RealtimeManager'
+import type { PokemonType, TaskTemplate, TaskType } from '@/lib/static-data/types'
+import { getTaskTemplate, getTaskTemplatesByPeriod } from '@/lib/static-data/tasks'
+import { getPokemonSpecies } from '@/lib/static-data/pokemon'
+import { pokemonDatabase } from '@/lib/pokemon/PokemonDatabase'
+import { GameRandom, hashSeed } from '@/lib/game-logic/random-system'
+
+/**
+ * デイリー・ウィークリータスク
+ * テンプレートから日替わり／週替わりの目標を抽選し、ゲームイベントで進捗を更新する純粋な計算処理
+ * （報酬の支払い・永続化・通知は呼び出し側で行う）
+ */
+
+export const TASK_RESET_HOUR = 4 // ローカル時刻 4:00 に日付が切り替わる
+export const DAILY_TASK_COUNT = 3
+export const WEEKLY_TASK_COUNT = 3
+const MAX_STREAK_BONUS_DAYS = 5
+const STREAK_BONUS_PER_DAY = 0.1
+
+export type DailyTask = DailyTaskData['tasks'][number]
+export type WeeklyTask = WeeklyTaskData['tasks'][number]
+
+export interface TaskEvent {
+  type: TaskType
+  amount: number
+  key?: string // 同じ出来事の重複カウント防止用
+  locationId?: number
+  pokemonTypes?: PokemonType[]
+  expeditionMode?: string
+}
+
+export interface CompletedTask {
+  period: TaskTemplate['period']
+  task: DailyTask | WeeklyTask
+  multiplier: number
+}
+
+const WEEKLY_BONUS_REWARDS = [
+  { threshold: 2, rewards: { money: 3000, items: [] } },
+  { threshold: WEEKLY_TASK_COUNT, rewards: { money: 8000, items: [{ itemId: 'max_potion', quantity: 1 }] } }
+]
+
+// =================== 日付キー ===================
+
+const pad = (value: number): string => value.toString().padStart(2, '0')
+
+// リセット時刻より前は前日扱い
+const toTaskDay = (now: Date): Date => new Date(now.getTime() - TASK_RESET_HOUR * 60 * 60 * 1000)
+
+/**
+ * デイリータスクの日付キー（ローカル時刻 YYYY-MM-DD）
+ */
+export const getDailyKey = (now: Date): string => {
+  const day = toTaskDay(now)
+  return `${day.getFullYear()}-${pad(day.getMonth() + 1)}-${pad(day.getDate())}`
+}
+
+/**
+ * ウィークリータスクの週キー（ローカル時刻の ISO 週 YYYY-WXX、月曜始まり）
+ */
+export const getWeeklyKey = (now: Date): string => {
+  const day = toTaskDay(now)
+  const thursday = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 3 - ((day.getDay() + 6) % 7))
+  const firstThursday = new Date(thursday.getFullYear(), 0, 4)
+  const week = 1 + Math.round(
+    ((thursday.getTime() - firstThursday.getTime()) / 86400000 - 3 + ((firstThursday.getDay() + 6) % 7)) / 7
+  )
+  return `${thursday.getFullYear()}-W${pad(week)}`
+}
+
+/**
+ * 次のデイリーリセット時刻
+ */
+export const getNextDailyReset = (now: Date): Date => {
+  const day = toTaskDay(now)
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1, TASK_RESET_HOUR)
+}
+
+/**
+ * 次のウィークリーリセット時刻（月曜）
+ */
+export const getNextWeeklyReset = (now: Date): Date => {
+  const day = toTaskDay(now)
+  const daysUntilMonday = 7 - ((day.getDay() + 6) % 7)
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + daysUntilMonday, TASK_RESET_HOUR)
+}
+
+// =================== 生成 ===================
+
+export const createEmptyTaskBoard = (): TaskBoardState => ({
+  daily: { date: '', tasks: [], streakCount: 0, bonusMultiplier: 1 },
+  weekly: { week: '', tasks: [], completedTasks: 0, bonusRewards: [] }
+})
+
+const rollTasks = (period: TaskTemplate['period'], key: string, seedSource: string, count: number) => {
+  // 同じプレイヤー・同じ日なら同じタスクになるよう日付キーからシードを決める
+  const random = new GameRandom(hashSeed(`${seedSource}:${key}`))
+
+  return random.shuffle(getTaskTemplatesByPeriod(period))
+    .slice(0, count)
+    .map(template => {
+      const target = random.integer(template.targetRange[0], template.targetRange[1])
+
+      return {
+        id: `${key}_${template.id}`,
+        type: template.id,
+        description: template.description.replace('{target}', target.toLocaleString()),
+        difficulty: template.difficulty,
+        progress: 0,
+        maxProgress: target,
+        completed: false,
+        rewards: {
+          money: Math.floor(template.rewards.money * target),
+          experience: Math.floor(template.rewards.experience * target),
+          items: template.rewards.items.map(item => ({ ...item }))
+        }
+      }
+    })
+}
+
+/**
+ * デイリータスクを生成（前日を全達成していれば連続日数を引き継ぐ）
+ */
+export const generateDailyTasks = (dateKey: string, seedSource: string, previous?: DailyTaskData): DailyTaskData => {
+  const [year, month, date] = dateKey.split('-').map(Number)
+  const yesterday = new Date(year, month - 1, date - 1, TASK_RESET_HOUR)
+  const continued = !!previous &&
+    previous.date === getDailyKey(yesterday) &&
+    previous.tasks.length > 0 &&
+    previous.tasks.every(task => task.completed)
+  const streakCount = continued ? previous.streakCount + 1 : 0
+
+  return {
+    date: dateKey,
+    tasks: rollTasks('daily', dateKey, seedSource, DAILY_TASK_COUNT).map(({ difficulty: _difficulty, ...task }) => task),
+    streakCount,
+    bonusMultiplier: 1 + Math.min(streakCount, MAX_STREAK_BONUS_DAYS) * STREAK_BONUS_PER_DAY
+  }
+}
+
+/**
+ * ウィークリータスクを生成
+ */
+export const generateWeeklyTasks = (weekKey: string, seedSource: string): WeeklyTaskData => ({
+  week: weekKey,
+  tasks: rollTasks('weekly', weekKey, seedSource, WEEKLY_TASK_COUNT),
+  completedTasks: 0,
+  bonusRewards: WEEKLY_BONUS_REWARDS.map(bonus => ({ ...bonus, claimed: false }))
+})
+
+/**
+ * 日付・週が切り替わっていればタスクを再抽選する（変更があれば true）
+ */
+export const refreshTaskBoard = (board: TaskBoardState, seedSource: string, now: Date = new Date()): boolean => {
+  let changed = false
+
+  const dateKey = getDailyKey(now)
+  if (board.daily.date !== dateKey) {
+    board.daily = generateDailyTasks(dateKey, seedSource, board.daily)
+    changed = true
+  }
+
+  const weekKey = getWeeklyKey(now)
+  if (board.weekly.week !== weekKey) {
+    board.weekly = generateWeeklyTasks(weekKey, seedSource)
+    changed = true
+  }
+
+  return changed
+}
+
+// =================== 進捗 ===================
+
+const getSpeciesTypes = (speciesId: number): PokemonType[] => {
+  const species = pokemonDatabase.getSpecies(speciesId)
+  if (species) return species.types
+
+  const definition = getPokemonSpecies(speciesId)
+  return definition ? [definition.type1, ...(definition.type2 ? [definition.type2] : [])] : []
+}
+
+/**
+ * データ変更イベントからタスク進捗の対象となる出来事を抽出
+ */
+export const extractTaskEvents = (event: DataChangeEvent): TaskEvent[] => {
+  switch (event.category) {
+    case 'pokemon':
+      if (event.action !== 'create' || typeof event.data?.speciesId !== 'number') return []
+      if ((event.data.acquiredBy ?? 'capture') !== 'capture') return []
+      return [{
+        type: 'catch_pokemon',
+        amount: 1,
+        key: event.entityId,
+        locationId: event.data.caughtLocation,
+        pokemonTypes: getSpeciesTypes(event.data.speciesId)
+      }]
+    case 'expeditions': {
+      if (event.data?.status !== 'completed') return []
+
+      const context = {
+        key: event.entityId,
+        locationId: event.data.locationId,
+        expeditionMode: event.data.mode
+      }
+      const events: TaskEvent[] = [{ type: 'complete_expedition', amount: 1, ...context }]
+      if (event.data.moneyEarned > 0) {
+        events.push({ type: 'earn_expedition_money', amount: event.data.moneyEarned, ...context })
+      }
+      return events
+    }
+    case 'inventory':
+      return event.action === 'delete' && event.source === 'user_action' && event.data?.quantity > 0
+        ? [{ type: 'use_item', amount: event.data.quantity }]
+        : []
+    default:
+      return []
+  }
+}
+
+/**
+ * タスクが出来事の条件に合致するか判定
+ */
+export const matchesTask = (task: DailyTask | WeeklyTask, taskEvent: TaskEvent): boolean => {
+  const template = getTaskTemplate(task.type)
+  if (!template || template.type !== taskEvent.type) return false
+
+  const { locationId, pokemonType, expeditionMode } = template.filters ?? {}
+  if (locationId !== undefined && taskEvent.locationId !== locationId) return false
+  if (pokemonType && !taskEvent.pokemonTypes?.includes(pokemonType)) return false
+  if (expeditionMode && taskEvent.expeditionMode !== expeditionMode) return false
+
+  return true
+}
+
+/**
+ * 出来事をタスクに反映し、新たに達成したタスクを返す
+ * isCounted で既に数えた（タスク, 出来事）の組み合わせを除外できる
+ */
+export const applyTaskEvent = (
+  board: TaskBoardState,
+  taskEvent: TaskEvent,
+  isCounted: (taskId: string) => boolean = () => false
+): CompletedTask[] => {
+  const completed: CompletedTask[] = []
+  const candidates: Array<{ period: TaskTemplate['period']; task: DailyTask | WeeklyTask; multiplier: number }> = [
+    ...board.daily.tasks.map(task => ({ period: 'daily' as const, task, multiplier: board.daily.bonusMultiplier })),
+    ...board.weekly.tasks.map(task => ({ period: 'weekly' as const, task, multiplier: 1 }))
+  ]
+
+  for (const candidate of candidates) {
+    const { task } = candidate
+    if (task.completed || !matchesTask(task, taskEvent) || isCounted(task.id)) continue
+
+    task.progress = Math.min(task.progress + taskEvent.amount, task.maxProgress)
+    if (task.progress >= task.maxProgress) {
+      task.completed = true
+      completed.push(candidate)
+    }
+  }
+
+  board.weekly.completedTasks = board.weekly.tasks.filter(task => task.completed).length
+
+  return completed
+}
+
+/**
+ * 達成数に応じたウィークリーボーナスを受け取り済みにし、付与すべき報酬を返す
+ */
+export const claimWeeklyBonuses = (board: TaskBoardState): WeeklyTaskData['bonusRewards'] => {
+  const claimable = board.weekly.bonusRewards.filter(bonus =>
+    !bonus.claimed && board.weekly.completedTasks >= bonus.threshold
+  )
+  claimable.forEach(bonus => { bonus.claimed = true })
+
+  return claimable
+}
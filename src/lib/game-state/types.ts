@@ -1,4 +1,8 @@
 // JSONベースのゲームデータ型定義
+import { CURRENT_GAME_VERSION, type AchievementData, type AchievementProgressData, type DailyTaskData, type WeeklyTaskData } from '@/lib/game-data/GameDataSchema'
+import type { BreedingSession, PokemonEgg } from '@/lib/pokemon/PokemonBreedingSystem'
+import type { TrainingSlot } from '@/lib/pokemon/PokemonTrainingFacility'
+
 export interface GameData {
   // メタデータ
   version: string
@@ -20,6 +24,9 @@ export interface GameData {
   // トレーナー
   trainers: Trainer[]
   
+  // 退職・解雇したトレーナーの記録
+  formerTrainers: FormerTrainer[]
+  
   // ポケモン
   pokemon: Pokemon[]
   
@@ -29,9 +36,33 @@ export interface GameData {
   // 施設
   facilities: Facility[]
   
+  // 所持アイテム（同じIDはスタック、スロット数は倉庫施設で拡張）
+  inventory: Item[]
+  
   // 取引履歴
   transactions: Transaction[]
   
+  // アチーブメント（セーブスキーマの GameSaveData.achievements と同じ構造）
+  achievements: AchievementState
+  
+  // デイリー・ウィークリータスク
+  tasks: TaskBoardState
+  
+  // ゲーム内時計
+  worldClock: WorldClockState
+  
+  // 融資・給与・破産状態
+  finance: FinanceState
+  
+  // マーケット（出品・売却履歴・NPCの販売枠）
+  market: MarketState
+  
+  // 育て屋（交配中のペアと孵化待ちのタマゴ）
+  breeding: BreedingState
+  
+  // ポケモンの訓練施設（使用中の訓練枠）
+  pokemonTraining: PokemonTrainingState
+  
   // 設定
   settings: GameSettings
   
@@ -39,6 +70,102 @@ export interface GameData {
   statistics: GameStatistics
 }
 
+export interface AchievementState {
+  unlocked: AchievementData[]
+  progress: AchievementProgressData[]
+  totalPoints: number
+}
+
+export interface TaskBoardState {
+  daily: DailyTaskData
+  weekly: WeeklyTaskData
+}
+
+export interface WorldClockState {
+  speed: number // 実時間1分あたりに進むゲーム内の分数
+  realAnchor: string // 速度を変更した実時刻
+  gameAnchor: string // その時点のゲーム内時刻
+}
+
+export type BankruptcyStage = 'solvent' | 'warning' | 'distressed' | 'bankrupt'
+
+export interface FinanceState {
+  loans: Loan[]
+  lastPayrollAt: string // 最後に給与日を処理した時刻
+  missedPayrolls: number // 連続で給与を払えなかった回数
+  unpaidWages: number // 未払い給与の合計
+  negativeBalanceSince?: string // 残高がマイナスになった時刻
+  bankruptcy: {
+    stage: BankruptcyStage
+    since: string // 現在の段階になった時刻
+  }
+}
+
+export interface Loan {
+  id: string
+  productId: string
+  principal: number
+  interestRate: number // 返済総額に対する利率
+  takenAt: string
+  installments: LoanInstallment[]
+}
+
+export interface LoanInstallment {
+  dueDate: string
+  amount: number
+  paidAt?: string
+}
+
+export interface MarketState {
+  listings: MarketListing[]
+  sales: MarketSale[] // NPCへの売却履歴（需給の計算に使う）
+  stock: {
+    date: string // 販売枠を抽選した日付キー
+    offers: MarketOffer[]
+  }
+}
+
+export interface MarketListing {
+  id: string
+  kind: 'pokemon' | 'item'
+  name: string
+  pokemon?: Pokemon // 出品中は手持ちから外して保持する
+  item?: Item
+  askingPrice: number // 合計額
+  marketPrice: number // 出品時点の相場（合計額）
+  listedAt: string
+  buyerArrivesAt?: string // 相場より高すぎる出品には買い手が現れない
+  expiresAt: string
+}
+
+export interface MarketSale {
+  kind: 'pokemon' | 'item'
+  subjectId: string // 種族IDまたはアイテムID
+  quantity: number
+  price: number
+  soldAt: string
+}
+
+export interface MarketOffer {
+  id: string
+  speciesId: number
+  level: number
+  ivs: Pokemon['ivs']
+  nature: string
+  purchased: boolean
+}
+
+// 進み具合は保存せず、読み込み時に開始・終了時刻と実時刻から求め直す
+export interface BreedingState {
+  sessions: BreedingSession[] // 交配中・タマゴ受け取り待ちのもの
+  eggs: PokemonEgg[]
+}
+
+export interface PokemonTrainingState {
+  slots: TrainingSlot[] // 順番待ち・訓練中・一時停止中・完了報告待ちのもの
+  facilityLevels: Record<string, number> // 施設ID → 強化レベル
+}
+
 export interface Trainer {
   id: string
   name: string
@@ -73,6 +200,7 @@ export interface Trainer {
   // 経済
   salary: number
   totalEarned: number
+  contract?: TrainerContract // 契約のないトレーナーは読み込み時に契約を結ぶ
   
   // パフォーマンス
   totalExpeditions: number
@@ -81,13 +209,59 @@ export interface Trainer {
   
   // 関係性
   trustLevel: number
+  morale: number // 0-100
   favoriteLocations: number[]
   
+  // コンディション（派遣時間で疲労が溜まり、待機・休養中に回復する）
+  fatigue?: number // 0-100
+  fatigueUpdatedAt?: string // 疲労の回復を最後に反映した時刻
+  successStreak?: number // 連続成功数（連続失敗は負の値）
+  
+  // スキルツリー（レベルアップで得たポイントで職業の能力を習得する）
+  skillPoints?: number // 未使用のポイント（記録がなければレベルから求める）
+  unlockedAbilities?: string[]
+  specialization?: string
+  
+  // 派遣に連れて行く手持ちポケモンのID（最大6体）
+  party?: string[]
+  
+  // 療養中のけが・病気・疲労（療養中は resting で派遣できない）
+  medical?: MedicalCondition
+  
+  // 受講中の研修コース（受講中は training で派遣できない）
+  course?: CourseEnrollment
+  
   // メタ
   hiredDate: string
   lastActive: string
 }
 
+// 研修コースの受講
+export interface CourseEnrollment {
+  courseId: string
+  startedAt: string
+  completesAt: string
+  cost: number
+}
+
+// 雇用契約
+export interface TrainerContract {
+  signedAt: string
+  expiresAt: string
+  termDays: number
+  renewals: number // 更新回数
+}
+
+export type DepartureReason = 'resigned' | 'dismissed' | 'contract_expired' | 'burnout'
+
+// 元トレーナーの記録
+export interface FormerTrainer {
+  trainer: Trainer // 退職時点の情報
+  reason: DepartureReason
+  leftAt: string
+  severance: number // 支払った退職金
+}
+
 export interface Pokemon {
   id: string
   speciesId: number
@@ -108,6 +282,7 @@ export interface Pokemon {
   
   // 状態
   status: 'healthy' | 'injured' | 'sick' | 'training'
+  medical?: MedicalCondition // injured / sick の原因と回復までの時間
   
   // 習得技
   moves: string[]
@@ -122,9 +297,15 @@ export interface Pokemon {
     speed: number
   }
   
+  // 努力値（バトルと訓練で溜まる。未設定は全て0）
+  evs?: Pokemon['ivs']
+  
   // 性格
   nature: string
   
+  // 持ち物（アイテムID、育て屋での遺伝に影響する）
+  heldItem?: string
+  
   // メタ
   caughtDate: string
   caughtLocation: number
@@ -134,7 +315,9 @@ export interface Pokemon {
 
 export interface Expedition {
   id: string
-  trainerId: string
+  trainerId: string // リーダー
+  memberIds?: string[] // チーム派遣のメンバー（リーダーを先頭に含む、単独派遣では省略）
+  partyIds?: string[] // 出発時に同行した手持ちポケモン（メンバー全員分）
   locationId: number
   
   // 設定
@@ -142,6 +325,9 @@ export interface Expedition {
   targetDuration: number // hours
   strategy: string[]
   
+  // 乱数シード（同じシードなら派遣全体を再現可能）
+  seed: number
+  
   // 状態
   status: 'preparing' | 'active' | 'completed' | 'failed' | 'recalled'
   startTime: string
@@ -161,6 +347,8 @@ export interface Expedition {
     moneyEarned: number
     experienceGained: number
     trainerExpGained: number
+    partyReports?: PartyMemberReport[] // 同行した手持ちポケモンの消耗
+    injuries?: ExpeditionInjury[] // 危険・悪天候のイベントで負ったけが・病気
     summary: string
   }
   
@@ -169,6 +357,40 @@ export interface Expedition {
   updatedAt: string
 }
 
+// 派遣に同行した手持ちポケモンの消耗
+export interface PartyMemberReport {
+  pokemonId: string
+  hpLost: number
+  injured: boolean // ひんしになった
+  battles: number // 捕獲前バトルに出た回数
+  effort?: Partial<Pokemon['ivs']> // 捕獲前バトルで倒した相手から得た努力値（上限を適用する前）
+}
+
+export type MedicalKind = 'injury' | 'illness' | 'fatigue'
+export type MedicalSeverity = 'minor' | 'moderate' | 'severe'
+
+// けが・病気・疲労の療養状態
+export interface MedicalCondition {
+  kind: MedicalKind
+  severity: MedicalSeverity
+  cause: string
+  startedAt: string
+  remainingHours: number // 標準の回復速度で完治するまでの残り時間
+  updatedAt: string // remainingHours を最後に進めた時刻
+}
+
+// 派遣中に負ったけが・病気
+export interface ExpeditionInjury {
+  target: 'trainer' | 'pokemon'
+  id: string
+  kind: MedicalKind
+  severity: MedicalSeverity
+  cause: string
+}
+
+// 新規派遣の入力（シード省略時は自動生成）
+export type NewExpedition = Omit<Expedition, 'id' | 'createdAt' | 'updatedAt' | 'seed'> & { seed?: number }
+
 export interface ExpeditionEvent {
   id: string
   type: 'pokemon_encounter' | 'item_discovery' | 'danger' | 'weather' | 'trainer_encounter'
@@ -226,7 +448,7 @@ export interface Facility {
 export interface Transaction {
   id: string
   type: 'income' | 'expense'
-  category: 'expedition_reward' | 'salary' | 'facility_cost' | 'trainer_hire' | 'item_purchase' | 'other'
+  category: 'expedition_reward' | 'salary' | 'facility_cost' | 'trainer_hire' | 'item_purchase' | 'item_sale' | 'pokemon_sale' | 'pokemon_purchase' | 'loan' | 'other'
   amount: number
   description: string
   
@@ -249,8 +471,13 @@ export interface Item {
   // 効果
   effects?: {
     healing?: number
+    recoveryHours?: number
     experienceBoost?: number
     captureRateBoost?: number
+    inheritedIVs?: number
+    keepsNature?: boolean
+    effortReduction?: number
+    effortStat?: keyof Pokemon['ivs']
   }
 }
 
@@ -309,7 +536,7 @@ export type TrainerJob = 'ranger' | 'breeder' | 'researcher' | 'battler' | 'medi
 
 // 初期データ生成用
 export const createInitialGameData = (userId: string, playerName: string, schoolName: string): GameData => ({
-  version: '1.0.0',
+  version: CURRENT_GAME_VERSION,
   userId,
   lastSaved: new Date().toISOString(),
   createdAt: new Date().toISOString(),
@@ -341,6 +568,7 @@ export const createInitialGameData = (userId: string, playerName: string, school
       successfulExpeditions: 10,
       pokemonCaught: 15,
       trustLevel: 75,
+      morale: 70,
       favoriteLocations: [1, 2, 3],
       hiredDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(), // 30日前
       lastActive: new Date().toISOString()
@@ -361,6 +589,7 @@ export const createInitialGameData = (userId: string, playerName: string, school
         successfulExpeditions: 6,
         pokemonCaught: 8,
         trustLevel: 60,
+        morale: 70,
         favoriteLocations: [2, 4],
         hiredDate: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000).toISOString(), // 20日前
         lastActive: new Date().toISOString()
@@ -381,11 +610,13 @@ export const createInitialGameData = (userId: string, playerName: string, school
         successfulExpeditions: 4,
         pokemonCaught: 6,
         trustLevel: 45,
+        morale: 70,
         favoriteLocations: [1, 5],
         hiredDate: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(), // 15日前
         lastActive: new Date().toISOString()
       }
   ],
+  formerTrainers: [],
   pokemon: [
     {
       id: 'starter-pikachu',
@@ -462,7 +693,53 @@ export const createInitialGameData = (userId: string, playerName: string, school
   ],
   expeditions: [],
   facilities: [],
+  inventory: [
+    {
+      id: 'potion',
+      name: 'Potion',
+      nameJa: 'キズぐすり',
+      type: 'medicine',
+      description: 'ポケモンのHPを20回復する',
+      quantity: 5,
+      value: 200,
+      effects: { healing: 20 }
+    }
+  ],
   transactions: [],
+  achievements: {
+    unlocked: [],
+    progress: [],
+    totalPoints: 0
+  },
+  tasks: {
+    daily: { date: '', tasks: [], streakCount: 0, bonusMultiplier: 1 },
+    weekly: { week: '', tasks: [], completedTasks: 0, bonusRewards: [] }
+  },
+  worldClock: {
+    speed: 1,
+    realAnchor: new Date().toISOString(),
+    gameAnchor: new Date().toISOString()
+  },
+  finance: {
+    loans: [],
+    lastPayrollAt: new Date().toISOString(),
+    missedPayrolls: 0,
+    unpaidWages: 0,
+    bankruptcy: { stage: 'solvent', since: new Date().toISOString() }
+  },
+  market: {
+    listings: [],
+    sales: [],
+    stock: { date: '', offers: [] }
+  },
+  breeding: {
+    sessions: [],
+    eggs: []
+  },
+  pokemonTraining: {
+    slots: [],
+    facilityLevels: {}
+  },
   
   settings: {
     theme: 'retro',
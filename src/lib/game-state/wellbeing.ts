@@ -0,0 +1,163 @@
+import type { Expedition, Facility, MedicalSeverity, Trainer } from './types'
+import { calculateTrainerSalary } from '@/lib/static-data/jobs'
+
+/**
+ * トレーナーの疲労・士気・燃え尽き
+ * 派遣時間による疲労の蓄積と寮での回復、給与の公平さ・連続成功・信頼度から決まる士気、
+ * 燃え尽きによる失敗・退職の起こりやすさを求める純粋な計算処理（状態の反映・永続化は呼び出し側で行う）
+ */
+
+export const MAX_FATIGUE = 100
+export const EXHAUSTION_THRESHOLD = 80 // 派遣後の疲労がこの値以上だと休養が必要になる
+
+const FATIGUE_PER_HOUR = 6 // 派遣1時間あたりの疲労
+const MODE_FATIGUE: Record<Expedition['mode'], number> = {
+  exploration: 1.1,
+  balanced: 1.0,
+  safe: 0.8,
+  aggressive: 1.3
+}
+const BASE_REST_PER_HOUR = 2 // 寮がなくても待機中に回復する疲労
+const DORMITORY_REST_PER_HOUR = 4 // 寮に全員が入れる場合の回復の加算
+const DORMITORY_CAPACITY_PER_LEVEL = 2
+const RESTING_REST_MULTIPLIER = 1.5 // 休養中は待機中より早く回復する
+
+const BASE_MORALE = 60
+const SALARY_FAIRNESS_WEIGHT = 30 // 相場との差1割ごとに3
+const SALARY_MORALE_RANGE = { min: -15, max: 10 }
+const SUCCESS_STREAK_MORALE = { perStreak: 3, max: 15 }
+const FAILURE_STREAK_MORALE = { perStreak: 5, max: 20 }
+const TRUST_MORALE_WEIGHT = 0.3 // 信頼度50を基準に士気へ反映する割合
+const MORALE_ADJUST_RATE = 0.3 // 派遣1回で目標の士気に近づく割合
+
+const BURNOUT_FATIGUE_WEIGHT = 0.6
+const BURNOUT_MORALE_WEIGHT = 0.4
+const BURNOUT_FAILURE_WEIGHT = 0.3 // 燃え尽き1.0で派遣の成功度が3割下がる
+const QUIT_BURNOUT_THRESHOLD = 0.5 // この値を超えると派遣後に退職することがある
+const QUIT_CHANCE_WEIGHT = 0.4
+const HOUR = 60 * 60 * 1000
+
+const clampPercent = (value: number): number => Math.max(0, Math.min(100, value))
+
+// =================== 疲労 ===================
+
+/**
+ * 派遣時間に応じて疲労を加算（攻めた派遣ほど疲れる）
+ */
+export const applyExpeditionFatigue = (trainer: Trainer, hours: number, mode: Expedition['mode'], now: Date): void => {
+  trainer.fatigue = Math.min(MAX_FATIGUE, Math.round((trainer.fatigue ?? 0) + hours * FATIGUE_PER_HOUR * MODE_FATIGUE[mode]))
+  trainer.fatigueUpdatedAt = now.toISOString()
+}
+
+/**
+ * 寮に入れるトレーナーの人数（状態が悪いと減る）
+ */
+export const calculateDormitoryCapacity = (facilities: Facility[]): number => {
+  return Math.floor(facilities
+    .filter(facility => facility.type === 'dormitory')
+    .reduce((sum, facility) => sum + (facility.effects.trainerCapacity ?? facility.level * DORMITORY_CAPACITY_PER_LEVEL) * facility.condition, 0))
+}
+
+/**
+ * 待機中に1時間で回復する疲労（寮の定員を超える人数がいると寮の効果が薄まる）
+ */
+export const calculateRestRate = (facilities: Facility[], trainerCount: number): number => {
+  const capacity = calculateDormitoryCapacity(facilities)
+  const coverage = trainerCount > 0 ? Math.min(1, capacity / trainerCount) : 0
+  return BASE_REST_PER_HOUR + DORMITORY_REST_PER_HOUR * coverage
+}
+
+/**
+ * 前回の反映からの経過時間だけ疲労を回復（派遣中・訓練中は回復しない）
+ * 回復した場合は true
+ */
+export const restTrainer = (trainer: Trainer, restRate: number, now: Date): boolean => {
+  const previous = trainer.fatigue ?? 0
+  const lastUpdated = trainer.fatigueUpdatedAt ? new Date(trainer.fatigueUpdatedAt).getTime() : now.getTime()
+  trainer.fatigueUpdatedAt = now.toISOString()
+  if (previous <= 0 || (trainer.status !== 'available' && trainer.status !== 'resting')) return false
+
+  const multiplier = trainer.status === 'resting' ? RESTING_REST_MULTIPLIER : 1
+  const elapsedHours = Math.max(0, now.getTime() - lastUpdated) / HOUR
+  trainer.fatigue = Math.max(0, previous - elapsedHours * restRate * multiplier)
+  return trainer.fatigue !== previous
+}
+
+/**
+ * 派遣後の疲労から必要な休養の重さ（休養が不要なら undefined）
+ */
+export const getExhaustionSeverity = (fatigue: number): MedicalSeverity | undefined => {
+  if (fatigue >= MAX_FATIGUE) return 'severe'
+  if (fatigue >= 90) return 'moderate'
+  if (fatigue >= EXHAUSTION_THRESHOLD) return 'minor'
+  return undefined
+}
+
+// =================== 士気 ===================
+
+/**
+ * 連続成功・連続失敗の記録を更新
+ */
+export const updateSuccessStreak = (trainer: Trainer, success: boolean): void => {
+  const streak = trainer.successStreak ?? 0
+  trainer.successStreak = success ? Math.max(0, streak) + 1 : Math.min(0, streak) - 1
+}
+
+/**
+ * 職業とレベルの相場に対する給与の割合（1.0 で相場どおり）
+ */
+export const calculateSalaryFairness = (trainer: Pick<Trainer, 'job' | 'level' | 'salary'>): number => {
+  return trainer.salary / Math.max(1, calculateTrainerSalary(trainer.job, trainer.level))
+}
+
+/**
+ * 給与の公平さ・連続成功・信頼度から決まる士気の目標値
+ */
+export const calculateMoraleTarget = (trainer: Trainer): number => {
+  const salary = Math.max(
+    SALARY_MORALE_RANGE.min,
+    Math.min(SALARY_MORALE_RANGE.max, (calculateSalaryFairness(trainer) - 1) * SALARY_FAIRNESS_WEIGHT)
+  )
+  const streak = trainer.successStreak ?? 0
+  const streakBonus = streak >= 0
+    ? Math.min(SUCCESS_STREAK_MORALE.max, streak * SUCCESS_STREAK_MORALE.perStreak)
+    : -Math.min(FAILURE_STREAK_MORALE.max, -streak * FAILURE_STREAK_MORALE.perStreak)
+  const trust = (trainer.trustLevel - 50) * TRUST_MORALE_WEIGHT
+
+  return clampPercent(Math.round(BASE_MORALE + salary + streakBonus + trust))
+}
+
+/**
+ * 士気を目標値へ近づける
+ */
+export const updateMorale = (trainer: Trainer): void => {
+  const target = calculateMoraleTarget(trainer)
+  trainer.morale = clampPercent(Math.round(trainer.morale + (target - trainer.morale) * MORALE_ADJUST_RATE))
+}
+
+// =================== 燃え尽き ===================
+
+/**
+ * 燃え尽き度（0.0 to 1.0、疲労が50、士気が50を下回ると上がり始める）
+ */
+export const calculateBurnout = (trainer: Pick<Trainer, 'fatigue' | 'morale'>): number => {
+  const fatigue = Math.max(0, (trainer.fatigue ?? 0) - 50) / 50
+  const morale = Math.max(0, 50 - trainer.morale) / 50
+  return Math.min(1, fatigue * BURNOUT_FATIGUE_WEIGHT + morale * BURNOUT_MORALE_WEIGHT)
+}
+
+/**
+ * 派遣の成功度に掛ける倍率（メンバーの燃え尽き度の平均で下がる）
+ */
+export const calculateBurnoutModifier = (team: Pick<Trainer, 'fatigue' | 'morale'>[]): number => {
+  if (team.length === 0) return 1
+  const average = team.reduce((sum, trainer) => sum + calculateBurnout(trainer), 0) / team.length
+  return 1 - average * BURNOUT_FAILURE_WEIGHT
+}
+
+/**
+ * 派遣から戻った後に退職する確率
+ */
+export const calculateQuitChance = (trainer: Pick<Trainer, 'fatigue' | 'morale'>): number => {
+  return Math.max(0, calculateBurnout(trainer) - QUIT_BURNOUT_THRESHOLD) * QUIT_CHANCE_WEIGHT
+}
@@ -0,0 +1,251 @@
+/**
+ * タマゴの遺伝ルール
+ * 親2匹から生まれるポケモンの種族・個体値・性格・技・色違いを決める純粋な計算処理
+ * （同じ親と同じ乱数列なら同じタマゴになる。確率の見込みは calculateOffspringDistribution で求める）
+ *
+ * 1. 種族: 親1が70%、親2が25%、ベビーが5%（ベビーがいなければ親1が75%）
+ * 2. 個体値: 6つの能力から3つ（あかいいとを持たせると5つ）を選んで遺伝する。
+ *    遺伝する能力は 50% + 育成技術/2 の確率で高い方の親から、それ以外は低い方の親から受け継ぐ。
+ *    遺伝しない能力は0〜31から一様に決まる
+ * 3. 性格: かわらずのいしを持たせた親の性格を必ず受け継ぐ（両親が持つ場合はどちらかを半々）。
+ *    持たせていなければ 20% + 育成技術 の確率でどちらかの親の性格、それ以外は全性格から一様に決まる
+ * 4. 技: 親が覚えている技のうち、生まれる種族がレベルアップで覚える技（Lv.1の技を除く）をタマゴ技として最大4つ受け継ぐ
+ * 5. 色違い: 0.5%（相性が80を超えると2%）。親の元のトレーナーが異なると3倍
+ */
+
+import type { PokemonInstance } from '@/lib/schemas/pokemon'
+import type { GameRandom } from '@/lib/game-logic/random-system'
+import { getItemDefinition } from '@/lib/static-data/items'
+import { getLearnset, getMovesKnownAtLevel } from '@/lib/static-data/learnsets'
+
+export const STAT_KEYS = ['hp', 'attack', 'defense', 'specialAttack', 'specialDefense', 'speed'] as const
+export type StatKey = typeof STAT_KEYS[number]
+
+export const MAX_IV = 31
+export const BASE_INHERITED_IV_COUNT = 3
+export const BASE_NATURE_INHERIT_CHANCE = 0.2
+export const BASE_SHINY_CHANCE = 0.005
+export const COMPATIBLE_SHINY_CHANCE = 0.02
+export const SHINY_COMPATIBILITY_THRESHOLD = 80
+export const DIFFERENT_TRAINER_SHINY_MULTIPLIER = 3
+export const MAX_EGG_MOVES = 4
+const MAX_MOVES = 4
+const SPECIES_ODDS = { parent1: 0.7, parent2: 0.25, baby: 0.05 }
+
+export type BreedingParent = Pick<
+  PokemonInstance,
+  'id' | 'speciesId' | 'ivs' | 'nature' | 'moves' | 'originalTrainer' | 'heldItem'
+>
+
+export interface InheritanceContext {
+  breedingQuality: number // 育て屋スタッフの育成技術（0.0〜）
+  compatibility: number // 0〜100
+  babySpeciesId?: number
+  natures: string[] // 一様に選ばれる性格の候補
+}
+
+export interface RolledOffspring {
+  speciesId: number
+  ivs: PokemonInstance['ivs']
+  nature: string
+  eggMoves: string[]
+  isShiny: boolean
+}
+
+export interface IVDistribution {
+  inheritChance: number // 親から遺伝する確率
+  chances: number[] // 添字が個体値（0〜31）、値がその確率
+  expected: number
+  perfectChance: number // 31になる確率
+}
+
+export interface OffspringDistribution {
+  species: Array<{ speciesId: number; chance: number; eggMoves: string[] }>
+  ivs: Record<StatKey, IVDistribution>
+  natures: Array<{ nature: string; chance: number }>
+  inheritedIVCount: number
+  expectedTotalIVs: number
+  shinyChance: number
+}
+
+// =================== 持ち物 ===================
+
+/**
+ * 遺伝する個体値の数（持ち物で増える）
+ */
+export const getInheritedIVCount = (parent1: BreedingParent, parent2: BreedingParent): number => {
+  return Math.min(STAT_KEYS.length, Math.max(
+    BASE_INHERITED_IV_COUNT,
+    ...[parent1, parent2].map(parent => getHeldItemEffects(parent)?.inheritedIVs ?? 0)
+  ))
+}
+
+/**
+ * 性格を必ず受け継がせる親（かわらずのいしを持たせた親）
+ */
+export const getNatureKeepers = (parent1: BreedingParent, parent2: BreedingParent): BreedingParent[] => {
+  return [parent1, parent2].filter(parent => getHeldItemEffects(parent)?.keepsNature)
+}
+
+const getHeldItemEffects = (parent: BreedingParent) => {
+  return parent.heldItem ? getItemDefinition(parent.heldItem)?.effects : undefined
+}
+
+// =================== 確率 ===================
+
+export const getBetterParentChance = (breedingQuality: number): number => Math.min(1, 0.5 + breedingQuality / 2)
+
+export const getNatureInheritChance = (breedingQuality: number): number => {
+  return Math.min(1, BASE_NATURE_INHERIT_CHANCE + breedingQuality)
+}
+
+export const calculateShinyChance = (parent1: BreedingParent, parent2: BreedingParent, compatibility: number): number => {
+  const base = compatibility > SHINY_COMPATIBILITY_THRESHOLD ? COMPATIBLE_SHINY_CHANCE : BASE_SHINY_CHANCE
+  return parent1.originalTrainer !== parent2.originalTrainer ? base * DIFFERENT_TRAINER_SHINY_MULTIPLIER : base
+}
+
+/**
+ * 生まれる種族とその確率（同じ種族はまとめる）
+ */
+export const getSpeciesOdds = (
+  parent1SpeciesId: number,
+  parent2SpeciesId: number,
+  babySpeciesId?: number
+): Array<{ speciesId: number; chance: number }> => {
+  const odds = new Map<number, number>()
+  const add = (speciesId: number, chance: number) => odds.set(speciesId, (odds.get(speciesId) ?? 0) + chance)
+
+  if (babySpeciesId !== undefined) {
+    add(babySpeciesId, SPECIES_ODDS.baby)
+    add(parent1SpeciesId, SPECIES_ODDS.parent1)
+  } else {
+    add(parent1SpeciesId, SPECIES_ODDS.parent1 + SPECIES_ODDS.baby)
+  }
+  add(parent2SpeciesId, SPECIES_ODDS.parent2)
+
+  return Array.from(odds, ([speciesId, chance]) => ({ speciesId, chance }))
+}
+
+// =================== 技 ===================
+
+/**
+ * 親から受け継ぐタマゴ技（生まれる種族の習得技にあり、Lv.1では覚えない技）
+ */
+export const getEggMoves = (speciesId: number, parent1: BreedingParent, parent2: BreedingParent): string[] => {
+  const learnable = new Set(getLearnset(speciesId).map(entry => entry.move))
+  const starting = new Set(getMovesKnownAtLevel(speciesId, 1))
+
+  return Array.from(new Set([...(parent1.moves || []), ...(parent2.moves || [])]))
+    .filter(move => learnable.has(move) && !starting.has(move))
+    .slice(0, MAX_EGG_MOVES)
+}
+
+/**
+ * 孵ったときに覚えている技（Lv.1の技のあとにタマゴ技を覚え、最大4つ）
+ */
+export const getHatchlingMoves = (speciesId: number, eggMoves: string[]): string[] => {
+  const moves = [...getMovesKnownAtLevel(speciesId, 1), ...eggMoves]
+  return moves.filter((move, index) => moves.lastIndexOf(move) === index).slice(-MAX_MOVES)
+}
+
+// =================== 決定 ===================
+
+/**
+ * ルールに従ってタマゴの中身を決める（乱数は種族・個体値・性格・色違いの順に使う）
+ */
+export const rollOffspring = (
+  parent1: BreedingParent,
+  parent2: BreedingParent,
+  context: InheritanceContext,
+  random: GameRandom
+): RolledOffspring => {
+  const speciesRoll = random.next()
+  const speciesOdds = getSpeciesOdds(parent1.speciesId, parent2.speciesId, context.babySpeciesId)
+  let cumulative = 0
+  const speciesId = (speciesOdds.find(({ chance }) => (cumulative += chance) > speciesRoll) ?? speciesOdds[speciesOdds.length - 1]).speciesId
+
+  const inherited = new Set(random.shuffle([...STAT_KEYS]).slice(0, getInheritedIVCount(parent1, parent2)))
+  const betterChance = getBetterParentChance(context.breedingQuality)
+  const ivs = {} as PokemonInstance['ivs']
+  STAT_KEYS.forEach(stat => {
+    if (inherited.has(stat)) {
+      const better = Math.max(parent1.ivs[stat], parent2.ivs[stat])
+      const worse = Math.min(parent1.ivs[stat], parent2.ivs[stat])
+      ivs[stat] = random.chance(betterChance) ? better : worse
+    } else {
+      ivs[stat] = random.integer(0, MAX_IV)
+    }
+  })
+
+  const keepers = getNatureKeepers(parent1, parent2)
+  let nature: string
+  if (keepers.length > 0) {
+    nature = random.choice(keepers).nature
+  } else if (random.chance(getNatureInheritChance(context.breedingQuality))) {
+    nature = random.choice([parent1, parent2]).nature
+  } else {
+    nature = random.choice(context.natures)
+  }
+
+  return {
+    speciesId,
+    ivs,
+    nature,
+    eggMoves: getEggMoves(speciesId, parent1, parent2),
+    isShiny: random.chance(calculateShinyChance(parent1, parent2, context.compatibility))
+  }
+}
+
+// =================== 見込み ===================
+
+/**
+ * 生まれるポケモンの種族・個体値・性格・色違いの確率分布
+ */
+export const calculateOffspringDistribution = (
+  parent1: BreedingParent,
+  parent2: BreedingParent,
+  context: InheritanceContext
+): OffspringDistribution => {
+  const inheritedIVCount = getInheritedIVCount(parent1, parent2)
+  const inheritChance = inheritedIVCount / STAT_KEYS.length
+  const betterChance = getBetterParentChance(context.breedingQuality)
+
+  const ivs = Object.fromEntries(STAT_KEYS.map(stat => {
+    const better = Math.max(parent1.ivs[stat], parent2.ivs[stat])
+    const worse = Math.min(parent1.ivs[stat], parent2.ivs[stat])
+    const chances = Array.from({ length: MAX_IV + 1 }, () => (1 - inheritChance) / (MAX_IV + 1))
+    chances[better] += inheritChance * betterChance
+    chances[worse] += inheritChance * (1 - betterChance)
+
+    return [stat, {
+      inheritChance,
+      chances,
+      expected: chances.reduce((sum, chance, value) => sum + chance * value, 0),
+      perfectChance: chances[MAX_IV]
+    }]
+  })) as Record<StatKey, IVDistribution>
+
+  const natureChances = new Map<string, number>()
+  const addNature = (nature: string, chance: number) => natureChances.set(nature, (natureChances.get(nature) ?? 0) + chance)
+  const keepers = getNatureKeepers(parent1, parent2)
+  if (keepers.length > 0) {
+    keepers.forEach(parent => addNature(parent.nature, 1 / keepers.length))
+  } else {
+    const natureInheritChance = getNatureInheritChance(context.breedingQuality)
+    addNature(parent1.nature, natureInheritChance / 2)
+    addNature(parent2.nature, natureInheritChance / 2)
+    context.natures.forEach(nature => addNature(nature, (1 - natureInheritChance) / context.natures.length))
+  }
+
+  return {
+    species: getSpeciesOdds(parent1.speciesId, parent2.speciesId, context.babySpeciesId).map(odds => ({
+      ...odds,
+      eggMoves: getEggMoves(odds.speciesId, parent1, parent2)
+    })),
+    ivs,
+    natures: Array.from(natureChances, ([nature, chance]) => ({ nature, chance })).sort((a, b) => b.chance - a.chance),
+    inheritedIVCount,
+    expectedTotalIVs: STAT_KEYS.reduce((sum, stat) => sum + ivs[stat].expected, 0),
+    shinyChance: calculateShinyChance(parent1, parent2, context.compatibility)
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * 努力値
+ * バトルで倒した種族と訓練の内容から溜まる能力ごとの努力値と、その能力値への反映を求める純粋な計算処理
+ * （アイテムの消費や状態の反映は呼び出し側で行う）
+ *
+ * 1. 上限: 1つの能力につき252、合計510。上限を超えた分は溜まらない
+ * 2. バトル: 倒した種族の一番高い種族値の能力に、種族値の合計に応じて1〜3
+ * 3. 訓練: プログラムの強度に応じた量（施設の倍率を掛ける）を、専門に対応する能力に等分
+ * 4. 能力値: 能力値の計算式の努力値の項（努力値4ごとにレベル100で1）を、今の能力値との差分として反映する
+ */
+
+import type { PokemonInstance, PokemonSpecies } from '@/lib/schemas/pokemon'
+import type { TrainingSession } from './PokemonGrowthSystem'
+import { STAT_KEYS, type StatKey } from './BreedingInheritance'
+
+export type EffortValues = NonNullable<PokemonInstance['evs']>
+export type EffortGain = Partial<Record<StatKey, number>>
+
+export const MAX_EVS_PER_STAT = 252
+export const MAX_TOTAL_EVS = 510
+
+// 種族値の合計がこの値以上なら2、次の値以上なら3
+const BATTLE_YIELD_THRESHOLDS = [350, 500]
+
+export const TRAINING_EFFORT_STATS: Record<TrainingSession['type'], StatKey[]> = {
+  strength: ['attack'],
+  endurance: ['hp', 'defense'],
+  speed: ['speed'],
+  technique: ['specialAttack', 'specialDefense'],
+  intelligence: ['specialAttack'],
+  balanced: [...STAT_KEYS]
+}
+
+export const TRAINING_EFFORT_POINTS: Record<TrainingSession['intensity'], number> = {
+  light: 4,
+  moderate: 8,
+  intense: 12,
+  extreme: 24
+}
+
+type StatHolder = Pick<PokemonInstance, 'level' | 'evs' | 'hp' | 'maxHp' | Exclude<StatKey, 'hp'>>
+
+export const createEmptyEffortValues = (): EffortValues => ({
+  hp: 0,
+  attack: 0,
+  defense: 0,
+  specialAttack: 0,
+  specialDefense: 0,
+  speed: 0
+})
+
+export const getTotalEffortValues = (evs: EffortValues | undefined): number => {
+  return evs ? STAT_KEYS.reduce((sum, stat) => sum + evs[stat], 0) : 0
+}
+
+// =================== 獲得 ===================
+
+/**
+ * 努力値を加える（能力ごと・合計の上限を超えた分は捨てる）
+ */
+export const addEffortValues = (
+  evs: EffortValues | undefined,
+  gain: EffortGain
+): { evs: EffortValues; gained: EffortGain } => {
+  const next = { ...createEmptyEffortValues(), ...evs }
+  const gained: EffortGain = {}
+  let total = getTotalEffortValues(next)
+
+  STAT_KEYS.forEach(stat => {
+    const amount = Math.min(gain[stat] ?? 0, MAX_EVS_PER_STAT - next[stat], MAX_TOTAL_EVS - total)
+    if (amount <= 0) return
+    next[stat] += amount
+    gained[stat] = amount
+    total += amount
+  })
+
+  return { evs: next, gained }
+}
+
+/**
+ * 倒した種族から得られる努力値
+ */
+export const getBattleEffortYield = (baseStats: Omit<PokemonSpecies['baseStats'], 'total'>): EffortGain => {
+  const total = STAT_KEYS.reduce((sum, stat) => sum + baseStats[stat], 0)
+  const best = STAT_KEYS.reduce((top, stat) => baseStats[stat] > baseStats[top] ? stat : top)
+  return { [best]: 1 + BATTLE_YIELD_THRESHOLDS.filter(threshold => total >= threshold).length }
+}
+
+/**
+ * 訓練で得られる努力値（multiplier は施設の倍率）
+ */
+export const getTrainingEffortYield = (program: TrainingSession, multiplier: number = 1): EffortGain => {
+  const stats = TRAINING_EFFORT_STATS[program.type]
+  const points = Math.floor(TRAINING_EFFORT_POINTS[program.intensity] * multiplier)
+  const perStat = Math.max(1, Math.floor(points / stats.length))
+  return Object.fromEntries(stats.map(stat => [stat, perStat]))
+}
+
+// =================== リセット ===================
+
+/**
+ * 努力値を減らす（amount が0以下なら全て、stat 省略時は全能力）
+ */
+export const reduceEffortValues = (evs: EffortValues | undefined, amount: number, stat?: StatKey): EffortValues => {
+  const next = { ...createEmptyEffortValues(), ...evs }
+  ;(stat ? [stat] : STAT_KEYS).forEach(key => {
+    next[key] = amount > 0 ? Math.max(0, next[key] - amount) : 0
+  })
+  return next
+}
+
+// =================== 能力値 ===================
+
+/**
+ * 努力値による能力値の上乗せ分
+ */
+export const getEffortStatBonus = (evs: EffortValues | undefined, level: number): Record<StatKey, number> => {
+  return Object.fromEntries(STAT_KEYS.map(stat => [
+    stat,
+    Math.floor((Math.floor((evs?.[stat] ?? 0) / 4) * level) / 100)
+  ])) as Record<StatKey, number>
+}
+
+/**
+ * 努力値を置き換え、上乗せ分の差だけ能力値を計算し直す（HPは最大HPと同じだけ増減する）
+ */
+export const applyEffortValues = <T extends StatHolder>(pokemon: T, evs: EffortValues): T => {
+  const before = getEffortStatBonus(pokemon.evs, pokemon.level)
+  const after = getEffortStatBonus(evs, pokemon.level)
+  const diff = (stat: StatKey) => after[stat] - before[stat]
+  const maxHp = pokemon.maxHp + diff('hp')
+
+  return {
+    ...pokemon,
+    evs,
+    maxHp,
+    hp: Math.max(0, Math.min(maxHp, pokemon.hp + diff('hp'))),
+    attack: pokemon.attack + diff('attack'),
+    defense: pokemon.defense + diff('defense'),
+    specialAttack: pokemon.specialAttack + diff('specialAttack'),
+    specialDefense: pokemon.specialDefense + diff('specialDefense'),
+    speed: pokemon.speed + diff('speed')
+  }
+}
@@ -0,0 +1,677 @@
+/**
+ * ポケモンバトルシステム
+ * 能力値・タイプ相性・命中率・素早さ・状態異常に基づくターン制バトルの解決
+ */
+
+import type { Pokemon, Trainer } from '@/lib/game-state/types'
+import type { PokemonType } from './PokemonDatabase'
+import { pokemonDatabase } from './PokemonDatabase'
+import type { PokemonCondition } from './PokemonCaptureSystem'
+import { gameRandom, type GameRandom } from '@/lib/game-logic/random-system'
+import { getMoveDefinition, getMovesByType, getMovePP } from '@/lib/static-data/moves'
+import { getLearnset, getMovesKnownAtLevel } from '@/lib/static-data/learnsets'
+
+export type BattleStatusEffect = NonNullable<PokemonCondition['statusEffect']>
+export type BattleSide = 'trainer' | 'wild'
+
+export interface BattleStats {
+  attack: number
+  defense: number
+  specialAttack: number
+  specialDefense: number
+  speed: number
+}
+
+// バトルに必要なポケモンの項目（捕獲前の生成データも受け付ける）
+export type BattlePokemon = Pick<
+  Pokemon,
+  'speciesId' | 'name' | 'nameJa' | 'level' | 'hp' | 'maxHp' |
+  'attack' | 'defense' | 'specialAttack' | 'specialDefense' | 'speed' | 'moves'
+>
+
+export interface BattleCombatant {
+  name: string
+  level: number
+  types: PokemonType[]
+  stats: BattleStats
+  currentHp: number
+  maxHp: number
+  moves: string[]
+  pp: Record<string, number> // 技ごとの残りPP
+  statusEffect?: BattleStatusEffect
+}
+
+export interface BattleMove {
+  name: string
+  type: PokemonType
+  category: 'physical' | 'special' | 'status'
+  power: number
+  accuracy: number // 0-100
+  priority: number
+  statusEffect?: BattleStatusEffect
+  statusChance?: number // 0.0 to 1.0
+}
+
+export interface MoveOutcome {
+  attacker: BattleSide
+  move: string
+  executed: boolean // 状態異常で行動できなかった場合は false
+  hit: boolean
+  damage: number
+  effectiveness: number
+  stab: boolean
+  critical: boolean
+  statusInflicted?: BattleStatusEffect
+  messages: string[]
+}
+
+export interface BattleTurnResult {
+  order: BattleSide[]
+  outcomes: MoveOutcome[]
+  statusDamage: Record<BattleSide, number>
+  messages: string[]
+  fainted?: BattleSide
+}
+
+export interface BattleSimulationOptions {
+  maxTurns?: number
+  targetHpRatio?: number // 野生ポケモンのHPがこの割合以下になったら終了（捕獲前の弱らせ）
+}
+
+export interface BattleSimulationResult {
+  outcome: 'weakened' | 'wild_fainted' | 'trainer_fainted' | 'timeout'
+  turns: number
+  trainer: BattleCombatant
+  wild: BattleCombatant
+  damageDealt: number
+  damageTaken: number
+  log: string[]
+}
+
+const DEFAULT_IV = 15
+const DEFAULT_MAX_TURNS = 20
+const PARTNER_BASE_STAT = 55
+const STRUGGLE_MOVE = 'わるあがき'
+const FALLBACK_PP = 20
+const STAB_MULTIPLIER = 1.5
+const CRITICAL_CHANCE = 1 / 24
+const CRITICAL_MULTIPLIER = 1.5
+
+const FALLBACK_MOVE: Omit<BattleMove, 'name'> = {
+  type: 'normal',
+  category: 'physical',
+  power: 40,
+  accuracy: 100,
+  priority: 0
+}
+
+// 状態異常にならないタイプ
+const STATUS_IMMUNITIES: Record<BattleStatusEffect, PokemonType[]> = {
+  burn: ['fire'],
+  paralysis: ['electric'],
+  freeze: ['ice'],
+  poison: ['poison', 'steel'],
+  sleep: []
+}
+
+/**
+ * ポケモンバトルシステム
+ */
+export class PokemonBattleSystem {
+  private static instance: PokemonBattleSystem
+
+  private constructor() {}
+
+  static getInstance(): PokemonBattleSystem {
+    if (!PokemonBattleSystem.instance) {
+      PokemonBattleSystem.instance = new PokemonBattleSystem()
+    }
+    return PokemonBattleSystem.instance
+  }
+
+  /**
+   * 技データを取得（未登録の技はノーマルタイプの物理技として扱う）
+   */
+  getMove(name: string): BattleMove {
+    const definition = getMoveDefinition(name)
+    if (!definition) return { name, ...FALLBACK_MOVE }
+
+    return {
+      name: definition.nameJa,
+      type: definition.type,
+      category: definition.category,
+      power: definition.power ?? 0,
+      accuracy: definition.accuracy,
+      priority: definition.priority ?? 0,
+      statusEffect: definition.statusEffect?.condition,
+      statusChance: definition.statusEffect?.chance
+    }
+  }
+
+  /**
+   * PPが残っている技（全て使い切った場合はわるあがき）
+   */
+  getUsableMoves(combatant: BattleCombatant): string[] {
+    const usable = combatant.moves.filter(move => (combatant.pp[move] ?? 1) > 0)
+    return usable.length > 0 ? usable : [STRUGGLE_MOVE]
+  }
+
+  /**
+   * 手持ちポケモンからバトル参加者を作成
+   */
+  createCombatantFromPokemon(pokemon: BattlePokemon): BattleCombatant {
+    const species = pokemonDatabase.getSpecies(pokemon.speciesId)
+
+    return {
+      name: pokemon.nameJa || pokemon.name,
+      level: pokemon.level,
+      types: species?.types || ['normal'],
+      stats: {
+        attack: pokemon.attack,
+        defense: pokemon.defense,
+        specialAttack: pokemon.specialAttack,
+        specialDefense: pokemon.specialDefense,
+        speed: pokemon.speed
+      },
+      currentHp: pokemon.hp,
+      maxHp: pokemon.maxHp,
+      ...this.createMoveSet(pokemon.moves)
+    }
+  }
+
+  /**
+   * 手持ちを持たないトレーナーの相棒ポケモンを作成（バトルスキルとレベルで強さが決まる）
+   */
+  createTrainerPartner(trainer: Pick<Trainer, 'name' | 'level' | 'skills'>): BattleCombatant {
+    const level = Math.min(100, 5 + trainer.level * 2 + trainer.skills.battle)
+    const base = PARTNER_BASE_STAT + trainer.skills.battle * 3
+    const maxHp = this.calculateStat(base, DEFAULT_IV, level, true)
+    const stat = this.calculateStat(base, DEFAULT_IV, level, false)
+
+    return {
+      name: `${trainer.name}の相棒`,
+      level,
+      types: ['normal'],
+      stats: { attack: stat, defense: stat, specialAttack: stat, specialDefense: stat, speed: stat },
+      currentHp: maxHp,
+      maxHp,
+      ...this.createMoveSet(['たいあたり', 'でんこうせっか'])
+    }
+  }
+
+  /**
+   * 種族値から野生ポケモンのバトル参加者を作成
+   */
+  createWildCombatant(
+    species: { nameJa: string; types: PokemonType[]; baseStats: Record<keyof Pokemon['ivs'], number> },
+    level: number,
+    moves: string[],
+    ivs?: Partial<Pokemon['ivs']>
+  ): BattleCombatant {
+    const stat = (key: keyof Pokemon['ivs']) =>
+      this.calculateStat(species.baseStats[key], ivs?.[key] ?? DEFAULT_IV, level, key === 'hp')
+    const maxHp = stat('hp')
+
+    return {
+      name: species.nameJa,
+      level,
+      types: species.types.length > 0 ? [...species.types] : ['normal'],
+      stats: {
+        attack: stat('attack'),
+        defense: stat('defense'),
+        specialAttack: stat('specialAttack'),
+        specialDefense: stat('specialDefense'),
+        speed: stat('speed')
+      },
+      currentHp: maxHp,
+      maxHp,
+      ...this.createMoveSet(moves)
+    }
+  }
+
+  /**
+   * 野生ポケモンの技を生成
+   * 習得技が定義された種族はレベルまでに覚える技、それ以外はタイプ一致技（レベルに応じた威力まで）
+   */
+  generateWildMoves(types: PokemonType[], level: number, speciesId?: number): string[] {
+    if (speciesId !== undefined && getLearnset(speciesId).length > 0) {
+      const known = getMovesKnownAtLevel(speciesId, level)
+      if (known.length > 0) return known
+    }
+
+    const maxPower = 40 + level * 2
+    const moves = ['たいあたり']
+
+    types.forEach(type => {
+      getMovesByType(type)
+        .filter(move => move.category !== 'status' && (move.power ?? 0) <= maxPower)
+        .sort((a, b) => (b.power ?? 0) - (a.power ?? 0))
+        .slice(0, 2)
+        .forEach(move => {
+          if (!moves.includes(move.nameJa)) moves.push(move.nameJa)
+        })
+    })
+
+    return moves.slice(0, 4)
+  }
+
+  /**
+   * 技タイプの防御側に対する倍率（複合タイプは積）
+   */
+  getTypeMultiplier(moveType: PokemonType, defenderTypes: PokemonType[]): number {
+    return defenderTypes.reduce(
+      (multiplier, type) => multiplier * pokemonDatabase.getTypeEffectiveness(moveType, type),
+      1
+    )
+  }
+
+  /**
+   * ダメージ計算
+   */
+  calculateDamage(
+    attacker: BattleCombatant,
+    defender: BattleCombatant,
+    move: BattleMove,
+    random: GameRandom = gameRandom
+  ): { damage: number; effectiveness: number; stab: boolean; critical: boolean } {
+    const effectiveness = this.getTypeMultiplier(move.type, defender.types)
+    const stab = attacker.types.includes(move.type)
+
+    if (move.category === 'status' || move.power <= 0 || effectiveness === 0) {
+      return { damage: 0, effectiveness, stab, critical: false }
+    }
+
+    const physical = move.category === 'physical'
+    const attack = physical ? attacker.stats.attack : attacker.stats.specialAttack
+    const defense = Math.max(1, physical ? defender.stats.defense : defender.stats.specialDefense)
+
+    const base = Math.floor(Math.floor(Math.floor(2 * attacker.level / 5 + 2) * move.power * attack / defense) / 50) + 2
+    const critical = random.chance(CRITICAL_CHANCE)
+
+    let modifier = random.range(0.85, 1.0) * effectiveness
+    if (stab) modifier *= STAB_MULTIPLIER
+    if (critical) modifier *= CRITICAL_MULTIPLIER
+    if (physical && attacker.statusEffect === 'burn') modifier *= 0.5
+
+    return {
+      damage: Math.max(1, Math.floor(base * modifier)),
+      effectiveness,
+      stab,
+      critical
+    }
+  }
+
+  /**
+   * 素早さ（まひ状態は半減）
+   */
+  getEffectiveSpeed(combatant: BattleCombatant): number {
+    return combatant.statusEffect === 'paralysis'
+      ? Math.floor(combatant.stats.speed / 2)
+      : combatant.stats.speed
+  }
+
+  /**
+   * 行動順を決定（技の優先度 → 素早さ → 同速はランダム）
+   */
+  determineTurnOrder(
+    trainer: BattleCombatant,
+    wild: BattleCombatant,
+    trainerMove?: string,
+    wildMove?: string,
+    random: GameRandom = gameRandom
+  ): BattleSide[] {
+    const trainerPriority = trainerMove ? this.getMove(trainerMove).priority : 0
+    const wildPriority = wildMove ? this.getMove(wildMove).priority : 0
+
+    if (trainerPriority !== wildPriority) {
+      return trainerPriority > wildPriority ? ['trainer', 'wild'] : ['wild', 'trainer']
+    }
+
+    const trainerSpeed = this.getEffectiveSpeed(trainer)
+    const wildSpeed = this.getEffectiveSpeed(wild)
+
+    if (trainerSpeed === wildSpeed) {
+      return random.chance(0.5) ? ['trainer', 'wild'] : ['wild', 'trainer']
+    }
+
+    return trainerSpeed > wildSpeed ? ['trainer', 'wild'] : ['wild', 'trainer']
+  }
+
+  /**
+   * 技を実行（防御側のHP・状態異常を更新）
+   */
+  executeMove(
+    attacker: BattleCombatant,
+    defender: BattleCombatant,
+    moveName: string,
+    side: BattleSide,
+    random: GameRandom = gameRandom
+  ): MoveOutcome {
+    const usable = this.getUsableMoves(attacker)
+    const move = this.getMove(usable.includes(moveName) ? moveName : usable[0])
+    const outcome: MoveOutcome = {
+      attacker: side,
+      move: move.name,
+      executed: false,
+      hit: false,
+      damage: 0,
+      effectiveness: 1,
+      stab: false,
+      critical: false,
+      messages: []
+    }
+
+    if (!this.canAct(attacker, outcome.messages, random)) {
+      return outcome
+    }
+
+    outcome.executed = true
+    if (attacker.pp[move.name] !== undefined) {
+      attacker.pp[move.name] -= 1
+    }
+    outcome.messages.push(`${attacker.name}の${move.name}！`)
+
+    if (!random.chance(move.accuracy / 100)) {
+      outcome.messages.push('しかし攻撃は外れた！')
+      return outcome
+    }
+
+    outcome.hit = true
+
+    if (move.category !== 'status') {
+      const result = this.calculateDamage(attacker, defender, move, random)
+      outcome.damage = Math.min(defender.currentHp, result.damage)
+      outcome.effectiveness = result.effectiveness
+      outcome.stab = result.stab
+      outcome.critical = result.critical
+      defender.currentHp -= outcome.damage
+
+      if (result.effectiveness === 0) {
+        outcome.messages.push(`${defender.name}には効果がないようだ...`)
+        return outcome
+      }
+      if (result.critical) outcome.messages.push('急所に当たった！')
+      if (result.effectiveness > 1) outcome.messages.push('効果はばつぐんだ！')
+      if (result.effectiveness < 1) outcome.messages.push('効果はいまひとつのようだ...')
+      outcome.messages.push(`${defender.name}に${outcome.damage}のダメージ！`)
+    }
+
+    if (move.statusEffect && defender.currentHp > 0 && random.chance(move.statusChance ?? 1)) {
+      if (this.inflictStatus(defender, move.statusEffect)) {
+        outcome.statusInflicted = move.statusEffect
+        outcome.messages.push(`${defender.name}は${this.getStatusLabel(move.statusEffect)}状態になった！`)
+      }
+    } else if (move.category === 'status' && !move.statusEffect) {
+      outcome.messages.push(`${defender.name}の様子をうかがっている`)
+    }
+
+    return outcome
+  }
+
+  /**
+   * 状態異常を付与（既に状態異常・タイプ免疫の場合は失敗）
+   */
+  inflictStatus(target: BattleCombatant, status: BattleStatusEffect): boolean {
+    if (target.statusEffect) return false
+    if (STATUS_IMMUNITIES[status].some(type => target.types.includes(type))) return false
+
+    target.statusEffect = status
+    return true
+  }
+
+  /**
+   * ターン終了時の状態異常ダメージ（やけど 1/16・どく 1/8）
+   */
+  applyEndOfTurnStatus(combatant: BattleCombatant, messages: string[] = []): number {
+    if (combatant.currentHp <= 0) return 0
+
+    let fraction = 0
+    if (combatant.statusEffect === 'burn') fraction = 1 / 16
+    if (combatant.statusEffect === 'poison') fraction = 1 / 8
+    if (fraction === 0) return 0
+
+    const damage = Math.min(combatant.currentHp, Math.max(1, Math.floor(combatant.maxHp * fraction)))
+    combatant.currentHp -= damage
+    messages.push(`${combatant.name}は${this.getStatusLabel(combatant.statusEffect!)}のダメージを受けている！`)
+
+    return damage
+  }
+
+  /**
+   * 1ターンを解決（技を選ばなかった側は行動しない）
+   */
+  resolveTurn(
+    trainer: BattleCombatant,
+    wild: BattleCombatant,
+    trainerMove?: string,
+    wildMove?: string,
+    random: GameRandom = gameRandom
+  ): BattleTurnResult {
+    const order = this.determineTurnOrder(trainer, wild, trainerMove, wildMove, random)
+    const result: BattleTurnResult = {
+      order,
+      outcomes: [],
+      statusDamage: { trainer: 0, wild: 0 },
+      messages: []
+    }
+
+    for (const side of order) {
+      const attacker = side === 'trainer' ? trainer : wild
+      const defender = side === 'trainer' ? wild : trainer
+      const moveName = side === 'trainer' ? trainerMove : wildMove
+
+      if (!moveName || attacker.currentHp <= 0) continue
+
+      const outcome = this.executeMove(attacker, defender, moveName, side, random)
+      result.outcomes.push(outcome)
+      result.messages.push(...outcome.messages)
+
+      if (defender.currentHp <= 0) {
+        result.fainted = side === 'trainer' ? 'wild' : 'trainer'
+        result.messages.push(`${defender.name}は倒れた！`)
+        return result
+      }
+    }
+
+    result.statusDamage.trainer = this.applyEndOfTurnStatus(trainer, result.messages)
+    result.statusDamage.wild = this.applyEndOfTurnStatus(wild, result.messages)
+
+    if (trainer.currentHp <= 0) {
+      result.fainted = 'trainer'
+      result.messages.push(`${trainer.name}は倒れた！`)
+    } else if (wild.currentHp <= 0) {
+      result.fainted = 'wild'
+      result.messages.push(`${wild.name}は倒れた！`)
+    }
+
+    return result
+  }
+
+  /**
+   * 技を選択
+   * preserveTarget が true の場合は相手を倒さない範囲で最大ダメージの技を選ぶ（捕獲用）
+   */
+  selectMove(attacker: BattleCombatant, defender: BattleCombatant, preserveTarget: boolean = false): string {
+    const candidates = this.getUsableMoves(attacker).map(name => {
+      const move = this.getMove(name)
+      const expectedDamage = this.estimateDamage(attacker, defender, move)
+      return { name, move, expectedDamage }
+    })
+
+    if (preserveTarget) {
+      // 状態異常は捕獲率を上げるため、相手が無傷の状態異常なら優先
+      const statusMove = candidates.find(c =>
+        c.move.category === 'status' && c.move.statusEffect && !defender.statusEffect
+      )
+      if (statusMove) return statusMove.name
+
+      const safe = candidates
+        .filter(c => c.expectedDamage > 0 && c.expectedDamage < defender.currentHp)
+        .sort((a, b) => b.expectedDamage - a.expectedDamage)
+      if (safe.length > 0) return safe[0].name
+
+      const weakest = candidates
+        .filter(c => c.expectedDamage > 0)
+        .sort((a, b) => a.expectedDamage - b.expectedDamage)
+      if (weakest.length > 0) return weakest[0].name
+    }
+
+    const strongest = [...candidates].sort((a, b) => b.expectedDamage - a.expectedDamage)
+    return strongest[0]?.name || STRUGGLE_MOVE
+  }
+
+  /**
+   * 野生ポケモンの技選択（ダメージ技から無作為に選ぶ）
+   */
+  selectWildMove(wild: BattleCombatant, random: GameRandom = gameRandom): string {
+    const usable = this.getUsableMoves(wild)
+    const damaging = usable.filter(name => this.getMove(name).category !== 'status')
+    return random.choice(damaging.length > 0 ? damaging : usable)
+  }
+
+  /**
+   * バトルを自動で進行
+   * targetHpRatio 指定時は野生ポケモンを倒さないように弱らせる
+   */
+  simulateBattle(
+    trainer: BattleCombatant,
+    wild: BattleCombatant,
+    options: BattleSimulationOptions = {},
+    random: GameRandom = gameRandom
+  ): BattleSimulationResult {
+    const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS
+    const targetHpRatio = options.targetHpRatio
+    const trainerSide = this.cloneCombatant(trainer)
+    const wildSide = this.cloneCombatant(wild)
+    const log: string[] = [`野生の${wildSide.name}が現れた！`, `ゆけっ！${trainerSide.name}！`]
+
+    let damageDealt = 0
+    let damageTaken = 0
+    let turns = 0
+    let outcome: BattleSimulationResult['outcome'] = 'timeout'
+
+    while (turns < maxTurns) {
+      if (targetHpRatio !== undefined && wildSide.currentHp / wildSide.maxHp <= targetHpRatio) {
+        outcome = 'weakened'
+        break
+      }
+
+      turns++
+      const trainerMove = this.selectMove(trainerSide, wildSide, targetHpRatio !== undefined)
+      const wildMove = this.selectWildMove(wildSide, random)
+      const turn = this.resolveTurn(trainerSide, wildSide, trainerMove, wildMove, random)
+
+      turn.outcomes.forEach(o => {
+        if (o.attacker === 'trainer') damageDealt += o.damage
+        else damageTaken += o.damage
+      })
+      damageDealt += turn.statusDamage.wild
+      damageTaken += turn.statusDamage.trainer
+      log.push(...turn.messages)
+
+      if (turn.fainted) {
+        outcome = turn.fainted === 'wild' ? 'wild_fainted' : 'trainer_fainted'
+        break
+      }
+    }
+
+    if (outcome === 'timeout' && targetHpRatio !== undefined && wildSide.currentHp / wildSide.maxHp <= targetHpRatio) {
+      outcome = 'weakened'
+    }
+
+    return {
+      outcome,
+      turns,
+      trainer: trainerSide,
+      wild: wildSide,
+      damageDealt,
+      damageTaken,
+      log
+    }
+  }
+
+  /**
+   * バトル参加者を複製（状態を変更せずに続きを計算するため）
+   */
+  cloneCombatant(combatant: BattleCombatant): BattleCombatant {
+    return {
+      ...combatant,
+      types: [...combatant.types],
+      stats: { ...combatant.stats },
+      moves: [...combatant.moves],
+      pp: { ...combatant.pp }
+    }
+  }
+
+  /**
+   * プライベートヘルパーメソッド
+   */
+  private calculateStat(base: number, iv: number, level: number, isHp: boolean): number {
+    const value = Math.floor((2 * base + iv) * level / 100)
+    return isHp ? value + level + 10 : value + 5
+  }
+
+  private canAct(combatant: BattleCombatant, messages: string[], random: GameRandom): boolean {
+    switch (combatant.statusEffect) {
+      case 'sleep':
+        if (random.chance(1 / 3)) {
+          combatant.statusEffect = undefined
+          messages.push(`${combatant.name}は目を覚ました！`)
+          return true
+        }
+        messages.push(`${combatant.name}はぐうぐう眠っている`)
+        return false
+      case 'freeze':
+        if (random.chance(0.2)) {
+          combatant.statusEffect = undefined
+          messages.push(`${combatant.name}の氷がとけた！`)
+          return true
+        }
+        messages.push(`${combatant.name}は凍ってしまって動けない！`)
+        return false
+      case 'paralysis':
+        if (random.chance(0.25)) {
+          messages.push(`${combatant.name}は体がしびれて動けない！`)
+          return false
+        }
+        return true
+      default:
+        return true
+    }
+  }
+
+  private estimateDamage(attacker: BattleCombatant, defender: BattleCombatant, move: BattleMove): number {
+    if (move.category === 'status' || move.power <= 0) return 0
+
+    const physical = move.category === 'physical'
+    const attack = physical ? attacker.stats.attack : attacker.stats.specialAttack
+    const defense = Math.max(1, physical ? defender.stats.defense : defender.stats.specialDefense)
+    const base = Math.floor(Math.floor(Math.floor(2 * attacker.level / 5 + 2) * move.power * attack / defense) / 50) + 2
+    const stab = attacker.types.includes(move.type) ? STAB_MULTIPLIER : 1
+
+    return base * 0.925 * stab * this.getTypeMultiplier(move.type, defender.types) * (move.accuracy / 100)
+  }
+
+  private getStatusLabel(status: BattleStatusEffect): string {
+    const labels: Record<BattleStatusEffect, string> = {
+      sleep: 'ねむり',
+      paralysis: 'まひ',
+      freeze: 'こおり',
+      burn: 'やけど',
+      poison: 'どく'
+    }
+    return labels[status]
+  }
+
+  private createMoveSet(moves: string[]): Pick<BattleCombatant, 'moves' | 'pp'> {
+    const moveSet = moves.length > 0 ? [...moves] : ['たいあたり']
+    const pp: Record<string, number> = {}
+    moveSet.forEach(move => {
+      pp[move] = getMovePP(move) || FALLBACK_PP
+    })
+    return { moves: moveSet, pp }
+  }
+}
+
+// シングルトンインスタンス
+export const pokemonBattleSystem = PokemonBattleSystem.getInstance()
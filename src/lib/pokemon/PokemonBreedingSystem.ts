@@ -1,7 +1,16 @@
 import { PokemonInstance, PokemonSpecies } from '../schemas/pokemon';
-import { GameContext } from '../game-state/types';
+import { GameContext, BreedingState } from '../game-state/types';
+import { getStaffAbilityBonus } from '../game-state/skills';
 import { pokemonGenerator } from './PokemonGenerator';
 import { pokemonDatabase } from './PokemonDatabase';
+import {
+  rollOffspring,
+  calculateOffspringDistribution,
+  getHatchlingMoves,
+  type InheritanceContext,
+  type OffspringDistribution
+} from './BreedingInheritance';
+import { GameRandom, hashSeed } from '../game-logic/random-system';
 
 export interface BreedingPair {
   parent1: PokemonInstance;
@@ -39,6 +48,7 @@ export interface PokemonEgg {
   };
   isShiny: boolean;
   rarity: 'common' | 'uncommon' | 'rare' | 'legendary';
+  carrierId?: string; // trainer carrying the egg (gains steps on expeditions)
 }
 
 export interface BreedingResult {
@@ -67,6 +77,7 @@ export class PokemonBreedingSystem {
   private activeBreedingSessions: Map<string, BreedingSession>;
   private eggInventory: Map<string, PokemonEgg>;
   private breedingCompatibility: Map<number, Map<number, number>>;
+  private changeListeners: Set<() => void> = new Set();
 
   constructor() {
     this.activeBreedingSessions = new Map();
@@ -157,7 +168,8 @@ export class PokemonBreedingSystem {
       };
     }
 
-    if ((pokemon1.friendship || 50) < minHappiness || (pokemon2.friendship || 50) < minHappiness) {
+    // Pokemon without tracked friendship are not penalised
+    if ((pokemon1.friendship ?? minHappiness) < minHappiness || (pokemon2.friendship ?? minHappiness) < minHappiness) {
       return {
         parent1: pokemon1,
         parent2: pokemon2,
@@ -290,6 +302,7 @@ export class PokemonBreedingSystem {
     };
 
     this.activeBreedingSessions.set(session.id, session);
+    this.notifyChange();
 
     return {
       success: true,
@@ -297,9 +310,8 @@ export class PokemonBreedingSystem {
     };
   }
 
-  updateBreedingSessions(): BreedingSession[] {
+  updateBreedingSessions(currentTime: number = Date.now()): BreedingSession[] {
     const completedSessions: BreedingSession[] = [];
-    const currentTime = Date.now();
 
     this.activeBreedingSessions.forEach((session, sessionId) => {
       if (session.status !== 'active') return;
@@ -319,6 +331,10 @@ export class PokemonBreedingSystem {
       }
     });
 
+    if (completedSessions.length > 0) {
+      this.notifyChange();
+    }
+
     return completedSessions;
   }
 
@@ -343,8 +359,9 @@ export class PokemonBreedingSystem {
       };
     }
 
-    // Generate egg
-    const egg = this.generateEgg(parent1, parent2, session);
+    // Generate egg (breeding abilities of the available staff improve inheritance)
+    const breedingQuality = getStaffAbilityBonus(context.gameState.trainers, 'breedingQuality');
+    const egg = this.generateEgg(parent1, parent2, session, breedingQuality);
     this.eggInventory.set(egg.id, egg);
 
     // Mark session as completed
@@ -360,6 +377,8 @@ export class PokemonBreedingSystem {
       this.activeBreedingSessions.delete(sessionId);
     }, 5 * 60 * 1000); // 5 minutes
 
+    this.notifyChange();
+
     return {
       success: true,
       egg,
@@ -370,28 +389,20 @@ export class PokemonBreedingSystem {
   private generateEgg(
     parent1: PokemonInstance,
     parent2: PokemonInstance,
-    session: BreedingSession
+    session: BreedingSession,
+    breedingQuality: number = 0
   ): PokemonEgg {
-    const possibleOffspring = this.determinePossibleOffspring(parent1, parent2);
-    
-    // Determine egg species (70% parent1, 25% parent2, 5% baby form)
-    let speciesId: number;
-    const rand = Math.random();
-    if (rand < 0.05 && possibleOffspring.length > 2) {
-      speciesId = possibleOffspring[0]; // Baby form
-    } else if (rand < 0.75) {
-      speciesId = parent1.speciesId;
-    } else {
-      speciesId = parent2.speciesId;
-    }
-
-    // Calculate inheritance
-    const inheritedTraits = this.calculateInheritance(parent1, parent2);
-    
-    // Determine if shiny (increased chance with compatible parents)
-    const compatibility = this.checkBreedingCompatibility(parent1, parent2).compatibility;
-    const shinyChance = compatibility > 80 ? 0.02 : 0.005; // 2% or 0.5%
-    const isShiny = Math.random() < shinyChance;
+    // Inheritance follows the documented rules in BreedingInheritance, seeded by the session
+    // so collecting the same session always yields the same egg
+    const random = new GameRandom(hashSeed(session.id));
+    const offspring = rollOffspring(parent1, parent2, this.getInheritanceContext(parent1, parent2, breedingQuality), random);
+    const speciesId = offspring.speciesId;
+    const inheritedTraits: PokemonEgg['inheritedTraits'] = {
+      ivs: offspring.ivs,
+      nature: offspring.nature,
+      moves: offspring.eggMoves
+    };
+    const isShiny = offspring.isShiny;
 
     // Calculate hatch time (based on species rarity and egg steps)
     const species = this.getSpeciesData(speciesId);
@@ -415,51 +426,27 @@ export class PokemonBreedingSystem {
     return egg;
   }
 
-  private calculateInheritance(
+  // Probability distribution of the offspring (species, IVs, nature, shiny) for planning
+  calculateOffspring(
     parent1: PokemonInstance,
-    parent2: PokemonInstance
-  ): PokemonEgg['inheritedTraits'] {
-    const inheritedTraits: PokemonEgg['inheritedTraits'] = {
-      ivs: {},
-      moves: [],
-      abilities: []
-    };
-
-    // IV inheritance - each stat has 50% chance to inherit from either parent
-    const statKeys = ['hp', 'attack', 'defense', 'specialAttack', 'specialDefense', 'speed'] as const;
-    for (const stat of statKeys) {
-      if (Math.random() < 0.5) {
-        inheritedTraits.ivs[stat] = parent1.ivs[stat];
-      } else {
-        inheritedTraits.ivs[stat] = parent2.ivs[stat];
-      }
-    }
-
-    // Perfect IV inheritance (small chance for 3-5 perfect IVs)
-    const perfectChance = Math.random();
-    if (perfectChance < 0.02) { // 2% chance for exceptional inheritance
-      const numPerfect = Math.floor(Math.random() * 3) + 3; // 3-5 perfect IVs
-      const perfectStats = statKeys.slice().sort(() => Math.random() - 0.5).slice(0, numPerfect);
-      for (const stat of perfectStats) {
-        inheritedTraits.ivs[stat] = 31;
-      }
-    }
-
-    // Nature inheritance (20% chance from either parent)
-    if (Math.random() < 0.2) {
-      inheritedTraits.nature = Math.random() < 0.5 ? parent1.nature : parent2.nature;
-    }
-
-    // Move inheritance
-    const parent1Moves = parent1.moves || [];
-    const parent2Moves = parent2.moves || [];
-    const allParentMoves = [...parent1Moves, ...parent2Moves];
-    
-    // Inherit up to 2 moves from parents
-    const inheritedMoves = Array.from(new Set(allParentMoves)).slice(0, 2);
-    inheritedTraits.moves = inheritedMoves;
+    parent2: PokemonInstance,
+    breedingQuality: number = 0
+  ): OffspringDistribution {
+    return calculateOffspringDistribution(parent1, parent2, this.getInheritanceContext(parent1, parent2, breedingQuality));
+  }
 
-    return inheritedTraits;
+  private getInheritanceContext(
+    parent1: PokemonInstance,
+    parent2: PokemonInstance,
+    breedingQuality: number
+  ): InheritanceContext {
+    const possibleOffspring = this.determinePossibleOffspring(parent1, parent2);
+    return {
+      breedingQuality,
+      compatibility: this.checkBreedingCompatibility(parent1, parent2).compatibility,
+      babySpeciesId: possibleOffspring.find(id => id !== parent1.speciesId && id !== parent2.speciesId),
+      natures: pokemonGenerator.getAllNatures().map(nature => nature.name)
+    };
   }
 
   private getEggSteps(rarity: PokemonInstance['rarity']): number {
@@ -498,9 +485,10 @@ export class PokemonBreedingSystem {
     const newPokemon = await pokemonGenerator.generatePokemon({
       level: 1,
       forceShiny: egg.isShiny,
-      // customIVs: egg.inheritedTraits.ivs, // 部分的なIVsは直接使用できないため、コメントアウト
+      inheritedIVs: egg.inheritedTraits.ivs,
       customNature: egg.inheritedTraits.nature,
-      customMoves: egg.inheritedTraits.moves,
+      trainer: context.gameState.player.name,
+      customMoves: getHatchlingMoves(egg.speciesId, egg.inheritedTraits.moves),
       speciesId: typeof species.id === 'string' ? parseInt(species.id) : species.id,
       ...species
     });
@@ -514,6 +502,7 @@ export class PokemonBreedingSystem {
 
     // Remove egg from inventory
     this.eggInventory.delete(eggId);
+    this.notifyChange();
 
     return {
       success: true,
@@ -527,12 +516,16 @@ export class PokemonBreedingSystem {
     return Object.values(ivs).filter(iv => iv === 31).length;
   }
 
-  incubateEggs(steps: number): PokemonEgg[] {
+  // When carrierIds is given, only eggs carried by those trainers gain steps
+  incubateEggs(steps: number, carrierIds?: string[]): PokemonEgg[] {
     const readyToHatch: PokemonEgg[] = [];
+    let incubated = false;
 
     Array.from(this.eggInventory.values()).forEach(egg => {
+      if (carrierIds && (!egg.carrierId || !carrierIds.includes(egg.carrierId))) return;
       if (egg.currentSteps < egg.stepsRequired) {
         egg.currentSteps = Math.min(egg.stepsRequired, egg.currentSteps + steps);
+        incubated = true;
         
         if (egg.currentSteps >= egg.stepsRequired) {
           readyToHatch.push(egg);
@@ -540,9 +533,22 @@ export class PokemonBreedingSystem {
       }
     });
 
+    if (incubated) {
+      this.notifyChange();
+    }
+
     return readyToHatch;
   }
 
+  setEggCarrier(eggId: string, trainerId?: string): boolean {
+    const egg = this.eggInventory.get(eggId);
+    if (!egg) return false;
+
+    egg.carrierId = trainerId;
+    this.notifyChange();
+    return true;
+  }
+
   private calculateBreedingRewards(compatibility: number): BreedingResult['bonusRewards'] {
     const baseExp = 100;
     const expBonus = Math.floor(baseExp * (compatibility / 100));
@@ -564,8 +570,7 @@ export class PokemonBreedingSystem {
   }
 
   private getPokemonById(pokemonId: string, context: GameContext): PokemonInstance | null {
-    // This would integrate with the game state to find the Pokemon
-    return null;
+    return context.gameState.pokemon.find(pokemon => pokemon.id === pokemonId) ?? null;
   }
 
   private getSpeciesData(speciesId: number): PokemonSpecies {
@@ -600,6 +605,12 @@ export class PokemonBreedingSystem {
       .filter(session => session.status === 'active');
   }
 
+  // Sessions still at the daycare (in progress or waiting for the egg to be collected)
+  getBreedingSessions(): BreedingSession[] {
+    return Array.from(this.activeBreedingSessions.values())
+      .filter(session => session.status === 'active' || session.status === 'ready');
+  }
+
   getEggInventory(): PokemonEgg[] {
     return Array.from(this.eggInventory.values());
   }
@@ -609,14 +620,55 @@ export class PokemonBreedingSystem {
       .filter(egg => egg.currentSteps >= egg.stepsRequired);
   }
 
+  // Ready sessions can be cancelled too, so a pair whose egg can no longer be collected is not stuck
   cancelBreeding(sessionId: string): boolean {
     const session = this.activeBreedingSessions.get(sessionId);
-    if (session && session.status === 'active') {
+    if (session && (session.status === 'active' || session.status === 'ready')) {
       session.status = 'cancelled';
+      this.notifyChange();
       return true;
     }
     return false;
   }
+
+  // Persistence (synced into GameData by the game state manager)
+  exportState(): BreedingState {
+    return {
+      sessions: Array.from(this.activeBreedingSessions.values())
+        .filter(session => session.status === 'active' || session.status === 'ready')
+        .map(session => ({ ...session })),
+      eggs: Array.from(this.eggInventory.values()).map(egg => this.cloneEgg(egg))
+    };
+  }
+
+  // Sessions that finished while the game was closed become ready based on wall-clock time
+  restoreState(state: BreedingState, currentTime: number = Date.now()): void {
+    this.activeBreedingSessions = new Map(state.sessions.map(session => [session.id, { ...session }]));
+    this.eggInventory = new Map(state.eggs.map(egg => [egg.id, this.cloneEgg(egg)]));
+    this.updateBreedingSessions(currentTime);
+  }
+
+  private cloneEgg(egg: PokemonEgg): PokemonEgg {
+    return {
+      ...egg,
+      inheritedTraits: {
+        ...egg.inheritedTraits,
+        ivs: { ...egg.inheritedTraits.ivs },
+        moves: [...egg.inheritedTraits.moves]
+      }
+    };
+  }
+
+  addChangeListener(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener());
+  }
 }
 
 export const pokemonBreedingSystem = new PokemonBreedingSystem();
\ No newline at end of file
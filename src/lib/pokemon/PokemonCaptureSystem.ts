@@ -3,12 +3,20 @@
  * 高度な捕獲メカニクス・戦闘・成功率計算
  */
 
-import type { Pokemon, Trainer } from '@/lib/game-state/types'
+import type { Pokemon, Trainer, Item } from '@/lib/game-state/types'
 import type { PokemonSpecies } from './PokemonDatabase'
 import { pokemonDatabase } from './PokemonDatabase'
 import { pokemonGenerator, type PokemonGenerationOptions } from './PokemonGenerator'
 import { pokemonEncounterSystem, type EncounterResult } from './PokemonEncounterSystem'
 import { performanceMonitor } from '@/lib/performance/PerformanceOptimizer'
+import { gameRandom, type GameRandom } from '@/lib/game-logic/random-system'
+import {
+  pokemonBattleSystem,
+  type BattleCombatant,
+  type BattleSimulationResult,
+  type BattleStats,
+  type BattleStatusEffect
+} from './PokemonBattleSystem'
 
 export interface CaptureAttempt {
   id: string
@@ -17,6 +25,7 @@ export interface CaptureAttempt {
   captureMethod: CaptureMethod
   environment: CaptureEnvironment
   pokemonCondition: PokemonCondition
+  captureItem?: Item // 使用した捕獲補助アイテム
   timestamp: string
 }
 
@@ -88,20 +97,32 @@ export interface BattleAction {
 }
 
 export interface BattleState {
+  id: string
   turn: number
   trainerPokemon?: Pokemon
+  trainerPokemonStatus?: BattleStatusEffect
+  trainerPokemonPP?: Record<string, number>
   wildPokemon: {
     species: PokemonSpecies
+    level: number
+    stats: BattleStats
     currentHp: number
     maxHp: number
     condition: PokemonCondition
     moves: string[]
+    pp: Record<string, number>
     usedMoves: string[]
   }
   environment: CaptureEnvironment
   log: BattleLogEntry[]
 }
 
+export interface PreCaptureBattleResult {
+  battle: BattleSimulationResult
+  condition: Partial<PokemonCondition>
+  canCapture: boolean
+}
+
 export interface BattleLogEntry {
   turn: number
   actor: 'trainer' | 'wild_pokemon' | 'environment'
@@ -139,7 +160,9 @@ export class PokemonCaptureSystem {
     trainer: Trainer,
     captureMethodId: string,
     environment: CaptureEnvironment,
-    pokemonCondition?: Partial<PokemonCondition>
+    pokemonCondition?: Partial<PokemonCondition>,
+    captureItem?: Item,
+    random: GameRandom = gameRandom
   ): Promise<CaptureResult> {
     return performanceMonitor.measureAsync('pokemon_capture', async () => {
       const captureMethod = this.captureMethods.get(captureMethodId)
@@ -158,6 +181,7 @@ export class PokemonCaptureSystem {
         captureMethod,
         environment,
         pokemonCondition: condition,
+        captureItem,
         timestamp: new Date().toISOString()
       }
       
@@ -165,14 +189,14 @@ export class PokemonCaptureSystem {
       const { successRate, bonuses } = this.calculateCaptureSuccessRate(attempt)
       
       // 捕獲判定
-      const roll = Math.random()
+      const roll = random.next()
       const success = roll < successRate
       
       let result: CaptureResult
       
       if (success) {
         // 捕獲成功
-        const capturedPokemon = await this.createCapturedPokemon(pokemonSpecies, trainer, attempt)
+        const capturedPokemon = await this.createCapturedPokemon(pokemonSpecies, trainer, attempt, random)
         result = await this.handleCaptureSuccess(attempt, capturedPokemon, successRate, roll, bonuses)
       } else {
         // 捕獲失敗
@@ -193,22 +217,35 @@ export class PokemonCaptureSystem {
     wildPokemon: PokemonSpecies,
     trainer: Trainer,
     environment: CaptureEnvironment,
-    trainerPokemon?: Pokemon
+    trainerPokemon?: Pokemon,
+    wildLevel?: number,
+    random: GameRandom = gameRandom
   ): Promise<BattleState> {
     const battleId = this.generateBattleId()
     
     const wildCondition = this.generatePokemonCondition(wildPokemon, environment)
-    const wildStats = this.calculateWildPokemonStats(wildPokemon, wildCondition)
+    const level = wildLevel ?? random.integer(5, 20)
+    const wildCombatant = pokemonBattleSystem.createWildCombatant(
+      wildPokemon,
+      level,
+      pokemonBattleSystem.generateWildMoves(wildPokemon.types, level, wildPokemon.id)
+    )
     
     const battleState: BattleState = {
+      id: battleId,
       turn: 1,
-      trainerPokemon,
+      // 元のデータを変更しないようにコピーして戦う
+      trainerPokemon: trainerPokemon && { ...trainerPokemon, moves: [...trainerPokemon.moves] },
+      trainerPokemonPP: trainerPokemon && pokemonBattleSystem.createCombatantFromPokemon(trainerPokemon).pp,
       wildPokemon: {
         species: wildPokemon,
-        currentHp: wildStats.hp,
-        maxHp: wildStats.hp,
+        level,
+        stats: wildCombatant.stats,
+        currentHp: wildCombatant.currentHp,
+        maxHp: wildCombatant.maxHp,
         condition: wildCondition,
-        moves: this.generateWildPokemonMoves(wildPokemon),
+        moves: wildCombatant.moves,
+        pp: wildCombatant.pp,
         usedMoves: []
       },
       environment,
@@ -230,29 +267,67 @@ export class PokemonCaptureSystem {
   async executeBattleAction(
     battleId: string,
     action: BattleAction,
-    trainer: Trainer
+    trainer: Trainer,
+    random: GameRandom = gameRandom
   ): Promise<BattleState> {
     const battle = this.activeBattles.get(battleId)
     if (!battle) {
       throw new Error(`バトルが見つかりません: ${battleId}`)
     }
     
-    // プレイヤーアクション実行
+    // 攻撃以外のプレイヤーアクション実行
     await this.processPlayerAction(battle, action, trainer)
     
-    // 野生ポケモンのアクション
+    if (action.type === 'attack' && battle.trainerPokemon && action.moveUsed &&
+        !battle.trainerPokemon.moves.includes(action.moveUsed)) {
+      throw new Error(`${battle.trainerPokemon.nameJa}は${action.moveUsed}を覚えていません`)
+    }
+    
+    // 技の応酬（素早さ順）とターン終了時の状態異常処理
     if (battle.wildPokemon.currentHp > 0) {
-      await this.processWildPokemonAction(battle)
+      const trainerMove = action.type === 'attack' ? action.moveUsed : undefined
+      this.processBattleTurn(battle, trainerMove, random)
     }
     
-    // ターン終了処理
     battle.turn++
-    this.processEndOfTurn(battle)
     
     this.activeBattles.set(battleId, battle)
     return battle
   }
   
+  /**
+   * 捕獲前バトルを自動で行い、捕獲判定に渡すポケモンの状態を返す
+   */
+  runPreCaptureBattle(
+    wildPokemon: PokemonSpecies,
+    wildLevel: number,
+    trainer: Trainer,
+    trainerPokemon?: Pokemon,
+    targetHpRatio: number = 0.4,
+    random: GameRandom = gameRandom
+  ): PreCaptureBattleResult {
+    const trainerSide = trainerPokemon
+      ? pokemonBattleSystem.createCombatantFromPokemon(trainerPokemon)
+      : pokemonBattleSystem.createTrainerPartner(trainer)
+    const wildSide = pokemonBattleSystem.createWildCombatant(
+      wildPokemon,
+      wildLevel,
+      pokemonBattleSystem.generateWildMoves(wildPokemon.types, wildLevel, wildPokemon.id)
+    )
+    
+    const battle = pokemonBattleSystem.simulateBattle(trainerSide, wildSide, { targetHpRatio }, random)
+    
+    return {
+      battle,
+      condition: {
+        healthPercentage: battle.wild.currentHp / battle.wild.maxHp,
+        statusEffect: battle.wild.statusEffect,
+        exhaustion: Math.min(1.0, battle.turns * 0.1)
+      },
+      canCapture: battle.outcome === 'weakened'
+    }
+  }
+  
   /**
    * バトル終了
    */
@@ -322,6 +397,19 @@ export class PokemonCaptureSystem {
       }
     })
     
+    // 捕獲補助アイテム
+    const itemBoost = attempt.captureItem?.effects?.captureRateBoost
+    if (itemBoost) {
+      const itemBonus = 1 + itemBoost
+      successRate *= itemBonus
+      bonuses.push({
+        type: 'item',
+        name: attempt.captureItem!.nameJa,
+        multiplier: itemBonus,
+        description: `${attempt.captureItem!.nameJa}の効果: x${itemBonus.toFixed(2)}`
+      })
+    }
+    
     // レアリティによる基本修正
     const rarityModifier = this.getRarityModifier(pokemonSpecies.rarity)
     successRate *= rarityModifier
@@ -401,7 +489,8 @@ export class PokemonCaptureSystem {
   private async createCapturedPokemon(
     species: PokemonSpecies,
     trainer: Trainer,
-    attempt: CaptureAttempt
+    attempt: CaptureAttempt,
+    random: GameRandom
   ): Promise<Pokemon> {
     // 捕獲条件に基づいて個体値品質を調整
     let ivQuality = 0.5 // デフォルト
@@ -428,7 +517,8 @@ export class PokemonCaptureSystem {
       ivQuality: Math.min(0.95, ivQuality),
       trainer: trainer.id,
       location: attempt.environment.terrain === 'grass' ? 1 : 2,
-      captureMethod: attempt.captureMethod.name
+      captureMethod: attempt.captureMethod.name,
+      random
     }
     
     return pokemonGenerator.generatePokemon(options)
@@ -439,9 +529,6 @@ export class PokemonCaptureSystem {
    */
   private async processPlayerAction(battle: BattleState, action: BattleAction, trainer: Trainer): Promise<void> {
     switch (action.type) {
-      case 'attack':
-        await this.processAttackAction(battle, action, trainer)
-        break
       case 'capture':
         await this.processCaptureAction(battle, action, trainer)
         break
@@ -455,81 +542,134 @@ export class PokemonCaptureSystem {
   }
   
   /**
-   * 攻撃アクション処理
+   * バトルターン処理（行動順・命中・ダメージ・状態異常はバトルシステムで解決）
    */
-  private async processAttackAction(battle: BattleState, action: BattleAction, trainer: Trainer): Promise<void> {
-    if (!battle.trainerPokemon || !action.moveUsed) return
-    
-    const damage = this.calculateDamage(
-      battle.trainerPokemon,
-      battle.wildPokemon.species,
-      action.moveUsed,
-      battle.environment
+  private processBattleTurn(battle: BattleState, trainerMove: string | undefined, random: GameRandom): void {
+    const wildPokemon = battle.wildPokemon
+    const trainerSide = battle.trainerPokemon ? this.toTrainerCombatant(battle, battle.trainerPokemon) : undefined
+    const wildSide = this.toWildCombatant(battle)
+    
+    // 行動決定（簡易AI）
+    const actionType = this.determineWildPokemonAction(wildPokemon)
+    const wildMove = actionType === 'attack' && trainerSide
+      ? pokemonBattleSystem.selectWildMove(wildSide, random)
+      : undefined
+    
+    if (!trainerSide) {
+      this.attemptWildFlee(battle, actionType, random)
+      return
+    }
+    
+    const result = pokemonBattleSystem.resolveTurn(
+      trainerSide,
+      wildSide,
+      trainerMove,
+      wildMove,
+      random
+    )
+    
+    result.outcomes.forEach(outcome => {
+      if (outcome.attacker === 'wild') wildPokemon.usedMoves.push(outcome.move)
+      
+      battle.log.push({
+        turn: battle.turn,
+        actor: outcome.attacker === 'trainer' ? 'trainer' : 'wild_pokemon',
+        action: `${outcome.move}を使用`,
+        result: outcome.messages.join(' '),
+        damage: outcome.damage,
+        effect: outcome.statusInflicted
+      })
+    })
+    
+    const statusMessages = result.messages.filter(message =>
+      !result.outcomes.some(outcome => outcome.messages.includes(message))
     )
+    if (result.statusDamage.trainer + result.statusDamage.wild > 0) {
+      battle.log.push({
+        turn: battle.turn,
+        actor: 'environment',
+        action: 'end_of_turn',
+        result: statusMessages.join(' '),
+        damage: result.statusDamage.trainer + result.statusDamage.wild
+      })
+    }
     
-    battle.wildPokemon.currentHp = Math.max(0, battle.wildPokemon.currentHp - damage)
+    // 結果を反映
+    battle.trainerPokemon!.hp = trainerSide.currentHp
+    battle.trainerPokemonStatus = trainerSide.statusEffect
+    battle.trainerPokemonPP = trainerSide.pp
+    wildPokemon.currentHp = wildSide.currentHp
+    wildPokemon.pp = wildSide.pp
+    wildPokemon.condition.statusEffect = wildSide.statusEffect
     
     // HPの減少に応じて捕獲率が上がる
-    battle.wildPokemon.condition.healthPercentage = battle.wildPokemon.currentHp / battle.wildPokemon.maxHp
+    wildPokemon.condition.healthPercentage = wildPokemon.currentHp / wildPokemon.maxHp
     
     // 疲労度も上昇
-    battle.wildPokemon.condition.exhaustion = Math.min(1.0, battle.wildPokemon.condition.exhaustion + 0.1)
-    
-    battle.log.push({
-      turn: battle.turn,
-      actor: 'trainer',
-      action: `${action.moveUsed}を使用`,
-      result: `${damage}のダメージ！`,
-      damage
-    })
+    if (trainerMove) {
+      wildPokemon.condition.exhaustion = Math.min(1.0, wildPokemon.condition.exhaustion + 0.1)
+    }
     
-    if (battle.wildPokemon.currentHp === 0) {
+    if (result.fainted === 'wild') {
       battle.log.push({
         turn: battle.turn,
         actor: 'environment',
         action: 'faint',
         result: '野生ポケモンは倒れてしまった...'
       })
+    } else if (result.fainted === 'trainer') {
+      battle.log.push({
+        turn: battle.turn,
+        actor: 'environment',
+        action: 'faint',
+        result: `${trainerSide.name}は倒れてしまった...`
+      })
+    } else {
+      this.attemptWildFlee(battle, actionType, random)
     }
   }
   
   /**
-   * 野生ポケモンアクション処理
+   * 野生ポケモンの逃走判定
    */
-  private async processWildPokemonAction(battle: BattleState): Promise<void> {
-    const wildPokemon = battle.wildPokemon
+  private attemptWildFlee(battle: BattleState, actionType: 'attack' | 'flee', random: GameRandom): void {
+    if (actionType !== 'flee') return
     
-    // 行動決定（簡易AI）
-    const actionType = this.determineWildPokemonAction(wildPokemon)
+    const fleeChance = this.calculateFleeChance(battle.wildPokemon)
+    if (random.chance(fleeChance)) {
+      battle.log.push({
+        turn: battle.turn,
+        actor: 'wild_pokemon',
+        action: 'flee',
+        result: '野生ポケモンは逃げ出した！'
+      })
+      battle.wildPokemon.currentHp = 0 // バトル終了
+    }
+  }
+  
+  private toTrainerCombatant(battle: BattleState, pokemon: Pokemon): BattleCombatant {
+    const combatant = pokemonBattleSystem.createCombatantFromPokemon(pokemon)
     
-    switch (actionType) {
-      case 'attack':
-        if (battle.trainerPokemon) {
-          const move = this.selectWildPokemonMove(wildPokemon)
-          const damage = this.calculateWildDamage(wildPokemon.species, move)
-          
-          battle.log.push({
-            turn: battle.turn,
-            actor: 'wild_pokemon',
-            action: `${move}を使用`,
-            result: `${damage}のダメージ！`,
-            damage
-          })
-        }
-        break
-        
-      case 'flee':
-        const fleeChance = this.calculateFleeChance(wildPokemon)
-        if (Math.random() < fleeChance) {
-          battle.log.push({
-            turn: battle.turn,
-            actor: 'wild_pokemon',
-            action: 'flee',
-            result: '野生ポケモンは逃げ出した！'
-          })
-          battle.wildPokemon.currentHp = 0 // バトル終了
-        }
-        break
+    return {
+      ...combatant,
+      pp: { ...combatant.pp, ...battle.trainerPokemonPP },
+      statusEffect: battle.trainerPokemonStatus
+    }
+  }
+  
+  private toWildCombatant(battle: BattleState): BattleCombatant {
+    const wildPokemon = battle.wildPokemon
+    
+    return {
+      name: wildPokemon.species.nameJa,
+      level: wildPokemon.level,
+      types: wildPokemon.species.types,
+      stats: wildPokemon.stats,
+      currentHp: wildPokemon.currentHp,
+      maxHp: wildPokemon.maxHp,
+      moves: wildPokemon.moves,
+      pp: { ...wildPokemon.pp },
+      statusEffect: wildPokemon.condition.statusEffect
     }
   }
   
@@ -805,31 +945,7 @@ export class PokemonCaptureSystem {
     return `battle_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
   
-  // バトル関連のユーティリティメソッド（簡易実装）
-  private calculateWildPokemonStats(species: PokemonSpecies, condition: PokemonCondition) {
-    const level = 5 + Math.floor(Math.random() * 15) // レベル5-20
-    const hp = Math.floor((2 * species.baseStats.hp + 15) * level / 100) + level + 10
-    
-    return { hp }
-  }
-  
-  private generateWildPokemonMoves(species: PokemonSpecies): string[] {
-    // 簡易的な技生成
-    return ['たいあたり', 'なきごえ']
-  }
-  
-  private calculateDamage(attacker: Pokemon, defender: PokemonSpecies, move: string, environment: CaptureEnvironment): number {
-    // 簡易ダメージ計算
-    const baseDamage = attacker.attack * 0.4
-    const randomFactor = 0.85 + Math.random() * 0.3 // 85%-115%
-    
-    return Math.floor(baseDamage * randomFactor)
-  }
-  
-  private calculateWildDamage(species: PokemonSpecies, move: string): number {
-    return Math.floor(species.baseStats.attack * 0.3 + Math.random() * 10)
-  }
-  
+  // バトル関連のユーティリティメソッド
   private determineWildPokemonAction(wildPokemon: BattleState['wildPokemon']): 'attack' | 'flee' {
     if (wildPokemon.condition.healthPercentage < 0.3 && wildPokemon.condition.mood === 'fearful') {
       return 'flee'
@@ -838,10 +954,6 @@ export class PokemonCaptureSystem {
     return 'attack'
   }
   
-  private selectWildPokemonMove(wildPokemon: BattleState['wildPokemon']): string {
-    return wildPokemon.moves[Math.floor(Math.random() * wildPokemon.moves.length)]
-  }
-  
   private calculateFleeChance(wildPokemon: BattleState['wildPokemon']): number {
     let fleeChance = wildPokemon.species.fleeRate || 0.1
     
@@ -856,10 +968,6 @@ export class PokemonCaptureSystem {
     return Math.max(0.01, Math.min(0.8, fleeChance))
   }
   
-  private processEndOfTurn(battle: BattleState): void {
-    // ターン終了時の処理（状態異常、天候効果など）
-  }
-  
   private async processCaptureAction(battle: BattleState, action: BattleAction, trainer: Trainer): Promise<void> {
     // バトル中の捕獲試行
     battle.log.push({
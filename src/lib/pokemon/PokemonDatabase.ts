@@ -4,6 +4,7 @@
  */
 
 import type { Pokemon } from '@/lib/game-state/types'
+import { TYPE_CHART } from '@/lib/static-data/pokemon'
 
 export interface PokemonSpecies {
   id: number
@@ -179,7 +180,7 @@ export class PokemonDatabase {
    */
   getTypeEffectiveness(attackingType: PokemonType, defendingType: PokemonType): number {
     const key = `${attackingType}_${defendingType}`
-    return this.typeChart.get(key)?.effectiveness || 1.0
+    return this.typeChart.get(key)?.effectiveness ?? 1.0
   }
   
   /**
@@ -614,22 +615,11 @@ export class PokemonDatabase {
    * タイプ相性チャートの初期化
    */
   private initializeTypeChart(): void {
-    // 簡略化したタイプ相性（一部のみ実装）
-    const effectiveness = [
-      // 攻撃タイプ_防御タイプ: 効果倍率
-      { attack: 'fire', defend: 'grass', effectiveness: 2.0 },
-      { attack: 'fire', defend: 'water', effectiveness: 0.5 },
-      { attack: 'water', defend: 'fire', effectiveness: 2.0 },
-      { attack: 'water', defend: 'grass', effectiveness: 0.5 },
-      { attack: 'grass', defend: 'water', effectiveness: 2.0 },
-      { attack: 'grass', defend: 'fire', effectiveness: 0.5 },
-      { attack: 'electric', defend: 'water', effectiveness: 2.0 },
-      { attack: 'electric', defend: 'flying', effectiveness: 2.0 },
-      { attack: 'electric', defend: 'ground', effectiveness: 0.0 },
-    ]
-    
-    effectiveness.forEach(({ attack, defend, effectiveness: eff }) => {
-      this.typeChart.set(`${attack}_${defend}`, { effectiveness: eff })
+    // 静的データのタイプ相性表を展開（等倍の組み合わせは登録しない）
+    Object.entries(TYPE_CHART).forEach(([attack, defenders]) => {
+      Object.entries(defenders).forEach(([defend, eff]) => {
+        this.typeChart.set(`${attack}_${defend}`, { effectiveness: eff as number })
+      })
     })
   }
 }
@@ -8,6 +8,9 @@ import { pokemonDatabase, type LocationPokemonData } from './PokemonDatabase'
 import { pokemonGenerator, type PokemonGenerationOptions } from './PokemonGenerator'
 import { performanceMonitor, LRUCache } from '@/lib/performance/PerformanceOptimizer'
 import type { Trainer, Expedition } from '@/lib/game-state/types'
+import { gameRandom, type GameRandom } from '@/lib/game-logic/random-system'
+import { getEventCalendar, type EventStatus } from '@/lib/game-logic/event-calendar'
+import { worldClock, toEncounterWeather } from '@/lib/game-logic/world-clock'
 
 export interface EncounterContext {
   locationId: number
@@ -79,6 +82,7 @@ export class PokemonEncounterSystem {
   private encounterCache = new LRUCache<EncounterRates>(100)
   private activeChains = new Map<string, ChainEncounter>() // trainerId -> chain
   private specialEvents = new Map<string, SpecialEvent>()
+  private syncedEventStatus = new Map<string, EventStatus>() // eventId -> 前回同期時の開催状況
   private hourlyModifiers = new Map<number, number>()
   private seasonalEvents = new Map<string, number>()
   
@@ -98,19 +102,23 @@ export class PokemonEncounterSystem {
   /**
    * ポケモン遭遇を実行
    */
-  async executeEncounter(context: EncounterContext, trainerId?: string): Promise<EncounterResult | null> {
+  async executeEncounter(
+    context: EncounterContext,
+    trainerId?: string,
+    random: GameRandom = gameRandom
+  ): Promise<EncounterResult | null> {
     return performanceMonitor.measureAsync('pokemon_encounter', async () => {
       // 遭遇率を計算
       const encounterRates = this.calculateEncounterRates(context)
       
       // 遭遇判定
-      const encounterRoll = Math.random()
+      const encounterRoll = random.next()
       if (encounterRoll > this.getTotalEncounterChance(encounterRates, context)) {
         return null // 遭遇なし
       }
       
       // ポケモン種族を選択
-      const selectedSpecies = this.selectPokemonSpecies(context, encounterRates)
+      const selectedSpecies = this.selectPokemonSpecies(context, encounterRates, random)
       if (!selectedSpecies) return null
       
       // 遭遇結果を構築
@@ -125,18 +133,31 @@ export class PokemonEncounterSystem {
     })
   }
   
+  /**
+   * ゲーム内時計から派遣先の時間帯・天候・季節を取得（EncounterContext の組み立て用）
+   */
+  getWorldConditions(locationId: number, realNow: number = Date.now()): Pick<EncounterContext, 'timeOfDay' | 'weather' | 'season'> {
+    const conditions = worldClock.getLocationConditions(locationId, realNow)
+    return {
+      timeOfDay: conditions.timeOfDay,
+      weather: toEncounterWeather(conditions.weather),
+      season: conditions.season
+    }
+  }
+  
   /**
    * 複数回遭遇シミュレーション
    */
   async simulateMultipleEncounters(
     context: EncounterContext,
     attempts: number,
-    trainerId?: string
+    trainerId?: string,
+    random: GameRandom = gameRandom
   ): Promise<EncounterResult[]> {
     const results: EncounterResult[] = []
     
     for (let i = 0; i < attempts; i++) {
-      const result = await this.executeEncounter(context, trainerId)
+      const result = await this.executeEncounter(context, trainerId, random)
       if (result) {
         results.push(result)
       }
@@ -185,6 +206,8 @@ export class PokemonEncounterSystem {
    * 遭遇率の詳細計算
    */
   private calculateEncounterRates(context: EncounterContext): EncounterRates {
+    this.syncEventCalendar()
+    
     const cacheKey = this.generateCacheKey(context)
     const cached = this.encounterCache.get(cacheKey)
     if (cached) return cached
@@ -213,21 +236,21 @@ export class PokemonEncounterSystem {
     // 探索努力修正
     const effortModifier = 1 + (context.searchEffort * 0.5)
     
-    // 特別イベント修正
-    const eventModifier = this.getActiveEventModifier()
+    // 特別イベント修正（レアリティ別）
+    const eventBonuses = this.getActiveEventBonuses()
     
     // 総合修正値
     const totalModifier = timeModifier * weatherModifier * seasonModifier * 
                          levelModifier * skillModifier * luckModifier * 
-                         effortModifier * eventModifier
+                         effortModifier
     
     const rates: EncounterRates = {
-      common: baseRates.common * totalModifier,
-      uncommon: baseRates.uncommon * totalModifier,
-      rare: baseRates.rare * totalModifier,
-      ultraRare: baseRates.ultraRare * totalModifier,
-      legendary: baseRates.legendary * totalModifier,
-      mythical: baseRates.mythical * totalModifier,
+      common: baseRates.common * totalModifier * eventBonuses.common,
+      uncommon: baseRates.uncommon * totalModifier * eventBonuses.uncommon,
+      rare: baseRates.rare * totalModifier * eventBonuses.rare,
+      ultraRare: baseRates.ultraRare * totalModifier * eventBonuses.ultra_rare,
+      legendary: baseRates.legendary * totalModifier * eventBonuses.legendary,
+      mythical: baseRates.mythical * totalModifier * eventBonuses.mythical,
       shinyBonus: this.calculateShinyBonus(context),
       totalModifier
     }
@@ -239,11 +262,11 @@ export class PokemonEncounterSystem {
   /**
    * ポケモン種族選択
    */
-  private selectPokemonSpecies(context: EncounterContext, rates: EncounterRates): PokemonSpecies | null {
+  private selectPokemonSpecies(context: EncounterContext, rates: EncounterRates, random: GameRandom): PokemonSpecies | null {
     const locationData = pokemonDatabase.getPokemonByLocation(context.locationId)
     
     // レアリティプールから選択
-    const rarityRoll = Math.random()
+    const rarityRoll = random.next()
     let selectedPool: number[]
     let selectedRarity: PokemonRarity
     
@@ -267,14 +290,14 @@ export class PokemonEncounterSystem {
     if (selectedPool.length === 0) return null
     
     // プール内から重み付き選択
-    const weightedSelection = this.performWeightedSelection(selectedPool, context)
+    const weightedSelection = this.performWeightedSelection(selectedPool, context, random)
     return pokemonDatabase.getSpecies(weightedSelection)
   }
   
   /**
    * 重み付き選択
    */
-  private performWeightedSelection(pool: number[], context: EncounterContext): number {
+  private performWeightedSelection(pool: number[], context: EncounterContext, random: GameRandom): number {
     const weights = pool.map(speciesId => {
       const species = pokemonDatabase.getSpecies(speciesId)
       if (!species) return 0
@@ -299,11 +322,11 @@ export class PokemonEncounterSystem {
     
     // 重み付きランダム選択
     const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
-    let random = Math.random() * totalWeight
+    let roll = random.next() * totalWeight
     
     for (let i = 0; i < pool.length; i++) {
-      random -= weights[i]
-      if (random <= 0) {
+      roll -= weights[i]
+      if (roll <= 0) {
         return pool[i]
       }
     }
@@ -382,6 +405,18 @@ export class PokemonEncounterSystem {
       })
     }
     
+    // イベント対象ポケモンボーナス
+    this.getRunningEvents()
+      .filter(event => event.specialPokemon.includes(species.id))
+      .forEach(event => {
+        bonuses.push({
+          type: 'event',
+          name: event.name,
+          multiplier: 1.5,
+          description: `${event.name}の対象ポケモン`
+        })
+      })
+    
     // 運気ボーナス
     if (context.luckFactor > 1.0) {
       bonuses.push({
@@ -589,17 +624,24 @@ export class PokemonEncounterSystem {
     return level >= requirement ? 1.0 + Math.max(0, level - requirement) * 0.02 : 0.5
   }
   
-  private getActiveEventModifier(): number {
+  private getActiveEventBonuses(): Record<PokemonRarity, number> {
     const now = new Date()
-    let modifier = 1.0
+    const bonuses: Record<PokemonRarity, number> = {
+      common: 1.0, uncommon: 1.0, rare: 1.0, ultra_rare: 1.0, legendary: 1.0, mythical: 1.0
+    }
     
-    Array.from(this.specialEvents.values()).forEach(event => {
-      if (event.active && now >= event.duration.start && now <= event.duration.end) {
-        modifier *= 1.5 // イベント期間中は遭遇率1.5倍
-      }
-    });
+    this.getRunningEvents(now).forEach(event => {
+      (Object.keys(bonuses) as PokemonRarity[]).forEach(rarity => {
+        bonuses[rarity] *= event.encounterBonuses[rarity]
+      })
+    })
     
-    return modifier
+    return bonuses
+  }
+  
+  private getRunningEvents(now: Date = new Date()): SpecialEvent[] {
+    return Array.from(this.specialEvents.values())
+      .filter(event => event.active && now >= event.duration.start && now < event.duration.end)
   }
   
   private applyChainEffects(context: EncounterContext, trainerId: string): void {
@@ -646,7 +688,8 @@ export class PokemonEncounterSystem {
   }
   
   private generateCacheKey(context: EncounterContext): string {
-    return `${context.locationId}_${context.timeOfDay}_${context.weather}_${context.season}_${context.trainerLevel}`
+    const activeEvents = this.getRunningEvents().map(event => event.id).join('+')
+    return `${context.locationId}_${context.timeOfDay}_${context.weather}_${context.season}_${context.trainerLevel}_${activeEvents}`
   }
   
   /**
@@ -679,23 +722,8 @@ export class PokemonEncounterSystem {
   }
   
   private initializeSpecialEvents(): void {
-    // 季節イベントなどの初期化
-    const events: SpecialEvent[] = [
-      {
-        id: 'spring_festival',
-        name: '春祭り',
-        description: '草タイプポケモンの出現率が上がります',
-        duration: { start: new Date(2024, 2, 20), end: new Date(2024, 3, 10) },
-        encounterBonuses: { common: 1.2, uncommon: 1.3, rare: 1.5, ultra_rare: 1.2, legendary: 1.0, mythical: 1.0 },
-        specialPokemon: [1, 2, 3, 152, 153, 154],
-        conditions: ['grass_type_bonus'],
-        active: false
-      }
-    ]
-    
-    events.forEach(event => {
-      this.specialEvents.set(event.id, event)
-    })
+    // イベントカレンダー（events.json）から読み込み、開催期間に合わせて有効化
+    this.syncEventCalendar()
   }
   
   private initializeSeasonalEvents(): void {
@@ -718,9 +746,52 @@ export class PokemonEncounterSystem {
   }
   
   getSpecialEvents(): SpecialEvent[] {
+    this.syncEventCalendar()
     return Array.from(this.specialEvents.values())
   }
   
+  /**
+   * イベントカレンダーと同期
+   * 開催期間に入ったイベントを有効化し、終了したイベントを無効化する
+   * （activateEvent/deactivateEvent による手動切替は次に開催状況が変わるまで維持）
+   */
+  syncEventCalendar(now: Date = new Date()): SpecialEvent[] {
+    let changed = false
+    
+    getEventCalendar(now).forEach(({ definition, start, end, status }) => {
+      if (this.syncedEventStatus.get(definition.id) === status) {
+        return
+      }
+      this.syncedEventStatus.set(definition.id, status)
+      
+      const { encounterBonuses = {}, specialPokemon = [] } = definition.effects
+      this.specialEvents.set(definition.id, {
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        duration: { start, end },
+        encounterBonuses: {
+          common: encounterBonuses.common ?? 1.0,
+          uncommon: encounterBonuses.uncommon ?? 1.0,
+          rare: encounterBonuses.rare ?? 1.0,
+          ultra_rare: encounterBonuses.ultra_rare ?? 1.0,
+          legendary: encounterBonuses.legendary ?? 1.0,
+          mythical: encounterBonuses.mythical ?? 1.0
+        },
+        specialPokemon,
+        conditions: definition.season ? [`${definition.season}_event`] : [],
+        active: status === 'active'
+      })
+      changed = true
+    })
+    
+    if (changed) {
+      this.encounterCache.clear()
+    }
+    
+    return this.getRunningEvents(now)
+  }
+  
   activateEvent(eventId: string): boolean {
     const event = this.specialEvents.get(eventId)
     if (event) {
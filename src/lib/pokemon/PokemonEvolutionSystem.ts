@@ -1,5 +1,7 @@
 import { PokemonInstance, PokemonSpecies } from '../schemas/pokemon';
 import { GameContext } from '../game-state/types';
+import { countItem, removeItemFromInventory } from '../game-state/inventory';
+import { realtimeManager } from '../real-time/RealtimeManager';
 import { pokemonDatabase } from './PokemonDatabase';
 
 export interface EvolutionRequirement {
@@ -370,9 +372,7 @@ export class PokemonEvolutionSystem {
   }
 
   private hasRequiredItem(itemId: string, context: GameContext): boolean {
-    // This would check the player's inventory
-    // Note: Inventory system would need to be implemented in GameData
-    return false; // Placeholder until inventory system is implemented
+    return countItem(context.gameState.inventory || [], itemId) > 0;
   }
 
   private consumeEvolutionItems(
@@ -389,8 +389,20 @@ export class PokemonEvolutionSystem {
       }
     }
 
-    // In a real implementation, this would actually consume the items
-    // For now, we'll just return success
+    // All items are present, so consume them together
+    for (const req of itemRequirements) {
+      if (!req.itemId) continue;
+
+      removeItemFromInventory(context.gameState.inventory, req.itemId, 1);
+      realtimeManager.emitDataChange({
+        category: 'inventory',
+        action: 'delete',
+        entityId: req.itemId,
+        data: { quantity: 1, remaining: countItem(context.gameState.inventory, req.itemId), reason: 'evolution' },
+        source: 'user_action'
+      });
+    }
+
     return { success: true };
   }
 
@@ -8,6 +8,8 @@ import type { PokemonSpecies, PokemonNature } from './PokemonDatabase'
 import { pokemonDatabase } from './PokemonDatabase'
 import { pokeAPIService } from './PokeAPIService'
 import { performanceMonitor, memoize } from '@/lib/performance/PerformanceOptimizer'
+import { gameRandom, type GameRandom } from '@/lib/game-logic/random-system'
+import { getMovesKnownAtLevel } from '@/lib/static-data/learnsets'
 
 export interface PokemonGenerationOptions {
   species?: PokemonSpecies
@@ -21,8 +23,10 @@ export interface PokemonGenerationOptions {
   location?: number
   captureMethod?: string
   customIVs?: IndividualValues
+  inheritedIVs?: Partial<Pokemon['ivs']> // 指定した能力だけ固定し、残りは品質に基づいて生成（タマゴの遺伝用）
   customNature?: PokemonNature
   customMoves?: string[]
+  random?: GameRandom // 指定時はこの乱数列で個体を決定（派遣の再現用）
 }
 
 export interface IndividualValues {
@@ -114,10 +118,11 @@ export class PokemonGenerator {
       }
       
       // 基本パラメータの決定
-      const level = options.level || this.generateRandomLevel(species)
-      const nature = options.customNature || options.nature || this.generateRandomNature()
-      const ivs = options.customIVs || this.generateIndividualValues(options.ivQuality || 0.5, species)
-      const shiny = this.generateShinyVariant(options.shinyChance || 0.001, options.forceShiny)
+      const random = options.random || gameRandom
+      const level = options.level || this.generateRandomLevel(species, random)
+      const nature = options.customNature || options.nature || this.generateRandomNature(random)
+      const ivs = options.customIVs || this.generateIndividualValues(options.ivQuality || 0.5, species, random, options.inheritedIVs)
+      const shiny = this.generateShinyVariant(options.shinyChance || 0.001, options.forceShiny, random)
       
       // ステータス計算
       const stats = this.calculateStats(species, level, ivs, nature)
@@ -226,7 +231,12 @@ export class PokemonGenerator {
   /**
    * 個体値を生成
    */
-  private generateIndividualValues(quality: number, species: PokemonSpecies): IndividualValues {
+  private generateIndividualValues(
+    quality: number,
+    species: PokemonSpecies,
+    random: GameRandom,
+    fixed: Partial<Pokemon['ivs']> = {}
+  ): IndividualValues {
     // 品質に基づく個体値生成
     const generateIV = () => {
       if (quality >= 1.0) return 31 // 完璧
@@ -239,7 +249,7 @@ export class PokemonGenerator {
       // 正規分布近似
       let value = 0
       for (let i = 0; i < 12; i++) {
-        value += Math.random()
+        value += random.next()
       }
       value = (value - 6) / 6 // 標準正規分布近似
       
@@ -248,12 +258,12 @@ export class PokemonGenerator {
     }
     
     const ivs: IndividualValues = {
-      hp: generateIV(),
-      attack: generateIV(),
-      defense: generateIV(),
-      specialAttack: generateIV(),
-      specialDefense: generateIV(),
-      speed: generateIV(),
+      hp: fixed.hp ?? generateIV(),
+      attack: fixed.attack ?? generateIV(),
+      defense: fixed.defense ?? generateIV(),
+      specialAttack: fixed.specialAttack ?? generateIV(),
+      specialDefense: fixed.specialDefense ?? generateIV(),
+      speed: fixed.speed ?? generateIV(),
       total: 0,
       grade: 'F'
     }
@@ -283,15 +293,15 @@ export class PokemonGenerator {
   /**
    * ランダム性格生成
    */
-  private generateRandomNature(): PokemonNature {
+  private generateRandomNature(random: GameRandom): PokemonNature {
     const natures = Array.from(this.natureDatabase.keys())
-    return natures[Math.floor(Math.random() * natures.length)]
+    return random.choice(natures)
   }
   
   /**
    * ランダムレベル生成
    */
-  private generateRandomLevel(species: PokemonSpecies): number {
+  private generateRandomLevel(species: PokemonSpecies, random: GameRandom): number {
     // レアリティに基づくレベル分布
     const rarityLevelRange = {
       common: [1, 15],
@@ -303,14 +313,14 @@ export class PokemonGenerator {
     }
     
     const [min, max] = rarityLevelRange[species.rarity] || [1, 20]
-    return Math.floor(Math.random() * (max - min + 1)) + min
+    return random.integer(min, max)
   }
   
   /**
    * 色違いバリアント生成
    */
-  private generateShinyVariant(baseChance: number, force: boolean = false): ShinyVariant {
-    const isShiny = force || Math.random() < baseChance
+  private generateShinyVariant(baseChance: number, force: boolean = false, random: GameRandom = gameRandom): ShinyVariant {
+    const isShiny = force || random.chance(baseChance)
     
     if (!isShiny) {
       return {
@@ -323,7 +333,7 @@ export class PokemonGenerator {
     }
     
     // 超色違い（さらに稀）
-    const isUltraShiny = Math.random() < 0.1 // 10%の確率で超色違い
+    const isUltraShiny = random.chance(0.1) // 10%の確率で超色違い
     
     return {
       isShiny: true,
@@ -404,7 +414,12 @@ export class PokemonGenerator {
    * 技生成
    */
   private generateMoves(species: PokemonSpecies, level: number): string[] {
-    // 簡易的な技習得システム
+    const knownMoves = getMovesKnownAtLevel(species.id, level)
+    if (knownMoves.length > 0) {
+      return knownMoves
+    }
+    
+    // 習得技データがない種族は簡易的な技習得システムで代用
     const basicMoves = ['たいあたり', 'なきごえ']
     const typeMoves = this.getTypeBasedMoves(species.types[0])
     
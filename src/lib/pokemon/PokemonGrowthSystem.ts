@@ -1,5 +1,10 @@
 import { PokemonInstance, PokemonSpecies } from '../schemas/pokemon';
 import { GameContext } from '../game-state/types';
+import { getMovesLearnedBetween } from '../static-data/learnsets';
+import { getMoveDefinition } from '../static-data/moves';
+import { addEffortValues, applyEffortValues, getEffortStatBonus, getTrainingEffortYield, type EffortGain } from './EffortValues';
+
+export const MAX_MOVES = 4;
 
 export interface ExperienceGain {
   baseExp: number;
@@ -19,7 +24,8 @@ export interface LevelUpResult {
     specialDefense: number;
     speed: number;
   };
-  newMoves?: string[];
+  newMoves?: string[]; // 空き枠に自動で覚えた技
+  pendingMoves?: string[]; // 技が4つ埋まっているため忘れる技の選択が必要な技
   canEvolve?: boolean;
   evolutionOptions?: EvolutionOption[];
 }
@@ -43,7 +49,6 @@ export interface TrainingSession {
   intensity: 'light' | 'moderate' | 'intense' | 'extreme';
   cost: number;
   expMultiplier: number;
-  statBonuses: Partial<Record<'hp' | 'attack' | 'defense' | 'specialAttack' | 'specialDefense' | 'speed', number>>;
 }
 
 export class PokemonGrowthSystem {
@@ -73,8 +78,7 @@ export class PokemonGrowthSystem {
       duration: 30,
       intensity: 'moderate',
       cost: 100,
-      expMultiplier: 1.2,
-      statBonuses: { attack: 2, hp: 1 }
+      expMultiplier: 1.2
     });
 
     programs.set('advanced_strength', {
@@ -82,8 +86,7 @@ export class PokemonGrowthSystem {
       duration: 60,
       intensity: 'intense',
       cost: 300,
-      expMultiplier: 1.5,
-      statBonuses: { attack: 5, hp: 2 }
+      expMultiplier: 1.5
     });
 
     programs.set('speed_training', {
@@ -91,8 +94,7 @@ export class PokemonGrowthSystem {
       duration: 45,
       intensity: 'intense',
       cost: 200,
-      expMultiplier: 1.3,
-      statBonuses: { speed: 4, defense: 1 }
+      expMultiplier: 1.3
     });
 
     programs.set('endurance_training', {
@@ -100,8 +102,7 @@ export class PokemonGrowthSystem {
       duration: 90,
       intensity: 'moderate',
       cost: 150,
-      expMultiplier: 1.1,
-      statBonuses: { hp: 6, defense: 3 }
+      expMultiplier: 1.1
     });
 
     programs.set('technique_mastery', {
@@ -109,8 +110,7 @@ export class PokemonGrowthSystem {
       duration: 120,
       intensity: 'light',
       cost: 250,
-      expMultiplier: 1.4,
-      statBonuses: { specialAttack: 4, specialDefense: 2 }
+      expMultiplier: 1.4
     });
 
     programs.set('elite_training', {
@@ -118,15 +118,7 @@ export class PokemonGrowthSystem {
       duration: 180,
       intensity: 'extreme',
       cost: 500,
-      expMultiplier: 2.0,
-      statBonuses: { 
-        hp: 3, 
-        attack: 3, 
-        defense: 3, 
-        specialAttack: 3, 
-        specialDefense: 3, 
-        speed: 3 
-      }
+      expMultiplier: 2.0
     });
 
     return programs;
@@ -214,7 +206,7 @@ export class PokemonGrowthSystem {
 
   private handleLevelUp(pokemon: PokemonInstance, newLevel: number): LevelUpResult {
     const statGains = this.calculateStatGains(pokemon, pokemon.level, newLevel);
-    const newMoves = this.getNewMovesForLevel(pokemon.speciesId.toString(), newLevel);
+    const { newMoves, pendingMoves } = this.getNewMovesForLevel(pokemon, newLevel);
     const evolutionData = this.checkEvolutionRequirements(pokemon, newLevel);
 
     return {
@@ -222,6 +214,7 @@ export class PokemonGrowthSystem {
       newLevel,
       statGains,
       newMoves: newMoves.length > 0 ? newMoves : undefined,
+      pendingMoves: pendingMoves.length > 0 ? pendingMoves : undefined,
       canEvolve: evolutionData.canEvolve,
       evolutionOptions: evolutionData.options
     };
@@ -260,6 +253,13 @@ export class PokemonGrowthSystem {
       }
     }
 
+    // Effort values add more to each stat as the level rises
+    const effortBefore = getEffortStatBonus(pokemon.evs, oldLevel);
+    const effortAfter = getEffortStatBonus(pokemon.evs, newLevel);
+    (Object.keys(gains) as Array<keyof typeof gains>).forEach(stat => {
+      gains[stat] += effortAfter[stat] - effortBefore[stat];
+    });
+
     return gains;
   }
 
@@ -287,22 +287,57 @@ export class PokemonGrowthSystem {
     }
   }
 
-  private getNewMovesForLevel(speciesId: string, level: number): string[] {
-    // Simplified move learning system
-    const movesByLevel: Record<number, string[]> = {
-      5: ['Quick Attack'],
-      10: ['Thunder Shock', 'Ember', 'Water Gun'],
-      15: ['Double Kick', 'Bite'],
-      20: ['Thunder Wave', 'Flame Wheel', 'Bubble Beam'],
-      25: ['Agility', 'Take Down'],
-      30: ['Thunderbolt', 'Flamethrower', 'Surf'],
-      35: ['Thunder', 'Fire Blast', 'Hydro Pump'],
-      40: ['Double Team', 'Rest'],
-      45: ['Thunder', 'Fire Blast', 'Blizzard'],
-      50: ['Hyper Beam']
+  private getNewMovesForLevel(
+    pokemon: PokemonInstance,
+    newLevel: number
+  ): { newMoves: string[]; pendingMoves: string[] } {
+    // 複数レベル上がった場合も途中のレベルで覚える技を全て対象にする
+    const currentMoves = pokemon.moves || [];
+    const candidates = getMovesLearnedBetween(pokemon.speciesId, pokemon.level, newLevel)
+      .filter(move => !currentMoves.includes(move));
+    const freeSlots = Math.max(0, MAX_MOVES - currentMoves.length);
+
+    return {
+      newMoves: candidates.slice(0, freeSlots),
+      pendingMoves: candidates.slice(freeSlots)
     };
+  }
 
-    return movesByLevel[level] || [];
+  /**
+   * 技を覚える（技が4つ埋まっている場合は忘れる技の指定が必要）
+   */
+  learnMove(
+    pokemon: PokemonInstance,
+    move: string,
+    forgetMove?: string
+  ): { success: boolean; updatedPokemon?: PokemonInstance; error?: string } {
+    const currentMoves = pokemon.moves || [];
+
+    if (!getMoveDefinition(move)) {
+      return { success: false, error: `Unknown move: ${move}` };
+    }
+    if (currentMoves.includes(move)) {
+      return { success: false, error: `${move} is already known` };
+    }
+
+    if (!forgetMove) {
+      if (currentMoves.length >= MAX_MOVES) {
+        return { success: false, error: 'A move to forget must be chosen' };
+      }
+      return { success: true, updatedPokemon: { ...pokemon, moves: [...currentMoves, move] } };
+    }
+
+    if (!currentMoves.includes(forgetMove)) {
+      return { success: false, error: `${forgetMove} is not known` };
+    }
+
+    return {
+      success: true,
+      updatedPokemon: {
+        ...pokemon,
+        moves: currentMoves.map(known => known === forgetMove ? move : known)
+      }
+    };
   }
 
   private checkEvolutionRequirements(
@@ -346,7 +381,7 @@ export class PokemonGrowthSystem {
       specialDefense: pokemon.specialDefense + levelUpResult.statGains.specialDefense,
       speed: pokemon.speed + levelUpResult.statGains.speed,
       moves: levelUpResult.newMoves 
-        ? [...(pokemon.moves || []), ...levelUpResult.newMoves].slice(0, 4)
+        ? [...(pokemon.moves || []), ...levelUpResult.newMoves].slice(0, MAX_MOVES)
         : pokemon.moves
     };
   }
@@ -354,12 +389,14 @@ export class PokemonGrowthSystem {
   performTraining(
     pokemon: PokemonInstance,
     programId: string,
-    context: GameContext
+    context: GameContext,
+    effortMultiplier: number = 1
   ): {
     success: boolean;
     result?: {
       experienceGained: ExperienceGain;
       statBonuses: Partial<Record<'hp' | 'attack' | 'defense' | 'specialAttack' | 'specialDefense' | 'speed', number>>;
+      effortGained: EffortGain;
       levelUpResult?: LevelUpResult;
       updatedPokemon: PokemonInstance;
     };
@@ -370,11 +407,7 @@ export class PokemonGrowthSystem {
       return { success: false, error: 'Training program not found' };
     }
 
-    // Check if player has enough resources
-    const playerMoney = context.gameState.player?.money || 0;
-    if (playerMoney < program.cost) {
-      return { success: false, error: 'Insufficient funds for training' };
-    }
+    // Program costs are charged when the training is scheduled at a facility
 
     // Calculate experience gain
     const baseExp = this.calculateTrainingExperience(pokemon, program);
@@ -385,14 +418,23 @@ export class PokemonGrowthSystem {
       context
     );
 
-    // Apply stat bonuses
-    const finalPokemon = this.applyStatBonuses(updatedPokemon, program.statBonuses);
+    // Training builds effort values for the program type; stats follow from them
+    const { evs, gained } = addEffortValues(updatedPokemon.evs, getTrainingEffortYield(program, effortMultiplier));
+    const finalPokemon = applyEffortValues(updatedPokemon, evs);
 
     return {
       success: true,
       result: {
         experienceGained: experienceGain,
-        statBonuses: program.statBonuses,
+        statBonuses: {
+          hp: finalPokemon.maxHp - updatedPokemon.maxHp,
+          attack: finalPokemon.attack - updatedPokemon.attack,
+          defense: finalPokemon.defense - updatedPokemon.defense,
+          specialAttack: finalPokemon.specialAttack - updatedPokemon.specialAttack,
+          specialDefense: finalPokemon.specialDefense - updatedPokemon.specialDefense,
+          speed: finalPokemon.speed - updatedPokemon.speed
+        },
+        effortGained: gained,
         levelUpResult,
         updatedPokemon: finalPokemon
       }
@@ -412,28 +454,16 @@ export class PokemonGrowthSystem {
     return Math.floor(baseExp * durationMultiplier * intensityMultiplier * program.expMultiplier);
   }
 
-  private applyStatBonuses(
-    pokemon: PokemonInstance, 
-    bonuses: Partial<Record<'hp' | 'attack' | 'defense' | 'specialAttack' | 'specialDefense' | 'speed', number>>
-  ): PokemonInstance {
-    const updatedPokemon = { ...pokemon };
-    
-    for (const [stat, bonus] of Object.entries(bonuses)) {
-      if (typeof bonus === 'number') {
-        if (stat === 'hp') updatedPokemon.hp += bonus;
-        else if (stat === 'attack') updatedPokemon.attack += bonus;
-        else if (stat === 'defense') updatedPokemon.defense += bonus;
-        else if (stat === 'specialAttack') updatedPokemon.specialAttack += bonus;
-        else if (stat === 'specialDefense') updatedPokemon.specialDefense += bonus;
-        else if (stat === 'speed') updatedPokemon.speed += bonus;
-      }
-    }
+  getTrainingPrograms(): TrainingSession[] {
+    return Array.from(this.trainingPrograms.values());
+  }
 
-    return updatedPokemon;
+  getTrainingProgram(programId: string): TrainingSession | undefined {
+    return this.trainingPrograms.get(programId);
   }
 
-  getTrainingPrograms(): TrainingSession[] {
-    return Array.from(this.trainingPrograms.values());
+  getTrainingProgramEntries(): Array<{ id: string; program: TrainingSession }> {
+    return Array.from(this.trainingPrograms, ([id, program]) => ({ id, program }));
   }
 
   getExperienceToNextLevel(pokemon: PokemonInstance): number {
@@ -1,7 +1,11 @@
 import { PokemonInstance } from '../schemas/pokemon';
-import { GameContext } from '../game-state/types';
+import { GameContext, PokemonTrainingState } from '../game-state/types';
 import { pokemonGrowthSystem, TrainingSession } from './PokemonGrowthSystem';
 
+// Each slot can hold this many Pokemon waiting in line
+export const QUEUE_PER_SLOT = 2;
+export const MAX_SPEED_BONUS = 0.5;
+
 export interface TrainingFacility {
   id: string;
   name: string;
@@ -10,6 +14,7 @@ export interface TrainingFacility {
   capacity: number;
   specialization: 'strength' | 'endurance' | 'speed' | 'technique' | 'intelligence' | 'balanced';
   bonusMultiplier: number;
+  speedBonus: number; // Fraction of training time saved, accumulated from upgrades
   unlockRequirements: {
     playerLevel?: number;
     facilitiesBuilt?: string[];
@@ -24,10 +29,14 @@ export interface TrainingSlot {
   pokemonId: string;
   facilityId: string;
   programId: string;
-  startTime: number;
+  startTime: number; // Queued slots get their real start/end times when they start
   endTime: number;
   progress: number; // 0-100
-  status: 'active' | 'completed' | 'paused' | 'cancelled';
+  status: 'queued' | 'active' | 'completed' | 'paused' | 'cancelled';
+  duration?: number; // ms, after the facility speed bonus
+  queuedAt?: number;
+  remainingMs?: number; // Kept while paused (or queued again after a pause)
+  cost?: number; // Program cost paid when scheduled
 }
 
 export interface FacilityUpgrade {
@@ -45,10 +54,32 @@ export interface FacilityUpgrade {
   };
 }
 
+export interface FacilityProgram {
+  id: string;
+  program: TrainingSession;
+  duration: number; // ms, after the facility speed bonus
+}
+
+export interface FacilityStats {
+  level: number;
+  capacity: number;
+  bonusMultiplier: number;
+  speedBonus: number;
+  programs: string[];
+}
+
+export interface UpgradePreview {
+  upgrade: FacilityUpgrade;
+  current: FacilityStats;
+  next: FacilityStats;
+  newPrograms: string[];
+}
+
 export class PokemonTrainingFacility {
   private facilities: Map<string, TrainingFacility>;
   private activeTrainingSessions: Map<string, TrainingSlot>;
   private facilityUpgrades: Map<string, FacilityUpgrade[]>;
+  private changeListeners: Set<() => void> = new Set();
 
   constructor() {
     this.facilities = this.initializeFacilities();
@@ -67,6 +98,7 @@ export class PokemonTrainingFacility {
       capacity: 2,
       specialization: 'strength',
       bonusMultiplier: 1.0,
+      speedBonus: 0,
       unlockRequirements: {},
       upgradeCost: 1000,
       maintenanceCost: 50
@@ -80,6 +112,7 @@ export class PokemonTrainingFacility {
       capacity: 3,
       specialization: 'speed',
       bonusMultiplier: 1.2,
+      speedBonus: 0,
       unlockRequirements: {
         playerLevel: 5,
         facilitiesBuilt: ['basic_gym']
@@ -96,6 +129,7 @@ export class PokemonTrainingFacility {
       capacity: 4,
       specialization: 'endurance',
       bonusMultiplier: 1.1,
+      speedBonus: 0,
       unlockRequirements: {
         playerLevel: 8,
         itemsRequired: [{ itemId: 'water_stone', quantity: 2 }]
@@ -112,6 +146,7 @@ export class PokemonTrainingFacility {
       capacity: 2,
       specialization: 'technique',
       bonusMultiplier: 1.3,
+      speedBonus: 0,
       unlockRequirements: {
         playerLevel: 12,
         facilitiesBuilt: ['basic_gym', 'speed_course']
@@ -128,6 +163,7 @@ export class PokemonTrainingFacility {
       capacity: 6,
       specialization: 'balanced',
       bonusMultiplier: 1.5,
+      speedBonus: 0,
       unlockRequirements: {
         playerLevel: 20,
         facilitiesBuilt: ['basic_gym', 'speed_course', 'endurance_pool', 'technique_dojo'],
@@ -192,11 +228,47 @@ export class PokemonTrainingFacility {
     return upgrades;
   }
 
+  getFacility(facilityId: string): TrainingFacility | undefined {
+    return this.facilities.get(facilityId);
+  }
+
+  // Programs matching the facility specialization (balanced facilities offer every program).
+  // Programs unlocked by a later upgrade stay hidden until the facility reaches that level.
+  getFacilityPrograms(facilityId: string): FacilityProgram[] {
+    const facility = this.facilities.get(facilityId);
+    if (!facility) return [];
+
+    return this.getProgramIds(facility).map(id => {
+      const program = pokemonGrowthSystem.getTrainingProgram(id)!;
+      return { id, program, duration: this.getTrainingDuration(program, facility) };
+    });
+  }
+
+  private getProgramIds(facility: TrainingFacility, level: number = facility.level): string[] {
+    const locked = new Set(
+      (this.facilityUpgrades.get(facility.id) || [])
+        .filter(upgrade => upgrade.level > level)
+        .flatMap(upgrade => upgrade.benefits.newPrograms || [])
+    );
+
+    return pokemonGrowthSystem.getTrainingProgramEntries()
+      .filter(({ id, program }) =>
+        !locked.has(id) && (facility.specialization === 'balanced' || program.type === facility.specialization)
+      )
+      .map(({ id }) => id);
+  }
+
+  private getTrainingDuration(program: TrainingSession, facility: TrainingFacility): number {
+    const baseDuration = program.duration * 60 * 1000; // Convert to milliseconds
+    return Math.floor(baseDuration * (1 - this.getFacilitySpeedBonus(facility)));
+  }
+
   startTraining(
     pokemon: PokemonInstance,
     facilityId: string,
     programId: string,
-    context: GameContext
+    context: GameContext,
+    currentTime: number = Date.now()
   ): {
     success: boolean;
     trainingSlot?: TrainingSlot;
@@ -207,74 +279,142 @@ export class PokemonTrainingFacility {
       return { success: false, error: 'Training facility not found' };
     }
 
-    // Check facility availability
-    const currentSessions = this.getActiveSessions(facilityId);
-    if (currentSessions.length >= facility.capacity) {
-      return { success: false, error: 'Training facility is at full capacity' };
+    if (!this.getProgramIds(facility).includes(programId)) {
+      return { success: false, error: 'Training program is not offered at this facility' };
     }
+    const program = pokemonGrowthSystem.getTrainingProgram(programId)!;
 
-    // Check if Pokemon is already training
-    const existingSession = Array.from(this.activeTrainingSessions.values())
-      .find(session => session.pokemonId === pokemon.id && session.status === 'active');
-    
-    if (existingSession) {
+    // Check if Pokemon is already training or waiting
+    if (this.getPokemonSlot(pokemon.id)) {
       return { success: false, error: 'Pokemon is already in training' };
     }
 
-    // Get training program details
-    const programs = pokemonGrowthSystem.getTrainingPrograms();
-    const program = programs.find(p => p.type === facility.specialization);
-    
-    if (!program) {
-      return { success: false, error: 'No suitable training program found' };
+    // Join the queue when every slot is busy
+    const isFull = this.getActiveSessions(facilityId).length >= facility.capacity;
+    if (isFull && this.getQueuedSessions(facilityId).length >= this.getQueueLimit(facility)) {
+      return { success: false, error: 'Training queue is full' };
     }
 
-    // Calculate training duration with facility bonuses
-    const baseDuration = program.duration * 60 * 1000; // Convert to milliseconds
-    const speedBonus = this.getFacilitySpeedBonus(facility);
-    const adjustedDuration = Math.floor(baseDuration * (1 - speedBonus));
-
+    const duration = this.getTrainingDuration(program, facility);
     const trainingSlot: TrainingSlot = {
-      id: `training_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: `training_${currentTime}_${Math.random().toString(36).substr(2, 9)}`,
       pokemonId: pokemon.id,
       facilityId,
       programId,
-      startTime: Date.now(),
-      endTime: Date.now() + adjustedDuration,
+      startTime: currentTime,
+      endTime: currentTime + duration,
       progress: 0,
-      status: 'active'
+      status: isFull ? 'queued' : 'active',
+      duration,
+      queuedAt: currentTime,
+      cost: program.cost
     };
 
     this.activeTrainingSessions.set(trainingSlot.id, trainingSlot);
+    this.notifyChange();
 
     return { success: true, trainingSlot };
   }
 
-  updateTrainingSessions(): TrainingSlot[] {
+  // Pausing frees the slot for the next Pokemon in line
+  pauseTraining(slotId: string, currentTime: number = Date.now()): { success: boolean; error?: string } {
+    const slot = this.activeTrainingSessions.get(slotId);
+    if (!slot || slot.status !== 'active') {
+      return { success: false, error: 'Only active training can be paused' };
+    }
+
+    slot.status = 'paused';
+    slot.remainingMs = Math.max(0, slot.endTime - currentTime);
+    this.startQueuedSessions(slot.facilityId, currentTime);
+    this.notifyChange();
+
+    return { success: true };
+  }
+
+  // Resumes right away when a slot is free, otherwise goes back into the queue
+  resumeTraining(slotId: string, currentTime: number = Date.now()): { success: boolean; queued?: boolean; error?: string } {
+    const slot = this.activeTrainingSessions.get(slotId);
+    const facility = slot && this.facilities.get(slot.facilityId);
+    if (!slot || !facility || slot.status !== 'paused') {
+      return { success: false, error: 'Only paused training can be resumed' };
+    }
+
+    slot.status = 'queued';
+    slot.queuedAt = currentTime;
+    this.startQueuedSessions(slot.facilityId, currentTime);
+    this.notifyChange();
+
+    return { success: true, queued: slot.status === 'queued' };
+  }
+
+  cancelTraining(slotId: string, currentTime: number = Date.now()): {
+    success: boolean;
+    trainingSlot?: TrainingSlot;
+    error?: string;
+  } {
+    const slot = this.activeTrainingSessions.get(slotId);
+    if (!slot || slot.status === 'completed' || slot.status === 'cancelled') {
+      return { success: false, error: 'Training session not found' };
+    }
+
+    this.activeTrainingSessions.delete(slotId);
+    this.startQueuedSessions(slot.facilityId, currentTime);
+    this.notifyChange();
+
+    // Returned as it was before cancelling so the caller can tell whether it ever started
+    return { success: true, trainingSlot: { ...slot } };
+  }
+
+  updateTrainingSessions(currentTime: number = Date.now()): TrainingSlot[] {
     const completedSessions: TrainingSlot[] = [];
-    const currentTime = Date.now();
 
-    Array.from(this.activeTrainingSessions.entries()).forEach(([sessionId, session]) => {
-      if (session.status !== 'active') return;
+    // Finish slots in the order they end so queued Pokemon start exactly when a slot frees up
+    for (;;) {
+      const next = this.getActiveSessions()
+        .filter(session => session.endTime <= currentTime)
+        .sort((a, b) => a.endTime - b.endTime)[0];
+      if (!next) break;
+
+      next.status = 'completed';
+      next.progress = 100;
+      completedSessions.push(next);
+      this.startQueuedSessions(next.facilityId, next.endTime);
+    }
 
-      // Update progress
+    this.getActiveSessions().forEach(session => {
       const totalDuration = session.endTime - session.startTime;
       const elapsed = currentTime - session.startTime;
-      const progress = Math.min(100, Math.floor((elapsed / totalDuration) * 100));
-
-      session.progress = progress;
-
-      // Check if training is complete
-      if (currentTime >= session.endTime) {
-        session.status = 'completed';
-        session.progress = 100;
-        completedSessions.push(session);
-      }
+      session.progress = totalDuration > 0 ? Math.min(100, Math.floor((elapsed / totalDuration) * 100)) : 100;
     });
 
+    if (completedSessions.length > 0) {
+      this.notifyChange();
+    }
+
     return completedSessions;
   }
 
+  private startQueuedSessions(facilityId: string, startTime: number): void {
+    const facility = this.facilities.get(facilityId);
+    if (!facility) return;
+
+    const queue = this.getQueuedSessions(facilityId);
+    let freeSlots = facility.capacity - this.getActiveSessions(facilityId).length;
+
+    while (freeSlots > 0 && queue.length > 0) {
+      const slot = queue.shift()!;
+      const duration = slot.duration ?? slot.endTime - slot.startTime;
+      const remaining = slot.remainingMs ?? duration;
+
+      // Resumed slots keep the progress made before the pause
+      slot.endTime = startTime + remaining;
+      slot.startTime = slot.endTime - duration;
+      slot.remainingMs = undefined;
+      slot.status = 'active';
+      freeSlots -= 1;
+    }
+  }
+
   completeTraining(
     sessionId: string,
     context: GameContext
@@ -304,12 +444,12 @@ export class PokemonTrainingFacility {
       return { success: false, error: 'Pokemon not found' };
     }
 
-    // Apply facility bonuses to training results
-    const facilityBonus = facility.bonusMultiplier;
+    // The facility multiplier also scales the effort values gained
     const trainingResult = pokemonGrowthSystem.performTraining(
       pokemon,
       session.programId,
-      context
+      context,
+      facility.bonusMultiplier
     );
 
     if (!trainingResult.success || !trainingResult.result) {
@@ -321,15 +461,16 @@ export class PokemonTrainingFacility {
 
     // Remove completed session
     this.activeTrainingSessions.delete(sessionId);
+    this.notifyChange();
 
     return {
       success: true,
-      result: enhancedResult
+      result: { ...enhancedResult, pokemon: enhancedResult.updatedPokemon }
     };
   }
 
   private applyFacilityBonuses(result: any, facility: TrainingFacility): any {
-    // Apply facility bonus multiplier to experience and stat bonuses
+    // Apply facility bonus multiplier to the experience report (effort values were scaled during training)
     const bonusMultiplier = facility.bonusMultiplier;
     
     return {
@@ -338,19 +479,57 @@ export class PokemonTrainingFacility {
         ...result.experienceGained,
         bonusExp: Math.floor(result.experienceGained.bonusExp * bonusMultiplier),
         totalExp: Math.floor(result.experienceGained.totalExp * bonusMultiplier)
-      },
-      statBonuses: Object.fromEntries(
-        Object.entries(result.statBonuses).map(([stat, value]) => [
-          stat,
-          Math.floor((value as number) * bonusMultiplier)
-        ])
-      )
+      }
+    };
+  }
+
+  getNextUpgrade(facilityId: string): FacilityUpgrade | undefined {
+    const facility = this.facilities.get(facilityId);
+    if (!facility) return undefined;
+    return this.facilityUpgrades.get(facilityId)?.find(u => u.level === facility.level + 1);
+  }
+
+  // Compares the facility now with the facility after its next upgrade
+  previewUpgrade(facilityId: string): UpgradePreview | undefined {
+    const facility = this.facilities.get(facilityId);
+    const upgrade = this.getNextUpgrade(facilityId);
+    if (!facility || !upgrade) return undefined;
+
+    const upgraded = this.applyUpgradeBenefits({ ...facility }, upgrade);
+    const current = this.getFacilityStats(facility);
+    const next = this.getFacilityStats(upgraded);
+
+    return {
+      upgrade,
+      current,
+      next,
+      newPrograms: next.programs.filter(id => !current.programs.includes(id))
+    };
+  }
+
+  private getFacilityStats(facility: TrainingFacility): FacilityStats {
+    return {
+      level: facility.level,
+      capacity: facility.capacity,
+      bonusMultiplier: facility.bonusMultiplier,
+      speedBonus: this.getFacilitySpeedBonus(facility),
+      programs: this.getProgramIds(facility)
     };
   }
 
+  private applyUpgradeBenefits(facility: TrainingFacility, upgrade: FacilityUpgrade): TrainingFacility {
+    facility.level = upgrade.level;
+    facility.capacity += upgrade.benefits.capacityIncrease || 0;
+    facility.bonusMultiplier += upgrade.benefits.bonusMultiplier || 0;
+    facility.speedBonus += upgrade.benefits.speedBonus || 0;
+    return facility;
+  }
+
+  // Checks requirements only; the caller pays the cost and consumes the items
   upgradeFacility(
     facilityId: string,
-    context: GameContext
+    context: GameContext,
+    currentTime: number = Date.now()
   ): {
     success: boolean;
     newLevel?: number;
@@ -377,69 +556,93 @@ export class PokemonTrainingFacility {
       return { success: false, error: 'Player level too low' };
     }
 
+    if (!this.hasItems(nextUpgrade.requirements.itemsRequired, context)) {
+      return { success: false, error: 'Required items missing' };
+    }
+
     const playerMoney = context.gameState.player?.money || 0;
     if (playerMoney < nextUpgrade.cost) {
       return { success: false, error: 'Insufficient funds' };
     }
 
-    // Apply upgrade
-    facility.level += 1;
-    if (nextUpgrade.benefits.capacityIncrease) {
-      facility.capacity += nextUpgrade.benefits.capacityIncrease;
-    }
-    if (nextUpgrade.benefits.bonusMultiplier) {
-      facility.bonusMultiplier += nextUpgrade.benefits.bonusMultiplier;
-    }
+    // Apply upgrade; added capacity starts queued Pokemon right away
+    this.applyUpgradeBenefits(facility, nextUpgrade);
+    this.startQueuedSessions(facilityId, currentTime);
+    this.notifyChange();
 
     return { success: true, newLevel: facility.level };
   }
 
   getActiveSessions(facilityId?: string): TrainingSlot[] {
-    const sessions = Array.from(this.activeTrainingSessions.values());
-    return facilityId 
-      ? sessions.filter(s => s.facilityId === facilityId && s.status === 'active')
-      : sessions.filter(s => s.status === 'active');
+    return this.getSessions('active', facilityId);
+  }
+
+  // Waiting Pokemon in the order they joined the queue
+  getQueuedSessions(facilityId?: string): TrainingSlot[] {
+    return this.getSessions('queued', facilityId).sort((a, b) => (a.queuedAt ?? 0) - (b.queuedAt ?? 0));
+  }
+
+  getTrainingSlots(): TrainingSlot[] {
+    return Array.from(this.activeTrainingSessions.values()).filter(s => s.status !== 'cancelled');
+  }
+
+  // The slot a Pokemon is training, waiting or paused in
+  getPokemonSlot(pokemonId: string): TrainingSlot | undefined {
+    return Array.from(this.activeTrainingSessions.values()).find(session =>
+      session.pokemonId === pokemonId && ['queued', 'active', 'paused'].includes(session.status)
+    );
+  }
+
+  getQueueLimit(facility: TrainingFacility): number {
+    return facility.capacity * QUEUE_PER_SLOT;
+  }
+
+  private getSessions(status: TrainingSlot['status'], facilityId?: string): TrainingSlot[] {
+    return Array.from(this.activeTrainingSessions.values())
+      .filter(s => s.status === status && (!facilityId || s.facilityId === facilityId));
   }
 
   getAvailableFacilities(context: GameContext): TrainingFacility[] {
     const playerLevel = context.gameState.player?.level || 1;
-    const builtFacilities = this.getBuiltFacilities(context);
-    
-    return Array.from(this.facilities.values()).filter(facility => {
-      const reqs = facility.unlockRequirements;
-      
-      // Check player level
-      if (reqs.playerLevel && playerLevel < reqs.playerLevel) {
-        return false;
-      }
-      
-      // Check required facilities
-      if (reqs.facilitiesBuilt) {
-        const hasAllRequired = reqs.facilitiesBuilt.every(reqFacility => 
-          builtFacilities.includes(reqFacility)
-        );
-        if (!hasAllRequired) return false;
-      }
-      
-      return true;
-    });
+    const available = new Set<string>();
+
+    // Facilities unlock in chains, so keep resolving until nothing new opens up
+    let changed = true;
+    while (changed) {
+      changed = false;
+      this.facilities.forEach(facility => {
+        if (available.has(facility.id)) return;
+        const reqs = facility.unlockRequirements;
+
+        // Check player level
+        if (reqs.playerLevel && playerLevel < reqs.playerLevel) return;
+
+        // Check required facilities
+        if (reqs.facilitiesBuilt && !reqs.facilitiesBuilt.every(reqFacility => available.has(reqFacility))) return;
+
+        // Check required items
+        if (!this.hasItems(reqs.itemsRequired, context)) return;
+
+        available.add(facility.id);
+        changed = true;
+      });
+    }
+
+    return Array.from(this.facilities.values()).filter(facility => available.has(facility.id));
   }
 
-  private getBuiltFacilities(context: GameContext): string[] {
-    // This would integrate with the game state to get built facilities
-    // For now, return a basic set
-    return ['basic_gym'];
+  private hasItems(items: Array<{ itemId: string; quantity: number }> | undefined, context: GameContext): boolean {
+    return (items || []).every(required =>
+      (context.gameState.inventory?.find(item => item.id === required.itemId)?.quantity || 0) >= required.quantity
+    );
   }
 
   private getFacilitySpeedBonus(facility: TrainingFacility): number {
-    // Calculate speed bonus based on facility level and type
-    return Math.min(0.5, facility.level * 0.1);
+    return Math.min(MAX_SPEED_BONUS, facility.speedBonus);
   }
 
   private getPokemonById(pokemonId: string, context: GameContext): PokemonInstance | null {
-    // This would integrate with the game state to find the Pokemon
-    // For now, return null - this would be implemented with the unified data system
-    return null;
+    return context.gameState.pokemon.find(pokemon => pokemon.id === pokemonId) ?? null;
   }
 
   getFacilityMaintenanceCosts(): Array<{ facilityId: string; cost: number }> {
@@ -448,6 +651,47 @@ export class PokemonTrainingFacility {
       cost: facility.maintenanceCost * facility.level
     }));
   }
+
+  // Persistence (synced into GameData by the game state manager)
+  exportState(): PokemonTrainingState {
+    return {
+      slots: Array.from(this.activeTrainingSessions.values())
+        .filter(slot => slot.status !== 'cancelled')
+        .map(slot => ({ ...slot })),
+      facilityLevels: Object.fromEntries(
+        Array.from(this.facilities.values()).map(facility => [facility.id, facility.level])
+      )
+    };
+  }
+
+  // Training that finished while the game was closed completes based on wall-clock time
+  restoreState(state: PokemonTrainingState, currentTime: number = Date.now()): void {
+    this.facilities = this.initializeFacilities();
+    Object.entries(state.facilityLevels || {}).forEach(([facilityId, level]) => {
+      const facility = this.facilities.get(facilityId);
+      if (!facility) return;
+      (this.facilityUpgrades.get(facilityId) || [])
+        .filter(upgrade => upgrade.level <= level)
+        .forEach(upgrade => this.applyUpgradeBenefits(facility, upgrade));
+    });
+
+    this.activeTrainingSessions = new Map(state.slots.map(slot => [
+      slot.id,
+      { ...slot, duration: slot.duration ?? slot.endTime - slot.startTime }
+    ]));
+    this.updateTrainingSessions(currentTime);
+  }
+
+  addChangeListener(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener());
+  }
 }
 
-export const pokemonTrainingFacility = new PokemonTrainingFacility();
\ No newline at end of file
+export const pokemonTrainingFacility = new PokemonTrainingFacility();
@@ -7,7 +7,7 @@ import { EventEmitter } from 'events'
 
 export interface DataChangeEvent {
   type: 'data_changed'
-  category: 'trainers' | 'pokemon' | 'expeditions' | 'economy' | 'player' | 'system'
+  category: 'trainers' | 'pokemon' | 'expeditions' | 'economy' | 'player' | 'inventory' | 'facilities' | 'system'
   action: 'create' | 'update' | 'delete' | 'bulk_update'
   entityId?: string
   data?: any
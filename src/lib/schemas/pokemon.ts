@@ -48,6 +48,7 @@ export interface PokemonInstance {
   ballType?: string
   markings?: string[]
   nickname?: string
+  heldItem?: string
 }
 
 export interface PokemonSpecies {
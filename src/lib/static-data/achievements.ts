@@ -0,0 +1,181 @@
+import type { AchievementDefinition, AchievementMetric } from './types'
+
+/**
+ * アチーブメント定義データ
+ * 指標（metric）が目標値（target）に達すると解除される
+ */
+
+export const ACHIEVEMENT_DEFINITIONS: Record<string, AchievementDefinition> = {
+  // =================== 捕獲 ===================
+  first_capture: {
+    id: 'first_capture',
+    title: 'はじめてのゲット',
+    description: 'ポケモンを1匹捕獲する',
+    category: 'capture',
+    tier: 'bronze',
+    points: 10,
+    metric: 'pokemon_caught',
+    target: 1,
+    rewards: { money: 500, items: [{ itemId: 'potion', quantity: 3 }] },
+    hidden: false
+  },
+  capture_10: {
+    id: 'capture_10',
+    title: '駆け出しコレクター',
+    description: 'ポケモンを10匹捕獲する',
+    category: 'capture',
+    tier: 'silver',
+    points: 25,
+    metric: 'pokemon_caught',
+    target: 10,
+    rewards: { money: 2000, items: [{ itemId: 'capture_lure', quantity: 2 }] },
+    hidden: false
+  },
+  capture_50: {
+    id: 'capture_50',
+    title: 'ポケモンマスターへの道',
+    description: 'ポケモンを50匹捕獲する',
+    category: 'capture',
+    tier: 'gold',
+    points: 50,
+    metric: 'pokemon_caught',
+    target: 50,
+    rewards: { money: 10000, items: [{ itemId: 'capture_charm', quantity: 1 }], titles: ['コレクター'] },
+    hidden: false
+  },
+
+  // =================== 派遣 ===================
+  first_expedition: {
+    id: 'first_expedition',
+    title: 'はじめての派遣',
+    description: '派遣を1回成功させる',
+    category: 'expedition',
+    tier: 'bronze',
+    points: 10,
+    metric: 'expeditions_completed',
+    target: 1,
+    rewards: { money: 500 },
+    hidden: false
+  },
+  expedition_25: {
+    id: 'expedition_25',
+    title: '敏腕ディスパッチャー',
+    description: '派遣を25回成功させる',
+    category: 'expedition',
+    tier: 'silver',
+    points: 30,
+    metric: 'expeditions_completed',
+    target: 25,
+    rewards: { money: 5000, items: [{ itemId: 'super_potion', quantity: 5 }] },
+    hidden: false
+  },
+  expedition_100: {
+    id: 'expedition_100',
+    title: '伝説の派遣所',
+    description: '派遣を100回成功させる',
+    category: 'expedition',
+    tier: 'platinum',
+    points: 100,
+    metric: 'expeditions_completed',
+    target: 100,
+    rewards: { money: 30000, items: [{ itemId: 'max_potion', quantity: 5 }], titles: ['名所長'] },
+    hidden: true
+  },
+
+  // =================== 経済 ===================
+  money_50000: {
+    id: 'money_50000',
+    title: '堅実経営',
+    description: '所持金が₽50,000に到達する',
+    category: 'economy',
+    tier: 'bronze',
+    points: 15,
+    metric: 'money',
+    target: 50000,
+    rewards: { items: [{ itemId: 'berry_oran', quantity: 5 }] },
+    hidden: false
+  },
+  money_200000: {
+    id: 'money_200000',
+    title: '黒字のスクール',
+    description: '所持金が₽200,000に到達する',
+    category: 'economy',
+    tier: 'gold',
+    points: 50,
+    metric: 'money',
+    target: 200000,
+    rewards: { items: [{ itemId: 'max_potion', quantity: 3 }], titles: ['やり手経営者'] },
+    hidden: false
+  },
+  money_1000000: {
+    id: 'money_1000000',
+    title: 'ミリオネア',
+    description: '所持金が₽1,000,000に到達する',
+    category: 'economy',
+    tier: 'legendary',
+    points: 150,
+    metric: 'money',
+    target: 1000000,
+    rewards: { titles: ['ミリオネア'] },
+    hidden: true
+  },
+
+  // =================== 施設 ===================
+  facility_level_3: {
+    id: 'facility_level_3',
+    title: '設備投資',
+    description: 'いずれかの施設をレベル3にする',
+    category: 'facility',
+    tier: 'bronze',
+    points: 15,
+    metric: 'facility_level',
+    target: 3,
+    rewards: { money: 1500 },
+    hidden: false
+  },
+  facility_level_5: {
+    id: 'facility_level_5',
+    title: '最新鋭の施設',
+    description: 'いずれかの施設をレベル5にする',
+    category: 'facility',
+    tier: 'silver',
+    points: 30,
+    metric: 'facility_level',
+    target: 5,
+    rewards: { money: 5000 },
+    hidden: false
+  },
+  facility_level_10: {
+    id: 'facility_level_10',
+    title: '至高の設備',
+    description: 'いずれかの施設をレベル10にする',
+    category: 'facility',
+    tier: 'gold',
+    points: 60,
+    metric: 'facility_level',
+    target: 10,
+    rewards: { money: 20000, titles: ['建築家'] },
+    hidden: false
+  }
+}
+
+/**
+ * アチーブメント定義を取得
+ */
+export const getAchievementDefinition = (achievementId: string): AchievementDefinition | undefined => {
+  return ACHIEVEMENT_DEFINITIONS[achievementId]
+}
+
+/**
+ * 全アチーブメント定義を取得
+ */
+export const getAllAchievements = (): AchievementDefinition[] => {
+  return Object.values(ACHIEVEMENT_DEFINITIONS)
+}
+
+/**
+ * 指標ごとにアチーブメント定義を取得
+ */
+export const getAchievementsByMetric = (metric: AchievementMetric): AchievementDefinition[] => {
+  return Object.values(ACHIEVEMENT_DEFINITIONS).filter(achievement => achievement.metric === metric)
+}
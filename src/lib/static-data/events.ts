@@ -0,0 +1,32 @@
+import type { GameEventDefinition } from './types'
+import eventData from './events.json'
+
+/**
+ * イベントカレンダー定義
+ * 季節イベント・特別イベントの開催期間と効果は events.json で管理する
+ */
+
+export const EVENT_DEFINITIONS: Record<string, GameEventDefinition> = Object.fromEntries(
+  (eventData as GameEventDefinition[]).map(event => [event.id, event])
+)
+
+/**
+ * イベント定義を取得
+ */
+export const getEventDefinition = (eventId: string): GameEventDefinition | undefined => {
+  return EVENT_DEFINITIONS[eventId]
+}
+
+/**
+ * 全イベント定義を取得
+ */
+export const getAllEvents = (): GameEventDefinition[] => {
+  return Object.values(EVENT_DEFINITIONS)
+}
+
+/**
+ * 種別ごとにイベント定義を取得
+ */
+export const getEventsByKind = (kind: GameEventDefinition['kind']): GameEventDefinition[] => {
+  return getAllEvents().filter(event => event.kind === kind)
+}
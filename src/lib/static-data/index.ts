@@ -5,9 +5,14 @@
 
 import { JOB_DEFINITIONS, getJobDefinition, getAllJobs, getJobsByUnlockStatus, calculateTrainerSalary, getJobSkillBonus, getJobPersonalityTendency } from './jobs'
 import { LOCATION_DEFINITIONS, getLocationDefinition, getAllLocations, getLocationsByDifficulty, getLocationsByEnvironment, getUnlockedLocations, getRecommendedLocationsForTrainer, calculateLocationReward, getPokemonEncounterChance } from './locations'
-import { POKEMON_SPECIES, TYPE_DEFINITIONS, getPokemonSpecies, getAllPokemonSpecies, getPokemonByType, getPokemonByRarity, getPokemonByHabitat, calculatePokemonStats, getEvolutionRequirement, calculateCatchDifficulty, getPokemonMarketValue, getTypeColor, getTypeEffectiveness } from './pokemon'
+import { ITEM_DEFINITIONS, getItemDefinition, getAllItems, getItemsByUsage } from './items'
+import { MOVE_DEFINITIONS, getMoveDefinition, getAllMoves, getMovesByType } from './moves'
+import { getLearnset, getMovesLearnedBetween } from './learnsets'
+import { ACHIEVEMENT_DEFINITIONS, getAchievementDefinition, getAllAchievements, getAchievementsByMetric } from './achievements'
+import { EVENT_DEFINITIONS, getEventDefinition, getAllEvents, getEventsByKind } from './events'
+import { POKEMON_SPECIES, TYPE_DEFINITIONS, TYPE_CHART, getPokemonSpecies, getAllPokemonSpecies, getPokemonByType, getPokemonByRarity, getPokemonByHabitat, calculatePokemonStats, getEvolutionRequirement, calculateCatchDifficulty, getPokemonMarketValue, getTypeColor, getTypeEffectiveness } from './pokemon'
 
-import type { StaticDataDB, JobDefinition, LocationDefinition, PokemonSpeciesDefinition, TrainerJob, PokemonType } from './types'
+import type { StaticDataDB, JobDefinition, LocationDefinition, PokemonSpeciesDefinition, ItemDefinition, MoveDefinition, LearnsetEntry, AchievementDefinition, AchievementMetric, GameEventDefinition, TrainerJob, PokemonType } from './types'
 
 /**
  * 静的データベースクラス
@@ -89,8 +94,8 @@ export class StaticDataManager {
     return calculateLocationReward(location, trainerLevel, success)
   }
   
-  getPokemonEncounters(location: LocationDefinition, timeOfDay?: string, weather?: string): LocationDefinition['pokemonEncounters'] {
-    return getPokemonEncounterChance(location, timeOfDay, weather)
+  getPokemonEncounters(location: LocationDefinition, timeOfDay?: string, weather?: string, season?: string): LocationDefinition['pokemonEncounters'] {
+    return getPokemonEncounterChance(location, timeOfDay, weather, season)
   }
   
   // =================== ポケモンデータ ===================
@@ -139,6 +144,70 @@ export class StaticDataManager {
     return getTypeEffectiveness(attackType, defendType1, defendType2)
   }
   
+  // =================== 技データ ===================
+  
+  getMove(moveName: string): MoveDefinition | undefined {
+    return getMoveDefinition(moveName)
+  }
+  
+  getAllMoves(): MoveDefinition[] {
+    return getAllMoves()
+  }
+  
+  getMovesByType(type: PokemonType): MoveDefinition[] {
+    return getMovesByType(type)
+  }
+  
+  getLearnset(speciesId: number): LearnsetEntry[] {
+    return getLearnset(speciesId)
+  }
+  
+  getMovesLearnedBetween(speciesId: number, fromLevel: number, toLevel: number): string[] {
+    return getMovesLearnedBetween(speciesId, fromLevel, toLevel)
+  }
+  
+  // =================== アイテムデータ ===================
+  
+  getItem(itemId: string): ItemDefinition | undefined {
+    return getItemDefinition(itemId)
+  }
+  
+  getAllItems(): ItemDefinition[] {
+    return getAllItems()
+  }
+  
+  getItemsByUsage(usage: ItemDefinition['usage']): ItemDefinition[] {
+    return getItemsByUsage(usage)
+  }
+  
+  // =================== アチーブメントデータ ===================
+  
+  getAchievement(achievementId: string): AchievementDefinition | undefined {
+    return getAchievementDefinition(achievementId)
+  }
+  
+  getAllAchievements(): AchievementDefinition[] {
+    return getAllAchievements()
+  }
+  
+  getAchievementsByMetric(metric: AchievementMetric): AchievementDefinition[] {
+    return getAchievementsByMetric(metric)
+  }
+  
+  // =================== イベントデータ ===================
+  
+  getEvent(eventId: string): GameEventDefinition | undefined {
+    return getEventDefinition(eventId)
+  }
+  
+  getAllEvents(): GameEventDefinition[] {
+    return getAllEvents()
+  }
+  
+  getEventsByKind(kind: GameEventDefinition['kind']): GameEventDefinition[] {
+    return getEventsByKind(kind)
+  }
+  
   // =================== 統合検索・分析 ===================
   
   /**
@@ -325,6 +394,9 @@ export class StaticDataManager {
       locations: Object.keys(LOCATION_DEFINITIONS).length,
       pokemon: Object.keys(POKEMON_SPECIES).length,
       types: Object.keys(TYPE_DEFINITIONS).length,
+      items: Object.keys(ITEM_DEFINITIONS).length,
+      achievements: Object.keys(ACHIEVEMENT_DEFINITIONS).length,
+      events: Object.keys(EVENT_DEFINITIONS).length,
       validation: this.validateData()
     }
   }
@@ -340,7 +412,12 @@ export {
   JOB_DEFINITIONS,
   LOCATION_DEFINITIONS,
   POKEMON_SPECIES,
-  TYPE_DEFINITIONS
+  TYPE_DEFINITIONS,
+  TYPE_CHART,
+  ITEM_DEFINITIONS,
+  MOVE_DEFINITIONS,
+  ACHIEVEMENT_DEFINITIONS,
+  EVENT_DEFINITIONS
 }
 
 export * from './types'
\ No newline at end of file
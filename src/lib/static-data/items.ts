@@ -0,0 +1,301 @@
+import type { ItemDefinition } from './types'
+import type { Item } from '@/lib/game-state/types'
+
+/**
+ * アイテム定義データ
+ * 回復薬・捕獲補助・進化の石などのマスターデータ
+ */
+
+export const ITEM_DEFINITIONS: Record<string, ItemDefinition> = {
+  // =================== 回復アイテム ===================
+  berry_oran: {
+    id: 'berry_oran',
+    name: 'Oran Berry',
+    nameJa: 'オレンのみ',
+    type: 'medicine',
+    usage: 'healing',
+    description: 'HPを10回復する木の実',
+    value: 100,
+    maxStack: 99,
+    effects: { healing: 10 }
+  },
+  potion: {
+    id: 'potion',
+    name: 'Potion',
+    nameJa: 'キズぐすり',
+    type: 'medicine',
+    usage: 'healing',
+    description: 'ポケモンのHPを20回復する',
+    value: 200,
+    maxStack: 99,
+    effects: { healing: 20 }
+  },
+  super_potion: {
+    id: 'super_potion',
+    name: 'Super Potion',
+    nameJa: 'いいキズぐすり',
+    type: 'medicine',
+    usage: 'healing',
+    description: 'ポケモンのHPを60回復する',
+    value: 700,
+    maxStack: 99,
+    effects: { healing: 60 }
+  },
+  max_potion: {
+    id: 'max_potion',
+    name: 'Max Potion',
+    nameJa: 'まんたんのくすり',
+    type: 'medicine',
+    usage: 'healing',
+    description: 'ポケモンのHPを全回復する',
+    value: 2500,
+    maxStack: 50,
+    effects: { healing: 0 }
+  },
+  first_aid_kit: {
+    id: 'first_aid_kit',
+    name: 'First Aid Kit',
+    nameJa: 'きゅうきゅうばこ',
+    type: 'medicine',
+    usage: 'healing',
+    description: 'トレーナーやポケモンのけが・病気の療養期間を4時間短くする',
+    value: 600,
+    maxStack: 50,
+    effects: { recoveryHours: 4 }
+  },
+  full_heal: {
+    id: 'full_heal',
+    name: 'Full Heal',
+    nameJa: 'なんでもなおし',
+    type: 'medicine',
+    usage: 'healing',
+    description: 'トレーナーやポケモンのけが・病気の療養期間を12時間短くする',
+    value: 1500,
+    maxStack: 50,
+    effects: { recoveryHours: 12 }
+  },
+
+  // =================== 捕獲補助 ===================
+  capture_lure: {
+    id: 'capture_lure',
+    name: 'Capture Lure',
+    nameJa: 'おびきよせのかおり',
+    type: 'consumable',
+    usage: 'capture',
+    description: '次の捕獲の成功率を30%上げる',
+    value: 800,
+    maxStack: 20,
+    effects: { captureRateBoost: 0.3 }
+  },
+  capture_charm: {
+    id: 'capture_charm',
+    name: 'Capture Charm',
+    nameJa: 'ほかくのおまもり',
+    type: 'rare',
+    usage: 'capture',
+    description: '次の捕獲の成功率を大きく上げる',
+    value: 5000,
+    maxStack: 5,
+    effects: { captureRateBoost: 0.8 }
+  },
+
+  // =================== 進化の石 ===================
+  thunder_stone: {
+    id: 'thunder_stone',
+    name: 'Thunder Stone',
+    nameJa: 'かみなりのいし',
+    type: 'rare',
+    usage: 'evolution',
+    description: '特定のポケモンを進化させる不思議な石',
+    value: 3000,
+    maxStack: 10,
+    effects: {}
+  },
+  water_stone: {
+    id: 'water_stone',
+    name: 'Water Stone',
+    nameJa: 'みずのいし',
+    type: 'rare',
+    usage: 'evolution',
+    description: '特定のポケモンを進化させる不思議な石',
+    value: 3000,
+    maxStack: 10,
+    effects: {}
+  },
+  fire_stone: {
+    id: 'fire_stone',
+    name: 'Fire Stone',
+    nameJa: 'ほのおのいし',
+    type: 'rare',
+    usage: 'evolution',
+    description: '特定のポケモンを進化させる不思議な石',
+    value: 3000,
+    maxStack: 10,
+    effects: {}
+  },
+  leaf_stone: {
+    id: 'leaf_stone',
+    name: 'Leaf Stone',
+    nameJa: 'リーフのいし',
+    type: 'rare',
+    usage: 'evolution',
+    description: '特定のポケモンを進化させる不思議な石',
+    value: 3000,
+    maxStack: 10,
+    effects: {}
+  },
+  moon_stone: {
+    id: 'moon_stone',
+    name: 'Moon Stone',
+    nameJa: 'つきのいし',
+    type: 'rare',
+    usage: 'evolution',
+    description: '特定のポケモンを進化させる不思議な石',
+    value: 3000,
+    maxStack: 10,
+    effects: {}
+  },
+
+  // =================== 育て屋の道具 ===================
+  everstone: {
+    id: 'everstone',
+    name: 'Everstone',
+    nameJa: 'かわらずのいし',
+    type: 'tool',
+    usage: 'breeding',
+    description: '育て屋で持たせると、持たせた親の性格がタマゴに必ず受け継がれる',
+    value: 3000,
+    maxStack: 10,
+    effects: { keepsNature: true }
+  },
+  destiny_knot: {
+    id: 'destiny_knot',
+    name: 'Destiny Knot',
+    nameJa: 'あかいいと',
+    type: 'tool',
+    usage: 'breeding',
+    description: '育て屋で持たせると、親から遺伝する個体値が3つから5つに増える',
+    value: 10000,
+    maxStack: 10,
+    effects: { inheritedIVs: 5 }
+  },
+
+  // =================== 努力値リセット ===================
+  pomeg_berry: {
+    id: 'pomeg_berry',
+    name: 'Pomeg Berry',
+    nameJa: 'ザロクのみ',
+    type: 'consumable',
+    usage: 'effort',
+    description: 'HPの努力値が10下がる',
+    value: 500,
+    maxStack: 99,
+    effects: { effortReduction: 10, effortStat: 'hp' }
+  },
+  kelpsy_berry: {
+    id: 'kelpsy_berry',
+    name: 'Kelpsy Berry',
+    nameJa: 'ネコブのみ',
+    type: 'consumable',
+    usage: 'effort',
+    description: 'こうげきの努力値が10下がる',
+    value: 500,
+    maxStack: 99,
+    effects: { effortReduction: 10, effortStat: 'attack' }
+  },
+  qualot_berry: {
+    id: 'qualot_berry',
+    name: 'Qualot Berry',
+    nameJa: 'タポルのみ',
+    type: 'consumable',
+    usage: 'effort',
+    description: 'ぼうぎょの努力値が10下がる',
+    value: 500,
+    maxStack: 99,
+    effects: { effortReduction: 10, effortStat: 'defense' }
+  },
+  hondew_berry: {
+    id: 'hondew_berry',
+    name: 'Hondew Berry',
+    nameJa: 'ロメのみ',
+    type: 'consumable',
+    usage: 'effort',
+    description: 'とくこうの努力値が10下がる',
+    value: 500,
+    maxStack: 99,
+    effects: { effortReduction: 10, effortStat: 'specialAttack' }
+  },
+  grepa_berry: {
+    id: 'grepa_berry',
+    name: 'Grepa Berry',
+    nameJa: 'ウブのみ',
+    type: 'consumable',
+    usage: 'effort',
+    description: 'とくぼうの努力値が10下がる',
+    value: 500,
+    maxStack: 99,
+    effects: { effortReduction: 10, effortStat: 'specialDefense' }
+  },
+  tamato_berry: {
+    id: 'tamato_berry',
+    name: 'Tamato Berry',
+    nameJa: 'マトマのみ',
+    type: 'consumable',
+    usage: 'effort',
+    description: 'すばやさの努力値が10下がる',
+    value: 500,
+    maxStack: 99,
+    effects: { effortReduction: 10, effortStat: 'speed' }
+  },
+  reset_candy: {
+    id: 'reset_candy',
+    name: 'Reset Candy',
+    nameJa: 'リセットキャンディ',
+    type: 'consumable',
+    usage: 'effort',
+    description: '全ての能力の努力値が0に戻る',
+    value: 8000,
+    maxStack: 10,
+    effects: { effortReduction: 0 }
+  }
+}
+
+/**
+ * アイテム定義を取得
+ */
+export const getItemDefinition = (itemId: string): ItemDefinition | undefined => {
+  return ITEM_DEFINITIONS[itemId]
+}
+
+/**
+ * 全アイテム定義を取得
+ */
+export const getAllItems = (): ItemDefinition[] => {
+  return Object.values(ITEM_DEFINITIONS)
+}
+
+/**
+ * 用途別にアイテム定義を取得
+ */
+export const getItemsByUsage = (usage: ItemDefinition['usage']): ItemDefinition[] => {
+  return Object.values(ITEM_DEFINITIONS).filter(item => item.usage === usage)
+}
+
+/**
+ * 定義からインベントリ用のアイテムを生成
+ */
+export const createItem = (itemId: string, quantity: number = 1): Item | null => {
+  const definition = ITEM_DEFINITIONS[itemId]
+  if (!definition) return null
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    nameJa: definition.nameJa,
+    type: definition.type,
+    description: definition.description,
+    quantity,
+    value: definition.value,
+    effects: { ...definition.effects }
+  }
+}
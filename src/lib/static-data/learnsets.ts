@@ -0,0 +1,82 @@
+import type { LearnsetEntry } from './types'
+import { POKEMON_SPECIES } from './pokemon'
+
+/**
+ * 種族ごとのレベルアップ習得技
+ * POKEMON_SPECIES に習得技が定義されていない種族を補完する
+ */
+
+export const LEARNSETS: Record<number, LearnsetEntry[]> = {
+  1: [ // フシギダネ
+    { level: 1, move: 'たいあたり' },
+    { level: 3, move: 'なきごえ' },
+    { level: 7, move: 'つるのムチ' },
+    { level: 9, move: 'やどりぎのタネ' },
+    { level: 13, move: 'どくのこな' },
+    { level: 13, move: 'ねむりごな' },
+    { level: 19, move: 'はっぱカッター' },
+    { level: 27, move: 'はなびらのまい' },
+    { level: 37, move: 'ソーラービーム' }
+  ],
+  2: [ // フシギソウ
+    { level: 1, move: 'たいあたり' },
+    { level: 1, move: 'なきごえ' },
+    { level: 7, move: 'つるのムチ' },
+    { level: 9, move: 'やどりぎのタネ' },
+    { level: 13, move: 'どくのこな' },
+    { level: 13, move: 'ねむりごな' },
+    { level: 20, move: 'はっぱカッター' },
+    { level: 31, move: 'はなびらのまい' },
+    { level: 44, move: 'ソーラービーム' }
+  ],
+  7: [ // ゼニガメ
+    { level: 1, move: 'たいあたり' },
+    { level: 4, move: 'しっぽをふる' },
+    { level: 7, move: 'みずでっぽう' },
+    { level: 10, move: 'まるくなる' },
+    { level: 13, move: 'バブルこうせん' },
+    { level: 16, move: 'かみつく' },
+    { level: 28, move: 'なみのり' },
+    { level: 40, move: 'ハイドロポンプ' }
+  ],
+  144: [ // フリーザー
+    { level: 1, move: 'こごえるかぜ' },
+    { level: 1, move: 'つばさでうつ' },
+    { level: 8, move: 'こおりのつぶて' },
+    { level: 22, move: 'エアスラッシュ' },
+    { level: 36, move: 'れいとうビーム' },
+    { level: 50, move: 'ふぶき' },
+    { level: 64, move: 'ぼうふう' }
+  ]
+}
+
+/**
+ * 種族の習得技一覧を取得（レベル順）
+ */
+export const getLearnset = (speciesId: number): LearnsetEntry[] => {
+  const learnset = POKEMON_SPECIES[speciesId]?.levelUpMoves || LEARNSETS[speciesId] || []
+  return [...learnset].sort((a, b) => a.level - b.level)
+}
+
+/**
+ * レベルアップで新たに覚える技を取得（fromLevel より上、toLevel 以下）
+ */
+export const getMovesLearnedBetween = (speciesId: number, fromLevel: number, toLevel: number): string[] => {
+  return getLearnset(speciesId)
+    .filter(entry => entry.level > fromLevel && entry.level <= toLevel)
+    .map(entry => entry.move)
+    .filter((move, index, moves) => moves.indexOf(move) === index)
+}
+
+/**
+ * 指定レベル時点で覚えている技（直近に覚えた最大4つ）
+ */
+export const getMovesKnownAtLevel = (speciesId: number, level: number): string[] => {
+  const moves = getLearnset(speciesId)
+    .filter(entry => entry.level <= level)
+    .map(entry => entry.move)
+  
+  return moves
+    .filter((move, index) => moves.lastIndexOf(move) === index)
+    .slice(-4)
+}
@@ -592,10 +592,12 @@ export const calculateLocationReward = (
 export const getPokemonEncounterChance = (
   location: LocationDefinition, 
   timeOfDay?: string, 
-  weather?: string
+  weather?: string,
+  season?: string
 ): LocationDefinition['pokemonEncounters'] => {
   return location.pokemonEncounters.filter(encounter => {
     if (encounter.timeOfDay && timeOfDay && encounter.timeOfDay !== timeOfDay) return false
+    if (encounter.seasonality && season && encounter.seasonality !== season) return false
     return true
   }).map(encounter => ({
     ...encounter,
@@ -0,0 +1,159 @@
+import type { MoveDefinition, PokemonType } from './types'
+
+/**
+ * 技定義データ
+ * キーは Pokemon.moves に保存される技名（日本語）
+ */
+
+export const MOVE_DEFINITIONS: Record<string, MoveDefinition> = {
+  // =================== ノーマル ===================
+  'たいあたり': { name: 'Tackle', nameJa: 'たいあたり', type: 'normal', category: 'physical', power: 40, accuracy: 100, pp: 35, description: '体当たりで攻撃する' },
+  'はたく': { name: 'Pound', nameJa: 'はたく', type: 'normal', category: 'physical', power: 40, accuracy: 100, pp: 35, description: '尻尾や手ではたいて攻撃する' },
+  'ひっかく': { name: 'Scratch', nameJa: 'ひっかく', type: 'normal', category: 'physical', power: 40, accuracy: 100, pp: 35, description: '鋭い爪でひっかいて攻撃する' },
+  'でんこうせっか': { name: 'Quick Attack', nameJa: 'でんこうせっか', type: 'normal', category: 'physical', power: 40, accuracy: 100, pp: 30, priority: 1, description: '目にも止まらぬ速さで必ず先制攻撃できる' },
+  'きりさく': { name: 'Slash', nameJa: 'きりさく', type: 'normal', category: 'physical', power: 70, accuracy: 100, pp: 20, description: '爪や鎌で切り裂いて攻撃する' },
+  'のしかかり': { name: 'Body Slam', nameJa: 'のしかかり', type: 'normal', category: 'physical', power: 85, accuracy: 100, pp: 15, statusEffect: { condition: 'paralysis', chance: 0.3 }, description: '全身でのしかかる。まひさせることがある' },
+  'とっしん': { name: 'Take Down', nameJa: 'とっしん', type: 'normal', category: 'physical', power: 90, accuracy: 85, pp: 20, description: '猛烈な勢いで相手にぶつかる' },
+  'はかいこうせん': { name: 'Hyper Beam', nameJa: 'はかいこうせん', type: 'normal', category: 'special', power: 150, accuracy: 90, pp: 5, description: '強烈な光線で攻撃する' },
+  'わるあがき': { name: 'Struggle', nameJa: 'わるあがき', type: 'normal', category: 'physical', power: 50, accuracy: 100, pp: 1, description: '技のPPがなくなったときに使う' },
+  'なきごえ': { name: 'Growl', nameJa: 'なきごえ', type: 'normal', category: 'status', accuracy: 100, pp: 40, description: 'かわいく鳴いて相手を油断させる' },
+  'しっぽをふる': { name: 'Tail Whip', nameJa: 'しっぽをふる', type: 'normal', category: 'status', accuracy: 100, pp: 30, description: 'かわいく尻尾を振って相手を油断させる' },
+  'かげぶんしん': { name: 'Double Team', nameJa: 'かげぶんしん', type: 'normal', category: 'status', accuracy: 100, pp: 15, description: '素早い動きで分身を作る' },
+  'みがわり': { name: 'Substitute', nameJa: 'みがわり', type: 'normal', category: 'status', accuracy: 100, pp: 10, description: '自分の分身を作り出す' },
+  'まるくなる': { name: 'Defense Curl', nameJa: 'まるくなる', type: 'normal', category: 'status', accuracy: 100, pp: 40, description: '体を丸めて身を守る' },
+  'かなしばり': { name: 'Disable', nameJa: 'かなしばり', type: 'normal', category: 'status', accuracy: 100, pp: 20, description: '相手の技を一つ使えなくする' },
+  'じこさいせい': { name: 'Recover', nameJa: 'じこさいせい', type: 'normal', category: 'status', accuracy: 100, pp: 5, description: '自分の体を再生させる' },
+
+  // =================== ほのお ===================
+  'ひのこ': { name: 'Ember', nameJa: 'ひのこ', type: 'fire', category: 'special', power: 40, accuracy: 100, pp: 25, statusEffect: { condition: 'burn', chance: 0.1 }, description: '小さな炎で攻撃する。やけどにすることがある' },
+  'かえんぐるま': { name: 'Flame Wheel', nameJa: 'かえんぐるま', type: 'fire', category: 'physical', power: 60, accuracy: 100, pp: 25, statusEffect: { condition: 'burn', chance: 0.1 }, description: '炎をまとって突進する。やけどにすることがある' },
+  'かえんほうしゃ': { name: 'Flamethrower', nameJa: 'かえんほうしゃ', type: 'fire', category: 'special', power: 90, accuracy: 100, pp: 15, statusEffect: { condition: 'burn', chance: 0.1 }, description: '激しい炎で攻撃する。やけどにすることがある' },
+  'だいもんじ': { name: 'Fire Blast', nameJa: 'だいもんじ', type: 'fire', category: 'special', power: 110, accuracy: 85, pp: 5, statusEffect: { condition: 'burn', chance: 0.1 }, description: '大の字の炎で焼き尽くす。やけどにすることがある' },
+
+  // =================== みず ===================
+  'みずでっぽう': { name: 'Water Gun', nameJa: 'みずでっぽう', type: 'water', category: 'special', power: 40, accuracy: 100, pp: 25, description: '水を勢いよく発射して攻撃する' },
+  'バブルこうせん': { name: 'Bubble Beam', nameJa: 'バブルこうせん', type: 'water', category: 'special', power: 65, accuracy: 100, pp: 20, description: '泡を勢いよく発射して攻撃する' },
+  'なみのり': { name: 'Surf', nameJa: 'なみのり', type: 'water', category: 'special', power: 90, accuracy: 100, pp: 15, description: '大きな波で攻撃する' },
+  'ハイドロポンプ': { name: 'Hydro Pump', nameJa: 'ハイドロポンプ', type: 'water', category: 'special', power: 110, accuracy: 80, pp: 5, description: '大量の水を猛烈な勢いで発射する' },
+
+  // =================== くさ ===================
+  'つるのムチ': { name: 'Vine Whip', nameJa: 'つるのムチ', type: 'grass', category: 'physical', power: 45, accuracy: 100, pp: 25, description: 'しなるつるで相手を叩く' },
+  'はっぱカッター': { name: 'Razor Leaf', nameJa: 'はっぱカッター', type: 'grass', category: 'physical', power: 55, accuracy: 95, pp: 25, description: '葉っぱを飛ばして切りつける' },
+  'はなびらのまい': { name: 'Petal Dance', nameJa: 'はなびらのまい', type: 'grass', category: 'special', power: 120, accuracy: 100, pp: 10, description: '花びらを散らしながら攻撃する' },
+  'ソーラービーム': { name: 'Solar Beam', nameJa: 'ソーラービーム', type: 'grass', category: 'special', power: 120, accuracy: 100, pp: 10, description: '光を集めて束にして発射する' },
+  'ねむりごな': { name: 'Sleep Powder', nameJa: 'ねむりごな', type: 'grass', category: 'status', accuracy: 75, pp: 15, statusEffect: { condition: 'sleep', chance: 1.0 }, description: '眠くなる粉を振りまいて眠らせる' },
+  'やどりぎのタネ': { name: 'Leech Seed', nameJa: 'やどりぎのタネ', type: 'grass', category: 'status', accuracy: 90, pp: 10, description: '宿木を植え付けて体力を奪う' },
+
+  // =================== でんき ===================
+  'でんきショック': { name: 'Thunder Shock', nameJa: 'でんきショック', type: 'electric', category: 'special', power: 40, accuracy: 100, pp: 30, statusEffect: { condition: 'paralysis', chance: 0.1 }, description: '電撃で攻撃する。まひさせることがある' },
+  '10まんボルト': { name: 'Thunderbolt', nameJa: '10まんボルト', type: 'electric', category: 'special', power: 90, accuracy: 100, pp: 15, statusEffect: { condition: 'paralysis', chance: 0.1 }, description: '強い電撃で攻撃する。まひさせることがある' },
+  'かみなり': { name: 'Thunder', nameJa: 'かみなり', type: 'electric', category: 'special', power: 110, accuracy: 70, pp: 10, statusEffect: { condition: 'paralysis', chance: 0.3 }, description: '激しい雷を落とす。まひさせることがある' },
+  'でんじは': { name: 'Thunder Wave', nameJa: 'でんじは', type: 'electric', category: 'status', accuracy: 90, pp: 20, statusEffect: { condition: 'paralysis', chance: 1.0 }, description: '弱い電撃で相手をまひさせる' },
+
+  // =================== こおり ===================
+  'こおりのつぶて': { name: 'Ice Shard', nameJa: 'こおりのつぶて', type: 'ice', category: 'physical', power: 40, accuracy: 100, pp: 30, priority: 1, description: '氷の塊を投げつけ必ず先制攻撃できる' },
+  'こごえるかぜ': { name: 'Icy Wind', nameJa: 'こごえるかぜ', type: 'ice', category: 'special', power: 55, accuracy: 95, pp: 15, description: '凍てつく冷気を吹きつける' },
+  'れいとうビーム': { name: 'Ice Beam', nameJa: 'れいとうビーム', type: 'ice', category: 'special', power: 90, accuracy: 100, pp: 10, statusEffect: { condition: 'freeze', chance: 0.1 }, description: '冷凍ビームで攻撃する。こおらせることがある' },
+  'ふぶき': { name: 'Blizzard', nameJa: 'ふぶき', type: 'ice', category: 'special', power: 110, accuracy: 70, pp: 5, statusEffect: { condition: 'freeze', chance: 0.1 }, description: '激しい吹雪で攻撃する。こおらせることがある' },
+
+  // =================== かくとう ===================
+  'からてチョップ': { name: 'Karate Chop', nameJa: 'からてチョップ', type: 'fighting', category: 'physical', power: 50, accuracy: 100, pp: 25, description: '鋭い手刀で叩き切る' },
+  'にどげり': { name: 'Double Kick', nameJa: 'にどげり', type: 'fighting', category: 'physical', power: 60, accuracy: 100, pp: 30, description: '2本の足で2回蹴りつける' },
+  'かわらわり': { name: 'Brick Break', nameJa: 'かわらわり', type: 'fighting', category: 'physical', power: 75, accuracy: 100, pp: 15, description: '手刀を勢いよく振り下ろす' },
+  'きあいパンチ': { name: 'Focus Punch', nameJa: 'きあいパンチ', type: 'fighting', category: 'physical', power: 150, accuracy: 100, pp: 20, priority: -3, description: '精神を集中させてから繰り出すパンチ' },
+
+  // =================== どく ===================
+  'どくばり': { name: 'Poison Sting', nameJa: 'どくばり', type: 'poison', category: 'physical', power: 15, accuracy: 100, pp: 35, statusEffect: { condition: 'poison', chance: 0.3 }, description: '毒のある針で刺す。どくにすることがある' },
+  'ヘドロばくだん': { name: 'Sludge Bomb', nameJa: 'ヘドロばくだん', type: 'poison', category: 'special', power: 90, accuracy: 100, pp: 10, statusEffect: { condition: 'poison', chance: 0.3 }, description: '汚いヘドロを投げつける。どくにすることがある' },
+  'どくのこな': { name: 'Poison Powder', nameJa: 'どくのこな', type: 'poison', category: 'status', accuracy: 75, pp: 35, statusEffect: { condition: 'poison', chance: 1.0 }, description: '毒の粉を振りまいてどくにする' },
+  'どくどく': { name: 'Toxic', nameJa: 'どくどく', type: 'poison', category: 'status', accuracy: 90, pp: 10, statusEffect: { condition: 'poison', chance: 1.0 }, description: '相手を猛毒の状態にする' },
+
+  // =================== じめん ===================
+  'すなかけ': { name: 'Sand Attack', nameJa: 'すなかけ', type: 'ground', category: 'status', accuracy: 100, pp: 15, description: '砂をかけて命中率を下げる' },
+  'すなじごく': { name: 'Sand Tomb', nameJa: 'すなじごく', type: 'ground', category: 'physical', power: 35, accuracy: 85, pp: 15, description: '砂嵐の中に閉じ込めて攻撃する' },
+  'じならし': { name: 'Bulldoze', nameJa: 'じならし', type: 'ground', category: 'physical', power: 60, accuracy: 100, pp: 20, description: '地面を踏みならして攻撃する' },
+  'マグニチュード': { name: 'Magnitude', nameJa: 'マグニチュード', type: 'ground', category: 'physical', power: 70, accuracy: 100, pp: 30, description: '地面を揺らして攻撃する' },
+  'じしん': { name: 'Earthquake', nameJa: 'じしん', type: 'ground', category: 'physical', power: 100, accuracy: 100, pp: 10, description: '地震の衝撃で攻撃する' },
+
+  // =================== ひこう ===================
+  'つばさでうつ': { name: 'Wing Attack', nameJa: 'つばさでうつ', type: 'flying', category: 'physical', power: 60, accuracy: 100, pp: 35, description: '大きく広げた翼を叩きつける' },
+  'エアスラッシュ': { name: 'Air Slash', nameJa: 'エアスラッシュ', type: 'flying', category: 'special', power: 75, accuracy: 95, pp: 15, description: '空をも切り裂く空気の刃で攻撃する' },
+  'ぼうふう': { name: 'Hurricane', nameJa: 'ぼうふう', type: 'flying', category: 'special', power: 110, accuracy: 70, pp: 10, description: '強烈な風で相手を包み込んで攻撃する' },
+
+  // =================== エスパー ===================
+  'ねんりき': { name: 'Confusion', nameJa: 'ねんりき', type: 'psychic', category: 'special', power: 50, accuracy: 100, pp: 25, description: '念力で攻撃する' },
+  'サイコカッター': { name: 'Psycho Cut', nameJa: 'サイコカッター', type: 'psychic', category: 'physical', power: 70, accuracy: 100, pp: 20, description: '実体化させた心の刃で切り裂く' },
+  'ミストボール': { name: 'Mist Ball', nameJa: 'ミストボール', type: 'psychic', category: 'special', power: 70, accuracy: 100, pp: 5, description: '羽毛のような霧で包み込んで攻撃する' },
+  'サイコキネシス': { name: 'Psychic', nameJa: 'サイコキネシス', type: 'psychic', category: 'special', power: 90, accuracy: 100, pp: 10, description: '強い念力で攻撃する' },
+  'サイコブレイク': { name: 'Psystrike', nameJa: 'サイコブレイク', type: 'psychic', category: 'special', power: 100, accuracy: 100, pp: 10, description: '不思議な念波を実体化させて攻撃する' },
+  'みらいよち': { name: 'Future Sight', nameJa: 'みらいよち', type: 'psychic', category: 'special', power: 120, accuracy: 100, pp: 10, description: '未来に念力の塊を放って攻撃する' },
+  'バリアー': { name: 'Barrier', nameJa: 'バリアー', type: 'psychic', category: 'status', accuracy: 100, pp: 20, description: '頑丈な壁を作り防御を上げる' },
+  'アムネジア': { name: 'Amnesia', nameJa: 'アムネジア', type: 'psychic', category: 'status', accuracy: 100, pp: 20, description: '頭を空っぽにして特防を上げる' },
+  'パワースワップ': { name: 'Power Swap', nameJa: 'パワースワップ', type: 'psychic', category: 'status', accuracy: 100, pp: 10, description: '超能力で能力変化を入れ替える' },
+
+  // =================== むし ===================
+  'いとをはく': { name: 'String Shot', nameJa: 'いとをはく', type: 'bug', category: 'status', accuracy: 95, pp: 40, description: '糸を吹き付けて動きを鈍らせる' },
+  'むしくい': { name: 'Bug Bite', nameJa: 'むしくい', type: 'bug', category: 'physical', power: 60, accuracy: 100, pp: 20, description: '噛みついて攻撃する' },
+  'とんぼがえり': { name: 'U-turn', nameJa: 'とんぼがえり', type: 'bug', category: 'physical', power: 70, accuracy: 100, pp: 20, description: '攻撃した後すぐに戻ってくる' },
+  'シザークロス': { name: 'X-Scissor', nameJa: 'シザークロス', type: 'bug', category: 'physical', power: 80, accuracy: 100, pp: 15, description: '鎌や爪をはさみのように交差させて切り裂く' },
+
+  // =================== いわ ===================
+  'ころがる': { name: 'Rollout', nameJa: 'ころがる', type: 'rock', category: 'physical', power: 30, accuracy: 90, pp: 20, description: '転がって攻撃する' },
+  'ロックブラスト': { name: 'Rock Blast', nameJa: 'ロックブラスト', type: 'rock', category: 'physical', power: 25, accuracy: 90, pp: 10, description: '硬い岩を連続で発射する' },
+  'いわおとし': { name: 'Rock Throw', nameJa: 'いわおとし', type: 'rock', category: 'physical', power: 50, accuracy: 90, pp: 15, description: '小さな岩を持ち上げて投げつける' },
+  'いわなだれ': { name: 'Rock Slide', nameJa: 'いわなだれ', type: 'rock', category: 'physical', power: 75, accuracy: 90, pp: 10, description: '大きな岩を激しくぶつける' },
+  'ストーンエッジ': { name: 'Stone Edge', nameJa: 'ストーンエッジ', type: 'rock', category: 'physical', power: 100, accuracy: 80, pp: 5, description: '尖った岩を相手に突き刺す' },
+
+  // =================== ゴースト ===================
+  'したでなめる': { name: 'Lick', nameJa: 'したでなめる', type: 'ghost', category: 'physical', power: 30, accuracy: 100, pp: 30, statusEffect: { condition: 'paralysis', chance: 0.3 }, description: '長い舌で舐めまわす。まひさせることがある' },
+  'シャドーボール': { name: 'Shadow Ball', nameJa: 'シャドーボール', type: 'ghost', category: 'special', power: 80, accuracy: 100, pp: 15, description: '黒い影の塊を投げつける' },
+  'あやしいひかり': { name: 'Confuse Ray', nameJa: 'あやしいひかり', type: 'ghost', category: 'status', accuracy: 100, pp: 10, description: '怪しい光で相手を惑わせる' },
+
+  // =================== ドラゴン ===================
+  'りゅうのいかり': { name: 'Dragon Rage', nameJa: 'りゅうのいかり', type: 'dragon', category: 'special', power: 40, accuracy: 100, pp: 10, description: '怒りの衝撃波で攻撃する' },
+  'ドラゴンクロー': { name: 'Dragon Claw', nameJa: 'ドラゴンクロー', type: 'dragon', category: 'physical', power: 80, accuracy: 100, pp: 15, description: '尖った爪で切り裂く' },
+  'りゅうせいぐん': { name: 'Draco Meteor', nameJa: 'りゅうせいぐん', type: 'dragon', category: 'special', power: 130, accuracy: 90, pp: 5, description: '天空から隕石を落とす' },
+
+  // =================== あく ===================
+  'かみつく': { name: 'Bite', nameJa: 'かみつく', type: 'dark', category: 'physical', power: 60, accuracy: 100, pp: 25, description: '鋭い牙で噛みついて攻撃する' },
+  'つじぎり': { name: 'Night Slash', nameJa: 'つじぎり', type: 'dark', category: 'physical', power: 70, accuracy: 100, pp: 15, description: '一瞬の隙をついて切り払う' },
+  'あくのはどう': { name: 'Dark Pulse', nameJa: 'あくのはどう', type: 'dark', category: 'special', power: 80, accuracy: 100, pp: 15, description: '悪意に満ちたオーラを放つ' },
+
+  // =================== はがね ===================
+  'はがねのつばさ': { name: 'Steel Wing', nameJa: 'はがねのつばさ', type: 'steel', category: 'physical', power: 70, accuracy: 90, pp: 25, description: '硬い翼を叩きつける' },
+  'アイアンヘッド': { name: 'Iron Head', nameJa: 'アイアンヘッド', type: 'steel', category: 'physical', power: 80, accuracy: 100, pp: 15, description: '鋼の頭で突進する' },
+  'ラスターカノン': { name: 'Flash Cannon', nameJa: 'ラスターカノン', type: 'steel', category: 'special', power: 80, accuracy: 100, pp: 10, description: '体中の光を集めて発射する' },
+
+  // =================== フェアリー ===================
+  'ようせいのかぜ': { name: 'Fairy Wind', nameJa: 'ようせいのかぜ', type: 'fairy', category: 'special', power: 40, accuracy: 100, pp: 30, description: '妖精の風を起こして吹き付ける' },
+  'じゃれつく': { name: 'Play Rough', nameJa: 'じゃれつく', type: 'fairy', category: 'physical', power: 90, accuracy: 90, pp: 10, description: 'じゃれついて攻撃する' },
+  'ムーンフォース': { name: 'Moonblast', nameJa: 'ムーンフォース', type: 'fairy', category: 'special', power: 95, accuracy: 100, pp: 15, description: '月の力を借りて攻撃する' }
+}
+
+/**
+ * 技定義を取得
+ */
+export const getMoveDefinition = (moveName: string): MoveDefinition | undefined => {
+  return MOVE_DEFINITIONS[moveName]
+}
+
+/**
+ * 全技定義を取得
+ */
+export const getAllMoves = (): MoveDefinition[] => {
+  return Object.values(MOVE_DEFINITIONS)
+}
+
+/**
+ * タイプ別に技定義を取得
+ */
+export const getMovesByType = (type: PokemonType): MoveDefinition[] => {
+  return Object.values(MOVE_DEFINITIONS).filter(move => move.type === type)
+}
+
+/**
+ * 技の最大PPを取得（未登録の技は0）
+ */
+export const getMovePP = (moveName: string): number => {
+  return MOVE_DEFINITIONS[moveName]?.pp ?? 0
+}
@@ -40,7 +40,7 @@ export const POKEMON_SPECIES: Record<number, PokemonSpeciesDefinition> = {
     hiddenAbility: 'Lightning Rod',
     
     levelUpMoves: [
-      { level: 1, move: 'でんき' },
+      { level: 1, move: 'でんきショック' },
       { level: 1, move: 'しっぽをふる' },
       { level: 5, move: 'でんこうせっか' },
       { level: 10, move: 'かみなり' },
@@ -532,26 +532,39 @@ export const getTypeColor = (type: PokemonType): string => {
   return TYPE_DEFINITIONS[type]?.color || '#68A090'
 }
 
+/**
+ * タイプ相性表（攻撃タイプ -> 防御タイプ -> 倍率）
+ * 記載のない組み合わせは等倍
+ */
+export const TYPE_CHART: Record<PokemonType, Partial<Record<PokemonType, number>>> = {
+  normal: { rock: 0.5, ghost: 0, steel: 0.5 },
+  fire: { fire: 0.5, water: 0.5, grass: 2, ice: 2, bug: 2, rock: 0.5, dragon: 0.5, steel: 2 },
+  water: { fire: 2, water: 0.5, grass: 0.5, ground: 2, rock: 2, dragon: 0.5 },
+  electric: { water: 2, electric: 0.5, grass: 0.5, ground: 0, flying: 2, dragon: 0.5 },
+  grass: { fire: 0.5, water: 2, grass: 0.5, poison: 0.5, ground: 2, flying: 0.5, bug: 0.5, rock: 2, dragon: 0.5, steel: 0.5 },
+  ice: { fire: 0.5, water: 0.5, grass: 2, ice: 0.5, ground: 2, flying: 2, dragon: 2, steel: 0.5 },
+  fighting: { normal: 2, ice: 2, poison: 0.5, flying: 0.5, psychic: 0.5, bug: 0.5, rock: 2, ghost: 0, dark: 2, steel: 2, fairy: 0.5 },
+  poison: { grass: 2, poison: 0.5, ground: 0.5, rock: 0.5, ghost: 0.5, steel: 0, fairy: 2 },
+  ground: { fire: 2, electric: 2, grass: 0.5, poison: 2, flying: 0, bug: 0.5, rock: 2, steel: 2 },
+  flying: { electric: 0.5, grass: 2, fighting: 2, bug: 2, rock: 0.5, steel: 0.5 },
+  psychic: { fighting: 2, poison: 2, psychic: 0.5, dark: 0, steel: 0.5 },
+  bug: { fire: 0.5, grass: 2, fighting: 0.5, poison: 0.5, flying: 0.5, psychic: 2, ghost: 0.5, dark: 2, steel: 0.5, fairy: 0.5 },
+  rock: { fire: 2, ice: 2, fighting: 0.5, ground: 0.5, flying: 2, bug: 2, steel: 0.5 },
+  ghost: { normal: 0, psychic: 2, ghost: 2, dark: 0.5 },
+  dragon: { dragon: 2, steel: 0.5, fairy: 0 },
+  dark: { fighting: 0.5, psychic: 2, ghost: 2, dark: 0.5, fairy: 0.5 },
+  steel: { fire: 0.5, water: 0.5, electric: 0.5, ice: 2, rock: 2, steel: 0.5, fairy: 2 },
+  fairy: { fire: 0.5, fighting: 2, poison: 0.5, dragon: 2, dark: 2, steel: 0.5 }
+}
+
 export const getTypeEffectiveness = (attackType: PokemonType, defendType1: PokemonType, defendType2?: PokemonType): number => {
-  // 簡易的なタイプ相性表
-  const effectiveness: Record<string, Record<string, number>> = {
-    fire: { grass: 2, ice: 2, bug: 2, steel: 2, water: 0.5, rock: 0.5, fire: 0.5, dragon: 0.5 },
-    water: { fire: 2, ground: 2, rock: 2, water: 0.5, grass: 0.5, dragon: 0.5 },
-    electric: { water: 2, flying: 2, electric: 0.5, grass: 0.5, dragon: 0.5, ground: 0 },
-    grass: { water: 2, ground: 2, rock: 2, fire: 0.5, grass: 0.5, poison: 0.5, flying: 0.5, bug: 0.5, dragon: 0.5, steel: 0.5 },
-    psychic: { fighting: 2, poison: 2, psychic: 0.5, steel: 0.5, dark: 0 },
-    fighting: { normal: 2, ice: 2, rock: 2, dark: 2, steel: 2, poison: 0.5, flying: 0.5, psychic: 0.5, bug: 0.5, fairy: 0.5, ghost: 0 }
-  }
-  
-  let multiplier = 1
+  const chart = TYPE_CHART[attackType] || {}
   
-  if (effectiveness[attackType] && effectiveness[attackType][defendType1]) {
-    multiplier *= effectiveness[attackType][defendType1]
-  }
+  let multiplier = chart[defendType1] ?? 1
   
-  if (defendType2 && effectiveness[attackType] && effectiveness[attackType][defendType2]) {
-    multiplier *= effectiveness[attackType][defendType2]
+  if (defendType2 && defendType2 !== defendType1) {
+    multiplier *= chart[defendType2] ?? 1
   }
   
   return multiplier
-}
\ No newline at end of file
+}
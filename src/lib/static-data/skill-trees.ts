@@ -0,0 +1,291 @@
+import type { SkillNodeDefinition, SkillTreeDefinition, SpecializationDefinition, TrainerJob } from './types'
+
+/**
+ * 職業ごとのスキルツリー
+ * 能力IDは JobDefinition.specialAbilities と対応し、レベルアップで得たポイントで習得する
+ */
+
+export const SKILL_TREES: Record<TrainerJob, SkillTreeDefinition> = {
+  ranger: {
+    job: 'ranger',
+    nodes: [
+      {
+        id: 'wild_pokemon_tracking',
+        nameJa: '野生ポケモンの追跡',
+        description: '足跡や鳴き声から野生ポケモンを見つけ出す',
+        cost: 1,
+        requires: [],
+        effects: { captureRate: 0.1 }
+      },
+      {
+        id: 'terrain_navigation',
+        nameJa: '地形踏破',
+        description: '険しい地形でも迷わず進める',
+        cost: 1,
+        requires: [],
+        effects: { expeditionSuccess: 0.05 }
+      },
+      {
+        id: 'capture_rate_bonus',
+        nameJa: '捕獲の名手',
+        description: '弱らせたポケモンを逃さない',
+        cost: 2,
+        requires: ['wild_pokemon_tracking'],
+        effects: { captureRate: 0.15 }
+      },
+      {
+        id: 'exploration_speed_bonus',
+        nameJa: '探索の達人',
+        description: '未知の土地でも効率よく探索する',
+        cost: 3,
+        requires: ['terrain_navigation'],
+        effects: { expeditionSuccess: 0.1 }
+      }
+    ],
+    specializations: [
+      {
+        id: 'pokemon_tracker',
+        nameJa: 'トラッカー',
+        description: '野生ポケモンの捕獲に専念する',
+        effects: { captureRate: 0.2 }
+      },
+      {
+        id: 'pathfinder',
+        nameJa: 'パスファインダー',
+        description: '未踏の地を切り開き、知見を持ち帰る',
+        effects: { expeditionSuccess: 0.1, researchSpeed: 0.1 }
+      }
+    ]
+  },
+
+  breeder: {
+    job: 'breeder',
+    nodes: [
+      {
+        id: 'pokemon_happiness_boost',
+        nameJa: 'なつき向上',
+        description: 'ポケモンとの信頼関係がタマゴの質を高める',
+        cost: 1,
+        requires: [],
+        effects: { breedingQuality: 0.1 }
+      },
+      {
+        id: 'pokemon_health_monitoring',
+        nameJa: '健康観察',
+        description: '体調の変化にいち早く気づく',
+        cost: 1,
+        requires: [],
+        effects: { healingRate: 0.1 }
+      },
+      {
+        id: 'status_ailment_treatment',
+        nameJa: '状態異常の手当て',
+        description: '病気やけがの手当てが上手になる',
+        cost: 2,
+        requires: ['pokemon_health_monitoring'],
+        effects: { healingRate: 0.15 }
+      },
+      {
+        id: 'healing_efficiency_bonus',
+        nameJa: '手厚い看護',
+        description: '療養中のポケモンに寄り添い、回復と育成を両立する',
+        cost: 3,
+        requires: ['status_ailment_treatment', 'pokemon_happiness_boost'],
+        effects: { healingRate: 0.2, breedingQuality: 0.1 }
+      }
+    ],
+    specializations: [
+      {
+        id: 'master_breeder',
+        nameJa: '育て屋',
+        description: '優れた個体を生み出すことに専念する',
+        effects: { breedingQuality: 0.3 }
+      },
+      {
+        id: 'pokemon_nurse',
+        nameJa: 'ポケモンナース',
+        description: 'ポケモンの看護を極める',
+        effects: { healingRate: 0.2, breedingQuality: 0.1 }
+      }
+    ]
+  },
+
+  researcher: {
+    job: 'researcher',
+    nodes: [
+      {
+        id: 'pokemon_data_analysis',
+        nameJa: 'データ分析',
+        description: '派遣の記録から多くを学ぶ',
+        cost: 1,
+        requires: [],
+        effects: { researchSpeed: 0.1 }
+      },
+      {
+        id: 'scientific_documentation',
+        nameJa: '学術記録',
+        description: '血統の記録を整理し、育成にも役立てる',
+        cost: 1,
+        requires: [],
+        effects: { researchSpeed: 0.05, breedingQuality: 0.05 }
+      },
+      {
+        id: 'research_efficiency_bonus',
+        nameJa: '研究効率',
+        description: '調査の段取りがよくなる',
+        cost: 2,
+        requires: ['pokemon_data_analysis'],
+        effects: { researchSpeed: 0.2 }
+      },
+      {
+        id: 'rare_discovery_boost',
+        nameJa: '希少種の発見',
+        description: '珍しいポケモンの生息地を見抜く',
+        cost: 3,
+        requires: ['research_efficiency_bonus'],
+        effects: { captureRate: 0.1, expeditionSuccess: 0.05 }
+      }
+    ],
+    specializations: [
+      {
+        id: 'field_researcher',
+        nameJa: 'フィールド研究者',
+        description: '現地調査で新しい発見を重ねる',
+        effects: { researchSpeed: 0.2, captureRate: 0.05 }
+      },
+      {
+        id: 'geneticist',
+        nameJa: '遺伝学者',
+        description: '遺伝の仕組みを研究し、育成に活かす',
+        effects: { breedingQuality: 0.25 }
+      }
+    ]
+  },
+
+  battler: {
+    job: 'battler',
+    nodes: [
+      {
+        id: 'battle_strategy_optimization',
+        nameJa: '戦術最適化',
+        description: '状況に応じた指示でバトルを有利に進める',
+        cost: 1,
+        requires: [],
+        effects: { expeditionSuccess: 0.05 }
+      },
+      {
+        id: 'combat_experience_bonus',
+        nameJa: '実戦経験',
+        description: 'バトルのたびに多くを学ぶ',
+        cost: 1,
+        requires: [],
+        effects: { researchSpeed: 0.1 }
+      },
+      {
+        id: 'aggressive_capture_tactics',
+        nameJa: '攻めの捕獲',
+        description: 'バトルで弱らせてから確実に捕まえる',
+        cost: 2,
+        requires: ['battle_strategy_optimization'],
+        effects: { captureRate: 0.1 }
+      },
+      {
+        id: 'danger_zone_navigation',
+        nameJa: '危険地帯の突破',
+        description: '強敵のいる場所でも引かずに進む',
+        cost: 3,
+        requires: ['battle_strategy_optimization', 'combat_experience_bonus'],
+        effects: { expeditionSuccess: 0.1 }
+      }
+    ],
+    specializations: [
+      {
+        id: 'ace_trainer',
+        nameJa: 'エリートトレーナー',
+        description: 'どんな相手にも勝ち切る',
+        effects: { expeditionSuccess: 0.1, captureRate: 0.05 }
+      },
+      {
+        id: 'vanguard',
+        nameJa: '切り込み隊長',
+        description: 'チームの先頭に立って道を切り開く',
+        effects: { expeditionSuccess: 0.15 }
+      }
+    ]
+  },
+
+  medic: {
+    job: 'medic',
+    nodes: [
+      {
+        id: 'emergency_medical_response',
+        nameJa: '応急処置',
+        description: 'けがをしたらすぐに手当てする',
+        cost: 1,
+        requires: [],
+        effects: { healingRate: 0.1 }
+      },
+      {
+        id: 'team_health_coordination',
+        nameJa: 'チームの健康管理',
+        description: '仲間の体調に気を配り、無理をさせない',
+        cost: 1,
+        requires: [],
+        effects: { expeditionSuccess: 0.05 }
+      },
+      {
+        id: 'medical_equipment_mastery',
+        nameJa: '医療機器の熟練',
+        description: '回復施設の機器を使いこなす',
+        cost: 2,
+        requires: ['emergency_medical_response'],
+        effects: { healingRate: 0.2 }
+      },
+      {
+        id: 'critical_care_expertise',
+        nameJa: '集中治療',
+        description: '重いけがや病気からも早く回復させる',
+        cost: 3,
+        requires: ['medical_equipment_mastery'],
+        effects: { healingRate: 0.3 }
+      }
+    ],
+    specializations: [
+      {
+        id: 'field_medic',
+        nameJa: 'フィールドメディック',
+        description: '派遣先でもチームを支える',
+        effects: { expeditionSuccess: 0.1, healingRate: 0.1 }
+      },
+      {
+        id: 'chief_physician',
+        nameJa: '医長',
+        description: '学校の療養を取り仕切る',
+        effects: { healingRate: 0.4 }
+      }
+    ]
+  }
+}
+
+/**
+ * スキルツリーへのアクセス関数
+ */
+export const getSkillTree = (job: TrainerJob): SkillTreeDefinition => {
+  return SKILL_TREES[job]
+}
+
+export const getSkillNode = (abilityId: string): SkillNodeDefinition | undefined => {
+  for (const tree of Object.values(SKILL_TREES)) {
+    const node = tree.nodes.find(n => n.id === abilityId)
+    if (node) return node
+  }
+  return undefined
+}
+
+export const getSpecialization = (specializationId: string): SpecializationDefinition | undefined => {
+  for (const tree of Object.values(SKILL_TREES)) {
+    const specialization = tree.specializations.find(s => s.id === specializationId)
+    if (specialization) return specialization
+  }
+  return undefined
+}
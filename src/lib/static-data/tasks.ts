@@ -0,0 +1,131 @@
+import type { TaskTemplate } from './types'
+
+/**
+ * デイリー・ウィークリータスクのテンプレート
+ * 毎日／毎週この中から抽選し、目標値を targetRange 内で決定する
+ */
+
+export const TASK_TEMPLATES: Record<string, TaskTemplate> = {
+  // =================== デイリー ===================
+  daily_catch_any: {
+    id: 'daily_catch_any',
+    period: 'daily',
+    type: 'catch_pokemon',
+    description: 'ポケモンを{target}匹捕獲する',
+    targetRange: [2, 4],
+    difficulty: 'easy',
+    rewards: { money: 300, experience: 20, items: [] }
+  },
+  daily_catch_bug_forest: {
+    id: 'daily_catch_bug_forest',
+    period: 'daily',
+    type: 'catch_pokemon',
+    description: 'トキワの森でむしタイプを{target}匹捕獲する',
+    targetRange: [2, 3],
+    difficulty: 'medium',
+    filters: { locationId: 1, pokemonType: 'bug' },
+    rewards: { money: 500, experience: 30, items: [{ itemId: 'berry_oran', quantity: 2 }] }
+  },
+  daily_catch_route: {
+    id: 'daily_catch_route',
+    period: 'daily',
+    type: 'catch_pokemon',
+    description: '22番道路でポケモンを{target}匹捕獲する',
+    targetRange: [1, 2],
+    difficulty: 'medium',
+    filters: { locationId: 2 },
+    rewards: { money: 600, experience: 30, items: [] }
+  },
+  daily_safe_expedition: {
+    id: 'daily_safe_expedition',
+    period: 'daily',
+    type: 'complete_expedition',
+    description: '安全重視の派遣を{target}回成功させる',
+    targetRange: [1, 2],
+    difficulty: 'easy',
+    filters: { expeditionMode: 'safe' },
+    rewards: { money: 400, experience: 20, items: [{ itemId: 'potion', quantity: 1 }] }
+  },
+  daily_expedition: {
+    id: 'daily_expedition',
+    period: 'daily',
+    type: 'complete_expedition',
+    description: '派遣を{target}回成功させる',
+    targetRange: [2, 3],
+    difficulty: 'easy',
+    rewards: { money: 350, experience: 15, items: [] }
+  },
+  daily_use_item: {
+    id: 'daily_use_item',
+    period: 'daily',
+    type: 'use_item',
+    description: 'アイテムを{target}個使用する',
+    targetRange: [1, 3],
+    difficulty: 'easy',
+    rewards: { money: 200, experience: 10, items: [] }
+  },
+
+  // =================== ウィークリー ===================
+  weekly_catch_any: {
+    id: 'weekly_catch_any',
+    period: 'weekly',
+    type: 'catch_pokemon',
+    description: 'ポケモンを{target}匹捕獲する',
+    targetRange: [10, 15],
+    difficulty: 'medium',
+    rewards: { money: 400, experience: 30, items: [{ itemId: 'capture_lure', quantity: 1 }] }
+  },
+  weekly_exploration_expedition: {
+    id: 'weekly_exploration_expedition',
+    period: 'weekly',
+    type: 'complete_expedition',
+    description: '探索重視の派遣を{target}回成功させる',
+    targetRange: [3, 5],
+    difficulty: 'medium',
+    filters: { expeditionMode: 'exploration' },
+    rewards: { money: 1200, experience: 60, items: [] }
+  },
+  weekly_cave_expedition: {
+    id: 'weekly_cave_expedition',
+    period: 'weekly',
+    type: 'complete_expedition',
+    description: 'ハナダの洞窟への派遣を{target}回成功させる',
+    targetRange: [2, 3],
+    difficulty: 'hard',
+    filters: { locationId: 4 },
+    rewards: { money: 2500, experience: 100, items: [{ itemId: 'super_potion', quantity: 3 }] }
+  },
+  weekly_expedition_money: {
+    id: 'weekly_expedition_money',
+    period: 'weekly',
+    type: 'earn_expedition_money',
+    description: '派遣報酬で₽{target}稼ぐ',
+    targetRange: [20000, 40000],
+    difficulty: 'hard',
+    rewards: { money: 0.25, experience: 0.005, items: [] }
+  },
+  weekly_catch_rock_mountain: {
+    id: 'weekly_catch_rock_mountain',
+    period: 'weekly',
+    type: 'catch_pokemon',
+    description: 'シロガネ山でいわタイプのポケモンを{target}匹捕獲する',
+    targetRange: [2, 3],
+    difficulty: 'hard',
+    filters: { locationId: 3, pokemonType: 'rock' },
+    rewards: { money: 1500, experience: 80, items: [{ itemId: 'moon_stone', quantity: 1 }] }
+  }
+}
+
+/**
+ * タスクテンプレートを取得
+ */
+export const getTaskTemplate = (templateId: string): TaskTemplate | undefined => {
+  return TASK_TEMPLATES[templateId]
+}
+
+/**
+ * 期間別にタスクテンプレートを取得
+ */
+export const getTaskTemplatesByPeriod = (period: TaskTemplate['period']): TaskTemplate[] => {
+  return Object.values(TASK_TEMPLATES).filter(template => template.period === period)
+}
@@ -0,0 +1,86 @@
+import type { TrainingCourseDefinition } from './types'
+
+/**
+ * トレーナー研修コース
+ * 訓練所の教室・訓練場で受講し、修了するとスキルや個性が伸びる
+ */
+
+export const TRAINING_COURSES: Record<string, TrainingCourseDefinition> = {
+  capture_workshop: {
+    id: 'capture_workshop',
+    nameJa: '捕獲ワークショップ',
+    description: 'ボールの投げ方と弱らせ方を実演で学ぶ',
+    durationHours: 2,
+    cost: 2000,
+    minLevel: 1,
+    skillGains: { capture: 1 },
+    personalityGains: { curiosity: 1 },
+    experience: 40
+  },
+  first_aid_class: {
+    id: 'first_aid_class',
+    nameJa: '応急手当て教室',
+    description: 'けがをしたポケモンと仲間の手当てを身につける',
+    durationHours: 3,
+    cost: 2500,
+    minLevel: 1,
+    skillGains: { healing: 1 },
+    personalityGains: { caution: 1 },
+    experience: 50
+  },
+  research_lecture: {
+    id: 'research_lecture',
+    nameJa: '生態学講義',
+    description: 'ポケモンの生態と調査の記録方法を学ぶ',
+    durationHours: 3,
+    cost: 3000,
+    minLevel: 1,
+    skillGains: { research: 1 },
+    personalityGains: { curiosity: 1 },
+    experience: 50
+  },
+  battle_seminar: {
+    id: 'battle_seminar',
+    nameJa: 'バトルセミナー',
+    description: 'タイプ相性と指示の出し方を模擬戦で鍛える',
+    durationHours: 4,
+    cost: 3500,
+    minLevel: 2,
+    skillGains: { battle: 1 },
+    personalityGains: { courage: 1 },
+    experience: 70
+  },
+  survival_course: {
+    id: 'survival_course',
+    nameJa: 'サバイバル講習',
+    description: '野営と悪天候での行動を泊まり込みで学ぶ',
+    durationHours: 6,
+    cost: 4500,
+    minLevel: 3,
+    skillGains: { exploration: 1, healing: 1 },
+    personalityGains: { courage: 1, caution: 1 },
+    experience: 100
+  },
+  teamwork_camp: {
+    id: 'teamwork_camp',
+    nameJa: 'チームワーク合宿',
+    description: '仲間と協力する課題に取り組み、独断専行を改める',
+    durationHours: 8,
+    cost: 5000,
+    minLevel: 3,
+    skillGains: {},
+    personalityGains: { teamwork: 2, compliance: 1, independence: -1 },
+    experience: 120
+  }
+}
+
+/**
+ * 研修コースへのアクセス関数
+ */
+export const getTrainingCourse = (courseId: string): TrainingCourseDefinition | undefined => {
+  return TRAINING_COURSES[courseId]
+}
+
+export const getAllTrainingCourses = (): TrainingCourseDefinition[] => {
+  return Object.values(TRAINING_COURSES)
+}
@@ -34,7 +34,7 @@ export interface JobDefinition {
     compliance: number   // -2 to 2
   }
   
-  // 特殊能力
+  // 特殊能力（スキルツリーの能力ID）
   specialAbilities: string[]
   
   // 成長率
@@ -58,6 +58,52 @@ export interface JobDefinition {
   }
 }
 
+// スキルツリーの能力による効果（割合の加算。0.1 で +10%）
+export interface AbilityEffects {
+  expeditionSuccess?: number // 派遣の成功度
+  captureRate?: number       // 野生ポケモンの捕獲率
+  breedingQuality?: number   // タマゴへの個体値・性格の遺伝
+  researchSpeed?: number     // 派遣から得る知見（トレーナー経験値）
+  healingRate?: number       // 療養の回復速度
+}
+
+// スキルツリーの能力
+export interface SkillNodeDefinition {
+  id: string
+  nameJa: string
+  description: string
+  cost: number         // 必要なスキルポイント
+  requires: string[]   // 先に習得が必要な能力
+  effects: AbilityEffects
+}
+
+// 一定レベルで選べる専門分野（1人1つ）
+export interface SpecializationDefinition {
+  id: string
+  nameJa: string
+  description: string
+  effects: AbilityEffects
+}
+
+export interface SkillTreeDefinition {
+  job: TrainerJob
+  nodes: SkillNodeDefinition[]
+  specializations: SpecializationDefinition[]
+}
+
+// トレーナー研修コース
+export interface TrainingCourseDefinition {
+  id: string
+  nameJa: string
+  description: string
+  durationHours: number
+  cost: number
+  minLevel: number
+  skillGains: Partial<Record<keyof JobDefinition['skillAffinities'], number>>
+  personalityGains: Partial<Record<keyof JobDefinition['personalityTendencies'], number>>
+  experience: number // 修了時に得るトレーナー経験値
+}
+
 // 派遣先定義
 export interface LocationDefinition {
   id: number
@@ -164,10 +210,7 @@ export interface PokemonSpeciesDefinition {
   hiddenAbility?: string
   
   // 習得技
-  levelUpMoves: {
-    level: number
-    move: string
-  }[]
+  levelUpMoves: LearnsetEntry[]
   
   // 進化
   evolutionChain?: {
@@ -229,6 +272,13 @@ export interface TypeDefinition {
   effectiveness: Record<PokemonType, number>
 }
 
+export interface LearnsetEntry {
+  level: number
+  move: string
+}
+
+export type StatusConditionType = 'sleep' | 'paralysis' | 'freeze' | 'burn' | 'poison'
+
 export interface MoveDefinition {
   name: string
   nameJa: string
@@ -237,5 +287,93 @@ export interface MoveDefinition {
   power?: number
   accuracy: number
   pp: number
+  priority?: number // 先制技は正、後攻技は負
+  statusEffect?: {
+    condition: StatusConditionType
+    chance: number // 0.0 to 1.0
+  }
+  description: string
+}
+
+export interface ItemDefinition {
+  id: string
+  name: string
+  nameJa: string
+  type: 'medicine' | 'tool' | 'rare' | 'consumable'
+  usage: 'healing' | 'capture' | 'evolution' | 'breeding' | 'effort' | 'none'
+  description: string
+  value: number
+  maxStack: number
+  effects: {
+    healing?: number // HP回復量（0以下で全回復）
+    recoveryHours?: number // けが・病気の療養期間の短縮（時間）
+    experienceBoost?: number
+    captureRateBoost?: number // 捕獲率への加算倍率（0.5 = +50%）
+    inheritedIVs?: number // 育て屋で持たせると遺伝する個体値の数
+    keepsNature?: boolean // 育て屋で持たせると性格を必ず受け継がせる
+    effortReduction?: number // 努力値を減らす量（0以下で全て消す）
+    effortStat?: 'hp' | 'attack' | 'defense' | 'specialAttack' | 'specialDefense' | 'speed' // 省略時は全能力
+  }
+}
+
+export type AchievementMetric = 'pokemon_caught' | 'expeditions_completed' | 'money' | 'facility_level'
+
+export type AchievementTier = 'bronze' | 'silver' | 'gold' | 'platinum' | 'legendary'
+
+export interface AchievementDefinition {
+  id: string
+  title: string
   description: string
-}
\ No newline at end of file
+  category: 'capture' | 'expedition' | 'economy' | 'facility'
+  tier: AchievementTier
+  points: number
+  metric: AchievementMetric
+  target: number
+  rewards: {
+    money?: number
+    items?: Array<{ itemId: string; quantity: number }>
+    titles?: string[]
+  }
+  hidden: boolean
+}
+
+export type EventRarity = 'common' | 'uncommon' | 'rare' | 'ultra_rare' | 'legendary' | 'mythical'
+
+export interface GameEventDefinition {
+  id: string
+  name: string
+  description: string
+  kind: 'seasonal' | 'special'
+  season?: 'spring' | 'summer' | 'autumn' | 'winter'
+  specialType?: 'limited' | 'celebration' | 'collaboration' | 'emergency'
+  startDate: string // YYYY-MM-DD（毎年開催は MM-DD）
+  endDate: string // 終了日を含む
+  effects: {
+    encounterBonuses?: Partial<Record<EventRarity, number>>
+    specialPokemon?: number[]
+    rewardMultiplier?: number
+    shopPriceMultiplier?: number
+    discountedItems?: string[] // 未指定ならショップ全品が対象
+  }
+}
+
+export type TaskType = 'catch_pokemon' | 'complete_expedition' | 'earn_expedition_money' | 'use_item'
+
+export interface TaskTemplate {
+  id: string
+  period: 'daily' | 'weekly'
+  type: TaskType
+  description: string // {target} を目標値に置換
+  targetRange: [number, number]
+  difficulty: 'easy' | 'medium' | 'hard'
+  filters?: {
+    locationId?: number
+    pokemonType?: PokemonType
+    expeditionMode?: 'exploration' | 'balanced' | 'safe' | 'aggressive'
+  }
+  rewards: {
+    money: number // 目標値1あたりの報酬額
+    experience: number
+    items: Array<{ itemId: string; quantity: number }>
+  }
+}
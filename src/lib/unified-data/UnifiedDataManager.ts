@@ -13,12 +13,15 @@ import type {
   RepairResult,
   SyncResult,
   BackupData,
+  MigrationResult,
   DataStatistics,
   PerformanceMetrics,
   CacheInfo,
   DataAccessLog
 } from './types'
 import type { GameData } from '../game-state/types'
+import { isMigrationRequired, migrateUnifiedSaveData } from '../game-state/migrations'
+import { CURRENT_GAME_VERSION } from '../game-data/GameDataSchema'
 import { safeLocalStorage } from '../storage';
 
 export class UnifiedDataManager {
@@ -126,12 +129,20 @@ export class UnifiedDataManager {
         dataString = this.decompressData(stored)
       }
       
-      const unifiedData = JSON.parse(dataString) as UnifiedSaveData
+      let unifiedData = JSON.parse(dataString) as UnifiedSaveData
       
-      // バージョン互換性チェック
-      if (unifiedData.version !== '1.0.0') {
-        console.warn('⚠️ セーブデータのバージョンが異なります:', unifiedData.version)
-        // 必要に応じてマイグレーション実行
+      // 旧バージョンのデータは現行バージョンへ変換
+      if (this.needsMigration(unifiedData)) {
+        const { data, report } = migrateUnifiedSaveData(unifiedData)
+        if (!data) {
+          throw new Error(`Migration failed: ${report.error}`)
+        }
+        console.log('🔄 統合セーブデータをマイグレーション:', {
+          from: report.fromVersion,
+          to: report.toVersion,
+          migrations: report.appliedMigrations
+        })
+        unifiedData = data
       }
       
       // 検証実行
@@ -315,8 +326,14 @@ export class UnifiedDataManager {
    * バックアップを作成
    */
   async createBackup(type: BackupData['type'] = 'manual'): Promise<string> {
+    return this.storeBackup(await this.createUnifiedSaveData(), type)
+  }
+  
+  /**
+   * 統合セーブデータをバックアップとして保存
+   */
+  private async storeBackup(unifiedData: UnifiedSaveData, type: BackupData['type']): Promise<string> {
     try {
-      const unifiedData = await this.createUnifiedSaveData()
       const backupId = `backup_${Date.now()}_${type}`
       
       let serializedData = JSON.stringify(unifiedData)
@@ -371,8 +388,15 @@ export class UnifiedDataManager {
       const currentBackupId = await this.createBackup('manual')
       console.log('💾 現在のデータをバックアップ:', currentBackupId)
       
+      // 旧バージョンのバックアップは現行バージョンへ変換してから復元
+      const { data: restoredData, report } = migrateUnifiedSaveData(backup.data)
+      if (!restoredData) {
+        console.error('❌ バックアップのマイグレーションに失敗:', report.error)
+        return false
+      }
+      
       // データ復元
-      const serializedData = JSON.stringify(backup.data)
+      const serializedData = JSON.stringify(restoredData)
       safeLocalStorage.setItem('tokiwa-unified-save', serializedData)
       
       console.log('📦 バックアップから復元完了:', {
@@ -439,6 +463,83 @@ export class UnifiedDataManager {
     return deletedCount
   }
   
+  // =================== マイグレーション ===================
+  
+  /**
+   * 保存済みの統合セーブデータにマイグレーションが必要か判定
+   */
+  checkMigrationRequired(): boolean {
+    const stored = this.readStoredSave()
+    return !!stored && this.needsMigration(stored)
+  }
+  
+  /**
+   * 保存済みの統合セーブデータを指定バージョンへ変換（変換前の状態はバックアップ）
+   */
+  async migrateData(targetVersion: string = CURRENT_GAME_VERSION): Promise<MigrationResult> {
+    const stored = this.readStoredSave()
+    const fromVersion = stored?.gameData?.version ?? 'unknown'
+    
+    if (!stored) {
+      return { success: false, fromVersion, toVersion: targetVersion, appliedMigrations: [], backupCreated: false, error: 'Save data not found' }
+    }
+    if (!this.needsMigration(stored, targetVersion)) {
+      return { success: true, fromVersion, toVersion: targetVersion, appliedMigrations: [], backupCreated: false }
+    }
+    
+    try {
+      const backupId = await this.storeBackup(stored, 'pre_update')
+      const { data, report } = migrateUnifiedSaveData(stored, { targetVersion })
+      
+      if (data) {
+        let serializedData = JSON.stringify(data, null, 2)
+        if (this.config.performance.enableCompression) {
+          serializedData = this.compressData(serializedData)
+        }
+        safeLocalStorage.setItem('tokiwa-unified-save', serializedData)
+      }
+      
+      console.log(data ? '🔄 マイグレーション完了:' : '❌ マイグレーション失敗:', report)
+      
+      return {
+        success: report.success,
+        fromVersion,
+        toVersion: targetVersion,
+        appliedMigrations: report.appliedMigrations,
+        backupCreated: true,
+        backupId,
+        error: report.error
+      }
+    } catch (error) {
+      console.error('❌ マイグレーションエラー:', error)
+      return {
+        success: false,
+        fromVersion,
+        toVersion: targetVersion,
+        appliedMigrations: [],
+        backupCreated: false,
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+  
+  private needsMigration(data: UnifiedSaveData, targetVersion: string = CURRENT_GAME_VERSION): boolean {
+    return isMigrationRequired(data.gameData?.version ?? '0.0.0', targetVersion)
+  }
+  
+  private readStoredSave(): UnifiedSaveData | null {
+    const stored = safeLocalStorage.getItem('tokiwa-unified-save')
+    if (!stored) return null
+    
+    try {
+      const dataString = this.config.performance.enableCompression ? this.decompressData(stored) : stored
+      return JSON.parse(dataString) as UnifiedSaveData
+    } catch (error) {
+      console.warn('⚠️ 統合セーブデータを解析できません:', error)
+      return null
+    }
+  }
+  
   // =================== プライベートメソッド ===================
   
   /**
@@ -449,7 +550,7 @@ export class UnifiedDataManager {
     const staticValidation = this.staticDataManager.validateData()
     
     return {
-      version: '1.0.0',
+      version: CURRENT_GAME_VERSION,
       userId: gameData.userId,
       createdAt: gameData.createdAt,
       lastSaved: new Date().toISOString(),
@@ -662,6 +763,33 @@ export class UnifiedDataManager {
       }
     })
     
+    // 育て屋・訓練施設のポケモン参照チェック（手放したポケモンの交配・訓練は進められない）
+    const pokemonIds = new Set(gameData.pokemon.map(p => p.id))
+    gameData.breeding.sessions.forEach((session, index) => {
+      if (!pokemonIds.has(session.parent1Id) || !pokemonIds.has(session.parent2Id)) {
+        warnings.push({
+          type: 'invalid_reference',
+          severity: 'warning',
+          message: `交配${index}が存在しないポケモンを参照`,
+          location: `breeding.sessions[${index}]`,
+          autoFixable: true,
+          suggestedFix: '交配を取り消す'
+        })
+      }
+    })
+    gameData.pokemonTraining.slots.forEach((slot, index) => {
+      if (!pokemonIds.has(slot.pokemonId)) {
+        warnings.push({
+          type: 'invalid_reference',
+          severity: 'warning',
+          message: `訓練枠${index}が存在しないポケモンを参照`,
+          location: `pokemonTraining.slots[${index}].pokemonId`,
+          autoFixable: true,
+          suggestedFix: '訓練枠を解放する'
+        })
+      }
+    })
+    
     return { errors, warnings }
   }
   
@@ -14,13 +14,20 @@ export interface TrainerParty {
   averageLevel: number
 }
 
+export interface TrainerCondition {
+  fatigue: number // 0-100
+  morale: number // 0-100
+  burnout: number // 0.0 to 1.0
+}
+
 export interface TrainerSummary {
   id: string
   name: string
   job: TrainerJob
-  status: 'available' | 'on_expedition' | 'training' | 'injured' | 'busy'
+  status: 'available' | 'on_expedition' | 'training' | 'injured' | 'resting' | 'busy'
   party: TrainerParty
   trustLevel: number
+  condition?: TrainerCondition
   salary: number
   spritePath: string
 }